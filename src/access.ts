@@ -0,0 +1,214 @@
+/**
+ * Role-based access control for the dashboard API (on top of auth.ts).
+ *
+ * Every request that passes the login check gets a principal — a signed-in
+ * user or an API key — with a set of scopes:
+ *
+ *   read   view processes, jobs, deliveries, usage, repos and pricing
+ *   runs   start, continue and cancel runs, retry jobs, replay deliveries
+ *   admin  repos, pricing, settings and API keys
+ *
+ * Users get scopes through their role: viewer (read), operator (read, runs)
+ * or admin (everything). Roles are assigned in the `access_roles` setting:
+ *
+ *   { "defaultRole": "viewer",
+ *     "users": { "alice": { "role": "operator", "repos": ["acme/api"] },
+ *                "bob@example.com": { "role": "admin" } } }
+ *
+ * `repos` restricts run actions to those repositories. AUTH_ADMINS names
+ * admins outside the setting, so there is always someone who can edit it.
+ * API keys carry their own scopes and repos.
+ *
+ * Without AUTH_PROVIDER there is no principal and nothing is enforced.
+ */
+
+import crypto from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import type { ApiKey, ApiKeyRepository } from './api-key-repository.js';
+import type { SettingsRepository } from './settings-repository.js';
+import type { SessionUser } from './session-repository.js';
+
+export const ACCESS_ROLES_KEY = 'access_roles';
+
+export type Role = 'viewer' | 'operator' | 'admin';
+export type Scope = 'read' | 'runs' | 'admin';
+
+export const ROLE_SCOPES: Record<Role, Scope[]> = {
+  viewer: ['read'],
+  operator: ['read', 'runs'],
+  admin: ['read', 'runs', 'admin'],
+};
+
+const ROLES = new Set<string>(Object.keys(ROLE_SCOPES));
+const SCOPES = new Set<string>(['read', 'runs', 'admin']);
+const REPO_NAME = /^[^/\s]+\/[^/\s]+$/;
+
+export interface RoleGrant {
+  role: Role;
+  /** "owner/repo" names run actions are limited to; all repos when omitted */
+  repos?: string[];
+}
+
+export interface AccessRoleSettings {
+  /** Role for signed-in users without an entry; "none" refuses them. Default: viewer */
+  defaultRole?: Role | 'none';
+  /** Keyed by login or email (case-insensitive) */
+  users?: Record<string, RoleGrant>;
+}
+
+/** Who is making a request, and what they may do. */
+export interface Principal {
+  kind: 'user' | 'api_key';
+  /** User login, or the API key's name */
+  name: string;
+  role?: Role;
+  keyId?: number;
+  scopes: Scope[];
+  /** Repos run actions are limited to; undefined for all */
+  repos?: string[];
+}
+
+/** Who started a process, as recorded on the process. */
+export interface StartedBy {
+  kind: 'user' | 'api_key';
+  name: string;
+  keyId?: number;
+}
+
+function checkRepos(repos: unknown, where: string): void {
+  if (!Array.isArray(repos) || repos.some(r => typeof r !== 'string' || !REPO_NAME.test(r))) {
+    throw new Error(`${where} must be a list of "owner/repo" names`);
+  }
+}
+
+/** Validate the `access_roles` setting. Throws a readable error. */
+export function parseAccessRoleSettings(raw: unknown): AccessRoleSettings {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`${ACCESS_ROLES_KEY} must be an object`);
+  const settings = raw as Record<string, unknown>;
+
+  if (settings.defaultRole !== undefined && settings.defaultRole !== 'none' && !ROLES.has(settings.defaultRole as string)) {
+    throw new Error(`${ACCESS_ROLES_KEY}.defaultRole must be one of: none, ${[...ROLES].join(', ')}`);
+  }
+  const users = settings.users;
+  if (users !== undefined) {
+    if (!users || typeof users !== 'object' || Array.isArray(users)) throw new Error(`${ACCESS_ROLES_KEY}.users must be an object`);
+    for (const [name, grant] of Object.entries(users)) {
+      const where = `${ACCESS_ROLES_KEY}.users.${name}`;
+      if (!grant || typeof grant !== 'object' || !ROLES.has((grant as RoleGrant).role)) {
+        throw new Error(`${where}.role must be one of: ${[...ROLES].join(', ')}`);
+      }
+      if ((grant as RoleGrant).repos !== undefined) checkRepos((grant as RoleGrant).repos, `${where}.repos`);
+    }
+  }
+  return settings as AccessRoleSettings;
+}
+
+/** Validate API key scopes. Throws a readable error. */
+export function parseScopes(raw: unknown): Scope[] {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.some(s => !SCOPES.has(s))) {
+    throw new Error(`scopes must be a non-empty list of: ${[...SCOPES].join(', ')}`);
+  }
+  return [...new Set(raw as Scope[])];
+}
+
+export function parseRepoList(raw: unknown, where = 'repos'): string[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  checkRepos(raw, where);
+  return raw as string[];
+}
+
+/**
+ * The principal for a signed-in user, or undefined when the user has no
+ * role (defaultRole "none" and no entry).
+ */
+export function resolveUserPrincipal(user: SessionUser, settings: AccessRoleSettings, admins: string[] = []): Principal | undefined {
+  const names = [user.login, user.email].filter(Boolean).map(n => n!.toLowerCase());
+  if (admins.some(a => names.includes(a.toLowerCase()))) {
+    return { kind: 'user', name: user.login, role: 'admin', scopes: ROLE_SCOPES.admin };
+  }
+  const grant = Object.entries(settings.users ?? {}).find(([name]) => names.includes(name.toLowerCase()))?.[1];
+  const role = grant?.role ?? settings.defaultRole ?? 'viewer';
+  if (role === 'none') return undefined;
+  return { kind: 'user', name: user.login, role, scopes: ROLE_SCOPES[role], repos: grant?.repos };
+}
+
+/** Load the `access_roles` setting; a malformed value is logged and treated as empty. */
+export async function loadAccessRoleSettings(settingsRepository?: SettingsRepository): Promise<AccessRoleSettings> {
+  if (!settingsRepository) return {};
+  try {
+    return parseAccessRoleSettings(await settingsRepository.get(ACCESS_ROLES_KEY));
+  } catch (err) {
+    console.error(`[access] Ignoring ${ACCESS_ROLES_KEY}: ${err instanceof Error ? err.message : err}`);
+    return {};
+  }
+}
+
+// ── API keys ─────────────────────────────────────────────────────────────────
+
+const API_KEY_PREFIX = 'dak_';
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/** A new random API key, its hash and its display prefix. */
+export function generateApiKey(): { key: string; keyHash: string; prefix: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { key, keyHash: hashApiKey(key), prefix: key.slice(0, API_KEY_PREFIX.length + 8) };
+}
+
+/** API key without its hash, for listings. */
+export function describeApiKey(key: ApiKey): Omit<ApiKey, 'keyHash'> {
+  const { keyHash: _keyHash, ...rest } = key;
+  return rest;
+}
+
+/** The principal for an API key, or undefined when unknown, revoked or expired. */
+export async function authenticateApiKey(apiKeyRepository: ApiKeyRepository, key: string): Promise<Principal | undefined> {
+  if (!key.startsWith(API_KEY_PREFIX)) return undefined;
+  const record = await Promise.resolve(apiKeyRepository.getByHash(hashApiKey(key)));
+  if (!record || record.revokedAt) return undefined;
+  if (record.expiresAt && Date.parse(record.expiresAt) <= Date.now()) return undefined;
+  Promise.resolve(apiKeyRepository.markUsed(record.id)).catch(err =>
+    console.error(`[access] Failed to record use of API key ${record.id}:`, err),
+  );
+  return { kind: 'api_key', name: record.name, keyId: record.id, scopes: record.scopes as Scope[], repos: record.repos };
+}
+
+// ── Enforcement ──────────────────────────────────────────────────────────────
+
+export function getPrincipal(res: Response): Principal | undefined {
+  return res.locals.principal as Principal | undefined;
+}
+
+/** Route middleware: 403 unless the principal has the scope. A no-op without login. */
+export function requireScope(scope: Scope) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const principal = getPrincipal(res);
+    if (!principal || principal.scopes.includes(scope)) return next();
+    res.status(403).json({ error: `Forbidden: requires the "${scope}" scope` });
+  };
+}
+
+/** Whether the principal may run actions on the repo. */
+export function canUseRepo(principal: Principal | undefined, fullName: string): boolean {
+  if (!principal?.repos) return true;
+  return principal.repos.some(r => r.toLowerCase() === fullName.toLowerCase());
+}
+
+/** Answer 403 when the principal may not run actions on the repo. */
+export function refuseRepo(res: Response, fullName: string): boolean {
+  if (canUseRepo(getPrincipal(res), fullName)) return false;
+  res.status(403).json({ error: `Forbidden: not allowed to run on ${fullName}` });
+  return true;
+}
+
+/** Attribution for processes started by the request. */
+export function startedBy(res: Response): StartedBy | undefined {
+  const principal = getPrincipal(res);
+  if (!principal) return undefined;
+  return principal.kind === 'api_key'
+    ? { kind: 'api_key', name: principal.name, keyId: principal.keyId }
+    : { kind: 'user', name: principal.name };
+}
@@ -0,0 +1,70 @@
+/**
+ * A long-lived API key for scripts and CI. Only a SHA-256 hash of the key
+ * is stored; the key itself is shown once, when it is created.
+ */
+export interface ApiKey {
+  id: number;
+  name: string;
+  /** First characters of the key, to recognize it in listings */
+  prefix: string;
+  keyHash: string;
+  /** "read", "runs" and/or "admin" (see access.ts) */
+  scopes: string[];
+  /** "owner/repo" names the key may start runs on; undefined for all repos */
+  repos?: string[];
+  createdBy: string;
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export type NewApiKey = Pick<ApiKey, 'name' | 'prefix' | 'keyHash' | 'scopes' | 'repos' | 'createdBy' | 'expiresAt'>;
+
+/**
+ * Repository interface for API keys.
+ */
+export interface ApiKeyRepository {
+  create(key: NewApiKey): ApiKey | Promise<ApiKey>;
+  list(): ApiKey[] | Promise<ApiKey[]>;
+  getByHash(keyHash: string): ApiKey | undefined | Promise<ApiKey | undefined>;
+  /** Revoke a key. Returns false when unknown or already revoked. */
+  revoke(id: number): boolean | Promise<boolean>;
+  markUsed(id: number): void | Promise<void>;
+}
+
+/**
+ * In-memory API key repository for use without a database. Keys are lost
+ * on restart.
+ */
+export class InMemoryApiKeyRepository implements ApiKeyRepository {
+  private keys: ApiKey[] = [];
+  private nextId = 1;
+
+  create(key: NewApiKey): ApiKey {
+    const record: ApiKey = { ...key, id: this.nextId++, createdAt: new Date().toISOString() };
+    this.keys.push(record);
+    return { ...record };
+  }
+
+  list(): ApiKey[] {
+    return this.keys.map(k => ({ ...k }));
+  }
+
+  getByHash(keyHash: string): ApiKey | undefined {
+    const key = this.keys.find(k => k.keyHash === keyHash);
+    return key ? { ...key } : undefined;
+  }
+
+  revoke(id: number): boolean {
+    const key = this.keys.find(k => k.id === id);
+    if (!key || key.revokedAt) return false;
+    key.revokedAt = new Date().toISOString();
+    return true;
+  }
+
+  markUsed(id: number): void {
+    const key = this.keys.find(k => k.id === id);
+    if (key) key.lastUsedAt = new Date().toISOString();
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * Plan approval gate: a human signs off on the plan before the coder changes
+ * anything.
+ *
+ *   { "required": true, "timeoutHours": 72 }
+ *
+ * When the architect saves its `architect_plan` (or, without a context store,
+ * when the coder first tries to change something) the plan is posted as an
+ * issue comment and the run waits in `awaiting_approval`. It resumes when a
+ * maintainer reacts 👍 to that comment, comments `/approve`, or approves the
+ * run in the dashboard. `/reject <reason>` hands the reason back to the
+ * architect, which revises the plan and saves it again for another round.
+ * With no decision within `timeoutHours` the run fails.
+ *
+ * The global gate comes from APPROVAL_REQUIRED / APPROVAL_TIMEOUT_HOURS
+ * (config.approval); a repo's `configJson.approval` overrides it field by
+ * field. Dry runs and continue runs on an existing PR are never gated.
+ */
+
+import type { tool } from 'langchain';
+import type { Config } from './config.js';
+import { createGitHubClient, getAuthFromConfig } from './github-tools.js';
+import type { RepoRepository } from './repo-repository.js';
+import type { ScmProvider } from './scm-provider.js';
+import { COMMAND_REPLY_MARKER, getCommenterPermission, hasPermission } from './slash-commands.js';
+import type { PermissionLevel } from './slash-commands.js';
+
+export interface ApprovalPolicy {
+  required: boolean;
+  /** Hours a plan waits for a decision before the run fails */
+  timeoutHours: number;
+}
+
+/** Approval section of the global config or a repo's configJson. */
+export interface ApprovalConfig {
+  required?: boolean;
+  timeoutHours?: number;
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  required: false,
+  timeoutHours: 72,
+};
+
+/** Marker on plan comments, next to COMMAND_REPLY_MARKER. */
+export const PLAN_APPROVAL_MARKER = '<!-- deep-agent-plan-approval -->';
+
+/** Who may approve with a 👍 reaction; `/approve` and `/reject` ask the same. */
+const APPROVER_PERMISSION: PermissionLevel = 'maintain';
+const REACTION_POLL_MS = 30_000;
+
+export interface ApprovalDecision {
+  approved: boolean;
+  /** Login or dashboard principal that decided */
+  by: string;
+  /** Feedback for the architect when rejected */
+  reason?: string;
+}
+
+/** A plan waiting for a decision. */
+export interface PendingApproval {
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  processId?: string;
+  plan: string;
+  commentId?: number;
+  commentUrl?: string;
+  requestedAt: string;
+}
+
+/**
+ * Validate an approval section. Returns undefined when there is none;
+ * throws with a readable message when it is malformed.
+ */
+export function parseApprovalConfig(raw: unknown, where = 'approval'): ApprovalConfig | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`${where} must be an object`);
+  const approval = raw as Record<string, unknown>;
+  if (approval.required !== undefined && typeof approval.required !== 'boolean') {
+    throw new Error(`${where}.required must be true or false`);
+  }
+  if (approval.timeoutHours !== undefined && (typeof approval.timeoutHours !== 'number' || !(approval.timeoutHours > 0))) {
+    throw new Error(`${where}.timeoutHours must be a positive number`);
+  }
+  return approval as ApprovalConfig;
+}
+
+/** Combine the defaults, the global gate and a repo's; the repo wins per field. */
+export function resolveApprovalPolicy(global?: ApprovalConfig, repo?: ApprovalConfig): ApprovalPolicy {
+  return {
+    required: repo?.required ?? global?.required ?? DEFAULT_APPROVAL_POLICY.required,
+    timeoutHours: repo?.timeoutHours ?? global?.timeoutHours ?? DEFAULT_APPROVAL_POLICY.timeoutHours,
+  };
+}
+
+/**
+ * Approval gate for runs on the configured repo: global config plus the
+ * repo's configJson.approval. A malformed repo section is logged and ignored.
+ */
+export async function loadApprovalPolicy(config: Config, repoRepository?: RepoRepository): Promise<ApprovalPolicy> {
+  const { owner, repo } = config.github;
+  let repoGate: ApprovalConfig | undefined;
+  if (repoRepository) {
+    const record = await Promise.resolve(repoRepository.getByOwnerRepo(owner, repo));
+    try {
+      repoGate = parseApprovalConfig(record?.configJson?.approval);
+    } catch (err) {
+      console.error(`[approval] Invalid approval config for ${owner}/${repo}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return resolveApprovalPolicy(config.approval as ApprovalConfig | undefined, repoGate);
+}
+
+// ── Pending approvals ────────────────────────────────────────────────────────
+
+/** Gates waiting for a decision, by issue. One run per issue waits at a time. */
+const pending = new Map<string, { info: PendingApproval; decide: (decision: ApprovalDecision) => void }>();
+
+function pendingKey(owner: string, repo: string, issueNumber: number): string {
+  return `${owner}/${repo}#${issueNumber}`.toLowerCase();
+}
+
+/** Plans waiting for a decision, oldest first. */
+export function listPendingApprovals(): PendingApproval[] {
+  return Array.from(pending.values(), p => p.info).sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+}
+
+/** Approve or reject the plan waiting on an issue; false when none is waiting. */
+export function decideApproval(owner: string, repo: string, issueNumber: number, decision: ApprovalDecision): boolean {
+  const entry = pending.get(pendingKey(owner, repo, issueNumber));
+  if (!entry) return false;
+  entry.decide(decision);
+  return true;
+}
+
+// ── Gate ─────────────────────────────────────────────────────────────────────
+
+/** Thrown into the run when a plan waits longer than the policy allows. */
+export class ApprovalTimeoutError extends Error {
+  constructor(issueNumber: number, hours: number) {
+    super(`Plan for issue #${issueNumber} was not approved within ${hours}h`);
+    this.name = 'ApprovalTimeoutError';
+  }
+}
+
+export interface ApprovalGateOptions {
+  config: Config;
+  issueNumber: number;
+  policy: ApprovalPolicy;
+  processId?: string;
+  /** Posts the plan comment on GitLab; GitHub repos use octokit so reactions can be read */
+  scm?: ScmProvider;
+  signal?: AbortSignal;
+  /** Called with the pending approval when the run starts waiting, and with undefined when it resumes */
+  onPending?: (pending?: PendingApproval) => void;
+  reactionPollMs?: number;
+}
+
+/** Prompt note telling the agent how the gate works. */
+export function formatApprovalInstructions(canSavePlan: boolean): string {
+  return canSavePlan
+    ? 'PLAN APPROVAL: a human must approve the plan before any code is changed. Once you have a plan, save it with save_issue_context (entry_type "architect_plan"); that call returns when the plan is approved or rejected. If it is rejected, revise the plan to address the feedback and save it again. Do not change code until the plan is approved.'
+    : 'PLAN APPROVAL: a human must approve the plan before any code is changed. The issuer\'s brief is sent for approval when the first change is attempted; if it is rejected, revise the approach with the feedback before trying again.';
+}
+
+function formatPlanComment(plan: string, reactions: boolean): string {
+  const ways = reactions
+    ? 'react with 👍 to this comment, comment `/approve`, or approve the run in the dashboard'
+    : 'comment `/approve` or approve the run in the dashboard';
+  return `${PLAN_APPROVAL_MARKER}\n${COMMAND_REPLY_MARKER}\n## 📋 Plan awaiting approval\n\n${plan}\n\n---\n\nThe coder starts once a maintainer approves: ${ways}. Comment \`/reject <what to change>\` to send it back to planning.`;
+}
+
+/**
+ * One run's approval gate. The plan is sent for approval at most once per
+ * version: after an approval later saves pass straight through, after a
+ * rejection the next saved plan is sent again.
+ */
+export class ApprovalGate {
+  /** Set when the wait timed out; the run loop throws it */
+  failure?: Error;
+  private plan?: string;
+  private approved = false;
+  private rejection?: ApprovalDecision;
+  private waiting?: Promise<ApprovalDecision>;
+
+  constructor(private options: ApprovalGateOptions) {}
+
+  /** Remember the latest plan without asking for approval yet. */
+  notePlan(plan: string): void {
+    if (!this.approved) this.plan = plan;
+  }
+
+  /** Post the plan and wait for a decision. Concurrent callers share one wait. */
+  request(plan: string): Promise<ApprovalDecision> {
+    if (this.approved) return Promise.resolve({ approved: true, by: 'earlier approval' });
+    this.plan = plan;
+    this.waiting ??= this.wait(plan).finally(() => { this.waiting = undefined; });
+    return this.waiting;
+  }
+
+  private async wait(plan: string): Promise<ApprovalDecision> {
+    const { config, issueNumber, policy, signal } = this.options;
+    const { owner, repo } = config.github;
+    const key = pendingKey(owner, repo, issueNumber);
+    const isGitHub = !this.options.scm || this.options.scm.kind === 'github';
+    const body = formatPlanComment(plan, isGitHub);
+
+    let commentId: number | undefined;
+    let commentUrl: string | undefined;
+    try {
+      if (isGitHub) {
+        const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
+        const { data } = await octokit.rest.issues.createComment({ owner, repo, issue_number: issueNumber, body });
+        commentId = data.id;
+        commentUrl = data.html_url;
+      } else {
+        const comment = await this.options.scm!.commentOnIssue(issueNumber, body);
+        commentId = comment.id;
+        commentUrl = comment.url;
+      }
+    } catch (err) {
+      console.warn(`[approval] Could not post the plan on #${issueNumber}: ${err}`);
+    }
+
+    const info: PendingApproval = {
+      owner, repo, issueNumber,
+      processId: this.options.processId,
+      plan, commentId, commentUrl,
+      requestedAt: new Date().toISOString(),
+    };
+    console.log(`\u{23F8}\uFE0F  Plan for #${issueNumber} awaiting approval${commentUrl ? `: ${commentUrl}` : ''}`);
+
+    const decision = await new Promise<ApprovalDecision>((resolve) => {
+      const timers: NodeJS.Timeout[] = [];
+      const settle = (d: ApprovalDecision) => {
+        timers.forEach(clearTimeout);
+        signal?.removeEventListener('abort', onAbort);
+        if (pending.get(key)?.info === info) pending.delete(key);
+        resolve(d);
+      };
+      const onAbort = () => settle({ approved: false, by: 'system', reason: 'Run cancelled' });
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener('abort', onAbort);
+
+      pending.set(key, { info, decide: settle });
+      timers.push(setTimeout(() => {
+        this.failure = new ApprovalTimeoutError(issueNumber, policy.timeoutHours);
+        settle({ approved: false, by: 'system', reason: this.failure.message });
+      }, policy.timeoutHours * 3_600_000));
+
+      if (isGitHub && commentId) {
+        const checked = new Set<string>();
+        const poll = async () => {
+          const approver = await this.findReactionApprover(commentId!, checked);
+          if (approver) settle({ approved: true, by: approver });
+          else if (pending.get(key)?.info === info) timers.push(setTimeout(poll, this.options.reactionPollMs ?? REACTION_POLL_MS));
+        };
+        timers.push(setTimeout(poll, this.options.reactionPollMs ?? REACTION_POLL_MS));
+      }
+      this.options.onPending?.(info);
+    });
+
+    this.options.onPending?.(undefined);
+    if (decision.approved) {
+      this.approved = true;
+      this.rejection = undefined;
+      console.log(`\u{2705} Plan for #${issueNumber} approved by ${decision.by}`);
+    } else if (signal?.aborted) {
+      this.plan = undefined;
+    } else {
+      this.rejection = decision;
+      this.plan = undefined;
+      console.log(`\u{1F6AB} Plan for #${issueNumber} rejected by ${decision.by}${decision.reason ? `: ${decision.reason}` : ''}`);
+    }
+    return decision;
+  }
+
+  /** First 👍 on the plan comment from someone with approver permission. */
+  private async findReactionApprover(commentId: number, checked: Set<string>): Promise<string | undefined> {
+    const { config } = this.options;
+    const { owner, repo } = config.github;
+    try {
+      const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
+      const { data } = await octokit.rest.reactions.listForIssueComment({ owner, repo, comment_id: commentId, content: '+1', per_page: 100 });
+      for (const reaction of data) {
+        const login = reaction.user?.login;
+        if (!login || reaction.user?.type === 'Bot' || checked.has(login)) continue;
+        checked.add(login);
+        if (hasPermission(await getCommenterPermission(config, login), APPROVER_PERMISSION)) return login;
+      }
+    } catch (err) {
+      console.warn(`[approval] Could not read reactions on comment ${commentId}: ${err}`);
+    }
+    return undefined;
+  }
+
+  /** Undefined when changes may go ahead, otherwise a blocked tool result. */
+  private async ensureApproved(): Promise<string | undefined> {
+    if (this.approved) return undefined;
+    if (!this.plan) {
+      const reason = this.rejection
+        ? `The plan was rejected by ${this.rejection.by}: ${this.rejection.reason ?? 'no reason given'}. Revise the plan with this feedback before changing anything.`
+        : 'No plan has been approved yet. Write the plan first; code changes wait for a human to approve it.';
+      return JSON.stringify({ blocked: true, reason }, null, 2);
+    }
+    const decision = await this.request(this.plan);
+    if (decision.approved) return undefined;
+    return JSON.stringify({
+      blocked: true,
+      reason: `The plan was rejected by ${decision.by}: ${decision.reason ?? 'no reason given'}. Make no changes; report this back so the plan can be revised.`,
+    }, null, 2);
+  }
+
+  /**
+   * Wrap the architect's save_issue_context tool: saving an `architect_plan`
+   * waits for the decision and returns it alongside the save result, and an
+   * `issuer_brief` becomes the plan to fall back on.
+   */
+  wrapSaveContextTool<T extends ReturnType<typeof tool>>(saveTool: T): T {
+    const originalInvoke = saveTool.invoke.bind(saveTool);
+    saveTool.invoke = async (input: any, options?: any) => {
+      const saved = await originalInvoke(input, options);
+      const content = typeof input?.content === 'string' ? input.content : '';
+      if (input?.entry_type === 'issuer_brief' && content) this.notePlan(content);
+      if (input?.entry_type !== 'architect_plan' || !content || this.approved) return saved;
+
+      const decision = await this.request(content);
+      const approval = decision.approved
+        ? { approved: true, by: decision.by, next: 'The plan is approved; go ahead with the implementation.' }
+        : {
+            approved: false,
+            by: decision.by,
+            feedback: decision.reason,
+            next: 'The plan was rejected. Revise it to address the feedback, then save the revised plan with save_issue_context (entry_type "architect_plan") to send it for approval again. Do not change code until it is approved.',
+          };
+      return `${typeof saved === 'string' ? saved : JSON.stringify(saved)}\n\n${JSON.stringify({ approval }, null, 2)}`;
+    };
+    return saveTool;
+  }
+
+  /** Wrap a tool that changes code or opens PRs so it waits for an approved plan. */
+  wrapChangeTool<T extends ReturnType<typeof tool>>(changeTool: T): T {
+    const originalInvoke = changeTool.invoke.bind(changeTool);
+    changeTool.invoke = async (input: any, options?: any) => {
+      const blocked = await this.ensureApproved();
+      return blocked ?? originalInvoke(input, options);
+    };
+    return changeTool;
+  }
+}
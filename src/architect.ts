@@ -6,20 +6,15 @@ import { createModel } from './model.js';
 import {
   createGitHubClient,
   getAuthFromConfig,
-  createGitHubIssuesTool,
-  createCommentOnIssueTool,
-  createPullRequestTool,
   createDryRunCommentTool,
+  createDryRunReplyToReviewCommentTool,
   createDryRunPullRequestTool,
-  createFetchSubIssuesTool,
-  createGetParentIssueTool,
-  createCreateSubIssueTool,
   createDryRunCreateSubIssueTool,
-  createGetPrDiffTool,
-  createSubmitPrReviewTool,
-  createCheckCiStatusTool,
   createDryRunCheckCiStatusTool,
+  createDryRunGetCiFailureLogsTool,
 } from './github-tools.js';
+import { createRemoteTools } from './scm-tools.js';
+import type { ScmProvider } from './scm-provider.js';
 import {
   createLocalReadFileTool,
   createLocalListFilesTool,
@@ -31,7 +26,8 @@ import {
   createDryRunWriteFileTool,
   createDryRunBashTool,
 } from './local-tools.js';
-import { createWorkspace, resolveGitToken } from './workspace.js';
+import { resolveGitToken } from './workspace.js';
+import { getWorkspaceManager } from './workspace-manager.js';
 import type { Workspace } from './workspace.js';
 import { formatDuration, logAgentEvent, logAgentDetail, logDiff } from './logger.js';
 import { createIterationPruningMiddleware } from './context-pruning.js';
@@ -48,6 +44,20 @@ import { createSaveContextTool, createGetContextTool, createSearchPastIssuesTool
 import { wrapWithOutputCap } from './tool-output-cap.js';
 import { wrapPrToolWithNotification, wrapIssueToolWithNotification } from './bitrix-notification.js';
 import type { SettingsRepository } from './settings-repository.js';
+import { startBudgetTracker, formatBudgetComment, postBudgetComment } from './budget.js';
+import type { BudgetLimits, BudgetStatus } from './budget.js';
+import { resolveSandboxPolicy } from './sandbox.js';
+import type { SandboxPolicy } from './sandbox.js';
+import { resolveVerificationPolicy, wrapPrToolWithVerification } from './verification.js';
+import type { VerificationGate, VerificationPolicy } from './verification.js';
+import { resolveCommandPolicy } from './command-policy.js';
+import type { CommandPolicy } from './command-policy.js';
+import { ApprovalGate, formatApprovalInstructions } from './approval.js';
+import type { ApprovalPolicy, PendingApproval } from './approval.js';
+import type { BaseCheckpointSaver } from '@langchain/langgraph';
+import { runThreadConfig } from './checkpointer.js';
+import { createPauseMiddleware } from './pause.js';
+import type { PauseGate } from './pause.js';
 
 // ── Result interface ────────────────────────────────────────────────────────
 
@@ -57,6 +67,8 @@ export interface ArchitectResult {
   prNumbers: number[];
   outcome: string;
   cacheStats?: { hits: number; misses: number; invalidations: number; size: number; hitRate: string };
+  /** Set when the run was stopped by its budget */
+  budgetExceeded?: BudgetStatus;
 }
 
 interface SubagentRun {
@@ -371,6 +383,7 @@ WORKFLOW FOR NEW ISSUES:
    - If a base branch was specified, set the base parameter to match (e.g. base: "develop")
    - Body must contain "Closes #<number>" on its own line
    - Include your execution plan and a "## Self-Review" section noting what you checked
+   - create_pull_request first runs the repo's configured typecheck, lint and test commands. If it answers with "blocked": true, fix the listed failures, commit and push, then call create_pull_request again
 
 WORKFLOW FOR FIX ITERATIONS (when told to fix reviewer feedback):
 - The branch and PR ALREADY EXIST. Do NOT create new ones.
@@ -382,6 +395,7 @@ WORKFLOW FOR FIX ITERATIONS (when told to fix reviewer feedback):
    bash: git add -A && git commit -m "Address review feedback for #<number>" && git push origin HEAD
    \`\`\`
 - Use read_file to verify your changes after committing.
+- If the feedback lists human review comments with comment ids, reply to each one AFTER pushing with reply_to_review_comment, saying what you changed (this also resolves the thread).
 
 CONSTRAINTS:
 - Always create the branch BEFORE making changes, and push BEFORE opening the PR
@@ -422,19 +436,20 @@ export function createIssuerSubagent(
   owner: string,
   repo: string,
   octokit: Octokit,
-  opts: { dryRun?: boolean; model?: ReturnType<typeof createModel>; workspacePath: string; contextTools?: ReturnType<typeof tool>[] },
+  opts: { dryRun?: boolean; model?: ReturnType<typeof createModel>; workspacePath: string; contextTools?: ReturnType<typeof tool>[]; scm?: ScmProvider },
 ): SubAgent {
   const dryRun = opts.dryRun ?? false;
   const ws: Workspace = { path: opts.workspacePath, cleanup: async () => {} };
+  const remote = createRemoteTools(owner, repo, octokit, opts.scm);
 
   const tools = [
-    createGitHubIssuesTool(owner, repo, octokit),
+    remote.issues,
     createLocalListFilesTool(ws),
     createLocalReadFileTool(ws),
     createLocalGrepTool(ws),
-    createFetchSubIssuesTool(owner, repo, octokit),
-    createGetParentIssueTool(owner, repo, octokit),
-    dryRun ? createDryRunCommentTool() : createCommentOnIssueTool(owner, repo, octokit),
+    remote.fetchSubIssues,
+    remote.getParentIssue,
+    dryRun ? createDryRunCommentTool() : remote.commentOnIssue,
     ...(opts.contextTools ?? []),
   ].map(t => wrapWithOutputCap(t));
 
@@ -457,28 +472,45 @@ export function createCoderSubagent(
   owner: string,
   repo: string,
   octokit: Octokit,
-  opts: { dryRun?: boolean; model?: ReturnType<typeof createModel>; workspacePath: string; contextTools?: ReturnType<typeof tool>[]; config?: Config; settingsRepo?: SettingsRepository },
+  opts: { dryRun?: boolean; model?: ReturnType<typeof createModel>; workspacePath: string; contextTools?: ReturnType<typeof tool>[]; config?: Config; settingsRepo?: SettingsRepository; sandbox?: SandboxPolicy; commandPolicy?: CommandPolicy; verification?: Omit<VerificationGate, 'sandbox'>; scm?: ScmProvider; approval?: ApprovalGate },
 ): SubAgent {
   const dryRun = opts.dryRun ?? false;
   const ws: Workspace = { path: opts.workspacePath, cleanup: async () => {} };
+  const commandPolicy = opts.commandPolicy ?? resolveCommandPolicy(opts.config?.commandPolicy);
+  const sandbox = opts.sandbox ?? resolveSandboxPolicy(opts.config?.sandbox);
+  const remote = createRemoteTools(owner, repo, octokit, opts.scm);
 
-  const prTool = dryRun ? createDryRunPullRequestTool() : createPullRequestTool(owner, repo, octokit);
-  const subIssueTool = dryRun ? createDryRunCreateSubIssueTool() : createCreateSubIssueTool(owner, repo, octokit);
+  const prTool = dryRun ? createDryRunPullRequestTool() : remote.pullRequest;
+  const subIssueTool = dryRun ? createDryRunCreateSubIssueTool() : remote.createSubIssue;
 
   // Wrap PR and sub-issue tools with Bitrix notification hooks
   if (opts.config) {
     wrapPrToolWithNotification(prTool, opts.config, opts.settingsRepo, owner, repo);
     wrapIssueToolWithNotification(subIssueTool, opts.config, opts.settingsRepo, owner, repo);
   }
+  // Run the repo's checks before the PR is opened
+  if (!dryRun && opts.verification) {
+    wrapPrToolWithVerification(prTool, ws, { ...opts.verification, sandbox });
+  }
+
+  const editTool = dryRun ? createDryRunEditFileTool() : createLocalEditFileTool(ws, commandPolicy);
+  const writeTool = dryRun ? createDryRunWriteFileTool() : createLocalWriteFileTool(ws, commandPolicy);
+  const bashTool = dryRun ? createDryRunBashTool() : createLocalBashTool(ws, sandbox, commandPolicy);
+  // Nothing is changed before the plan is approved (the checks above wait too);
+  // bash can edit, commit and push, so it waits as well
+  if (opts.approval) {
+    for (const t of [editTool, writeTool, bashTool, prTool, subIssueTool]) opts.approval.wrapChangeTool(t);
+  }
 
   const tools = [
     createLocalListFilesTool(ws),
     createLocalReadFileTool(ws),
     createLocalGrepTool(ws),
-    dryRun ? createDryRunEditFileTool() : createLocalEditFileTool(ws),
-    dryRun ? createDryRunWriteFileTool() : createLocalWriteFileTool(ws),
-    dryRun ? createDryRunBashTool() : createLocalBashTool(ws),
-    dryRun ? createDryRunCommentTool() : createCommentOnIssueTool(owner, repo, octokit),
+    editTool,
+    writeTool,
+    bashTool,
+    dryRun ? createDryRunCommentTool() : remote.commentOnIssue,
+    dryRun ? createDryRunReplyToReviewCommentTool() : remote.replyToReviewComment,
     prTool,
     subIssueTool,
     ...(opts.contextTools ?? []),
@@ -504,11 +536,12 @@ export function createReviewerSubagent(
   repo: string,
   octokit: Octokit,
   model?: ReturnType<typeof createModel>,
-  opts?: { workspacePath: string; cache?: ToolCache; contextTools?: ReturnType<typeof tool>[] },
+  opts?: { workspacePath: string; cache?: ToolCache; contextTools?: ReturnType<typeof tool>[]; scm?: ScmProvider },
 ): SubAgent {
   const ws: Workspace = { path: opts?.workspacePath ?? '', cleanup: async () => {} };
+  const remote = createRemoteTools(owner, repo, octokit, opts?.scm);
 
-  let diffTool = createGetPrDiffTool(octokit, owner, repo);
+  let diffTool = remote.prDiff;
   if (opts?.cache) {
     diffTool = wrapDiffWithDelta(diffTool, opts.cache, { extractKey: prDiffKey });
   }
@@ -518,7 +551,7 @@ export function createReviewerSubagent(
     createLocalListFilesTool(ws),
     createLocalReadFileTool(ws),
     createLocalGrepTool(ws),
-    createSubmitPrReviewTool(octokit, owner, repo),
+    remote.submitReview,
     ...(opts?.contextTools ?? []),
   ].map(t => wrapWithOutputCap(t));
 
@@ -579,7 +612,7 @@ STANDARD WORKFLOW:
 6. After review, check CI if tests were written or CI is already configured:
    - Use check_ci_status to verify CI results on the PR
    - If overall is "in_progress", wait and recheck (up to 2 rechecks)
-   - If overall is "failure", collect failure details and feed them to the Coder alongside reviewer feedback
+   - If overall is "failure", use get_ci_failure_logs to get the failed step, failing tests and error excerpt, and feed them to the Coder alongside reviewer feedback
    - If overall is "success" or "no_checks", proceed normally
 7. If the reviewer's verdict is "needs_changes" or CI failed, and you haven't hit the iteration limit:
    - Delegate back to coder with the reviewer's feedback and/or CI failure details
@@ -611,6 +644,7 @@ AVAILABLE TOOLS FOR VERIFICATION (read-only):
 - read_file: Read file contents (local filesystem)
 - grep: Search for patterns across the codebase (local filesystem)
 - check_ci_status: Check CI/check-run results for a PR (returns success, failure, in_progress, or no_checks)
+- get_ci_failure_logs: Fetch the failing part of each failed CI job's log for a PR
 
 SHARED CONTEXT:
 - Use \`save_issue_context\` to record your plan (entry_type: "architect_plan") before delegating to subagents.
@@ -631,19 +665,34 @@ export async function createArchitect(
     repoId?: number;
     continueContext?: ContinueContext;
     settingsRepo?: SettingsRepository;
+    sandbox?: SandboxPolicy;
+    commandPolicy?: CommandPolicy;
+    verification?: VerificationPolicy;
+    scm?: ScmProvider;
+    /** Plan approval gate for the run; see createRunApprovalGate */
+    approval?: ApprovalGate;
+    /** Checkpoints the Architect's steps so the run can be resumed */
+    checkpointer?: BaseCheckpointSaver;
+    /** Holds the Architect's and subagents' tool calls while the run is paused */
+    pause?: PauseGate;
   } = {},
 ) {
   const { owner, repo } = config.github;
   const auth = getAuthFromConfig(config.github);
-  const octokit = createGitHubClient(auth);
+  const octokit = createGitHubClient(auth, config.github);
+  const scm = options.scm;
 
   const maxIterations = options.maxIterations ?? 3;
 
   // Resolve git token and create workspace
-  const gitToken = await resolveGitToken(auth);
-  const workspace = await createWorkspace(owner, repo, gitToken, {
+  const remoteUrl = scm ? await scm.remoteUrl() : undefined;
+  const gitToken = remoteUrl ? '' : await resolveGitToken(auth, config.github);
+  const workspace = await getWorkspaceManager().create(owner, repo, gitToken, {
     branch: options.continueContext?.branchName,
     processId: options.processId ?? undefined,
+    host: config.github.host,
+    caBundlePath: config.github.caBundlePath,
+    ...(remoteUrl ? { remoteUrl } : {}),
   });
   console.log(`\u{1F4C2} Workspace cloned to ${workspace.path}`);
 
@@ -693,23 +742,31 @@ export async function createArchitect(
       ...(ctxProcess ? [createGetContextTool(ctxRepo, ctxProcess)] : []),
       createSearchPastIssuesTool(ctxRepo, ctxRepoId, ctxIssue),
     ];
+    if (options.approval) options.approval.wrapSaveContextTool(architectContextTools[0]);
   }
 
+  const verification: Omit<VerificationGate, 'sandbox'> = {
+    policy: options.verification ?? resolveVerificationPolicy(config.verification),
+    context: ctxRepo && ctxIssue > 0 ? { repo: ctxRepo, repoId: ctxRepoId, issueNumber: ctxIssue, processId: ctxProcess, agent: 'coder:verification' } : undefined,
+  };
+
   // Build subagents with workspace path
   const subagents = [
-    createIssuerSubagent(owner, repo, octokit, { dryRun: options.dryRun, model: issuerModel, workspacePath: workspace.path, contextTools: issuerContextTools }),
-    createCoderSubagent(owner, repo, octokit, { dryRun: options.dryRun, model: coderModel, workspacePath: workspace.path, contextTools: coderContextTools, config, settingsRepo: options.settingsRepo }),
-    createReviewerSubagent(owner, repo, octokit, reviewerModel, { workspacePath: workspace.path, cache, contextTools: reviewerContextTools }),
+    createIssuerSubagent(owner, repo, octokit, { dryRun: options.dryRun, model: issuerModel, workspacePath: workspace.path, contextTools: issuerContextTools, scm }),
+    createCoderSubagent(owner, repo, octokit, { dryRun: options.dryRun, model: coderModel, workspacePath: workspace.path, contextTools: coderContextTools, config, settingsRepo: options.settingsRepo, sandbox: options.sandbox, commandPolicy: options.commandPolicy, verification, scm, approval: options.approval }),
+    createReviewerSubagent(owner, repo, octokit, reviewerModel, { workspacePath: workspace.path, cache, contextTools: reviewerContextTools, scm }),
   ];
 
   // Architect's own local tools for verification
   const architectWs: Workspace = { path: workspace.path, cleanup: async () => {} };
+  const remote = createRemoteTools(owner, repo, octokit, scm);
   const architectTools = [
-    createGitHubIssuesTool(owner, repo, octokit),
+    remote.issues,
     createLocalListFilesTool(architectWs),
     createLocalReadFileTool(architectWs),
     createLocalGrepTool(architectWs),
-    options.dryRun ? createDryRunCheckCiStatusTool() : createCheckCiStatusTool(owner, repo, octokit),
+    options.dryRun ? createDryRunCheckCiStatusTool() : remote.checkCiStatus,
+    options.dryRun ? createDryRunGetCiFailureLogsTool() : remote.ciFailureLogs,
     ...architectContextTools,
   ].map(t => wrapWithOutputCap(t));
 
@@ -722,12 +779,14 @@ export async function createArchitect(
     summarizationMiddleware({ model, trigger: { tokens: 50_000 }, keep: { messages: 6 } }),
     anthropicPromptCachingMiddleware({ unsupportedModelBehavior: 'ignore' }),
     createPatchToolCallsMiddleware(),
+    ...(options.pause ? [createPauseMiddleware(options.pause)] : []),
   ];
 
   const agent = createAgent({
     model,
     tools: architectTools,
     systemPrompt,
+    checkpointer: options.checkpointer,
     middleware: [
       createSubAgentMiddleware({
         defaultModel: model,
@@ -741,6 +800,7 @@ export async function createArchitect(
       anthropicPromptCachingMiddleware({ unsupportedModelBehavior: 'ignore' }),
       createPatchToolCallsMiddleware(),
       createIterationPruningMiddleware(),
+      ...(options.pause ? [createPauseMiddleware(options.pause)] : []),
     ],
   }).withConfig({ recursionLimit: 10_000 });
 
@@ -857,10 +917,108 @@ export interface ContinueContext {
   humanFeedback?: string;
 }
 
+export interface RunArchitectOptions {
+  dryRun?: boolean;
+  onProgress?: (update: ProgressUpdate) => void;
+  signal?: AbortSignal;
+  continueContext?: ContinueContext;
+  usageService?: UsageService;
+  processId?: string;
+  contextRepo?: IssueContextRepository;
+  repoId?: number;
+  settingsRepo?: SettingsRepository;
+  /** Cost/token limits; needs usageService and processId to be enforced */
+  budget?: BudgetLimits;
+  /** Called with the spend so far whenever usage is recorded */
+  onBudget?: (status: BudgetStatus) => void;
+  /** Sandbox for the bash tool; defaults to the global policy */
+  sandbox?: SandboxPolicy;
+  /** What the coder may run and modify; defaults to the global policy */
+  commandPolicy?: CommandPolicy;
+  /** Checks run before create_pull_request (multi and single modes); defaults to the global gate */
+  verification?: VerificationPolicy;
+  /** The repo's SCM host (see loadScmProvider); GitHub through Octokit when omitted */
+  scm?: ScmProvider;
+  /** Plan approval gate (multi and single modes); off when omitted */
+  approval?: ApprovalPolicy;
+  /** Called when the run starts waiting for plan approval, and with undefined when it resumes */
+  onApproval?: (pending?: PendingApproval) => void;
+  /** Checkpoints the run under processId (multi and single modes); see checkpointer.ts */
+  checkpointer?: BaseCheckpointSaver;
+  /** Continue from the run's last checkpoint instead of starting over */
+  resume?: boolean;
+  /** Operator pause (multi and single modes); see pause.ts */
+  pause?: PauseGate;
+}
+
+/**
+ * The run's plan approval gate, when its policy asks for one. Dry runs and
+ * continue runs on an existing PR are never gated.
+ */
+export function createRunApprovalGate(config: Config, issueNumber: number, options: RunArchitectOptions): ApprovalGate | undefined {
+  if (!options.approval?.required || options.dryRun || options.continueContext) return undefined;
+  return new ApprovalGate({
+    config,
+    issueNumber,
+    policy: options.approval,
+    processId: options.processId,
+    scm: options.scm,
+    signal: options.signal,
+    onPending: options.onApproval,
+  });
+}
+
+/**
+ * Run an issue in the configured agent mode. With a budget the run is
+ * stopped as soon as it crosses a limit, and a partial-progress comment
+ * is left on the issue.
+ */
 export async function runArchitect(
   config: Config,
   issueNumber: number,
-  options: { dryRun?: boolean; onProgress?: (update: ProgressUpdate) => void; signal?: AbortSignal; continueContext?: ContinueContext; usageService?: UsageService; processId?: string; contextRepo?: IssueContextRepository; repoId?: number; settingsRepo?: SettingsRepository } = {},
+  options: RunArchitectOptions = {},
+): Promise<ArchitectResult> {
+  const tracker = startBudgetTracker(options);
+  if (!tracker) return runArchitectPipeline(config, issueNumber, options);
+
+  // The tracker's signal also fires on a budget overrun, which every
+  // agent mode treats like a cancel: stop streaming, then wrap up.
+  let phase: string | undefined;
+  let result: ArchitectResult;
+  try {
+    result = await runArchitectPipeline(config, issueNumber, {
+      ...options,
+      signal: tracker.signal,
+      onProgress: (update) => {
+        phase = update.phase;
+        options.onProgress?.(update);
+      },
+    });
+  } catch (err) {
+    if (!tracker.exceeded) throw err;
+    const prInfos = await findAllPrsForIssue(config, issueNumber, options.scm).catch(() => []);
+    result = {
+      issueNumber,
+      prNumber: prInfos[0]?.prNumber ?? null,
+      prNumbers: prInfos.map(p => p.prNumber),
+      outcome: `Run aborted: ${err instanceof Error ? err.message : err}`,
+    };
+  } finally {
+    tracker.dispose();
+  }
+  if (!tracker.exceeded) return result;
+
+  const budget = tracker.status();
+  if (!options.dryRun) {
+    await postBudgetComment(config, issueNumber, formatBudgetComment(budget, { phase, prNumbers: result.prNumbers, summary: result.outcome }), options.scm);
+  }
+  return { ...result, outcome: `Stopped: budget exceeded (${budget.exceeded}).\n\n${result.outcome}`, budgetExceeded: budget };
+}
+
+async function runArchitectPipeline(
+  config: Config,
+  issueNumber: number,
+  options: RunArchitectOptions,
 ): Promise<ArchitectResult> {
   const maxIterations = getMaxIterations(config);
 
@@ -878,6 +1036,15 @@ export async function runArchitect(
 
   // Claude SDK mode: delegate to SDK runner
   if (config.agentMode === 'claude-sdk') {
+    if (options.scm && options.scm.kind !== 'github') {
+      throw new Error(`AGENT_MODE=claude-sdk only supports GitHub repos; ${config.github.owner}/${config.github.repo} is on ${options.scm.host}`);
+    }
+    if (createRunApprovalGate(config, issueNumber, options)) {
+      throw new Error('Plan approval is not supported with AGENT_MODE=claude-sdk; use multi or single');
+    }
+    if (options.resume) {
+      console.log('\u{1F504} AGENT_MODE=claude-sdk runs have no checkpoints; starting the run over');
+    }
     const { runClaudeSdkAgent } = await import('./claude-sdk-agent.js');
     return runClaudeSdkAgent(config, issueNumber, options);
   }
@@ -887,6 +1054,7 @@ export async function runArchitect(
   }
   console.log('');
 
+  const approval = createRunApprovalGate(config, issueNumber, options);
   const { agent: architect, cache, workspace } = await createArchitect(config, {
     dryRun: options.dryRun,
     maxIterations,
@@ -896,11 +1064,18 @@ export async function runArchitect(
     repoId: options.repoId,
     continueContext: options.continueContext,
     settingsRepo: options.settingsRepo,
+    sandbox: options.sandbox,
+    commandPolicy: options.commandPolicy,
+    verification: options.verification,
+    scm: options.scm,
+    approval,
+    checkpointer: options.checkpointer,
+    pause: options.pause,
   });
 
   // Octokit client for diff fetching after coder completes
   const { owner, repo } = config.github;
-  const octokit = createGitHubClient(getAuthFromConfig(config.github));
+  const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
 
   let userMessage: string;
   if (options.continueContext) {
@@ -919,6 +1094,9 @@ Skip the issuer step — go directly to the reviewer:
   } else {
     userMessage = `Process issue #${issueNumber}. Delegate to your team to understand, implement, and review a fix for this issue.`;
   }
+  if (approval) {
+    userMessage += `\n\n${formatApprovalInstructions(!!options.contextRepo && issueNumber > 0)}`;
+  }
 
   console.log('='.repeat(60));
 
@@ -930,14 +1108,18 @@ Skip the issuer step — go directly to the reviewer:
   let lastResponse = '';
   let chatModelStartTime = 0;
 
+  // Resuming streams no input: the Architect continues from its last checkpoint
+  const resume = options.resume && !!options.checkpointer;
+  if (resume) console.log(`\u{1F504} Resuming process ${options.processId} from its last checkpoint`);
   const stream = architect.streamEvents(
-    { messages: [{ role: 'user', content: userMessage }] },
-    { version: 'v2' },
+    resume ? null : { messages: [{ role: 'user', content: userMessage }] },
+    { version: 'v2', ...runThreadConfig(options) },
   );
 
   try {
   for await (const ev of stream) {
     if (options.signal?.aborted) break;
+    if (approval?.failure) throw approval.failure;
 
     if (ev.event === 'on_tool_start' && ev.name === 'task') {
       // Extract subagent_type from the tool input — the structure varies
@@ -986,6 +1168,10 @@ Skip the issuer step — go directly to the reviewer:
         if (agentResponse) {
           logAgentDetail(`${run.subagentType} output`, agentResponse);
         }
+        // Without a saved architect_plan, the issuer's brief is what gets approved
+        if (approval && run.subagentType === 'issuer' && agentResponse) {
+          approval.notePlan(agentResponse);
+        }
 
         // Auto-capture subagent output as context entry (reliability backstop)
         if (options.contextRepo && agentResponse && issueNumber > 0) {
@@ -1032,18 +1218,20 @@ Skip the issuer step — go directly to the reviewer:
               diffPrNumber = options.continueContext.prNumber;
             }
             if (!diffPrNumber) {
-              const prInfo = await findPrForIssue(config, issueNumber);
+              const prInfo = await findPrForIssue(config, issueNumber, options.scm);
               diffPrNumber = prInfo?.prNumber;
             }
 
             if (diffPrNumber) {
-              const { data } = await octokit.rest.pulls.get({
-                owner,
-                repo,
-                pull_number: diffPrNumber,
-                mediaType: { format: 'diff' },
-              });
-              const diff = data as unknown as string;
+              const prNumberForDiff = diffPrNumber;
+              const diff = options.scm && options.scm.kind !== 'github'
+                ? await options.scm.getPullRequestDiff(prNumberForDiff)
+                : (await octokit.rest.pulls.get({
+                  owner,
+                  repo,
+                  pull_number: prNumberForDiff,
+                  mediaType: { format: 'diff' },
+                })).data as unknown as string;
               if (diff) {
                 logDiff(diff);
               }
@@ -1104,6 +1292,7 @@ Skip the issuer step — go directly to the reviewer:
               agent: agentRole,
               processId: options.processId,
               issueNumber,
+              repoId: options.repoId,
               inputTokens: usage.input_tokens ?? 0,
               outputTokens: usage.output_tokens ?? 0,
               durationMs,
@@ -1113,6 +1302,7 @@ Skip the issuer step — go directly to the reviewer:
       }
     }
   }
+  if (approval?.failure) throw approval.failure;
   } finally {
     // Always clean up workspace
     console.log(`\u{1F9F9} Cleaning up workspace at ${workspace.path}`);
@@ -1153,7 +1343,7 @@ Skip the issuer step — go directly to the reviewer:
   let prNumber: number | null = null;
   let prNumbers: number[] = [];
   try {
-    const prInfos = await findAllPrsForIssue(config, issueNumber);
+    const prInfos = await findAllPrsForIssue(config, issueNumber, options.scm);
     prNumber = prInfos.length > 0 ? prInfos[0].prNumber : null;
     prNumbers = prInfos.map(p => p.prNumber);
     for (const prInfo of prInfos) {
@@ -1168,12 +1358,16 @@ Skip the issuer step — go directly to the reviewer:
     try {
       const comment = await formatUsageSummaryComment(options.usageService, options.processId);
       if (comment) {
-        await octokit.rest.issues.createComment({
-          owner,
-          repo,
-          issue_number: issueNumber,
-          body: comment,
-        });
+        if (options.scm && options.scm.kind !== 'github') {
+          await options.scm.commentOnIssue(issueNumber, comment);
+        } else {
+          await octokit.rest.issues.createComment({
+            owner,
+            repo,
+            issue_number: issueNumber,
+            body: comment,
+          });
+        }
         console.log(`\n📊 Usage summary posted to issue #${issueNumber}`);
       }
     } catch (err) {
@@ -0,0 +1,501 @@
+/**
+ * Login for the dashboard, dialog and API routes.
+ *
+ * With AUTH_PROVIDER set, every route except /health, /webhook (which
+ * verifies its own HMAC signature) and /auth/* needs a signed-in session:
+ *
+ *   GET  /auth/login?returnTo=/   → redirect to GitHub or the OIDC provider
+ *   GET  /auth/callback           → exchange the code, create the session
+ *   POST /auth/logout             → end the session
+ *   GET  /api/auth/me             → { authEnabled, user, role, scopes, csrfToken }
+ *
+ * Sessions live server-side (Postgres `sessions` table, or in memory without
+ * a database); the browser only holds a random token in an HttpOnly cookie.
+ * Mutating requests (POST/PUT/PATCH/DELETE) must echo the session's CSRF
+ * token in X-CSRF-Token. The token is also set in a readable cookie, which
+ * /auth/client.js copies into the header for the static pages.
+ *
+ * Scripts and CI can send `Authorization: Bearer <API key>` instead of a
+ * session cookie; key requests need no CSRF token. What the user or key may
+ * then do is decided per route (access.ts).
+ *
+ * Without AUTH_PROVIDER nothing is enforced, as before.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type express from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import type { Config } from './config.js';
+import type { Session, SessionRepository, SessionUser } from './session-repository.js';
+import { InMemorySessionRepository } from './session-repository.js';
+import type { ApiKeyRepository } from './api-key-repository.js';
+import type { SettingsRepository } from './settings-repository.js';
+import { authenticateApiKey, loadAccessRoleSettings, resolveUserPrincipal } from './access.js';
+import type { Principal } from './access.js';
+
+export const SESSION_COOKIE = 'deepagents_session';
+export const CSRF_COOKIE = 'deepagents_csrf';
+export const CSRF_HEADER = 'x-csrf-token';
+const LOGIN_COOKIE = 'deepagents_login';
+const LOGIN_TTL_MS = 10 * 60 * 1000;
+
+/** Paths reachable without a session. */
+const PUBLIC_PATHS = new Set(['/health', '/webhook', '/webhook/gitlab']);
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export interface AuthConfig {
+  provider: 'github' | 'oidc';
+  clientId: string;
+  clientSecret: string;
+  /** OIDC issuer URL (provider "oidc") */
+  issuer?: string;
+  /** Public URL of this server; the callback is `${baseUrl}/auth/callback` */
+  baseUrl: string;
+  /** Logins or emails that may sign in; empty allows anyone the provider accepts */
+  allowedUsers: string[];
+  /** GitHub organization whose members may sign in (provider "github") */
+  githubOrg?: string;
+  sessionTtlHours: number;
+  /** Logins or emails that are always admins */
+  admins?: string[];
+}
+
+export interface AuthOptions {
+  sessionRepository?: SessionRepository;
+  apiKeyRepository?: ApiKeyRepository;
+  /** Holds the access_roles setting */
+  settingsRepository?: SettingsRepository;
+  /** Overrides the provider built from config.auth (tests) */
+  loginProvider?: LoginProvider;
+}
+
+// ── Login providers ──────────────────────────────────────────────────────────
+
+export interface LoginRequest {
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+export interface LoginCallback {
+  code: string;
+  redirectUri: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/** An OAuth 2 / OIDC authorization-code login. */
+export interface LoginProvider {
+  name: AuthConfig['provider'];
+  authorizationUrl(request: LoginRequest): Promise<string>;
+  /** Exchange the callback code for the user; throws when the user may not sign in. */
+  completeLogin(callback: LoginCallback): Promise<SessionUser>;
+}
+
+type FetchFn = typeof fetch;
+
+async function readJson(res: globalThis.Response, what: string): Promise<any> {
+  if (!res.ok) throw new Error(`${what} failed: HTTP ${res.status}`);
+  return res.json();
+}
+
+/** Whether AUTH_ALLOWED_USERS admits the user (by login or email). */
+export function isUserAllowed(user: SessionUser, auth: AuthConfig): boolean {
+  if (auth.allowedUsers.length === 0) return true;
+  const names = [user.login, user.email].filter(Boolean).map(n => n!.toLowerCase());
+  return auth.allowedUsers.some(allowed => names.includes(allowed.toLowerCase()));
+}
+
+/**
+ * GitHub OAuth App login. With AUTH_GITHUB_ORG the user must be an active
+ * member of the organization; otherwise AUTH_ALLOWED_USERS decides.
+ */
+export function createGitHubLoginProvider(
+  auth: AuthConfig,
+  options: { webUrl?: string; apiUrl?: string; fetch?: FetchFn } = {},
+): LoginProvider {
+  const webUrl = options.webUrl ?? 'https://github.com';
+  const apiUrl = options.apiUrl ?? 'https://api.github.com';
+  const fetchFn = options.fetch ?? fetch;
+
+  return {
+    name: 'github',
+    async authorizationUrl({ redirectUri, state, codeChallenge }) {
+      const params = new URLSearchParams({
+        client_id: auth.clientId,
+        redirect_uri: redirectUri,
+        scope: auth.githubOrg ? 'read:user user:email read:org' : 'read:user user:email',
+        state,
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+        allow_signup: 'false',
+      });
+      return `${webUrl}/login/oauth/authorize?${params}`;
+    },
+
+    async completeLogin({ code, redirectUri, codeVerifier }) {
+      const token = await readJson(await fetchFn(`${webUrl}/login/oauth/access_token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        body: JSON.stringify({ client_id: auth.clientId, client_secret: auth.clientSecret, code, redirect_uri: redirectUri, code_verifier: codeVerifier }),
+      }), 'GitHub token exchange');
+      if (!token.access_token) throw new Error(`GitHub token exchange failed: ${token.error_description ?? token.error ?? 'no access token'}`);
+
+      const headers = { Authorization: `Bearer ${token.access_token}`, Accept: 'application/vnd.github+json' };
+      const profile = await readJson(await fetchFn(`${apiUrl}/user`, { headers }), 'GitHub user lookup');
+      const user: SessionUser = { login: profile.login, name: profile.name ?? undefined, email: profile.email ?? undefined, provider: 'github' };
+
+      if (auth.githubOrg) {
+        const res = await fetchFn(`${apiUrl}/user/memberships/orgs/${encodeURIComponent(auth.githubOrg)}`, { headers });
+        const membership = res.ok ? await res.json() : undefined;
+        const isMember = membership?.state === 'active';
+        if (!isMember && !(auth.allowedUsers.length > 0 && isUserAllowed(user, auth))) {
+          throw new Error(`${user.login} is not a member of ${auth.githubOrg}`);
+        }
+        return user;
+      }
+      if (!isUserAllowed(user, auth)) throw new Error(`${user.login} is not allowed to sign in`);
+      return user;
+    },
+  };
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+function decodeJwtPayload(jwt: string): Record<string, any> {
+  const payload = jwt.split('.')[1];
+  if (!payload) throw new Error('Malformed ID token');
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+}
+
+/**
+ * Generic OpenID Connect login (Dex, Keycloak, Okta, Google, ...). The ID
+ * token comes straight from the token endpoint over TLS, so its claims are
+ * checked (issuer, audience, expiry, nonce) but not its signature, as OIDC
+ * Core 3.1.3.7 allows for the code flow.
+ */
+export function createOidcLoginProvider(auth: AuthConfig, options: { fetch?: FetchFn } = {}): LoginProvider {
+  const fetchFn = options.fetch ?? fetch;
+  const issuer = auth.issuer!.replace(/\/+$/, '');
+  let discovery: Promise<OidcDiscovery> | undefined;
+  const discover = () => {
+    discovery ??= fetchFn(`${issuer}/.well-known/openid-configuration`)
+      .then(res => readJson(res, 'OIDC discovery'))
+      .catch((err) => {
+        discovery = undefined;
+        throw err;
+      });
+    return discovery;
+  };
+
+  return {
+    name: 'oidc',
+    async authorizationUrl({ redirectUri, state, nonce, codeChallenge }) {
+      const { authorization_endpoint } = await discover();
+      const params = new URLSearchParams({
+        response_type: 'code',
+        client_id: auth.clientId,
+        redirect_uri: redirectUri,
+        scope: 'openid email profile',
+        state,
+        nonce,
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+      });
+      return `${authorization_endpoint}?${params}`;
+    },
+
+    async completeLogin({ code, redirectUri, nonce, codeVerifier }) {
+      const { token_endpoint, issuer: discoveredIssuer } = await discover();
+      const basic = Buffer.from(`${encodeURIComponent(auth.clientId)}:${encodeURIComponent(auth.clientSecret)}`).toString('base64');
+      const token = await readJson(await fetchFn(token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', Authorization: `Basic ${basic}`, Accept: 'application/json' },
+        body: new URLSearchParams({ grant_type: 'authorization_code', code, redirect_uri: redirectUri, code_verifier: codeVerifier }),
+      }), 'OIDC token exchange');
+      if (!token.id_token) throw new Error('OIDC token response has no id_token');
+
+      const claims = decodeJwtPayload(token.id_token);
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (claims.iss?.replace(/\/+$/, '') !== discoveredIssuer.replace(/\/+$/, '')) throw new Error('ID token issuer mismatch');
+      if (!audiences.includes(auth.clientId)) throw new Error('ID token audience mismatch');
+      if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) throw new Error('ID token expired');
+      if (claims.nonce !== nonce) throw new Error('ID token nonce mismatch');
+
+      const user: SessionUser = {
+        login: claims.preferred_username ?? claims.email ?? claims.sub,
+        name: claims.name ?? undefined,
+        email: claims.email ?? undefined,
+        provider: 'oidc',
+      };
+      if (!isUserAllowed(user, auth)) throw new Error(`${user.login} is not allowed to sign in`);
+      return user;
+    },
+  };
+}
+
+export function createLoginProvider(auth: AuthConfig): LoginProvider {
+  return auth.provider === 'oidc' ? createOidcLoginProvider(auth) : createGitHubLoginProvider(auth);
+}
+
+// ── Sessions ─────────────────────────────────────────────────────────────────
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/** Create a session for a signed-in user. Returns the cookie token and the session. */
+export async function createSession(
+  sessionRepository: SessionRepository,
+  user: SessionUser,
+  ttlHours: number,
+): Promise<{ token: string; session: Session }> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const session: Session = {
+    id: hashToken(token),
+    user,
+    csrfToken: crypto.randomBytes(24).toString('base64url'),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlHours * 3_600_000).toISOString(),
+  };
+  await Promise.resolve(sessionRepository.create(session));
+  return { token, session };
+}
+
+/** Parse the Cookie header. */
+function readCookies(req: Request): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const pair of (req.headers.cookie ?? '').split(';')) {
+    const index = pair.indexOf('=');
+    if (index === -1) continue;
+    const name = pair.slice(0, index).trim();
+    try {
+      cookies[name] = decodeURIComponent(pair.slice(index + 1).trim());
+    } catch {
+      // Ignore cookies that are not ours to decode
+    }
+  }
+  return cookies;
+}
+
+async function getSession(req: Request, sessionRepository: SessionRepository): Promise<Session | undefined> {
+  const token = readCookies(req)[SESSION_COOKIE];
+  if (!token) return undefined;
+  return Promise.resolve(sessionRepository.get(hashToken(token)));
+}
+
+/** Only same-site paths may be returned to after login. */
+function safeReturnTo(value: unknown): string {
+  return typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\') ? value : '/';
+}
+
+// ── Signed login state ───────────────────────────────────────────────────────
+
+interface LoginState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+  expiresAt: number;
+}
+
+function loginStateKey(auth: AuthConfig): Buffer {
+  return crypto.createHash('sha256').update(`deepagents-login-state:${auth.clientSecret}`).digest();
+}
+
+function signLoginState(auth: AuthConfig, state: LoginState): string {
+  const payload = Buffer.from(JSON.stringify(state)).toString('base64url');
+  const signature = crypto.createHmac('sha256', loginStateKey(auth)).update(payload).digest('base64url');
+  return `${payload}.${signature}`;
+}
+
+function verifyLoginState(auth: AuthConfig, value: string | undefined): LoginState | undefined {
+  const [payload, signature] = (value ?? '').split('.');
+  if (!payload || !signature) return undefined;
+  const expected = crypto.createHmac('sha256', loginStateKey(auth)).update(payload).digest('base64url');
+  if (!safeEqual(signature, expected)) return undefined;
+  const state = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as LoginState;
+  return state.expiresAt > Date.now() ? state : undefined;
+}
+
+// ── Express wiring ───────────────────────────────────────────────────────────
+
+function getStaticDir(): string {
+  const __dirname = path.dirname(fileURLToPath(import.meta.url));
+  return path.resolve(__dirname, '..', 'static');
+}
+
+/** Whether the request wants a page (redirect to login) rather than JSON (401). */
+function wantsPage(req: Request): boolean {
+  return req.method === 'GET' && !req.path.startsWith('/api/') && Boolean(req.accepts('html'));
+}
+
+/** The bearer token of an Authorization header, if any. */
+function readBearerToken(req: Request): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  return match?.[1];
+}
+
+/**
+ * Register the login routes and the session guard. Must run before the
+ * routes it protects are registered.
+ */
+export function installAuth(app: express.Express, config: Config, options: AuthOptions = {}): void {
+  const auth = config.auth as AuthConfig | undefined;
+  const sessionRepository = options.sessionRepository ?? new InMemorySessionRepository();
+
+  app.get('/auth/client.js', (_req: Request, res: Response) => {
+    res.sendFile(path.join(getStaticDir(), 'auth-client.js'));
+  });
+
+  if (!auth) {
+    app.get('/api/auth/me', (_req: Request, res: Response) => {
+      res.json({ authEnabled: false, user: null });
+    });
+    return;
+  }
+
+  const loginProvider = options.loginProvider ?? createLoginProvider(auth);
+  const redirectUri = `${auth.baseUrl}/auth/callback`;
+  const secure = auth.baseUrl.startsWith('https://');
+  const cookieOptions = { httpOnly: true, secure, sameSite: 'lax' as const, path: '/' };
+
+  app.get('/auth/login', async (req: Request, res: Response) => {
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const state: LoginState = {
+      state: crypto.randomBytes(16).toString('base64url'),
+      nonce: crypto.randomBytes(16).toString('base64url'),
+      codeVerifier,
+      returnTo: safeReturnTo(req.query.returnTo),
+      expiresAt: Date.now() + LOGIN_TTL_MS,
+    };
+    try {
+      const url = await loginProvider.authorizationUrl({
+        redirectUri,
+        state: state.state,
+        nonce: state.nonce,
+        codeChallenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+      });
+      res.cookie(LOGIN_COOKIE, signLoginState(auth, state), { ...cookieOptions, path: '/auth', maxAge: LOGIN_TTL_MS });
+      res.redirect(url);
+    } catch (err) {
+      console.error('[auth] Failed to start login:', err);
+      res.status(502).send('Login provider unavailable');
+    }
+  });
+
+  app.get('/auth/callback', async (req: Request, res: Response) => {
+    const login = verifyLoginState(auth, readCookies(req)[LOGIN_COOKIE]);
+    res.clearCookie(LOGIN_COOKIE, { ...cookieOptions, path: '/auth' });
+    if (typeof req.query.error === 'string') {
+      res.status(401).send(`Login failed: ${req.query.error}`);
+      return;
+    }
+    if (!login || typeof req.query.state !== 'string' || !safeEqual(req.query.state, login.state) || typeof req.query.code !== 'string') {
+      res.status(400).send('Login expired or invalid, please try again');
+      return;
+    }
+
+    let user: SessionUser;
+    try {
+      user = await loginProvider.completeLogin({ code: req.query.code, redirectUri, nonce: login.nonce, codeVerifier: login.codeVerifier });
+    } catch (err) {
+      console.warn(`[auth] Login refused: ${err instanceof Error ? err.message : err}`);
+      res.status(403).send('You are not allowed to sign in');
+      return;
+    }
+
+    await Promise.resolve(sessionRepository.deleteExpired());
+    const { token, session } = await createSession(sessionRepository, user, auth.sessionTtlHours);
+    const maxAge = auth.sessionTtlHours * 3_600_000;
+    res.cookie(SESSION_COOKIE, token, { ...cookieOptions, maxAge });
+    res.cookie(CSRF_COOKIE, session.csrfToken, { ...cookieOptions, httpOnly: false, maxAge });
+    console.log(`[auth] ${user.login} signed in via ${loginProvider.name}`);
+    res.redirect(login.returnTo);
+  });
+
+  app.post('/auth/logout', async (req: Request, res: Response) => {
+    const token = readCookies(req)[SESSION_COOKIE];
+    const session = await getSession(req, sessionRepository);
+    if (session && !safeEqual(String(req.headers[CSRF_HEADER] ?? ''), session.csrfToken)) {
+      res.status(403).json({ error: 'Invalid CSRF token' });
+      return;
+    }
+    if (token) await Promise.resolve(sessionRepository.delete(hashToken(token)));
+    res.clearCookie(SESSION_COOKIE, cookieOptions);
+    res.clearCookie(CSRF_COOKIE, { ...cookieOptions, httpOnly: false });
+    res.json({ ok: true });
+  });
+
+  // Session guard for everything registered after this point
+  app.use(async (req: Request, res: Response, next: NextFunction) => {
+    if (PUBLIC_PATHS.has(req.path) || req.path.startsWith('/auth/')) return next();
+
+    const bearer = readBearerToken(req);
+    if (bearer) {
+      const principal = options.apiKeyRepository ? await authenticateApiKey(options.apiKeyRepository, bearer) : undefined;
+      if (!principal) {
+        res.status(401).json({ error: 'Invalid API key' });
+        return;
+      }
+      res.locals.principal = principal;
+      return next();
+    }
+
+    let session: Session | undefined;
+    try {
+      session = await getSession(req, sessionRepository);
+    } catch (err) {
+      console.error('[auth] Session lookup failed:', err);
+      res.status(503).json({ error: 'Session store unavailable' });
+      return;
+    }
+    if (!session) {
+      if (wantsPage(req)) {
+        res.redirect(`/auth/login?returnTo=${encodeURIComponent(req.originalUrl)}`);
+      } else {
+        res.status(401).json({ error: 'Authentication required' });
+      }
+      return;
+    }
+    if (!SAFE_METHODS.has(req.method) && !safeEqual(String(req.headers[CSRF_HEADER] ?? ''), session.csrfToken)) {
+      res.status(403).json({ error: 'Invalid CSRF token' });
+      return;
+    }
+    const principal = resolveUserPrincipal(session.user, await loadAccessRoleSettings(options.settingsRepository), auth.admins);
+    if (!principal) {
+      res.status(403).json({ error: `${session.user.login} has no role — ask an admin for access` });
+      return;
+    }
+    res.locals.session = session;
+    res.locals.principal = principal;
+    next();
+  });
+
+  app.get('/api/auth/me', (_req: Request, res: Response) => {
+    const session = res.locals.session as Session | undefined;
+    const principal = res.locals.principal as Principal;
+    res.json({
+      authEnabled: true,
+      user: session?.user ?? { login: principal.name, provider: 'api_key' },
+      role: principal.role ?? null,
+      scopes: principal.scopes,
+      repos: principal.repos ?? null,
+      csrfToken: session?.csrfToken,
+    });
+  });
+}
@@ -1,6 +1,7 @@
 import type { tool } from 'langchain';
 import type { Config } from './config.js';
 import type { SettingsRepository } from './settings-repository.js';
+import type { SpendWindow } from './spend-limits.js';
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -8,6 +9,7 @@ import type { SettingsRepository } from './settings-repository.js';
 export interface BitrixDashboardSettings {
   notifyOnPr: boolean;
   notifyOnIssue: boolean;
+  notifyOnSpend?: boolean;
   dialogId: string;
 }
 
@@ -19,6 +21,7 @@ interface ResolvedBitrix {
   dialogId: string;
   notifyOnPr: boolean;
   notifyOnIssue: boolean;
+  notifyOnSpend: boolean;
 }
 
 const SETTINGS_KEY = 'bitrix';
@@ -40,6 +43,7 @@ async function resolve(config: Config, settingsRepo?: SettingsRepository): Promi
     dialogId: db.dialogId,
     notifyOnPr: db.notifyOnPr ?? true,
     notifyOnIssue: db.notifyOnIssue ?? true,
+    notifyOnSpend: db.notifyOnSpend ?? true,
   };
 }
 
@@ -98,6 +102,20 @@ function buildIssueCreatedMessage(
   return lines.join('[BR]');
 }
 
+function buildSpendAlertMessage(window: SpendWindow): string {
+  const scope = window.scope === 'global' ? 'all repositories' : window.scope;
+  const percent = Math.floor(window.ratio * 100);
+  const lines = [
+    window.ratio >= 1 ? `[B]Spend Cap Reached[/B]` : `[B]Spend Alert[/B]`,
+    ``,
+    `${window.period === 'daily' ? 'Daily' : 'Monthly'} spend for [B]${scope}[/B] (${window.periodKey}): $${window.spentUsd.toFixed(2)} of $${window.limitUsd} (${percent}%)`,
+  ];
+  if (window.ratio >= 1) {
+    lines.push(``, `New agent runs are refused until the period ends or the limit is raised.`);
+  }
+  return lines.join('[BR]');
+}
+
 // ── Send to Bitrix ───────────────────────────────────────────────────────────
 
 async function sendMessage(r: ResolvedBitrix, message: string): Promise<void> {
@@ -155,6 +173,17 @@ export async function notifyIssueCreated(
   await sendMessage(r, buildIssueCreatedMessage(owner, repo, issueNumber, issueUrl, title, parentIssue));
 }
 
+/** Alert that a spend window crossed its threshold or cap. */
+export async function notifySpendAlert(
+  config: Config,
+  settingsRepo: SettingsRepository | undefined,
+  window: SpendWindow,
+): Promise<void> {
+  const r = await resolve(config, settingsRepo);
+  if (!r?.notifyOnSpend) return;
+  await sendMessage(r, buildSpendAlertMessage(window));
+}
+
 export async function sendTestNotification(
   config: Config,
   dialogId: string,
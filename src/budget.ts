@@ -0,0 +1,302 @@
+/**
+ * USD and token budgets for a single run, enforced in every agent mode.
+ *
+ * Limits come from three places, later ones winning per field:
+ *
+ *   1. Global — BUDGET_MAX_USD, BUDGET_MAX_TOKENS (config.budget)
+ *   2. Per repo — `RepoRecord.configJson.budget`
+ *   3. Per label — `labels` inside either of the above:
+ *
+ *   {
+ *     "budget": {
+ *       "maxCostUsd": 2,
+ *       "maxTokens": 500000,
+ *       "labels": { "small-fix": { "maxCostUsd": 0.5 }, "epic": { "maxCostUsd": 10 } }
+ *     }
+ *   }
+ *
+ * When several of an issue's labels carry a budget, the strictest limit wins.
+ * A BudgetTracker follows the UsageService records of the run's processId
+ * and aborts the run as soon as a limit is crossed.
+ */
+
+import type { Config } from './config.js';
+import { createGitHubClient, getAuthFromConfig } from './github-tools.js';
+import type { RepoRepository } from './repo-repository.js';
+import { loadNonGitHubProvider } from './scm-provider.js';
+import type { ScmProvider } from './scm-provider.js';
+import type { UsageService } from './usage-service.js';
+import type { LLMUsageRecord } from './usage-types.js';
+
+export const BUDGET_MARKER = '<!-- deep-agent-budget -->';
+
+export interface BudgetLimits {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+export interface BudgetConfig extends BudgetLimits {
+  /** Limits for issues carrying a label (case-insensitive) */
+  labels?: Record<string, BudgetLimits>;
+}
+
+/** Spend so far against the limits, as shown in the dashboard. */
+export interface BudgetStatus extends BudgetLimits {
+  costUsd: number;
+  tokens: number;
+  /** Set once a limit was crossed, e.g. "cost $0.5123 exceeds $0.5" */
+  exceeded?: string;
+}
+
+function checkLimits(raw: Record<string, unknown>, where: string): void {
+  for (const key of ['maxCostUsd', 'maxTokens'] as const) {
+    const value = raw[key];
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      throw new Error(`${where}.${key} must be a positive number`);
+    }
+  }
+}
+
+/**
+ * Validate a budget section (global config or a repo's configJson.budget).
+ * Returns undefined when there is none; throws with a readable message
+ * when it is malformed.
+ */
+export function parseBudgetConfig(raw: unknown, where = 'budget'): BudgetConfig | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`${where} must be an object`);
+  const budget = raw as Record<string, unknown>;
+  checkLimits(budget, where);
+
+  const labels = budget.labels;
+  if (labels !== undefined) {
+    if (!labels || typeof labels !== 'object' || Array.isArray(labels)) throw new Error(`${where}.labels must be an object`);
+    for (const [label, limits] of Object.entries(labels)) {
+      if (!limits || typeof limits !== 'object') throw new Error(`${where}.labels.${label} must be an object`);
+      checkLimits(limits as Record<string, unknown>, `${where}.labels.${label}`);
+    }
+  }
+  return budget as BudgetConfig;
+}
+
+function hasLimits(limits: BudgetLimits): boolean {
+  return limits.maxCostUsd !== undefined || limits.maxTokens !== undefined;
+}
+
+function strictest(a: number | undefined, b: number | undefined): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.min(a, b);
+}
+
+/**
+ * Combine global, repo and label budgets into the limits for one run.
+ * Returns undefined when nothing limits the run.
+ */
+export function resolveBudget(
+  global: BudgetConfig | undefined,
+  repo: BudgetConfig | undefined,
+  labels: string[] = [],
+): BudgetLimits | undefined {
+  const limits: BudgetLimits = {
+    maxCostUsd: repo?.maxCostUsd ?? global?.maxCostUsd,
+    maxTokens: repo?.maxTokens ?? global?.maxTokens,
+  };
+
+  const labelBudgets = new Map<string, BudgetLimits>();
+  for (const source of [global?.labels, repo?.labels]) {
+    for (const [label, budget] of Object.entries(source ?? {})) labelBudgets.set(label.toLowerCase(), budget);
+  }
+  const matched = labels.map(l => labelBudgets.get(l.toLowerCase())).filter((b): b is BudgetLimits => !!b);
+  if (matched.length > 0) {
+    const labelCost = matched.reduce<number | undefined>((min, b) => strictest(min, b.maxCostUsd), undefined);
+    const labelTokens = matched.reduce<number | undefined>((min, b) => strictest(min, b.maxTokens), undefined);
+    if (labelCost !== undefined) limits.maxCostUsd = labelCost;
+    if (labelTokens !== undefined) limits.maxTokens = labelTokens;
+  }
+
+  return hasLimits(limits) ? limits : undefined;
+}
+
+/**
+ * Budget for a run on an issue or PR: global config, the repo's
+ * configJson.budget, and — only when label budgets exist — the issue's
+ * labels, fetched from the repo's host unless given. A malformed repo
+ * budget is logged and ignored.
+ */
+export async function loadRunBudget(
+  config: Config,
+  issueNumber: number,
+  repoRepository?: RepoRepository,
+  knownLabels?: string[],
+): Promise<BudgetLimits | undefined> {
+  const { owner, repo } = config.github;
+  const global = config.budget as BudgetConfig | undefined;
+
+  let repoBudget: BudgetConfig | undefined;
+  if (repoRepository) {
+    const record = await Promise.resolve(repoRepository.getByOwnerRepo(owner, repo));
+    try {
+      repoBudget = parseBudgetConfig(record?.configJson?.budget);
+    } catch (err) {
+      console.error(`[budget] Invalid budget config for ${owner}/${repo}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  let labels = knownLabels ?? [];
+  const hasLabelBudgets = Object.keys(global?.labels ?? {}).length > 0 || Object.keys(repoBudget?.labels ?? {}).length > 0;
+  if (hasLabelBudgets && !knownLabels && issueNumber > 0) {
+    try {
+      const scm = await loadNonGitHubProvider(config, repoRepository);
+      if (scm) {
+        labels = (await scm.getIssue(issueNumber)).labels;
+      } else {
+        const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
+        const { data } = await octokit.rest.issues.get({ owner, repo, issue_number: issueNumber });
+        labels = data.labels.map(l => (typeof l === 'string' ? l : l.name ?? '')).filter(Boolean);
+      }
+    } catch (err) {
+      console.warn(`[budget] Could not fetch labels of #${issueNumber}, label budgets skipped: ${err}`);
+    }
+  }
+
+  return resolveBudget(global, repoBudget, labels);
+}
+
+/**
+ * Follows the usage recorded for one process and aborts `signal` once the
+ * run crosses its cost or token limit. Aborting the parent signal (e.g. a
+ * cancel) aborts `signal` too. Call dispose() when the run ends.
+ */
+export class BudgetTracker {
+  private readonly controller = new AbortController();
+  private costUsd = 0;
+  private tokens = 0;
+  private exceededReason?: string;
+  private readonly onRecord = (record: LLMUsageRecord) => this.add(record);
+  private readonly onParentAbort = () => this.controller.abort();
+
+  constructor(
+    private readonly usageService: UsageService,
+    private readonly processId: string,
+    readonly limits: BudgetLimits,
+    private readonly parentSignal?: AbortSignal,
+    private readonly onUpdate?: (status: BudgetStatus) => void,
+  ) {
+    usageService.on('usage_recorded', this.onRecord);
+    if (parentSignal?.aborted) this.controller.abort();
+    parentSignal?.addEventListener('abort', this.onParentAbort);
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get exceeded(): boolean {
+    return this.exceededReason !== undefined;
+  }
+
+  status(): BudgetStatus {
+    return {
+      ...this.limits,
+      costUsd: this.costUsd,
+      tokens: this.tokens,
+      ...(this.exceededReason ? { exceeded: this.exceededReason } : {}),
+    };
+  }
+
+  dispose(): void {
+    this.usageService.off('usage_recorded', this.onRecord);
+    this.parentSignal?.removeEventListener('abort', this.onParentAbort);
+  }
+
+  private add(record: LLMUsageRecord): void {
+    if (record.processId !== this.processId) return;
+    this.costUsd += record.estimatedCost;
+    this.tokens += record.totalTokens;
+
+    const { maxCostUsd, maxTokens } = this.limits;
+    if (!this.exceededReason) {
+      if (maxCostUsd !== undefined && this.costUsd > maxCostUsd) {
+        this.exceededReason = `cost $${this.costUsd.toFixed(4)} exceeds $${maxCostUsd}`;
+      } else if (maxTokens !== undefined && this.tokens > maxTokens) {
+        this.exceededReason = `${this.tokens.toLocaleString()} tokens exceed ${maxTokens.toLocaleString()}`;
+      }
+      if (this.exceededReason) {
+        console.warn(`\u{1F4B8} Budget exceeded for ${this.processId}: ${this.exceededReason} — stopping the run`);
+        this.controller.abort();
+      }
+    }
+    this.onUpdate?.(this.status());
+  }
+}
+
+/**
+ * Start a tracker for a run, or return undefined when the run has no
+ * budget or cannot be tracked (no usage service or process id).
+ */
+export function startBudgetTracker(options: {
+  budget?: BudgetLimits;
+  usageService?: UsageService;
+  processId?: string;
+  signal?: AbortSignal;
+  onBudget?: (status: BudgetStatus) => void;
+}): BudgetTracker | undefined {
+  if (!options.budget || !hasLimits(options.budget) || !options.usageService || !options.processId) return undefined;
+  const tracker = new BudgetTracker(options.usageService, options.processId, options.budget, options.signal, options.onBudget);
+  options.onBudget?.(tracker.status());
+  return tracker;
+}
+
+/** One-line spend against limits, e.g. "$0.5123 / $0.5, 48,210 / 500,000 tokens". */
+export function formatBudget(status: BudgetStatus): string {
+  const cost = `$${status.costUsd.toFixed(4)}${status.maxCostUsd !== undefined ? ` / $${status.maxCostUsd}` : ''}`;
+  const tokens = `${status.tokens.toLocaleString()}${status.maxTokens !== undefined ? ` / ${status.maxTokens.toLocaleString()}` : ''} tokens`;
+  return `${cost}, ${tokens}`;
+}
+
+/**
+ * Comment left on the issue (or PR) when a run was stopped by its budget,
+ * so humans can see how far it got.
+ */
+export function formatBudgetComment(
+  status: BudgetStatus,
+  progress: { phase?: string; prNumbers?: number[]; summary?: string },
+): string {
+  const lines = [
+    BUDGET_MARKER,
+    '## \u{1F4B8} Stopped: budget exceeded',
+    '',
+    `The run was stopped because its ${status.exceeded ?? 'budget was used up'}.`,
+    '',
+    `- Spent: ${formatBudget(status)}`,
+  ];
+  if (progress.phase) lines.push(`- Last phase: ${progress.phase}`);
+  if (progress.prNumbers) {
+    lines.push(progress.prNumbers.length > 0
+      ? `- Pull requests so far: ${progress.prNumbers.map(n => `#${n}`).join(', ')}`
+      : '- No pull request was opened yet');
+  }
+  if (progress.summary) lines.push('', '### Last agent output', '', progress.summary.slice(0, 2000));
+  lines.push('', 'Raise the budget (repo or label budget) and re-run to continue.');
+  return lines.join('\n');
+}
+
+/**
+ * Post the budget comment on an issue or PR. Repos on another host go
+ * through `scm`; GitHub through Octokit. Non-fatal.
+ */
+export async function postBudgetComment(config: Config, issueNumber: number, body: string, scm?: ScmProvider): Promise<void> {
+  const { owner, repo } = config.github;
+  try {
+    if (scm && scm.kind !== 'github') {
+      await scm.commentOnIssue(issueNumber, body);
+    } else {
+      const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
+      await octokit.rest.issues.createComment({ owner, repo, issue_number: issueNumber, body });
+    }
+    console.log(`\u{1F4B8} Budget report posted to #${issueNumber}`);
+  } catch (err) {
+    console.warn(`\u{26A0}\uFE0F  Could not post budget report to #${issueNumber}: ${err}`);
+  }
+}
@@ -1,6 +1,5 @@
 import { createPatchToolCallsMiddleware } from 'deepagents';
 import { createAgent, anthropicPromptCachingMiddleware } from 'langchain';
-import { MemorySaver } from '@langchain/langgraph';
 import type { Config } from './config.js';
 import { createModel } from './model.js';
 import {
@@ -15,18 +14,13 @@ import {
 import { wrapWithLogging } from './logger.js';
 import type { UsageService } from './usage-service.js';
 import type { LLMProvider } from './usage-types.js';
+import { getCheckpointer } from './checkpointer.js';
 
 /**
  * Maximum tool calls per chat turn to prevent runaway loops.
  */
 const CHAT_MAX_TOOL_CALLS = 15;
 
-/**
- * In-memory checkpointer for multi-turn conversation state.
- * Shared across all sessions within a single process.
- */
-const checkpointer = new MemorySaver();
-
 /**
  * Create a chat agent that humans can interact with directly.
  *
@@ -37,7 +31,7 @@ const checkpointer = new MemorySaver();
 export function createChatAgent(config: Config) {
   const model = createModel(config);
   const { owner, repo } = config.github;
-  const octokit = createGitHubClient(getAuthFromConfig(config.github));
+  const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
 
   // Read-only tools — the chat agent can browse but not write
   let issuesTool = createGitHubIssuesTool(owner, repo, octokit);
@@ -75,7 +69,8 @@ When answering questions:
     model,
     tools: [issuesTool, listFilesTool, readFileTool],
     systemPrompt,
-    checkpointer,
+    // Multi-turn state per sessionId; kept in Postgres when a database is configured
+    checkpointer: getCheckpointer(),
     middleware: [
       anthropicPromptCachingMiddleware({ unsupportedModelBehavior: 'ignore' }),
       createPatchToolCallsMiddleware(),
@@ -0,0 +1,71 @@
+/**
+ * LangGraph checkpoints for agent runs and chat sessions.
+ *
+ * Runs checkpoint under their process id as the thread id, so a run cut
+ * short by a deploy or crash can pick up from its last completed step (see
+ * ProcessManager.recoverProcesses). With a database the checkpoints are kept
+ * in Postgres (db/pg-checkpoint-saver.ts); otherwise they live in memory and
+ * only last as long as the server.
+ *
+ * Both savers emit `checkpoint` on checkpointEvents for every top-level
+ * checkpoint they store, which is how processes record their checkpoint id.
+ */
+
+import { EventEmitter } from 'events';
+import { MemorySaver } from '@langchain/langgraph';
+import type { BaseCheckpointSaver, Checkpoint, CheckpointMetadata } from '@langchain/langgraph';
+
+type RunnableConfig = Parameters<BaseCheckpointSaver['getTuple']>[0];
+
+export interface CheckpointSaved {
+  threadId: string;
+  checkpointId: string;
+}
+
+/** Emits `checkpoint` (CheckpointSaved) whenever a saver stores a top-level checkpoint. */
+export const checkpointEvents = new EventEmitter();
+checkpointEvents.setMaxListeners(0);
+
+/** Announce a stored checkpoint; subgraph checkpoints (with a namespace) are skipped. */
+export function notifyCheckpoint(config: RunnableConfig): void {
+  const { thread_id: threadId, checkpoint_ns: namespace, checkpoint_id: checkpointId } = config.configurable ?? {};
+  if (!threadId || !checkpointId || namespace) return;
+  checkpointEvents.emit('checkpoint', { threadId, checkpointId } satisfies CheckpointSaved);
+}
+
+/** MemorySaver that announces its checkpoints. The default without a database. */
+export class InMemoryCheckpointSaver extends MemorySaver {
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const saved = await super.put(config, checkpoint, metadata);
+    notifyCheckpoint(saved);
+    return saved;
+  }
+}
+
+// ── Process-wide saver ───────────────────────────────────────────────────────
+
+let currentSaver: BaseCheckpointSaver = new InMemoryCheckpointSaver();
+
+/** The saver agent runs and chat sessions checkpoint to. */
+export function getCheckpointer(): BaseCheckpointSaver {
+  return currentSaver;
+}
+
+/** Replace the process-wide saver (at startup, once the database is ready). */
+export function setCheckpointer(saver: BaseCheckpointSaver): void {
+  currentSaver = saver;
+}
+
+/**
+ * streamEvents config that checkpoints a run under its process id. Empty
+ * without a checkpointer or process id, so the run isn't checkpointed.
+ */
+export function runThreadConfig(options: { checkpointer?: BaseCheckpointSaver; processId?: string }): { configurable?: { thread_id: string } } {
+  return options.checkpointer && options.processId ? { configurable: { thread_id: options.processId } } : {};
+}
+
+/** The id of the thread's latest checkpoint, if it has any. */
+export async function latestCheckpointId(saver: BaseCheckpointSaver, threadId: string): Promise<string | undefined> {
+  const tuple = await saver.getTuple({ configurable: { thread_id: threadId } });
+  return tuple?.checkpoint.id;
+}
@@ -0,0 +1,191 @@
+/**
+ * Failed CI job logs for a commit.
+ *
+ * check_ci_status only has check-run conclusions and summaries. This pulls
+ * the logs of failed GitHub Actions jobs (a check run's id is its job id)
+ * and keeps the part that explains the failure: the step that hit
+ * `##[error]`, the failing test names in it and the first lines of the
+ * failure (see verification.ts for the patterns). Checks from other apps
+ * fall back to their check-run output text.
+ *
+ * A failed run on a bot PR starts a continue run with these failures as
+ * its feedback (see handleCiCompletedEvent in listener.ts); claimCiFix
+ * keeps that to one fix per commit and CI_FIX_MAX_ATTEMPTS per PR.
+ */
+
+import type { Octokit } from 'octokit';
+import type { ClaimRepository, ClaimResult } from './claim-repository.js';
+import type { Config } from './config.js';
+import type { ScmProvider } from './scm-provider.js';
+import { withRetry } from './utils.js';
+import { extractFailureExcerpt, parseFailingTests } from './verification.js';
+
+export interface CiJobFailure {
+  name: string;
+  conclusion: string;
+  url?: string;
+  /** The step that failed, e.g. "npm test" (Actions jobs only) */
+  step?: string;
+  failingTests: string[];
+  excerpt: string;
+}
+
+export interface CiLogFailure {
+  step?: string;
+  failingTests: string[];
+  excerpt: string;
+}
+
+/** Conclusions that count as a CI failure. */
+export const FAILED_CONCLUSIONS = ['failure', 'timed_out', 'startup_failure'];
+
+/** Lines kept from the start of each job's failure. */
+const CI_EXCERPT_LINES = 60;
+/** Failed jobs whose logs are downloaded per commit */
+const MAX_FAILED_JOBS = 5;
+
+const TIMESTAMP_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z ?/;
+const ANSI_RE = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+/**
+ * Pick the failure out of a GitHub Actions job log: the output of the step
+ * that ended in `##[error]`, without timestamps, colours or group markers.
+ */
+export function extractLogFailure(log: string, maxLines = CI_EXCERPT_LINES): CiLogFailure {
+  const lines = log.split(/\r?\n/).map(line => line.replace(TIMESTAMP_RE, '').replace(ANSI_RE, ''));
+  const errorIndex = lines.findIndex(line => line.startsWith('##[error]'));
+
+  let step: string | undefined;
+  let section = lines;
+  if (errorIndex >= 0) {
+    let start = 0;
+    for (let i = errorIndex; i >= 0; i--) {
+      const group = lines[i].match(/^##\[group\]Run (.+)$/);
+      if (group) {
+        step = group[1].trim();
+        start = i;
+        break;
+      }
+    }
+    // Up to the last error line of this step
+    let end = errorIndex;
+    while (end + 1 < lines.length && lines[end + 1].startsWith('##[error]')) end++;
+    section = lines.slice(start, end + 1);
+    // Skip the step's echoed script
+    const endGroup = section.indexOf('##[endgroup]');
+    if (endGroup >= 0) section = section.slice(endGroup + 1);
+  }
+
+  const output = section
+    .filter(line => !line.startsWith('##[group]') && line !== '##[endgroup]')
+    .map(line => line.replace(/^##\[error\]/, 'Error: '))
+    .join('\n');
+  return { step, failingTests: parseFailingTests(output), excerpt: extractFailureExcerpt(output, maxLines) };
+}
+
+/**
+ * Failed check runs for a commit, with the relevant part of each failed
+ * Actions job's log. Jobs whose log can't be downloaded (expired, no
+ * permission) keep their check-run output instead.
+ */
+export async function fetchCiFailures(octokit: Octokit, owner: string, repo: string, ref: string): Promise<CiJobFailure[]> {
+  const { data } = await withRetry(() => octokit.rest.checks.listForRef({ owner, repo, ref, filter: 'latest', per_page: 100 }));
+  const failed = data.check_runs
+    .filter(cr => cr.status === 'completed' && FAILED_CONCLUSIONS.includes(cr.conclusion ?? ''))
+    .slice(0, MAX_FAILED_JOBS);
+
+  const failures: CiJobFailure[] = [];
+  for (const cr of failed) {
+    const failure: CiJobFailure = {
+      name: cr.name,
+      conclusion: cr.conclusion ?? 'failure',
+      url: cr.html_url ?? undefined,
+      failingTests: [],
+      excerpt: '',
+    };
+    const fallback = [cr.output?.summary, cr.output?.text].filter(Boolean).join('\n');
+    if (cr.app?.slug === 'github-actions') {
+      try {
+        const { data: log } = await withRetry(() => octokit.rest.actions.downloadJobLogsForWorkflowRun({ owner, repo, job_id: cr.id }));
+        Object.assign(failure, extractLogFailure(String(log)));
+      } catch (err) {
+        console.warn(`[ci-logs] Could not download the log of ${cr.name} (job ${cr.id}): ${err}`);
+        failure.excerpt = extractFailureExcerpt(fallback, CI_EXCERPT_LINES);
+      }
+    } else {
+      failure.failingTests = parseFailingTests(fallback);
+      failure.excerpt = extractFailureExcerpt(fallback, CI_EXCERPT_LINES);
+    }
+    failures.push(failure);
+  }
+  return failures;
+}
+
+/**
+ * fetchCiFailures through an ScmProvider, for repos not on GitHub (GitLab
+ * job traces have the same shape once timestamps and colours are gone).
+ */
+export async function fetchScmCiFailures(scm: ScmProvider, ref: string): Promise<CiJobFailure[]> {
+  const failed = (await scm.listChecks(ref))
+    .filter(check => check.status === 'completed' && FAILED_CONCLUSIONS.includes(check.conclusion ?? ''))
+    .slice(0, MAX_FAILED_JOBS);
+
+  const failures: CiJobFailure[] = [];
+  for (const check of failed) {
+    const failure: CiJobFailure = { name: check.name, conclusion: check.conclusion ?? 'failure', url: check.url, failingTests: [], excerpt: '' };
+    const log = await scm.getCheckLog(check).catch(err => {
+      console.warn(`[ci-logs] Could not download the log of ${check.name} (job ${check.id}): ${err}`);
+      return undefined;
+    });
+    if (log) {
+      Object.assign(failure, extractLogFailure(log));
+    } else {
+      failure.failingTests = parseFailingTests(check.summary ?? '');
+      failure.excerpt = extractFailureExcerpt(check.summary ?? '', CI_EXCERPT_LINES);
+    }
+    failures.push(failure);
+  }
+  return failures;
+}
+
+/** Markdown feedback for the coder: one section per failed job. */
+export function formatCiFailures(prNumber: number, headSha: string, failures: CiJobFailure[]): string {
+  const lines = [`CI failed on PR #${prNumber} (commit ${headSha.slice(0, 7)}). Fix these failures, then commit and push to the same branch:`];
+  if (failures.length === 0) {
+    lines.push('', 'No failed job details were available; use check_ci_status and get_ci_failure_logs to look into it.');
+  }
+  for (const failure of failures) {
+    lines.push('', `### ${failure.name} (${failure.conclusion})`);
+    if (failure.step) lines.push(`Failed step: \`${failure.step}\``);
+    if (failure.failingTests.length > 0) {
+      lines.push('Failing tests:', ...failure.failingTests.map(t => `- ${t}`));
+    }
+    if (failure.excerpt) lines.push('```', failure.excerpt, '```');
+    if (failure.url) lines.push(`Log: ${failure.url}`);
+  }
+  return lines.join('\n');
+}
+
+export type CiFixClaim = ClaimResult;
+
+function ciFixesKey(config: Config, prNumber: number): string {
+  return `ci_fixes:${config.github.owner}/${config.github.repo}#${prNumber}`;
+}
+
+/**
+ * Claim the fix of a failed commit for one delivery. Each head commit gets
+ * one fix run (a retry of the claiming delivery may proceed), and a PR gets
+ * at most `maxAttempts` of them. Without a claim store every delivery
+ * is handled.
+ */
+export async function claimCiFix(
+  claimRepository: ClaimRepository | undefined,
+  config: Config,
+  prNumber: number,
+  headSha: string,
+  deliveryId: string,
+  maxAttempts: number,
+): Promise<CiFixClaim> {
+  if (!claimRepository) return 'claimed';
+  return Promise.resolve(claimRepository.claim(ciFixesKey(config, prNumber), headSha, deliveryId, maxAttempts));
+}
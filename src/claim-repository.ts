@@ -0,0 +1,34 @@
+/**
+ * Outcome of claiming a piece of webhook-triggered work: `claimed` when the
+ * claim is new or already the delivery's own (a retry), `duplicate` when
+ * another delivery holds it, `limit` when the scope is full.
+ */
+export type ClaimResult = 'claimed' | 'duplicate' | 'limit';
+
+/**
+ * Claims of webhook-triggered work, e.g. "delivery X handles review 123 on
+ * PR #7", so the several deliveries GitHub sends for one change start one
+ * run. Claims are grouped in scopes (one per PR); a scope can cap how many
+ * keys it holds.
+ */
+export interface ClaimRepository {
+  /** Claim `key` within `scope` for a delivery; see ClaimResult. Atomic per key. */
+  claim(scope: string, key: string, deliveryId: string, limit?: number): ClaimResult | Promise<ClaimResult>;
+}
+
+/**
+ * In-memory claim repository for use without a database.
+ */
+export class InMemoryClaimRepository implements ClaimRepository {
+  private scopes = new Map<string, Map<string, string>>();
+
+  claim(scope: string, key: string, deliveryId: string, limit?: number): ClaimResult {
+    const claims = this.scopes.get(scope) ?? new Map<string, string>();
+    const owner = claims.get(key);
+    if (owner) return owner === deliveryId ? 'claimed' : 'duplicate';
+    if (limit !== undefined && claims.size >= limit) return 'limit';
+    claims.set(key, deliveryId);
+    this.scopes.set(scope, claims);
+    return 'claimed';
+  }
+}
@@ -20,6 +20,7 @@ import type {
   SDKTaskStartedMessage,
   SDKTaskNotificationMessage,
   McpSdkServerConfigWithInstance,
+  HookCallback,
 } from '@anthropic-ai/claude-agent-sdk';
 import type { Config } from './config.js';
 import type { ArchitectResult, ContinueContext } from './architect.js';
@@ -28,11 +29,15 @@ import type { UsageService } from './usage-service.js';
 import type { IssueContextRepository } from './issue-context-repository.js';
 import type { SettingsRepository } from './settings-repository.js';
 import type { LLMProvider } from './usage-types.js';
+import type { BudgetLimits } from './budget.js';
+import { checkCommand, checkFileWrite, formatRefusal, logRefusal, resolveCommandPolicy } from './command-policy.js';
+import type { CommandPolicy } from './command-policy.js';
 import {
   createGitHubClient,
   getAuthFromConfig,
 } from './github-tools.js';
-import { createWorkspace, resolveGitToken } from './workspace.js';
+import { resolveGitToken } from './workspace.js';
+import { getWorkspaceManager } from './workspace-manager.js';
 import { createGitHubMcpServer, createContextMcpServer } from './claude-sdk-tools.js';
 import { findAllPrsForIssue } from './core.js';
 import {
@@ -59,10 +64,12 @@ const TOOL_NAME_MAP: Record<string, string> = {
   // GitHub tools → MCP-prefixed
   fetch_github_issues: 'mcp__github__fetch_github_issues',
   comment_on_issue: 'mcp__github__comment_on_issue',
+  reply_to_review_comment: 'mcp__github__reply_to_review_comment',
   create_pull_request: 'mcp__github__create_pull_request',
   get_pr_diff: 'mcp__github__get_pr_diff',
   submit_pr_review: 'mcp__github__submit_pr_review',
   check_ci_status: 'mcp__github__check_ci_status',
+  get_ci_failure_logs: 'mcp__github__get_ci_failure_logs',
   fetch_sub_issues: 'mcp__github__fetch_sub_issues',
   get_parent_issue: 'mcp__github__get_parent_issue',
   create_sub_issue: 'mcp__github__create_sub_issue',
@@ -121,7 +128,7 @@ export function detectPhaseFromToolCalls(toolNames: string[]): string | null {
     if (name.includes('create_pull_request')) {
       return 'pr-creation';
     }
-    if (name.includes('check_ci_status')) {
+    if (name.includes('check_ci_status') || name.includes('get_ci_failure_logs')) {
       return 'ci-check';
     }
   }
@@ -147,6 +154,8 @@ export async function runClaudeSdkAgent(
     contextRepo?: IssueContextRepository;
     repoId?: number;
     settingsRepo?: SettingsRepository;
+    budget?: BudgetLimits;
+    commandPolicy?: CommandPolicy;
   } = {},
 ): Promise<ArchitectResult> {
   if (config.claudeSdk.multi) {
@@ -178,13 +187,15 @@ async function setupSdkAgent(
 ): Promise<SdkSetup> {
   const { owner, repo } = config.github;
   const auth = getAuthFromConfig(config.github);
-  const octokit = createGitHubClient(auth);
+  const octokit = createGitHubClient(auth, config.github);
 
   // Clone workspace
-  const gitToken = await resolveGitToken(auth);
-  const workspace = await createWorkspace(owner, repo, gitToken, {
+  const gitToken = await resolveGitToken(auth, config.github);
+  const workspace = await getWorkspaceManager().create(owner, repo, gitToken, {
     branch: options.continueContext?.branchName,
     processId: options.processId ?? undefined,
+    host: config.github.host,
+    caBundlePath: config.github.caBundlePath,
   });
   console.log(`\u{1F4C2} Workspace cloned to ${workspace.path}`);
 
@@ -206,6 +217,48 @@ async function setupSdkAgent(
   return { workspace, mcpServers, octokit, owner, repo };
 }
 
+/**
+ * The SDK reports usage only when a session ends, too late for the run's
+ * budget tracker, so the run's cost limit is also handed to the SDK.
+ */
+function resolveSdkBudgetUsd(config: Config, budget: BudgetLimits | undefined): number | undefined {
+  const limits = [config.claudeSdk.maxBudgetUsd, budget?.maxCostUsd].filter((v): v is number => v !== undefined);
+  return limits.length > 0 ? Math.min(...limits) : undefined;
+}
+
+/**
+ * PreToolUse hook applying the command policy to the SDK's native Bash,
+ * Edit and Write tools (including those of subagents). Refusals go back to
+ * the model as the deny reason.
+ */
+export function createCommandPolicyHooks(config: Config, workspacePath: string, policy?: CommandPolicy): SdkOptions['hooks'] {
+  const commandPolicy = policy ?? resolveCommandPolicy(config.commandPolicy);
+  const hook: HookCallback = async (input) => {
+    if (input.hook_event_name !== 'PreToolUse') return { continue: true };
+    const toolInput = (input.tool_input ?? {}) as Record<string, unknown>;
+    let output: string | undefined;
+    if (input.tool_name === 'Bash' && typeof toolInput.command === 'string') {
+      const refusal = checkCommand(toolInput.command, commandPolicy, workspacePath);
+      if (refusal) {
+        logRefusal('command', refusal);
+        output = formatRefusal('command', refusal, commandPolicy);
+      }
+    } else {
+      const filePath = toolInput.file_path ?? toolInput.notebook_path;
+      const refusal = typeof filePath === 'string' ? checkFileWrite(filePath, commandPolicy, workspacePath) : undefined;
+      if (refusal) {
+        logRefusal('file', refusal);
+        output = formatRefusal('file', refusal, commandPolicy);
+      }
+    }
+    if (!output) return { continue: true };
+    return {
+      hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision: 'deny', permissionDecisionReason: output },
+    };
+  };
+  return { PreToolUse: [{ matcher: 'Bash|Edit|MultiEdit|Write|NotebookEdit', hooks: [hook] }] };
+}
+
 // ── Single SDK Agent ─────────────────────────────────────────────────────────
 
 async function runClaudeSdkSingleAgent(
@@ -221,6 +274,8 @@ async function runClaudeSdkSingleAgent(
     contextRepo?: IssueContextRepository;
     repoId?: number;
     settingsRepo?: SettingsRepository;
+    budget?: BudgetLimits;
+    commandPolicy?: CommandPolicy;
   } = {},
 ): Promise<ArchitectResult> {
   const maxIterations = getMaxIterations(config);
@@ -288,7 +343,7 @@ Skip phases 1-3. Go directly to Phase 4 (self-review):
     permissionMode: config.claudeSdk.permissionMode,
     allowDangerouslySkipPermissions: config.claudeSdk.permissionMode === 'bypassPermissions',
     maxTurns: config.claudeSdk.maxTurns,
-    maxBudgetUsd: config.claudeSdk.maxBudgetUsd,
+    maxBudgetUsd: resolveSdkBudgetUsd(config, options.budget),
     model: sdkModel,
     systemPrompt,
     env: {
@@ -297,6 +352,7 @@ Skip phases 1-3. Go directly to Phase 4 (self-review):
       GIT_TERMINAL_PROMPT: '0',
     },
     mcpServers,
+    hooks: createCommandPolicyHooks(config, workspace.path, options.commandPolicy),
     abortController,
     settingSources: [],
     persistSession: false,
@@ -355,6 +411,7 @@ Skip phases 1-3. Go directly to Phase 4 (self-review):
                 agent: 'claude-sdk',
                 processId: options.processId,
                 issueNumber,
+                repoId: options.repoId,
                 inputTokens: usage.input_tokens ?? 0,
                 outputTokens: usage.output_tokens ?? 0,
                 durationMs: success.duration_ms,
@@ -437,6 +494,8 @@ async function runClaudeSdkMultiAgent(
     contextRepo?: IssueContextRepository;
     repoId?: number;
     settingsRepo?: SettingsRepository;
+    budget?: BudgetLimits;
+    commandPolicy?: CommandPolicy;
   } = {},
 ): Promise<ArchitectResult> {
   const maxIterations = getMaxIterations(config);
@@ -470,6 +529,7 @@ async function runClaudeSdkMultiAgent(
       description: 'Implements changes — branches, edits, commits, pushes, opens PRs.',
       tools: ['Read', 'Edit', 'Write', 'Bash', 'Glob', 'Grep',
         'mcp__github__comment_on_issue', 'mcp__github__create_pull_request', 'mcp__github__create_sub_issue',
+        'mcp__github__reply_to_review_comment',
         'mcp__context__save_issue_context', 'mcp__context__get_issue_context'],
       prompt: adaptPromptForSdk(buildCoderSystemPrompt(owner, repo)),
       model: mapToSdkModel(config, 'coder'),
@@ -521,14 +581,14 @@ Skip the issuer step — go directly to the reviewer:
   const sdkOptions: SdkOptions = {
     tools: ['Read', 'Glob', 'Grep', 'Task'],
     allowedTools: ['Read', 'Glob', 'Grep', 'Task',
-      'mcp__github__fetch_github_issues', 'mcp__github__check_ci_status',
+      'mcp__github__fetch_github_issues', 'mcp__github__check_ci_status', 'mcp__github__get_ci_failure_logs',
       'mcp__context__save_issue_context', 'mcp__context__get_issue_context', 'mcp__context__search_past_issues'],
     agents,
     cwd: workspace.path,
     permissionMode: config.claudeSdk.permissionMode,
     allowDangerouslySkipPermissions: config.claudeSdk.permissionMode === 'bypassPermissions',
     maxTurns: config.claudeSdk.maxTurns,
-    maxBudgetUsd: config.claudeSdk.maxBudgetUsd,
+    maxBudgetUsd: resolveSdkBudgetUsd(config, options.budget),
     model: sdkModel,
     systemPrompt: architectPrompt,
     env: {
@@ -537,6 +597,7 @@ Skip the issuer step — go directly to the reviewer:
       GIT_TERMINAL_PROMPT: '0',
     },
     mcpServers,
+    hooks: createCommandPolicyHooks(config, workspace.path, options.commandPolicy),
     abortController,
     settingSources: [],
     persistSession: false,
@@ -639,6 +700,7 @@ Skip the issuer step — go directly to the reviewer:
                     agent: 'architect',
                     processId: options.processId,
                     issueNumber,
+                    repoId: options.repoId,
                     inputTokens: modelUsage.inputTokens,
                     outputTokens: modelUsage.outputTokens,
                     durationMs: success.duration_ms,
@@ -651,6 +713,7 @@ Skip the issuer step — go directly to the reviewer:
                   agent: 'architect',
                   processId: options.processId,
                   issueNumber,
+                  repoId: options.repoId,
                   inputTokens: usage.input_tokens ?? 0,
                   outputTokens: usage.output_tokens ?? 0,
                   durationMs: success.duration_ms,
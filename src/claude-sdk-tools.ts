@@ -14,6 +14,8 @@ import type { McpSdkServerConfigWithInstance } from '@anthropic-ai/claude-agent-
 import { z } from 'zod';
 import type { Octokit } from 'octokit';
 import { withRetry } from './utils.js';
+import { replyToReviewComment } from './github-tools.js';
+import { fetchCiFailures } from './ci-logs.js';
 import type { IssueContextRepository, IssueContextEntryType } from './issue-context-repository.js';
 
 // ── Constants ────────────────────────────────────────────────────────────────
@@ -126,6 +128,26 @@ export function createGitHubMcpServer(
         },
       },
 
+      // ── reply_to_review_comment ──
+      {
+        name: 'reply_to_review_comment',
+        description: 'Reply in a human PR review thread with what you changed and resolve it. Call after pushing. Idempotent per thread.',
+        inputSchema: {
+          pull_number: z.number().describe('PR number'),
+          comment_id: z.number().describe('ID of the review comment that starts the thread'),
+          body: z.string().describe('What you changed (Markdown)'),
+          resolve: z.boolean().optional().describe('Resolve the thread after replying (default: true)'),
+        },
+        handler: async (args: { pull_number: number; comment_id: number; body: string; resolve?: boolean }) => {
+          if (dryRun) return dryRunResult(`reply to review comment ${args.comment_id} on PR #${args.pull_number}`);
+          try {
+            return textResult({ comment_id: args.comment_id, ...await replyToReviewComment(octokit, owner, repo, args) });
+          } catch (error) {
+            return textResult({ error: `Error replying to review comment ${args.comment_id}: ${error}` });
+          }
+        },
+      },
+
       // ── create_pull_request ──
       {
         name: 'create_pull_request',
@@ -249,6 +271,25 @@ export function createGitHubMcpServer(
         },
       },
 
+      // ── get_ci_failure_logs ──
+      {
+        name: 'get_ci_failure_logs',
+        description: 'Fetch the failing part of each failed CI job log for a PR: failed step, failing tests and error excerpt.',
+        inputSchema: {
+          pull_number: z.number().describe('PR number'),
+        },
+        handler: async (args: { pull_number: number }) => {
+          if (dryRun) return textResult({ dry_run: true, failed: 0, failures: [] });
+          try {
+            const { data: pr } = await withRetry(() => octokit.rest.pulls.get({ owner, repo, pull_number: args.pull_number }));
+            const failures = await fetchCiFailures(octokit, owner, repo, pr.head.sha);
+            return textResult({ head_sha: pr.head.sha, failed: failures.length, failures });
+          } catch (error) {
+            return textResult({ error: `Error fetching CI logs for PR #${args.pull_number}: ${error}` });
+          }
+        },
+      },
+
       // ── fetch_sub_issues ──
       {
         name: 'fetch_sub_issues',
@@ -3,15 +3,29 @@ import 'dotenv/config';
 
 import type { Server } from 'http';
 import { execSync } from 'child_process';
-import { loadConfig } from './config.js';
+import { loadConfig, type Config } from './config.js';
 import { runPollCycle, showStatus, retractIssue, requestShutdown } from './core.js';
 import { runArchitect } from './architect.js';
-import { startWebhookServer, startDialogServer } from './listener.js';
+import { startWebhookServer, startDialogServer, createWebhookJobHandler, dispatchWebhookEvent, WEBHOOK_JOB } from './listener.js';
 import { runReviewSingle } from './reviewer-agent.js';
 import { startDashboardServer, startUnifiedServer } from './dashboard.js';
 import { createGitHubClient, getAuthFromConfig } from './github-tools.js';
 import { UsageService } from './usage-service.js';
+import { SpendGuard } from './spend-limits.js';
+import { loadRunBudget, formatBudget } from './budget.js';
+import { loadSandboxPolicy } from './sandbox.js';
+import { loadCommandPolicy } from './command-policy.js';
+import { loadVerificationPolicy } from './verification.js';
+import { loadApprovalPolicy } from './approval.js';
+import { loadScmProvider } from './scm-provider.js';
 import { setPricingLookup, buildPricingLookup } from './usage-pricing.js';
+import { JobQueue } from './job-queue.js';
+import { gcWorkspaces } from './workspace.js';
+import { WorkspaceManager, setWorkspaceManager, formatSize } from './workspace-manager.js';
+import { setCheckpointer } from './checkpointer.js';
+import { configForRepo } from './repo-repository.js';
+import type { RepoRecord, RepoRepository } from './repo-repository.js';
+import type { ProcessRepository } from './process-repository.js';
 
 // ── Signal handlers for graceful shutdown ────────────────────────────────────
 
@@ -42,7 +56,7 @@ process.on('SIGINT', () => gracefulShutdown('SIGINT'));
  * Usage:
  *   deepagents poll [--no-save] [--max-issues N]
  *   deepagents analyze --issue N
- *   deepagents status
+ *   deepagents status [--repo owner/name]
  *
  * No external CLI framework -- uses manual process.argv parsing.
  */
@@ -54,15 +68,18 @@ Commands:
   migrate           Run database migrations (requires DATABASE_URL or PG_* env vars)
   test-access       Quick read/write test against GitHub (posts + deletes a comment)
   serve             Start unified server (dashboard + webhook + dialog on one port)
-  poll              Run a poll cycle: fetch, analyze, comment, branch, PR
+  poll              Run a poll cycle over all active repos: fetch, analyze, comment, branch, PR
   analyze           Analyze a single issue (Architect: understand, implement, review)
   continue          Continue review/fix cycle on an existing PR for an issue
   review            Review a pull request (fetch diff, analyze, post review comment)
   retract           Undo agent actions on an issue (close PR, delete branch, delete comment)
+  replay            Re-run a stored webhook delivery through the webhook handlers
   webhook           Start the HTTP webhook listener for GitHub events
   dialog            Start the interactive chat server (agent + human conversation)
   dashboard         Start the web dashboard for managing agent processes
   kill              Force kill all running deepagents processes
+  gc-workspaces     Prune stale worktrees and drop repo mirrors of inactive repos
+  workspaces        List checked-out workspaces with size, age and owning process
   status            Show current polling state
   help              Show this help message
 
@@ -93,6 +110,16 @@ Options for 'review':
 
 Options for 'retract':
   --issue N         Issue number to retract (required)
+  --repo OWNER/NAME Repo the issue is in (default: GITHUB_OWNER/GITHUB_REPO)
+
+Options for 'status':
+  --repo OWNER/NAME Repo to show (default: GITHUB_OWNER/GITHUB_REPO)
+
+Options for 'replay':
+  --delivery ID     X-GitHub-Delivery id of a stored delivery (required; needs a database)
+
+Options for 'workspaces':
+  --sweep           Remove orphaned workspaces first
 
 Options for 'dialog':
   --port N          Port for the dialog server (default: 3001)
@@ -118,13 +145,18 @@ Examples:
   deepagents review --pr 10
   deepagents continue --issue 20 --pr 21 --branch issue-20-fix
   deepagents retract --issue 42
+  deepagents retract --issue 42 --repo acme/api
+  deepagents replay --delivery 72d3162e-cc78-11e3-81ab-4c9367dc0958
   deepagents webhook
   deepagents dialog
   deepagents kill
+  deepagents gc-workspaces
+  deepagents workspaces --sweep
   deepagents dashboard
   deepagents dashboard --port 8080
   deepagents dialog --port 8080
   deepagents status
+  deepagents status --repo acme/api
 `.trim();
 
 function parseArgs(argv: string[]): { command: string; flags: Record<string, string | boolean> } {
@@ -151,6 +183,10 @@ function parseArgs(argv: string[]): { command: string; flags: Record<string, str
       flags['port'] = args[++i];
     } else if (arg === '--branch' && i + 1 < args.length) {
       flags['branch'] = args[++i];
+    } else if (arg === '--delivery' && i + 1 < args.length) {
+      flags['delivery'] = args[++i];
+    } else if (arg === '--repo' && i + 1 < args.length) {
+      flags['repo'] = args[++i];
     } else {
       console.error(`Unknown option: ${arg}`);
       console.log(USAGE);
@@ -161,6 +197,30 @@ function parseArgs(argv: string[]): { command: string; flags: Record<string, str
   return { command, flags };
 }
 
+/**
+ * The repo a `--repo owner/name` flag names (the env-configured repo
+ * without one) and the config to work on it with. Exits on unknown repos.
+ */
+async function resolveRepoFlag(config: Config, flag: string | boolean | undefined, repoRepository: RepoRepository): Promise<{ config: Config; record: RepoRecord }> {
+  let { owner, repo } = config.github;
+  if (flag !== undefined) {
+    // GitLab namespaces may contain "/": the repo is the last segment
+    const match = typeof flag === 'string' ? /^(.+)\/([^/]+)$/.exec(flag) : null;
+    if (!match) {
+      console.error('--repo must be OWNER/NAME');
+      process.exit(1);
+    }
+    [, owner, repo] = match;
+  }
+
+  const record = await Promise.resolve(repoRepository.getByOwnerRepo(owner, repo));
+  if (!record) {
+    console.error(`Unknown repo ${owner}/${repo} -- add it on the dashboard first`);
+    process.exit(1);
+  }
+  return { config: await configForRepo(config, record), record };
+}
+
 function killOrphanedProcesses() {
   const excludePids = new Set([process.pid, process.ppid]);
 
@@ -211,6 +271,43 @@ function killOrphanedProcesses() {
   console.log('Done.');
 }
 
+/**
+ * Garbage-collect .workspaces/: stale worktrees, and mirrors of repos that
+ * are neither the configured repo nor active in the repos table.
+ */
+async function collectWorkspaceGarbage(config: Config, repoRepository: RepoRepository) {
+  const records = await Promise.resolve(repoRepository.list(true));
+  const activeRepos = [`${config.github.owner}/${config.github.repo}`, ...records.map(r => `${r.owner}/${r.repo}`)];
+  const result = gcWorkspaces(activeRepos);
+  if (result.removedMirrors.length > 0 || result.removedWorktrees > 0) {
+    console.log(`[workspace] GC removed ${result.removedWorktrees} worktree(s) and ${result.removedMirrors.length} mirror(s)${result.removedMirrors.length > 0 ? `: ${result.removedMirrors.join(', ')}` : ''}`);
+  }
+  return result;
+}
+
+/**
+ * Servers own the workspaces of their runs: GC mirrors and stale worktrees,
+ * then sweep orphaned workspaces and enforce quotas every few minutes.
+ */
+function startWorkspaceManager(config: Config, processRepository: ProcessRepository, repoRepository: RepoRepository) {
+  const manager = new WorkspaceManager({
+    processRepository,
+    quota: config.workspaces,
+    sweepIntervalMs: config.workspaces.sweepIntervalMinutes * 60_000,
+  });
+  setWorkspaceManager(manager);
+  collectWorkspaceGarbage(config, repoRepository)
+    .catch(err => console.error('[workspace] GC failed:', err))
+    .then(() => manager.start());
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d`;
+}
+
 async function main() {
   const { command, flags } = parseArgs(process.argv);
 
@@ -256,6 +353,11 @@ async function main() {
 
   // All commands except 'help', 'kill', and 'migrate' need config
   const config = loadConfig();
+  setWorkspaceManager(new WorkspaceManager({ quota: config.workspaces }));
+  if (['poll', 'analyze', 'continue', 'review', 'serve', 'webhook', 'dashboard'].includes(command)) {
+    // Warns at startup when the bash tool's limits would only be advisory
+    await loadSandboxPolicy(config);
+  }
 
   switch (command) {
     case 'test-access': {
@@ -271,7 +373,7 @@ async function main() {
       }
 
       const { owner, repo } = config.github;
-      const octokit = createGitHubClient(getAuthFromConfig(config.github));
+      const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
 
       console.log(`\u{1F50D} Testing GitHub access for ${owner}/${repo}...\n`);
 
@@ -402,6 +504,7 @@ async function main() {
       console.log('\u{1F916} Deep Agents GitHub Issue Poller\n');
       const { createRepositories: createPollRepos } = await import('./db/repositories.js');
       const pollRepos = await createPollRepos(config);
+      const pollUsageService = new UsageService(pollRepos.usageRepository);
       await runPollCycle(config, {
         dryRun,
         noSave,
@@ -411,6 +514,9 @@ async function main() {
         repoId: pollRepos.repoId,
         issueContextRepository: pollRepos.issueContextRepository,
         processRepository: pollRepos.processRepository,
+        repoRepository: pollRepos.repoRepository,
+        usageService: pollUsageService,
+        spendGuard: new SpendGuard(config, pollUsageService, pollRepos.settingsRepository, pollRepos.repoRepository),
       });
       break;
     }
@@ -442,6 +548,12 @@ async function main() {
         processId,
         contextRepo: analyzeRepos.issueContextRepository,
         repoId: analyzeRepos.repoId,
+        budget: await loadRunBudget(config, issueNumber, analyzeRepos.repoRepository),
+        sandbox: await loadSandboxPolicy(config, analyzeRepos.repoRepository),
+        commandPolicy: await loadCommandPolicy(config, analyzeRepos.repoRepository),
+        verification: await loadVerificationPolicy(config, analyzeRepos.repoRepository),
+        approval: await loadApprovalPolicy(config, analyzeRepos.repoRepository),
+        scm: await loadScmProvider(config, analyzeRepos.repoRepository),
       });
 
       console.log('\n' + '\u{2500}'.repeat(60));
@@ -452,6 +564,7 @@ async function main() {
       } else {
         console.log(`   PR:      ${result.prNumber ? `#${result.prNumber}` : 'none'}`);
       }
+      if (result.budgetExceeded) console.log(`   Budget:  exceeded (${formatBudget(result.budgetExceeded)})`);
       break;
     }
 
@@ -494,6 +607,11 @@ async function main() {
         continueContext: { prNumber: contPrNumber, branchName: contBranch },
         usageService: contUsageService,
         processId: contProcessId,
+        budget: await loadRunBudget(config, contIssueNumber),
+        sandbox: await loadSandboxPolicy(config),
+        commandPolicy: await loadCommandPolicy(config),
+        verification: await loadVerificationPolicy(config),
+        scm: await loadScmProvider(config),
       });
 
       console.log('\n' + '\u{2500}'.repeat(60));
@@ -504,6 +622,7 @@ async function main() {
       } else {
         console.log(`   PR:      ${contResult.prNumber ? `#${contResult.prNumber}` : 'none'}`);
       }
+      if (contResult.budgetExceeded) console.log(`   Budget:  exceeded (${formatBudget(contResult.budgetExceeded)})`);
       break;
     }
 
@@ -541,9 +660,12 @@ async function main() {
       }
 
       console.log('\u{1F916} Deep Agents Retract\n');
-      console.log(`Retracting actions for issue #${retractIssueNumber}...\n`);
 
-      const retractResult = await retractIssue(config, retractIssueNumber);
+      const { createRepositories: createRetractRepos } = await import('./db/repositories.js');
+      const retractRepos = await createRetractRepos(config);
+      const retractTarget = await resolveRepoFlag(config, flags['repo'], retractRepos.repoRepository);
+      console.log(`Retracting actions for issue #${retractIssueNumber} in ${retractTarget.record.owner}/${retractTarget.record.repo}...\n`);
+      const retractResult = await retractIssue(retractTarget.config, retractIssueNumber, retractRepos.pollRepository, retractTarget.record.id);
 
       console.log('\nRetraction summary:');
       console.log(`  PR closed:       ${retractResult.prClosed ? 'yes' : 'no'}`);
@@ -558,6 +680,42 @@ async function main() {
       break;
     }
 
+    case 'replay': {
+      const deliveryId = flags['delivery'];
+      if (!deliveryId || typeof deliveryId !== 'string') {
+        console.error('--delivery ID is required for the replay command');
+        console.log('\nUsage: deepagents replay --delivery <X-GitHub-Delivery id>');
+        process.exit(1);
+      }
+
+      const { createRepositories: createReplayRepos } = await import('./db/repositories.js');
+      const replayRepos = await createReplayRepos(config);
+      const delivery = await Promise.resolve(replayRepos.webhookDeliveryRepository.getById(deliveryId));
+      if (!delivery) {
+        console.error(`Delivery ${deliveryId} not found${config.database ? '' : ' (deliveries are only stored when a database is configured)'}`);
+        process.exit(1);
+      }
+
+      console.log('\u{1F916} Deep Agents Webhook Replay\n');
+      console.log(`Replaying ${delivery.event}${delivery.action ? `.${delivery.action}` : ''} (delivery: ${deliveryId})...\n`);
+      await Promise.resolve(replayRepos.webhookDeliveryRepository.markReplayed(deliveryId));
+      const replayResult = await dispatchWebhookEvent(
+        { event: delivery.event, deliveryId, payload: delivery.payload },
+        config,
+        {
+          processRepository: replayRepos.processRepository,
+          deliveryRepository: replayRepos.webhookDeliveryRepository,
+          repoRepository: replayRepos.repoRepository,
+          pollRepository: replayRepos.pollRepository,
+          repoId: replayRepos.repoId,
+          claimRepository: replayRepos.claimRepository,
+          modelOverrideRepository: replayRepos.modelOverrideRepository,
+        },
+      );
+      console.log(`\nReplay ${replayResult.handled ? 'handled' : 'ignored'}: ${replayResult.reason}`);
+      break;
+    }
+
     case 'serve': {
       const servePortStr = flags['port'];
       if (servePortStr !== undefined) {
@@ -572,9 +730,11 @@ async function main() {
       console.log('\u{1F916} Deep Agents Unified Server\n');
       const { createRepositories } = await import('./db/repositories.js');
       const repos = await createRepositories(config);
+      setCheckpointer(repos.checkpointer);
       if (config.database) {
         setPricingLookup(await buildPricingLookup(repos.pricingRepository));
       }
+      startWorkspaceManager(config, repos.processRepository, repos.repoRepository);
       activeServer = startUnifiedServer(config, {
         usageRepository: repos.usageRepository,
         processRepository: repos.processRepository,
@@ -582,6 +742,13 @@ async function main() {
         repoRepository: config.database ? repos.repoRepository : undefined,
         pricingRepository: config.database ? repos.pricingRepository : undefined,
         settingsRepository: repos.settingsRepository,
+        jobRepository: repos.jobRepository,
+        webhookDeliveryRepository: repos.webhookDeliveryRepository,
+        pollRepository: repos.pollRepository,
+        sessionRepository: repos.sessionRepository,
+        apiKeyRepository: repos.apiKeyRepository,
+        claimRepository: repos.claimRepository,
+        modelOverrideRepository: repos.modelOverrideRepository,
         repoId: repos.repoId,
       });
       // Server runs until process is killed (SIGTERM/SIGINT)
@@ -594,7 +761,27 @@ async function main() {
         process.exit(1);
       }
       console.log('\u{1F916} Deep Agents Webhook Listener\n');
-      activeServer = startWebhookServer(config.webhook, config);
+      const { createRepositories: createWebhookRepos } = await import('./db/repositories.js');
+      const webhookRepos = await createWebhookRepos(config);
+      const jobQueue = new JobQueue(webhookRepos.jobRepository, config.jobs);
+      const webhookUsageService = new UsageService(webhookRepos.usageRepository);
+      const spendGuard = new SpendGuard(config, webhookUsageService, webhookRepos.settingsRepository, webhookRepos.repoRepository);
+      spendGuard.watch();
+      const webhookOptions = {
+        processRepository: webhookRepos.processRepository,
+        deliveryRepository: webhookRepos.webhookDeliveryRepository,
+        repoRepository: webhookRepos.repoRepository,
+        pollRepository: webhookRepos.pollRepository,
+        repoId: webhookRepos.repoId,
+        claimRepository: webhookRepos.claimRepository,
+        modelOverrideRepository: webhookRepos.modelOverrideRepository,
+        usageService: webhookUsageService,
+        spendGuard,
+      };
+      startWorkspaceManager(config, webhookRepos.processRepository, webhookRepos.repoRepository);
+      jobQueue.register(WEBHOOK_JOB, createWebhookJobHandler(config, webhookOptions));
+      await jobQueue.start();
+      activeServer = startWebhookServer(config.webhook, config, { ...webhookOptions, jobQueue });
       // Server runs until process is killed (SIGTERM/SIGINT)
       break;
     }
@@ -609,7 +796,10 @@ async function main() {
       }
 
       console.log('\u{1F916} Deep Agents Interactive Dialog\n');
-      activeServer = startDialogServer(config, port);
+      const { createRepositories: createDialogRepos } = await import('./db/repositories.js');
+      const dialogRepos = await createDialogRepos(config);
+      setCheckpointer(dialogRepos.checkpointer);
+      activeServer = startDialogServer(config, port, dialogRepos.sessionRepository);
       // Server runs until process is killed (SIGTERM/SIGINT)
       break;
     }
@@ -626,9 +816,11 @@ async function main() {
       console.log('\u{1F916} Deep Agents Dashboard\n');
       const { createRepositories: createDashRepos } = await import('./db/repositories.js');
       const dashRepos = await createDashRepos(config);
+      setCheckpointer(dashRepos.checkpointer);
       if (config.database) {
         setPricingLookup(await buildPricingLookup(dashRepos.pricingRepository));
       }
+      startWorkspaceManager(config, dashRepos.processRepository, dashRepos.repoRepository);
       activeServer = startDashboardServer(config, dashPort, {
         usageRepository: dashRepos.usageRepository,
         processRepository: dashRepos.processRepository,
@@ -636,6 +828,13 @@ async function main() {
         repoRepository: config.database ? dashRepos.repoRepository : undefined,
         pricingRepository: config.database ? dashRepos.pricingRepository : undefined,
         settingsRepository: dashRepos.settingsRepository,
+        jobRepository: dashRepos.jobRepository,
+        webhookDeliveryRepository: dashRepos.webhookDeliveryRepository,
+        pollRepository: dashRepos.pollRepository,
+        sessionRepository: dashRepos.sessionRepository,
+        apiKeyRepository: dashRepos.apiKeyRepository,
+        claimRepository: dashRepos.claimRepository,
+        modelOverrideRepository: dashRepos.modelOverrideRepository,
         repoId: dashRepos.repoId,
       });
       // Server runs until process is killed (SIGTERM/SIGINT)
@@ -650,7 +849,45 @@ async function main() {
     }
 
     case 'status': {
-      await showStatus(config);
+      const { createRepositories: createStatusRepos } = await import('./db/repositories.js');
+      const statusRepos = await createStatusRepos(config);
+      const statusTarget = await resolveRepoFlag(config, flags['repo'], statusRepos.repoRepository);
+      await showStatus(statusTarget.config, statusRepos.pollRepository, statusTarget.record);
+      break;
+    }
+
+    case 'workspaces': {
+      const { createRepositories: createWsRepos } = await import('./db/repositories.js');
+      const wsRepos = await createWsRepos(config);
+      const manager = new WorkspaceManager({ processRepository: wsRepos.processRepository, quota: config.workspaces });
+      if (flags['sweep']) {
+        const swept = await manager.sweep();
+        console.log(`Removed ${swept.removed.length} orphaned workspace(s).\n`);
+      }
+      const usage = await manager.usage();
+      const { maxTotalMb, maxWorkspaceMb } = usage.quota;
+      console.log(`.workspaces/ uses ${formatSize(usage.totalBytes)}${maxTotalMb ? ` of ${maxTotalMb} MB` : ''}${maxWorkspaceMb ? ` (max ${maxWorkspaceMb} MB per workspace)` : ''}`);
+      if (usage.workspaces.length === 0) {
+        console.log('No workspaces.');
+        break;
+      }
+      console.log('');
+      for (const ws of usage.workspaces) {
+        const repoName = ws.owner && ws.repo ? `${ws.owner}/${ws.repo}` : '-';
+        const owner = ws.process ? `${ws.process.id} (${ws.process.status})` : ws.processId ?? '-';
+        const state = ws.state === 'orphan' ? `orphan: ${ws.reason}` : 'live';
+        console.log(`  ${ws.name.padEnd(40)} ${formatSize(ws.sizeBytes).padStart(10)} ${formatAge(ws.ageMs).padStart(8)}  ${repoName.padEnd(28)} ${owner.padEnd(32)} ${state}`);
+      }
+      break;
+    }
+
+    case 'gc-workspaces': {
+      const { createRepositories: createGcRepos } = await import('./db/repositories.js');
+      const gcRepos = await createGcRepos(config);
+      const gcResult = await collectWorkspaceGarbage(config, gcRepos.repoRepository);
+      if (gcResult.removedMirrors.length === 0 && gcResult.removedWorktrees === 0) {
+        console.log('Nothing to clean up.');
+      }
       break;
     }
 
@@ -0,0 +1,424 @@
+/**
+ * Declarative policy for what the coder may run and modify.
+ *
+ *   {
+ *     "allow": ["git", "pnpm test", "npm run lint"],
+ *     "deny": ["git push --force*", "curl", "rm -rf /"],
+ *     "protectedPaths": [".github/workflows/**"]
+ *   }
+ *
+ * A rule is a command line: its first word must match the command, its
+ * options must appear among the command's options in any order or spelling
+ * (`-rf`, `-r -f`, `--recursive --force`), and its other words must appear
+ * in that order among the command's operands (`*` is a wildcard within a
+ * word; `/*` names the same target as `/`). Compound commands (`a && b | c`),
+ * substitutions (`$(...)`, backticks) and `bash -c` / `sh -c` / `eval`
+ * strings are checked part by part, and wrappers such as `env`, `sudo` or
+ * `timeout` are looked through.
+ *
+ * Deny rules always win. When `allow` is non-empty, every part of a command
+ * must match an allow rule. Protected paths may be read but not written —
+ * neither through edit_file / write_file nor by a shell command other than a
+ * read-only one (cat, grep, git diff, ...).
+ *
+ * The global policy comes from COMMAND_ALLOW / COMMAND_DENY /
+ * COMMAND_PROTECTED_PATHS (config.commandPolicy). A repo's
+ * `configJson.commandPolicy` adds deny rules and protected paths, and its
+ * `allow` list, when set, replaces the global one.
+ */
+
+import path from 'path';
+import type { Config } from './config.js';
+import type { RepoRepository } from './repo-repository.js';
+
+export interface CommandPolicy {
+  /** Commands the coder may run; empty allows anything not denied */
+  allow: string[];
+  deny: string[];
+  /** Globs relative to the repo root that may not be modified */
+  protectedPaths: string[];
+}
+
+/** Command policy section of the global config or a repo's configJson. */
+export type CommandPolicyConfig = Partial<CommandPolicy>;
+
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+  allow: [],
+  deny: ['git push --force*', 'git push -f', 'rm -rf /', 'rm -rf ~', 'curl', 'wget'],
+  protectedPaths: ['.github/workflows/**'],
+};
+
+/** Why a command or file write was refused. */
+export interface PolicyRefusal {
+  /** The command or file path that was refused */
+  subject: string;
+  /** The part of a compound command that failed the check */
+  part?: string;
+  /** The deny rule or protected path that matched, if any */
+  rule?: string;
+  reason: string;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string' && v.trim().length > 0);
+}
+
+/**
+ * Validate a command policy section. Returns undefined when there is none;
+ * throws with a readable message when it is malformed.
+ */
+export function parseCommandPolicyConfig(raw: unknown, where = 'commandPolicy'): CommandPolicyConfig | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`${where} must be an object`);
+  const policy = raw as Record<string, unknown>;
+  for (const key of ['allow', 'deny', 'protectedPaths'] as const) {
+    if (policy[key] !== undefined && !isStringList(policy[key])) {
+      throw new Error(`${where}.${key} must be a list of non-empty strings`);
+    }
+  }
+  return policy as CommandPolicyConfig;
+}
+
+/**
+ * Combine the defaults, the global policy and a repo's: deny rules and
+ * protected paths accumulate, the most specific `allow` list wins.
+ */
+export function resolveCommandPolicy(global?: CommandPolicyConfig, repo?: CommandPolicyConfig): CommandPolicy {
+  const unique = (lists: Array<string[] | undefined>) => [...new Set(lists.flatMap(l => l ?? []))];
+  return {
+    allow: repo?.allow ?? global?.allow ?? DEFAULT_COMMAND_POLICY.allow,
+    deny: unique([DEFAULT_COMMAND_POLICY.deny, global?.deny, repo?.deny]),
+    protectedPaths: unique([DEFAULT_COMMAND_POLICY.protectedPaths, global?.protectedPaths, repo?.protectedPaths]),
+  };
+}
+
+/**
+ * Command policy for runs on the configured repo: global config plus the
+ * repo's configJson.commandPolicy. A malformed repo policy is logged and ignored.
+ */
+export async function loadCommandPolicy(config: Config, repoRepository?: RepoRepository): Promise<CommandPolicy> {
+  const { owner, repo } = config.github;
+  let repoPolicy: CommandPolicyConfig | undefined;
+  if (repoRepository) {
+    const record = await Promise.resolve(repoRepository.getByOwnerRepo(owner, repo));
+    try {
+      repoPolicy = parseCommandPolicyConfig(record?.configJson?.commandPolicy);
+    } catch (err) {
+      console.error(`[command-policy] Invalid command policy for ${owner}/${repo}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return resolveCommandPolicy(config.commandPolicy as CommandPolicyConfig | undefined, repoPolicy);
+}
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+/** One simple command of a shell line: its words and redirection targets. */
+export interface CommandPart {
+  words: string[];
+  redirects: string[];
+}
+
+const OPERATOR_CHARS = new Set([';', '&', '|', '\n', '(', ')']);
+
+/** Index of the `)` closing the `$(` that opens at `start`, or -1. */
+function findClosingParen(command: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < command.length; i++) {
+    if (command[i] === '(') depth++;
+    else if (command[i] === ')' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Split a shell command into simple commands. Quotes are honoured; the
+ * contents of `$(...)` and backticks become parts of their own. This is
+ * a policy check, not a shell: anything it cannot follow stays a word.
+ */
+export function splitCommand(command: string): CommandPart[] {
+  const parts: CommandPart[] = [];
+  let current: CommandPart = { words: [], redirects: [] };
+  let word = '';
+  let inWord = false;
+  let redirectNext = false;
+
+  const endWord = () => {
+    if (!inWord) return;
+    if (redirectNext) current.redirects.push(word);
+    else current.words.push(word);
+    word = '';
+    inWord = false;
+    redirectNext = false;
+  };
+  const endPart = () => {
+    endWord();
+    if (current.words.length > 0 || current.redirects.length > 0) parts.push(current);
+    current = { words: [], redirects: [] };
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i];
+    if (ch === '\\' && i + 1 < command.length) {
+      word += command[++i];
+      inWord = true;
+    } else if (ch === "'") {
+      const end = command.indexOf("'", i + 1);
+      word += command.slice(i + 1, end === -1 ? undefined : end);
+      inWord = true;
+      i = end === -1 ? command.length : end;
+    } else if (ch === '"') {
+      let j = i + 1;
+      for (; j < command.length && command[j] !== '"'; j++) {
+        if (command[j] === '\\' && j + 1 < command.length) word += command[++j];
+        else if (command[j] === '$' && command[j + 1] === '(') {
+          const close = findClosingParen(command, j + 1);
+          if (close === -1) break;
+          parts.push(...splitCommand(command.slice(j + 2, close)));
+          word += '$(...)';
+          j = close;
+        } else word += command[j];
+      }
+      inWord = true;
+      i = j;
+    } else if (ch === '$' && command[i + 1] === '(') {
+      const close = findClosingParen(command, i + 1);
+      const inner = command.slice(i + 2, close === -1 ? undefined : close);
+      parts.push(...splitCommand(inner));
+      word += '$(...)';
+      inWord = true;
+      i = close === -1 ? command.length : close;
+    } else if (ch === '`') {
+      const end = command.indexOf('`', i + 1);
+      parts.push(...splitCommand(command.slice(i + 1, end === -1 ? undefined : end)));
+      word += '$(...)';
+      inWord = true;
+      i = end === -1 ? command.length : end;
+    } else if (ch === '>' || ch === '<') {
+      // "2>" and "&>" belong to the redirection, not the previous word
+      if (/^\d+$/.test(word)) { word = ''; inWord = false; }
+      endWord();
+      const dup = /^>?&\d+/.exec(command.slice(i + 1));
+      if (dup) {
+        // "2>&1" duplicates a descriptor, it names no file
+        i += dup[0].length;
+        continue;
+      }
+      while (command[i + 1] === '>' || command[i + 1] === '&') i++;
+      redirectNext = ch === '>';
+    } else if (ch === ' ' || ch === '\t') {
+      endWord();
+    } else if (OPERATOR_CHARS.has(ch)) {
+      endPart();
+    } else {
+      word += ch;
+      inWord = true;
+    }
+  }
+  endPart();
+  return parts;
+}
+
+/** Commands that only prefix another command; their options are skipped. */
+const WRAPPERS = new Set(['env', 'sudo', 'nohup', 'time', 'timeout', 'nice', 'xargs', 'exec', 'command', 'builtin']);
+const SHELLS = new Set(['bash', 'sh', 'zsh', 'dash']);
+
+/**
+ * The command words a policy sees for one part: the leading VAR=value
+ * assignments and wrappers stripped, the program reduced to its basename.
+ * Also returns the script of `bash -c` / `eval` to check separately.
+ */
+function commandWords(part: CommandPart): { words: string[]; nested?: string } {
+  let words = part.words;
+  for (;;) {
+    while (words.length > 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) words = words.slice(1);
+    if (words.length === 0 || !WRAPPERS.has(path.basename(words[0]))) break;
+    words = words.slice(1);
+    while (words.length > 0 && (words[0].startsWith('-') || /^[\d.]+[smhd]?$/.test(words[0]))) words = words.slice(1);
+  }
+  if (words.length === 0) return { words };
+  words = [path.basename(words[0]), ...words.slice(1)];
+
+  if (words[0] === 'eval') return { words, nested: words.slice(1).join(' ') };
+  if (SHELLS.has(words[0])) {
+    const flag = words.findIndex(w => /^-[a-z]*c[a-z]*$/.test(w));
+    if (flag !== -1 && words[flag + 1] !== undefined) return { words, nested: words[flag + 1] };
+  }
+  return { words };
+}
+
+// ── Matching ─────────────────────────────────────────────────────────────────
+
+function globToRegExp(glob: string, segmentWildcard: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+      if (glob[i + 1] === '/') i++;
+    } else if (ch === '*') {
+      source += segmentWildcard ? '[^/]*' : '.*';
+    } else if (ch === '?') {
+      source += segmentWildcard ? '[^/]' : '.';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** Long options and synonyms spelled out as the short option rules use. */
+const OPTION_ALIASES: Record<string, Record<string, string>> = {
+  rm: { '--recursive': '-r', '-R': '-r', '--force': '-f' },
+};
+
+/**
+ * A command's arguments split into options and operands, so `rm -fr`,
+ * `rm -r -f` and `rm --recursive --force` all read as `-r -f`. Clustered
+ * short options are split, aliases resolved, and operands naming a
+ * directory's contents (`/*`, `~/`) reduced to the directory.
+ */
+function normalizeArgs(program: string, args: string[]): { options: string[]; operands: string[] } {
+  const aliases = OPTION_ALIASES[program] ?? {};
+  const options: string[] = [];
+  const operands: string[] = [];
+  let endOfOptions = false;
+  for (const arg of args) {
+    if (!endOfOptions && arg === '--') {
+      endOfOptions = true;
+    } else if (!endOfOptions && /^-[A-Za-z]{2,}$/.test(arg)) {
+      options.push(...[...arg.slice(1)].map(ch => aliases[`-${ch}`] ?? `-${ch}`));
+    } else if (!endOfOptions && arg.startsWith('-') && arg !== '-') {
+      options.push(aliases[arg.split('=')[0]] ?? arg);
+    } else if (arg.includes('/') || arg.startsWith('~')) {
+      const trimmed = arg.replace(/\/+/g, '/').replace(/(\/\*|\/\.)+$/, '').replace(/(.)\/$/, '$1');
+      operands.push(trimmed || '/');
+    } else {
+      operands.push(arg);
+    }
+  }
+  return { options, operands };
+}
+
+/**
+ * Whether a rule ("git push --force*") matches a command's words: the
+ * rule's options appear anywhere among the command's, and its operands in
+ * order among the command's operands.
+ */
+export function matchesRule(rule: string, words: string[]): boolean {
+  const ruleWords = splitCommand(rule)[0]?.words ?? [];
+  if (ruleWords.length === 0 || words.length === 0) return false;
+  if (!globToRegExp(ruleWords[0], false).test(words[0])) return false;
+
+  const want = normalizeArgs(words[0], ruleWords.slice(1));
+  const have = normalizeArgs(words[0], words.slice(1));
+  if (!want.options.every(option => have.options.some(o => globToRegExp(option, false).test(o)))) return false;
+  let next = 0;
+  for (const operand of want.operands.map(w => globToRegExp(w, false))) {
+    while (next < have.operands.length && !operand.test(have.operands[next])) next++;
+    if (next === have.operands.length) return false;
+    next++;
+  }
+  return true;
+}
+
+/** Repo-relative form of a path, or undefined when it points outside the repo. */
+function repoRelative(filePath: string, root?: string): string | undefined {
+  let p = filePath;
+  if (root && path.isAbsolute(p)) {
+    p = path.relative(root, p);
+  }
+  if (path.isAbsolute(p)) return undefined;
+  p = path.posix.normalize(p.split(path.sep).join('/')).replace(/\/$/, '');
+  return p.startsWith('..') ? undefined : p;
+}
+
+/**
+ * The protected path glob a file path falls under, if any. A directory
+ * that contains protected files (".github") counts as protected too.
+ */
+export function protectedPathFor(filePath: string, policy: CommandPolicy, root?: string): string | undefined {
+  const rel = repoRelative(filePath, root);
+  if (!rel || rel === '.') return undefined;
+  return policy.protectedPaths.find((glob) => {
+    if (globToRegExp(glob, true).test(rel)) return true;
+    const staticPrefix = glob.split('/').filter((_, i, all) => !all.slice(0, i + 1).some(s => /[*?]/.test(s))).join('/');
+    return staticPrefix !== '' && (staticPrefix === rel || staticPrefix.startsWith(`${rel}/`));
+  });
+}
+
+/** Commands that may mention protected paths because they do not write. */
+const READ_ONLY_COMMANDS = new Set(['cat', 'head', 'tail', 'less', 'more', 'ls', 'grep', 'rg', 'wc', 'diff', 'stat', 'file', 'echo']);
+const READ_ONLY_GIT = new Set(['log', 'show', 'diff', 'status', 'blame', 'ls-files', 'grep']);
+
+function isReadOnly(words: string[]): boolean {
+  if (words[0] === 'git') return READ_ONLY_GIT.has(words.find((w, i) => i > 0 && !w.startsWith('-')) ?? '');
+  return READ_ONLY_COMMANDS.has(words[0]);
+}
+
+// ── Checks ───────────────────────────────────────────────────────────────────
+
+/**
+ * Check a shell command against the policy. Returns undefined when it may
+ * run, or the refusal. `root` is the workspace path, for absolute paths.
+ */
+export function checkCommand(command: string, policy: CommandPolicy, root?: string, depth = 0): PolicyRefusal | undefined {
+  for (const part of splitCommand(command)) {
+    const { words, nested } = commandWords(part);
+    const text = words.join(' ');
+
+    for (const target of part.redirects) {
+      const rule = protectedPathFor(target, policy, root);
+      if (rule) return { subject: command, part: text || `> ${target}`, rule, reason: `writes to protected path ${target}` };
+    }
+    if (words.length === 0) continue;
+
+    const denied = policy.deny.find(rule => matchesRule(rule, words));
+    if (denied) return { subject: command, part: text, rule: denied, reason: `matches deny rule "${denied}"` };
+
+    if (policy.allow.length > 0 && !policy.allow.some(rule => matchesRule(rule, words))) {
+      return { subject: command, part: text, reason: `\`${words[0]}\` is not on the allow list` };
+    }
+
+    if (!isReadOnly(words)) {
+      for (const word of words.slice(1)) {
+        const rule = protectedPathFor(word, policy, root);
+        if (rule) return { subject: command, part: text, rule, reason: `modifies protected path ${word}` };
+      }
+    }
+
+    if (nested && depth < 3) {
+      const inner = checkCommand(nested, policy, root, depth + 1);
+      if (inner) return { ...inner, subject: command };
+    }
+  }
+  return undefined;
+}
+
+/** Check a file write (edit_file, write_file, SDK Edit/Write) against the protected paths. */
+export function checkFileWrite(filePath: string, policy: CommandPolicy, root?: string): PolicyRefusal | undefined {
+  const rule = protectedPathFor(filePath, policy, root);
+  return rule ? { subject: filePath, rule, reason: `${filePath} is a protected path` } : undefined;
+}
+
+/**
+ * Refusal returned to the model: JSON, so the agent can tell a policy
+ * refusal from a failed command and pick another approach.
+ */
+export function formatRefusal(kind: 'command' | 'file', refusal: PolicyRefusal, policy: CommandPolicy): string {
+  return JSON.stringify({
+    error: kind === 'command' ? 'command_refused' : 'write_refused',
+    [kind === 'command' ? 'command' : 'path']: refusal.subject,
+    ...(refusal.part && refusal.part !== refusal.subject ? { part: refusal.part } : {}),
+    ...(refusal.rule ? { rule: refusal.rule } : {}),
+    reason: refusal.reason,
+    ...(kind === 'command' && policy.allow.length > 0 ? { allowed: policy.allow } : {}),
+    hint: 'This is blocked by the repository command policy. Do not retry it or work around it; use another approach or explain the limitation in your summary.',
+  });
+}
+
+/** Log a refusal; console.log lines land in the process log. */
+export function logRefusal(kind: 'command' | 'file', refusal: PolicyRefusal): void {
+  const subject = kind === 'command' ? `command \`${refusal.subject}\`` : `write to ${refusal.subject}`;
+  console.log(`\u{1F6AB} Policy refused ${subject}: ${refusal.reason}`);
+}
@@ -1,4 +1,6 @@
 import fs from 'fs';
+import { SCM_KINDS } from './scm-provider.js';
+import type { ScmKind } from './scm-provider.js';
 
 /**
  * Read an LLM config section from env vars with a given prefix.
@@ -26,6 +28,16 @@ function parseIntEnv(name: string): number | undefined {
   return num;
 }
 
+/**
+ * Parse a comma-separated env var into trimmed, non-empty entries.
+ * Returns undefined if not set.
+ */
+function parseListEnv(name: string): string[] | undefined {
+  const val = process.env[name];
+  if (val === undefined) return undefined;
+  return val.split(',').map(s => s.trim()).filter(Boolean);
+}
+
 /**
  * Warn if a baseUrl points to localhost/127.0.0.1 over HTTPS (common Ollama gotcha).
  */
@@ -54,6 +66,10 @@ export function loadConfig() {
       appId: parseIntEnv('GITHUB_APP_ID'),
       privateKeyPath: process.env.GITHUB_APP_PEM_PATH,
       installationId: parseIntEnv('GITHUB_APP_INSTALLATION_ID'),
+      // GitHub Enterprise Server (see GitHubServer); repo records can name their own host
+      host: process.env.GITHUB_HOST || undefined,
+      apiUrl: process.env.GITHUB_API_URL || undefined,
+      caBundlePath: process.env.GITHUB_CA_BUNDLE || undefined,
     },
     llm: {
       provider: process.env.LLM_PROVIDER,
@@ -74,7 +90,97 @@ export function loadConfig() {
       model: process.env.CLAUDE_SDK_MODEL || undefined,
       multi: process.env.CLAUDE_SDK_MULTI !== 'false',  // default true = use subagents
     },
+    jobs: {
+      concurrency: parseIntEnv('JOB_CONCURRENCY') ?? 2,
+      perRepoConcurrency: parseIntEnv('JOB_PER_REPO_CONCURRENCY') ?? 1,
+      maxAttempts: parseIntEnv('JOB_MAX_ATTEMPTS') ?? 3,
+      retryBaseDelayMs: parseIntEnv('JOB_RETRY_BASE_MS') ?? 30000,
+    },
+    workspaces: {
+      maxWorkspaceMb: parseIntEnv('WORKSPACE_MAX_MB'),
+      maxTotalMb: parseIntEnv('WORKSPACES_MAX_TOTAL_MB'),
+      sweepIntervalMinutes: parseIntEnv('WORKSPACE_SWEEP_MINUTES') ?? 10,
+    },
+    issueEvents: {
+      actions: parseListEnv('ISSUE_EVENTS') ?? ['opened'],
+      triggerLabels: parseListEnv('ISSUE_TRIGGER_LABELS') ?? ['ai-fix'],
+      editThreshold: process.env.ISSUE_EDIT_THRESHOLD ? parseFloat(process.env.ISSUE_EDIT_THRESHOLD) : 0.3,
+    },
+    ciFix: {
+      maxAttempts: parseIntEnv('CI_FIX_MAX_ATTEMPTS') ?? 3,
+    },
+    // SCM host of GITHUB_OWNER/GITHUB_REPO (repo records can name their own)
+    scm: {
+      provider: (process.env.SCM_PROVIDER || 'github') as ScmKind,
+    },
+    gitlab: {
+      token: process.env.GITLAB_TOKEN || undefined,
+      host: process.env.GITLAB_HOST || 'gitlab.com',
+      webhookSecret: process.env.GITLAB_WEBHOOK_SECRET || undefined,
+    },
+  };
+
+  // run budgets (per-repo budgets live in RepoRecord.configJson.budget)
+  const budgetMaxUsd = process.env.BUDGET_MAX_USD ? parseFloat(process.env.BUDGET_MAX_USD) : undefined;
+  const budgetMaxTokens = parseIntEnv('BUDGET_MAX_TOKENS');
+  const budgetLabels = process.env.BUDGET_LABELS;
+  if (budgetMaxUsd !== undefined || budgetMaxTokens !== undefined || budgetLabels) {
+    config.budget = { maxCostUsd: budgetMaxUsd, maxTokens: budgetMaxTokens };
+    if (budgetLabels) {
+      try {
+        config.budget.labels = JSON.parse(budgetLabels);
+      } catch {
+        config.budget.labels = null;
+      }
+    }
+  }
+
+  // bash tool sandbox (per-repo policies live in RepoRecord.configJson.sandbox)
+  const sandbox: Record<string, unknown> = {
+    backend: process.env.SANDBOX_BACKEND || undefined,
+    timeoutSeconds: parseIntEnv('SANDBOX_TIMEOUT_SECONDS'),
+    cpuSeconds: parseIntEnv('SANDBOX_CPU_SECONDS'),
+    memoryMb: parseIntEnv('SANDBOX_MEMORY_MB'),
+    network: process.env.SANDBOX_NETWORK || undefined,
+    allowedHosts: parseListEnv('SANDBOX_ALLOWED_HOSTS'),
+    envPassthrough: parseListEnv('SANDBOX_ENV_PASSTHROUGH'),
+    dockerImage: process.env.SANDBOX_DOCKER_IMAGE || undefined,
+  };
+  if (Object.values(sandbox).some(v => v !== undefined)) {
+    config.sandbox = Object.fromEntries(Object.entries(sandbox).filter(([, v]) => v !== undefined));
+  }
+
+  // coder command policy (per-repo policies live in RepoRecord.configJson.commandPolicy)
+  const commandPolicy = {
+    allow: parseListEnv('COMMAND_ALLOW'),
+    deny: parseListEnv('COMMAND_DENY'),
+    protectedPaths: parseListEnv('COMMAND_PROTECTED_PATHS'),
+  };
+  if (Object.values(commandPolicy).some(v => v !== undefined)) {
+    config.commandPolicy = Object.fromEntries(Object.entries(commandPolicy).filter(([, v]) => v !== undefined));
+  }
+
+  // verification gate before PRs (per-repo gates live in RepoRecord.configJson.verification)
+  const verification: Record<string, unknown> = {
+    typecheck: process.env.VERIFY_TYPECHECK_COMMAND || undefined,
+    lint: process.env.VERIFY_LINT_COMMAND || undefined,
+    test: process.env.VERIFY_TEST_COMMAND || undefined,
+    onFailure: process.env.VERIFY_ON_FAILURE || undefined,
+    maxAttempts: parseIntEnv('VERIFY_MAX_ATTEMPTS'),
+    timeoutSeconds: parseIntEnv('VERIFY_TIMEOUT_SECONDS'),
   };
+  if (Object.values(verification).some(v => v !== undefined)) {
+    config.verification = Object.fromEntries(Object.entries(verification).filter(([, v]) => v !== undefined));
+  }
+
+  // plan approval before coding (per-repo gates live in RepoRecord.configJson.approval)
+  const approval: Record<string, unknown> = {
+    required: process.env.APPROVAL_REQUIRED ? process.env.APPROVAL_REQUIRED === 'true' : undefined,
+    timeoutHours: parseIntEnv('APPROVAL_TIMEOUT_HOURS'),
+  };
+  if (Object.values(approval).some(v => v !== undefined)) {
+    config.approval = Object.fromEntries(Object.entries(approval).filter(([, v]) => v !== undefined));
+  }
 
   // issuerLlm (all-or-nothing: only if PROVIDER is set)
   // Backward compat: fall back to TRIAGE_LLM_* env vars
@@ -99,6 +205,22 @@ export function loadConfig() {
     };
   }
 
+  // dashboard login (GitHub OAuth or OIDC)
+  const authProvider = process.env.AUTH_PROVIDER;
+  if (authProvider) {
+    config.auth = {
+      provider: authProvider,
+      clientId: process.env.AUTH_CLIENT_ID,
+      clientSecret: process.env.AUTH_CLIENT_SECRET,
+      issuer: process.env.AUTH_OIDC_ISSUER || undefined,
+      baseUrl: process.env.AUTH_BASE_URL?.replace(/\/+$/, ''),
+      allowedUsers: parseListEnv('AUTH_ALLOWED_USERS') ?? [],
+      githubOrg: process.env.AUTH_GITHUB_ORG || undefined,
+      sessionTtlHours: parseIntEnv('AUTH_SESSION_TTL_HOURS') ?? 24,
+      admins: parseListEnv('AUTH_ADMINS') ?? [],
+    };
+  }
+
   // webhook
   const webhookPort = parseIntEnv('WEBHOOK_PORT');
   const webhookSecret = process.env.WEBHOOK_SECRET;
@@ -125,30 +247,49 @@ export function loadConfig() {
     process.exit(1);
   }
 
-  // Auth: either PAT (token) or GitHub App (appId + privateKeyPath + installationId)
+  if (!SCM_KINDS.includes(config.scm.provider)) {
+    console.error(`❌ SCM_PROVIDER must be one of: ${SCM_KINDS.join(', ')}`);
+    process.exit(1);
+  }
+  if (config.scm.provider === 'gitlab' && !config.gitlab.token) {
+    console.error('❌ SCM_PROVIDER=gitlab requires GITLAB_TOKEN');
+    process.exit(1);
+  }
+
+  // Auth: either PAT (token) or GitHub App (appId + privateKeyPath, optionally
+  // installationId; without it the installation is looked up per repo)
   const hasToken = !!config.github.token;
   const hasAppId = typeof config.github.appId === 'number';
   const hasPrivateKeyPath = !!config.github.privateKeyPath;
   const hasInstallationId = typeof config.github.installationId === 'number';
   const appFieldCount = [hasAppId, hasPrivateKeyPath, hasInstallationId].filter(Boolean).length;
 
-  if (!hasToken && appFieldCount === 0) {
+  if (!hasToken && appFieldCount === 0 && config.scm.provider === 'github') {
     console.error('❌ Missing GitHub auth: set GITHUB_TOKEN or GITHUB_APP_ID + GITHUB_APP_PEM_PATH + GITHUB_APP_INSTALLATION_ID');
     process.exit(1);
   }
 
-  if (!hasToken && appFieldCount > 0 && appFieldCount < 3) {
-    console.error('❌ Incomplete GitHub App config: all three required (GITHUB_APP_ID, GITHUB_APP_PEM_PATH, GITHUB_APP_INSTALLATION_ID)');
+  if (!hasToken && appFieldCount > 0 && !(hasAppId && hasPrivateKeyPath)) {
+    console.error('❌ Incomplete GitHub App config: GITHUB_APP_ID and GITHUB_APP_PEM_PATH are required (GITHUB_APP_INSTALLATION_ID is optional)');
     process.exit(1);
   }
 
-  if (!hasToken && appFieldCount === 3) {
+  if (!hasToken && hasAppId && hasPrivateKeyPath) {
     if (!fs.existsSync(config.github.privateKeyPath)) {
       console.error(`❌ GitHub App private key file not found: ${config.github.privateKeyPath}`);
       process.exit(1);
     }
   }
 
+  if (config.github.apiUrl && !/^https?:\/\//.test(config.github.apiUrl)) {
+    console.error('❌ GITHUB_API_URL must be an http(s) URL, e.g. https://github.example.com/api/v3');
+    process.exit(1);
+  }
+  if (config.github.caBundlePath && !fs.existsSync(config.github.caBundlePath)) {
+    console.error(`❌ GITHUB_CA_BUNDLE file not found: ${config.github.caBundlePath}`);
+    process.exit(1);
+  }
+
   // LLM validation
   const localProviders = ['ollama', 'openai-compatible'];
   if (!config.llm.apiKey && !localProviders.includes(config.llm.provider)) {
@@ -204,6 +345,35 @@ export function loadConfig() {
     }
   }
 
+  // auth validation
+  if (config.auth) {
+    const { provider, clientId, clientSecret, issuer, baseUrl, allowedUsers, githubOrg, sessionTtlHours } = config.auth;
+    if (provider !== 'github' && provider !== 'oidc') {
+      console.error('❌ AUTH_PROVIDER must be "github" or "oidc"');
+      process.exit(1);
+    }
+    if (!clientId || !clientSecret || !baseUrl) {
+      console.error('❌ AUTH_PROVIDER requires AUTH_CLIENT_ID, AUTH_CLIENT_SECRET and AUTH_BASE_URL');
+      process.exit(1);
+    }
+    if (!/^https?:\/\//.test(baseUrl)) {
+      console.error('❌ AUTH_BASE_URL must be the public http(s) URL of the server, e.g. https://agents.example.com');
+      process.exit(1);
+    }
+    if (provider === 'oidc' && !issuer) {
+      console.error('❌ AUTH_PROVIDER=oidc requires AUTH_OIDC_ISSUER');
+      process.exit(1);
+    }
+    if (provider === 'github' && allowedUsers.length === 0 && !githubOrg) {
+      console.error('❌ AUTH_PROVIDER=github requires AUTH_ALLOWED_USERS or AUTH_GITHUB_ORG — otherwise any GitHub account could sign in');
+      process.exit(1);
+    }
+    if (!(sessionTtlHours > 0)) {
+      console.error('❌ AUTH_SESSION_TTL_HOURS must be a positive integer');
+      process.exit(1);
+    }
+  }
+
   // webhook validation
   if (config.webhook) {
     if (typeof config.webhook.port !== 'number' || config.webhook.port < 1 || config.webhook.port > 65535) {
@@ -216,6 +386,99 @@ export function loadConfig() {
     }
   }
 
+  // job queue validation
+  if (config.jobs.concurrency < 1 || config.jobs.perRepoConcurrency < 1 || config.jobs.maxAttempts < 1) {
+    console.error('❌ JOB_CONCURRENCY, JOB_PER_REPO_CONCURRENCY and JOB_MAX_ATTEMPTS must be at least 1');
+    process.exit(1);
+  }
+
+  // issue event validation
+  const issueActions = ['opened', 'labeled', 'edited', 'reopened', 'closed'];
+  const unknownActions = config.issueEvents.actions.filter((a: string) => !issueActions.includes(a));
+  if (unknownActions.length > 0) {
+    console.error(`❌ ISSUE_EVENTS contains unknown action(s): ${unknownActions.join(', ')} (allowed: ${issueActions.join(', ')})`);
+    process.exit(1);
+  }
+  const editThreshold = config.issueEvents.editThreshold;
+  if (isNaN(editThreshold) || editThreshold <= 0 || editThreshold > 1) {
+    console.error('❌ ISSUE_EDIT_THRESHOLD must be a number greater than 0 and at most 1');
+    process.exit(1);
+  }
+
+  // budget validation
+  if (config.budget) {
+    const { maxCostUsd, maxTokens, labels } = config.budget;
+    if (maxCostUsd !== undefined && !(maxCostUsd > 0)) {
+      console.error('❌ BUDGET_MAX_USD must be a positive number');
+      process.exit(1);
+    }
+    if (maxTokens !== undefined && maxTokens < 1) {
+      console.error('❌ BUDGET_MAX_TOKENS must be a positive integer');
+      process.exit(1);
+    }
+    const validLabel = (b: any) => b && typeof b === 'object'
+      && (b.maxCostUsd === undefined || (typeof b.maxCostUsd === 'number' && b.maxCostUsd > 0))
+      && (b.maxTokens === undefined || (typeof b.maxTokens === 'number' && b.maxTokens > 0));
+    if (labels !== undefined && (!labels || typeof labels !== 'object' || Array.isArray(labels) || !Object.values(labels).every(validLabel))) {
+      console.error('❌ BUDGET_LABELS must be a JSON object of label budgets, e.g. {"small-fix":{"maxCostUsd":0.5,"maxTokens":200000}}');
+      process.exit(1);
+    }
+  }
+
+  // sandbox validation
+  if (config.sandbox) {
+    const { backend, network, timeoutSeconds, cpuSeconds, memoryMb } = config.sandbox;
+    if (backend !== undefined && !['subprocess', 'bwrap', 'docker'].includes(backend)) {
+      console.error('❌ SANDBOX_BACKEND must be one of: subprocess, bwrap, docker');
+      process.exit(1);
+    }
+    if (network !== undefined && !['allowlist', 'none', 'open'].includes(network)) {
+      console.error('❌ SANDBOX_NETWORK must be one of: allowlist, none, open');
+      process.exit(1);
+    }
+    if ([timeoutSeconds, cpuSeconds, memoryMb].some(v => v !== undefined && v < 1)) {
+      console.error('❌ SANDBOX_TIMEOUT_SECONDS, SANDBOX_CPU_SECONDS and SANDBOX_MEMORY_MB must be positive integers');
+      process.exit(1);
+    }
+    // Only the subprocess backend can route commands through the allowlist proxy (see sandbox.ts)
+    if ((backend === 'bwrap' || backend === 'docker') && (network ?? 'allowlist') === 'allowlist') {
+      console.error(`❌ SANDBOX_BACKEND=${backend} can't enforce the network allowlist: set SANDBOX_NETWORK to none or open`);
+      process.exit(1);
+    }
+  }
+
+  // verification validation
+  if (config.verification) {
+    const { onFailure, maxAttempts, timeoutSeconds } = config.verification;
+    if (onFailure !== undefined && !['block', 'warn'].includes(onFailure)) {
+      console.error('❌ VERIFY_ON_FAILURE must be one of: block, warn');
+      process.exit(1);
+    }
+    if ([maxAttempts, timeoutSeconds].some(v => v !== undefined && v < 1)) {
+      console.error('❌ VERIFY_MAX_ATTEMPTS and VERIFY_TIMEOUT_SECONDS must be positive integers');
+      process.exit(1);
+    }
+  }
+
+  // approval validation
+  if (config.approval?.timeoutHours !== undefined && config.approval.timeoutHours < 1) {
+    console.error('❌ APPROVAL_TIMEOUT_HOURS must be a positive integer');
+    process.exit(1);
+  }
+
+  // CI fix validation (0 turns automatic fixes off)
+  if (config.ciFix.maxAttempts < 0) {
+    console.error('❌ CI_FIX_MAX_ATTEMPTS must be a non-negative integer');
+    process.exit(1);
+  }
+
+  // workspace quota validation
+  const { maxWorkspaceMb, maxTotalMb, sweepIntervalMinutes } = config.workspaces;
+  if ([maxWorkspaceMb, maxTotalMb, sweepIntervalMinutes].some(v => v !== undefined && v < 1)) {
+    console.error('❌ WORKSPACE_MAX_MB, WORKSPACES_MAX_TOTAL_MB and WORKSPACE_SWEEP_MINUTES must be positive integers');
+    process.exit(1);
+  }
+
   // localhost-https warnings
   warnLocalhostHttps('LLM_BASE_URL', config.llm.baseUrl);
   if (config.issuerLlm) warnLocalhostHttps('ISSUER_LLM_BASE_URL', config.issuerLlm.baseUrl);
@@ -1,7 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import type { Config } from './config.js';
-import { createGitHubClient, getAuthFromConfig } from './github-tools.js';
+import { createGitHubClient, getAuthFromConfig, githubWebUrl } from './github-tools.js';
 import type { Octokit } from 'octokit';
 import { withRetry } from './utils.js';
 import { runArchitect } from './architect.js';
@@ -11,6 +11,17 @@ import { UsageService } from './usage-service.js';
 import type { IssueContextRepository } from './issue-context-repository.js';
 import type { AgentProcess } from './process-manager.js';
 import type { ProcessRepository } from './process-repository.js';
+import { configForRepo } from './repo-repository.js';
+import type { RepoRecord, RepoRepository } from './repo-repository.js';
+import { applyRouteOverrides, loadRoutingConfig, requestIssueApproval, routeIssue } from './issue-router.js';
+import { loadRunBudget } from './budget.js';
+import { loadSandboxPolicy } from './sandbox.js';
+import { loadCommandPolicy } from './command-policy.js';
+import { loadVerificationPolicy } from './verification.js';
+import { loadApprovalPolicy } from './approval.js';
+import { loadScmProvider } from './scm-provider.js';
+import type { ScmProvider } from './scm-provider.js';
+import type { SpendGuard } from './spend-limits.js';
 
 // ── Issue data interface ─────────────────────────────────────────────────────
 
@@ -26,6 +37,9 @@ export interface IssueData {
   id?: number;                    // internal GitHub ID, needed for sub-issue API
   subIssues?: IssueData[];        // populated by enrichment
   parentIssue?: { number: number; title: string; body: string };
+  author?: string;                // used by issue routing rules
+  authorAssociation?: string;
+  milestone?: string;
 }
 
 // ── Sub-issue enrichment ─────────────────────────────────────────────────────
@@ -265,16 +279,67 @@ export function getMaxToolCalls(config: Config): number {
 }
 
 /**
- * Fetch issues from GitHub that are new/updated since the last poll.
+ * Poll settings a repo can override in its configJson:
+ *
+ *   { "maxIssuesPerRun": 10, "concurrency": 2 }
+ */
+export interface RepoPollConfig {
+  /** Issues fetched per cycle; MAX_ISSUES_PER_RUN otherwise */
+  maxIssuesPerRun?: number;
+  /** Issues of the repo processed at the same time (default 1) */
+  concurrency?: number;
+}
+
+/**
+ * Validate the poll settings of a repo's configJson. Throws with a
+ * readable message when one is malformed.
+ */
+export function parsePollConfig(configJson: Record<string, unknown> | undefined): RepoPollConfig {
+  const poll: RepoPollConfig = {};
+  for (const key of ['maxIssuesPerRun', 'concurrency'] as const) {
+    const value = configJson?.[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+      throw new Error(`${key} must be a positive integer`);
+    }
+    poll[key] = value;
+  }
+  return poll;
+}
+
+/** A repo's poll settings; a malformed section is logged and ignored. */
+function loadPollConfig(record: RepoRecord): RepoPollConfig {
+  try {
+    return parsePollConfig(record.configJson);
+  } catch (err) {
+    console.error(`[poll] Invalid poll config for ${record.owner}/${record.repo}: ${err instanceof Error ? err.message : err}`);
+    return {};
+  }
+}
+
+/**
+ * Fetch issues that are new/updated since the last poll: from GitHub, or
+ * from the repo's ScmProvider when it lives elsewhere.
  * Returns formatted issue objects.
  */
 async function fetchIssuesForPoll(
   config: Config,
   maxIssues: number,
   sinceDate: string | null,
+  scm?: ScmProvider,
 ): Promise<IssueData[]> {
+  if (scm && scm.kind !== 'github') {
+    const issues = await scm.listIssues({ state: 'open', limit: maxIssues, since: sinceDate ?? undefined });
+    return issues.map(issue => ({
+      number: issue.number,
+      title: issue.title,
+      body: issue.body || '(no description)',
+      labels: issue.labels,
+    }));
+  }
+
   const { owner, repo } = config.github;
-  const octokit = createGitHubClient(getAuthFromConfig(config.github));
+  const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
 
   const params: Record<string, any> = {
     owner,
@@ -294,6 +359,9 @@ async function fetchIssuesForPoll(
     body: issue.body || '(no description)',
     labels: issue.labels.map((l: any) => typeof l === 'string' ? l : l.name ?? ''),
     id: issue.id,
+    author: issue.user?.login,
+    authorAssociation: issue.author_association,
+    milestone: issue.milestone?.title,
   }));
 
   // Enrich with sub-issue data (non-fatal)
@@ -302,30 +370,88 @@ async function fetchIssuesForPoll(
   return mapped;
 }
 
+export interface PollCycleOptions {
+  noSave?: boolean;
+  dryRun?: boolean;
+  /** Overrides every repo's maxIssuesPerRun */
+  maxIssues?: number;
+  maxToolCalls?: number;
+  pollRepository?: PollRepository;
+  /** Id of the env-configured repo when there is no repoRepository */
+  repoId?: number;
+  /** Poll only these repos instead of every active one */
+  repos?: RepoRecord[];
+  issueContextRepository?: IssueContextRepository;
+  processRepository?: ProcessRepository;
+  repoRepository?: RepoRepository;
+  usageService?: UsageService;
+  spendGuard?: SpendGuard;
+}
+
 /**
- * Run a full poll cycle: fetch new issues, deduplicate, process via Architect.
+ * Run a full poll cycle over every active repo: fetch new issues,
+ * deduplicate, process via Architect.
  *
  * The Architect supervisor handles everything: issue understanding (Issuer),
  * implementation (Coder), and review (Reviewer). No separate triage phase needed.
+ *
+ * Repos come from the RepoRepository (only the env-configured repo without
+ * one) and are polled one after another, each with its own poll state and
+ * the maxIssuesPerRun / concurrency of its configJson. A repo that fails to
+ * poll doesn't stop the others; the cycle throws once all were tried.
  */
-export async function runPollCycle(config: Config, options: { noSave?: boolean; dryRun?: boolean; maxIssues?: number; maxToolCalls?: number; pollRepository?: PollRepository; repoId?: number; issueContextRepository?: IssueContextRepository; processRepository?: ProcessRepository } = {}): Promise<void> {
-  const maxIssues = options.maxIssues ?? getMaxIssues(config);
-  // Dry run implies no-save (never persist state when skipping writes)
-  const skipSave = options.noSave || options.dryRun;
-  const pollRepo = options.pollRepository ?? new FilePollRepository();
-  const repoId = options.repoId ?? 0;
-
-  console.log(`\u{2705} Config loaded: ${config.github.owner}/${config.github.repo}`);
-  console.log(`\u{1F6E1}\uFE0F  Max issues per run: ${maxIssues}`);
+export async function runPollCycle(config: Config, options: PollCycleOptions = {}): Promise<void> {
   if (options.dryRun) {
     console.log('\u{1F9EA} DRY RUN MODE -- GitHub writes (comments, branches, PRs) will be SKIPPED');
     console.log('   Read operations (fetch issues, list files, read files) still execute.');
-    console.log('   Poll state will NOT be saved.');
+    console.log('   Poll state will NOT be saved.\n');
   } else if (options.noSave) {
     console.log('\u{1F9EA} NO-SAVE MODE -- poll state will NOT be saved after this run');
-    console.log('   NOTE: GitHub operations (comments, branches, PRs) WILL still execute.');
+    console.log('   NOTE: GitHub operations (comments, branches, PRs) WILL still execute.\n');
   }
-  console.log('');
+
+  const repos: RepoRecord[] = options.repos ?? (options.repoRepository
+    ? await Promise.resolve(options.repoRepository.list(true))
+    : [{ id: options.repoId ?? 0, owner: config.github.owner, repo: config.github.repo, isActive: true, addedAt: new Date().toISOString() }]);
+  if (repos.length === 0) {
+    console.log('\u{2705} No active repos to poll.');
+    return;
+  }
+
+  const failed: string[] = [];
+  for (const record of repos) {
+    if (isShuttingDown()) {
+      console.log('\n\u{1F6D1} Shutdown requested -- not polling the remaining repos');
+      break;
+    }
+    try {
+      await runRepoPoll(await configForRepo(config, record), record, options);
+    } catch (error) {
+      console.error(`\u{274C} Poll failed for ${record.owner}/${record.repo}:`, error);
+      failed.push(`${record.owner}/${record.repo}`);
+    }
+  }
+  if (failed.length > 0) throw new Error(`Poll failed for ${failed.join(', ')}`);
+}
+
+/**
+ * Poll one repo. Issues are first run through the repo's routing rules
+ * (issue-router.ts). Skipped and approval-pending issues are not marked
+ * processed, so they are routed again when they next change (e.g. an
+ * opt-in label is added). Once a spend cap is reached (spend-limits.ts)
+ * no further issues are started; the rest are left for a later cycle.
+ */
+async function runRepoPoll(config: Config, record: RepoRecord, options: PollCycleOptions): Promise<void> {
+  const pollConfig = loadPollConfig(record);
+  const maxIssues = options.maxIssues ?? pollConfig.maxIssuesPerRun ?? getMaxIssues(config);
+  const concurrency = pollConfig.concurrency ?? 1;
+  // Dry run implies no-save (never persist state when skipping writes)
+  const skipSave = options.noSave || options.dryRun;
+  const pollRepo = options.pollRepository ?? new FilePollRepository();
+  const repoId = record.id;
+
+  console.log(`\u{1F4E6} Polling ${config.github.owner}/${config.github.repo}`);
+  console.log(`\u{1F6E1}\uFE0F  Max issues per run: ${maxIssues}${concurrency > 1 ? `, ${concurrency} at a time` : ''}\n`);
 
   // Load polling state
   const pollState = await pollRepo.load(repoId);
@@ -342,7 +468,8 @@ export async function runPollCycle(config: Config, options: { noSave?: boolean;
 
   // Fetch issues
   console.log('\u{1F50E} Fetching issues...');
-  const issues = await fetchIssuesForPoll(config, maxIssues, sinceDate);
+  const scm = await loadScmProvider(config, options.repoRepository);
+  const issues = await fetchIssuesForPoll(config, maxIssues, sinceDate, scm);
 
   // Filter out previously processed issues
   const newIssues = issues.filter((i) => !previousIssueNumbers.includes(i.number));
@@ -356,7 +483,7 @@ export async function runPollCycle(config: Config, options: { noSave?: boolean;
         lastPollIssueNumbers: previousIssueNumbers,
         issues: pollState?.issues ?? {},
       });
-      console.log('\u{1F4BE} Poll state saved');
+      console.log('\u{1F4BE} Poll state saved\n');
     }
     return;
   }
@@ -366,33 +493,55 @@ export async function runPollCycle(config: Config, options: { noSave?: boolean;
 
   console.log(`\u{1F4CB} Found ${deduped.length} new issue(s) to process.\n`);
 
-  // Process each issue via Architect (check shutdown flag between issues)
+  // Process issues via Architect, up to `concurrency` at a time (check shutdown flag between issues)
   const processedNumbers = [...previousIssueNumbers];
   const issueActions: Record<string, IssueActions> = { ...pollState?.issues };
+  const routing = await loadRoutingConfig(options.repoRepository, config.github.owner, config.github.repo);
+  const queue = [...deduped];
+  let stopped = false;
+
+  const processIssue = async (issue: IssueData): Promise<void> => {
+    const decision = routeIssue(issue, routing);
+    if (decision.action === 'skip') {
+      console.log(`\n\u{23ED}\uFE0F  Skipping issue #${issue.number}: ${decision.reason}`);
+      return;
+    }
+    if (decision.action === 'approval') {
+      console.log(`\n\u{270B} Issue #${issue.number} awaiting approval: ${decision.reason}`);
+      if (!options.dryRun) await requestIssueApproval(config, issue.number, decision, routing, scm);
+      return;
+    }
 
-  for (const issue of deduped) {
-    if (isShuttingDown()) {
-      console.log('\n\u{1F6D1} Shutdown requested -- stopping early, saving state...');
-      break;
+    const spend = await options.spendGuard?.check(config.github.owner, config.github.repo);
+    if (spend && !spend.allowed) {
+      if (!stopped) console.log(`\n\u{1F4B8} Not starting issue #${issue.number}: ${spend.reason} -- stopping this cycle`);
+      stopped = true;
+      return;
     }
 
     console.log(`\n\u{1F3D7}\uFE0F  Processing issue #${issue.number}: ${issue.title}`);
     const startTime = new Date().toISOString();
     const processId = `poll-${issue.number}-${Date.now()}`;
     try {
-      const usageService = new UsageService();
-      const result = await runArchitect(config, issue.number, {
+      const usageService = options.usageService ?? new UsageService();
+      const result = await runArchitect(applyRouteOverrides(config, decision.overrides), issue.number, {
         dryRun: options.dryRun,
         usageService,
         processId,
+        budget: await loadRunBudget(config, issue.number, options.repoRepository, issue.labels),
+        sandbox: await loadSandboxPolicy(config, options.repoRepository),
+        commandPolicy: await loadCommandPolicy(config, options.repoRepository),
+        verification: await loadVerificationPolicy(config, options.repoRepository),
+        approval: await loadApprovalPolicy(config, options.repoRepository),
+        scm,
         contextRepo: options.issueContextRepository,
-        repoId: options.repoId,
+        repoId,
       });
       processedNumbers.push(issue.number);
 
       // Persist as AgentProcess so it appears in the dashboard
       if (options.processRepository) {
-        const proc: AgentProcess = {
+        const proc: AgentProcess & { repoId: number } = {
           id: processId,
           type: 'analyze',
           status: 'completed',
@@ -401,6 +550,7 @@ export async function runPollCycle(config: Config, options: { noSave?: boolean;
           prNumbers: result.prNumbers.length > 0 ? result.prNumbers : undefined,
           owner: config.github.owner,
           repo: config.github.repo,
+          repoId,
           startedAt: startTime,
           completedAt: new Date().toISOString(),
           outcome: result.outcome,
@@ -415,7 +565,7 @@ export async function runPollCycle(config: Config, options: { noSave?: boolean;
           comment: null,
           branch: null,
           commits: [],
-          pr: { number: result.prNumber, html_url: `https://github.com/${config.github.owner}/${config.github.repo}/pull/${result.prNumber}` },
+          pr: { number: result.prNumber, html_url: `${githubWebUrl(config.github)}/${config.github.owner}/${config.github.repo}/pull/${result.prNumber}` },
         };
       } else {
         issueActions[String(issue.number)] = {
@@ -431,13 +581,14 @@ export async function runPollCycle(config: Config, options: { noSave?: boolean;
 
       // Persist failed process so it appears in the dashboard
       if (options.processRepository) {
-        const proc: AgentProcess = {
+        const proc: AgentProcess & { repoId: number } = {
           id: processId,
           type: 'analyze',
           status: 'failed',
           issueNumber: issue.number,
           owner: config.github.owner,
           repo: config.github.repo,
+          repoId,
           startedAt: startTime,
           completedAt: new Date().toISOString(),
           error: error instanceof Error ? error.message : String(error),
@@ -446,7 +597,19 @@ export async function runPollCycle(config: Config, options: { noSave?: boolean;
         await options.processRepository.save(proc);
       }
     }
-  }
+  };
+
+  const worker = async (): Promise<void> => {
+    for (let issue = queue.shift(); issue && !stopped; issue = queue.shift()) {
+      if (isShuttingDown()) {
+        if (!stopped) console.log('\n\u{1F6D1} Shutdown requested -- stopping early, saving state...');
+        stopped = true;
+        return;
+      }
+      await processIssue(issue);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, deduped.length) }, worker));
 
   // Save poll state
   if (!skipSave) {
@@ -459,20 +622,21 @@ export async function runPollCycle(config: Config, options: { noSave?: boolean;
   } else {
     console.log(`\n\u{1F9EA} ${options.dryRun ? 'Dry run' : 'No-save'} mode -- poll state NOT saved`);
   }
-  console.log(`   Processed issues: ${processedNumbers.join(', ')}`);
+  console.log(`   Processed issues: ${processedNumbers.join(', ')}\n`);
 }
 
 /**
- * Find the PR created for a given issue number.
- * Looks for PRs matching "Fix #N:" in title or "issue-N-" in branch name.
+ * Open PRs, newest first: from GitHub, or from the repo's ScmProvider when
+ * it lives elsewhere.
  */
-export async function findPrForIssue(
-  config: Config,
-  issueNumber: number,
-): Promise<{ prNumber: number; branch: string } | null> {
-  const { owner, repo } = config.github;
-  const octokit = createGitHubClient(getAuthFromConfig(config.github));
+async function listOpenPrs(config: Config, scm?: ScmProvider): Promise<Array<{ number: number; title: string; branch: string }>> {
+  if (scm && scm.kind !== 'github') {
+    const prs = await scm.listPullRequests({ state: 'open' });
+    return prs.map(pr => ({ number: pr.number, title: pr.title, branch: pr.headRef }));
+  }
 
+  const { owner, repo } = config.github;
+  const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
   const { data: prs } = await octokit.rest.pulls.list({
     owner,
     repo,
@@ -481,16 +645,24 @@ export async function findPrForIssue(
     sort: 'created',
     direction: 'desc',
   });
+  return prs.map(pr => ({ number: pr.number, title: pr.title, branch: pr.head.ref }));
+}
 
-  for (const pr of prs) {
-    const titleMatch = pr.title.includes(`Fix #${issueNumber}:`);
-    const branchMatch = pr.head.ref.startsWith(`issue-${issueNumber}-`);
-    if (titleMatch || branchMatch) {
-      return { prNumber: pr.number, branch: pr.head.ref };
-    }
-  }
+function isPrForIssue(pr: { title: string; branch: string }, issueNumber: number): boolean {
+  return pr.title.includes(`Fix #${issueNumber}:`) || pr.branch.startsWith(`issue-${issueNumber}-`);
+}
 
-  return null;
+/**
+ * Find the PR created for a given issue number.
+ * Looks for PRs matching "Fix #N:" in title or "issue-N-" in branch name.
+ */
+export async function findPrForIssue(
+  config: Config,
+  issueNumber: number,
+  scm?: ScmProvider,
+): Promise<{ prNumber: number; branch: string } | null> {
+  const pr = (await listOpenPrs(config, scm)).find(pr => isPrForIssue(pr, issueNumber));
+  return pr ? { prNumber: pr.number, branch: pr.branch } : null;
 }
 
 /**
@@ -501,40 +673,22 @@ export async function findPrForIssue(
 export async function findAllPrsForIssue(
   config: Config,
   issueNumber: number,
+  scm?: ScmProvider,
 ): Promise<Array<{ prNumber: number; branch: string }>> {
-  const { owner, repo } = config.github;
-  const octokit = createGitHubClient(getAuthFromConfig(config.github));
-
-  const { data: prs } = await octokit.rest.pulls.list({
-    owner,
-    repo,
-    state: 'open',
-    per_page: 30,
-    sort: 'created',
-    direction: 'desc',
-  });
-
-  const matches: Array<{ prNumber: number; branch: string }> = [];
-
-  for (const pr of prs) {
-    const titleMatch = pr.title.includes(`Fix #${issueNumber}:`);
-    const branchMatch = pr.head.ref.startsWith(`issue-${issueNumber}-`);
-    if (titleMatch || branchMatch) {
-      matches.push({ prNumber: pr.number, branch: pr.head.ref });
-    }
-  }
-
-  return matches;
+  return (await listOpenPrs(config, scm))
+    .filter(pr => isPrForIssue(pr, issueNumber))
+    .map(pr => ({ prNumber: pr.number, branch: pr.branch }));
 }
 
 /**
- * Show current polling status (last run time, processed issues).
+ * Show current polling status (last run time, processed issues) of a repo,
+ * the env-configured one when no record is given.
  */
-export async function showStatus(config: Config, pollRepository?: PollRepository): Promise<void> {
+export async function showStatus(config: Config, pollRepository?: PollRepository, repo?: RepoRecord): Promise<void> {
   const pollRepo = pollRepository ?? new FilePollRepository();
   console.log(`\u{1F4CA} Status for ${config.github.owner}/${config.github.repo}\n`);
 
-  const pollState = await pollRepo.load(0);
+  const pollState = await pollRepo.load(repo?.id ?? 0);
 
   if (!pollState) {
     console.log('No poll state found. Run `deepagents poll` to start.');
@@ -561,9 +715,11 @@ export async function showStatus(config: Config, pollRepository?: PollRepository
     }
   }
 
-  const maxIssues = getMaxIssues(config);
+  const pollConfig = repo ? loadPollConfig(repo) : {};
+  const maxIssues = pollConfig.maxIssuesPerRun ?? getMaxIssues(config);
   const maxToolCalls = getMaxToolCalls(config);
   console.log(`\nMax issues per run: ${maxIssues}`);
+  if (pollConfig.concurrency) console.log(`Issues at a time: ${pollConfig.concurrency}`);
   console.log(`Max tool calls per run: ${maxToolCalls}`);
 }
 
@@ -582,13 +738,14 @@ export interface RetractResult {
  * Retract all actions taken on a specific issue: close PR, delete branch, delete comment.
  * Order matters: close PR first (it references the branch), then delete branch, then delete comment.
  * Partial retraction is supported -- if one step fails, the others still attempt.
+ * `config` and `repoId` name the repo (the env-configured one by default).
  */
-export async function retractIssue(config: Config, issueNumber: number, pollRepository?: PollRepository): Promise<RetractResult> {
+export async function retractIssue(config: Config, issueNumber: number, pollRepository?: PollRepository, repoId = 0): Promise<RetractResult> {
   const pollRepo = pollRepository ?? new FilePollRepository();
   const { owner, repo } = config.github;
-  const octokit = createGitHubClient(getAuthFromConfig(config.github));
+  const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
 
-  const pollState = await pollRepo.load(0);
+  const pollState = await pollRepo.load(repoId);
   if (!pollState) {
     throw new Error('No poll state found. Nothing to retract.');
   }
@@ -663,7 +820,7 @@ export async function retractIssue(config: Config, issueNumber: number, pollRepo
   pollState.lastPollIssueNumbers = pollState.lastPollIssueNumbers.filter(
     (n) => n !== issueNumber,
   );
-  await pollRepo.save(0, pollState);
+  await pollRepo.save(repoId, pollState);
   console.log(`  Poll state updated (issue #${issueNumber} cleared)`);
 
   return result;
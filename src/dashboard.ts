@@ -3,7 +3,8 @@ import { fileURLToPath } from 'url';
 import express from 'express';
 import type { Request, Response } from 'express';
 import type { Config } from './config.js';
-import { ProcessManager } from './process-manager.js';
+import { isProcessActive, ProcessManager } from './process-manager.js';
+import type { AgentProcess } from './process-manager.js';
 import { UsageService } from './usage-service.js';
 import type { UsageQuery, UsageGroupBy } from './usage-types.js';
 import type { UsageRepository } from './usage-repository.js';
@@ -12,10 +13,60 @@ import type { IssueContextRepository } from './issue-context-repository.js';
 import type { RepoRepository } from './repo-repository.js';
 import type { PricingRepository } from './pricing-repository.js';
 import type { SettingsRepository } from './settings-repository.js';
+import type { PollRepository } from './poll-repository.js';
+import type { JobRepository, JobStatus } from './job-repository.js';
+import { JobQueue } from './job-queue.js';
 import { sendTestNotification } from './bitrix-notification.js';
 import { PRICING_TABLE, setPricingLookup, buildPricingLookup } from './usage-pricing.js';
-import { verifySignature, handleWebhookEvent } from './listener.js';
+import type { WebhookDeliveryRepository, WebhookDeliveryStatus } from './webhook-delivery-repository.js';
+import { InMemoryWebhookDeliveryRepository } from './webhook-delivery-repository.js';
+import {
+  verifySignature,
+  readGitLabWebhook,
+  handleWebhookEvent,
+  createWebhookJobHandler,
+  getWebhookRepoKey,
+  recordWebhookDelivery,
+  recordWebhookResult,
+  resolveWebhookRepo,
+  WEBHOOK_JOB,
+} from './listener.js';
+import type { WebhookEvent, WebhookHandlerOptions } from './listener.js';
 import { chatStream } from './chat-agent.js';
+import { parseRoutingConfig } from './issue-router.js';
+import { parseBudgetConfig } from './budget.js';
+import { parsePollConfig } from './core.js';
+import { parseSandboxConfig } from './sandbox.js';
+import { parseCommandPolicyConfig } from './command-policy.js';
+import { decideApproval, parseApprovalConfig } from './approval.js';
+import { Scheduler, createPollTask, createStalePrTask, parseSchedules } from './scheduler.js';
+import { SCM_KINDS } from './scm-provider.js';
+import type { ScmKind } from './scm-provider.js';
+import { createGitHubAppClient, DEFAULT_GITHUB_HOST, getAuthFromConfig } from './github-tools.js';
+import { findRepoInstallation, listAppInstallations } from './github-app.js';
+import { parseSpendLimitSettings, DEFAULT_ALERT_THRESHOLD, SPEND_LIMITS_KEY } from './spend-limits.js';
+import { planIssueEvent, recordIssuePr } from './issue-events.js';
+import { installAuth } from './auth.js';
+import type { LoginProvider } from './auth.js';
+import type { SessionRepository } from './session-repository.js';
+import type { ApiKeyRepository } from './api-key-repository.js';
+import { InMemoryApiKeyRepository } from './api-key-repository.js';
+import type { ClaimRepository } from './claim-repository.js';
+import type { ModelOverrideRepository } from './model-override-repository.js';
+import {
+  ACCESS_ROLES_KEY,
+  describeApiKey,
+  generateApiKey,
+  parseAccessRoleSettings,
+  parseRepoList,
+  parseScopes,
+  refuseRepo,
+  requireScope,
+  startedBy,
+  getPrincipal,
+} from './access.js';
+import type { CommandRunInfo, CommandRunResult, CommandRuntime } from './slash-commands.js';
+import { getWorkspaceManager } from './workspace-manager.js';
 
 // ── Static directory ─────────────────────────────────────────────────────────
 
@@ -60,22 +111,289 @@ export interface DashboardOptions {
   repoRepository?: RepoRepository;
   pricingRepository?: PricingRepository;
   settingsRepository?: SettingsRepository;
+  jobRepository?: JobRepository;
+  webhookDeliveryRepository?: WebhookDeliveryRepository;
+  pollRepository?: PollRepository;
+  sessionRepository?: SessionRepository;
+  apiKeyRepository?: ApiKeyRepository;
+  claimRepository?: ClaimRepository;
+  modelOverrideRepository?: ModelOverrideRepository;
+  /** Overrides the login provider built from config.auth (tests) */
+  loginProvider?: LoginProvider;
   repoId?: number;
 }
 
-export function createDashboardApp(config: Config, options?: DashboardOptions): { app: express.Express; processManager: ProcessManager; usageService: UsageService } {
+/** Job type for webhook issues events, run as analyses tracked by the ProcessManager. */
+export const ANALYZE_JOB = 'analyze';
+
+const VALID_JOB_STATUS = new Set<JobStatus>(['queued', 'running', 'completed', 'dead']);
+
+const VALID_DELIVERY_STATUS = new Set<WebhookDeliveryStatus>(['received', 'handled', 'ignored', 'failed']);
+
+/**
+ * Queue a webhook event for processing. issues events are routed through
+ * the ProcessManager (ANALYZE_JOB) for full tracking + SSE; everything else
+ * goes through the generic webhook handlers. issues.closed is handled
+ * immediately — queued behind the analysis it cancels, it would be useless.
+ */
+function enqueueWebhookEvent(jobQueue: JobQueue, processManager: ProcessManager, event: WebhookEvent, config: Config, webhookOptions: WebhookHandlerOptions): void {
+  if (event.event !== 'issues') {
+    handleWebhookEvent(event, config, { ...webhookOptions, jobQueue });
+    return;
+  }
+  if (event.payload.action === 'closed') {
+    cancelClosedIssue(processManager, event, config, webhookOptions)
+      .catch(err => console.error(`[webhook] Failed to handle issues.closed (delivery: ${event.deliveryId}):`, err));
+    return;
+  }
+  jobQueue.enqueue(ANALYZE_JOB, getWebhookRepoKey(event, config), event as unknown as Record<string, unknown>)
+    .catch(err => console.error(`[webhook] Failed to enqueue issues.${event.payload.action} (delivery: ${event.deliveryId}):`, err));
+}
+
+async function cancelClosedIssue(processManager: ProcessManager, event: WebhookEvent, config: Config, webhookOptions: WebhookHandlerOptions): Promise<void> {
+  const { deliveryRepository } = webhookOptions;
+  const target = await resolveWebhookRepo(event, config, webhookOptions);
+  if (!target) {
+    await recordWebhookResult(deliveryRepository, event.deliveryId, 'ignored', `Repo ${getWebhookRepoKey(event)} is not registered`);
+    return;
+  }
+  const plan = await planIssueEvent(event, target.config ?? config);
+  if (plan.kind !== 'cancel') {
+    await recordWebhookResult(deliveryRepository, event.deliveryId, 'ignored', plan.reason);
+    return;
+  }
+  const cancelled = processManager.cancelIssueProcesses(plan.issueNumber, target.repoId);
+  await recordWebhookResult(deliveryRepository, event.deliveryId, cancelled > 0 ? 'handled' : 'ignored', `${plan.reason}, cancelled ${cancelled} running analysis(es)`);
+}
+
+/**
+ * Wait for a process to finish or to park on a human (a plan waiting for
+ * approval, or an operator's pause), so a queue job doesn't hold its slot
+ * while nobody is working.
+ * `finish` gets the final state: right away, or in the background once a
+ * parked run ends.
+ */
+async function waitUnlessParked(
+  processManager: ProcessManager,
+  id: string,
+  finish: (final?: AgentProcess) => Promise<void>,
+): Promise<AgentProcess | undefined> {
+  const state = await processManager.waitForProcess(id, { untilParked: true });
+  if (state && isProcessActive(state)) {
+    processManager.waitForProcess(id)
+      .then(finish)
+      .catch(err => console.error(`[jobs] Failed to record the outcome of ${id}:`, err));
+    return state;
+  }
+  await finish(state);
+  return state;
+}
+
+/**
+ * CommandRuntime backed by the ProcessManager, so runs started from slash
+ * commands show up in the dashboard like any other process.
+ * `config` and `repoId` are those of the repo the event came from.
+ */
+function createProcessCommandRuntime(
+  processManager: ProcessManager,
+  usageService: UsageService,
+  config: Config,
+  repoId: number | undefined,
+  options?: DashboardOptions,
+): CommandRuntime {
+  const settle = async (proc: AgentProcess, issueNumber?: number): Promise<CommandRunResult> => {
+    const final = await waitUnlessParked(processManager, proc.id, async (done) => {
+      if (issueNumber === undefined || done?.status === 'failed') return;
+      await recordIssuePr(options?.pollRepository, repoId, issueNumber, done?.prNumber, config);
+    });
+    if (final?.status === 'failed') return { error: final.error ?? `Process ${proc.id} failed` };
+    return { prNumber: final?.prNumber };
+  };
+
+  // Runs started without a repo id belong to the default repo
+  const onRepo = (p: AgentProcess): boolean => (p.runOptions?.repoId ?? options?.repoId) === (repoId ?? options?.repoId);
+  const running = async (number: number): Promise<AgentProcess[]> =>
+    (await processManager.listProcesses())
+      .filter(p => isProcessActive(p) && onRepo(p) && (p.issueNumber === number || p.prNumber === number));
+
+  /** Start a run unless the spend limits refuse it. */
+  const start = async (run: () => Promise<CommandRunResult>): Promise<CommandRunResult> => {
+    const spend = await processManager.checkSpend(repoId);
+    return spend.allowed ? run() : { refused: spend.reason };
+  };
+
+  return {
+    analyze: (issueNumber, overrides) => start(() => settle(processManager.startAnalysis(issueNumber, { repoId, overrides }), issueNumber)),
+    continuePr: (issueNumber, prNumber, branchName, humanFeedback, overrides) =>
+      start(() => settle(processManager.continueAnalysis(issueNumber, prNumber, branchName, humanFeedback, repoId, overrides), issueNumber)),
+    review: (prNumber) => start(() => settle(processManager.startReview(prNumber, { repoId }))),
+    async cancel(number) {
+      return (await running(number)).filter(p => processManager.cancelProcess(p.id)).length;
+    },
+    async status(number) {
+      return Promise.all((await running(number)).map(async (p): Promise<CommandRunInfo> => ({
+        id: p.id,
+        type: p.type,
+        issueNumber: p.issueNumber,
+        prNumber: p.prNumber,
+        phase: p.currentPhase,
+        iteration: p.iteration,
+        maxIterations: p.maxIterations,
+        costUsd: (await usageService.summarize({ processId: p.id })).totalEstimatedCost,
+        startedAt: p.startedAt,
+      })));
+    },
+    async decidePlan(issueNumber, decision) {
+      return decideApproval(config.github.owner, config.github.repo, issueNumber, decision);
+    },
+  };
+}
+
+/** Validation message for a repo's routing rules, budget, policies, approval gate, poll settings and schedules, or undefined when valid. */
+function validateRepoConfig(configJson: Record<string, unknown> | undefined): string | undefined {
+  try {
+    parseRoutingConfig(configJson);
+    parseBudgetConfig(configJson?.budget);
+    parseSandboxConfig(configJson?.sandbox);
+    parseCommandPolicyConfig(configJson?.commandPolicy);
+    parseApprovalConfig(configJson?.approval);
+    parsePollConfig(configJson);
+    parseSchedules(configJson);
+    return undefined;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+/** Validation message for a repo's provider, host and API URL, or undefined when valid. */
+function validateRepoScm(provider: unknown, host: unknown, apiUrl: unknown): string | undefined {
+  if (provider !== undefined && !SCM_KINDS.includes(provider as ScmKind)) {
+    return `provider must be one of: ${SCM_KINDS.join(', ')}`;
+  }
+  if (host !== undefined && (typeof host !== 'string' || !/^[a-z0-9.-]+(:\d+)?$/i.test(host.trim()))) {
+    return 'host must be a host name, e.g. "gitlab.example.com"';
+  }
+  if (apiUrl !== undefined && (typeof apiUrl !== 'string' || !/^https?:\/\/\S+$/.test(apiUrl.trim()))) {
+    return 'apiUrl must be an http(s) URL, e.g. "https://github.example.com/api/v3"';
+  }
+  return undefined;
+}
+
+export function createDashboardApp(config: Config, options?: DashboardOptions): {
+  app: express.Express;
+  processManager: ProcessManager;
+  usageService: UsageService;
+  jobQueue: JobQueue;
+  /** Runs the repos' configJson.schedules; needs the repos table */
+  scheduler?: Scheduler;
+  deliveryRepository: WebhookDeliveryRepository;
+  webhookOptions: WebhookHandlerOptions;
+} {
   const app = express();
   const usageService = new UsageService(options?.usageRepository);
   const processManager = new ProcessManager(config, usageService, options?.processRepository, options?.issueContextRepository, options?.repoId, options?.repoRepository, options?.settingsRepository);
 
-  // Parse JSON for all routes except /webhook (which needs the raw body for HMAC)
+  // Webhook-triggered work goes through the job queue (started by the server
+  // functions below) so it survives restarts and respects concurrency limits.
+  const deliveryRepository = options?.webhookDeliveryRepository ?? new InMemoryWebhookDeliveryRepository();
+  const jobQueue = new JobQueue(options?.jobRepository, config.jobs);
+  const webhookOptions: WebhookHandlerOptions = {
+    processRepository: options?.processRepository,
+    deliveryRepository,
+    repoRepository: options?.repoRepository,
+    pollRepository: options?.pollRepository,
+    repoId: options?.repoId,
+    claimRepository: options?.claimRepository,
+    modelOverrideRepository: options?.modelOverrideRepository,
+    usageService,
+    spendGuard: processManager.spendGuard,
+    commandRuntime: (repoConfig, repoId) => createProcessCommandRuntime(processManager, usageService, repoConfig, repoId, options),
+  };
+  processManager.spendGuard?.watch();
+
+  const scheduler = options?.repoRepository ? new Scheduler(config, jobQueue, options.repoRepository) : undefined;
+  scheduler?.registerTask('poll', createPollTask({
+    pollRepository: options?.pollRepository,
+    issueContextRepository: options?.issueContextRepository,
+    processRepository: options?.processRepository,
+    repoRepository: options?.repoRepository,
+    usageService,
+    spendGuard: processManager.spendGuard,
+  }));
+  scheduler?.registerTask('stale-prs', createStalePrTask(options?.repoRepository));
+
+  jobQueue.register(WEBHOOK_JOB, createWebhookJobHandler(config, webhookOptions));
+  jobQueue.register(ANALYZE_JOB, async (job) => {
+    const event = job.payload as unknown as WebhookEvent;
+    const { deliveryId } = event;
+    const target = await resolveWebhookRepo(event, config, webhookOptions);
+    if (!target) {
+      await recordWebhookResult(deliveryRepository, deliveryId, 'ignored', `Repo ${getWebhookRepoKey(event)} is not registered`);
+      return;
+    }
+    const repoId = target.repoId;
+    const repoConfig = target.config ?? config;
+    const plan = await planIssueEvent(event, repoConfig, {
+      pollRepository: options?.pollRepository,
+      repoRepository: options?.repoRepository,
+      modelOverrideRepository: options?.modelOverrideRepository,
+      repoId,
+    });
+    if (plan.kind === 'ignore') {
+      await recordWebhookResult(deliveryRepository, deliveryId, 'ignored', plan.reason);
+      return;
+    }
+    const { issueNumber } = plan;
+    if (plan.kind === 'cancel') {
+      const cancelled = processManager.cancelIssueProcesses(issueNumber, repoId);
+      await recordWebhookResult(deliveryRepository, deliveryId, cancelled > 0 ? 'handled' : 'ignored', `${plan.reason}, cancelled ${cancelled} running analysis(es)`);
+      return;
+    }
+    // Refused over spend limits is final, not a failure to retry
+    const spend = await processManager.checkSpend(repoId);
+    if (!spend.allowed) {
+      await recordWebhookResult(deliveryRepository, deliveryId, 'ignored', `Refused: ${spend.reason}`);
+      return;
+    }
+
+    // A job re-queued by a restart may find its analysis already resumed from a checkpoint
+    const resumed = job.attempts > 1
+      ? (await processManager.listProcesses()).find(p =>
+        p.type === 'analyze' && p.issueNumber === issueNumber && p.runOptions?.repoId === repoId && isProcessActive(p))
+      : undefined;
+    const proc = resumed ?? (plan.kind === 'continue'
+      ? processManager.continueAnalysis(issueNumber, plan.prNumber, plan.branchName, plan.humanFeedback, repoId, plan.overrides)
+      : processManager.startAnalysis(issueNumber, { repoId, overrides: plan.overrides }));
+    // A run parked for approval or paused finishes the job; the PR is recorded when it ends
+    const final = await waitUnlessParked(processManager, proc.id, async (done) => {
+      if (done?.status !== 'failed') await recordIssuePr(options?.pollRepository, repoId, issueNumber, done?.prNumber, repoConfig);
+    });
+    if (final?.status === 'failed') {
+      const error = final.error ?? `Analysis of issue #${issueNumber} failed`;
+      await recordWebhookResult(deliveryRepository, deliveryId, 'failed', error);
+      throw new Error(error);
+    }
+    await recordWebhookResult(deliveryRepository, deliveryId, 'handled', `${plan.reason}: ${final?.status ?? 'completed'} (${proc.id})`);
+  });
+
+  // Parse JSON for all routes except the webhooks (which need the raw body for HMAC)
   app.use((req, res, next) => {
-    if (req.path === '/webhook') return next();
+    if (req.path === '/webhook' || req.path === '/webhook/gitlab') return next();
     express.json()(req, res, next);
   });
 
+  // Login routes and the session guard (no-op without AUTH_PROVIDER);
+  // routes below check the caller's scopes with requireScope
+  const apiKeyRepository = options?.apiKeyRepository ?? new InMemoryApiKeyRepository();
+  installAuth(app, config, {
+    sessionRepository: options?.sessionRepository,
+    apiKeyRepository,
+    settingsRepository: options?.settingsRepository,
+    loginProvider: options?.loginProvider,
+  });
+
   // Serve dashboard.html at root
-  app.get('/', (_req: Request, res: Response) => {
+  app.get('/', requireScope('read'), (_req: Request, res: Response) => {
     res.sendFile(path.join(getStaticDir(), 'dashboard.html'));
   });
 
@@ -85,7 +403,7 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
   });
 
   // Status summary
-  app.get('/api/status', async (_req: Request, res: Response) => {
+  app.get('/api/status', requireScope('read'), async (_req: Request, res: Response) => {
     const all = await processManager.listProcesses();
     const running = all.filter(p => p.status === 'running');
     res.json({
@@ -97,14 +415,14 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
   });
 
   // List processes
-  app.get('/api/processes', async (req: Request, res: Response) => {
+  app.get('/api/processes', requireScope('read'), async (req: Request, res: Response) => {
     const status = typeof req.query.status === 'string' ? req.query.status : undefined;
     const processes = await processManager.listProcesses(status);
     res.json(processes.map(p => ({ ...p, logs: [] })));
   });
 
   // Get single process (includes logs)
-  app.get('/api/processes/:id', async (req: Request, res: Response) => {
+  app.get('/api/processes/:id', requireScope('read'), async (req: Request, res: Response) => {
     const proc = await processManager.getProcess(req.params.id);
     if (!proc) {
       res.status(404).json({ error: 'Process not found' });
@@ -113,19 +431,48 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
     res.json(proc);
   });
 
+  /** "owner/repo" of a repo id (the default repo when omitted), for repo restrictions. */
+  const repoFullName = async (repoId?: number): Promise<string> => {
+    if (repoId !== undefined && options?.repoRepository) {
+      const record = await Promise.resolve(options.repoRepository.getById(repoId));
+      if (record) return `${record.owner}/${record.repo}`;
+    }
+    return `${config.github.owner}/${config.github.repo}`;
+  };
+
+  /**
+   * "owner/repo" a process runs on, for repo restrictions. Runs started
+   * here carry their repo id; their owner/repo is the default repo until
+   * the run has resolved its repo.
+   */
+  const processRepoName = async (proc: AgentProcess): Promise<string> => {
+    if (proc.runOptions?.repoId !== undefined) return repoFullName(proc.runOptions.repoId);
+    return `${proc.owner}/${proc.repo}`;
+  };
+
+  /** Answer 429 when the spend limits refuse a new run on the repo. */
+  const refuseOverSpend = async (res: Response, repoId?: number): Promise<boolean> => {
+    const spend = await processManager.checkSpend(repoId);
+    if (spend.allowed) return false;
+    res.status(429).json({ error: spend.reason });
+    return true;
+  };
+
   // Start analysis
-  app.post('/api/processes/analyze', (req: Request, res: Response) => {
+  app.post('/api/processes/analyze', requireScope('runs'), async (req: Request, res: Response) => {
     const { issueNumber, dryRun, repoId } = req.body as { issueNumber?: number; dryRun?: boolean; repoId?: number };
     if (!issueNumber || typeof issueNumber !== 'number' || issueNumber < 1) {
       res.status(400).json({ error: 'issueNumber must be a positive integer' });
       return;
     }
-    const proc = processManager.startAnalysis(issueNumber, { dryRun, repoId });
+    if (refuseRepo(res, await repoFullName(repoId))) return;
+    if (await refuseOverSpend(res, repoId)) return;
+    const proc = processManager.startAnalysis(issueNumber, { dryRun, repoId, startedBy: startedBy(res) });
     res.status(201).json(proc);
   });
 
   // Continue analysis (review→fix loop on existing PR)
-  app.post('/api/processes/continue', (req: Request, res: Response) => {
+  app.post('/api/processes/continue', requireScope('runs'), async (req: Request, res: Response) => {
     const { issueNumber, prNumber, branchName, repoId } = req.body as {
       issueNumber?: number;
       prNumber?: number;
@@ -144,23 +491,29 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
       res.status(400).json({ error: 'branchName is required' });
       return;
     }
-    const proc = processManager.continueAnalysis(issueNumber, prNumber, branchName, undefined, repoId);
+    if (refuseRepo(res, await repoFullName(repoId))) return;
+    if (await refuseOverSpend(res, repoId)) return;
+    const proc = processManager.continueAnalysis(issueNumber, prNumber, branchName, undefined, repoId, undefined, startedBy(res));
     res.status(201).json(proc);
   });
 
   // Start review
-  app.post('/api/processes/review', (req: Request, res: Response) => {
+  app.post('/api/processes/review', requireScope('runs'), async (req: Request, res: Response) => {
     const { prNumber, repoId } = req.body as { prNumber?: number; repoId?: number };
     if (!prNumber || typeof prNumber !== 'number' || prNumber < 1) {
       res.status(400).json({ error: 'prNumber must be a positive integer' });
       return;
     }
-    const proc = processManager.startReview(prNumber, { repoId });
+    if (refuseRepo(res, await repoFullName(repoId))) return;
+    if (await refuseOverSpend(res, repoId)) return;
+    const proc = processManager.startReview(prNumber, { repoId, startedBy: startedBy(res) });
     res.status(201).json(proc);
   });
 
   // Cancel process
-  app.delete('/api/processes/:id', (req: Request, res: Response) => {
+  app.delete('/api/processes/:id', requireScope('runs'), async (req: Request, res: Response) => {
+    const proc = await processManager.getProcess(req.params.id);
+    if (proc && refuseRepo(res, await processRepoName(proc))) return;
     const cancelled = processManager.cancelProcess(req.params.id);
     if (!cancelled) {
       res.status(404).json({ error: 'Process not found or not running' });
@@ -169,9 +522,187 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
     res.json({ cancelled: true });
   });
 
+  // Pause a running process at its next tool call
+  app.post('/api/processes/:id/pause', requireScope('runs'), async (req: Request, res: Response) => {
+    const existing = await processManager.getProcess(req.params.id);
+    if (existing && refuseRepo(res, await processRepoName(existing))) return;
+    const proc = processManager.pauseProcess(req.params.id);
+    if (!proc) {
+      res.status(404).json({ error: 'Process not found or not pausable' });
+      return;
+    }
+    res.json(proc);
+  });
+
+  // Leave guidance for a paused process's agent, handed over on resume
+  app.post('/api/processes/:id/guidance', requireScope('runs'), async (req: Request, res: Response) => {
+    const message = typeof req.body?.message === 'string' ? req.body.message.trim() : '';
+    if (!message) {
+      res.status(400).json({ error: 'message is required' });
+      return;
+    }
+    const existing = await processManager.getProcess(req.params.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Process not found' });
+      return;
+    }
+    if (refuseRepo(res, await processRepoName(existing))) return;
+    const proc = processManager.addGuidance(req.params.id, message);
+    if (!proc) {
+      res.status(409).json({ error: 'Process is not paused' });
+      return;
+    }
+    res.json(proc);
+  });
+
+  // Resume a paused process, or one cut short by a restart
+  app.post('/api/processes/:id/resume', requireScope('runs'), async (req: Request, res: Response) => {
+    const existing = await processManager.getProcess(req.params.id);
+    if (existing && refuseRepo(res, await processRepoName(existing))) return;
+    if (existing?.status === 'interrupted' && await refuseOverSpend(res, existing.runOptions?.repoId)) return;
+    const proc = await processManager.resumeProcess(req.params.id);
+    if (!proc) {
+      res.status(404).json({ error: 'Process not found or not resumable' });
+      return;
+    }
+    res.json(proc);
+  });
+
+  // Approve or reject the plan a process is waiting on
+  const decidePlan = (approved: boolean) => async (req: Request, res: Response) => {
+    const proc = await processManager.getProcess(req.params.id);
+    if (!proc) {
+      res.status(404).json({ error: 'Process not found' });
+      return;
+    }
+    if (refuseRepo(res, await processRepoName(proc))) return;
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+    if (!approved && !reason) {
+      res.status(400).json({ error: 'reason is required' });
+      return;
+    }
+    const by = startedBy(res)?.name ?? 'dashboard';
+    const decided = proc.status === 'awaiting_approval' && proc.issueNumber !== undefined
+      && decideApproval(proc.owner, proc.repo, proc.issueNumber, { approved, by, ...(approved ? {} : { reason }) });
+    if (!decided) {
+      res.status(409).json({ error: 'Process is not awaiting plan approval' });
+      return;
+    }
+    res.json({ approved });
+  };
+  app.post('/api/processes/:id/approve', requireScope('runs'), decidePlan(true));
+  app.post('/api/processes/:id/reject', requireScope('runs'), decidePlan(false));
+
+  // ── Job queue endpoints ─────────────────────────────────────────────────────
+
+  app.get('/api/jobs', requireScope('read'), async (req: Request, res: Response) => {
+    const status = typeof req.query.status === 'string' ? req.query.status as JobStatus : undefined;
+    if (status && !VALID_JOB_STATUS.has(status)) {
+      res.status(400).json({ error: `Invalid status: ${status}. Must be one of: ${[...VALID_JOB_STATUS].join(', ')}` });
+      return;
+    }
+    const limit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : NaN;
+    res.json(await jobQueue.list({ status, limit: isNaN(limit) || limit < 1 ? 100 : limit }));
+  });
+
+  // Re-queue a dead-lettered job
+  app.post('/api/jobs/:id/retry', requireScope('runs'), async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid job id' });
+      return;
+    }
+    const existing = await jobQueue.getJob(id);
+    if (existing && refuseRepo(res, existing.repoKey)) return;
+    const job = await jobQueue.retry(id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found or not dead-lettered' });
+      return;
+    }
+    res.json(job);
+  });
+
+  // ── Schedule endpoints ─────────────────────────────────────────────────────
+
+  app.get('/api/schedules', requireScope('read'), async (_req: Request, res: Response) => {
+    if (!scheduler) {
+      res.status(501).json({ error: 'Schedules require a database' });
+      return;
+    }
+    res.json(await scheduler.status());
+  });
+
+  // Run a task on a repo now, outside its schedule
+  app.post('/api/repos/:id/schedules/:task/run', requireScope('runs'), async (req: Request, res: Response) => {
+    if (!scheduler || !options?.repoRepository) {
+      res.status(501).json({ error: 'Schedules require a database' });
+      return;
+    }
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid repo id' });
+      return;
+    }
+    const record = await Promise.resolve(options.repoRepository.getById(id));
+    if (!record?.isActive) {
+      res.status(404).json({ error: 'Repo not found' });
+      return;
+    }
+    if (!scheduler.hasTask(req.params.task)) {
+      res.status(400).json({ error: `Unknown task: ${req.params.task}` });
+      return;
+    }
+    if (refuseRepo(res, `${record.owner}/${record.repo}`)) return;
+    const job = await scheduler.trigger(record, req.params.task, 'manual');
+    if (!job) {
+      res.status(409).json({ error: `${req.params.task} is already queued or running for ${record.owner}/${record.repo}` });
+      return;
+    }
+    res.status(202).json({ jobId: job.id });
+  });
+
+  // ── Webhook delivery endpoints ──────────────────────────────────────────────
+
+  app.get('/api/webhook-deliveries', requireScope('read'), async (req: Request, res: Response) => {
+    const status = typeof req.query.status === 'string' ? req.query.status as WebhookDeliveryStatus : undefined;
+    if (status && !VALID_DELIVERY_STATUS.has(status)) {
+      res.status(400).json({ error: `Invalid status: ${status}. Must be one of: ${[...VALID_DELIVERY_STATUS].join(', ')}` });
+      return;
+    }
+    const event = typeof req.query.event === 'string' && req.query.event ? req.query.event : undefined;
+    const limit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : NaN;
+    const deliveries = await Promise.resolve(deliveryRepository.list({ event, status, limit: isNaN(limit) || limit < 1 ? 100 : limit }));
+    // Payloads can be large — fetch a single delivery to see its payload
+    res.json(deliveries.map(d => ({ ...d, payload: undefined })));
+  });
+
+  app.get('/api/webhook-deliveries/:id', requireScope('read'), async (req: Request, res: Response) => {
+    const delivery = await Promise.resolve(deliveryRepository.getById(req.params.id));
+    if (!delivery) {
+      res.status(404).json({ error: 'Delivery not found' });
+      return;
+    }
+    res.json(delivery);
+  });
+
+  // Re-run a stored delivery (bypasses deduplication)
+  app.post('/api/webhook-deliveries/:id/replay', requireScope('runs'), async (req: Request, res: Response) => {
+    const delivery = await Promise.resolve(deliveryRepository.getById(req.params.id));
+    if (!delivery) {
+      res.status(404).json({ error: 'Delivery not found' });
+      return;
+    }
+    const repoKey = getWebhookRepoKey({ event: delivery.event, deliveryId: delivery.deliveryId, payload: delivery.payload }, config);
+    if (refuseRepo(res, repoKey)) return;
+    await Promise.resolve(deliveryRepository.markReplayed(delivery.deliveryId));
+    console.log(`[webhook] Replaying ${delivery.event}${delivery.action ? `.${delivery.action}` : ''} (delivery: ${delivery.deliveryId})`);
+    enqueueWebhookEvent(jobQueue, processManager, { event: delivery.event, deliveryId: delivery.deliveryId, payload: delivery.payload }, config, webhookOptions);
+    res.status(202).json({ replayed: true, deliveryId: delivery.deliveryId });
+  });
+
   // ── Repo CRUD endpoints ────────────────────────────────────────────────────
 
-  app.get('/api/repos', async (req: Request, res: Response) => {
+  app.get('/api/repos', requireScope('read'), async (req: Request, res: Response) => {
     if (!options?.repoRepository) {
       res.status(501).json({ error: 'Repo management requires a database' });
       return;
@@ -181,18 +712,49 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
     res.json(repos);
   });
 
-  app.post('/api/repos', async (req: Request, res: Response) => {
+  // Installations of the GitHub App, and which one each tracked repo uses
+  app.get('/api/github/installations', requireScope('read'), async (_req: Request, res: Response) => {
+    const auth = getAuthFromConfig(config.github);
+    if (typeof auth === 'string') {
+      res.status(501).json({ error: 'GitHub App auth is not configured' });
+      return;
+    }
+    const appClient = createGitHubAppClient(auth, config.github);
+    const installations = await listAppInstallations(appClient);
+    const records = options?.repoRepository
+      ? await Promise.resolve(options.repoRepository.list(true))
+      : [{ owner: config.github.owner as string, repo: config.github.repo as string }];
+    // Repos on other hosts (GitLab, another GHES) aren't this App's
+    const appHost = config.github.host || DEFAULT_GITHUB_HOST;
+    const onAppHost = records.filter((r: { provider?: ScmKind; host?: string }) => r.provider !== 'gitlab' && (!r.host || r.host === appHost));
+    const repos = await Promise.all(onAppHost.map(async ({ owner, repo }) => {
+      try {
+        return { owner, repo, installationId: await findRepoInstallation(appClient.request, owner, repo) };
+      } catch (err) {
+        return { owner, repo, installationId: null, error: err instanceof Error ? err.message : String(err) };
+      }
+    }));
+    res.json({ installations, repos });
+  });
+
+  app.post('/api/repos', requireScope('admin'), async (req: Request, res: Response) => {
     if (!options?.repoRepository) {
       res.status(501).json({ error: 'Repo management requires a database' });
       return;
     }
-    const { owner, repo, configJson } = req.body as { owner?: string; repo?: string; configJson?: Record<string, unknown> };
+    const { owner, repo, configJson, provider, host, apiUrl } = req.body as { owner?: string; repo?: string; configJson?: Record<string, unknown>; provider?: unknown; host?: unknown; apiUrl?: unknown };
     if (!owner || typeof owner !== 'string' || !repo || typeof repo !== 'string') {
       res.status(400).json({ error: 'owner and repo are required strings' });
       return;
     }
+    const configError = validateRepoConfig(configJson) ?? validateRepoScm(provider, host, apiUrl);
+    if (configError) {
+      res.status(400).json({ error: configError });
+      return;
+    }
     try {
-      const record = await options.repoRepository.create(owner.trim(), repo.trim(), configJson);
+      const scm = { provider: provider as ScmKind | undefined, host: (host as string | undefined)?.trim(), apiUrl: (apiUrl as string | undefined)?.trim() };
+      const record = await options.repoRepository.create(owner.trim(), repo.trim(), configJson, scm);
       res.status(201).json(record);
     } catch (err: any) {
       if (err?.code === '23505') {
@@ -203,7 +765,7 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
     }
   });
 
-  app.patch('/api/repos/:id', async (req: Request, res: Response) => {
+  app.patch('/api/repos/:id', requireScope('admin'), async (req: Request, res: Response) => {
     if (!options?.repoRepository) {
       res.status(501).json({ error: 'Repo management requires a database' });
       return;
@@ -213,8 +775,18 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
       res.status(400).json({ error: 'Invalid repo id' });
       return;
     }
-    const { configJson } = req.body as { configJson?: Record<string, unknown> };
-    const updated = await options.repoRepository.update(id, { configJson });
+    const { configJson, provider, host, apiUrl } = req.body as { configJson?: Record<string, unknown>; provider?: unknown; host?: unknown; apiUrl?: unknown };
+    const configError = validateRepoConfig(configJson) ?? validateRepoScm(provider, host, apiUrl);
+    if (configError) {
+      res.status(400).json({ error: configError });
+      return;
+    }
+    const updated = await options.repoRepository.update(id, {
+      configJson,
+      provider: provider as ScmKind | undefined,
+      host: (host as string | undefined)?.trim(),
+      apiUrl: (apiUrl as string | undefined)?.trim(),
+    });
     if (!updated) {
       res.status(404).json({ error: 'Repo not found' });
       return;
@@ -222,7 +794,7 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
     res.json(updated);
   });
 
-  app.delete('/api/repos/:id', async (req: Request, res: Response) => {
+  app.delete('/api/repos/:id', requireScope('admin'), async (req: Request, res: Response) => {
     if (!options?.repoRepository) {
       res.status(501).json({ error: 'Repo management requires a database' });
       return;
@@ -242,7 +814,7 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
 
   // ── Pricing CRUD endpoints ──────────────────────────────────────────────────
 
-  app.get('/api/pricing/defaults', (_req: Request, res: Response) => {
+  app.get('/api/pricing/defaults', requireScope('read'), (_req: Request, res: Response) => {
     const defaults = Object.entries(PRICING_TABLE).map(([prefix, [input, output]]) => ({
       modelPrefix: prefix,
       inputCostPerMillion: input,
@@ -258,7 +830,7 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
     }
   }
 
-  app.get('/api/pricing', async (_req: Request, res: Response) => {
+  app.get('/api/pricing', requireScope('read'), async (_req: Request, res: Response) => {
     if (!options?.pricingRepository) {
       res.status(501).json({ error: 'Pricing management requires a database' });
       return;
@@ -267,7 +839,7 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
     res.json(records);
   });
 
-  app.post('/api/pricing', async (req: Request, res: Response) => {
+  app.post('/api/pricing', requireScope('admin'), async (req: Request, res: Response) => {
     if (!options?.pricingRepository) {
       res.status(501).json({ error: 'Pricing management requires a database' });
       return;
@@ -296,7 +868,7 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
     }
   });
 
-  app.put('/api/pricing/:id', async (req: Request, res: Response) => {
+  app.put('/api/pricing/:id', requireScope('admin'), async (req: Request, res: Response) => {
     if (!options?.pricingRepository) {
       res.status(501).json({ error: 'Pricing management requires a database' });
       return;
@@ -320,7 +892,7 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
     res.json(updated);
   });
 
-  app.delete('/api/pricing/:id', async (req: Request, res: Response) => {
+  app.delete('/api/pricing/:id', requireScope('admin'), async (req: Request, res: Response) => {
     if (!options?.pricingRepository) {
       res.status(501).json({ error: 'Pricing management requires a database' });
       return;
@@ -341,30 +913,39 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
 
   // ── Settings API endpoints ───────────────────────────────────────────────────
 
-  app.get('/api/settings', async (_req: Request, res: Response) => {
+  app.get('/api/settings', requireScope('admin'), async (_req: Request, res: Response) => {
     if (!options?.settingsRepository) { res.json({}); return; }
     res.json(await options.settingsRepository.getAll());
   });
 
-  app.get('/api/settings/:key', async (req: Request, res: Response) => {
+  app.get('/api/settings/:key', requireScope('admin'), async (req: Request, res: Response) => {
     if (!options?.settingsRepository) { res.json(null); return; }
     const val = await options.settingsRepository.get(req.params.key);
     res.json(val ?? null);
   });
 
-  app.put('/api/settings/:key', async (req: Request, res: Response) => {
+  app.put('/api/settings/:key', requireScope('admin'), async (req: Request, res: Response) => {
     if (!options?.settingsRepository) { res.status(503).json({ error: 'No database configured' }); return; }
+    if (req.params.key === SPEND_LIMITS_KEY || req.params.key === ACCESS_ROLES_KEY) {
+      try {
+        if (req.params.key === SPEND_LIMITS_KEY) parseSpendLimitSettings(req.body);
+        else parseAccessRoleSettings(req.body);
+      } catch (err) {
+        res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+        return;
+      }
+    }
     await options.settingsRepository.set(req.params.key, req.body);
     res.json({ ok: true });
   });
 
-  app.delete('/api/settings/:key', async (req: Request, res: Response) => {
+  app.delete('/api/settings/:key', requireScope('admin'), async (req: Request, res: Response) => {
     if (!options?.settingsRepository) { res.status(503).json({ error: 'No database configured' }); return; }
     const deleted = await options.settingsRepository.delete(req.params.key);
     res.json({ deleted });
   });
 
-  app.post('/api/settings/bitrix/test', async (req: Request, res: Response) => {
+  app.post('/api/settings/bitrix/test', requireScope('admin'), async (req: Request, res: Response) => {
     const { dialogId } = req.body as { dialogId?: string };
     if (!dialogId) { res.status(400).json({ error: 'dialogId is required' }); return; }
     const result = await sendTestNotification(config, dialogId);
@@ -375,16 +956,81 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
     }
   });
 
+  // ── API key endpoints ───────────────────────────────────────────────────────
+
+  app.get('/api/api-keys', requireScope('admin'), async (_req: Request, res: Response) => {
+    const keys = await Promise.resolve(apiKeyRepository.list());
+    res.json(keys.map(describeApiKey));
+  });
+
+  // Create a key; the key itself is only returned here
+  app.post('/api/api-keys', requireScope('admin'), async (req: Request, res: Response) => {
+    const { name, scopes, repos, expiresInDays } = req.body as { name?: string; scopes?: unknown; repos?: unknown; expiresInDays?: number };
+    if (!name || typeof name !== 'string') {
+      res.status(400).json({ error: 'name is required' });
+      return;
+    }
+    if (expiresInDays !== undefined && (typeof expiresInDays !== 'number' || !(expiresInDays > 0))) {
+      res.status(400).json({ error: 'expiresInDays must be a positive number' });
+      return;
+    }
+    let parsed: { scopes: string[]; repos?: string[] };
+    try {
+      parsed = { scopes: parseScopes(scopes), repos: parseRepoList(repos) };
+    } catch (err) {
+      res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+      return;
+    }
+    const { key, keyHash, prefix } = generateApiKey();
+    const record = await Promise.resolve(apiKeyRepository.create({
+      name: name.trim(),
+      prefix,
+      keyHash,
+      ...parsed,
+      createdBy: getPrincipal(res)?.name ?? 'anonymous',
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 86_400_000).toISOString() : undefined,
+    }));
+    res.status(201).json({ ...describeApiKey(record), key });
+  });
+
+  app.delete('/api/api-keys/:id', requireScope('admin'), async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid API key id' });
+      return;
+    }
+    if (!await Promise.resolve(apiKeyRepository.revoke(id))) {
+      res.status(404).json({ error: 'API key not found or already revoked' });
+      return;
+    }
+    res.json({ revoked: true });
+  });
+
+  // ── Workspaces ──────────────────────────────────────────────────────────────
+
+  // Checked-out workspaces with size, age and owning process, plus disk quotas
+  app.get('/api/workspaces', requireScope('read'), async (_req: Request, res: Response) => {
+    res.json(await getWorkspaceManager().usage());
+  });
+
   // ── Usage API endpoints ─────────────────────────────────────────────────────
 
+  // Spend against the daily/monthly limits (dashboard banner)
+  app.get('/api/spend', requireScope('read'), async (_req: Request, res: Response) => {
+    const guard = processManager.spendGuard;
+    if (!guard) { res.json({ alertThreshold: null, windows: [] }); return; }
+    const limits = await guard.loadLimits();
+    res.json({ alertThreshold: limits.alertThreshold ?? DEFAULT_ALERT_THRESHOLD, windows: await guard.getWindows() });
+  });
+
   // Usage summary
-  app.get('/api/usage/summary', async (req: Request, res: Response) => {
+  app.get('/api/usage/summary', requireScope('read'), async (req: Request, res: Response) => {
     const filter = parseUsageQuery(req.query);
     res.json(await usageService.summarize(filter));
   });
 
   // Usage records (paginated)
-  app.get('/api/usage/records', async (req: Request, res: Response) => {
+  app.get('/api/usage/records', requireScope('read'), async (req: Request, res: Response) => {
     const filter = parseUsageQuery(req.query);
     const [records, total] = await Promise.all([
       usageService.query(filter),
@@ -394,7 +1040,7 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
   });
 
   // Usage group by
-  app.get('/api/usage/group/:groupBy', async (req: Request, res: Response) => {
+  app.get('/api/usage/group/:groupBy', requireScope('read'), async (req: Request, res: Response) => {
     const groupBy = req.params.groupBy as UsageGroupBy;
     if (!VALID_GROUP_BY.has(groupBy)) {
       res.status(400).json({ error: `Invalid groupBy: ${groupBy}. Must be one of: ${[...VALID_GROUP_BY].join(', ')}` });
@@ -406,7 +1052,7 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
 
   // ── SSE event stream ────────────────────────────────────────────────────────
 
-  app.get('/api/events', (req: Request, res: Response) => {
+  app.get('/api/events', requireScope('read'), (req: Request, res: Response) => {
     res.writeHead(200, {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
@@ -425,6 +1071,7 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
 
     processManager.on('process_event', onProcessEvent);
     usageService.on('usage_recorded', onUsageRecorded);
+    jobQueue.on('job_event', onProcessEvent);
 
     // Heartbeat every 30s to keep connection alive
     const heartbeat = setInterval(() => {
@@ -434,23 +1081,31 @@ export function createDashboardApp(config: Config, options?: DashboardOptions):
     req.on('close', () => {
       processManager.off('process_event', onProcessEvent);
       usageService.off('usage_recorded', onUsageRecorded);
+      jobQueue.off('job_event', onProcessEvent);
       clearInterval(heartbeat);
     });
   });
 
-  return { app, processManager, usageService };
+  return { app, processManager, usageService, jobQueue, scheduler, deliveryRepository, webhookOptions };
 }
 
 // ── Server start ─────────────────────────────────────────────────────────────
 
 export function startDashboardServer(config: Config, port: number, options?: DashboardOptions) {
-  const { app } = createDashboardApp(config, options);
+  const { app, processManager, jobQueue, scheduler } = createDashboardApp(config, options);
+  // Resume interrupted processes before re-queued jobs could start them again
+  processManager.recoverProcesses()
+    .catch(err => console.error('[process-manager] Failed to recover processes:', err))
+    .then(() => jobQueue.start())
+    .catch(err => console.error('[jobs] Failed to start job queue:', err));
+  scheduler?.start().catch(err => console.error('[scheduler] Failed to start scheduler:', err));
 
   const server = app.listen(port, () => {
     console.log(`[dashboard] Listening on port ${port}`);
     console.log(`[dashboard] Dashboard:    http://localhost:${port}/`);
     console.log(`[dashboard] API:          http://localhost:${port}/api/status`);
     console.log(`[dashboard] Health check: http://localhost:${port}/health`);
+    if (!config.auth) console.warn('[dashboard] ⚠️  AUTH_PROVIDER is not set — anyone who can reach this port can use the dashboard and API');
     console.log('[dashboard] Ready.\n');
   });
 
@@ -459,12 +1114,13 @@ export function startDashboardServer(config: Config, port: number, options?: Das
 
 // ── Unified server (dashboard + webhook + dialog on one port) ───────────────
 
-export function createUnifiedApp(config: Config, options?: DashboardOptions): { app: express.Express; processManager: ProcessManager; usageService: UsageService } {
-  const { app, processManager, usageService } = createDashboardApp(config, options);
+export function createUnifiedApp(config: Config, options?: DashboardOptions): ReturnType<typeof createDashboardApp> {
+  const dashboard = createDashboardApp(config, options);
+  const { app, jobQueue, processManager, deliveryRepository, webhookOptions } = dashboard;
 
   // ── Webhook route ───────────────────────────────────────────────────────────
   // Raw body parsing for HMAC verification (must be before json middleware hits this path)
-  app.post('/webhook', express.raw({ type: 'application/json' }), (req: Request, res: Response) => {
+  app.post('/webhook', express.raw({ type: 'application/json' }), async (req: Request, res: Response) => {
     const rawBody = req.body as Buffer;
 
     const secret = config.webhook?.secret;
@@ -496,7 +1152,7 @@ export function createUnifiedApp(config: Config, options?: DashboardOptions): {
       return;
     }
 
-    const webhookEvent = {
+    const webhookEvent: WebhookEvent = {
       event,
       deliveryId: deliveryId ?? 'unknown',
       payload,
@@ -508,30 +1164,57 @@ export function createUnifiedApp(config: Config, options?: DashboardOptions): {
       `(delivery: ${webhookEvent.deliveryId})`,
     );
 
+    // Drop GitHub redeliveries of an already-received delivery
+    if (!await recordWebhookDelivery(webhookEvent, deliveryRepository)) {
+      res.status(200).json({ received: true, duplicate: true, event, deliveryId: webhookEvent.deliveryId });
+      return;
+    }
+
     res.status(200).json({ received: true, event, deliveryId: webhookEvent.deliveryId });
 
     try {
-      // Route issues.opened through ProcessManager for full tracking + SSE
-      if (event === 'issues' && action === 'opened') {
-        const issue = payload.issue as any;
-        if (issue?.number) {
-          processManager.startAnalysis(issue.number);
-        }
-      } else {
-        handleWebhookEvent(webhookEvent, config);
-      }
+      enqueueWebhookEvent(jobQueue, processManager, webhookEvent, config, webhookOptions);
     } catch (err) {
       console.error(`[webhook] Handler error for ${event}.${action}:`, err);
     }
   });
 
+  app.post('/webhook/gitlab', express.raw({ type: 'application/json' }), async (req: Request, res: Response) => {
+    const secret = config.gitlab?.webhookSecret ?? config.webhook?.secret;
+    if (!secret) {
+      res.status(500).json({ error: 'Webhook secret not configured' });
+      return;
+    }
+    const read = readGitLabWebhook(secret, req.body as Buffer, req.headers);
+    if ('error' in read) {
+      if (read.status === 401) console.error('[webhook] GitLab token verification failed');
+      res.status(read.status).json({ error: read.error });
+      return;
+    }
+    const webhookEvent = read.event;
+    const action = typeof webhookEvent.payload.action === 'string' ? webhookEvent.payload.action : '';
+    console.log(`[webhook] Received GitLab ${webhookEvent.event}${action ? `.${action}` : ''} (delivery: ${webhookEvent.deliveryId})`);
+
+    if (!await recordWebhookDelivery(webhookEvent, deliveryRepository)) {
+      res.status(200).json({ received: true, duplicate: true, event: webhookEvent.event, deliveryId: webhookEvent.deliveryId });
+      return;
+    }
+    res.status(200).json({ received: true, event: webhookEvent.event, deliveryId: webhookEvent.deliveryId });
+
+    try {
+      enqueueWebhookEvent(jobQueue, processManager, webhookEvent, config, webhookOptions);
+    } catch (err) {
+      console.error(`[webhook] Handler error for GitLab ${webhookEvent.event}.${action}:`, err);
+    }
+  });
+
   // ── Dialog routes ───────────────────────────────────────────────────────────
 
-  app.get('/dialog', (_req: Request, res: Response) => {
+  app.get('/dialog', requireScope('read'), (_req: Request, res: Response) => {
     res.sendFile(path.join(getStaticDir(), 'dialog.html'));
   });
 
-  app.post('/chat', express.json(), async (req: Request, res: Response) => {
+  app.post('/chat', requireScope('read'), express.json(), async (req: Request, res: Response) => {
     const { message, sessionId } = req.body as { message?: string; sessionId?: string };
 
     if (!message || typeof message !== 'string') {
@@ -562,12 +1245,18 @@ export function createUnifiedApp(config: Config, options?: DashboardOptions): {
     res.end();
   });
 
-  return { app, processManager, usageService };
+  return dashboard;
 }
 
 export function startUnifiedServer(config: Config, options?: DashboardOptions) {
   const port = config.port ?? 3000;
-  const { app } = createUnifiedApp(config, options);
+  const { app, processManager, jobQueue, scheduler } = createUnifiedApp(config, options);
+  // Resume interrupted processes before re-queued jobs could start them again
+  processManager.recoverProcesses()
+    .catch(err => console.error('[process-manager] Failed to recover processes:', err))
+    .then(() => jobQueue.start())
+    .catch(err => console.error('[jobs] Failed to start job queue:', err));
+  scheduler?.start().catch(err => console.error('[scheduler] Failed to start scheduler:', err));
 
   const server = app.listen(port, () => {
     console.log(`[serve] Listening on port ${port}`);
@@ -577,6 +1266,7 @@ export function startUnifiedServer(config: Config, options?: DashboardOptions) {
     console.log(`[serve] Chat API:     http://localhost:${port}/chat`);
     console.log(`[serve] API:          http://localhost:${port}/api/status`);
     console.log(`[serve] Health check: http://localhost:${port}/health`);
+    if (!config.auth) console.warn('[serve] ⚠️  AUTH_PROVIDER is not set — anyone who can reach this port can use the dashboard, dialog and API');
     console.log('[serve] Ready.\n');
   });
 
@@ -0,0 +1,20 @@
+-- 005_jobs.sql
+-- Durable job queue for webhook-triggered runs. Jobs left in 'running' by a
+-- crashed worker are re-queued when the queue starts.
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id            SERIAL PRIMARY KEY,
+  type          TEXT NOT NULL,
+  repo_key      TEXT NOT NULL,
+  payload       JSONB NOT NULL DEFAULT '{}',
+  status        TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued','running','completed','dead')),
+  attempts      INTEGER NOT NULL DEFAULT 0,
+  max_attempts  INTEGER NOT NULL DEFAULT 3,
+  last_error    TEXT,
+  run_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at    TIMESTAMPTZ,
+  completed_at  TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs(status, run_at);
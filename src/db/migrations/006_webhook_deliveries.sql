@@ -0,0 +1,18 @@
+-- 006_webhook_deliveries.sql
+-- Every received GitHub webhook delivery, keyed by X-GitHub-Delivery so
+-- redeliveries can be dropped and stored deliveries replayed.
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  delivery_id      TEXT PRIMARY KEY,
+  event            TEXT NOT NULL,
+  action           TEXT,
+  payload          JSONB NOT NULL DEFAULT '{}',
+  status           TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received','handled','ignored','failed')),
+  reason           TEXT,
+  duplicate_count  INTEGER NOT NULL DEFAULT 0,
+  replay_count     INTEGER NOT NULL DEFAULT 0,
+  received_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  handled_at       TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_received ON webhook_deliveries(received_at DESC);
@@ -0,0 +1,13 @@
+-- 007_sessions.sql
+-- Dashboard login sessions. id is the SHA-256 hash of the session cookie.
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id          TEXT PRIMARY KEY,
+  user_login  TEXT NOT NULL,
+  user_json   JSONB NOT NULL DEFAULT '{}',
+  csrf_token  TEXT NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at  TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions(expires_at);
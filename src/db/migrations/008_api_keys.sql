@@ -0,0 +1,19 @@
+-- 008_api_keys.sql
+-- API keys for scripts and CI (key_hash is the SHA-256 of the key), and who
+-- started each process.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id            SERIAL PRIMARY KEY,
+  name          TEXT NOT NULL,
+  prefix        TEXT NOT NULL,
+  key_hash      TEXT NOT NULL UNIQUE,
+  scopes        TEXT[] NOT NULL,
+  repos         TEXT[],
+  created_by    TEXT NOT NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at    TIMESTAMPTZ,
+  last_used_at  TIMESTAMPTZ,
+  revoked_at    TIMESTAMPTZ
+);
+
+ALTER TABLE agent_processes ADD COLUMN IF NOT EXISTS started_by JSONB;
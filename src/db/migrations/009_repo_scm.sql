@@ -0,0 +1,6 @@
+-- 009_repo_scm.sql
+-- Which SCM provider (github, gitlab) and host each repo lives on. A NULL
+-- host means the provider's public host (github.com, gitlab.com).
+
+ALTER TABLE repos ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'github';
+ALTER TABLE repos ADD COLUMN IF NOT EXISTS host TEXT;
@@ -0,0 +1,5 @@
+-- 010_repo_api_url.sql
+-- API base URL of a repo's host when it isn't derived from the host
+-- (GitHub Enterprise Server behind a proxy, GitLab under a subpath).
+
+ALTER TABLE repos ADD COLUMN IF NOT EXISTS api_url TEXT;
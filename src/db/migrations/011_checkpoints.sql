@@ -0,0 +1,36 @@
+-- 011_checkpoints.sql
+-- LangGraph checkpoints for agent runs (thread_id is the process id) and chat
+-- sessions, so runs cut short by a restart can be resumed. Processes record
+-- their latest checkpoint and the options they were started with.
+
+CREATE TABLE IF NOT EXISTS checkpoints (
+  thread_id             TEXT NOT NULL,
+  checkpoint_ns         TEXT NOT NULL DEFAULT '',
+  checkpoint_id         TEXT NOT NULL,
+  parent_checkpoint_id  TEXT,
+  type                  TEXT NOT NULL,
+  checkpoint            BYTEA NOT NULL,
+  metadata              BYTEA NOT NULL,
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id)
+);
+
+CREATE TABLE IF NOT EXISTS checkpoint_writes (
+  thread_id      TEXT NOT NULL,
+  checkpoint_ns  TEXT NOT NULL DEFAULT '',
+  checkpoint_id  TEXT NOT NULL,
+  task_id        TEXT NOT NULL,
+  idx            INTEGER NOT NULL,
+  channel        TEXT NOT NULL,
+  type           TEXT NOT NULL,
+  value          BYTEA NOT NULL,
+  PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id, task_id, idx)
+);
+
+ALTER TABLE agent_processes ADD COLUMN IF NOT EXISTS checkpoint_id TEXT;
+ALTER TABLE agent_processes ADD COLUMN IF NOT EXISTS run_options JSONB;
+
+-- Runs can also be paused for plan approval or cut short by a restart
+ALTER TABLE agent_processes DROP CONSTRAINT IF EXISTS agent_processes_status_check;
+ALTER TABLE agent_processes ADD CONSTRAINT agent_processes_status_check
+  CHECK (status IN ('running', 'awaiting_approval', 'completed', 'failed', 'cancelled', 'interrupted'));
@@ -0,0 +1,10 @@
+-- 012_pause.sql
+-- Operators can pause a running process and leave guidance for the agent,
+-- handed over when it is resumed.
+
+ALTER TABLE agent_processes ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ;
+ALTER TABLE agent_processes ADD COLUMN IF NOT EXISTS guidance JSONB;
+
+ALTER TABLE agent_processes DROP CONSTRAINT IF EXISTS agent_processes_status_check;
+ALTER TABLE agent_processes ADD CONSTRAINT agent_processes_status_check
+  CHECK (status IN ('running', 'awaiting_approval', 'paused', 'completed', 'failed', 'cancelled', 'interrupted'));
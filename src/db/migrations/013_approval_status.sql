@@ -0,0 +1,8 @@
+-- 013_approval_status.sql
+-- Restates the agent_processes status check with every status in use,
+-- including awaiting_approval for runs gated by plan approval, for
+-- databases whose earlier migrations left it out.
+
+ALTER TABLE agent_processes DROP CONSTRAINT IF EXISTS agent_processes_status_check;
+ALTER TABLE agent_processes ADD CONSTRAINT agent_processes_status_check
+  CHECK (status IN ('running', 'awaiting_approval', 'paused', 'completed', 'failed', 'cancelled', 'interrupted'));
@@ -0,0 +1,20 @@
+-- 014_webhook_claims.sql
+-- Claims of webhook-triggered work (a review to address), so concurrent
+-- deliveries for the same change start one run. They used to be settings
+-- entries updated with a read-then-write.
+
+CREATE TABLE IF NOT EXISTS webhook_claims (
+  scope        TEXT NOT NULL,
+  claim_key    TEXT NOT NULL,
+  delivery_id  TEXT NOT NULL,
+  claimed_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (scope, claim_key)
+);
+
+INSERT INTO webhook_claims (scope, claim_key, delivery_id)
+SELECT s.key, c.key, c.value
+FROM settings s, jsonb_each_text(s.value) c
+WHERE s.key LIKE 'review_claims:%'
+ON CONFLICT DO NOTHING;
+
+DELETE FROM settings WHERE key LIKE 'review_claims:%';
@@ -0,0 +1,10 @@
+-- 015_ci_fix_claims.sql
+-- Per-PR CI fix claims move from settings into webhook_claims (see 014).
+
+INSERT INTO webhook_claims (scope, claim_key, delivery_id)
+SELECT s.key, c.key, c.value
+FROM settings s, jsonb_each_text(s.value) c
+WHERE s.key LIKE 'ci_fixes:%'
+ON CONFLICT DO NOTHING;
+
+DELETE FROM settings WHERE key LIKE 'ci_fixes:%';
@@ -0,0 +1,22 @@
+-- 016_model_overrides.sql
+-- Per-thread `/model` overrides, one row per agent role so concurrent
+-- commands on a thread don't overwrite each other. They used to be
+-- `command_overrides:` settings entries updated with a read-then-write.
+
+CREATE TABLE IF NOT EXISTS model_overrides (
+  thread      TEXT NOT NULL,
+  role        TEXT NOT NULL,
+  model       TEXT NOT NULL,
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (thread, role)
+);
+
+INSERT INTO model_overrides (thread, role, model)
+SELECT substring(s.key FROM length('command_overrides:') + 1), r.key, r.value->>'model'
+FROM settings s, jsonb_each(s.value->'llm') r
+WHERE s.key LIKE 'command_overrides:%'
+  AND jsonb_typeof(s.value->'llm') = 'object'
+  AND r.value->>'model' IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+DELETE FROM settings WHERE key LIKE 'command_overrides:%';
@@ -0,0 +1,57 @@
+import type pg from 'pg';
+import type { ApiKey, ApiKeyRepository, NewApiKey } from '../api-key-repository.js';
+
+const COLUMNS = 'id, name, prefix, key_hash, scopes, repos, created_by, created_at, expires_at, last_used_at, revoked_at';
+
+export class PostgresApiKeyRepository implements ApiKeyRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async create(key: NewApiKey): Promise<ApiKey> {
+    const { rows } = await this.pool.query<any>(
+      `INSERT INTO api_keys (name, prefix, key_hash, scopes, repos, created_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING ${COLUMNS}`,
+      [key.name, key.prefix, key.keyHash, key.scopes, key.repos ?? null, key.createdBy, key.expiresAt ?? null],
+    );
+    return this.toApiKey(rows[0]);
+  }
+
+  async list(): Promise<ApiKey[]> {
+    const { rows } = await this.pool.query<any>(`SELECT ${COLUMNS} FROM api_keys ORDER BY created_at DESC`);
+    return rows.map(r => this.toApiKey(r));
+  }
+
+  async getByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const { rows } = await this.pool.query<any>(`SELECT ${COLUMNS} FROM api_keys WHERE key_hash = $1`, [keyHash]);
+    return rows[0] ? this.toApiKey(rows[0]) : undefined;
+  }
+
+  async revoke(id: number): Promise<boolean> {
+    const { rowCount } = await this.pool.query(
+      'UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL',
+      [id],
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async markUsed(id: number): Promise<void> {
+    await this.pool.query('UPDATE api_keys SET last_used_at = NOW() WHERE id = $1', [id]);
+  }
+
+  private toApiKey(row: any): ApiKey {
+    const iso = (value: unknown) => value instanceof Date ? value.toISOString() : (value as string | null) ?? undefined;
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      keyHash: row.key_hash,
+      scopes: row.scopes ?? [],
+      repos: row.repos ?? undefined,
+      createdBy: row.created_by,
+      createdAt: iso(row.created_at)!,
+      expiresAt: iso(row.expires_at),
+      lastUsedAt: iso(row.last_used_at),
+      revokedAt: iso(row.revoked_at),
+    };
+  }
+}
@@ -0,0 +1,164 @@
+import type pg from 'pg';
+import { BaseCheckpointSaver, copyCheckpoint } from '@langchain/langgraph';
+import type { Checkpoint, CheckpointMetadata, CheckpointTuple } from '@langchain/langgraph';
+import { notifyCheckpoint } from '../checkpointer.js';
+
+type RunnableConfig = Parameters<BaseCheckpointSaver['getTuple']>[0];
+type CheckpointListOptions = NonNullable<Parameters<BaseCheckpointSaver['list']>[1]>;
+type PendingWrite = Parameters<BaseCheckpointSaver['putWrites']>[1][number];
+
+/**
+ * Fixed indexes for special writes (errors, interrupts); regular writes are
+ * indexed by position. Same values as WRITES_IDX_MAP in
+ * @langchain/langgraph-checkpoint, which @langchain/langgraph doesn't export.
+ */
+const WRITES_IDX_MAP: Record<string, number> = { __error__: -1, __scheduled__: -2, __interrupt__: -3, __resume__: -4 };
+
+const COLUMNS = 'thread_id, checkpoint_ns, checkpoint_id, parent_checkpoint_id, type, checkpoint, metadata';
+
+/**
+ * LangGraph checkpoint saver on the checkpoints and checkpoint_writes tables
+ * (see migration 011). Behaves like MemorySaver, including announcing each
+ * stored checkpoint on checkpointEvents.
+ */
+export class PostgresCheckpointSaver extends BaseCheckpointSaver {
+  constructor(private pool: pg.Pool) {
+    super();
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    const namespace = config.configurable?.checkpoint_ns ?? '';
+    const checkpointId = config.configurable?.checkpoint_id;
+    const { rows } = checkpointId
+      ? await this.pool.query<any>(
+        `SELECT ${COLUMNS} FROM checkpoints WHERE thread_id = $1 AND checkpoint_ns = $2 AND checkpoint_id = $3`,
+        [threadId, namespace, checkpointId],
+      )
+      : await this.pool.query<any>(
+        `SELECT ${COLUMNS} FROM checkpoints WHERE thread_id = $1 AND checkpoint_ns = $2
+         ORDER BY checkpoint_id COLLATE "C" DESC LIMIT 1`,
+        [threadId, namespace],
+      );
+    return rows[0] ? this.toTuple(rows[0]) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    let idx = 1;
+
+    const { thread_id: threadId, checkpoint_ns: namespace, checkpoint_id: checkpointId } = config.configurable ?? {};
+    if (threadId) {
+      conditions.push(`thread_id = $${idx++}`);
+      params.push(threadId);
+    }
+    if (namespace !== undefined) {
+      conditions.push(`checkpoint_ns = $${idx++}`);
+      params.push(namespace);
+    }
+    if (checkpointId) {
+      conditions.push(`checkpoint_id = $${idx++}`);
+      params.push(checkpointId);
+    }
+    const before = options?.before?.configurable?.checkpoint_id;
+    if (before) {
+      conditions.push(`checkpoint_id COLLATE "C" < $${idx++}`);
+      params.push(before);
+    }
+
+    // Metadata is serialized, so a filter is applied after loading
+    const filter = options?.filter;
+    const limit = !filter && options?.limit !== undefined ? `LIMIT ${Math.max(0, Math.floor(options.limit))}` : '';
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { rows } = await this.pool.query<any>(
+      `SELECT ${COLUMNS} FROM checkpoints ${where}
+       ORDER BY thread_id, checkpoint_ns, checkpoint_id COLLATE "C" DESC ${limit}`,
+      params,
+    );
+
+    let remaining = filter ? options?.limit : undefined;
+    for (const row of rows) {
+      const tuple = await this.toTuple(row);
+      if (filter && !Object.entries(filter).every(([key, value]) => (tuple.metadata as any)?.[key] === value)) continue;
+      if (remaining !== undefined && remaining-- <= 0) break;
+      yield tuple;
+    }
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const namespace = config.configurable?.checkpoint_ns ?? '';
+    if (threadId === undefined) throw new Error('Failed to put checkpoint: the config has no configurable.thread_id');
+
+    const [[type, serializedCheckpoint], [, serializedMetadata]] = await Promise.all([
+      this.serde.dumpsTyped(copyCheckpoint(checkpoint)),
+      this.serde.dumpsTyped(metadata),
+    ]);
+    await this.pool.query(
+      `INSERT INTO checkpoints (${COLUMNS})
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (thread_id, checkpoint_ns, checkpoint_id)
+       DO UPDATE SET type = EXCLUDED.type, checkpoint = EXCLUDED.checkpoint, metadata = EXCLUDED.metadata`,
+      [
+        threadId,
+        namespace,
+        checkpoint.id,
+        config.configurable?.checkpoint_id ?? null,
+        type,
+        Buffer.from(serializedCheckpoint),
+        Buffer.from(serializedMetadata),
+      ],
+    );
+
+    const saved = { configurable: { thread_id: threadId, checkpoint_ns: namespace, checkpoint_id: checkpoint.id } };
+    notifyCheckpoint(saved);
+    return saved;
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const namespace = config.configurable?.checkpoint_ns ?? '';
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (threadId === undefined) throw new Error('Failed to put writes: the config has no configurable.thread_id');
+    if (checkpointId === undefined) throw new Error('Failed to put writes: the config has no configurable.checkpoint_id');
+
+    await Promise.all(writes.map(async ([channel, value], position) => {
+      const idx = WRITES_IDX_MAP[channel] ?? position;
+      const [type, serialized] = await this.serde.dumpsTyped(value);
+      // A retried task keeps its first regular writes; special writes are replaced
+      await this.pool.query(
+        `INSERT INTO checkpoint_writes (thread_id, checkpoint_ns, checkpoint_id, task_id, idx, channel, type, value)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (thread_id, checkpoint_ns, checkpoint_id, task_id, idx)
+         ${idx < 0 ? 'DO UPDATE SET channel = EXCLUDED.channel, type = EXCLUDED.type, value = EXCLUDED.value' : 'DO NOTHING'}`,
+        [threadId, namespace, checkpointId, taskId, idx, channel, type, Buffer.from(serialized)],
+      );
+    }));
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.pool.query('DELETE FROM checkpoint_writes WHERE thread_id = $1', [threadId]);
+    await this.pool.query('DELETE FROM checkpoints WHERE thread_id = $1', [threadId]);
+  }
+
+  private async toTuple(row: any): Promise<CheckpointTuple> {
+    const { rows: writes } = await this.pool.query<any>(
+      `SELECT task_id, channel, type, value FROM checkpoint_writes
+       WHERE thread_id = $1 AND checkpoint_ns = $2 AND checkpoint_id = $3
+       ORDER BY task_id, idx`,
+      [row.thread_id, row.checkpoint_ns, row.checkpoint_id],
+    );
+    const tuple: CheckpointTuple = {
+      config: { configurable: { thread_id: row.thread_id, checkpoint_ns: row.checkpoint_ns, checkpoint_id: row.checkpoint_id } },
+      checkpoint: await this.serde.loadsTyped(row.type, row.checkpoint),
+      metadata: await this.serde.loadsTyped('json', row.metadata),
+      pendingWrites: await Promise.all(writes.map(async (w): Promise<[string, string, unknown]> =>
+        [w.task_id, w.channel, await this.serde.loadsTyped(w.type, w.value)])),
+    };
+    if (row.parent_checkpoint_id) {
+      tuple.parentConfig = { configurable: { thread_id: row.thread_id, checkpoint_ns: row.checkpoint_ns, checkpoint_id: row.parent_checkpoint_id } };
+    }
+    return tuple;
+  }
+}
@@ -0,0 +1,42 @@
+import type pg from 'pg';
+import type { ClaimRepository, ClaimResult } from '../claim-repository.js';
+
+export class PostgresClaimRepository implements ClaimRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async claim(scope: string, key: string, deliveryId: string, limit?: number): Promise<ClaimResult> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      // The primary key makes the claim atomic. A capped scope is also locked
+      // for the transaction, so concurrent claims of different keys can't
+      // both pass the count.
+      if (limit !== undefined) {
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [scope]);
+      }
+      const { rowCount } = await client.query(
+        `INSERT INTO webhook_claims (scope, claim_key, delivery_id)
+         SELECT $1, $2, $3
+         WHERE $4::integer IS NULL OR (SELECT COUNT(*) FROM webhook_claims WHERE scope = $1) < $4
+         ON CONFLICT (scope, claim_key) DO NOTHING`,
+        [scope, key, deliveryId, limit ?? null],
+      );
+      let result: ClaimResult = 'claimed';
+      if (!rowCount) {
+        const { rows } = await client.query<{ delivery_id: string }>(
+          'SELECT delivery_id FROM webhook_claims WHERE scope = $1 AND claim_key = $2',
+          [scope, key],
+        );
+        if (!rows[0]) result = 'limit';
+        else if (rows[0].delivery_id !== deliveryId) result = 'duplicate';
+      }
+      await client.query('COMMIT');
+      return result;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import type pg from 'pg';
+import type { EnqueueJobInput, Job, JobRepository, JobStatus } from '../job-repository.js';
+
+const COLUMNS = `id, type, repo_key, payload, status, attempts, max_attempts, last_error,
+  run_at, created_at, started_at, completed_at`;
+
+export class PostgresJobRepository implements JobRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async enqueue(input: EnqueueJobInput): Promise<Job> {
+    const { rows } = await this.pool.query<any>(
+      `INSERT INTO jobs (type, repo_key, payload, max_attempts, run_at)
+       VALUES ($1, $2, $3, $4, COALESCE($5::timestamptz, NOW()))
+       RETURNING ${COLUMNS}`,
+      [input.type, input.repoKey, JSON.stringify(input.payload), input.maxAttempts, input.runAt ?? null],
+    );
+    return this.toRecord(rows[0]);
+  }
+
+  async claimNext(excludeRepoKeys: string[]): Promise<Job | undefined> {
+    // SKIP LOCKED lets several workers (or instances) claim concurrently
+    // without handing out the same job twice.
+    const { rows } = await this.pool.query<any>(
+      `UPDATE jobs SET status = 'running', attempts = attempts + 1, started_at = NOW()
+       WHERE id = (
+         SELECT id FROM jobs
+         WHERE status = 'queued' AND run_at <= NOW() AND NOT (repo_key = ANY($1::text[]))
+         ORDER BY run_at, id
+         FOR UPDATE SKIP LOCKED
+         LIMIT 1
+       )
+       RETURNING ${COLUMNS}`,
+      [excludeRepoKeys],
+    );
+    return rows[0] ? this.toRecord(rows[0]) : undefined;
+  }
+
+  async complete(id: number): Promise<void> {
+    await this.pool.query(
+      `UPDATE jobs SET status = 'completed', completed_at = NOW() WHERE id = $1`,
+      [id],
+    );
+  }
+
+  async fail(id: number, error: string, retryAt: string | null): Promise<void> {
+    if (retryAt) {
+      await this.pool.query(
+        `UPDATE jobs SET status = 'queued', last_error = $2, run_at = $3 WHERE id = $1`,
+        [id, error, retryAt],
+      );
+    } else {
+      await this.pool.query(
+        `UPDATE jobs SET status = 'dead', last_error = $2, completed_at = NOW() WHERE id = $1`,
+        [id, error],
+      );
+    }
+  }
+
+  async retry(id: number): Promise<Job | undefined> {
+    const { rows } = await this.pool.query<any>(
+      `UPDATE jobs SET status = 'queued', attempts = 0, run_at = NOW(), completed_at = NULL
+       WHERE id = $1 AND status = 'dead'
+       RETURNING ${COLUMNS}`,
+      [id],
+    );
+    return rows[0] ? this.toRecord(rows[0]) : undefined;
+  }
+
+  async requeueRunning(): Promise<number> {
+    const { rowCount } = await this.pool.query(
+      `UPDATE jobs SET status = 'queued' WHERE status = 'running'`,
+    );
+    return rowCount ?? 0;
+  }
+
+  async getById(id: number): Promise<Job | undefined> {
+    const { rows } = await this.pool.query<any>(
+      `SELECT ${COLUMNS} FROM jobs WHERE id = $1`,
+      [id],
+    );
+    return rows[0] ? this.toRecord(rows[0]) : undefined;
+  }
+
+  async list(filter?: { status?: JobStatus; limit?: number }): Promise<Job[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    let idx = 1;
+
+    if (filter?.status) {
+      conditions.push(`status = $${idx++}`);
+      params.push(filter.status);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    params.push(filter?.limit ?? 100);
+    const { rows } = await this.pool.query<any>(
+      `SELECT ${COLUMNS} FROM jobs ${where} ORDER BY id DESC LIMIT $${idx}`,
+      params,
+    );
+    return rows.map(r => this.toRecord(r));
+  }
+
+  private toRecord(row: any): Job {
+    const iso = (v: any) => v instanceof Date ? v.toISOString() : (v ?? undefined);
+    return {
+      id: row.id,
+      type: row.type,
+      repoKey: row.repo_key,
+      payload: row.payload ?? {},
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      lastError: row.last_error ?? undefined,
+      runAt: iso(row.run_at),
+      createdAt: iso(row.created_at),
+      startedAt: iso(row.started_at),
+      completedAt: iso(row.completed_at),
+    };
+  }
+}
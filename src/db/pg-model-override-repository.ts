@@ -0,0 +1,29 @@
+import type pg from 'pg';
+import type { ModelOverrideRepository } from '../model-override-repository.js';
+
+export class PostgresModelOverrideRepository implements ModelOverrideRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async get(thread: string): Promise<Record<string, string>> {
+    const { rows } = await this.pool.query<{ role: string; model: string }>(
+      'SELECT role, model FROM model_overrides WHERE thread = $1',
+      [thread],
+    );
+    return Object.fromEntries(rows.map(r => [r.role, r.model]));
+  }
+
+  async set(thread: string, models: Record<string, string>): Promise<void> {
+    const roles = Object.keys(models);
+    if (roles.length === 0) return;
+    await this.pool.query(
+      `INSERT INTO model_overrides (thread, role, model)
+       SELECT $1, role, model FROM UNNEST($2::text[], $3::text[]) AS m(role, model)
+       ON CONFLICT (thread, role) DO UPDATE SET model = EXCLUDED.model, updated_at = NOW()`,
+      [thread, roles, roles.map(role => models[role])],
+    );
+  }
+
+  async clear(thread: string): Promise<void> {
+    await this.pool.query('DELETE FROM model_overrides WHERE thread = $1', [thread]);
+  }
+}
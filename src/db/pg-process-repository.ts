@@ -2,20 +2,29 @@ import type pg from 'pg';
 import type { AgentProcess } from '../process-manager.js';
 import type { ProcessRepository } from '../process-repository.js';
 
+/** Process columns plus the owner/repo of its repo row. */
+const SELECT_PROCESS = `SELECT p.id, p.repo_id, p.type, p.status, p.issue_number, p.pr_number, p.pr_numbers,
+         p.started_at, p.completed_at, p.current_phase, p.active_phases, p.iteration, p.max_iterations,
+         p.outcome, p.error, p.logs, p.started_by, p.checkpoint_id, p.run_options, p.paused_at, p.guidance,
+         r.owner, r.repo
+       FROM agent_processes p JOIN repos r ON r.id = p.repo_id`;
+
 export class PostgresProcessRepository implements ProcessRepository {
   constructor(private pool: pg.Pool, private defaultRepoId: number = 0) {}
 
   async save(process: AgentProcess): Promise<void> {
-    const repoId = (process as any).repoId ?? this.defaultRepoId;
+    // The run's repo id when the ProcessManager started it, else the repo
+    // row of its owner/repo (webhook runs), else the default repo
     await this.pool.query(
       `INSERT INTO agent_processes (id, repo_id, type, status, issue_number, pr_number, pr_numbers,
          started_at, completed_at, current_phase, active_phases, iteration, max_iterations,
-         outcome, error, logs)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+         outcome, error, logs, started_by, checkpoint_id, run_options, paused_at, guidance)
+       VALUES ($1, COALESCE($2::integer, (SELECT id FROM repos WHERE owner = $22 AND repo = $23), $24),
+         $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
        ON CONFLICT (id) DO NOTHING`,
       [
         process.id,
-        repoId,
+        process.runOptions?.repoId ?? null,
         process.type,
         process.status,
         process.issueNumber ?? null,
@@ -30,6 +39,14 @@ export class PostgresProcessRepository implements ProcessRepository {
         process.outcome ?? null,
         process.error ?? null,
         JSON.stringify(process.logs),
+        process.startedBy ? JSON.stringify(process.startedBy) : null,
+        process.checkpointId ?? null,
+        process.runOptions ? JSON.stringify(process.runOptions) : null,
+        process.pausedAt ?? null,
+        process.guidance ? JSON.stringify(process.guidance) : null,
+        process.owner,
+        process.repo,
+        this.defaultRepoId,
       ],
     );
   }
@@ -48,7 +65,10 @@ export class PostgresProcessRepository implements ProcessRepository {
          max_iterations = $10,
          outcome = $11,
          error = $12,
-         logs = $13
+         logs = $13,
+         checkpoint_id = $14,
+         paused_at = $15,
+         guidance = $16
        WHERE id = $1`,
       [
         process.id,
@@ -64,16 +84,16 @@ export class PostgresProcessRepository implements ProcessRepository {
         process.outcome ?? null,
         process.error ?? null,
         JSON.stringify(process.logs),
+        process.checkpointId ?? null,
+        process.pausedAt ?? null,
+        process.guidance ? JSON.stringify(process.guidance) : null,
       ],
     );
   }
 
   async getById(id: string): Promise<AgentProcess | undefined> {
     const { rows } = await this.pool.query<any>(
-      `SELECT id, repo_id, type, status, issue_number, pr_number, pr_numbers,
-         started_at, completed_at, current_phase, active_phases, iteration, max_iterations,
-         outcome, error, logs
-       FROM agent_processes WHERE id = $1`,
+      `${SELECT_PROCESS} WHERE p.id = $1`,
       [id],
     );
     return rows[0] ? this.toProcess(rows[0]) : undefined;
@@ -85,20 +105,17 @@ export class PostgresProcessRepository implements ProcessRepository {
     let idx = 1;
 
     if (filter?.status) {
-      conditions.push(`status = $${idx++}`);
+      conditions.push(`p.status = $${idx++}`);
       params.push(filter.status);
     }
     if (filter?.repoId !== undefined) {
-      conditions.push(`repo_id = $${idx++}`);
+      conditions.push(`p.repo_id = $${idx++}`);
       params.push(filter.repoId);
     }
 
     const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
     const { rows } = await this.pool.query<any>(
-      `SELECT id, repo_id, type, status, issue_number, pr_number, pr_numbers,
-         started_at, completed_at, current_phase, active_phases, iteration, max_iterations,
-         outcome, error, logs
-       FROM agent_processes ${where} ORDER BY started_at DESC`,
+      `${SELECT_PROCESS} ${where} ORDER BY p.started_at DESC`,
       params,
     );
     return rows.map(r => this.toProcess(r));
@@ -112,8 +129,8 @@ export class PostgresProcessRepository implements ProcessRepository {
       issueNumber: row.issue_number ?? undefined,
       prNumber: row.pr_number ?? undefined,
       prNumbers: row.pr_numbers ?? undefined,
-      owner: '', // Not stored in DB — filled by ProcessManager from config
-      repo: '',
+      owner: row.owner,
+      repo: row.repo,
       startedAt: row.started_at instanceof Date ? row.started_at.toISOString() : row.started_at,
       completedAt: row.completed_at instanceof Date ? row.completed_at.toISOString() : (row.completed_at ?? undefined),
       currentPhase: row.current_phase ?? undefined,
@@ -122,6 +139,11 @@ export class PostgresProcessRepository implements ProcessRepository {
       maxIterations: row.max_iterations ?? undefined,
       outcome: row.outcome ?? undefined,
       error: row.error ?? undefined,
+      startedBy: row.started_by ?? undefined,
+      checkpointId: row.checkpoint_id ?? undefined,
+      runOptions: row.run_options ?? undefined,
+      pausedAt: row.paused_at instanceof Date ? row.paused_at.toISOString() : (row.paused_at ?? undefined),
+      guidance: row.guidance ?? undefined,
       logs: row.logs ?? [],
     };
   }
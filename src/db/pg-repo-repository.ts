@@ -1,12 +1,12 @@
 import type pg from 'pg';
-import type { RepoRecord, RepoRepository } from '../repo-repository.js';
+import type { RepoRecord, RepoRepository, RepoScm } from '../repo-repository.js';
 
 export class PostgresRepoRepository implements RepoRepository {
   constructor(private pool: pg.Pool) {}
 
   async getById(id: number): Promise<RepoRecord | undefined> {
     const { rows } = await this.pool.query<any>(
-      'SELECT id, owner, repo, is_active, added_at, config_json FROM repos WHERE id = $1',
+      'SELECT id, owner, repo, is_active, added_at, config_json, provider, host, api_url FROM repos WHERE id = $1',
       [id],
     );
     return rows[0] ? this.toRecord(rows[0]) : undefined;
@@ -14,7 +14,7 @@ export class PostgresRepoRepository implements RepoRepository {
 
   async getByOwnerRepo(owner: string, repo: string): Promise<RepoRecord | undefined> {
     const { rows } = await this.pool.query<any>(
-      'SELECT id, owner, repo, is_active, added_at, config_json FROM repos WHERE owner = $1 AND repo = $2',
+      'SELECT id, owner, repo, is_active, added_at, config_json, provider, host, api_url FROM repos WHERE owner = $1 AND repo = $2',
       [owner, repo],
     );
     return rows[0] ? this.toRecord(rows[0]) : undefined;
@@ -25,7 +25,7 @@ export class PostgresRepoRepository implements RepoRepository {
       `INSERT INTO repos (owner, repo)
        VALUES ($1, $2)
        ON CONFLICT (owner, repo) DO UPDATE SET owner = EXCLUDED.owner
-       RETURNING id, owner, repo, is_active, added_at, config_json`,
+       RETURNING id, owner, repo, is_active, added_at, config_json, provider, host, api_url`,
       [owner, repo],
     );
     return this.toRecord(rows[0]);
@@ -33,28 +33,31 @@ export class PostgresRepoRepository implements RepoRepository {
 
   async list(activeOnly = true): Promise<RepoRecord[]> {
     const sql = activeOnly
-      ? 'SELECT id, owner, repo, is_active, added_at, config_json FROM repos WHERE is_active = TRUE ORDER BY id'
-      : 'SELECT id, owner, repo, is_active, added_at, config_json FROM repos ORDER BY id';
+      ? 'SELECT id, owner, repo, is_active, added_at, config_json, provider, host, api_url FROM repos WHERE is_active = TRUE ORDER BY id'
+      : 'SELECT id, owner, repo, is_active, added_at, config_json, provider, host, api_url FROM repos ORDER BY id';
     const { rows } = await this.pool.query<any>(sql);
     return rows.map(r => this.toRecord(r));
   }
 
-  async create(owner: string, repo: string, configJson?: Record<string, unknown>): Promise<RepoRecord> {
+  async create(owner: string, repo: string, configJson?: Record<string, unknown>, scm: RepoScm = {}): Promise<RepoRecord> {
     const { rows } = await this.pool.query<any>(
-      `INSERT INTO repos (owner, repo, config_json)
-       VALUES ($1, $2, $3)
-       RETURNING id, owner, repo, is_active, added_at, config_json`,
-      [owner, repo, configJson ? JSON.stringify(configJson) : null],
+      `INSERT INTO repos (owner, repo, config_json, provider, host, api_url)
+       VALUES ($1, $2, $3, COALESCE($4, 'github'), $5, $6)
+       RETURNING id, owner, repo, is_active, added_at, config_json, provider, host, api_url`,
+      [owner, repo, configJson ? JSON.stringify(configJson) : null, scm.provider ?? null, scm.host ?? null, scm.apiUrl ?? null],
     );
     return this.toRecord(rows[0]);
   }
 
-  async update(id: number, fields: { configJson?: Record<string, unknown> }): Promise<RepoRecord | undefined> {
+  async update(id: number, fields: { configJson?: Record<string, unknown> } & RepoScm): Promise<RepoRecord | undefined> {
     const { rows } = await this.pool.query<any>(
-      `UPDATE repos SET config_json = COALESCE($2, config_json)
+      `UPDATE repos SET config_json = COALESCE($2, config_json),
+                        provider = COALESCE($3, provider),
+                        host = COALESCE($4, host),
+                        api_url = COALESCE($5, api_url)
        WHERE id = $1
-       RETURNING id, owner, repo, is_active, added_at, config_json`,
-      [id, fields.configJson ? JSON.stringify(fields.configJson) : null],
+       RETURNING id, owner, repo, is_active, added_at, config_json, provider, host, api_url`,
+      [id, fields.configJson ? JSON.stringify(fields.configJson) : null, fields.provider ?? null, fields.host ?? null, fields.apiUrl ?? null],
     );
     return rows[0] ? this.toRecord(rows[0]) : undefined;
   }
@@ -75,6 +78,9 @@ export class PostgresRepoRepository implements RepoRepository {
       isActive: row.is_active,
       addedAt: row.added_at instanceof Date ? row.added_at.toISOString() : row.added_at,
       configJson: row.config_json ?? undefined,
+      provider: row.provider ?? undefined,
+      host: row.host ?? undefined,
+      apiUrl: row.api_url ?? undefined,
     };
   }
 }
@@ -0,0 +1,40 @@
+import type pg from 'pg';
+import type { Session, SessionRepository } from '../session-repository.js';
+
+export class PostgresSessionRepository implements SessionRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async create(session: Session): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO sessions (id, user_login, user_json, csrf_token, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [session.id, session.user.login, JSON.stringify(session.user), session.csrfToken, session.createdAt, session.expiresAt],
+    );
+  }
+
+  async get(id: string): Promise<Session | undefined> {
+    const { rows } = await this.pool.query<any>(
+      'SELECT id, user_json, csrf_token, created_at, expires_at FROM sessions WHERE id = $1 AND expires_at > NOW()',
+      [id],
+    );
+    const row = rows[0];
+    if (!row) return undefined;
+    return {
+      id: row.id,
+      user: row.user_json,
+      csrfToken: row.csrf_token,
+      createdAt: new Date(row.created_at).toISOString(),
+      expiresAt: new Date(row.expires_at).toISOString(),
+    };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { rowCount } = await this.pool.query('DELETE FROM sessions WHERE id = $1', [id]);
+    return (rowCount ?? 0) > 0;
+  }
+
+  async deleteExpired(): Promise<number> {
+    const { rowCount } = await this.pool.query('DELETE FROM sessions WHERE expires_at <= NOW()');
+    return rowCount ?? 0;
+  }
+}
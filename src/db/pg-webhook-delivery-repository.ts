@@ -0,0 +1,94 @@
+import type pg from 'pg';
+import type { WebhookEvent } from '../listener.js';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryFilter,
+  WebhookDeliveryRepository,
+  WebhookDeliveryStatus,
+} from '../webhook-delivery-repository.js';
+
+const COLUMNS = `delivery_id, event, action, payload, status, reason, duplicate_count,
+  replay_count, received_at, handled_at`;
+
+export class PostgresWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async record(event: WebhookEvent): Promise<boolean> {
+    const action = typeof event.payload.action === 'string' ? event.payload.action : null;
+    const { rowCount } = await this.pool.query(
+      `INSERT INTO webhook_deliveries (delivery_id, event, action, payload)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (delivery_id) DO NOTHING`,
+      [event.deliveryId, event.event, action, JSON.stringify(event.payload)],
+    );
+    if ((rowCount ?? 0) > 0) return true;
+
+    await this.pool.query(
+      'UPDATE webhook_deliveries SET duplicate_count = duplicate_count + 1 WHERE delivery_id = $1',
+      [event.deliveryId],
+    );
+    return false;
+  }
+
+  async setResult(deliveryId: string, status: WebhookDeliveryStatus, reason?: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE webhook_deliveries SET status = $2, reason = $3, handled_at = NOW() WHERE delivery_id = $1',
+      [deliveryId, status, reason ?? null],
+    );
+  }
+
+  async markReplayed(deliveryId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE webhook_deliveries
+       SET replay_count = replay_count + 1, status = 'received', reason = NULL, handled_at = NULL
+       WHERE delivery_id = $1`,
+      [deliveryId],
+    );
+  }
+
+  async getById(deliveryId: string): Promise<WebhookDelivery | undefined> {
+    const { rows } = await this.pool.query<any>(
+      `SELECT ${COLUMNS} FROM webhook_deliveries WHERE delivery_id = $1`,
+      [deliveryId],
+    );
+    return rows[0] ? this.toRecord(rows[0]) : undefined;
+  }
+
+  async list(filter?: WebhookDeliveryFilter): Promise<WebhookDelivery[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    let idx = 1;
+
+    if (filter?.event) {
+      conditions.push(`event = $${idx++}`);
+      params.push(filter.event);
+    }
+    if (filter?.status) {
+      conditions.push(`status = $${idx++}`);
+      params.push(filter.status);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    params.push(filter?.limit ?? 100);
+    const { rows } = await this.pool.query<any>(
+      `SELECT ${COLUMNS} FROM webhook_deliveries ${where} ORDER BY received_at DESC LIMIT $${idx}`,
+      params,
+    );
+    return rows.map(r => this.toRecord(r));
+  }
+
+  private toRecord(row: any): WebhookDelivery {
+    return {
+      deliveryId: row.delivery_id,
+      event: row.event,
+      action: row.action ?? undefined,
+      payload: row.payload ?? {},
+      status: row.status,
+      reason: row.reason ?? undefined,
+      duplicateCount: row.duplicate_count,
+      replayCount: row.replay_count,
+      receivedAt: row.received_at instanceof Date ? row.received_at.toISOString() : row.received_at,
+      handledAt: row.handled_at instanceof Date ? row.handled_at.toISOString() : (row.handled_at ?? undefined),
+    };
+  }
+}
@@ -13,6 +13,20 @@ import type { PricingRepository } from '../pricing-repository.js';
 import { InMemoryPricingRepository } from '../pricing-repository.js';
 import type { SettingsRepository } from '../settings-repository.js';
 import { InMemorySettingsRepository } from '../settings-repository.js';
+import type { JobRepository } from '../job-repository.js';
+import { InMemoryJobRepository } from '../job-repository.js';
+import type { WebhookDeliveryRepository } from '../webhook-delivery-repository.js';
+import { InMemoryWebhookDeliveryRepository } from '../webhook-delivery-repository.js';
+import type { SessionRepository } from '../session-repository.js';
+import { InMemorySessionRepository } from '../session-repository.js';
+import type { ApiKeyRepository } from '../api-key-repository.js';
+import { InMemoryApiKeyRepository } from '../api-key-repository.js';
+import type { ClaimRepository } from '../claim-repository.js';
+import { InMemoryClaimRepository } from '../claim-repository.js';
+import type { ModelOverrideRepository } from '../model-override-repository.js';
+import { InMemoryModelOverrideRepository } from '../model-override-repository.js';
+import type { BaseCheckpointSaver } from '@langchain/langgraph';
+import { InMemoryCheckpointSaver } from '../checkpointer.js';
 import { initPool } from './connection.js';
 import { runMigrations } from './migrate.js';
 import { PostgresRepoRepository } from './pg-repo-repository.js';
@@ -22,6 +36,13 @@ import { PostgresProcessRepository } from './pg-process-repository.js';
 import { PostgresIssueContextRepository } from './pg-issue-context-repository.js';
 import { PostgresPricingRepository } from './pg-pricing-repository.js';
 import { PostgresSettingsRepository } from './pg-settings-repository.js';
+import { PostgresJobRepository } from './pg-job-repository.js';
+import { PostgresWebhookDeliveryRepository } from './pg-webhook-delivery-repository.js';
+import { PostgresSessionRepository } from './pg-session-repository.js';
+import { PostgresApiKeyRepository } from './pg-api-key-repository.js';
+import { PostgresClaimRepository } from './pg-claim-repository.js';
+import { PostgresModelOverrideRepository } from './pg-model-override-repository.js';
+import { PostgresCheckpointSaver } from './pg-checkpoint-saver.js';
 
 export interface Repositories {
   repoRepository: RepoRepository;
@@ -31,6 +52,14 @@ export interface Repositories {
   issueContextRepository: IssueContextRepository;
   pricingRepository: PricingRepository;
   settingsRepository: SettingsRepository;
+  jobRepository: JobRepository;
+  webhookDeliveryRepository: WebhookDeliveryRepository;
+  sessionRepository: SessionRepository;
+  apiKeyRepository: ApiKeyRepository;
+  claimRepository: ClaimRepository;
+  modelOverrideRepository: ModelOverrideRepository;
+  /** LangGraph checkpoints for agent runs and chat sessions; see checkpointer.ts */
+  checkpointer: BaseCheckpointSaver;
   repoId: number;
 }
 
@@ -68,6 +97,13 @@ export async function createRepositories(config: Config): Promise<Repositories>
       issueContextRepository: new PostgresIssueContextRepository(pool, repoId),
       pricingRepository: new PostgresPricingRepository(pool),
       settingsRepository: new PostgresSettingsRepository(pool),
+      jobRepository: new PostgresJobRepository(pool),
+      webhookDeliveryRepository: new PostgresWebhookDeliveryRepository(pool),
+      sessionRepository: new PostgresSessionRepository(pool),
+      apiKeyRepository: new PostgresApiKeyRepository(pool),
+      claimRepository: new PostgresClaimRepository(pool),
+      modelOverrideRepository: new PostgresModelOverrideRepository(pool),
+      checkpointer: new PostgresCheckpointSaver(pool),
       repoId,
     };
   }
@@ -82,6 +118,13 @@ export async function createRepositories(config: Config): Promise<Repositories>
     issueContextRepository: new InMemoryIssueContextRepository(),
     pricingRepository: new InMemoryPricingRepository(),
     settingsRepository: new InMemorySettingsRepository(),
+    jobRepository: new InMemoryJobRepository(),
+    webhookDeliveryRepository: new InMemoryWebhookDeliveryRepository(),
+    sessionRepository: new InMemorySessionRepository(),
+    apiKeyRepository: new InMemoryApiKeyRepository(),
+    claimRepository: new InMemoryClaimRepository(),
+    modelOverrideRepository: new InMemoryModelOverrideRepository(),
+    checkpointer: new InMemoryCheckpointSaver(),
     repoId: 0,
   };
 }
@@ -0,0 +1,173 @@
+/**
+ * Installed-dependency cache for workspaces.
+ *
+ * The package manager is detected from the lockfile at the repo root:
+ *
+ *   pnpm-lock.yaml     pnpm     node_modules, .pnpm-store
+ *   yarn.lock          yarn     node_modules, .yarn-cache
+ *   package-lock.json  npm      node_modules, .npm-cache
+ *   poetry.lock        poetry   .venv
+ *   requirements.txt   pip      .venv, .pip-cache
+ *   Cargo.lock         cargo    target, .cargo-home
+ *   go.sum             go       .gomodcache
+ *
+ * Commands in the workspace get env vars that point each tool's download
+ * cache inside the workspace (HOME is a throwaway directory per command), so
+ * everything an install produces lives in those directories. After a run
+ * they are copied to .workspaces/deps/<owner>/<repo>/<manager>-<hash>, keyed
+ * by the lockfile's hash; the next run with the same lockfile starts with
+ * them restored, and `pnpm install` or `npm ci` only has to verify.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Workspace } from './workspace.js';
+
+export type PackageManager = 'pnpm' | 'yarn' | 'npm' | 'poetry' | 'pip' | 'cargo' | 'go';
+
+export interface DependencySpec {
+  manager: PackageManager;
+  lockfile: string;
+  /** Workspace directories holding what the install produced */
+  dirs: string[];
+  /** Env for commands in the workspace; "./" values are workspace paths */
+  env: Record<string, string>;
+  /** Specs sharing a group own the same directories; the first match wins */
+  group?: 'node' | 'python';
+}
+
+const SPECS: DependencySpec[] = [
+  { manager: 'pnpm', lockfile: 'pnpm-lock.yaml', group: 'node', dirs: ['node_modules', '.pnpm-store'], env: { npm_config_store_dir: './.pnpm-store' } },
+  { manager: 'yarn', lockfile: 'yarn.lock', group: 'node', dirs: ['node_modules', '.yarn-cache'], env: { YARN_CACHE_FOLDER: './.yarn-cache' } },
+  { manager: 'npm', lockfile: 'package-lock.json', group: 'node', dirs: ['node_modules', '.npm-cache'], env: { npm_config_cache: './.npm-cache', npm_config_prefer_offline: 'true' } },
+  { manager: 'poetry', lockfile: 'poetry.lock', group: 'python', dirs: ['.venv'], env: { POETRY_VIRTUALENVS_IN_PROJECT: 'true' } },
+  { manager: 'pip', lockfile: 'requirements.txt', group: 'python', dirs: ['.venv', '.pip-cache'], env: { PIP_CACHE_DIR: './.pip-cache' } },
+  { manager: 'cargo', lockfile: 'Cargo.lock', dirs: ['target', '.cargo-home'], env: { CARGO_HOME: './.cargo-home' } },
+  { manager: 'go', lockfile: 'go.sum', dirs: ['.gomodcache'], env: { GOMODCACHE: './.gomodcache' } },
+];
+
+/** Cache entries kept per repo and package manager (least recently used go first). */
+const MAX_ENTRIES = 3;
+
+/** Package managers used by the repo checked out at `workspacePath`. */
+export function detectDependencies(workspacePath: string): DependencySpec[] {
+  const groups = new Set<string>();
+  const found: DependencySpec[] = [];
+  for (const spec of SPECS) {
+    if (spec.group && groups.has(spec.group)) continue;
+    if (!fs.existsSync(path.join(workspacePath, spec.lockfile))) continue;
+    if (spec.group) groups.add(spec.group);
+    found.push(spec);
+  }
+  return found;
+}
+
+/** Env vars that keep the detected tools' caches inside the workspace. */
+export function dependencyEnv(workspacePath: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const spec of detectDependencies(workspacePath)) {
+    for (const [name, value] of Object.entries(spec.env)) {
+      env[name] = value.startsWith('./') ? path.join(workspacePath, value.slice(2)) : value;
+    }
+  }
+  return env;
+}
+
+/** Cache key: the lockfile's content, for this package manager and platform. */
+export function dependencyCacheKey(spec: DependencySpec, workspacePath: string): string {
+  const hash = crypto.createHash('sha256')
+    .update(`${spec.manager}\0${process.platform}-${process.arch}\0`)
+    .update(fs.readFileSync(path.join(workspacePath, spec.lockfile)))
+    .digest('hex');
+  return `${spec.manager}-${hash.slice(0, 16)}`;
+}
+
+/**
+ * Keep the cache directories out of `git add -A`. Worktrees share the
+ * mirror's info/exclude.
+ */
+function excludeFromGit(ws: Workspace, specs: DependencySpec[]): void {
+  const gitDir = ws.gitCommonDir ?? path.join(ws.path, '.git');
+  if (!fs.existsSync(gitDir) || !fs.statSync(gitDir).isDirectory()) return;
+  const excludeFile = path.join(gitDir, 'info', 'exclude');
+  const existing = fs.existsSync(excludeFile) ? fs.readFileSync(excludeFile, 'utf-8') : '';
+  const lines = new Set(existing.split('\n'));
+  const missing = [...new Set(specs.flatMap(s => s.dirs))].map(dir => `/${dir}/`).filter(line => !lines.has(line));
+  if (missing.length === 0) return;
+  fs.mkdirSync(path.dirname(excludeFile), { recursive: true });
+  fs.appendFileSync(excludeFile, `${existing && !existing.endsWith('\n') ? '\n' : ''}${missing.join('\n')}\n`);
+}
+
+/**
+ * Restore cached dependencies into a fresh workspace. Returns the package
+ * managers that had a cache entry for their lockfile.
+ */
+export async function restoreDependencies(ws: Workspace, cacheDir: string): Promise<PackageManager[]> {
+  const specs = detectDependencies(ws.path);
+  if (specs.length === 0) return [];
+  excludeFromGit(ws, specs);
+
+  const restored: PackageManager[] = [];
+  for (const spec of specs) {
+    const entry = path.join(cacheDir, dependencyCacheKey(spec, ws.path));
+    if (!fs.existsSync(entry)) continue;
+    for (const dir of spec.dirs) {
+      const source = path.join(entry, dir);
+      const target = path.join(ws.path, dir);
+      if (fs.existsSync(source) && !fs.existsSync(target)) {
+        await fs.promises.cp(source, target, { recursive: true, verbatimSymlinks: true });
+      }
+    }
+    // Recently used entries survive pruning
+    const now = new Date();
+    await fs.promises.utimes(entry, now, now);
+    restored.push(spec.manager);
+    console.log(`\u{1F4E6} Restored ${spec.manager} dependencies (${spec.dirs.join(', ')}) from cache`);
+  }
+  return restored;
+}
+
+/**
+ * Copy a workspace's installed dependencies into the cache, unless its
+ * lockfile already has an entry. Returns the package managers saved.
+ */
+export async function saveDependencies(ws: Workspace, cacheDir: string): Promise<PackageManager[]> {
+  const saved: PackageManager[] = [];
+  for (const spec of detectDependencies(ws.path)) {
+    const dirs = spec.dirs.filter(dir => fs.existsSync(path.join(ws.path, dir)));
+    if (dirs.length === 0) continue;
+    const key = dependencyCacheKey(spec, ws.path);
+    const entry = path.join(cacheDir, key);
+    if (fs.existsSync(entry)) continue;
+
+    // Copy next to the entry, then rename: a concurrent run either sees the
+    // whole entry or none of it
+    const staging = `${entry}.tmp-${process.pid}-${Date.now()}`;
+    try {
+      for (const dir of dirs) {
+        await fs.promises.cp(path.join(ws.path, dir), path.join(staging, dir), { recursive: true, verbatimSymlinks: true });
+      }
+      await fs.promises.rename(staging, entry);
+      saved.push(spec.manager);
+      console.log(`\u{1F4E6} Cached ${spec.manager} dependencies (${dirs.join(', ')}) as ${key}`);
+    } catch (err) {
+      if (!fs.existsSync(entry)) console.warn(`[deps] Failed to cache ${spec.manager} dependencies:`, err);
+    } finally {
+      await fs.promises.rm(staging, { recursive: true, force: true });
+    }
+    await pruneEntries(cacheDir, spec.manager);
+  }
+  return saved;
+}
+
+async function pruneEntries(cacheDir: string, manager: PackageManager): Promise<void> {
+  const names = (await fs.promises.readdir(cacheDir).catch(() => [] as string[]))
+    .filter(name => name.startsWith(`${manager}-`) && !name.includes('.tmp-'));
+  if (names.length <= MAX_ENTRIES) return;
+  const entries = await Promise.all(names.map(async name => ({ name, mtimeMs: (await fs.promises.stat(path.join(cacheDir, name))).mtimeMs })));
+  entries.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  for (const { name } of entries.slice(MAX_ENTRIES)) {
+    await fs.promises.rm(path.join(cacheDir, name), { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * GitHub App installations.
+ *
+ * One App can be installed on several orgs and users, and the repos in the
+ * repos table may belong to any of them. When GITHUB_APP_INSTALLATION_ID is
+ * unset (or a repo isn't the env-configured one) the installation for
+ * owner/repo is looked up through the App API and cached per process.
+ * Installation tokens from every App client share one cache and are
+ * refreshed shortly before GitHub expires them (after one hour).
+ */
+
+import { createAppAuth } from '@octokit/auth-app';
+import type { Octokit } from 'octokit';
+import { withRetry } from './utils.js';
+
+type OctokitRequest = Octokit['request'];
+
+/** Refresh installation tokens this long before they expire. */
+const TOKEN_EXPIRY_MARGIN_MS = 5 * 60_000;
+
+/**
+ * Installation token cache for @octokit/auth-app's `cache` option. Its
+ * entries are "token|createdAt|expiresAt|..." strings; an entry is dropped
+ * once it gets within TOKEN_EXPIRY_MARGIN_MS of expiresAt.
+ */
+export class InstallationTokenCache {
+  private entries = new Map<string, string>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  get(key: string): string | undefined {
+    const value = this.entries.get(key);
+    if (value === undefined) return undefined;
+    const expiresAt = Date.parse(value.split('|')[2] ?? '');
+    if (!(expiresAt - TOKEN_EXPIRY_MARGIN_MS > this.now())) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return value;
+  }
+
+  set(key: string, value: string): void {
+    this.entries.set(key, value);
+  }
+}
+
+/** Shared by every App client in the process. */
+export const installationTokens = new InstallationTokenCache();
+
+export class GitHubAppNotInstalledError extends Error {
+  constructor(readonly owner: string, readonly repo: string) {
+    super(`The GitHub App is not installed on ${owner}/${repo}`);
+    this.name = 'GitHubAppNotInstalledError';
+  }
+}
+
+/** Installation ids by "<api url> <owner>/<repo>". */
+const repoInstallations = new Map<string, number>();
+
+/**
+ * Installation id of the App on owner/repo. `appRequest` must authenticate
+ * as the App (an App client's `request`, or a request with the App's auth
+ * hook); results are cached per API URL and repo.
+ */
+export async function findRepoInstallation(appRequest: OctokitRequest, owner: string, repo: string): Promise<number> {
+  const key = repoInstallationKey(appRequest, owner, repo);
+  const cached = repoInstallations.get(key);
+  if (cached !== undefined) return cached;
+
+  try {
+    const { data } = await withRetry(() => appRequest('GET /repos/{owner}/{repo}/installation', { owner, repo }));
+    repoInstallations.set(key, data.id);
+    return data.id;
+  } catch (err) {
+    if ((err as { status?: number }).status === 404) throw new GitHubAppNotInstalledError(owner, repo);
+    throw err;
+  }
+}
+
+/**
+ * Record the installation a webhook delivery names for owner/repo, so
+ * lookups use it instead of asking the API (or a stale cached id after
+ * the App was reinstalled).
+ */
+export function rememberRepoInstallation(appRequest: OctokitRequest, owner: string, repo: string, installationId: number): void {
+  repoInstallations.set(repoInstallationKey(appRequest, owner, repo), installationId);
+}
+
+function repoInstallationKey(appRequest: OctokitRequest, owner: string, repo: string): string {
+  return `${appRequest.endpoint.DEFAULTS.baseUrl} ${owner.toLowerCase()}/${repo.toLowerCase()}`;
+}
+
+/** Forget cached installation lookups (tests, or after the App is reinstalled). */
+export function clearRepoInstallations(): void {
+  repoInstallations.clear();
+}
+
+/**
+ * Octokit auth strategy for an App client with no installation id: the
+ * first request looks up the App's installation on owner/repo, and the
+ * client then behaves like one created with that installationId. A failed
+ * lookup is retried on the next request.
+ */
+export function createRepoInstallationAuth(options: {
+  appId: number;
+  privateKey: string;
+  owner: string;
+  repo: string;
+  request: OctokitRequest;
+}) {
+  const { appId, privateKey, owner, repo, request } = options;
+  const appAuth = createAppAuth({ appId, privateKey, request, cache: installationTokens });
+  let installationAuth: Promise<ReturnType<typeof createAppAuth>> | undefined;
+
+  const resolve = () => {
+    installationAuth ??= findRepoInstallation(request.defaults({ request: { hook: appAuth.hook } }), owner, repo)
+      .then(installationId => createAppAuth({ appId, privateKey, request, installationId, cache: installationTokens }))
+      .catch((err) => {
+        installationAuth = undefined;
+        throw err;
+      });
+    return installationAuth;
+  };
+
+  type AppAuth = ReturnType<typeof createAppAuth>;
+  const auth = async (authOptions: { type: string; [option: string]: unknown }) => {
+    if (authOptions.type === 'app') return appAuth({ type: 'app' });
+    return (await resolve())(authOptions as Parameters<AppAuth>[0]);
+  };
+  return Object.assign(auth, {
+    hook: async (...args: Parameters<AppAuth['hook']>) => (await resolve()).hook(...args),
+  });
+}
+
+export interface GitHubAppInstallation {
+  id: number;
+  account: string;
+  accountType: string;
+  repositorySelection: 'all' | 'selected';
+  htmlUrl: string;
+  suspended: boolean;
+}
+
+/** Every installation of the App, through an App-authenticated client. */
+export async function listAppInstallations(appClient: Octokit): Promise<GitHubAppInstallation[]> {
+  const installations = await withRetry(() => appClient.paginate(appClient.rest.apps.listInstallations, { per_page: 100 }));
+  return installations.map(installation => {
+    const account = installation.account as { login?: string; slug?: string; type?: string } | null;
+    return {
+      id: installation.id,
+      account: account?.login ?? account?.slug ?? '',
+      accountType: account?.type ?? 'Enterprise',
+      repositorySelection: installation.repository_selection,
+      htmlUrl: installation.html_url,
+      suspended: !!installation.suspended_at,
+    };
+  });
+}
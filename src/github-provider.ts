@@ -0,0 +1,185 @@
+/**
+ * ScmProvider for GitHub, on Octokit. The agents' GitHub tools stay in
+ * github-tools.ts; this is what provider-neutral code uses.
+ */
+
+import type { Octokit } from 'octokit';
+import { createGitHubClient, DEFAULT_GITHUB_HOST, replyToReviewComment } from './github-tools.js';
+import type { GitHubAppAuth, GitHubServer } from './github-tools.js';
+import { resolveGitToken } from './workspace.js';
+import { withRetry } from './utils.js';
+import type { ScmCheck, ScmComment, ScmIssue, ScmProvider, ScmPullRequest, ScmReviewComment } from './scm-provider.js';
+
+function toIssue(issue: any): ScmIssue {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: issue.body ?? '',
+    state: issue.state === 'closed' ? 'closed' : 'open',
+    labels: (issue.labels ?? []).map((l: any) => typeof l === 'string' ? l : l.name ?? ''),
+    url: issue.html_url,
+    createdAt: issue.created_at,
+    updatedAt: issue.updated_at,
+  };
+}
+
+function toPullRequest(pr: any): ScmPullRequest {
+  return {
+    number: pr.number,
+    title: pr.title,
+    body: pr.body ?? '',
+    state: pr.merged_at ? 'merged' : pr.state === 'closed' ? 'closed' : 'open',
+    headRef: pr.head.ref,
+    headSha: pr.head.sha,
+    baseRef: pr.base.ref,
+    url: pr.html_url,
+    updatedAt: pr.updated_at,
+  };
+}
+
+export class GitHubProvider implements ScmProvider {
+  readonly kind = 'github' as const;
+  readonly host: string;
+  private client?: Octokit;
+
+  constructor(
+    readonly owner: string,
+    readonly repo: string,
+    private auth: string | GitHubAppAuth,
+    private server: GitHubServer = {},
+  ) {
+    this.host = server.host || DEFAULT_GITHUB_HOST;
+  }
+
+  /** Created on first use: loading a provider shouldn't read the App key. */
+  get octokit(): Octokit {
+    this.client ??= createGitHubClient(this.auth, this.server);
+    return this.client;
+  }
+
+  async remoteUrl(): Promise<string> {
+    const token = await resolveGitToken(this.auth, this.server);
+    return `https://x-access-token:${token}@${this.host}/${this.owner}/${this.repo}.git`;
+  }
+
+  async listIssues({ state = 'open', limit = 30, since }: { state?: 'open' | 'closed' | 'all'; limit?: number; since?: string }): Promise<ScmIssue[]> {
+    const { data } = await withRetry(() => this.octokit.rest.issues.listForRepo({
+      owner: this.owner, repo: this.repo, state, per_page: limit, sort: 'updated', direction: 'desc', ...(since ? { since } : {}),
+    }));
+    return data.filter(issue => !issue.pull_request).map(toIssue);
+  }
+
+  async getIssue(number: number): Promise<ScmIssue> {
+    const { data } = await withRetry(() => this.octokit.rest.issues.get({ owner: this.owner, repo: this.repo, issue_number: number }));
+    return toIssue(data);
+  }
+
+  async createIssue({ title, body, labels }: { title: string; body: string; labels?: string[] }): Promise<ScmIssue> {
+    const { data } = await withRetry(() => this.octokit.rest.issues.create({
+      owner: this.owner, repo: this.repo, title, body, ...(labels && labels.length > 0 ? { labels } : {}),
+    }));
+    return toIssue(data);
+  }
+
+  async listIssueComments(number: number): Promise<ScmComment[]> {
+    const { data } = await withRetry(() => this.octokit.rest.issues.listComments({ owner: this.owner, repo: this.repo, issue_number: number, per_page: 100 }));
+    return data.map(c => ({ id: c.id, body: c.body ?? '', url: c.html_url, createdAt: c.created_at }));
+  }
+
+  async commentOnIssue(number: number, body: string): Promise<ScmComment> {
+    const { data } = await withRetry(() => this.octokit.rest.issues.createComment({ owner: this.owner, repo: this.repo, issue_number: number, body }));
+    return { id: data.id, body: data.body ?? '', url: data.html_url, createdAt: data.created_at };
+  }
+
+  async getBranchSha(branch: string): Promise<string | undefined> {
+    try {
+      const { data } = await withRetry(() => this.octokit.rest.git.getRef({ owner: this.owner, repo: this.repo, ref: `heads/${branch}` }));
+      return data.object.sha;
+    } catch (err) {
+      if ((err as { status?: number }).status === 404) return undefined;
+      throw err;
+    }
+  }
+
+  async createBranch(branch: string, fromBranch: string): Promise<string> {
+    const sha = await this.getBranchSha(fromBranch);
+    if (!sha) throw new Error(`Branch '${fromBranch}' not found`);
+    await withRetry(() => this.octokit.rest.git.createRef({ owner: this.owner, repo: this.repo, ref: `refs/heads/${branch}`, sha }));
+    return sha;
+  }
+
+  async readFile(filePath: string, ref?: string): Promise<string | undefined> {
+    try {
+      const { data } = await withRetry(() => this.octokit.rest.repos.getContent({ owner: this.owner, repo: this.repo, path: filePath, ...(ref ? { ref } : {}) }));
+      if (Array.isArray(data) || data.type !== 'file') return undefined;
+      return Buffer.from(data.content, 'base64').toString('utf-8');
+    } catch (err) {
+      if ((err as { status?: number }).status === 404) return undefined;
+      throw err;
+    }
+  }
+
+  async listPullRequests({ state = 'open', head }: { state?: 'open' | 'all'; head?: string }): Promise<ScmPullRequest[]> {
+    const { data } = await withRetry(() => this.octokit.rest.pulls.list({
+      owner: this.owner, repo: this.repo, state, per_page: 30, sort: 'created', direction: 'desc', ...(head ? { head: `${this.owner}:${head}` } : {}),
+    }));
+    return data.map(toPullRequest);
+  }
+
+  async getPullRequest(number: number): Promise<ScmPullRequest> {
+    const { data } = await withRetry(() => this.octokit.rest.pulls.get({ owner: this.owner, repo: this.repo, pull_number: number }));
+    return toPullRequest(data);
+  }
+
+  async createPullRequest({ title, body, head, base }: { title: string; body: string; head: string; base: string }): Promise<ScmPullRequest> {
+    const { data } = await withRetry(() => this.octokit.rest.pulls.create({ owner: this.owner, repo: this.repo, title, body, head, base }));
+    return toPullRequest(data);
+  }
+
+  async getPullRequestDiff(number: number): Promise<string> {
+    const { data } = await withRetry(() => this.octokit.rest.pulls.get({
+      owner: this.owner, repo: this.repo, pull_number: number, mediaType: { format: 'diff' },
+    }));
+    return data as unknown as string;
+  }
+
+  async listReviewBodies(number: number): Promise<string[]> {
+    const { data } = await withRetry(() => this.octokit.rest.pulls.listReviews({ owner: this.owner, repo: this.repo, pull_number: number, per_page: 100 }));
+    return data.map(r => r.body ?? '');
+  }
+
+  async submitReview(number: number, { body, comments }: { body: string; comments?: ScmReviewComment[] }): Promise<{ id: number; url?: string }> {
+    const { data } = await withRetry(() => this.octokit.rest.pulls.createReview({
+      owner: this.owner, repo: this.repo, pull_number: number, body, event: 'COMMENT',
+      ...(comments && comments.length > 0 ? { comments } : {}),
+    }));
+    return { id: data.id, url: data.html_url };
+  }
+
+  async replyToReviewComment(number: number, commentId: number, body: string, resolve: boolean): Promise<{ id?: number; resolved: boolean }> {
+    const { id, resolved } = await replyToReviewComment(this.octokit, this.owner, this.repo, { pull_number: number, comment_id: commentId, body, resolve });
+    return { id, resolved };
+  }
+
+  async listChecks(ref: string): Promise<ScmCheck[]> {
+    const { data } = await withRetry(() => this.octokit.rest.checks.listForRef({ owner: this.owner, repo: this.repo, ref, filter: 'latest', per_page: 100 }));
+    return data.check_runs.map(cr => ({
+      id: cr.id,
+      name: cr.name,
+      status: cr.status === 'completed' ? 'completed' : cr.status === 'queued' ? 'queued' : 'in_progress',
+      conclusion: cr.conclusion,
+      url: cr.html_url ?? undefined,
+      summary: [cr.output?.summary, cr.output?.text].filter(Boolean).join('\n') || undefined,
+    }));
+  }
+
+  async getCheckLog(check: ScmCheck): Promise<string | undefined> {
+    try {
+      const { data } = await withRetry(() => this.octokit.rest.actions.downloadJobLogsForWorkflowRun({ owner: this.owner, repo: this.repo, job_id: check.id }));
+      return String(data);
+    } catch {
+      // Not an Actions job, or its log expired
+      return undefined;
+    }
+  }
+}
@@ -1,22 +1,25 @@
 import { Octokit } from 'octokit';
 import { createAppAuth } from '@octokit/auth-app';
 import fs from 'fs';
+import tls from 'tls';
 import { tool } from 'langchain';
 import { z } from 'zod';
 import { withRetry } from './utils.js';
+import { fetchCiFailures } from './ci-logs.js';
+import { createRepoInstallationAuth, installationTokens } from './github-app.js';
 
 // ── Output caps ──────────────────────────────────────────────────────────────
 
-const MAX_ISSUE_BODY_CHARS = 2_000;
-const MAX_CI_SUMMARY_CHARS = 1_000;
+export const MAX_ISSUE_BODY_CHARS = 2_000;
+export const MAX_CI_SUMMARY_CHARS = 1_000;
 
-function truncateBody(body: string | null, maxChars: number): string {
+export function truncateBody(body: string | null, maxChars: number): string {
   if (!body) return '(no description)';
   if (body.length <= maxChars) return body;
   return body.slice(0, maxChars) + `\n[... body truncated at ${maxChars} chars (original: ${body.length} chars)]`;
 }
 
-function truncateSummary(summary: string | undefined | null, maxChars: number): string | null {
+export function truncateSummary(summary: string | undefined | null, maxChars: number): string | null {
   if (!summary) return null;
   if (summary.length <= maxChars) return summary;
   return summary.slice(0, maxChars) + `\n[... summary truncated at ${maxChars} chars (original: ${summary.length} chars)]`;
@@ -84,14 +87,19 @@ export function wrapWithCircuitBreaker<T extends ReturnType<typeof tool>>(
 export interface GitHubAppAuth {
   appId: number;
   privateKeyPath: string;
-  installationId: number;
+  /** When unset, the App's installation on owner/repo is looked up (see github-app.ts) */
+  installationId?: number;
+  owner?: string;
+  repo?: string;
 }
 
 /**
  * Extract the auth parameter from a config's github section.
  * Returns a PAT string or GitHubAppAuth object, depending on what's configured.
+ * App auth without an installation id (looked up per repo) is only used
+ * when there is no PAT.
  */
-export function getAuthFromConfig(githubConfig: { token?: string; appId?: number; privateKeyPath?: string; installationId?: number }): string | GitHubAppAuth {
+export function getAuthFromConfig(githubConfig: { owner?: string; repo?: string; token?: string; appId?: number; privateKeyPath?: string; installationId?: number }): string | GitHubAppAuth {
   if (githubConfig.appId && githubConfig.privateKeyPath && githubConfig.installationId) {
     return {
       appId: githubConfig.appId,
@@ -99,27 +107,112 @@ export function getAuthFromConfig(githubConfig: { token?: string; appId?: number
       installationId: githubConfig.installationId,
     };
   }
+  if (githubConfig.appId && githubConfig.privateKeyPath && !githubConfig.token) {
+    return {
+      appId: githubConfig.appId,
+      privateKeyPath: githubConfig.privateKeyPath,
+      owner: githubConfig.owner,
+      repo: githubConfig.repo,
+    };
+  }
   return githubConfig.token!;
 }
 
+/**
+ * Where a repo's GitHub lives: github.com or a GitHub Enterprise Server
+ * instance. Config's github section and repo records both fit this shape.
+ * - `host` is the web and git host (default github.com)
+ * - `apiUrl` defaults to https://api.github.com, or https://<host>/api/v3 on GHES
+ * - `caBundlePath` is a PEM file of extra CAs for hosts behind an internal CA
+ */
+export interface GitHubServer {
+  host?: string;
+  apiUrl?: string;
+  caBundlePath?: string;
+}
+
+export const DEFAULT_GITHUB_HOST = 'github.com';
+const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+export function githubApiUrl(server?: GitHubServer): string {
+  if (server?.apiUrl) return server.apiUrl.replace(/\/+$/, '');
+  const host = server?.host || DEFAULT_GITHUB_HOST;
+  return host === DEFAULT_GITHUB_HOST ? DEFAULT_GITHUB_API_URL : `https://${host}/api/v3`;
+}
+
+export function githubWebUrl(server?: GitHubServer): string {
+  return `https://${server?.host || DEFAULT_GITHUB_HOST}`;
+}
+
+/** Web URL of the host an Octokit client talks to (for links the API doesn't return). */
+function webUrlOf(octokit: Octokit): string {
+  const apiUrl: string | undefined = octokit.request?.endpoint?.DEFAULTS?.baseUrl;
+  if (!apiUrl || apiUrl === DEFAULT_GITHUB_API_URL) return githubWebUrl();
+  return apiUrl.replace(/\/api\/v3\/?$/, '');
+}
+
+const trustedCaBundles = new Set<string>();
+
+/**
+ * Add the certificates in a PEM bundle to the CAs this process trusts.
+ * fetch (and so Octokit) has no per-request CA option, so this extends the
+ * TLS defaults once per bundle.
+ */
+export function trustCaBundle(caBundlePath: string): void {
+  if (trustedCaBundles.has(caBundlePath)) return;
+  const certs = fs.readFileSync(caBundlePath, 'utf-8').match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g);
+  if (!certs) throw new Error(`No certificates found in CA bundle ${caBundlePath}`);
+  tls.setDefaultCACertificates([...tls.getCACertificates('default'), ...certs]);
+  trustedCaBundles.add(caBundlePath);
+}
+
 /**
  * Create GitHub API client.
- * Accepts either a PAT string or GitHub App auth config.
+ * Accepts either a PAT string or GitHub App auth config, and the server to
+ * talk to (github.com when omitted).
  * When App auth is provided, uses @octokit/auth-app to generate installation tokens.
  */
-export function createGitHubClient(auth: string | GitHubAppAuth) {
+export function createGitHubClient(auth: string | GitHubAppAuth, server?: GitHubServer) {
+  if (server?.caBundlePath) trustCaBundle(server.caBundlePath);
+  const baseUrl = githubApiUrl(server);
   if (typeof auth === 'string') {
-    return new Octokit({ auth });
+    return new Octokit({ auth, baseUrl });
   }
 
+  // Installation tokens are requested through the client's own request, so from baseUrl too
   const privateKey = fs.readFileSync(auth.privateKeyPath, 'utf-8');
+  if (auth.installationId) {
+    return new Octokit({
+      baseUrl,
+      authStrategy: createAppAuth,
+      auth: {
+        appId: auth.appId,
+        privateKey,
+        installationId: auth.installationId,
+        cache: installationTokens,
+      },
+    });
+  }
+  if (!auth.owner || !auth.repo) {
+    throw new Error('GitHub App auth without an installation id needs the owner/repo to look it up');
+  }
+  return new Octokit({
+    baseUrl,
+    authStrategy: createRepoInstallationAuth,
+    auth: { appId: auth.appId, privateKey, owner: auth.owner, repo: auth.repo },
+  });
+}
+
+/**
+ * Client authenticated as the App itself (JWT), for the App API: listing
+ * installations and finding a repo's installation.
+ */
+export function createGitHubAppClient(auth: Pick<GitHubAppAuth, 'appId' | 'privateKeyPath'>, server?: GitHubServer) {
+  if (server?.caBundlePath) trustCaBundle(server.caBundlePath);
   return new Octokit({
+    baseUrl: githubApiUrl(server),
     authStrategy: createAppAuth,
-    auth: {
-      appId: auth.appId,
-      privateKey,
-      installationId: auth.installationId,
-    },
+    auth: { appId: auth.appId, privateKey: fs.readFileSync(auth.privateKeyPath, 'utf-8') },
   });
 }
 
@@ -160,7 +253,7 @@ export function createGitHubIssuesTool(owner: string, repo: string, octokit: Oct
   );
 }
 
-const BOT_COMMENT_MARKER = '<!-- deep-agent-analysis -->';
+export const BOT_COMMENT_MARKER = '<!-- deep-agent-analysis -->';
 
 export function createCommentOnIssueTool(owner: string, repo: string, octokit: Octokit) {
   return tool(
@@ -203,7 +296,7 @@ export function createBranchTool(owner: string, repo: string, octokit: Octokit)
         try {
           await withRetry(() => octokit.rest.git.getRef({ owner, repo, ref: `heads/${branch_name}` }));
           console.log(`\u{26A0}\uFE0F  Skipping branch creation -- '${branch_name}' already exists.`);
-          return JSON.stringify({ skipped: true, reason: `Branch '${branch_name}' already exists.`, branch: branch_name, url: `https://github.com/${owner}/${repo}/tree/${branch_name}` });
+          return JSON.stringify({ skipped: true, reason: `Branch '${branch_name}' already exists.`, branch: branch_name, url: `${webUrlOf(octokit)}/${owner}/${repo}/tree/${branch_name}` });
         } catch (e: unknown) {
           const status = (e as { status?: number }).status;
           if (status !== 404) throw e;
@@ -211,7 +304,7 @@ export function createBranchTool(owner: string, repo: string, octokit: Octokit)
         const { data: ref } = await withRetry(() => octokit.rest.git.getRef({ owner, repo, ref: `heads/${from_branch}` }));
         const sha = ref.object.sha;
         await withRetry(() => octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${branch_name}`, sha }));
-        return JSON.stringify({ branch: branch_name, sha, url: `https://github.com/${owner}/${repo}/tree/${branch_name}` });
+        return JSON.stringify({ branch: branch_name, sha, url: `${webUrlOf(octokit)}/${owner}/${repo}/tree/${branch_name}` });
       } catch (error) {
         return `Error creating branch '${branch_name}': ${error}`;
       }
@@ -638,6 +731,28 @@ export function createCheckCiStatusTool(owner: string, repo: string, octokit: Oc
   );
 }
 
+export function createGetCiFailureLogsTool(owner: string, repo: string, octokit: Octokit) {
+  return tool(
+    async ({ pull_number }: { pull_number: number }) => {
+      try {
+        console.log(`📜 Fetching failed CI logs for PR #${pull_number} in ${owner}/${repo}...`);
+        const { data: pr } = await withRetry(() => octokit.rest.pulls.get({ owner, repo, pull_number }));
+        const failures = await fetchCiFailures(octokit, owner, repo, pr.head.sha);
+        return JSON.stringify({ head_sha: pr.head.sha, failed: failures.length, failures });
+      } catch (error) {
+        return `Error fetching CI logs for PR #${pull_number}: ${error}`;
+      }
+    },
+    {
+      name: 'get_ci_failure_logs',
+      description: 'Download the logs of failed CI jobs for a pull request\'s head commit and extract the failing part: the failed step, failing test names and the first lines of the error (test failures, compiler errors). Use after check_ci_status reports a failure.',
+      schema: z.object({
+        pull_number: z.number().describe('The pull request number whose failed CI jobs to inspect'),
+      }),
+    }
+  );
+}
+
 // ── Dry-run wrappers ────────────────────────────────────────────────────────
 
 export function createDryRunCommentTool() {
@@ -698,6 +813,22 @@ export function createDryRunCheckCiStatusTool() {
   );
 }
 
+export function createDryRunGetCiFailureLogsTool() {
+  return tool(
+    async ({ pull_number }: { pull_number: number }) => {
+      console.log(`DRY RUN -- would fetch failed CI logs for PR #${pull_number}`);
+      return JSON.stringify({ dry_run: true, failed: 0, failures: [] });
+    },
+    {
+      name: 'get_ci_failure_logs',
+      description: 'Download the logs of failed CI jobs for a pull request. (DRY RUN MODE: will log but not execute)',
+      schema: z.object({
+        pull_number: z.number().describe('The pull request number whose failed CI jobs to inspect'),
+      }),
+    }
+  );
+}
+
 export function createDryRunCreateSubIssueTool() {
   return tool(
     async ({ parent_issue_number, title, body, labels }: {
@@ -722,10 +853,30 @@ export function createDryRunCreateSubIssueTool() {
   );
 }
 
+export function createDryRunReplyToReviewCommentTool() {
+  return tool(
+    async ({ pull_number, comment_id, body }: { pull_number: number; comment_id: number; body: string; resolve?: boolean }) => {
+      const preview = body.length > 80 ? body.slice(0, 80) + '...' : body;
+      console.log(`DRY RUN -- would reply to review comment ${comment_id} on PR #${pull_number}: ${preview}`);
+      return JSON.stringify({ dry_run: true, id: 0, comment_id, resolved: false });
+    },
+    {
+      name: 'reply_to_review_comment',
+      description: 'Reply in a PR review thread and resolve it. (DRY RUN MODE: will log but not execute)',
+      schema: z.object({
+        pull_number: z.number().describe('The pull request number'),
+        comment_id: z.number().describe('ID of the review comment that starts the thread'),
+        body: z.string().describe('What you changed in response (Markdown supported)'),
+        resolve: z.boolean().optional().default(true).describe('Resolve the thread after replying (default: true)'),
+      }),
+    }
+  );
+}
+
 // ── PR review tools ──────────────────────────────────────────────────────────
 
 export const BOT_REVIEW_MARKER = '<!-- deep-agent-review -->';
-const REVIEW_FOOTER = '\n\n> This is an automated review by deep-agents. A human should verify before merging.';
+export const REVIEW_FOOTER = '\n\n> This is an automated review by deep-agents. A human should verify before merging.';
 
 /**
  * Tool: Fetch a PR diff as a unified diff string.
@@ -842,3 +993,92 @@ export function createSubmitPrReviewTool(
     }
   );
 }
+
+// ── Review thread replies ────────────────────────────────────────────────────
+
+export const BOT_THREAD_REPLY_MARKER = '<!-- deep-agent-thread-reply -->';
+
+const REVIEW_THREADS_QUERY = `query($owner: String!, $repo: String!, $number: Int!) {
+  repository(owner: $owner, name: $repo) {
+    pullRequest(number: $number) {
+      reviewThreads(first: 100) {
+        nodes { id isResolved comments(first: 1) { nodes { databaseId } } }
+      }
+    }
+  }
+}`;
+
+const RESOLVE_THREAD_MUTATION = `mutation($threadId: ID!) {
+  resolveReviewThread(input: { threadId: $threadId }) { thread { isResolved } }
+}`;
+
+/**
+ * Resolve the review thread started by a comment. REST has no thread API,
+ * so the thread is looked up and resolved through GraphQL. Returns false
+ * when no thread starts with that comment.
+ */
+export async function resolveReviewThread(octokit: Octokit, owner: string, repo: string, pullNumber: number, commentId: number): Promise<boolean> {
+  const data = await octokit.graphql<any>(REVIEW_THREADS_QUERY, { owner, repo, number: pullNumber });
+  const threads: Array<{ id: string; isResolved: boolean; comments: { nodes: Array<{ databaseId: number }> } }> =
+    data?.repository?.pullRequest?.reviewThreads?.nodes ?? [];
+  const thread = threads.find(t => t.comments.nodes[0]?.databaseId === commentId);
+  if (!thread) return false;
+  if (!thread.isResolved) {
+    await octokit.graphql(RESOLVE_THREAD_MUTATION, { threadId: thread.id });
+  }
+  return true;
+}
+
+/**
+ * Reply in a PR review thread and optionally resolve it. Idempotent: a
+ * thread that already has a bot reply is not replied to again.
+ */
+export async function replyToReviewComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  args: { pull_number: number; comment_id: number; body: string; resolve?: boolean },
+): Promise<{ id?: number; skipped?: boolean; resolved: boolean }> {
+  const { pull_number, comment_id } = args;
+  const existing = await withRetry(() => octokit.paginate(octokit.rest.pulls.listReviewComments, {
+    owner, repo, pull_number, per_page: 100,
+  }));
+  const alreadyReplied = existing.some(c => c.in_reply_to_id === comment_id && c.body?.includes(BOT_THREAD_REPLY_MARKER));
+
+  let id: number | undefined;
+  if (!alreadyReplied) {
+    const { data: reply } = await withRetry(() => octokit.rest.pulls.createReplyForReviewComment({
+      owner, repo, pull_number, comment_id, body: `${BOT_THREAD_REPLY_MARKER}\n${args.body}`,
+    }));
+    id = reply.id;
+  }
+  const resolved = args.resolve === false ? false : await resolveReviewThread(octokit, owner, repo, pull_number, comment_id);
+  return { ...(id !== undefined ? { id } : { skipped: true }), resolved };
+}
+
+/**
+ * Tool: Reply in a human's PR review thread with what was changed, then
+ * resolve the thread. Meant to be called after the fix has been pushed.
+ */
+export function createReplyToReviewCommentTool(owner: string, repo: string, octokit: Octokit) {
+  return tool(
+    async (args: { pull_number: number; comment_id: number; body: string; resolve?: boolean }) => {
+      try {
+        console.log(`\u{1F4AC} Replying to review comment ${args.comment_id} on PR #${args.pull_number} in ${owner}/${repo}...`);
+        return JSON.stringify({ comment_id: args.comment_id, ...await replyToReviewComment(octokit, owner, repo, args) });
+      } catch (error) {
+        return `Error replying to review comment ${args.comment_id} on PR #${args.pull_number}: ${error}`;
+      }
+    },
+    {
+      name: 'reply_to_review_comment',
+      description: 'Reply in a PR review thread (started by a human review comment) with what you changed, and resolve the thread. Call this only after the fix is pushed. Skips the reply if the bot already replied in that thread (idempotent).',
+      schema: z.object({
+        pull_number: z.number().describe('The pull request number'),
+        comment_id: z.number().describe('ID of the review comment that starts the thread'),
+        body: z.string().describe('What you changed in response (Markdown supported)'),
+        resolve: z.boolean().optional().default(true).describe('Resolve the thread after replying (default: true)'),
+      }),
+    }
+  );
+}
@@ -0,0 +1,350 @@
+/**
+ * ScmProvider for GitLab (gitlab.com or self-hosted), on the REST v4 API.
+ *
+ * Merge requests stand in for pull requests and their iids for PR numbers;
+ * pipeline jobs for check runs. Projects are addressed by their full path,
+ * so `owner` may be a nested group ("platform/backend").
+ *
+ * Also turns GitLab webhooks into the listener's WebhookEvent shape (see
+ * toWebhookEvent): issue events are handled like GitHub's `issues` events.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { BOT_THREAD_REPLY_MARKER } from './github-tools.js';
+import { withRetry } from './utils.js';
+import type { WebhookEvent } from './listener.js';
+import type { ScmCheck, ScmComment, ScmIssue, ScmProvider, ScmPullRequest, ScmReviewComment } from './scm-provider.js';
+
+/**
+ * A non-2xx answer from the GitLab API. `status` and `response.headers`
+ * let withRetry retry 5xx/429 like Octokit errors.
+ */
+export class GitLabApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly response: { headers: Record<string, string> } = { headers: {} },
+  ) {
+    super(message);
+    this.name = 'GitLabApiError';
+  }
+}
+
+export interface GitLabProviderOptions {
+  host: string;
+  token: string;
+  /** API root; defaults to https://<host>/api/v4 */
+  apiUrl?: string;
+}
+
+type Query = Record<string, string | number | boolean | undefined>;
+
+/** GitLab job status → GitHub check-run status and conclusion. */
+const JOB_STATES: Record<string, Pick<ScmCheck, 'status' | 'conclusion'>> = {
+  created: { status: 'queued', conclusion: null },
+  pending: { status: 'queued', conclusion: null },
+  waiting_for_resource: { status: 'queued', conclusion: null },
+  preparing: { status: 'queued', conclusion: null },
+  scheduled: { status: 'queued', conclusion: null },
+  manual: { status: 'completed', conclusion: 'skipped' },
+  running: { status: 'in_progress', conclusion: null },
+  success: { status: 'completed', conclusion: 'success' },
+  failed: { status: 'completed', conclusion: 'failure' },
+  canceled: { status: 'completed', conclusion: 'cancelled' },
+  skipped: { status: 'completed', conclusion: 'skipped' },
+};
+
+function toIssue(issue: any): ScmIssue {
+  return {
+    number: issue.iid,
+    title: issue.title,
+    body: issue.description ?? '',
+    state: issue.state === 'closed' ? 'closed' : 'open',
+    labels: issue.labels ?? [],
+    url: issue.web_url,
+    createdAt: issue.created_at,
+    updatedAt: issue.updated_at,
+  };
+}
+
+function toPullRequest(mr: any): ScmPullRequest {
+  return {
+    number: mr.iid,
+    title: mr.title,
+    body: mr.description ?? '',
+    state: mr.state === 'merged' ? 'merged' : mr.state === 'opened' ? 'open' : 'closed',
+    headRef: mr.source_branch,
+    headSha: mr.sha,
+    baseRef: mr.target_branch,
+    url: mr.web_url,
+    updatedAt: mr.updated_at,
+  };
+}
+
+export class GitLabProvider implements ScmProvider {
+  readonly kind = 'gitlab' as const;
+  readonly host: string;
+  private token: string;
+  private apiUrl: string;
+  private project: string;
+  private defaultBranch?: string;
+
+  constructor(readonly owner: string, readonly repo: string, options: GitLabProviderOptions) {
+    this.host = options.host;
+    this.token = options.token;
+    this.apiUrl = (options.apiUrl ?? `https://${options.host}/api/v4`).replace(/\/$/, '');
+    this.project = encodeURIComponent(`${owner}/${repo}`);
+  }
+
+  async remoteUrl(): Promise<string> {
+    return `https://oauth2:${this.token}@${this.host}/${this.owner}/${this.repo}.git`;
+  }
+
+  // ── HTTP ──────────────────────────────────────────────────────────────────
+
+  private async request<T>(method: string, path: string, options: { query?: Query; body?: unknown; text?: boolean } = {}): Promise<T> {
+    const url = new URL(`${this.apiUrl}/projects/${this.project}${path}`);
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+    return withRetry(async () => {
+      const res = await fetch(url, {
+        method,
+        headers: {
+          'PRIVATE-TOKEN': this.token,
+          ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        },
+        ...(options.body !== undefined ? { body: JSON.stringify(options.body) } : {}),
+      });
+      if (!res.ok) {
+        const detail = await res.text().catch(() => '');
+        throw new GitLabApiError(res.status, `GitLab ${method} ${path} failed (${res.status}): ${detail.slice(0, 200)}`, {
+          headers: Object.fromEntries(res.headers.entries()),
+        });
+      }
+      return (options.text ? await res.text() : await res.json()) as T;
+    });
+  }
+
+  private async getDefaultBranch(): Promise<string> {
+    if (!this.defaultBranch) {
+      const project = await this.request<{ default_branch: string }>('GET', '');
+      this.defaultBranch = project.default_branch;
+    }
+    return this.defaultBranch;
+  }
+
+  private async notFoundAsUndefined<T>(fn: () => Promise<T>): Promise<T | undefined> {
+    try {
+      return await fn();
+    } catch (err) {
+      if (err instanceof GitLabApiError && err.status === 404) return undefined;
+      throw err;
+    }
+  }
+
+  // ── Issues ────────────────────────────────────────────────────────────────
+
+  async listIssues({ state = 'open', limit = 30, since }: { state?: 'open' | 'closed' | 'all'; limit?: number; since?: string }): Promise<ScmIssue[]> {
+    const issues = await this.request<any[]>('GET', '/issues', {
+      query: { state: state === 'open' ? 'opened' : state, per_page: limit, order_by: 'updated_at', sort: 'desc', updated_after: since },
+    });
+    return issues.map(toIssue);
+  }
+
+  async getIssue(number: number): Promise<ScmIssue> {
+    return toIssue(await this.request('GET', `/issues/${number}`));
+  }
+
+  async createIssue({ title, body, labels }: { title: string; body: string; labels?: string[] }): Promise<ScmIssue> {
+    return toIssue(await this.request('POST', '/issues', {
+      body: { title, description: body, ...(labels && labels.length > 0 ? { labels: labels.join(',') } : {}) },
+    }));
+  }
+
+  async listIssueComments(number: number): Promise<ScmComment[]> {
+    const notes = await this.request<any[]>('GET', `/issues/${number}/notes`, { query: { per_page: 100, sort: 'asc' } });
+    return notes.filter(n => !n.system).map(n => ({ id: n.id, body: n.body ?? '', createdAt: n.created_at }));
+  }
+
+  async commentOnIssue(number: number, body: string): Promise<ScmComment> {
+    const note = await this.request<any>('POST', `/issues/${number}/notes`, { body: { body } });
+    return { id: note.id, body: note.body ?? '', createdAt: note.created_at };
+  }
+
+  // ── Branches and files ────────────────────────────────────────────────────
+
+  async getBranchSha(branch: string): Promise<string | undefined> {
+    const found = await this.notFoundAsUndefined(() => this.request<any>('GET', `/repository/branches/${encodeURIComponent(branch)}`));
+    return found?.commit?.id;
+  }
+
+  async createBranch(branch: string, fromBranch: string): Promise<string> {
+    const created = await this.request<any>('POST', '/repository/branches', { query: { branch, ref: fromBranch } });
+    return created.commit.id;
+  }
+
+  async readFile(filePath: string, ref?: string): Promise<string | undefined> {
+    const at = ref ?? await this.getDefaultBranch();
+    return this.notFoundAsUndefined(() => this.request<string>('GET', `/repository/files/${encodeURIComponent(filePath)}/raw`, { query: { ref: at }, text: true }));
+  }
+
+  // ── Merge requests ────────────────────────────────────────────────────────
+
+  async listPullRequests({ state = 'open', head }: { state?: 'open' | 'all'; head?: string }): Promise<ScmPullRequest[]> {
+    const mrs = await this.request<any[]>('GET', '/merge_requests', {
+      query: { state: state === 'open' ? 'opened' : 'all', source_branch: head, order_by: 'created_at', sort: 'desc', per_page: 30 },
+    });
+    return mrs.map(toPullRequest);
+  }
+
+  async getPullRequest(number: number): Promise<ScmPullRequest> {
+    return toPullRequest(await this.request('GET', `/merge_requests/${number}`));
+  }
+
+  async createPullRequest({ title, body, head, base }: { title: string; body: string; head: string; base: string }): Promise<ScmPullRequest> {
+    return toPullRequest(await this.request('POST', '/merge_requests', {
+      body: { title, description: body, source_branch: head, target_branch: base, remove_source_branch: true },
+    }));
+  }
+
+  async getPullRequestDiff(number: number): Promise<string> {
+    const files = await this.request<any[]>('GET', `/merge_requests/${number}/diffs`, { query: { per_page: 100 } });
+    return files.map(f => {
+      const from = f.new_file ? '/dev/null' : `a/${f.old_path}`;
+      const to = f.deleted_file ? '/dev/null' : `b/${f.new_path}`;
+      return `diff --git a/${f.old_path} b/${f.new_path}\n--- ${from}\n+++ ${to}\n${f.diff}`;
+    }).join('');
+  }
+
+  async listReviewBodies(number: number): Promise<string[]> {
+    const notes = await this.request<any[]>('GET', `/merge_requests/${number}/notes`, { query: { per_page: 100 } });
+    return notes.filter(n => !n.system).map(n => n.body ?? '');
+  }
+
+  /**
+   * GitLab has no review object: the summary is a note and each inline
+   * comment starts a diff discussion on the MR's latest version.
+   */
+  async submitReview(number: number, { body, comments }: { body: string; comments?: ScmReviewComment[] }): Promise<{ id: number; url?: string }> {
+    const mr = await this.request<any>('GET', `/merge_requests/${number}`);
+    for (const comment of comments ?? []) {
+      await this.request('POST', `/merge_requests/${number}/discussions`, {
+        body: {
+          body: comment.body,
+          position: {
+            position_type: 'text',
+            base_sha: mr.diff_refs.base_sha,
+            start_sha: mr.diff_refs.start_sha,
+            head_sha: mr.diff_refs.head_sha,
+            old_path: comment.path,
+            new_path: comment.path,
+            new_line: comment.line,
+          },
+        },
+      });
+    }
+    const note = await this.request<any>('POST', `/merge_requests/${number}/notes`, { body: { body } });
+    return { id: note.id, url: `${mr.web_url}#note_${note.id}` };
+  }
+
+  async replyToReviewComment(number: number, commentId: number, body: string, resolve: boolean): Promise<{ id?: number; resolved: boolean }> {
+    const discussions = await this.request<any[]>('GET', `/merge_requests/${number}/discussions`, { query: { per_page: 100 } });
+    const discussion = discussions.find(d => d.notes?.[0]?.id === commentId);
+    if (!discussion) throw new Error(`No discussion starts with note ${commentId} on MR !${number}`);
+
+    const alreadyReplied = discussion.notes.slice(1).some((n: any) => (n.body ?? '').includes(BOT_THREAD_REPLY_MARKER));
+    let id: number | undefined;
+    if (!alreadyReplied) {
+      const note = await this.request<any>('POST', `/merge_requests/${number}/discussions/${discussion.id}/notes`, {
+        body: { body: `${BOT_THREAD_REPLY_MARKER}\n${body}` },
+      });
+      id = note.id;
+    }
+    if (resolve && discussion.resolvable && !discussion.notes[0].resolved) {
+      await this.request('PUT', `/merge_requests/${number}/discussions/${discussion.id}`, { query: { resolved: true } });
+    }
+    return { id, resolved: resolve && !!discussion.resolvable };
+  }
+
+  // ── CI ────────────────────────────────────────────────────────────────────
+
+  /** Jobs of the latest pipeline for a commit sha. */
+  async listChecks(ref: string): Promise<ScmCheck[]> {
+    const [pipeline] = await this.request<any[]>('GET', '/pipelines', { query: { sha: ref, order_by: 'id', sort: 'desc', per_page: 1 } });
+    if (!pipeline) return [];
+    const jobs = await this.request<any[]>('GET', `/pipelines/${pipeline.id}/jobs`, { query: { per_page: 100 } });
+    return jobs.map(job => {
+      const state: Pick<ScmCheck, 'status' | 'conclusion'> = JOB_STATES[job.status] ?? { status: 'completed', conclusion: 'neutral' };
+      return {
+        id: job.id,
+        name: job.stage ? `${job.stage}: ${job.name}` : job.name,
+        status: state.status,
+        // Allowed failures don't fail the pipeline
+        conclusion: state.conclusion === 'failure' && job.allow_failure ? 'neutral' : state.conclusion,
+        url: job.web_url,
+        summary: job.failure_reason ? `Failure reason: ${job.failure_reason}` : undefined,
+      };
+    });
+  }
+
+  async getCheckLog(check: ScmCheck): Promise<string | undefined> {
+    return this.notFoundAsUndefined(() => this.request<string>('GET', `/jobs/${check.id}/trace`, { text: true }));
+  }
+}
+
+// ── Webhooks ─────────────────────────────────────────────────────────────────
+
+/** GitLab sends the webhook's secret token as-is in X-Gitlab-Token. */
+export function verifyGitLabToken(secret: string, tokenHeader: string | undefined): boolean {
+  if (!tokenHeader || tokenHeader.length !== secret.length) return false;
+  return timingSafeEqual(Buffer.from(tokenHeader, 'utf-8'), Buffer.from(secret, 'utf-8'));
+}
+
+const ISSUE_ACTIONS: Record<string, string> = { open: 'opened', close: 'closed', reopen: 'reopened', update: 'edited' };
+
+/**
+ * Map a GitLab webhook onto the GitHub-shaped event the handlers expect.
+ * Issue hooks become `issues` events (an update that adds labels becomes
+ * one `labeled` event for the first new label); other hooks keep a
+ * `gitlab:<kind>` event name, which the dispatcher ignores.
+ */
+export function toWebhookEvent(payload: Record<string, any>, deliveryId: string): WebhookEvent {
+  const kind = String(payload.object_kind ?? 'unknown');
+  if (kind !== 'issue') {
+    return { event: `gitlab:${kind}`, deliveryId, payload };
+  }
+
+  const attrs = payload.object_attributes ?? {};
+  const labels: Array<{ title: string }> = payload.labels ?? [];
+  let action = ISSUE_ACTIONS[attrs.action] ?? String(attrs.action ?? '');
+  const normalized: Record<string, unknown> = {
+    action,
+    issue: {
+      number: attrs.iid,
+      title: attrs.title ?? '',
+      body: attrs.description ?? '',
+      state: attrs.state === 'closed' ? 'closed' : 'open',
+      labels: labels.map(l => ({ name: l.title })),
+      html_url: attrs.url,
+      user: { login: payload.user?.username },
+    },
+    repository: { full_name: payload.project?.path_with_namespace },
+    sender: { login: payload.user?.username, type: 'User' },
+  };
+
+  const changes = payload.changes ?? {};
+  if (attrs.action === 'update' && changes.labels) {
+    const before = new Set((changes.labels.previous ?? []).map((l: { title: string }) => l.title));
+    const added = (changes.labels.current ?? []).find((l: { title: string }) => !before.has(l.title));
+    if (added) {
+      action = 'labeled';
+      normalized.action = action;
+      normalized.label = { name: added.title };
+    }
+  } else if (attrs.action === 'update' && changes.description) {
+    normalized.changes = { body: { from: changes.description.previous ?? '' } };
+  }
+
+  return { event: 'issues', deliveryId, payload: normalized };
+}
@@ -0,0 +1,202 @@
+/**
+ * Planning for issues.* webhook actions beyond `opened`.
+ *
+ * planIssueEvent() turns a delivery into one of: start an analysis,
+ * continue on the issue's existing PR, cancel running work, or ignore.
+ * The standalone webhook listener and the dashboard's ProcessManager both
+ * execute the plan their own way.
+ *
+ * Existing work is looked up through the poll repository's IssueActions
+ * (shared with the poller), so labeling, editing or reopening an issue
+ * that already has a PR continues that PR instead of opening a second one.
+ */
+
+import type { Config } from './config.js';
+import type { IssueActions } from './core.js';
+import { createGitHubClient, getAuthFromConfig, githubWebUrl } from './github-tools.js';
+import type { PollRepository } from './poll-repository.js';
+import type { RepoRepository } from './repo-repository.js';
+import { loadNonGitHubProvider } from './scm-provider.js';
+import type { ModelOverrideRepository } from './model-override-repository.js';
+import type { RouteOverrides } from './issue-router.js';
+import {
+  DEFAULT_APPROVAL_LABEL,
+  loadRoutingConfig,
+  mergeRouteOverrides,
+  requestIssueApproval,
+  routeIssue,
+  toRoutableIssue,
+} from './issue-router.js';
+import type { WebhookEvent } from './listener.js';
+import { loadThreadOverrides } from './slash-commands.js';
+
+export type IssueEventPlan =
+  | { kind: 'analyze'; issueNumber: number; reason: string; overrides?: RouteOverrides }
+  | {
+    kind: 'continue';
+    issueNumber: number;
+    prNumber: number;
+    branchName: string;
+    humanFeedback?: string;
+    reason: string;
+    overrides?: RouteOverrides;
+  }
+  | { kind: 'cancel'; issueNumber: number; reason: string }
+  | { kind: 'ignore'; issueNumber?: number; reason: string };
+
+export interface IssueEventDeps {
+  pollRepository?: PollRepository;
+  repoRepository?: RepoRepository;
+  repoId?: number;
+  /** Source of `/model` overrides set on the issue thread */
+  modelOverrideRepository?: ModelOverrideRepository;
+}
+
+const DEFAULT_ISSUE_EVENTS = { actions: ['opened'], triggerLabels: ['ai-fix'], editThreshold: 0.3 };
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/\W+/).filter(Boolean));
+}
+
+/**
+ * Fraction of distinct words that differ between two texts
+ * (1 − Jaccard similarity). 0 = same words, 1 = nothing in common.
+ */
+export function bodyChangeRatio(before: string, after: string): number {
+  const a = wordSet(before);
+  const b = wordSet(after);
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  return 1 - shared / (a.size + b.size - shared);
+}
+
+/**
+ * The PR previously opened for an issue, with its branch. The branch is
+ * looked up on the repo's host when the stored actions only know the PR
+ * number.
+ */
+async function findExistingPr(
+  config: Config,
+  actions: IssueActions | undefined,
+  repoRepository?: RepoRepository,
+): Promise<{ prNumber: number; branchName: string } | undefined> {
+  if (!actions?.pr) return undefined;
+  if (actions.branch?.name) return { prNumber: actions.pr.number, branchName: actions.branch.name };
+  try {
+    const scm = await loadNonGitHubProvider(config, repoRepository);
+    if (scm) return { prNumber: actions.pr.number, branchName: (await scm.getPullRequest(actions.pr.number)).headRef };
+    const { owner, repo } = config.github;
+    const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
+    const { data: pr } = await octokit.rest.pulls.get({ owner, repo, pull_number: actions.pr.number });
+    return { prNumber: actions.pr.number, branchName: pr.head.ref };
+  } catch (err) {
+    console.warn(`[webhook] Could not look up PR #${actions.pr.number}: ${err}`);
+    return undefined;
+  }
+}
+
+/**
+ * Decide what an issues.* delivery should do. Posts the routing approval
+ * request itself when an issue is held for approval.
+ */
+export async function planIssueEvent(event: WebhookEvent, config: Config, deps: IssueEventDeps = {}): Promise<IssueEventPlan> {
+  const { payload } = event;
+  const action = payload.action as string;
+  const settings = config.issueEvents ?? DEFAULT_ISSUE_EVENTS;
+
+  if (!settings.actions.includes(action)) {
+    return { kind: 'ignore', reason: `Ignored action: ${action}` };
+  }
+
+  const issue = payload.issue as Record<string, any> | undefined;
+  if (!issue || typeof issue.number !== 'number') {
+    console.error(`[webhook] issues.${action} missing issue data (delivery: ${event.deliveryId})`);
+    return { kind: 'ignore', reason: 'Missing issue data in payload' };
+  }
+  const issueNumber = issue.number as number;
+
+  if (action === 'closed') {
+    return { kind: 'cancel', issueNumber, reason: 'Issue closed' };
+  }
+
+  const { owner, repo } = config.github;
+  const routing = await loadRoutingConfig(deps.repoRepository, owner, repo);
+
+  if (action === 'labeled') {
+    const label = (payload.label as { name?: string } | undefined)?.name ?? '';
+    const triggers = [...settings.triggerLabels, routing?.approvalLabel ?? DEFAULT_APPROVAL_LABEL].map(l => l.toLowerCase());
+    if (!triggers.includes(label.toLowerCase())) {
+      return { kind: 'ignore', issueNumber, reason: `Label "${label}" is not a trigger label` };
+    }
+  }
+
+  // Everything but `opened` depends on what was done for the issue before
+  const actions = action === 'opened' || !deps.pollRepository
+    ? undefined
+    : await Promise.resolve(deps.pollRepository.getIssueActions(deps.repoId ?? 0, issueNumber));
+
+  let humanFeedback: string | undefined;
+  if (action === 'edited') {
+    const changes = payload.changes as { body?: { from?: string } } | undefined;
+    if (typeof changes?.body?.from !== 'string') {
+      return { kind: 'ignore', issueNumber, reason: 'Body not changed' };
+    }
+    const ratio = bodyChangeRatio(changes.body.from, issue.body ?? '');
+    if (ratio < settings.editThreshold) {
+      return { kind: 'ignore', issueNumber, reason: `Body change below threshold (${Math.round(ratio * 100)}%)` };
+    }
+    if (!actions) {
+      return { kind: 'ignore', issueNumber, reason: 'Issue has not been processed yet' };
+    }
+    humanFeedback = `The issue description was edited after this PR was opened. ` +
+      `Re-read issue #${issueNumber} and update the PR to match the new description:\n\n${issue.body ?? ''}`;
+  }
+
+  const decision = routeIssue(toRoutableIssue(issue), routing);
+  if (decision.action === 'skip') {
+    console.log(`[webhook] Issue #${issueNumber} skipped by routing: ${decision.reason}`);
+    return { kind: 'ignore', issueNumber, reason: `Routing: ${decision.reason}` };
+  }
+  if (decision.action === 'approval') {
+    console.log(`[webhook] Issue #${issueNumber} awaiting approval: ${decision.reason}`);
+    await requestIssueApproval(config, issueNumber, decision, routing, await loadNonGitHubProvider(config, deps.repoRepository));
+    return { kind: 'ignore', issueNumber, reason: `Awaiting approval: ${decision.reason}` };
+  }
+  const overrides = mergeRouteOverrides(decision.overrides, await loadThreadOverrides(deps.modelOverrideRepository, config, issueNumber));
+
+  const existing = await findExistingPr(config, actions, deps.repoRepository);
+  if (existing) {
+    return { kind: 'continue', issueNumber, ...existing, humanFeedback, reason: `Continuing PR #${existing.prNumber} (issue ${action})`, overrides };
+  }
+  if (action === 'reopened') {
+    return { kind: 'ignore', issueNumber, reason: 'No existing PR to continue' };
+  }
+  return { kind: 'analyze', issueNumber, reason: 'Analysis triggered', overrides };
+}
+
+/**
+ * Remember the PR an issue run produced, so later events continue it.
+ * Non-fatal: a failed write only costs that idempotency.
+ */
+export async function recordIssuePr(
+  pollRepository: PollRepository | undefined,
+  repoId: number | undefined,
+  issueNumber: number,
+  prNumber: number | null | undefined,
+  config: Config,
+): Promise<void> {
+  if (!pollRepository || !prNumber) return;
+  const { owner, repo } = config.github;
+  try {
+    const actions = await Promise.resolve(pollRepository.getIssueActions(repoId ?? 0, issueNumber));
+    await Promise.resolve(pollRepository.setIssueActions(repoId ?? 0, issueNumber, {
+      comment: actions?.comment ?? null,
+      branch: actions?.pr?.number === prNumber ? actions.branch : null,
+      commits: actions?.commits ?? [],
+      pr: { number: prNumber, html_url: `${githubWebUrl(config.github)}/${owner}/${repo}/pull/${prNumber}` },
+    }));
+  } catch (err) {
+    console.error(`[webhook] Failed to record PR #${prNumber} for issue #${issueNumber}:`, err);
+  }
+}
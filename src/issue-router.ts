@@ -0,0 +1,347 @@
+/**
+ * Issue routing: decides, before the Architect runs, whether an issue is
+ * worked on at all and with which settings.
+ *
+ * Rules live per repo in `RepoRecord.configJson.routing`:
+ *
+ *   {
+ *     "routing": {
+ *       "defaultAction": "skip",
+ *       "approvalLabel": "bot-approved",
+ *       "rules": [
+ *         { "name": "wontfix", "match": { "labels": ["wontfix"] }, "action": "skip" },
+ *         { "name": "bot-fix", "match": { "labels": ["bot-fix"] }, "action": "run",
+ *           "agentMode": "single", "maxIterations": 2,
+ *           "llm": { "coder": { "provider": "anthropic", "model": "claude-sonnet-4-5" } } },
+ *         { "name": "outsiders", "match": { "authorAssociations": ["NONE"] }, "action": "approval" }
+ *       ]
+ *     }
+ *   }
+ *
+ * Rules are evaluated in order and the first match wins. All conditions
+ * given in a rule's `match` must hold; an empty `match` matches everything.
+ * Repos without a `routing` section keep the old behaviour (run everything).
+ */
+
+import type { Config } from './config.js';
+import { createGitHubClient, getAuthFromConfig } from './github-tools.js';
+import type { RepoRepository } from './repo-repository.js';
+import type { ScmProvider } from './scm-provider.js';
+
+export type RouteAction = 'run' | 'skip' | 'approval';
+
+export type AgentMode = 'single' | 'multi' | 'claude-sdk';
+
+/** Partial LLM config, merged over the configured one for that agent. */
+export interface LlmOverride {
+  provider?: string;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export interface RoutingMatch {
+  /** Issue must carry all of these labels (case-insensitive) */
+  labels?: string[];
+  /** Issue must carry none of these labels */
+  excludeLabels?: string[];
+  /** Case-insensitive regex tested against the title */
+  title?: string;
+  /** Case-insensitive regex tested against the body */
+  body?: string;
+  /** Issue author login must be one of these */
+  authors?: string[];
+  /** GitHub author_association must be one of these (OWNER, MEMBER, CONTRIBUTOR, NONE, ...) */
+  authorAssociations?: string[];
+  /** Milestone title must equal this */
+  milestone?: string;
+}
+
+/** Settings applied to the Architect run when a rule routes an issue to `run`. */
+export interface RouteOverrides {
+  agentMode?: AgentMode;
+  maxIterations?: number;
+  llm?: {
+    issuer?: LlmOverride;
+    coder?: LlmOverride;
+    reviewer?: LlmOverride;
+  };
+}
+
+export interface RoutingRule extends RouteOverrides {
+  name?: string;
+  match?: RoutingMatch;
+  action: RouteAction;
+}
+
+export interface RoutingConfig {
+  rules: RoutingRule[];
+  /** Action when no rule matches (default: run) */
+  defaultAction?: RouteAction;
+  /** Label that turns an `approval` decision into `run` (default: bot-approved) */
+  approvalLabel?: string;
+}
+
+/**
+ * The fields routing looks at. Both webhook payloads and polled issues
+ * are reduced to this shape.
+ */
+export interface RoutableIssue {
+  title: string;
+  body: string;
+  labels: string[];
+  author?: string;
+  authorAssociation?: string;
+  milestone?: string;
+}
+
+export interface RouteDecision {
+  action: RouteAction;
+  /** Name (or 1-based index) of the matching rule; undefined for the default */
+  rule?: string;
+  reason: string;
+  overrides?: RouteOverrides;
+}
+
+export const DEFAULT_APPROVAL_LABEL = 'bot-approved';
+
+/** Marks the bot's "waiting for approval" comment so it is posted once. */
+export const APPROVAL_MARKER = '<!-- deep-agent-approval -->';
+
+const ROUTE_ACTIONS = new Set<RouteAction>(['run', 'skip', 'approval']);
+const AGENT_MODES = new Set<AgentMode>(['single', 'multi', 'claude-sdk']);
+const LLM_ROLES = ['issuer', 'coder', 'reviewer'] as const;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function checkRegex(pattern: unknown, where: string): void {
+  if (pattern === undefined) return;
+  if (typeof pattern !== 'string') throw new Error(`${where} must be a string`);
+  try {
+    new RegExp(pattern, 'i');
+  } catch {
+    throw new Error(`${where} is not a valid regular expression: ${pattern}`);
+  }
+}
+
+/**
+ * Validate the `routing` section of a repo's configJson.
+ * Returns undefined when there is none; throws with a readable message
+ * when it is malformed.
+ */
+export function parseRoutingConfig(configJson: Record<string, unknown> | undefined): RoutingConfig | undefined {
+  const raw = configJson?.routing;
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error('routing must be an object');
+
+  const routing = raw as Record<string, unknown>;
+  const rules = routing.rules ?? [];
+  if (!Array.isArray(rules)) throw new Error('routing.rules must be an array');
+  if (routing.defaultAction !== undefined && !ROUTE_ACTIONS.has(routing.defaultAction as RouteAction)) {
+    throw new Error(`routing.defaultAction must be one of: ${[...ROUTE_ACTIONS].join(', ')}`);
+  }
+  if (routing.approvalLabel !== undefined && (typeof routing.approvalLabel !== 'string' || !routing.approvalLabel)) {
+    throw new Error('routing.approvalLabel must be a non-empty string');
+  }
+
+  rules.forEach((rule: any, i: number) => {
+    const where = `routing.rules[${i}]`;
+    if (!rule || typeof rule !== 'object') throw new Error(`${where} must be an object`);
+    if (!ROUTE_ACTIONS.has(rule.action)) {
+      throw new Error(`${where}.action must be one of: ${[...ROUTE_ACTIONS].join(', ')}`);
+    }
+    if (rule.name !== undefined && typeof rule.name !== 'string') throw new Error(`${where}.name must be a string`);
+    if (rule.agentMode !== undefined && !AGENT_MODES.has(rule.agentMode)) {
+      throw new Error(`${where}.agentMode must be one of: ${[...AGENT_MODES].join(', ')}`);
+    }
+    if (rule.maxIterations !== undefined && (!Number.isInteger(rule.maxIterations) || rule.maxIterations < 1)) {
+      throw new Error(`${where}.maxIterations must be a positive integer`);
+    }
+    if (rule.llm !== undefined) {
+      if (!rule.llm || typeof rule.llm !== 'object') throw new Error(`${where}.llm must be an object`);
+      for (const key of Object.keys(rule.llm)) {
+        if (!(LLM_ROLES as readonly string[]).includes(key)) {
+          throw new Error(`${where}.llm.${key} is not an agent (expected: ${LLM_ROLES.join(', ')})`);
+        }
+      }
+    }
+
+    const match = rule.match;
+    if (match === undefined) return;
+    if (!match || typeof match !== 'object') throw new Error(`${where}.match must be an object`);
+    for (const key of ['labels', 'excludeLabels', 'authors', 'authorAssociations'] as const) {
+      if (match[key] !== undefined && !isStringArray(match[key])) {
+        throw new Error(`${where}.match.${key} must be an array of strings`);
+      }
+    }
+    checkRegex(match.title, `${where}.match.title`);
+    checkRegex(match.body, `${where}.match.body`);
+    if (match.milestone !== undefined && typeof match.milestone !== 'string') {
+      throw new Error(`${where}.match.milestone must be a string`);
+    }
+  });
+
+  return { ...routing, rules } as unknown as RoutingConfig;
+}
+
+/**
+ * Whether every condition in `match` holds for the issue.
+ */
+export function matchesRule(issue: RoutableIssue, match: RoutingMatch | undefined): boolean {
+  if (!match) return true;
+  const labels = new Set(issue.labels.map(l => l.toLowerCase()));
+  const lower = (list: string[]) => list.map(s => s.toLowerCase());
+
+  if (match.labels && !lower(match.labels).every(l => labels.has(l))) return false;
+  if (match.excludeLabels && lower(match.excludeLabels).some(l => labels.has(l))) return false;
+  if (match.title && !new RegExp(match.title, 'i').test(issue.title)) return false;
+  if (match.body && !new RegExp(match.body, 'i').test(issue.body)) return false;
+  if (match.authors && !lower(match.authors).includes((issue.author ?? '').toLowerCase())) return false;
+  if (match.authorAssociations && !lower(match.authorAssociations).includes((issue.authorAssociation ?? '').toLowerCase())) {
+    return false;
+  }
+  if (match.milestone !== undefined && match.milestone !== issue.milestone) return false;
+  return true;
+}
+
+/**
+ * Decide what to do with an issue. Without a routing config every issue runs.
+ */
+export function routeIssue(issue: RoutableIssue, routing: RoutingConfig | undefined): RouteDecision {
+  if (!routing) return { action: 'run', reason: 'No routing rules configured' };
+
+  const index = routing.rules.findIndex(r => matchesRule(issue, r.match));
+  if (index === -1) {
+    const action = routing.defaultAction ?? 'run';
+    return approve({ action, reason: `No rule matched (default: ${action})` }, issue, routing);
+  }
+
+  const rule = routing.rules[index];
+  const name = rule.name ?? String(index + 1);
+  const { agentMode, maxIterations, llm } = rule;
+  const overrides: RouteOverrides = {
+    ...(agentMode ? { agentMode } : {}),
+    ...(maxIterations ? { maxIterations } : {}),
+    ...(llm ? { llm } : {}),
+  };
+  return approve({
+    action: rule.action,
+    rule: name,
+    reason: `Matched rule "${name}" (${rule.action})`,
+    ...(Object.keys(overrides).length > 0 ? { overrides } : {}),
+  }, issue, routing);
+}
+
+/** An `approval` decision becomes `run` once a human applied the approval label. */
+function approve(decision: RouteDecision, issue: RoutableIssue, routing: RoutingConfig): RouteDecision {
+  if (decision.action !== 'approval') return decision;
+  const label = routing.approvalLabel ?? DEFAULT_APPROVAL_LABEL;
+  if (!issue.labels.some(l => l.toLowerCase() === label.toLowerCase())) return decision;
+  return { ...decision, action: 'run', reason: `${decision.reason}, approved via "${label}" label` };
+}
+
+/**
+ * Return a copy of config with a rule's overrides applied. LLM overrides
+ * are merged over the agent's own config (or the main LLM config), so a
+ * rule can switch just the model and keep the provider's API key.
+ */
+export function applyRouteOverrides(config: Config, overrides: RouteOverrides | undefined): Config {
+  if (!overrides) return config;
+  const result = { ...config };
+  if (overrides.agentMode) result.agentMode = overrides.agentMode;
+  if (overrides.maxIterations) result.maxIterations = overrides.maxIterations;
+  for (const role of LLM_ROLES) {
+    const override = overrides.llm?.[role];
+    if (!override) continue;
+    const key = `${role}Llm`;
+    result[key] = { ...(config[key] ?? config.llm), ...override };
+  }
+  return result;
+}
+
+/**
+ * Combine two sets of overrides; fields in `over` win, LLM overrides are
+ * merged per agent. Returns undefined when neither has anything.
+ */
+export function mergeRouteOverrides(base: RouteOverrides | undefined, over: RouteOverrides | undefined): RouteOverrides | undefined {
+  if (!base) return over;
+  if (!over) return base;
+  const result: RouteOverrides = { ...base, ...over };
+  if (base.llm || over.llm) {
+    result.llm = {};
+    for (const role of LLM_ROLES) {
+      const merged = { ...base.llm?.[role], ...over.llm?.[role] };
+      if (Object.keys(merged).length > 0) result.llm[role] = merged;
+    }
+  }
+  return result;
+}
+
+/**
+ * Reduce a GitHub issue object (webhook payload or REST response) to the
+ * fields routing looks at.
+ */
+export function toRoutableIssue(issue: Record<string, any>): RoutableIssue {
+  return {
+    title: issue.title ?? '',
+    body: issue.body ?? '',
+    labels: (issue.labels ?? []).map((l: any) => typeof l === 'string' ? l : l.name ?? ''),
+    author: issue.user?.login,
+    authorAssociation: issue.author_association,
+    milestone: issue.milestone?.title,
+  };
+}
+
+/**
+ * Load the routing config for owner/repo from the repo repository.
+ * A malformed config is logged and treated as "skip everything" — the
+ * rules are an opt-in gate, so failing open would be the wrong default.
+ */
+export async function loadRoutingConfig(
+  repoRepository: RepoRepository | undefined,
+  owner: string,
+  repo: string,
+): Promise<RoutingConfig | undefined> {
+  if (!repoRepository) return undefined;
+  const record = await Promise.resolve(repoRepository.getByOwnerRepo(owner, repo));
+  try {
+    return parseRoutingConfig(record?.configJson);
+  } catch (err) {
+    console.error(`[routing] Invalid routing config for ${owner}/${repo}: ${err instanceof Error ? err.message : err}`);
+    return { rules: [], defaultAction: 'skip' };
+  }
+}
+
+/**
+ * Ask a human to approve an issue held by routing. Posts one comment per
+ * issue (skipped if the marker comment already exists). Non-fatal.
+ * Repos on another host go through `scm`; GitHub through Octokit.
+ */
+export async function requestIssueApproval(
+  config: Config,
+  issueNumber: number,
+  decision: RouteDecision,
+  routing: RoutingConfig | undefined,
+  scm?: ScmProvider,
+): Promise<void> {
+  const { owner, repo } = config.github;
+  const label = routing?.approvalLabel ?? DEFAULT_APPROVAL_LABEL;
+  const body = `${APPROVAL_MARKER}\nThis issue is waiting for approval before the bot works on it ` +
+    `(${decision.reason}). Add the \`${label}\` label to approve.`;
+  try {
+    if (scm && scm.kind !== 'github') {
+      const comments = await scm.listIssueComments(issueNumber);
+      if (comments.some(c => c.body.includes(APPROVAL_MARKER))) return;
+      await scm.commentOnIssue(issueNumber, body);
+      return;
+    }
+    const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
+    const { data: comments } = await octokit.rest.issues.listComments({ owner, repo, issue_number: issueNumber, per_page: 100 });
+    if (comments.some((c: any) => c.body?.includes(APPROVAL_MARKER))) return;
+    await octokit.rest.issues.createComment({ owner, repo, issue_number: issueNumber, body });
+  } catch (err) {
+    console.warn(`[routing] Could not post approval request on #${issueNumber}: ${err}`);
+  }
+}
@@ -0,0 +1,215 @@
+import { EventEmitter } from 'events';
+import type { Job, JobRepository, JobStatus } from './job-repository.js';
+import { InMemoryJobRepository } from './job-repository.js';
+
+// ── Interfaces ───────────────────────────────────────────────────────────────
+
+export type JobHandler = (job: Job) => Promise<void>;
+
+export interface JobQueueOptions {
+  /** Max jobs running at once across all repos (default 2) */
+  concurrency?: number;
+  /** Max jobs running at once for a single repoKey (default 1) */
+  perRepoConcurrency?: number;
+  /** Attempts before a job is dead-lettered (default 3) */
+  maxAttempts?: number;
+  /** Base retry delay; doubles with each attempt (default 30s) */
+  retryBaseDelayMs?: number;
+  /** How often the queue looks for due jobs (default 1s) */
+  pollIntervalMs?: number;
+}
+
+export interface JobEvent {
+  type: 'job_queued' | 'job_started' | 'job_completed' | 'job_retry' | 'job_dead';
+  job: Job;
+  timestamp: string;
+}
+
+/**
+ * Delay before the next attempt: base * 2^(attempts - 1).
+ */
+export function computeRetryDelay(baseDelayMs: number, attempts: number): number {
+  return baseDelayMs * Math.pow(2, Math.max(0, attempts - 1));
+}
+
+// ── JobQueue ─────────────────────────────────────────────────────────────────
+
+/**
+ * Worker pool on top of a JobRepository. Handlers are registered per job
+ * type; a handler that throws is retried with exponential backoff until
+ * `maxAttempts` is reached, after which the job is dead-lettered.
+ */
+export class JobQueue extends EventEmitter {
+  private handlers: Map<string, JobHandler> = new Map();
+  /** jobId → repoKey for jobs executing in this process */
+  private active: Map<number, string> = new Map();
+  private inflight: Set<Promise<void>> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+  private started = false;
+  private ticking = false;
+  private tickAgain = false;
+  private repository: JobRepository;
+  private concurrency: number;
+  private perRepoConcurrency: number;
+  private maxAttempts: number;
+  private retryBaseDelayMs: number;
+  private pollIntervalMs: number;
+
+  constructor(repository?: JobRepository, options: JobQueueOptions = {}) {
+    super();
+    this.repository = repository ?? new InMemoryJobRepository();
+    this.concurrency = options.concurrency ?? 2;
+    this.perRepoConcurrency = options.perRepoConcurrency ?? 1;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 30_000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+  }
+
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue(type: string, repoKey: string, payload: Record<string, unknown>): Promise<Job> {
+    const job = await Promise.resolve(this.repository.enqueue({
+      type,
+      repoKey,
+      payload,
+      maxAttempts: this.maxAttempts,
+    }));
+    console.log(`[jobs] Queued ${type} job #${job.id} for ${repoKey}`);
+    this.emitEvent('job_queued', job);
+    if (this.started) void this.tick();
+    return job;
+  }
+
+  /**
+   * Resume jobs interrupted by a previous shutdown, then start polling.
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    const resumed = await Promise.resolve(this.repository.requeueRunning());
+    if (resumed > 0) {
+      console.log(`[jobs] Resuming ${resumed} interrupted job(s)`);
+    }
+    this.started = true;
+    this.timer = setInterval(() => { void this.tick(); }, this.pollIntervalMs);
+    this.timer.unref();
+    await this.tick();
+  }
+
+  /**
+   * Stop claiming new jobs. Running jobs are left to finish.
+   */
+  stop(): void {
+    this.started = false;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Resolve once every job currently executing in this process has settled. */
+  async drain(): Promise<void> {
+    while (this.inflight.size > 0) {
+      await Promise.all(this.inflight);
+    }
+  }
+
+  async list(filter?: { status?: JobStatus; limit?: number }): Promise<Job[]> {
+    return Promise.resolve(this.repository.list(filter));
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    return Promise.resolve(this.repository.getById(id));
+  }
+
+  async retry(id: number): Promise<Job | undefined> {
+    const job = await Promise.resolve(this.repository.retry(id));
+    if (job) {
+      this.emitEvent('job_queued', job);
+      if (this.started) void this.tick();
+    }
+    return job;
+  }
+
+  /**
+   * Claim due jobs until the worker pool is full. Re-entrant calls are
+   * coalesced into one extra pass so two ticks never claim side by side.
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      this.tickAgain = true;
+      return;
+    }
+    this.ticking = true;
+    try {
+      do {
+        this.tickAgain = false;
+        while (this.started && this.active.size < this.concurrency) {
+          const job = await Promise.resolve(this.repository.claimNext(this.saturatedRepoKeys()));
+          if (!job) break;
+          this.active.set(job.id, job.repoKey);
+          const run = this.execute(job).finally(() => { this.inflight.delete(run); });
+          this.inflight.add(run);
+        }
+      } while (this.tickAgain && this.started);
+    } catch (err) {
+      console.error('[jobs] Failed to claim job:', err);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private saturatedRepoKeys(): string[] {
+    const counts = new Map<string, number>();
+    for (const key of this.active.values()) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return [...counts].filter(([, n]) => n >= this.perRepoConcurrency).map(([key]) => key);
+  }
+
+  private async execute(job: Job): Promise<void> {
+    this.emitEvent('job_started', job);
+    try {
+      const handler = this.handlers.get(job.type);
+      if (!handler) {
+        await Promise.resolve(this.repository.fail(job.id, `No handler registered for job type "${job.type}"`, null));
+        console.error(`[jobs] Job #${job.id}: no handler for type "${job.type}", dead-lettered`);
+        this.emitEvent('job_dead', job);
+        return;
+      }
+
+      try {
+        await handler(job);
+        await Promise.resolve(this.repository.complete(job.id));
+        this.emitEvent('job_completed', { ...job, status: 'completed' });
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (job.attempts < job.maxAttempts) {
+          const delay = computeRetryDelay(this.retryBaseDelayMs, job.attempts);
+          const retryAt = new Date(Date.now() + delay).toISOString();
+          await Promise.resolve(this.repository.fail(job.id, message, retryAt));
+          console.error(
+            `[jobs] Job #${job.id} (${job.type}) failed on attempt ${job.attempts}/${job.maxAttempts}, ` +
+            `retrying in ${Math.round(delay / 1000)}s: ${message}`,
+          );
+          this.emitEvent('job_retry', { ...job, status: 'queued', lastError: message, runAt: retryAt });
+        } else {
+          await Promise.resolve(this.repository.fail(job.id, message, null));
+          console.error(`[jobs] Job #${job.id} (${job.type}) dead-lettered after ${job.attempts} attempt(s): ${message}`);
+          this.emitEvent('job_dead', { ...job, status: 'dead', lastError: message });
+        }
+      }
+    } catch (err) {
+      console.error(`[jobs] Failed to record outcome of job #${job.id}:`, err);
+    } finally {
+      this.active.delete(job.id);
+      if (this.started) void this.tick();
+    }
+  }
+
+  private emitEvent(type: JobEvent['type'], job: Job): void {
+    const event: JobEvent = { type, job, timestamp: new Date().toISOString() };
+    this.emit('job_event', event);
+  }
+}
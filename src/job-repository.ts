@@ -0,0 +1,150 @@
+/**
+ * Lifecycle of a queued job. Failed attempts with retries left go back to
+ * `queued` (with a later `runAt`); exhausted jobs end up in `dead`.
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+/**
+ * A unit of background work (e.g. a webhook-triggered analysis).
+ */
+export interface Job {
+  id: number;
+  type: string;
+  /** Concurrency key — "owner/repo" the job operates on */
+  repoKey: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  /** Earliest time the job may be claimed (ISO timestamp) */
+  runAt: string;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface EnqueueJobInput {
+  type: string;
+  repoKey: string;
+  payload: Record<string, unknown>;
+  maxAttempts: number;
+  runAt?: string;
+}
+
+/**
+ * Repository interface for the durable job queue.
+ */
+export interface JobRepository {
+  enqueue(input: EnqueueJobInput): Job | Promise<Job>;
+  /**
+   * Atomically claim the oldest due job whose repoKey is not in `excludeRepoKeys`,
+   * marking it running and incrementing its attempt count.
+   */
+  claimNext(excludeRepoKeys: string[]): Job | undefined | Promise<Job | undefined>;
+  complete(id: number): void | Promise<void>;
+  /** Record a failed attempt. A `retryAt` re-queues the job; null dead-letters it. */
+  fail(id: number, error: string, retryAt: string | null): void | Promise<void>;
+  /** Put a dead job back in the queue with a fresh attempt budget. */
+  retry(id: number): Job | undefined | Promise<Job | undefined>;
+  /** Re-queue jobs left running by a previous (crashed) worker. Returns the count. */
+  requeueRunning(): number | Promise<number>;
+  getById(id: number): Job | undefined | Promise<Job | undefined>;
+  list(filter?: { status?: JobStatus; limit?: number }): Job[] | Promise<Job[]>;
+}
+
+/**
+ * In-memory job repository for use without a database.
+ * Jobs do not survive a restart.
+ */
+export class InMemoryJobRepository implements JobRepository {
+  private jobs: Job[] = [];
+  private nextId = 1;
+
+  enqueue(input: EnqueueJobInput): Job {
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: this.nextId++,
+      type: input.type,
+      repoKey: input.repoKey,
+      payload: JSON.parse(JSON.stringify(input.payload)),
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: input.maxAttempts,
+      runAt: input.runAt ?? now,
+      createdAt: now,
+    };
+    this.jobs.push(job);
+    return this.copy(job);
+  }
+
+  claimNext(excludeRepoKeys: string[]): Job | undefined {
+    const now = new Date().toISOString();
+    const due = this.jobs
+      .filter(j => j.status === 'queued' && j.runAt <= now && !excludeRepoKeys.includes(j.repoKey))
+      .sort((a, b) => a.runAt.localeCompare(b.runAt) || a.id - b.id);
+    const job = due[0];
+    if (!job) return undefined;
+    job.status = 'running';
+    job.attempts++;
+    job.startedAt = now;
+    return this.copy(job);
+  }
+
+  complete(id: number): void {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job) return;
+    job.status = 'completed';
+    job.completedAt = new Date().toISOString();
+  }
+
+  fail(id: number, error: string, retryAt: string | null): void {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job) return;
+    job.lastError = error;
+    if (retryAt) {
+      job.status = 'queued';
+      job.runAt = retryAt;
+    } else {
+      job.status = 'dead';
+      job.completedAt = new Date().toISOString();
+    }
+  }
+
+  retry(id: number): Job | undefined {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job || job.status !== 'dead') return undefined;
+    job.status = 'queued';
+    job.attempts = 0;
+    job.runAt = new Date().toISOString();
+    job.completedAt = undefined;
+    return this.copy(job);
+  }
+
+  requeueRunning(): number {
+    let count = 0;
+    for (const job of this.jobs) {
+      if (job.status === 'running') {
+        job.status = 'queued';
+        count++;
+      }
+    }
+    return count;
+  }
+
+  getById(id: number): Job | undefined {
+    const job = this.jobs.find(j => j.id === id);
+    return job ? this.copy(job) : undefined;
+  }
+
+  list(filter?: { status?: JobStatus; limit?: number }): Job[] {
+    let result = [...this.jobs].reverse();
+    if (filter?.status) result = result.filter(j => j.status === filter.status);
+    if (filter?.limit) result = result.slice(0, filter.limit);
+    return result.map(j => this.copy(j));
+  }
+
+  private copy(job: Job): Job {
+    return { ...job, payload: JSON.parse(JSON.stringify(job.payload)) };
+  }
+}
@@ -5,13 +5,47 @@ import express from 'express';
 import type { Request, Response } from 'express';
 import type { Config } from './config.js';
 import { runArchitect } from './architect.js';
+import type { ContinueContext } from './architect.js';
 import { enrichSubIssueData } from './core.js';
-import { createGitHubClient, getAuthFromConfig } from './github-tools.js';
+import { BOT_THREAD_REPLY_MARKER, createGitHubClient, getAuthFromConfig } from './github-tools.js';
 import { runReviewSingle } from './reviewer-agent.js';
 import { chat, chatStream } from './chat-agent.js';
 import { UsageService } from './usage-service.js';
 import type { AgentProcess } from './process-manager.js';
 import type { ProcessRepository } from './process-repository.js';
+import type { JobHandler, JobQueue } from './job-queue.js';
+import type { WebhookDeliveryRepository, WebhookDeliveryStatus } from './webhook-delivery-repository.js';
+import { configForRepo } from './repo-repository.js';
+import type { RepoRepository } from './repo-repository.js';
+import type { PollRepository } from './poll-repository.js';
+import type { ModelOverrideRepository } from './model-override-repository.js';
+import type { ClaimRepository } from './claim-repository.js';
+import { applyRouteOverrides } from './issue-router.js';
+import type { RouteOverrides } from './issue-router.js';
+import { planIssueEvent, recordIssuePr } from './issue-events.js';
+import { loadRunBudget } from './budget.js';
+import { loadSandboxPolicy } from './sandbox.js';
+import { loadCommandPolicy } from './command-policy.js';
+import { loadVerificationPolicy } from './verification.js';
+import { decideApproval, loadApprovalPolicy } from './approval.js';
+import { loadScmProvider, resolveScmTarget } from './scm-provider.js';
+import { toWebhookEvent as toGitLabWebhookEvent, verifyGitLabToken } from './gitlab-provider.js';
+import type { SpendGuard } from './spend-limits.js';
+import { installAuth } from './auth.js';
+import type { SessionRepository } from './session-repository.js';
+import {
+  COMMAND_REPLY_MARKER,
+  createDefaultRegistry,
+  executeCommand,
+  getCommenterPermission,
+  hasPermission,
+  loadThreadOverrides,
+} from './slash-commands.js';
+import type { CommandOutcome, CommandRunInfo, CommandRunResult, CommandRuntime, LinkedPr } from './slash-commands.js';
+import { claimReview, fetchReviewFeedback, formatReviewFeedback, hasFeedback, isBotReview } from './pr-review-feedback.js';
+import type { ReviewFeedback, ReviewSummary } from './pr-review-feedback.js';
+import { FAILED_CONCLUSIONS, claimCiFix, fetchCiFailures, formatCiFailures } from './ci-logs.js';
+import type { CiJobFailure } from './ci-logs.js';
 
 /**
  * Webhook listener configuration.
@@ -80,6 +114,8 @@ export interface PrHandlerResult {
   reviewQueued: boolean;
   reason: string;
   pr?: PrOpenedData;
+  /** Set when the triggered review failed (lets the job queue retry) */
+  error?: string;
 }
 
 /**
@@ -137,12 +173,14 @@ export async function handlePullRequestEvent(event: WebhookEvent, config?: Confi
     `(delivery: ${event.deliveryId})`,
   );
 
+  let error: string | undefined;
   if (config) {
     try {
       await runReviewSingle(config, prData.number);
       console.log(`[webhook] Review complete for PR #${prData.number}`);
     } catch (err) {
       console.error(`[webhook] Review failed for PR #${prData.number}:`, err);
+      error = err instanceof Error ? err.message : String(err);
     }
   } else {
     console.log(`[webhook] No config provided, skipping review for PR #${prData.number}`);
@@ -153,113 +191,207 @@ export async function handlePullRequestEvent(event: WebhookEvent, config?: Confi
     reviewQueued: true,
     reason: 'Review triggered',
     pr: prData,
+    ...(error ? { error } : {}),
   };
 }
 
 /**
- * Result of handling an issues.opened event.
+ * Result of handling an issues.* event.
  */
 export interface IssueHandlerResult {
   handled: boolean;
   issueNumber?: number;
   reason: string;
+  /** Set when the triggered analysis failed (lets the job queue retry) */
+  error?: string;
 }
 
 /**
- * Handle an issues.opened webhook event.
+ * A webhook-triggered run still in progress. Tracked so issues.closed and
+ * `/cancel` can abort it and `/status` can report its phase and cost.
+ */
+interface ActiveRun {
+  id: string;
+  type: 'analyze' | 'review';
+  /** "owner/repo" the run belongs to */
+  repoKey: string;
+  issueNumber?: number;
+  prNumber?: number;
+  controller: AbortController;
+  usageService: UsageService;
+  startedAt: string;
+  phase?: string;
+  iteration?: number;
+  maxIterations?: number;
+}
+
+const activeRuns = new Set<ActiveRun>();
+
+function startActiveRun(config: Config, run: Pick<ActiveRun, 'id' | 'type' | 'issueNumber' | 'prNumber'>, usageService?: UsageService): ActiveRun {
+  const active: ActiveRun = {
+    ...run,
+    repoKey: `${config.github.owner}/${config.github.repo}`,
+    controller: new AbortController(),
+    usageService: usageService ?? new UsageService(),
+    startedAt: new Date().toISOString(),
+  };
+  activeRuns.add(active);
+  return active;
+}
+
+/** Reason a new run on the configured repo is refused by the spend limits, if any. */
+async function spendRefusal(config: Config, options: WebhookHandlerOptions): Promise<string | undefined> {
+  const spend = await options.spendGuard?.check(config.github.owner, config.github.repo);
+  return spend && !spend.allowed ? spend.reason : undefined;
+}
+
+/** Runs for this repo on an issue, or on a PR when `includePrs` is set. */
+function findActiveRuns(config: Config, number: number, includePrs: boolean): ActiveRun[] {
+  const repoKey = `${config.github.owner}/${config.github.repo}`;
+  return Array.from(activeRuns).filter(run =>
+    run.repoKey === repoKey && (run.issueNumber === number || (includePrs && run.prNumber === number)));
+}
+
+/**
+ * Abort every webhook-triggered run for an issue. Returns how many were running.
+ */
+export function cancelIssueRuns(config: Config, issueNumber: number): number {
+  const runs = findActiveRuns(config, issueNumber, false).filter(run => run.type === 'analyze');
+  for (const run of runs) {
+    run.controller.abort();
+    activeRuns.delete(run);
+  }
+  return runs.length;
+}
+
+/**
+ * Handle an issues webhook event.
  *
- * Extracts the issue number and triggers the Architect supervisor
- * (Issuer → Coder → Reviewer) via runArchitect. Runs async (fire-and-forget)
- * so the webhook endpoint can return 200 immediately.
+ * planIssueEvent() decides what the action means (see issue-events.ts):
+ * `opened` and trigger-label / significant-edit events start the Architect
+ * supervisor (Issuer → Coder → Reviewer) via runArchitect, events on an
+ * issue that already has a PR continue that PR, and `closed` aborts
+ * running analyses. Runs async (fire-and-forget) so the webhook endpoint
+ * can return 200 immediately.
  */
-export async function handleIssuesEvent(event: WebhookEvent, config?: Config, processRepository?: ProcessRepository): Promise<IssueHandlerResult> {
+export async function handleIssuesEvent(event: WebhookEvent, config?: Config, options: WebhookHandlerOptions = {}): Promise<IssueHandlerResult> {
   const { payload } = event;
 
-  if (payload.action !== 'opened') {
-    return { handled: false, reason: `Ignored action: ${payload.action}` };
+  if (!config) {
+    if (payload.action !== 'opened') {
+      return { handled: false, reason: `Ignored action: ${payload.action}` };
+    }
+    const issue = payload.issue as Record<string, unknown> | undefined;
+    if (!issue || typeof issue.number !== 'number') {
+      console.error(`[webhook] issues.opened missing issue data (delivery: ${event.deliveryId})`);
+      return { handled: false, reason: 'Missing issue data in payload' };
+    }
+    console.log(`[webhook] Issue #${issue.number} opened (delivery: ${event.deliveryId})`);
+    console.log(`[webhook] No config provided, skipping analysis for issue #${issue.number}`);
+    return { handled: true, issueNumber: issue.number, reason: 'No config — analysis skipped' };
   }
 
-  const issue = payload.issue as Record<string, unknown> | undefined;
-  if (!issue || typeof issue.number !== 'number') {
-    console.error(`[webhook] issues.opened missing issue data (delivery: ${event.deliveryId})`);
-    return { handled: false, reason: 'Missing issue data in payload' };
+  const plan = await planIssueEvent(event, config, options);
+  if (plan.kind === 'ignore') {
+    return { handled: false, issueNumber: plan.issueNumber, reason: plan.reason };
   }
 
-  const issueNumber = issue.number as number;
-  console.log(
-    `[webhook] Issue #${issueNumber} opened, triggering analysis ` +
-    `(delivery: ${event.deliveryId})`,
-  );
-
-  if (!config) {
-    console.log(`[webhook] No config provided, skipping analysis for issue #${issueNumber}`);
-    return { handled: true, issueNumber, reason: 'No config — analysis skipped' };
+  const { issueNumber } = plan;
+  if (plan.kind === 'cancel') {
+    const cancelled = cancelIssueRuns(config, issueNumber);
+    console.log(`[webhook] Issue #${issueNumber} closed, cancelled ${cancelled} running analysis(es)`);
+    return { handled: cancelled > 0, issueNumber, reason: `${plan.reason}, cancelled ${cancelled} running analysis(es)` };
   }
 
-  // Quick sub-issue context check (informational, non-fatal)
-  try {
-    const { owner, repo } = config.github;
-    const octokit = createGitHubClient(getAuthFromConfig(config.github));
+  console.log(`[webhook] Issue #${issueNumber}: ${plan.reason} (delivery: ${event.deliveryId})`);
 
-    // Check for parent
-    try {
-      const { data: parent } = await octokit.request(
-        'GET /repos/{owner}/{repo}/issues/{issue_number}/sub_issues/parent',
-        { owner, repo, issue_number: issueNumber },
-      );
-      console.log(`[webhook] Issue #${issueNumber} is a sub-issue of #${(parent as any).number}, will include parent context`);
-    } catch (e: unknown) {
-      if ((e as { status?: number }).status !== 404) {
-        console.warn(`[webhook] Could not check parent for #${issueNumber}: ${e}`);
-      }
-    }
+  if (plan.kind === 'analyze') {
+    await logSubIssueContext(config, issueNumber);
+  }
 
-    // Check for sub-issues
-    try {
-      const { data: subIssues } = await octokit.request(
-        'GET /repos/{owner}/{repo}/issues/{issue_number}/sub_issues',
-        { owner, repo, issue_number: issueNumber, per_page: 100 },
-      );
-      const children = subIssues as any[];
-      if (children.length > 0) {
-        console.log(`[webhook] Issue #${issueNumber} has ${children.length} sub-issue(s), will include in analysis`);
-      }
-    } catch (e) {
-      console.warn(`[webhook] Could not check sub-issues for #${issueNumber}: ${e}`);
-    }
-  } catch (e) {
-    console.warn(`[webhook] Sub-issue context check failed for #${issueNumber}: ${e}`);
+  const continueContext = plan.kind === 'continue'
+    ? { prNumber: plan.prNumber, branchName: plan.branchName, humanFeedback: plan.humanFeedback }
+    : undefined;
+  const result = await runIssueArchitect(config, issueNumber, {
+    processId: `webhook-${issueNumber}-${Date.now()}`,
+    label: `issue #${issueNumber}`,
+    overrides: plan.overrides,
+    continueContext,
+  }, options);
+
+  if (result.refused) {
+    console.log(`[webhook] Issue #${issueNumber} not started: ${result.refused}`);
+    return { handled: false, issueNumber, reason: `Refused: ${result.refused}` };
   }
+  return { handled: true, issueNumber, reason: plan.reason, ...(result.error ? { error: result.error } : {}) };
+}
 
-  const startTime = new Date().toISOString();
-  const processId = `webhook-${issueNumber}-${Date.now()}`;
+/**
+ * Run the Architect for an issue as a tracked (cancellable) run, record the
+ * PR it produced and persist the outcome as an AgentProcess so it appears
+ * in the dashboard. Failures are logged and returned, not thrown.
+ */
+async function runIssueArchitect(
+  config: Config,
+  issueNumber: number,
+  run: { processId: string; label: string; overrides?: RouteOverrides; continueContext?: ContinueContext },
+  options: WebhookHandlerOptions,
+): Promise<CommandRunResult> {
+  const { processRepository } = options;
+  const refused = await spendRefusal(config, options);
+  if (refused) return { refused };
+
+  const active = startActiveRun(config, { id: run.processId, type: 'analyze', issueNumber, prNumber: run.continueContext?.prNumber }, options.usageService);
+  const { controller } = active;
+  let outcome: CommandRunResult = {};
   try {
-    const usageService = new UsageService();
-    const result = await runArchitect(config, issueNumber, { usageService, processId });
+    const result = await runArchitect(applyRouteOverrides(config, run.overrides), issueNumber, {
+      usageService: active.usageService,
+      processId: run.processId,
+      repoId: options.repoId,
+      signal: controller.signal,
+      budget: await loadRunBudget(config, issueNumber, options.repoRepository),
+      sandbox: await loadSandboxPolicy(config, options.repoRepository),
+      commandPolicy: await loadCommandPolicy(config, options.repoRepository),
+      verification: await loadVerificationPolicy(config, options.repoRepository),
+      approval: await loadApprovalPolicy(config, options.repoRepository),
+      scm: await loadScmProvider(config, options.repoRepository),
+      onProgress: (update) => {
+        active.phase = update.phase;
+        if (update.iteration !== undefined) active.iteration = update.iteration;
+        if (update.maxIterations !== undefined) active.maxIterations = update.maxIterations;
+      },
+      onApproval: (pending) => {
+        active.phase = pending ? 'awaiting_approval' : 'architect';
+      },
+      ...(run.continueContext ? { continueContext: run.continueContext } : {}),
+    });
     if (result.prNumbers.length > 1) {
       console.log(
-        `[webhook] Architect complete for issue #${issueNumber}` +
+        `[webhook] Architect complete for ${run.label}` +
         `, PRs: ${result.prNumbers.map(n => `#${n}`).join(', ')}`,
       );
     } else {
       console.log(
-        `[webhook] Architect complete for issue #${issueNumber}` +
+        `[webhook] Architect complete for ${run.label}` +
         `${result.prNumber ? `, PR #${result.prNumber}` : ''}`,
       );
     }
+    outcome = { prNumber: result.prNumber };
+    await recordIssuePr(options.pollRepository, options.repoId, issueNumber, result.prNumber, config);
 
     // Persist as AgentProcess so it appears in the dashboard
     if (processRepository) {
       const proc: AgentProcess = {
-        id: processId,
+        id: run.processId,
         type: 'analyze',
-        status: 'completed',
+        status: controller.signal.aborted ? 'cancelled' : 'completed',
         issueNumber,
         prNumber: result.prNumber ?? undefined,
         prNumbers: result.prNumbers.length > 0 ? result.prNumbers : undefined,
         owner: config.github.owner,
         repo: config.github.repo,
-        startedAt: startTime,
+        startedAt: active.startedAt,
         completedAt: new Date().toISOString(),
         outcome: result.outcome,
         logs: [],
@@ -267,81 +399,198 @@ export async function handleIssuesEvent(event: WebhookEvent, config?: Config, pr
       await processRepository.save(proc);
     }
   } catch (err) {
-    console.error(`[webhook] Architect failed for issue #${issueNumber}:`, err);
+    console.error(`[webhook] Architect failed for ${run.label}:`, err);
+    // A run aborted because the issue was closed is not a failure worth retrying
+    if (!controller.signal.aborted) outcome = { error: err instanceof Error ? err.message : String(err) };
 
     // Persist failed process so it appears in the dashboard
     if (processRepository) {
       const proc: AgentProcess = {
-        id: processId,
+        id: run.processId,
         type: 'analyze',
-        status: 'failed',
+        status: controller.signal.aborted ? 'cancelled' : 'failed',
         issueNumber,
         owner: config.github.owner,
         repo: config.github.repo,
-        startedAt: startTime,
+        startedAt: active.startedAt,
         completedAt: new Date().toISOString(),
         error: err instanceof Error ? err.message : String(err),
         logs: [],
       };
       await processRepository.save(proc);
     }
+  } finally {
+    activeRuns.delete(active);
   }
+  return outcome;
+}
+
+/**
+ * Quick sub-issue context check before an analysis (informational, non-fatal).
+ */
+async function logSubIssueContext(config: Config, issueNumber: number): Promise<void> {
+  try {
+    const { owner, repo } = config.github;
+    const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
 
-  return { handled: true, issueNumber, reason: 'Analysis triggered' };
+    // Check for parent
+    try {
+      const { data: parent } = await octokit.request(
+        'GET /repos/{owner}/{repo}/issues/{issue_number}/sub_issues/parent',
+        { owner, repo, issue_number: issueNumber },
+      );
+      console.log(`[webhook] Issue #${issueNumber} is a sub-issue of #${(parent as any).number}, will include parent context`);
+    } catch (e: unknown) {
+      if ((e as { status?: number }).status !== 404) {
+        console.warn(`[webhook] Could not check parent for #${issueNumber}: ${e}`);
+      }
+    }
+
+    // Check for sub-issues
+    try {
+      const { data: subIssues } = await octokit.request(
+        'GET /repos/{owner}/{repo}/issues/{issue_number}/sub_issues',
+        { owner, repo, issue_number: issueNumber, per_page: 100 },
+      );
+      const children = subIssues as any[];
+      if (children.length > 0) {
+        console.log(`[webhook] Issue #${issueNumber} has ${children.length} sub-issue(s), will include in analysis`);
+      }
+    } catch (e) {
+      console.warn(`[webhook] Could not check sub-issues for #${issueNumber}: ${e}`);
+    }
+  } catch (e) {
+    console.warn(`[webhook] Sub-issue context check failed for #${issueNumber}: ${e}`);
+  }
 }
 
 /**
- * Result of handling an issue_comment event (for /prompt commands on bot PRs).
+ * Result of handling an issue_comment event (slash commands on issues and PRs).
  */
 export interface IssueCommentHandlerResult {
   handled: boolean;
   prNumber?: number;
   issueNumber?: number;
+  /** Name of the slash command found in the comment */
+  command?: string;
   reason: string;
+  /** Set when the triggered run failed (lets the job queue retry) */
+  error?: string;
+}
+
+/** Built-in slash commands, shared by every comment handler. */
+const commandRegistry = createDefaultRegistry();
+
+/**
+ * True for deliveries that must not wait in the job queue: issues.closed
+ * and comments with an immediate command (`/cancel`, `/status`). Queued
+ * behind the run they act on, they would only run once it finished.
+ */
+export function isImmediateWebhookEvent(event: WebhookEvent): boolean {
+  const { payload } = event;
+  if (event.event === 'issues') return payload.action === 'closed';
+  if (event.event !== 'issue_comment' || payload.action !== 'created') return false;
+  const body = (payload.comment as { body?: string } | undefined)?.body ?? '';
+  return commandRegistry.parse(body)?.command.immediate === true;
 }
 
 /**
  * Handle an issue_comment.created webhook event.
  *
- * When a human comments `/prompt <instructions>` on a bot-created PR,
- * triggers the Architect's review→fix cycle with the human's instructions.
+ * Comments are parsed for slash commands (see slash-commands.ts), e.g.
+ * `/prompt <instructions>` on a bot-created PR triggers the Architect's
+ * review→fix cycle with the human's instructions. Commands are checked
+ * against where they were posted and the commenter's repo permission
+ * before they run.
  *
  * GitHub sends PR comments as issue_comment events — the `pull_request`
  * field on `payload.issue` distinguishes them from regular issue comments.
  */
-export async function handleIssueCommentEvent(event: WebhookEvent, config?: Config): Promise<IssueCommentHandlerResult> {
+export async function handleIssueCommentEvent(event: WebhookEvent, config?: Config, options: WebhookHandlerOptions = {}): Promise<IssueCommentHandlerResult> {
   const { payload } = event;
 
   if (payload.action !== 'created') {
     return { handled: false, reason: `Ignored action: ${payload.action}` };
   }
 
-  // GitHub sends PR comments as issue_comment events —
-  // the pull_request field on the issue object distinguishes them.
   const issue = payload.issue as Record<string, unknown> | undefined;
-  if (!issue || !issue.pull_request) {
-    return { handled: false, reason: 'Not a PR comment (no pull_request field)' };
+  if (!issue || typeof issue.number !== 'number') {
+    return { handled: false, reason: 'Missing issue data in payload' };
   }
 
-  const comment = payload.comment as Record<string, unknown> | undefined;
+  const comment = payload.comment as Record<string, any> | undefined;
   const commentBody = (comment?.body as string) ?? '';
-  const instructions = extractPromptCommand(commentBody);
-  if (!instructions) {
-    return { handled: false, reason: 'No /prompt command found in comment' };
+  if (comment?.user?.type === 'Bot' || commentBody.includes(COMMAND_REPLY_MARKER)) {
+    return { handled: false, reason: 'Comment posted by a bot' };
+  }
+
+  const parsed = commandRegistry.parse(commentBody);
+  if (!parsed) {
+    return { handled: false, reason: 'No command found in comment' };
   }
 
-  const prNumber = issue.number as number;
-  const prBody = (issue.body as string) ?? '';
+  const { command } = parsed;
+  const number = issue.number;
+  const isPr = Boolean(issue.pull_request);
+  if (command.on === 'pr' && !isPr) {
+    return { handled: false, issueNumber: number, command: command.name, reason: `Not a PR comment: /${command.name} only works on pull requests` };
+  }
+  if (command.on === 'issue' && isPr) {
+    return { handled: false, prNumber: number, command: command.name, reason: `Not an issue comment: /${command.name} only works on issues` };
+  }
 
+  const target = isPr ? { prNumber: number } : { issueNumber: number };
   if (!config) {
-    console.log(`[webhook] No config provided, skipping /prompt for PR #${prNumber}`);
-    return { handled: true, prNumber, reason: 'No config — analysis skipped' };
+    console.log(`[webhook] No config provided, skipping /${command.name} on #${number}`);
+    return { handled: true, ...target, command: command.name, reason: `No config — /${command.name} skipped` };
   }
+  const unsupported = await refuseNonGitHubRepo(config, options, 'Slash commands');
+  if (unsupported) return { handled: false, ...target, command: command.name, reason: unsupported };
+
+  const outcome = await executeCommand(parsed, {
+    config,
+    runtime: options.commandRuntime?.(config, options.repoId) ?? createListenerCommandRuntime(config, options),
+    number,
+    isPr,
+    sender: comment?.user?.login ?? '',
+    modelOverrideRepository: options.modelOverrideRepository,
+    pollRepository: options.pollRepository,
+    repoId: options.repoId,
+    resolvePr: () => resolveBotPr(event, config, number, (issue.title as string) ?? ''),
+  }, comment?.id);
+
+  return {
+    handled: outcome.handled,
+    ...target,
+    ...(outcome.prNumber !== undefined ? { prNumber: outcome.prNumber } : {}),
+    ...(outcome.issueNumber !== undefined ? { issueNumber: outcome.issueNumber } : {}),
+    command: command.name,
+    reason: outcome.reason,
+    ...(outcome.error ? { error: outcome.error } : {}),
+  };
+}
+
+/**
+ * Why a GitHub event is refused for a repo registered on another host, or
+ * undefined for GitHub repos. Commenter permissions, PRs, reviews and
+ * checks are read through Octokit, which can't reach that host.
+ */
+async function refuseNonGitHubRepo(config: Config, options: WebhookHandlerOptions, what: string): Promise<string | undefined> {
+  const { provider } = await resolveScmTarget(config, options.repoRepository);
+  if (provider === 'github') return undefined;
+  const { owner, repo } = config.github;
+  console.warn(`[webhook] ${what} refused: ${owner}/${repo} is on ${provider}`);
+  return `${what} are not supported for ${provider} repos`;
+}
 
-  // Fetch PR details (branch name) via the GitHub API since issue_comment
-  // payloads don't include head ref.
+/**
+ * Look up the branch of the bot PR a comment was posted on and the issue
+ * it fixes. issue_comment payloads don't include the head ref, so the PR
+ * is fetched from the GitHub API.
+ */
+async function resolveBotPr(event: WebhookEvent, config: Config, prNumber: number, prTitle: string): Promise<LinkedPr | CommandOutcome> {
   const { owner, repo } = config.github;
-  const octokit = createGitHubClient(getAuthFromConfig(config.github));
+  const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
 
   let branchName: string;
   try {
@@ -355,7 +604,7 @@ export async function handleIssueCommentEvent(event: WebhookEvent, config?: Conf
     // Check if this is a bot PR using the full body + branch
     if (!isBotPr(prData.body ?? '', branchName)) {
       console.log(
-        `[webhook] PR #${prNumber} not created by bot, ignoring /prompt ` +
+        `[webhook] PR #${prNumber} not created by bot, ignoring command ` +
         `(delivery: ${event.deliveryId})`,
       );
       return { handled: true, prNumber, reason: 'PR not created by bot' };
@@ -365,83 +614,535 @@ export async function handleIssueCommentEvent(event: WebhookEvent, config?: Conf
     return { handled: false, prNumber, reason: 'Failed to fetch PR details' };
   }
 
-  // Extract issue number from PR title ("Fix #N:") or branch name ("issue-N-")
-  let issueNumber: number | undefined;
-  // Try PR title first
-  const prTitle = (issue.title as string) ?? '';
+  const issueNumber = extractLinkedIssueNumber(prTitle, branchName);
+  if (!issueNumber) {
+    console.error(
+      `[webhook] Could not extract issue number from PR #${prNumber} ` +
+      `(title: "${prTitle}", branch: "${branchName}")`,
+    );
+    return { handled: false, prNumber, reason: 'Could not extract issue number' };
+  }
+
+  return { prNumber, branchName, issueNumber };
+}
+
+/**
+ * Issue number a bot PR fixes, from its title ("Fix #N:") or, failing
+ * that, its branch name ("issue-N-").
+ */
+function extractLinkedIssueNumber(prTitle: string, branchName: string): number | undefined {
   const titleMatch = prTitle.match(/Fix\s+#(\d+):/i);
-  if (titleMatch) {
-    issueNumber = parseInt(titleMatch[1], 10);
+  if (titleMatch) return parseInt(titleMatch[1], 10);
+  const branchMatch = branchName.match(/^issue-(\d+)-/);
+  return branchMatch ? parseInt(branchMatch[1], 10) : undefined;
+}
+
+/**
+ * Result of handling a pull_request_review or pull_request_review_comment event.
+ */
+export interface PrReviewHandlerResult {
+  handled: boolean;
+  prNumber?: number;
+  issueNumber?: number;
+  reviewId?: number;
+  reason: string;
+  /** Set when the triggered run failed (lets the job queue retry) */
+  error?: string;
+}
+
+/**
+ * Handle a human review on a bot PR: pull_request_review.submitted, or
+ * pull_request_review_comment.created for a single inline comment or a
+ * reply in a thread.
+ *
+ * The review's inline comments become the human feedback of a continue
+ * run on the PR; the coder replies in each thread and resolves it once
+ * the fix is pushed. Reviews by the bot itself, reviews from commenters
+ * without write permission and reviews already claimed by another
+ * delivery (see pr-review-feedback.ts) are ignored.
+ */
+export async function handlePullRequestReviewEvent(event: WebhookEvent, config?: Config, options: WebhookHandlerOptions = {}): Promise<PrReviewHandlerResult> {
+  const { payload } = event;
+  const isComment = event.event === 'pull_request_review_comment';
+  const expectedAction = isComment ? 'created' : 'submitted';
+  if (payload.action !== expectedAction) {
+    return { handled: false, reason: `Ignored action: ${payload.action}` };
   }
-  // Fall back to branch name
+
+  const pr = payload.pull_request as Record<string, any> | undefined;
+  if (!pr || typeof pr.number !== 'number') {
+    console.error(`[webhook] ${event.event}.${payload.action} missing pull_request data (delivery: ${event.deliveryId})`);
+    return { handled: false, reason: 'Missing pull_request data in payload' };
+  }
+  const prNumber = pr.number as number;
+  const branchName = (pr.head?.ref as string) ?? '';
+  if (!isBotPr(pr.body ?? '', branchName)) {
+    return { handled: false, prNumber, reason: 'PR not created by bot' };
+  }
+
+  const comment = payload.comment as Record<string, any> | undefined;
+  if (isComment && (comment?.user?.type === 'Bot' || (comment?.body ?? '').includes(BOT_THREAD_REPLY_MARKER))) {
+    return { handled: false, prNumber, reason: 'Comment posted by the bot' };
+  }
+
+  if (!config) {
+    console.log(`[webhook] No config provided, skipping review feedback for PR #${prNumber}`);
+    return { handled: true, prNumber, reason: 'No config — review skipped' };
+  }
+  const unsupported = await refuseNonGitHubRepo(config, options, 'PR reviews');
+  if (unsupported) return { handled: false, prNumber, reason: unsupported };
+
+  let review = payload.review as ReviewSummary | undefined;
+  try {
+    if (isComment) {
+      const { owner, repo } = config.github;
+      const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
+      const { data } = await octokit.rest.pulls.getReview({ owner, repo, pull_number: prNumber, review_id: comment?.pull_request_review_id });
+      review = data as ReviewSummary;
+    }
+  } catch (err) {
+    console.error(`[webhook] Failed to fetch review for PR #${prNumber}:`, err);
+    return { handled: false, prNumber, reason: 'Failed to fetch review' };
+  }
+  if (!review || typeof review.id !== 'number') {
+    return { handled: false, prNumber, reason: 'Missing review data' };
+  }
+  const reviewId = review.id;
+  if (isBotReview(review)) {
+    return { handled: false, prNumber, reviewId, reason: 'Review posted by the bot' };
+  }
+
+  const reviewer = review.user?.login ?? '';
+  const permission = await getCommenterPermission(config, reviewer);
+  if (!hasPermission(permission, 'write')) {
+    console.log(`[webhook] Ignoring review ${reviewId} on PR #${prNumber} by ${reviewer || 'unknown user'} (${permission})`);
+    return { handled: false, prNumber, reviewId, reason: `Reviewer ${reviewer} lacks write permission (${permission})` };
+  }
+
+  const issueNumber = extractLinkedIssueNumber((pr.title as string) ?? '', branchName);
   if (!issueNumber) {
-    const branchMatch = branchName.match(/^issue-(\d+)-/);
-    if (branchMatch) {
-      issueNumber = parseInt(branchMatch[1], 10);
+    return { handled: false, prNumber, reviewId, reason: 'Could not extract issue number' };
+  }
+
+  let feedback: ReviewFeedback;
+  try {
+    feedback = await fetchReviewFeedback(config, prNumber, review);
+  } catch (err) {
+    console.error(`[webhook] Failed to fetch comments of review ${reviewId} on PR #${prNumber}:`, err);
+    return { handled: false, prNumber, issueNumber, reviewId, reason: 'Failed to fetch review comments' };
+  }
+  if (!hasFeedback(feedback)) {
+    return { handled: false, prNumber, issueNumber, reviewId, reason: 'Review has no feedback to act on' };
+  }
+  if (!await claimReview(options.claimRepository, config, prNumber, reviewId, event.deliveryId)) {
+    return { handled: false, prNumber, issueNumber, reviewId, reason: `Review ${reviewId} already handled` };
+  }
+
+  console.log(
+    `[webhook] Review ${reviewId} by ${feedback.reviewer} on PR #${prNumber}: ` +
+    `${feedback.comments.length} inline comment(s), continuing issue #${issueNumber} (delivery: ${event.deliveryId})`,
+  );
+  const runtime = options.commandRuntime?.(config, options.repoId) ?? createListenerCommandRuntime(config, options);
+  const overrides = await loadThreadOverrides(options.modelOverrideRepository, config, issueNumber, prNumber);
+  const result = await runtime.continuePr(issueNumber, prNumber, branchName, formatReviewFeedback(prNumber, feedback), overrides);
+  if (result.refused) {
+    return { handled: false, prNumber, issueNumber, reviewId, reason: `Refused: ${result.refused}` };
+  }
+  return {
+    handled: true,
+    prNumber,
+    issueNumber,
+    reviewId,
+    reason: `Review feedback (${feedback.comments.length} comment(s))`,
+    ...(result.error ? { error: result.error } : {}),
+  };
+}
+
+/**
+ * Result of handling a check_suite or workflow_run event.
+ */
+export interface CiHandlerResult {
+  handled: boolean;
+  prNumber?: number;
+  issueNumber?: number;
+  headSha?: string;
+  reason: string;
+  /** Set when the triggered run failed (lets the job queue retry) */
+  error?: string;
+}
+
+/**
+ * Handle check_suite.completed and workflow_run.completed on a bot PR.
+ *
+ * Once every check on the PR's head commit has finished and one of them
+ * failed, the failed jobs' logs (see ci-logs.ts) become the feedback of a
+ * continue run on the PR. Events for a commit that is no longer the PR's
+ * head, PRs with a run in progress and commits already claimed by another
+ * delivery are ignored; CI_FIX_MAX_ATTEMPTS caps the fix runs per PR.
+ */
+export async function handleCiCompletedEvent(event: WebhookEvent, config?: Config, options: WebhookHandlerOptions = {}): Promise<CiHandlerResult> {
+  const { payload } = event;
+  if (payload.action !== 'completed') {
+    return { handled: false, reason: `Ignored action: ${payload.action}` };
+  }
+
+  const run = (event.event === 'workflow_run' ? payload.workflow_run : payload.check_suite) as Record<string, any> | undefined;
+  if (!run || typeof run.head_sha !== 'string') {
+    console.error(`[webhook] ${event.event}.completed missing ${event.event} data (delivery: ${event.deliveryId})`);
+    return { handled: false, reason: `Missing ${event.event} data in payload` };
+  }
+  const headSha = run.head_sha as string;
+  // Fork PRs are not listed here, and the bot only pushes to its own repo
+  const prNumber = (run.pull_requests as Array<{ number: number }> | undefined)?.[0]?.number;
+  if (!prNumber) {
+    return { handled: false, headSha, reason: 'No pull request for this commit' };
+  }
+
+  if (!config) {
+    console.log(`[webhook] No config provided, skipping CI result for PR #${prNumber}`);
+    return { handled: true, prNumber, headSha, reason: 'No config — CI fix skipped' };
+  }
+  const unsupported = await refuseNonGitHubRepo(config, options, 'CI fixes');
+  if (unsupported) return { handled: false, prNumber, headSha, reason: unsupported };
+  const maxAttempts = config.ciFix?.maxAttempts ?? 3;
+  if (maxAttempts === 0) {
+    return { handled: false, prNumber, headSha, reason: 'Automatic CI fixes disabled' };
+  }
+
+  const { owner, repo } = config.github;
+  const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
+  let pr: Record<string, any>;
+  let pending: number;
+  let failed: number;
+  try {
+    ({ data: pr } = await octokit.rest.pulls.get({ owner, repo, pull_number: prNumber }));
+    if (pr.state !== 'open' || !isBotPr(pr.body ?? '', pr.head.ref)) {
+      return { handled: false, prNumber, headSha, reason: pr.state !== 'open' ? 'PR is not open' : 'PR not created by bot' };
+    }
+    if (pr.head.sha !== headSha) {
+      return { handled: false, prNumber, headSha, reason: 'Commit is no longer the PR head' };
     }
+    const { data } = await octokit.rest.checks.listForRef({ owner, repo, ref: headSha, filter: 'latest', per_page: 100 });
+    pending = data.check_runs.filter(cr => cr.status !== 'completed').length;
+    failed = data.check_runs.filter(cr => cr.status === 'completed' && FAILED_CONCLUSIONS.includes(cr.conclusion ?? '')).length;
+  } catch (err) {
+    console.error(`[webhook] Failed to fetch PR #${prNumber} or its checks:`, err);
+    return { handled: false, prNumber, headSha, reason: 'Failed to fetch PR details' };
+  }
+  // The last check to finish triggers the fix, whatever its own conclusion
+  if (pending > 0) {
+    return { handled: false, prNumber, headSha, reason: `Waiting for ${pending} check(s) to finish` };
+  }
+  if (failed === 0) {
+    return { handled: false, prNumber, headSha, reason: 'CI passed' };
   }
 
+  const branchName = pr.head.ref as string;
+  const issueNumber = extractLinkedIssueNumber((pr.title as string) ?? '', branchName);
   if (!issueNumber) {
-    console.error(
-      `[webhook] Could not extract issue number from PR #${prNumber} ` +
-      `(title: "${prTitle}", branch: "${branchName}")`,
-    );
-    return { handled: false, prNumber, reason: 'Could not extract issue number' };
+    return { handled: false, prNumber, headSha, reason: 'Could not extract issue number' };
+  }
+
+  const runtime = options.commandRuntime?.(config, options.repoId) ?? createListenerCommandRuntime(config, options);
+  if ((await runtime.status(prNumber)).length > 0) {
+    return { handled: false, prNumber, issueNumber, headSha, reason: 'A run is already active on this PR' };
+  }
+  const claim = await claimCiFix(options.claimRepository, config, prNumber, headSha, event.deliveryId, maxAttempts);
+  if (claim === 'duplicate') {
+    return { handled: false, prNumber, issueNumber, headSha, reason: `CI failure on ${headSha.slice(0, 7)} already handled` };
+  }
+  if (claim === 'limit') {
+    console.log(`[webhook] PR #${prNumber} reached ${maxAttempts} automatic CI fix(es), leaving ${headSha.slice(0, 7)} to a human`);
+    return { handled: false, prNumber, issueNumber, headSha, reason: `CI fix limit (${maxAttempts}) reached` };
+  }
+
+  let failures: CiJobFailure[];
+  try {
+    failures = await fetchCiFailures(octokit, owner, repo, headSha);
+  } catch (err) {
+    console.error(`[webhook] Failed to fetch CI logs for PR #${prNumber}:`, err);
+    return { handled: false, prNumber, issueNumber, headSha, reason: 'Failed to fetch CI logs', error: err instanceof Error ? err.message : String(err) };
   }
 
   console.log(
-    `[webhook] /prompt on PR #${prNumber} for issue #${issueNumber}: "${instructions}" ` +
-    `(delivery: ${event.deliveryId})`,
+    `[webhook] CI failed on PR #${prNumber} (${headSha.slice(0, 7)}): ${failures.map(f => f.name).join(', ') || `${failed} check(s)`}, ` +
+    `continuing issue #${issueNumber} (delivery: ${event.deliveryId})`,
   );
+  const overrides = await loadThreadOverrides(options.modelOverrideRepository, config, issueNumber, prNumber);
+  const result = await runtime.continuePr(issueNumber, prNumber, branchName, formatCiFailures(prNumber, headSha, failures), overrides);
+  if (result.refused) {
+    return { handled: false, prNumber, issueNumber, headSha, reason: `Refused: ${result.refused}` };
+  }
+  return {
+    handled: true,
+    prNumber,
+    issueNumber,
+    headSha,
+    reason: `CI fix (${failed} failed check(s))`,
+    ...(result.error ? { error: result.error } : {}),
+  };
+}
+
+/**
+ * CommandRuntime for the standalone listener: runs agents in-process and
+ * tracks them in the active-runs registry.
+ */
+function createListenerCommandRuntime(config: Config, options: WebhookHandlerOptions): CommandRuntime {
+  return {
+    analyze: (issueNumber, overrides) => runIssueArchitect(config, issueNumber, {
+      processId: `command-${issueNumber}-${Date.now()}`,
+      label: `issue #${issueNumber}`,
+      overrides,
+    }, options),
+
+    continuePr: (issueNumber, prNumber, branchName, humanFeedback, overrides) => runIssueArchitect(config, issueNumber, {
+      processId: `prompt-${prNumber}-${Date.now()}`,
+      label: `command on PR #${prNumber}`,
+      overrides,
+      continueContext: { prNumber, branchName, humanFeedback },
+    }, options),
+
+    async review(prNumber) {
+      const refused = await spendRefusal(config, options);
+      if (refused) return { refused };
+
+      const active = startActiveRun(config, { id: `review-${prNumber}-${Date.now()}`, type: 'review', prNumber }, options.usageService);
+      try {
+        await runReviewSingle(config, prNumber, {
+          signal: active.controller.signal,
+          usageService: active.usageService,
+          processId: active.id,
+          repoId: options.repoId,
+          budget: await loadRunBudget(config, prNumber, options.repoRepository),
+        });
+        return {};
+      } catch (err) {
+        console.error(`[webhook] Review failed for PR #${prNumber}:`, err);
+        return active.controller.signal.aborted ? {} : { error: err instanceof Error ? err.message : String(err) };
+      } finally {
+        activeRuns.delete(active);
+      }
+    },
+
+    async cancel(number) {
+      const runs = findActiveRuns(config, number, true);
+      for (const run of runs) {
+        run.controller.abort();
+        activeRuns.delete(run);
+      }
+      return runs.length;
+    },
+
+    async status(number) {
+      return Promise.all(findActiveRuns(config, number, true).map(async (run): Promise<CommandRunInfo> => {
+        const usage = await run.usageService.summarize({ processId: run.id });
+        return {
+          id: run.id,
+          type: run.type,
+          issueNumber: run.issueNumber,
+          prNumber: run.prNumber,
+          phase: run.phase,
+          iteration: run.iteration,
+          maxIterations: run.maxIterations,
+          costUsd: usage.totalEstimatedCost,
+          startedAt: run.startedAt,
+        };
+      }));
+    },
+
+    async decidePlan(issueNumber, decision) {
+      return decideApproval(config.github.owner, config.github.repo, issueNumber, decision);
+    },
+  };
+}
+
+/** Job type used when webhook deliveries are routed through the JobQueue. */
+export const WEBHOOK_JOB = 'webhook';
+
+/**
+ * Optional collaborators for webhook handling.
+ */
+export interface WebhookHandlerOptions {
+  /** Persists AgentProcess records for webhook-triggered analyses */
+  processRepository?: ProcessRepository;
+  /** When set, deliveries are enqueued instead of run detached */
+  jobQueue?: JobQueue;
+  /** When set, deliveries are persisted, deduplicated, and their results recorded */
+  deliveryRepository?: WebhookDeliveryRepository;
+  /** Source of per-repo routing rules for issues events */
+  repoRepository?: RepoRepository;
+  /** IssueActions store, so later issue events continue an existing PR */
+  pollRepository?: PollRepository;
+  repoId?: number;
+  /** Holds per-thread `/model` overrides */
+  modelOverrideRepository?: ModelOverrideRepository;
+  /** Claims reviews and CI fixes, so each is handled by one delivery */
+  claimRepository?: ClaimRepository;
+  /** Builds the runtime for slash commands, review feedback and CI fixes of the event's repo; defaults to in-process runs */
+  commandRuntime?: (config: Config, repoId?: number) => CommandRuntime;
+  /** Records usage of in-process runs; defaults to an in-memory service per run */
+  usageService?: UsageService;
+  /** Refuses new runs once a spend cap is reached */
+  spendGuard?: SpendGuard;
+}
+
+/**
+ * Outcome of running a webhook event through its handler.
+ */
+export interface WebhookDispatchResult {
+  handled: boolean;
+  reason: string;
+}
+
+/**
+ * The "owner/repo" a delivery belongs to — used as the job queue's
+ * per-repo concurrency key. Falls back to the configured repo.
+ */
+export function getWebhookRepoKey(event: WebhookEvent, config?: Config): string {
+  const repository = event.payload.repository as Record<string, unknown> | undefined;
+  if (typeof repository?.full_name === 'string') return repository.full_name;
+  if (config?.github) return `${config.github.owner}/${config.github.repo}`;
+  return 'unknown';
+}
+
+/**
+ * The repo a delivery came from: its config and repo id. Deliveries without
+ * a repository, or from the configured repo, use the defaults; others are
+ * looked up in the repos table, and use the App installation the payload
+ * names. Undefined for repos that aren't registered (or were deactivated),
+ * whose deliveries are ignored.
+ */
+export async function resolveWebhookRepo(
+  event: WebhookEvent,
+  config: Config | undefined,
+  options: WebhookHandlerOptions = {},
+): Promise<{ config?: Config; repoId?: number } | undefined> {
+  const repository = event.payload.repository as Record<string, unknown> | undefined;
+  // GitLab namespaces may contain "/": the repo is the last segment
+  const match = typeof repository?.full_name === 'string' ? /^(.+)\/([^/]+)$/.exec(repository.full_name) : null;
+  if (!config || !match) return { config, repoId: options.repoId };
+  const [, owner, repo] = match;
+  if (owner === config.github.owner && repo === config.github.repo) return { config, repoId: options.repoId };
+
+  const record = options.repoRepository ? await Promise.resolve(options.repoRepository.getByOwnerRepo(owner, repo)) : undefined;
+  if (!record?.isActive) return undefined;
+  const installation = event.payload.installation as Record<string, unknown> | undefined;
+  const installationId = typeof installation?.id === 'number' ? installation.id : undefined;
+  return { config: await configForRepo(config, record, installationId), repoId: record.id };
+}
 
-  // Fire-and-forget: run Architect with human feedback context
+/**
+ * Persist a freshly received delivery. Returns false when the delivery id
+ * was seen before (a GitHub redelivery) and the event should be dropped.
+ *
+ * Persistence errors are logged and the event is let through — losing
+ * dedup for one delivery beats losing the delivery.
+ */
+export async function recordWebhookDelivery(event: WebhookEvent, deliveryRepository?: WebhookDeliveryRepository): Promise<boolean> {
+  if (!deliveryRepository || event.deliveryId === 'unknown') return true;
   try {
-    const promptUsageService = new UsageService();
-    const promptProcessId = `prompt-${prNumber}-${Date.now()}`;
-    const result = await runArchitect(config, issueNumber, {
-      continueContext: { prNumber, branchName, humanFeedback: instructions },
-      usageService: promptUsageService,
-      processId: promptProcessId,
-    });
-    console.log(
-      `[webhook] Architect complete for /prompt on PR #${prNumber}` +
-      `${result.prNumber ? `, PR #${result.prNumber}` : ''}`,
-    );
+    const isNew = await Promise.resolve(deliveryRepository.record(event));
+    if (!isNew) {
+      console.log(`[webhook] Duplicate delivery ${event.deliveryId} (${event.event}), ignoring`);
+    }
+    return isNew;
   } catch (err) {
-    console.error(`[webhook] Architect failed for /prompt on PR #${prNumber}:`, err);
+    console.error(`[webhook] Failed to persist delivery ${event.deliveryId}:`, err);
+    return true;
   }
+}
 
-  return { handled: true, prNumber, issueNumber, reason: 'Prompt triggered' };
+/**
+ * Record a delivery's handling result. Never throws.
+ */
+export async function recordWebhookResult(
+  deliveryRepository: WebhookDeliveryRepository | undefined,
+  deliveryId: string | undefined,
+  status: WebhookDeliveryStatus,
+  reason?: string,
+): Promise<void> {
+  if (!deliveryRepository || !deliveryId || deliveryId === 'unknown') return;
+  try {
+    await Promise.resolve(deliveryRepository.setResult(deliveryId, status, reason));
+  } catch (err) {
+    console.error(`[webhook] Failed to record result for delivery ${deliveryId}:`, err);
+  }
 }
 
 /**
- * Dispatch a parsed webhook event to the appropriate handler.
- * Config is optional — when provided, issues.opened events trigger analysis.
+ * Run the handler for a parsed webhook event to completion, against the
+ * repo the delivery came from (see resolveWebhookRepo).
+ *
+ * Rejects when the triggered agent run failed, so callers that retry
+ * (the job queue) can tell a failed run apart from an ignored event.
+ * The outcome is recorded on the stored delivery when a delivery
+ * repository is given.
  */
-export function handleWebhookEvent(event: WebhookEvent, config?: Config, processRepository?: ProcessRepository): void {
-  if (event.event === 'pull_request') {
-    // Fire-and-forget — don't await, just log errors
-    handlePullRequestEvent(event, config).catch((err) => {
-      console.error(`[webhook] PR handler error:`, err);
-    });
-    return;
+export async function dispatchWebhookEvent(event: WebhookEvent, config?: Config, options: WebhookHandlerOptions = {}): Promise<WebhookDispatchResult> {
+  const { deliveryRepository } = options;
+  let result: WebhookDispatchResult & { error?: string };
+  try {
+    const target = await resolveWebhookRepo(event, config, options);
+    const repoConfig = target?.config;
+    const repoOptions = { ...options, repoId: target?.repoId };
+    if (!target) {
+      result = { handled: false, reason: `Repo ${getWebhookRepoKey(event)} is not registered` };
+    } else if (event.event === 'pull_request') {
+      result = await handlePullRequestEvent(event, repoConfig);
+    } else if (event.event === 'issues') {
+      result = await handleIssuesEvent(event, repoConfig, repoOptions);
+    } else if (event.event === 'issue_comment') {
+      result = await handleIssueCommentEvent(event, repoConfig, repoOptions);
+    } else if (event.event === 'pull_request_review' || event.event === 'pull_request_review_comment') {
+      result = await handlePullRequestReviewEvent(event, repoConfig, repoOptions);
+    } else if (event.event === 'check_suite' || event.event === 'workflow_run') {
+      result = await handleCiCompletedEvent(event, repoConfig, repoOptions);
+    } else {
+      result = { handled: false, reason: `Unhandled event type: ${event.event}` };
+    }
+  } catch (err) {
+    await recordWebhookResult(deliveryRepository, event.deliveryId, 'failed', err instanceof Error ? err.message : String(err));
+    throw err;
   }
 
-  if (event.event === 'issues') {
-    // Fire-and-forget — don't await, just log errors
-    handleIssuesEvent(event, config, processRepository).catch((err) => {
-      console.error(`[webhook] Issues handler error:`, err);
-    });
-    return;
+  if (result.error) {
+    await recordWebhookResult(deliveryRepository, event.deliveryId, 'failed', result.error);
+    throw new Error(result.error);
   }
+  await recordWebhookResult(deliveryRepository, event.deliveryId, result.handled ? 'handled' : 'ignored', result.reason);
+  return { handled: result.handled, reason: result.reason };
+}
+
+/**
+ * Build the JobQueue handler for WEBHOOK_JOB jobs. The job payload is the
+ * WebhookEvent itself.
+ */
+export function createWebhookJobHandler(config?: Config, options: WebhookHandlerOptions = {}): JobHandler {
+  return async (job) => {
+    await dispatchWebhookEvent(job.payload as unknown as WebhookEvent, config, options);
+  };
+}
 
-  if (event.event === 'issue_comment') {
-    // Fire-and-forget — don't await, just log errors
-    handleIssueCommentEvent(event, config).catch((err) => {
-      console.error(`[webhook] Issue comment handler error:`, err);
+/**
+ * Dispatch a parsed webhook event to the appropriate handler.
+ * Config is optional — when provided, issues events trigger analysis.
+ *
+ * With a job queue the event is persisted and picked up by a worker;
+ * without one the handler runs detached (fire-and-forget). Immediate
+ * events (see isImmediateWebhookEvent) always run right away.
+ */
+export function handleWebhookEvent(event: WebhookEvent, config?: Config, options: WebhookHandlerOptions = {}): void {
+  if (options.jobQueue && !isImmediateWebhookEvent(event)) {
+    options.jobQueue.enqueue(WEBHOOK_JOB, getWebhookRepoKey(event, config), event as unknown as Record<string, unknown>).catch((err) => {
+      console.error(`[webhook] Failed to enqueue ${event.event} delivery ${event.deliveryId}:`, err);
     });
     return;
   }
+
+  // Fire-and-forget — don't await, just log errors
+  dispatchWebhookEvent(event, config, options).catch((err) => {
+    console.error(`[webhook] ${event.event} handler error:`, err);
+  });
 }
 
 /**
@@ -473,19 +1174,46 @@ export function verifySignature(
   return timingSafeEqual(Buffer.from(expected, 'utf-8'), Buffer.from(actual, 'utf-8'));
 }
 
+/**
+ * Read a GitLab webhook request (POST /webhook/gitlab): check its
+ * X-Gitlab-Token and turn the payload into a WebhookEvent (see
+ * toWebhookEvent in gitlab-provider.ts). The delivery id is
+ * X-Gitlab-Event-UUID, which GitLab keeps on manual resends.
+ */
+export function readGitLabWebhook(
+  secret: string,
+  rawBody: Buffer,
+  headers: Record<string, string | string[] | undefined>,
+): { event: WebhookEvent } | { status: number; error: string } {
+  if (!verifyGitLabToken(secret, headers['x-gitlab-token'] as string | undefined)) {
+    return { status: 401, error: 'Invalid token' };
+  }
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(rawBody.toString('utf-8'));
+  } catch {
+    return { status: 400, error: 'Invalid JSON payload' };
+  }
+  const deliveryId = headers['x-gitlab-event-uuid'] as string | undefined;
+  return { event: toGitLabWebhookEvent(payload, deliveryId ? `gitlab-${deliveryId}` : 'unknown') };
+}
+
 /**
  * Create and configure the Express app for receiving GitHub webhooks.
  *
- * The app has two endpoints:
+ * The app has three endpoints:
  * - GET  /health  — health check (returns 200 with JSON status)
  * - POST /webhook — receives GitHub webhook payloads
+ * - POST /webhook/gitlab — receives GitLab webhook payloads (see readGitLabWebhook)
  *
  * The webhook endpoint verifies the HMAC signature, parses the event
  * type and delivery ID from headers, and dispatches to event handlers.
  *
  * When fullConfig is provided, issues.opened events trigger analysis.
+ * With a delivery repository, redeliveries of a known X-GitHub-Delivery id
+ * are acknowledged but not dispatched again.
  */
-export function createWebhookApp(config: WebhookConfig, fullConfig?: Config): express.Express {
+export function createWebhookApp(config: WebhookConfig, fullConfig?: Config, options: WebhookHandlerOptions = {}): express.Express {
   const app = express();
 
   // Parse raw body for HMAC verification, then JSON
@@ -500,7 +1228,7 @@ export function createWebhookApp(config: WebhookConfig, fullConfig?: Config): ex
   });
 
   // Webhook receiver
-  app.post('/webhook', (req: Request, res: Response) => {
+  app.post('/webhook', async (req: Request, res: Response) => {
     const rawBody = req.body as Buffer;
 
     // Verify signature
@@ -542,17 +1270,47 @@ export function createWebhookApp(config: WebhookConfig, fullConfig?: Config): ex
       `(delivery: ${webhookEvent.deliveryId})`,
     );
 
+    // Drop GitHub redeliveries of an already-received delivery
+    if (!await recordWebhookDelivery(webhookEvent, options.deliveryRepository)) {
+      res.status(200).json({ received: true, duplicate: true, event, deliveryId: webhookEvent.deliveryId });
+      return;
+    }
+
     // Fire-and-forget: respond 200 immediately, then dispatch
     res.status(200).json({ received: true, event, deliveryId: webhookEvent.deliveryId });
 
     // Dispatch to event handlers (async, after response is sent)
     try {
-      handleWebhookEvent(webhookEvent, fullConfig);
+      handleWebhookEvent(webhookEvent, fullConfig, options);
     } catch (err) {
       console.error(`[webhook] Handler error for ${event}.${action}:`, err);
     }
   });
 
+  app.post('/webhook/gitlab', async (req: Request, res: Response) => {
+    const read = readGitLabWebhook(fullConfig?.gitlab?.webhookSecret ?? config.secret, req.body as Buffer, req.headers);
+    if ('error' in read) {
+      if (read.status === 401) console.error('[webhook] GitLab token verification failed');
+      res.status(read.status).json({ error: read.error });
+      return;
+    }
+    const webhookEvent = read.event;
+    const action = typeof webhookEvent.payload.action === 'string' ? webhookEvent.payload.action : '';
+    console.log(`[webhook] Received GitLab ${webhookEvent.event}${action ? `.${action}` : ''} (delivery: ${webhookEvent.deliveryId})`);
+
+    if (!await recordWebhookDelivery(webhookEvent, options.deliveryRepository)) {
+      res.status(200).json({ received: true, duplicate: true, event: webhookEvent.event, deliveryId: webhookEvent.deliveryId });
+      return;
+    }
+    res.status(200).json({ received: true, event: webhookEvent.event, deliveryId: webhookEvent.deliveryId });
+
+    try {
+      handleWebhookEvent(webhookEvent, fullConfig, options);
+    } catch (err) {
+      console.error(`[webhook] Handler error for GitLab ${webhookEvent.event}.${action}:`, err);
+    }
+  });
+
   return app;
 }
 
@@ -562,8 +1320,8 @@ export function createWebhookApp(config: WebhookConfig, fullConfig?: Config): ex
  * Returns the HTTP server instance so callers can close it for graceful
  * shutdown or in tests.
  */
-export function startWebhookServer(config: WebhookConfig, fullConfig?: Config) {
-  const app = createWebhookApp(config, fullConfig);
+export function startWebhookServer(config: WebhookConfig, fullConfig?: Config, options: WebhookHandlerOptions = {}) {
+  const app = createWebhookApp(config, fullConfig, options);
 
   const server = app.listen(config.port, () => {
     console.log(`[webhook] Listening on port ${config.port}`);
@@ -592,12 +1350,16 @@ function getStaticDir(): string {
  * - GET  /health  — health check
  * - GET  /        — serves dialog.html
  * - POST /chat    — sends a message to the chat agent, returns the response
+ *
+ * With config.auth set, everything except /health needs a login (see auth.ts).
  */
-export function createDialogApp(config: Config): express.Express {
+export function createDialogApp(config: Config, sessionRepository?: SessionRepository): express.Express {
   const app = express();
 
   app.use(express.json());
 
+  installAuth(app, config, { sessionRepository });
+
   // Health check
   app.get('/health', (_req: Request, res: Response) => {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -649,14 +1411,15 @@ export function createDialogApp(config: Config): express.Express {
  *
  * Returns the HTTP server instance for graceful shutdown.
  */
-export function startDialogServer(config: Config, port: number) {
-  const app = createDialogApp(config);
+export function startDialogServer(config: Config, port: number, sessionRepository?: SessionRepository) {
+  const app = createDialogApp(config, sessionRepository);
 
   const server = app.listen(port, () => {
     console.log(`[dialog] Listening on port ${port}`);
     console.log(`[dialog] Chat UI:      http://localhost:${port}/`);
     console.log(`[dialog] Chat API:     http://localhost:${port}/chat`);
     console.log(`[dialog] Health check: http://localhost:${port}/health`);
+    if (!config.auth) console.warn('[dialog] ⚠️  AUTH_PROVIDER is not set — anyone who can reach this port can use the chat agent');
     console.log('[dialog] Ready for conversations.\n');
   });
 
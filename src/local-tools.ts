@@ -4,6 +4,10 @@ import fs from 'fs';
 import path from 'path';
 import { execSync } from 'child_process';
 import type { Workspace } from './workspace.js';
+import { resolveSandboxPolicy, runSandboxed } from './sandbox.js';
+import type { SandboxPolicy } from './sandbox.js';
+import { checkCommand, checkFileWrite, formatRefusal, logRefusal } from './command-policy.js';
+import type { CommandPolicy } from './command-policy.js';
 
 // ── Output caps ──────────────────────────────────────────────────────────────
 
@@ -202,9 +206,14 @@ export function createLocalGrepTool(ws: Workspace) {
 /**
  * Surgical find-and-replace edit. The old_text must match exactly once in the file.
  */
-export function createLocalEditFileTool(ws: Workspace) {
+export function createLocalEditFileTool(ws: Workspace, commandPolicy?: CommandPolicy) {
   return tool(
     async ({ path: filePath, old_text, new_text }: { path: string; old_text: string; new_text: string }) => {
+      const refusal = commandPolicy && checkFileWrite(filePath, commandPolicy, ws.path);
+      if (refusal) {
+        logRefusal('file', refusal);
+        return formatRefusal('file', refusal, commandPolicy);
+      }
       try {
         const absPath = safePath(ws, filePath);
         if (!fs.existsSync(absPath)) {
@@ -242,9 +251,14 @@ export function createLocalEditFileTool(ws: Workspace) {
 /**
  * Create or overwrite a file. Creates parent directories as needed.
  */
-export function createLocalWriteFileTool(ws: Workspace) {
+export function createLocalWriteFileTool(ws: Workspace, commandPolicy?: CommandPolicy) {
   return tool(
     async ({ path: filePath, content }: { path: string; content: string }) => {
+      const refusal = commandPolicy && checkFileWrite(filePath, commandPolicy, ws.path);
+      if (refusal) {
+        logRefusal('file', refusal);
+        return formatRefusal('file', refusal, commandPolicy);
+      }
       try {
         const absPath = safePath(ws, filePath);
         const dir = path.dirname(absPath);
@@ -266,35 +280,39 @@ export function createLocalWriteFileTool(ws: Workspace) {
   );
 }
 
+const NETWORK_NOTES: Record<SandboxPolicy['network'], string> = {
+  allowlist: ' Network access is limited to package registries and GitHub.',
+  none: ' There is no network access.',
+  open: '',
+};
+
 /**
- * Run a shell command in the workspace directory.
- * 30-second timeout, cwd set to workspace root.
+ * Bash tool for the coder. Commands are checked against the command policy,
+ * then run under the sandbox policy: scrubbed environment, CPU/memory/time
+ * limits and a network allowlist.
  */
-export function createLocalBashTool(ws: Workspace) {
+export function createLocalBashTool(ws: Workspace, policy: SandboxPolicy = resolveSandboxPolicy(), commandPolicy?: CommandPolicy) {
   return tool(
     async ({ command }: { command: string }) => {
-      try {
-        const result = execSync(command, {
-          cwd: ws.path,
-          stdio: 'pipe',
-          timeout: 30_000,
-          encoding: 'utf-8',
-          env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
-        });
-        return truncateOutput(result || '(no output)', MAX_BASH_OUTPUT, 'bash');
-      } catch (err: any) {
-        const stdout = err.stdout?.toString() || '';
-        const stderr = err.stderr?.toString() || '';
-        const output = [stdout, stderr].filter(Boolean).join('\n');
-        if (err.killed) {
-          return truncateOutput(`Error: command timed out after 30 seconds.\n${output}`, MAX_BASH_OUTPUT, 'bash');
-        }
-        return truncateOutput(`Error (exit code ${err.status ?? 'unknown'}):\n${output}`, MAX_BASH_OUTPUT, 'bash');
+      const refusal = commandPolicy && checkCommand(command, commandPolicy, ws.path);
+      if (refusal) {
+        logRefusal('command', refusal);
+        return formatRefusal('command', refusal, commandPolicy);
+      }
+      const result = await runSandboxed(command, ws, policy);
+      const output = [result.stdout, result.stderr].filter(Boolean).join('\n');
+      if (result.timedOut) {
+        return truncateOutput(`Error: command timed out after ${policy.timeoutSeconds} seconds.\n${output}`, MAX_BASH_OUTPUT, 'bash');
+      }
+      if (result.exitCode !== 0) {
+        const status = result.exitCode ?? result.signal ?? 'unknown';
+        return truncateOutput(`Error (exit code ${status}):\n${output}`, MAX_BASH_OUTPUT, 'bash');
       }
+      return truncateOutput(output || '(no output)', MAX_BASH_OUTPUT, 'bash');
     },
     {
       name: 'bash',
-      description: 'Run a shell command in the repository directory. Use for git operations (branch, commit, push), running tests, or other CLI tasks. 30-second timeout.',
+      description: `Run a shell command in the repository directory. Use for git operations (branch, commit, push), running tests, or other CLI tasks. ${policy.timeoutSeconds}-second timeout.${NETWORK_NOTES[policy.network]}`,
       schema: z.object({
         command: z.string().describe('Shell command to execute'),
       }),
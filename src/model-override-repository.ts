@@ -0,0 +1,31 @@
+/**
+ * Per-thread model overrides set with `/model`: for an issue or PR thread
+ * ("owner/repo#7"), the model each agent role runs with.
+ */
+export interface ModelOverrideRepository {
+  /** The thread's models by role; empty when none are set */
+  get(thread: string): Record<string, string> | Promise<Record<string, string>>;
+  /** Set models for the given roles; other roles keep theirs. Atomic per role. */
+  set(thread: string, models: Record<string, string>): void | Promise<void>;
+  /** Clear all of the thread's overrides */
+  clear(thread: string): void | Promise<void>;
+}
+
+/**
+ * In-memory model override repository for use without a database.
+ */
+export class InMemoryModelOverrideRepository implements ModelOverrideRepository {
+  private threads = new Map<string, Record<string, string>>();
+
+  get(thread: string): Record<string, string> {
+    return { ...this.threads.get(thread) };
+  }
+
+  set(thread: string, models: Record<string, string>): void {
+    this.threads.set(thread, { ...this.threads.get(thread), ...models });
+  }
+
+  clear(thread: string): void {
+    this.threads.delete(thread);
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Operator pause for running agents.
+ *
+ * Pausing a process closes its gate; the middleware below holds every tool
+ * call that reaches the gate until the process is resumed, so the agent stops
+ * at its next tool boundary with its state intact. A call already running
+ * (e.g. a subagent's task) finishes first; the subagent's own calls are held.
+ *
+ * Guidance added while paused ("don't touch the migrations folder") is handed
+ * to the agent on resume: each held call returns the guidance instead of
+ * running, so the agent reconsiders it. When no call was held the guidance
+ * goes with the next call instead.
+ */
+
+import { createMiddleware, ToolMessage } from 'langchain';
+
+export interface PauseGateOptions {
+  /** Start closed, for a paused run picked up again after a restart */
+  paused?: boolean;
+  /** Guidance left before the run (re)started */
+  guidance?: string[];
+  /** Held calls fail when the run is cancelled */
+  signal?: AbortSignal;
+  /** Called with the tool's name each time a call is held */
+  onHold?: (toolName: string) => void;
+}
+
+/** One run's pause gate. */
+export class PauseGate {
+  private paused: boolean;
+  private guidance: string[];
+  private held: Array<(guidance: string[]) => void> = [];
+
+  constructor(private options: PauseGateOptions = {}) {
+    this.paused = options.paused ?? false;
+    this.guidance = [...(options.guidance ?? [])];
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /** Hold tool calls from now on; false when already paused. */
+  pause(): boolean {
+    if (this.paused) return false;
+    this.paused = true;
+    return true;
+  }
+
+  /** Queue a message for the agent; it sees it on resume. */
+  addGuidance(message: string): void {
+    this.guidance.push(message);
+  }
+
+  /** Release the held calls with the queued guidance; false when not paused. */
+  resume(): boolean {
+    if (!this.paused) return false;
+    this.paused = false;
+    if (this.held.length === 0) return true;
+    const guidance = this.guidance.splice(0);
+    for (const release of this.held.splice(0)) release(guidance);
+    return true;
+  }
+
+  /** Wait while paused; resolves with the guidance this call should return instead of running. */
+  hold(toolName: string): Promise<string[]> {
+    if (!this.paused) return Promise.resolve(this.guidance.splice(0));
+    const { signal } = this.options;
+    if (signal?.aborted) return Promise.reject(new Error('Run cancelled'));
+    this.options.onHold?.(toolName);
+
+    return new Promise((resolve, reject) => {
+      const release = (guidance: string[]) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(guidance);
+      };
+      const onAbort = () => {
+        this.held = this.held.filter(r => r !== release);
+        reject(new Error('Run cancelled'));
+      };
+      signal?.addEventListener('abort', onAbort);
+      this.held.push(release);
+    });
+  }
+}
+
+/** Tool result telling the agent why its call didn't run. */
+export function formatGuidanceResult(guidance: string[]): string {
+  return JSON.stringify({
+    paused: true,
+    guidance,
+    next: 'An operator paused the run before this call and left the guidance above. The call was not run. Follow the guidance, then make the call again if it still applies.',
+  }, null, 2);
+}
+
+/** Creates middleware that holds tool calls at the gate while the run is paused. */
+export function createPauseMiddleware(gate: PauseGate) {
+  return createMiddleware({
+    name: 'PauseMiddleware',
+    wrapToolCall: async (request, handler) => {
+      const guidance = await gate.hold(request.toolCall.name);
+      if (guidance.length === 0) return handler(request);
+      return new ToolMessage({
+        content: formatGuidanceResult(guidance),
+        tool_call_id: request.toolCall.id ?? '',
+        name: request.toolCall.name,
+      });
+    },
+  });
+}
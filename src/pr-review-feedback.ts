@@ -0,0 +1,122 @@
+/**
+ * Human PR reviews on bot PRs, turned into feedback for a continue run.
+ *
+ * A submitted review (pull_request_review) and each of its inline comments
+ * (pull_request_review_comment) arrive as separate deliveries. Both resolve
+ * to the same review id; the first delivery claims the review and collects
+ * all of its comments, later ones for the same review are ignored.
+ */
+
+import type { Config } from './config.js';
+import { BOT_THREAD_REPLY_MARKER, createGitHubClient, getAuthFromConfig } from './github-tools.js';
+import type { ClaimRepository } from './claim-repository.js';
+
+/** Start of the reviewer agent's markers, including per-iteration ones. */
+const BOT_REVIEW_MARKER_PREFIX = '<!-- deep-agent-review';
+
+export interface ReviewFeedbackComment {
+  id: number;
+  /** Comment that starts the thread; replies go there */
+  threadId: number;
+  path: string;
+  line?: number;
+  body: string;
+}
+
+export interface ReviewFeedback {
+  reviewId: number;
+  reviewer: string;
+  state: string;
+  body: string;
+  comments: ReviewFeedbackComment[];
+}
+
+/** GitHub review fields used here (webhook payload or REST response). */
+export interface ReviewSummary {
+  id: number;
+  body?: string | null;
+  state?: string;
+  user?: { login?: string; type?: string } | null;
+}
+
+/** True for reviews posted by this bot (reviewer agent or GitHub App user). */
+export function isBotReview(review: ReviewSummary): boolean {
+  return review.user?.type === 'Bot' || (review.body ?? '').includes(BOT_REVIEW_MARKER_PREFIX);
+}
+
+/**
+ * Collect a review's body and inline comments, minus the bot's own
+ * thread replies.
+ */
+export async function fetchReviewFeedback(config: Config, prNumber: number, review: ReviewSummary): Promise<ReviewFeedback> {
+  const { owner, repo } = config.github;
+  const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
+  const { data } = await octokit.rest.pulls.listCommentsForReview({
+    owner, repo, pull_number: prNumber, review_id: review.id, per_page: 100,
+  });
+  const comments = data
+    .filter((c: any) => !(c.body ?? '').includes(BOT_THREAD_REPLY_MARKER))
+    .map((c: any): ReviewFeedbackComment => ({
+      id: c.id,
+      threadId: c.in_reply_to_id ?? c.id,
+      path: c.path,
+      line: c.line ?? c.original_line ?? undefined,
+      body: c.body ?? '',
+    }));
+  return {
+    reviewId: review.id,
+    reviewer: review.user?.login ?? 'unknown',
+    state: (review.state ?? 'commented').toLowerCase(),
+    body: (review.body ?? '').trim(),
+    comments,
+  };
+}
+
+/** Whether a review gives the bot anything to act on. */
+export function hasFeedback(feedback: ReviewFeedback): boolean {
+  if (feedback.comments.length > 0) return true;
+  return feedback.state !== 'approved' && feedback.body.length > 0;
+}
+
+/**
+ * Human feedback text for a continue run: the review summary plus one
+ * numbered entry per inline comment, with the ids the coder replies to.
+ */
+export function formatReviewFeedback(prNumber: number, feedback: ReviewFeedback): string {
+  const state = feedback.state.replace(/_/g, ' ');
+  const lines = [`@${feedback.reviewer} reviewed PR #${prNumber} (${state}).`];
+  if (feedback.body) lines.push('', feedback.body);
+  if (feedback.comments.length > 0) {
+    lines.push('', 'Inline comments:');
+    feedback.comments.forEach((c, i) => {
+      const location = c.line ? `${c.path}:${c.line}` : c.path;
+      lines.push(`${i + 1}. ${location} (comment_id: ${c.threadId})`, ...c.body.split('\n').map(l => `   ${l}`));
+    });
+    lines.push(
+      '',
+      'After pushing the fixes, reply to each comment_id above with reply_to_review_comment ' +
+      `(pull_number: ${prNumber}) describing what changed; that also resolves the thread.`,
+    );
+  }
+  return lines.join('\n');
+}
+
+function claimsKey(config: Config, prNumber: number): string {
+  return `review_claims:${config.github.owner}/${config.github.repo}#${prNumber}`;
+}
+
+/**
+ * Claim a review for one delivery. Returns false when another delivery
+ * already claimed it; a retry of the claiming delivery may proceed.
+ * Without a claim store every delivery is handled.
+ */
+export async function claimReview(
+  claimRepository: ClaimRepository | undefined,
+  config: Config,
+  prNumber: number,
+  reviewId: number,
+  deliveryId: string,
+): Promise<boolean> {
+  if (!claimRepository) return true;
+  return await Promise.resolve(claimRepository.claim(claimsKey(config, prNumber), String(reviewId), deliveryId)) === 'claimed';
+}
@@ -6,15 +6,39 @@ import { runReviewSingle } from './reviewer-agent.js';
 import type { UsageService } from './usage-service.js';
 import type { ProcessRepository } from './process-repository.js';
 import type { IssueContextRepository } from './issue-context-repository.js';
+import { configForRepo } from './repo-repository.js';
 import type { RepoRepository } from './repo-repository.js';
 import type { SettingsRepository } from './settings-repository.js';
+import { applyRouteOverrides } from './issue-router.js';
+import type { RouteOverrides } from './issue-router.js';
+import { loadRunBudget } from './budget.js';
+import { loadSandboxPolicy } from './sandbox.js';
+import { loadCommandPolicy } from './command-policy.js';
+import { loadVerificationPolicy } from './verification.js';
+import { loadApprovalPolicy } from './approval.js';
+import type { PendingApproval } from './approval.js';
+import { loadScmProvider } from './scm-provider.js';
+import type { BudgetStatus } from './budget.js';
+import { SpendGuard } from './spend-limits.js';
+import type { SpendCheck } from './spend-limits.js';
+import type { StartedBy } from './access.js';
+import { getWorkspaceManager } from './workspace-manager.js';
+import type { QuotaExceeded } from './workspace-manager.js';
+import { checkpointEvents, getCheckpointer, latestCheckpointId } from './checkpointer.js';
+import type { CheckpointSaved } from './checkpointer.js';
+import { PauseGate } from './pause.js';
 
 // ── Interfaces ───────────────────────────────────────────────────────────────
 
 export interface AgentProcess {
   id: string;
   type: 'analyze' | 'review';
-  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  /**
+   * `awaiting_approval` runs are paused until a human approves their plan;
+   * `paused` runs were paused by an operator and hold at their next tool call;
+   * `interrupted` runs were cut short by a restart and can be resumed
+   */
+  status: 'running' | 'awaiting_approval' | 'paused' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
   issueNumber?: number;
   prNumber?: number;
   prNumbers?: number[];
@@ -28,12 +52,45 @@ export interface AgentProcess {
   maxIterations?: number;
   outcome?: string;
   error?: string;
+  /** Spend against the run's budget, for budgeted runs */
+  budget?: BudgetStatus;
+  /** The user or API key that started the run from the dashboard API */
+  startedBy?: StartedBy;
+  /** The plan waiting for a decision, while awaiting_approval */
+  approval?: Pick<PendingApproval, 'plan' | 'commentUrl' | 'requestedAt'>;
+  /** The run's latest LangGraph checkpoint (its thread id is the process id) */
+  checkpointId?: string;
+  /** Set for runs the ProcessManager started; only those can be resumed */
+  runOptions?: RunOptions;
+  /** When an operator paused the run, while paused */
+  pausedAt?: string;
+  /** Guidance left while paused, handed to the agent on resume */
+  guidance?: string[];
   logs: string[];
 }
 
+/** How a run was started, kept so it can be run again after a restart. */
+export interface RunOptions {
+  dryRun?: boolean;
+  continueContext?: ContinueContext;
+  repoId?: number;
+  overrides?: RouteOverrides;
+}
+
+/** Whether a process is still going (running, or paused by an operator or for approval). */
+export function isProcessActive(proc: Pick<AgentProcess, 'status'>): boolean {
+  return proc.status === 'running' || proc.status === 'awaiting_approval' || proc.status === 'paused';
+}
+
+/** Whether a process is waiting on a human (a plan decision or a resume) rather than working. */
+export function isProcessParked(proc: Pick<AgentProcess, 'status'>): boolean {
+  return proc.status === 'awaiting_approval' || proc.status === 'paused';
+}
+
 export interface ProcessEvent {
   type: 'process_started' | 'process_updated' | 'process_completed'
-      | 'process_failed' | 'process_cancelled' | 'process_log';
+      | 'process_failed' | 'process_cancelled' | 'process_paused'
+      | 'process_resumed' | 'process_log';
   process: AgentProcess;
   logLine?: string;
   timestamp: string;
@@ -53,6 +110,7 @@ export interface ProgressUpdate {
 export class ProcessManager extends EventEmitter {
   private processes: Map<string, AgentProcess> = new Map();
   private controllers: Map<string, AbortController> = new Map();
+  private pauseGates: Map<string, PauseGate> = new Map();
   private config: Config;
   private usageService?: UsageService;
   private processRepo?: ProcessRepository;
@@ -60,6 +118,8 @@ export class ProcessManager extends EventEmitter {
   private repoId: number;
   private repoRepo?: RepoRepository;
   private settingsRepo?: SettingsRepository;
+  /** Enforces spend limits; set when usage is tracked and settings are stored */
+  readonly spendGuard?: SpendGuard;
 
   constructor(config: Config, usageService?: UsageService, processRepo?: ProcessRepository, issueContextRepo?: IssueContextRepository, repoId?: number, repoRepo?: RepoRepository, settingsRepo?: SettingsRepository) {
     super();
@@ -70,19 +130,34 @@ export class ProcessManager extends EventEmitter {
     this.repoId = repoId ?? 0;
     this.repoRepo = repoRepo;
     this.settingsRepo = settingsRepo;
+    if (usageService && settingsRepo) this.spendGuard = new SpendGuard(config, usageService, settingsRepo, repoRepo);
   }
 
   private async resolveRepoConfig(repoId?: number): Promise<{ config: Config; owner: string; repo: string; resolvedRepoId: number }> {
     if (repoId !== undefined && repoId !== this.repoId && this.repoRepo) {
       const repoRecord = await Promise.resolve(this.repoRepo.getById(repoId));
       if (repoRecord) {
-        const cloned = { ...this.config, github: { ...this.config.github, owner: repoRecord.owner, repo: repoRecord.repo } };
-        return { config: cloned, owner: repoRecord.owner, repo: repoRecord.repo, resolvedRepoId: repoId };
+        return { config: await configForRepo(this.config, repoRecord), owner: repoRecord.owner, repo: repoRecord.repo, resolvedRepoId: repoId };
       }
     }
     return { config: this.config, owner: this.config.github.owner, repo: this.config.github.repo, resolvedRepoId: this.repoId };
   }
 
+  /**
+   * Whether a new run on the repo may start under the spend limits.
+   * Callers check first to refuse with a reason; runs re-check as a backstop.
+   */
+  async checkSpend(repoId?: number): Promise<SpendCheck> {
+    if (!this.spendGuard) return { allowed: true, windows: [] };
+    const { owner, repo } = await this.resolveRepoConfig(repoId);
+    return this.spendGuard.check(owner, repo);
+  }
+
+  private async refuseOverSpend(owner: string, repo: string): Promise<void> {
+    const spend = await this.spendGuard?.check(owner, repo);
+    if (spend && !spend.allowed) throw new Error(`Refused: ${spend.reason}`);
+  }
+
   private persistSave(proc: AgentProcess): void {
     if (this.processRepo) {
       Promise.resolve(this.processRepo.save(proc)).catch(err =>
@@ -99,7 +174,7 @@ export class ProcessManager extends EventEmitter {
     }
   }
 
-  continueAnalysis(issueNumber: number, prNumber: number, branchName: string, humanFeedback?: string, repoId?: number): AgentProcess {
+  continueAnalysis(issueNumber: number, prNumber: number, branchName: string, humanFeedback?: string, repoId?: number, overrides?: RouteOverrides, startedBy?: StartedBy): AgentProcess {
     const id = `continue-${issueNumber}-${Date.now()}`;
     const proc: AgentProcess = {
       id,
@@ -110,6 +185,8 @@ export class ProcessManager extends EventEmitter {
       owner: this.config.github.owner,
       repo: this.config.github.repo,
       startedAt: new Date().toISOString(),
+      startedBy,
+      runOptions: { continueContext: { prNumber, branchName, humanFeedback }, repoId, overrides },
       logs: [],
     };
 
@@ -120,15 +197,12 @@ export class ProcessManager extends EventEmitter {
 
     this.emitEvent('process_started', proc);
 
-    this.runAnalysis(proc, controller.signal, {
-      continueContext: { prNumber, branchName, humanFeedback },
-      repoId,
-    }).catch(() => {});
+    this.runAnalysis(proc, controller.signal, proc.runOptions).catch(() => {});
 
     return { ...proc };
   }
 
-  startAnalysis(issueNumber: number, options: { dryRun?: boolean; repoId?: number } = {}): AgentProcess {
+  startAnalysis(issueNumber: number, options: { dryRun?: boolean; repoId?: number; overrides?: RouteOverrides; startedBy?: StartedBy } = {}): AgentProcess {
     const id = `analyze-${issueNumber}-${Date.now()}`;
     const proc: AgentProcess = {
       id,
@@ -138,6 +212,8 @@ export class ProcessManager extends EventEmitter {
       owner: this.config.github.owner,
       repo: this.config.github.repo,
       startedAt: new Date().toISOString(),
+      startedBy: options.startedBy,
+      runOptions: { dryRun: options.dryRun, repoId: options.repoId, overrides: options.overrides },
       logs: [],
     };
 
@@ -148,12 +224,12 @@ export class ProcessManager extends EventEmitter {
 
     this.emitEvent('process_started', proc);
 
-    this.runAnalysis(proc, controller.signal, { dryRun: options.dryRun, repoId: options.repoId }).catch(() => {});
+    this.runAnalysis(proc, controller.signal, proc.runOptions).catch(() => {});
 
     return { ...proc };
   }
 
-  startReview(prNumber: number, options: { repoId?: number } = {}): AgentProcess {
+  startReview(prNumber: number, options: { repoId?: number; startedBy?: StartedBy } = {}): AgentProcess {
     const id = `review-${prNumber}-${Date.now()}`;
     const proc: AgentProcess = {
       id,
@@ -163,6 +239,8 @@ export class ProcessManager extends EventEmitter {
       owner: this.config.github.owner,
       repo: this.config.github.repo,
       startedAt: new Date().toISOString(),
+      startedBy: options.startedBy,
+      runOptions: { repoId: options.repoId },
       logs: [],
     };
 
@@ -178,14 +256,164 @@ export class ProcessManager extends EventEmitter {
     return { ...proc };
   }
 
+  /**
+   * Pause a running process: its agent stops at the next tool call and
+   * waits, state intact, until resumed. Returns undefined for processes that
+   * aren't running here or can't pause (AGENT_MODE=claude-sdk).
+   */
+  pauseProcess(id: string): AgentProcess | undefined {
+    const proc = this.processes.get(id);
+    const gate = this.pauseGates.get(id);
+    if (!proc || proc.status !== 'running' || !gate) return undefined;
+
+    gate.pause();
+    proc.status = 'paused';
+    proc.pausedAt = new Date().toISOString();
+    this.persistUpdate(proc);
+    this.emitEvent('process_paused', proc);
+    this.appendLog(proc, '[process-manager] Paused; the agent stops at its next tool call');
+    return { ...proc, logs: [...proc.logs] };
+  }
+
+  /** Leave guidance for a paused process's agent; it sees it on resume. */
+  addGuidance(id: string, message: string): AgentProcess | undefined {
+    const proc = this.processes.get(id);
+    if (!proc || proc.status !== 'paused') return undefined;
+
+    this.pauseGates.get(id)?.addGuidance(message);
+    proc.guidance = [...(proc.guidance ?? []), message];
+    this.persistUpdate(proc);
+    this.emitEvent('process_updated', proc);
+    this.appendLog(proc, `[process-manager] Guidance for the agent: ${message}`);
+    return { ...proc, logs: [...proc.logs] };
+  }
+
+  /**
+   * Resume a paused process, handing its agent the guidance left meanwhile,
+   * or an interrupted one under its own id: from its last checkpoint when it
+   * has one, otherwise the run starts over. Returns undefined for unknown
+   * processes, ones that are neither, and interrupted ones started outside
+   * the ProcessManager (no runOptions).
+   */
+  async resumeProcess(id: string): Promise<AgentProcess | undefined> {
+    let proc = this.processes.get(id);
+    if (proc?.status === 'paused') return this.unpause(proc);
+    if (!proc) {
+      const stored = await this.getProcess(id);
+      proc = this.processes.get(id) ?? stored;
+    }
+    if (!proc || proc.status !== 'interrupted' || !proc.runOptions) return undefined;
+
+    const checkpointId = await latestCheckpointId(getCheckpointer(), id).catch((err) => {
+      console.error(`[process-manager] Failed to read the checkpoint of ${id}:`, err);
+      return undefined;
+    });
+    // Another request may have resumed it while the checkpoint was read
+    const current = this.processes.get(id) ?? proc;
+    if (current !== proc || proc.status !== 'interrupted') return undefined;
+    proc.checkpointId = checkpointId;
+    this.restart(proc, !!checkpointId);
+    return { ...proc, logs: [...proc.logs] };
+  }
+
+  private unpause(proc: AgentProcess): AgentProcess {
+    const gate = this.pauseGates.get(proc.id);
+    gate?.resume();
+    const guidance = proc.guidance?.length ?? 0;
+    // Without a gate yet (a recovered run still starting) the guidance waits for it
+    if (gate) proc.guidance = undefined;
+    proc.status = proc.approval ? 'awaiting_approval' : 'running';
+    proc.pausedAt = undefined;
+    this.persistUpdate(proc);
+    this.emitEvent('process_resumed', proc);
+    this.appendLog(proc, `[process-manager] Resumed${guidance > 0 ? ` with ${guidance} guidance message(s)` : ''}`);
+    return { ...proc, logs: [...proc.logs] };
+  }
+
+  /**
+   * Pick up the runs a previous server left behind (deploy, crash). Each
+   * stored process still running, paused or awaiting approval is resumed
+   * from its last checkpoint (paused ones stay paused), or marked interrupted
+   * when it has none or wasn't started here. Call once at startup.
+   */
+  async recoverProcesses(): Promise<{ resumed: string[]; interrupted: string[] }> {
+    const result = { resumed: [] as string[], interrupted: [] as string[] };
+    if (!this.processRepo) return result;
+
+    // Let the startup sweep clear the old server's workspaces first, so it
+    // can't remove the ones the resumed runs check out
+    await getWorkspaceManager().sweep().catch(err => console.error('[process-manager] Workspace sweep failed:', err));
+
+    const left = [
+      ...await Promise.resolve(this.processRepo.list({ status: 'running' })),
+      ...await Promise.resolve(this.processRepo.list({ status: 'awaiting_approval' })),
+      ...await Promise.resolve(this.processRepo.list({ status: 'paused' })),
+    ];
+    const checkpointer = getCheckpointer();
+    for (const proc of left) {
+      if (this.processes.has(proc.id)) continue; // started since this server came up
+      proc.owner = proc.owner || this.config.github.owner;
+      proc.repo = proc.repo || this.config.github.repo;
+      proc.approval = undefined;
+
+      const checkpointId = proc.runOptions
+        ? await latestCheckpointId(checkpointer, proc.id).catch((err) => {
+          console.error(`[process-manager] Failed to read the checkpoint of ${proc.id}:`, err);
+          return undefined;
+        })
+        : undefined;
+      if (checkpointId) {
+        proc.checkpointId = checkpointId;
+        proc.logs.push(`[process-manager] Server restarted; resuming from checkpoint ${checkpointId}`);
+        this.restart(proc, true);
+        result.resumed.push(proc.id);
+      } else {
+        proc.status = 'interrupted';
+        proc.completedAt = new Date().toISOString();
+        proc.error = 'Interrupted by a server restart';
+        await Promise.resolve(this.processRepo.update(proc)).catch(err =>
+          console.error(`[process-manager] Failed to persist process update ${proc.id}:`, err),
+        );
+        result.interrupted.push(proc.id);
+      }
+    }
+
+    if (left.length > 0) {
+      console.log(`[process-manager] Recovered processes left by the previous server: ${result.resumed.length} resumed, ${result.interrupted.length} interrupted`);
+    }
+    return result;
+  }
+
+  /** Run a stored process again under its id, from its checkpoint or from the start. */
+  private restart(proc: AgentProcess, fromCheckpoint: boolean): void {
+    // A paused run holds at its first tool call
+    if (proc.status !== 'paused') proc.status = 'running';
+    proc.completedAt = undefined;
+    proc.error = undefined;
+    proc.activePhases = undefined;
+
+    this.processes.set(proc.id, proc);
+    this.persistUpdate(proc);
+    const controller = new AbortController();
+    this.controllers.set(proc.id, controller);
+
+    this.emitEvent('process_updated', proc);
+
+    const run = proc.type === 'review'
+      ? this.runReview(proc, controller.signal, proc.runOptions?.repoId, fromCheckpoint)
+      : this.runAnalysis(proc, controller.signal, proc.runOptions, fromCheckpoint);
+    run.catch(() => {});
+  }
+
   cancelProcess(id: string): boolean {
     const proc = this.processes.get(id);
-    if (!proc || proc.status !== 'running') return false;
+    if (!proc || !isProcessActive(proc)) return false;
 
     const controller = this.controllers.get(id);
     if (controller) controller.abort();
 
     proc.status = 'cancelled';
+    proc.approval = undefined;
     proc.completedAt = new Date().toISOString();
     this.persistUpdate(proc);
     this.emitEvent('process_cancelled', proc);
@@ -193,6 +421,42 @@ export class ProcessManager extends EventEmitter {
     return true;
   }
 
+  /**
+   * Stop a running process and mark it failed, for limits enforced outside
+   * the run (e.g. its workspace going over the disk quota).
+   */
+  failProcess(id: string, error: string): boolean {
+    const proc = this.processes.get(id);
+    if (!proc || !isProcessActive(proc)) return false;
+
+    const controller = this.controllers.get(id);
+    if (controller) controller.abort();
+
+    proc.status = 'failed';
+    proc.approval = undefined;
+    proc.completedAt = new Date().toISOString();
+    proc.error = error;
+    this.persistUpdate(proc);
+    this.emitEvent('process_failed', proc);
+    this.controllers.delete(id);
+    return true;
+  }
+
+  /**
+   * Cancel every running analysis for an issue of the repo (the configured
+   * one by default), e.g. when it is closed. Returns the number of processes
+   * cancelled.
+   */
+  cancelIssueProcesses(issueNumber: number, repoId?: number): number {
+    const targetRepoId = repoId ?? this.repoId;
+    let cancelled = 0;
+    for (const proc of this.processes.values()) {
+      if (proc.type !== 'analyze' || proc.issueNumber !== issueNumber) continue;
+      if ((proc.runOptions?.repoId ?? this.repoId) === targetRepoId && this.cancelProcess(proc.id)) cancelled++;
+    }
+    return cancelled;
+  }
+
   async listProcesses(status?: string): Promise<AgentProcess[]> {
     // Start with in-memory processes (most up-to-date for running ones)
     const inMemory = new Map(this.processes);
@@ -202,7 +466,7 @@ export class ProcessManager extends EventEmitter {
       const dbProcesses = await Promise.resolve(this.processRepo.list(status ? { status } : undefined));
       for (const dbProc of dbProcesses) {
         if (!inMemory.has(dbProc.id)) {
-          // Fill owner/repo from config (not stored in DB)
+          // Repositories without a repos table leave owner/repo empty
           dbProc.owner = dbProc.owner || this.config.github.owner;
           dbProc.repo = dbProc.repo || this.config.github.repo;
           inMemory.set(dbProc.id, dbProc);
@@ -233,6 +497,29 @@ export class ProcessManager extends EventEmitter {
     return undefined;
   }
 
+  /**
+   * Resolve with the final state of a process once it finishes, or with
+   * `untilParked` as soon as it waits on a human (see isProcessParked).
+   * Resolves undefined for processes not tracked in memory.
+   */
+  waitForProcess(id: string, options: { untilParked?: boolean } = {}): Promise<AgentProcess | undefined> {
+    const settled = (p: AgentProcess) => !isProcessActive(p) || (options.untilParked === true && isProcessParked(p));
+    const proc = this.processes.get(id);
+    if (!proc) return Promise.resolve(undefined);
+    if (settled(proc)) return Promise.resolve({ ...proc, logs: [...proc.logs] });
+
+    return new Promise((resolve) => {
+      const onEvent = (event: ProcessEvent) => {
+        if (event.process.id !== id || event.type === 'process_log') return;
+        if (settled(event.process)) {
+          this.off('process_event', onEvent);
+          resolve(event.process);
+        }
+      };
+      this.on('process_event', onEvent);
+    });
+  }
+
   private interceptConsole(proc: AgentProcess): () => void {
     const origLog = console.log;
     const origError = console.error;
@@ -252,12 +539,77 @@ export class ProcessManager extends EventEmitter {
     return () => { console.log = origLog; console.error = origError; };
   }
 
+  /** Pause and resume the process as its plan waits for approval. */
+  private approvalUpdater(proc: AgentProcess): (pending?: PendingApproval) => void {
+    return (pending) => {
+      if (!isProcessActive(proc)) return; // cancelled while waiting
+      // A paused run stays paused; resuming it picks up the approval state
+      if (proc.status !== 'paused') proc.status = pending ? 'awaiting_approval' : 'running';
+      proc.approval = pending && { plan: pending.plan, commentUrl: pending.commentUrl, requestedAt: pending.requestedAt };
+      this.persistUpdate(proc);
+      this.emitEvent('process_updated', proc);
+    };
+  }
+
+  /** The run's pause gate, held from the start when the run was recovered paused. */
+  private pauseGate(proc: AgentProcess, signal: AbortSignal): PauseGate {
+    const paused = proc.status === 'paused';
+    const gate = new PauseGate({
+      paused,
+      guidance: proc.guidance,
+      signal,
+      onHold: (toolName) => this.appendLog(proc, `\u{23F8}\uFE0F  Paused before ${toolName}`),
+    });
+    if (!paused) proc.guidance = undefined; // resumed before the gate existed; it has them now
+    this.pauseGates.set(proc.id, gate);
+    return gate;
+  }
+
+  private appendLog(proc: AgentProcess, line: string): void {
+    proc.logs.push(line);
+    this.emitEvent('process_log', proc, line);
+  }
+
+  /** Record each checkpoint the run stores; it resumes from the latest one. */
+  private checkpointRecorder(proc: AgentProcess): (saved: CheckpointSaved) => void {
+    return ({ threadId, checkpointId }) => {
+      if (threadId !== proc.id || !isProcessActive(proc)) return;
+      proc.checkpointId = checkpointId;
+      this.persistUpdate(proc);
+      this.emitEvent('process_updated', proc);
+    };
+  }
+
+  /** Finished runs can't be resumed, so their checkpoints are dropped. */
+  private dropCheckpoints(proc: AgentProcess): void {
+    if (isProcessActive(proc)) return;
+    getCheckpointer().deleteThread(proc.id).catch(err =>
+      console.error(`[process-manager] Failed to delete the checkpoints of ${proc.id}:`, err),
+    );
+  }
+
+  /** Keep proc.budget current so the dashboard can show the burn-down. */
+  private budgetUpdater(proc: AgentProcess): (status: BudgetStatus) => void {
+    return (status) => {
+      proc.budget = status;
+      this.emitEvent('process_updated', proc);
+    };
+  }
+
   private async runAnalysis(
     proc: AgentProcess,
     signal: AbortSignal,
-    options: { dryRun?: boolean; continueContext?: ContinueContext; repoId?: number } = {},
+    options: RunOptions = {},
+    resume = false,
   ): Promise<void> {
     const restore = this.interceptConsole(proc);
+    const workspaceManager = getWorkspaceManager();
+    const onQuotaExceeded = (exceeded: QuotaExceeded) => {
+      if (exceeded.processId === proc.id) this.failProcess(proc.id, exceeded.reason);
+    };
+    workspaceManager.on('quota_exceeded', onQuotaExceeded);
+    const onCheckpoint = this.checkpointRecorder(proc);
+    checkpointEvents.on('checkpoint', onCheckpoint);
 
     try {
       const { config: resolvedConfig, owner, repo, resolvedRepoId } = await this.resolveRepoConfig(options.repoId);
@@ -266,6 +618,9 @@ export class ProcessManager extends EventEmitter {
         proc.repo = repo;
         this.emitEvent('process_updated', proc);
       }
+      await this.refuseOverSpend(owner, repo);
+      // claude-sdk runs have no tool middleware to hold, so they can't pause
+      const pause = resolvedConfig.agentMode === 'claude-sdk' ? undefined : this.pauseGate(proc, signal);
 
       const activeRunPhases = new Map<string, string>();
 
@@ -283,16 +638,28 @@ export class ProcessManager extends EventEmitter {
         this.emitEvent('process_updated', proc);
       };
 
-      const result = await runArchitect(resolvedConfig, proc.issueNumber!, {
+      const budget = await loadRunBudget(resolvedConfig, proc.issueNumber!, this.repoRepo);
+      const result = await runArchitect(applyRouteOverrides(resolvedConfig, options.overrides), proc.issueNumber!, {
         dryRun: options.dryRun,
         onProgress,
         signal,
+        budget,
+        onBudget: this.budgetUpdater(proc),
         continueContext: options.continueContext,
         usageService: this.usageService,
         processId: proc.id,
         contextRepo: this.issueContextRepo,
         repoId: resolvedRepoId,
         settingsRepo: this.settingsRepo,
+        sandbox: await loadSandboxPolicy(resolvedConfig, this.repoRepo),
+        commandPolicy: await loadCommandPolicy(resolvedConfig, this.repoRepo),
+        verification: await loadVerificationPolicy(resolvedConfig, this.repoRepo),
+        approval: await loadApprovalPolicy(resolvedConfig, this.repoRepo),
+        onApproval: this.approvalUpdater(proc),
+        scm: await loadScmProvider(resolvedConfig, this.repoRepo),
+        checkpointer: getCheckpointer(),
+        resume,
+        pause,
       });
 
       if (signal.aborted) return; // already marked cancelled
@@ -314,25 +681,38 @@ export class ProcessManager extends EventEmitter {
       this.emitEvent('process_failed', proc);
     } finally {
       restore();
+      workspaceManager.off('quota_exceeded', onQuotaExceeded);
+      checkpointEvents.off('checkpoint', onCheckpoint);
+      this.dropCheckpoints(proc);
+      this.pauseGates.delete(proc.id);
       this.controllers.delete(proc.id);
     }
   }
 
-  private async runReview(proc: AgentProcess, signal: AbortSignal, repoId?: number): Promise<void> {
+  private async runReview(proc: AgentProcess, signal: AbortSignal, repoId?: number, resume = false): Promise<void> {
     const restore = this.interceptConsole(proc);
+    const onCheckpoint = this.checkpointRecorder(proc);
+    checkpointEvents.on('checkpoint', onCheckpoint);
 
     try {
-      const { config: resolvedConfig, owner, repo } = await this.resolveRepoConfig(repoId);
+      const { config: resolvedConfig, owner, repo, resolvedRepoId } = await this.resolveRepoConfig(repoId);
       if (proc.owner !== owner || proc.repo !== repo) {
         proc.owner = owner;
         proc.repo = repo;
         this.emitEvent('process_updated', proc);
       }
+      await this.refuseOverSpend(owner, repo);
 
       const result = await runReviewSingle(resolvedConfig, proc.prNumber!, {
         signal,
         usageService: this.usageService,
         processId: proc.id,
+        repoId: resolvedRepoId,
+        budget: await loadRunBudget(resolvedConfig, proc.prNumber!, this.repoRepo),
+        onBudget: this.budgetUpdater(proc),
+        checkpointer: getCheckpointer(),
+        resume,
+        pause: this.pauseGate(proc, signal),
       });
 
       if (signal.aborted) return;
@@ -352,6 +732,9 @@ export class ProcessManager extends EventEmitter {
       this.emitEvent('process_failed', proc);
     } finally {
       restore();
+      checkpointEvents.off('checkpoint', onCheckpoint);
+      this.dropCheckpoints(proc);
+      this.pauseGates.delete(proc.id);
       this.controllers.delete(proc.id);
     }
   }
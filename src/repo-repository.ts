@@ -1,5 +1,10 @@
+import type { Config } from './config.js';
+import { createGitHubAppClient, getAuthFromConfig } from './github-tools.js';
+import { findRepoInstallation, rememberRepoInstallation } from './github-app.js';
+import type { ScmKind } from './scm-provider.js';
+
 /**
- * A configured repository (GitHub owner/repo pair).
+ * A configured repository (owner/repo pair on its SCM host).
  */
 export interface RepoRecord {
   id: number;
@@ -8,18 +13,54 @@ export interface RepoRecord {
   isActive: boolean;
   addedAt: string;
   configJson?: Record<string, unknown>;
+  /** SCM host type; SCM_PROVIDER (default github) when unset */
+  provider?: ScmKind;
+  /** Host name, e.g. "gitlab.example.com"; the provider's public host when unset */
+  host?: string;
+  /** API base URL, e.g. "https://github.example.com/api/v3"; derived from the host when unset */
+  apiUrl?: string;
+}
+
+/** Where a repo is hosted, as stored on its record. */
+export type RepoScm = Pick<RepoRecord, 'provider' | 'host' | 'apiUrl'>;
+
+/**
+ * Config for working on a tracked repo: the env config pointed at the
+ * record's owner/repo and, for GitHub repos, its own (Enterprise Server)
+ * host and the App installation on it. The env-configured repo keeps the
+ * env config as is. A known installation id (a webhook payload's) is used
+ * instead of looking it up.
+ */
+export async function configForRepo(config: Config, record: RepoRecord, installationId?: number): Promise<Config> {
+  if (record.owner === config.github.owner && record.repo === config.github.repo) return config;
+
+  const github = { ...config.github, owner: record.owner, repo: record.repo };
+  if (record.provider !== 'gitlab') {
+    // GITHUB_API_URL belongs to GITHUB_HOST
+    if (record.host) Object.assign(github, { host: record.host, apiUrl: record.apiUrl });
+    else if (record.apiUrl) github.apiUrl = record.apiUrl;
+
+    // GITHUB_APP_INSTALLATION_ID belongs to the configured repo; this one may be in another org
+    const auth = getAuthFromConfig(github);
+    if (typeof auth !== 'string') {
+      const { request } = createGitHubAppClient(auth, github);
+      if (installationId !== undefined) rememberRepoInstallation(request, github.owner, github.repo, installationId);
+      github.installationId = await findRepoInstallation(request, github.owner, github.repo);
+    }
+  }
+  return { ...config, github };
 }
 
 /**
- * Repository interface for managing tracked GitHub repositories.
+ * Repository interface for managing tracked repositories.
  */
 export interface RepoRepository {
   getById(id: number): RepoRecord | undefined | Promise<RepoRecord | undefined>;
   getByOwnerRepo(owner: string, repo: string): RepoRecord | undefined | Promise<RepoRecord | undefined>;
   ensureRepo(owner: string, repo: string): RepoRecord | Promise<RepoRecord>;
   list(activeOnly?: boolean): RepoRecord[] | Promise<RepoRecord[]>;
-  create(owner: string, repo: string, configJson?: Record<string, unknown>): RepoRecord | Promise<RepoRecord>;
-  update(id: number, fields: { configJson?: Record<string, unknown> }): RepoRecord | undefined | Promise<RepoRecord | undefined>;
+  create(owner: string, repo: string, configJson?: Record<string, unknown>, scm?: RepoScm): RepoRecord | Promise<RepoRecord>;
+  update(id: number, fields: { configJson?: Record<string, unknown> } & RepoScm): RepoRecord | undefined | Promise<RepoRecord | undefined>;
   deactivate(id: number): boolean | Promise<boolean>;
 }
 
@@ -15,6 +15,12 @@ import { wrapWithLogging } from './logger.js';
 import { ToolCache, wrapWithCache, readFileKey, prDiffKey } from './tool-cache.js';
 import type { UsageService } from './usage-service.js';
 import type { LLMProvider } from './usage-types.js';
+import { startBudgetTracker, formatBudgetComment, postBudgetComment } from './budget.js';
+import type { BudgetLimits, BudgetStatus } from './budget.js';
+import type { BaseCheckpointSaver } from '@langchain/langgraph';
+import { runThreadConfig } from './checkpointer.js';
+import { createPauseMiddleware } from './pause.js';
+import type { PauseGate } from './pause.js';
 
 // ── Review output interface ──────────────────────────────────────────────────
 
@@ -27,6 +33,7 @@ export interface ReviewOutput {
   summary: string;
   feedbackItems: string[];   // actionable items, empty when resolved
   reviewBody: string;        // raw review text posted to GitHub
+  budgetExceeded?: BudgetStatus; // set when the review was stopped by its budget
 }
 
 /**
@@ -154,6 +161,8 @@ export function createReviewerAgent(
     iterationContext?: { iteration: number; previousFeedback: string[] };
     iterationTag?: number;
     cache?: ToolCache;
+    checkpointer?: BaseCheckpointSaver;
+    pause?: PauseGate;
   } = {},
 ) {
   // Use reviewerLlm if configured, otherwise fall back to main llm
@@ -163,7 +172,7 @@ export function createReviewerAgent(
   const model = createModel(modelConfig);
 
   const { owner, repo } = config.github;
-  const octokit = createGitHubClient(getAuthFromConfig(config.github));
+  const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
 
   // Tools: diff reader, source reader, review submitter
   let diffTool = createGetPrDiffTool(octokit, owner, repo);
@@ -194,10 +203,12 @@ export function createReviewerAgent(
     model,
     tools: [diffTool, readFileTool, reviewTool],
     systemPrompt,
+    checkpointer: options.checkpointer,
     middleware: [
       summarizationMiddleware({ model, trigger: { tokens: 50_000 }, keep: { messages: 6 } }),
       anthropicPromptCachingMiddleware({ unsupportedModelBehavior: 'ignore' }),
       createPatchToolCallsMiddleware(),
+      ...(options.pause ? [createPauseMiddleware(options.pause)] : []),
     ],
   }).withConfig({ recursionLimit: 10_000 });
 
@@ -206,16 +217,56 @@ export function createReviewerAgent(
 
 // ── Run review on a single PR ────────────────────────────────────────────────
 
+export interface RunReviewOptions {
+  iterationContext?: { iteration: number; previousFeedback: string[] };
+  signal?: AbortSignal;
+  usageService?: UsageService;
+  processId?: string;
+  /** Repo the usage is recorded against */
+  repoId?: number;
+  /** Cost/token limits; needs usageService and processId to be enforced */
+  budget?: BudgetLimits;
+  onBudget?: (status: BudgetStatus) => void;
+  /** Checkpoints the review under processId; see checkpointer.ts */
+  checkpointer?: BaseCheckpointSaver;
+  /** Continue from the review's last checkpoint instead of starting over */
+  resume?: boolean;
+  /** Operator pause; see pause.ts */
+  pause?: PauseGate;
+}
+
 /**
  * Run the reviewer agent on a single PR.
  *
  * Uses streamEvents() to collect the final message via streaming,
- * matching the pattern used by runArchitect and chatStream.
+ * matching the pattern used by runArchitect and chatStream. With a
+ * budget, the review stops once it crosses a limit and says so on the PR.
  */
 export async function runReviewSingle(
   config: Config,
   prNumber: number,
-  options?: { iterationContext?: { iteration: number; previousFeedback: string[] }; signal?: AbortSignal; usageService?: UsageService; processId?: string },
+  options?: RunReviewOptions,
+): Promise<ReviewOutput> {
+  const tracker = startBudgetTracker(options ?? {});
+  if (!tracker) return runReview(config, prNumber, options);
+
+  let output: ReviewOutput;
+  try {
+    output = await runReview(config, prNumber, { ...options, signal: tracker.signal });
+  } finally {
+    tracker.dispose();
+  }
+  if (!tracker.exceeded) return output;
+
+  const budget = tracker.status();
+  await postBudgetComment(config, prNumber, formatBudgetComment(budget, { phase: 'reviewer', summary: output.summary }));
+  return { ...output, budgetExceeded: budget };
+}
+
+async function runReview(
+  config: Config,
+  prNumber: number,
+  options?: RunReviewOptions,
 ): Promise<ReviewOutput> {
   const iteration = options?.iterationContext?.iteration ?? 1;
   console.log(`\u{1F50D} Reviewing PR #${prNumber}${iteration > 1 ? ` (iteration ${iteration})` : ''}\n`);
@@ -223,6 +274,8 @@ export async function runReviewSingle(
   const agent = createReviewerAgent(config, {
     iterationContext: options?.iterationContext,
     iterationTag: iteration,
+    checkpointer: options?.checkpointer,
+    pause: options?.pause,
   });
   const userMessage = `Review pull request #${prNumber}. Fetch the diff, read relevant source files, and submit your review.`;
 
@@ -231,9 +284,11 @@ export async function runReviewSingle(
   let lastResponse = '';
   let chatModelStartTime = 0;
 
+  const resume = options?.resume && !!options.checkpointer;
+  if (resume) console.log(`\u{1F504} Resuming process ${options?.processId} from its last checkpoint`);
   const stream = agent.streamEvents(
-    { messages: [{ role: 'user', content: userMessage }] },
-    { version: 'v2' },
+    resume ? null : { messages: [{ role: 'user', content: userMessage }] },
+    { version: 'v2', ...runThreadConfig(options ?? {}) },
   );
 
   for await (const ev of stream) {
@@ -265,6 +320,7 @@ export async function runReviewSingle(
               agent: 'reviewer',
               processId: options.processId,
               prNumber,
+              repoId: options.repoId,
               inputTokens: usage.input_tokens ?? 0,
               outputTokens: usage.output_tokens ?? 0,
               durationMs,
@@ -0,0 +1,555 @@
+/**
+ * Sandboxed execution for workspace shell commands (the local bash tool).
+ *
+ * Every command runs with:
+ *   - a scrubbed environment — only PATH, locale and terminal variables plus
+ *     `envPassthrough`; GITHUB_TOKEN, LLM_API_KEY, DATABASE_URL etc. never
+ *     reach the command. HOME and TMPDIR point at a throwaway directory.
+ *   - CPU-time and memory rlimits and a wall-clock timeout (the whole
+ *     process group is killed when it expires)
+ *   - no network, full network, or (subprocess backend only) an egress
+ *     proxy that only lets allowlisted hosts through (package registries
+ *     and github.com by default)
+ *
+ * Backends:
+ *   subprocess — plain `bash` with rlimits. Network and filesystem limits
+ *                are advisory: the proxy only sees tools that honour
+ *                HTTP(S)_PROXY, and nothing stops writes outside the workspace.
+ *   bwrap      — bubblewrap: read-only root, the project directory hidden,
+ *                only the workspace writable; `network: none` unshares the
+ *                network namespace.
+ *   docker     — a throwaway container with the workspace mounted at
+ *                /workspace, a read-only root filesystem and --memory;
+ *                `network: open` uses docker's default bridge network.
+ *
+ * bwrap and docker refuse `network: allowlist`: the proxy can't be the only
+ * way out of a sandbox that shares a network with the host, so the allowlist
+ * would be as advisory as the subprocess backend's while looking enforced.
+ *
+ * When no backend is configured, bwrap is used if it works on the host,
+ * with the network cut off unless `network` is set to open (an explicit
+ * allowlist keeps the subprocess backend). Docker is never picked on its
+ * own: its image decides which toolchains commands can use. Runs left on
+ * the subprocess backend log a warning that nothing is enforced.
+ *
+ * Workspaces are git worktrees, so bwrap and docker also mount the repo's
+ * mirror (Workspace.gitCommonDir) writable — commits land there — with its
+ * config and hooks read-only.
+ *
+ * The global policy comes from SANDBOX_* env vars (config.sandbox); a repo
+ * can override any field via `RepoRecord.configJson.sandbox`.
+ */
+
+import { spawn, execFile } from 'child_process';
+import fs from 'fs';
+import http from 'http';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import type { Config } from './config.js';
+import { dependencyEnv } from './dependency-cache.js';
+import type { RepoRepository } from './repo-repository.js';
+import type { Workspace } from './workspace.js';
+
+// ── Policy ───────────────────────────────────────────────────────────────────
+
+export type SandboxBackendName = 'subprocess' | 'bwrap' | 'docker';
+export type SandboxNetwork = 'allowlist' | 'none' | 'open';
+
+export interface SandboxPolicy {
+  backend: SandboxBackendName;
+  /** Wall-clock limit per command */
+  timeoutSeconds: number;
+  /** CPU-time rlimit per command */
+  cpuSeconds: number;
+  /** Address-space rlimit (docker: --memory) */
+  memoryMb: number;
+  network: SandboxNetwork;
+  /** Hosts reachable with `network: allowlist`; ".example.com" also matches subdomains */
+  allowedHosts: string[];
+  /** Extra environment variables passed through to commands */
+  envPassthrough: string[];
+  /** Image for the docker backend */
+  dockerImage: string;
+}
+
+/** Sandbox section of the global config or a repo's configJson. */
+export type SandboxConfig = Partial<SandboxPolicy>;
+
+export const SANDBOX_BACKENDS: SandboxBackendName[] = ['subprocess', 'bwrap', 'docker'];
+export const SANDBOX_NETWORKS: SandboxNetwork[] = ['allowlist', 'none', 'open'];
+
+export const DEFAULT_SANDBOX_POLICY: SandboxPolicy = {
+  backend: 'subprocess',
+  timeoutSeconds: 30,
+  cpuSeconds: 60,
+  memoryMb: 4096,
+  network: 'allowlist',
+  allowedHosts: [
+    'github.com',
+    'codeload.github.com',
+    'registry.npmjs.org',
+    'registry.yarnpkg.com',
+    'pypi.org',
+    'files.pythonhosted.org',
+    'proxy.golang.org',
+    'sum.golang.org',
+    'index.crates.io',
+    'static.crates.io',
+    'repo.maven.apache.org',
+    'rubygems.org',
+  ],
+  envPassthrough: [],
+  dockerImage: 'node:20-bookworm',
+};
+
+/** Variables every command keeps; everything else is dropped. */
+const BASE_ENV = ['PATH', 'LANG', 'LC_ALL', 'LC_CTYPE', 'TERM', 'TZ', 'USER', 'LOGNAME', 'SHELL'];
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string' && v.length > 0);
+}
+
+/**
+ * Validate a sandbox section (global config or a repo's configJson.sandbox).
+ * Returns undefined when there is none; throws with a readable message
+ * when it is malformed.
+ */
+export function parseSandboxConfig(raw: unknown, where = 'sandbox'): SandboxConfig | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`${where} must be an object`);
+  const sandbox = raw as Record<string, unknown>;
+
+  if (sandbox.backend !== undefined && !SANDBOX_BACKENDS.includes(sandbox.backend as SandboxBackendName)) {
+    throw new Error(`${where}.backend must be one of ${SANDBOX_BACKENDS.join(', ')}`);
+  }
+  if (sandbox.network !== undefined && !SANDBOX_NETWORKS.includes(sandbox.network as SandboxNetwork)) {
+    throw new Error(`${where}.network must be one of ${SANDBOX_NETWORKS.join(', ')}`);
+  }
+  for (const key of ['timeoutSeconds', 'cpuSeconds', 'memoryMb'] as const) {
+    const value = sandbox[key];
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      throw new Error(`${where}.${key} must be a positive number`);
+    }
+  }
+  for (const key of ['allowedHosts', 'envPassthrough'] as const) {
+    if (sandbox[key] !== undefined && !isStringList(sandbox[key])) {
+      throw new Error(`${where}.${key} must be a list of strings`);
+    }
+  }
+  if (sandbox.dockerImage !== undefined && (typeof sandbox.dockerImage !== 'string' || !sandbox.dockerImage)) {
+    throw new Error(`${where}.dockerImage must be a non-empty string`);
+  }
+  if (sandbox.backend !== undefined && sandbox.network !== undefined) {
+    checkSandboxNetwork(sandbox as SandboxConfig, where);
+  }
+  return sandbox as SandboxConfig;
+}
+
+/**
+ * Throw when the policy asks for the allowlist on a backend that can't
+ * enforce it (see the module comment). Unset fields count as the defaults.
+ */
+export function checkSandboxNetwork(policy: SandboxConfig, where = 'sandbox'): void {
+  const backend = policy.backend ?? DEFAULT_SANDBOX_POLICY.backend;
+  const network = policy.network ?? DEFAULT_SANDBOX_POLICY.network;
+  if (backend !== 'subprocess' && network === 'allowlist') {
+    throw new Error(`${where}.network allowlist is not supported by the ${backend} backend; use none or open`);
+  }
+}
+
+let detectedBackend: Promise<SandboxBackendName | undefined> | undefined;
+let warnedAdvisory = false;
+
+/**
+ * The enforcing backend to use when none is configured: bwrap if it can
+ * start a sandbox without network on this host. Probed once per process.
+ */
+export function detectSandboxBackend(): Promise<SandboxBackendName | undefined> {
+  detectedBackend ??= new Promise((resolve) => {
+    execFile('bwrap', ['--ro-bind', '/', '/', '--unshare-net', '--', 'true'], { timeout: 5000 }, (err) => {
+      resolve(err ? undefined : 'bwrap');
+    });
+  });
+  return detectedBackend;
+}
+
+/** Warn, once per process, when a policy's network and filesystem limits are not enforced. */
+export function warnIfSandboxAdvisory(policy: SandboxPolicy): void {
+  if (policy.backend !== 'subprocess' || policy.network === 'open' || warnedAdvisory) return;
+  warnedAdvisory = true;
+  console.warn(
+    `[sandbox] WARNING: the subprocess backend does not enforce network: ${policy.network}. ` +
+    'Commands that ignore HTTP(S)_PROXY reach the network directly, and writes outside the workspace are not blocked. ' +
+    'Install bubblewrap, or set SANDBOX_BACKEND=bwrap or docker with SANDBOX_NETWORK=none.',
+  );
+}
+
+/** Combine defaults, the global sandbox config and a repo's, later ones winning per field. */
+export function resolveSandboxPolicy(global?: SandboxConfig, repo?: SandboxConfig): SandboxPolicy {
+  const policy = { ...DEFAULT_SANDBOX_POLICY };
+  for (const source of [global, repo]) {
+    for (const [key, value] of Object.entries(source ?? {})) {
+      if (value !== undefined) (policy as Record<string, unknown>)[key] = value;
+    }
+  }
+  return policy;
+}
+
+/**
+ * Sandbox policy for runs on the configured repo: global config plus the
+ * repo's configJson.sandbox, on bwrap when neither picks a backend and
+ * `detect` finds it. A malformed repo policy is logged and ignored.
+ */
+export async function loadSandboxPolicy(
+  config: Config,
+  repoRepository?: RepoRepository,
+  detect: () => Promise<SandboxBackendName | undefined> = detectSandboxBackend,
+): Promise<SandboxPolicy> {
+  const { owner, repo } = config.github;
+  let repoSandbox: SandboxConfig | undefined;
+  if (repoRepository) {
+    const record = await Promise.resolve(repoRepository.getByOwnerRepo(owner, repo));
+    try {
+      repoSandbox = parseSandboxConfig(record?.configJson?.sandbox);
+    } catch (err) {
+      console.error(`[sandbox] Invalid sandbox config for ${owner}/${repo}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  const global = config.sandbox as SandboxConfig | undefined;
+  let policy = resolveSandboxPolicy(global, repoSandbox);
+  try {
+    checkSandboxNetwork(policy);
+  } catch (err) {
+    // e.g. the repo picks bwrap while the global network is the allowlist
+    console.error(`[sandbox] Invalid sandbox config for ${owner}/${repo}: ${err instanceof Error ? err.message : err}`);
+    repoSandbox = undefined;
+    policy = resolveSandboxPolicy(global);
+  }
+
+  const sources = [global, repoSandbox];
+  const allowlistChosen = policy.network === 'allowlist' && sources.some(s => s?.network === 'allowlist');
+  if (!sources.some(s => s?.backend) && !allowlistChosen) {
+    const backend = await detect();
+    if (backend) {
+      policy = { ...policy, backend, network: policy.network === 'allowlist' ? 'none' : policy.network };
+    }
+  }
+  warnIfSandboxAdvisory(policy);
+  return policy;
+}
+
+// ── Environment ──────────────────────────────────────────────────────────────
+
+/**
+ * Environment for a sandboxed command: the base variables and passthrough
+ * list from `source`, HOME/TMPDIR in `home`, and the egress proxy if any.
+ */
+export function buildSandboxEnv(
+  source: NodeJS.ProcessEnv,
+  policy: SandboxPolicy,
+  options: { home: string; proxyUrl?: string },
+): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of [...BASE_ENV, ...policy.envPassthrough]) {
+    const value = source[name];
+    if (value !== undefined) env[name] = value;
+  }
+  env.HOME = options.home;
+  env.TMPDIR = options.home;
+  env.GIT_TERMINAL_PROMPT = '0';
+  if (options.proxyUrl) {
+    for (const name of ['HTTP_PROXY', 'HTTPS_PROXY', 'ALL_PROXY', 'http_proxy', 'https_proxy', 'all_proxy']) {
+      env[name] = options.proxyUrl;
+    }
+    env.NO_PROXY = '';
+    env.no_proxy = '';
+  }
+  return env;
+}
+
+// ── Egress proxy ─────────────────────────────────────────────────────────────
+
+/** Whether `host` is on the allowlist; entries starting with "." also match subdomains. */
+export function isHostAllowed(host: string, allowedHosts: string[]): boolean {
+  const name = host.toLowerCase().replace(/^\[|\]$/g, '');
+  return allowedHosts.some((entry) => {
+    const allowed = entry.toLowerCase().replace(/^\*\./, '.');
+    return allowed.startsWith('.')
+      ? name === allowed.slice(1) || name.endsWith(allowed)
+      : name === allowed;
+  });
+}
+
+export interface EgressProxy {
+  url: string;
+  close: () => Promise<void>;
+}
+
+/**
+ * Start an HTTP proxy on loopback that forwards plain requests and CONNECT
+ * tunnels to allowlisted hosts only, answering 403 for everything else.
+ */
+export async function startEgressProxy(allowedHosts: string[]): Promise<EgressProxy> {
+  const sockets = new Set<net.Socket>();
+  const track = (socket: net.Socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  };
+
+  const server = http.createServer((req, res) => {
+    let target: URL;
+    try {
+      target = new URL(req.url ?? '');
+    } catch {
+      res.writeHead(400).end('Bad proxy request\n');
+      return;
+    }
+    if (!isHostAllowed(target.hostname, allowedHosts)) {
+      res.writeHead(403).end(`Blocked by sandbox: ${target.hostname} is not on the network allowlist\n`);
+      return;
+    }
+    const upstream = http.request(target, { method: req.method, headers: req.headers }, (up) => {
+      res.writeHead(up.statusCode ?? 502, up.headers);
+      up.pipe(res);
+    });
+    upstream.on('error', () => res.headersSent ? res.destroy() : res.writeHead(502).end());
+    req.pipe(upstream);
+  });
+
+  server.on('connection', track);
+  server.on('connect', (req: http.IncomingMessage, client: net.Socket, head: Buffer) => {
+    const [host, port] = (req.url ?? '').split(/:(?=\d+$)/);
+    if (!host || !isHostAllowed(host, allowedHosts)) {
+      client.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+    const upstream = net.connect(Number(port) || 443, host, () => {
+      client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      upstream.write(head);
+      upstream.pipe(client);
+      client.pipe(upstream);
+    });
+    track(upstream);
+    upstream.on('error', () => client.destroy());
+    client.on('error', () => upstream.destroy());
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+  const { port } = server.address() as net.AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => {
+      for (const socket of sockets) socket.destroy();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+// ── Backends ─────────────────────────────────────────────────────────────────
+
+/** How to launch one command: the program, its arguments and environment. */
+export interface SandboxInvocation {
+  file: string;
+  args: string[];
+  env: Record<string, string>;
+  /** Extra cleanup when the command times out (e.g. stop the container) */
+  onTimeout?: () => void;
+}
+
+export interface SandboxBackend {
+  name: SandboxBackendName;
+  prepare(command: string, context: SandboxContext): SandboxInvocation;
+}
+
+export interface SandboxContext {
+  workspacePath: string;
+  /** The worktree's shared git directory, mounted at the same path */
+  gitCommonDir?: string;
+  home: string;
+  env: Record<string, string>;
+  policy: SandboxPolicy;
+}
+
+/**
+ * Parts of the git common dir a command must not change: the config (remote
+ * URLs, aliases, fsmonitor) and the hooks the host might run.
+ */
+function protectedGitPaths(gitCommonDir: string): string[] {
+  return ['config', 'hooks'].map(name => path.join(gitCommonDir, name)).filter(p => fs.existsSync(p));
+}
+
+/**
+ * bash arguments that apply the rlimits, then run `command` (passed as $1,
+ * so it needs no quoting).
+ */
+export function limitedShellArgs(command: string, policy: SandboxPolicy): string[] {
+  const script = [
+    `ulimit -t ${Math.ceil(policy.cpuSeconds)}`,
+    `ulimit -v ${Math.ceil(policy.memoryMb * 1024)}`,
+    'eval "$1"',
+  ].join('; ');
+  return ['-c', script, 'sandbox', command];
+}
+
+const subprocessBackend: SandboxBackend = {
+  name: 'subprocess',
+  prepare(command, { env, policy }) {
+    return { file: 'bash', args: limitedShellArgs(command, policy), env };
+  },
+};
+
+const bwrapBackend: SandboxBackend = {
+  name: 'bwrap',
+  prepare(command, { workspacePath, gitCommonDir, home, env, policy }) {
+    const gitMounts = gitCommonDir
+      ? ['--bind', gitCommonDir, gitCommonDir, ...protectedGitPaths(gitCommonDir).flatMap(p => ['--ro-bind', p, p])]
+      : [];
+    const args = [
+      '--ro-bind', '/', '/',
+      '--dev', '/dev',
+      '--proc', '/proc',
+      '--tmpfs', '/tmp',
+      // Hide the project directory (.env, keys) before exposing the workspace inside it
+      '--tmpfs', process.cwd(),
+      '--bind', workspacePath, workspacePath,
+      ...gitMounts,
+      '--bind', home, home,
+      '--chdir', workspacePath,
+      '--unshare-all',
+      ...(policy.network === 'none' ? [] : ['--share-net']),
+      '--die-with-parent',
+      '--new-session',
+      '--',
+      'bash', ...limitedShellArgs(command, policy),
+    ];
+    return { file: 'bwrap', args, env };
+  },
+};
+
+const dockerBackend: SandboxBackend = {
+  name: 'docker',
+  prepare(command, { workspacePath, gitCommonDir, home, env, policy }) {
+    // The worktree's .git file names the mirror by its host path
+    const gitMounts = gitCommonDir
+      ? ['-v', `${gitCommonDir}:${gitCommonDir}`, ...protectedGitPaths(gitCommonDir).flatMap(p => ['-v', `${p}:${p}:ro`])]
+      : [];
+    const name = `deepagents-sandbox-${process.pid}-${Date.now()}`;
+    const containerEnv = { ...env, HOME: '/sandbox-home', TMPDIR: '/tmp' };
+    delete containerEnv.PATH; // keep the image's PATH
+    // Dependency cache dirs (dependency-cache.ts) are host paths in the workspace
+    for (const [k, v] of Object.entries(containerEnv)) {
+      if (v === workspacePath || v.startsWith(`${workspacePath}/`)) containerEnv[k] = `/workspace${v.slice(workspacePath.length)}`;
+    }
+    const user = typeof process.getuid === 'function' ? ['--user', `${process.getuid()}:${process.getgid?.() ?? process.getuid()}`] : [];
+    const args = [
+      'run', '--rm', '--name', name,
+      '--network', policy.network === 'none' ? 'none' : 'bridge',
+      '--memory', `${Math.ceil(policy.memoryMb)}m`,
+      '--pids-limit', '512',
+      '--read-only',
+      '--tmpfs', '/tmp',
+      '-v', `${workspacePath}:/workspace`,
+      ...gitMounts,
+      '-v', `${home}:/sandbox-home`,
+      '-w', '/workspace',
+      ...user,
+      ...Object.entries(containerEnv).flatMap(([k, v]) => ['-e', `${k}=${v}`]),
+      policy.dockerImage,
+      'bash', ...limitedShellArgs(command, policy),
+    ];
+    return {
+      file: 'docker',
+      args,
+      // The docker CLI itself needs the host environment (DOCKER_HOST, PATH)
+      env: Object.fromEntries(Object.entries(process.env).filter((e): e is [string, string] => e[1] !== undefined)),
+      onTimeout: () => { execFile('docker', ['rm', '-f', name], () => {}); },
+    };
+  },
+};
+
+const BACKENDS: Record<SandboxBackendName, SandboxBackend> = {
+  subprocess: subprocessBackend,
+  bwrap: bwrapBackend,
+  docker: dockerBackend,
+};
+
+export function getSandboxBackend(name: SandboxBackendName): SandboxBackend {
+  return BACKENDS[name];
+}
+
+// ── Runner ───────────────────────────────────────────────────────────────────
+
+export interface SandboxResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  /** Signal that ended the command, e.g. SIGXCPU after the CPU limit */
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+}
+
+/** Output kept per stream; the bash tool truncates further. */
+const MAX_CAPTURE = 1_000_000;
+
+/**
+ * Run a command in the workspace under the sandbox policy. Never throws
+ * for command failures; the result carries exit code, signal and timeout.
+ */
+export async function runSandboxed(command: string, ws: Workspace, policy: SandboxPolicy): Promise<SandboxResult> {
+  checkSandboxNetwork(policy);
+  warnIfSandboxAdvisory(policy);
+
+  const home = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'deepagents-sandbox-'));
+  const proxy = policy.network === 'open'
+    ? undefined
+    : await startEgressProxy(policy.network === 'allowlist' ? policy.allowedHosts : []);
+  try {
+    const env = { ...buildSandboxEnv(process.env, policy, { home, proxyUrl: proxy?.url }), ...dependencyEnv(ws.path) };
+    const invocation = getSandboxBackend(policy.backend).prepare(command, { workspacePath: ws.path, gitCommonDir: ws.gitCommonDir, home, env, policy });
+    return await spawnLimited(invocation, ws.path, policy.timeoutSeconds * 1000);
+  } finally {
+    await proxy?.close();
+    await fs.promises.rm(home, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+function spawnLimited(invocation: SandboxInvocation, cwd: string, timeoutMs: number): Promise<SandboxResult> {
+  return new Promise((resolve) => {
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    const child = spawn(invocation.file, invocation.args, {
+      cwd,
+      env: invocation.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Own process group, so a timeout kills everything the command started
+      detached: true,
+    });
+    child.stdout.setEncoding('utf-8').on('data', (chunk: string) => { if (stdout.length < MAX_CAPTURE) stdout += chunk; });
+    child.stderr.setEncoding('utf-8').on('data', (chunk: string) => { if (stderr.length < MAX_CAPTURE) stderr += chunk; });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        child.kill('SIGKILL');
+      }
+      invocation.onTimeout?.();
+    }, timeoutMs);
+
+    child.on('error', (err) => {
+      clearTimeout(timer);
+      resolve({ stdout, stderr: `${stderr}${err.message}`, exitCode: null, signal: null, timedOut });
+    });
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      resolve({ stdout, stderr, exitCode, signal, timedOut });
+    });
+  });
+}
@@ -0,0 +1,492 @@
+/**
+ * In-process scheduler for the serve and dashboard servers, replacing
+ * poll.sh + cron.
+ *
+ * Repos opt in through `configJson.schedules`, task name → cron expression
+ * (minute hour day-of-month month day-of-week, evaluated in UTC):
+ *
+ *   { "schedules": { "poll": "0 * * * *", "stale-prs": "0 9 * * 1-5" } }
+ *
+ * Tasks are registered by name: `poll` runs
+ * a poll cycle of the repo, `stale-prs` reports idle bot PRs. A due task,
+ * like a manual "run now", is queued as a SCHEDULED_JOB on the JobQueue,
+ * so runs share its retries, persistence and per-repo concurrency. A task
+ * never overlaps itself on a repo: while a run is queued or running,
+ * further triggers are skipped. Runs missed while the server was down are
+ * not caught up.
+ */
+
+import type { Config } from './config.js';
+import { runPollCycle } from './core.js';
+import type { PollCycleOptions } from './core.js';
+import type { Job, JobStatus } from './job-repository.js';
+import type { JobEvent, JobQueue } from './job-queue.js';
+import { isBotPr } from './listener.js';
+import { configForRepo } from './repo-repository.js';
+import type { RepoRecord, RepoRepository } from './repo-repository.js';
+import { loadScmProvider } from './scm-provider.js';
+
+/** Job type of scheduled and run-now task runs. */
+export const SCHEDULED_JOB = 'scheduled';
+
+/** How often the scheduler looks for due tasks (default). */
+const DEFAULT_TICK_INTERVAL_MS = 30_000;
+
+// ── Cron expressions ─────────────────────────────────────────────────────────
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  weekdays: Set<number>;
+  /** When both day fields are restricted a day matching either one is due (as in cron) */
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const CRON_MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+function parseCronValue(token: string, field: CronField): number {
+  const named = field.names?.indexOf(token.toLowerCase()) ?? -1;
+  const value = named >= 0 ? named + field.min : /^\d+$/.test(token) ? Number(token) : NaN;
+  if (!(value >= field.min && value <= field.max)) {
+    throw new Error(`${field.name} "${token}" is not between ${field.min} and ${field.max}`);
+  }
+  return value;
+}
+
+function parseCronField(text: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const match = /^(\*|\w+(?:-\w+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match || match[2] === '0') throw new Error(`invalid ${field.name} "${part}"`);
+    const step = match[2] ? Number(match[2]) : 1;
+    let [low, high] = [field.min, field.max];
+    if (match[1] !== '*') {
+      const [from, to] = match[1].split('-');
+      low = parseCronValue(from, field);
+      // "5/15" runs from 5 to the end of the range
+      high = to !== undefined ? parseCronValue(to, field) : match[2] ? field.max : low;
+      if (low > high) throw new Error(`invalid ${field.name} range "${match[1]}"`);
+    }
+    for (let v = low; v <= high; v += step) values.add(v);
+  }
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression or one of @hourly, @daily, @weekly,
+ * @monthly, @yearly. Numbers, names (jan, mon), ranges, lists and steps
+ * are supported. Throws with a readable message when it is malformed or
+ * never matches (e.g. February 30th).
+ */
+export function parseCron(expression: string): CronSchedule {
+  const text = CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = text.split(/\s+/);
+  if (parts.length !== CRON_FIELDS.length) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`);
+  }
+  let schedule: CronSchedule;
+  try {
+    const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseCronField(part, CRON_FIELDS[i]));
+    if (weekdays.delete(7)) weekdays.add(0);
+    schedule = {
+      minutes, hours, days, months, weekdays,
+      daysRestricted: !parts[2].startsWith('*'),
+      weekdaysRestricted: !parts[4].startsWith('*'),
+    };
+    nextCronRun(schedule, new Date(Date.UTC(2000, 0, 1)));
+  } catch (err) {
+    throw new Error(`Invalid cron expression "${expression}": ${err instanceof Error ? err.message : err}`);
+  }
+  return schedule;
+}
+
+function isCronDay(schedule: CronSchedule, t: Date): boolean {
+  const day = schedule.days.has(t.getUTCDate());
+  const weekday = schedule.weekdays.has(t.getUTCDay());
+  if (schedule.daysRestricted && schedule.weekdaysRestricted) return day || weekday;
+  return day && weekday;
+}
+
+/**
+ * First time after `after` (to the minute, UTC) that the schedule is due.
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date {
+  const t = new Date(after.getTime());
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+  // Leap days repeat every 4 years, so any valid schedule matches within 8
+  const limit = after.getTime() + 8 * 366 * 86_400_000;
+  while (t.getTime() <= limit) {
+    if (!schedule.months.has(t.getUTCMonth() + 1)) {
+      t.setUTCMonth(t.getUTCMonth() + 1, 1);
+      t.setUTCHours(0, 0);
+    } else if (!isCronDay(schedule, t)) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1);
+    } else {
+      return t;
+    }
+  }
+  throw new Error('never matches');
+}
+
+/**
+ * Validate the `schedules` section of a repo's configJson: task name →
+ * cron expression. Returns {} when there is none; throws with a readable
+ * message when it is malformed.
+ */
+export function parseSchedules(configJson: Record<string, unknown> | undefined): Record<string, string> {
+  const raw = configJson?.schedules;
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error('schedules must be an object of task name to cron expression');
+  const schedules: Record<string, string> = {};
+  for (const [task, expression] of Object.entries(raw)) {
+    if (typeof expression !== 'string') throw new Error(`schedules.${task} must be a cron expression`);
+    try {
+      parseCron(expression);
+    } catch (err) {
+      throw new Error(`schedules.${task}: ${err instanceof Error ? err.message : err}`);
+    }
+    schedules[task] = expression;
+  }
+  return schedules;
+}
+
+// ── Tasks ────────────────────────────────────────────────────────────────────
+
+export interface ScheduledTaskContext {
+  /** The env config pointed at the repo (configForRepo) */
+  config: Config;
+  repo: RepoRecord;
+}
+
+export interface ScheduledTask {
+  description: string;
+  /**
+   * Run once for a repo. The returned text is kept as the run's result;
+   * throwing fails the job, which the JobQueue retries.
+   */
+  run(context: ScheduledTaskContext): Promise<string | void>;
+}
+
+/** `poll`: one poll cycle of the repo. */
+export function createPollTask(options: Omit<PollCycleOptions, 'repos'>): ScheduledTask {
+  return {
+    description: 'Poll the repo for new issues and process them',
+    async run({ config, repo }) {
+      await runPollCycle(config, { ...options, repos: [repo] });
+    },
+  };
+}
+
+/** Bot PRs without activity for this long are reported by `stale-prs`. */
+const STALE_PR_DAYS = 14;
+
+/** `stale-prs`: report open bot PRs nobody touched for STALE_PR_DAYS. */
+export function createStalePrTask(repoRepository?: RepoRepository, now: () => number = Date.now): ScheduledTask {
+  return {
+    description: `Report bot PRs without activity for ${STALE_PR_DAYS} days`,
+    async run({ config }) {
+      const scm = await loadScmProvider(config, repoRepository);
+      const cutoff = now() - STALE_PR_DAYS * 86_400_000;
+      const stale = (await scm.listPullRequests({ state: 'open' }))
+        .filter(pr => isBotPr(pr.body, pr.headRef) && pr.updatedAt && Date.parse(pr.updatedAt) < cutoff);
+      if (stale.length === 0) return `No bot PRs idle for ${STALE_PR_DAYS}+ days`;
+      return `${stale.length} bot PR(s) idle for ${STALE_PR_DAYS}+ days: ${stale.map(pr => `#${pr.number}`).join(', ')}`;
+    },
+  };
+}
+
+// ── Scheduler ────────────────────────────────────────────────────────────────
+
+export type ScheduleTrigger = 'schedule' | 'manual';
+
+/** The latest run of a task on a repo. */
+export interface ScheduledRun {
+  jobId: number;
+  trigger: ScheduleTrigger;
+  status: JobStatus;
+  queuedAt?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: string;
+  error?: string;
+}
+
+/** A task on a repo, as shown in the dashboard. */
+export interface ScheduleStatus {
+  repoId: number;
+  owner: string;
+  repo: string;
+  task: string;
+  /** From configJson.schedules; unset for tasks that were only run by hand */
+  cron?: string;
+  nextRunAt?: string;
+  /** Why a scheduled task can't run, e.g. an unknown task name */
+  error?: string;
+  /** Queued or running right now */
+  active: boolean;
+  lastRun?: ScheduledRun;
+}
+
+interface ScheduledJobPayload {
+  repoId: number;
+  owner: string;
+  repo: string;
+  task: string;
+  trigger: ScheduleTrigger;
+}
+
+interface ScheduleEntry {
+  repo: RepoRecord;
+  task: string;
+  cron: string;
+  nextRunAt: Date;
+}
+
+export interface SchedulerOptions {
+  /** How often due tasks are looked for (default 30s) */
+  tickIntervalMs?: number;
+  now?: () => Date;
+}
+
+const scheduleKey = (repoId: number, task: string) => `${repoId}:${task}`;
+
+/**
+ * Fires the tasks in the active repos' configJson.schedules on the
+ * JobQueue and keeps their last and next run times. Repos are re-read on
+ * every tick, so schedule changes apply without a restart.
+ */
+export class Scheduler {
+  private tasks = new Map<string, ScheduledTask>();
+  private entries = new Map<string, ScheduleEntry>();
+  /** Tasks with a run queued or running */
+  private active = new Set<string>();
+  private lastRuns = new Map<string, { payload: ScheduledJobPayload; run: ScheduledRun }>();
+  private results = new Map<number, string>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private tickIntervalMs: number;
+  private now: () => Date;
+
+  constructor(
+    private config: Config,
+    private jobQueue: JobQueue,
+    private repoRepository: RepoRepository,
+    options: SchedulerOptions = {},
+  ) {
+    this.tickIntervalMs = options.tickIntervalMs ?? DEFAULT_TICK_INTERVAL_MS;
+    this.now = options.now ?? (() => new Date());
+    jobQueue.register(SCHEDULED_JOB, job => this.execute(job));
+    jobQueue.on('job_event', (event: JobEvent) => this.onJobEvent(event));
+  }
+
+  registerTask(name: string, task: ScheduledTask): void {
+    this.tasks.set(name, task);
+  }
+
+  hasTask(name: string): boolean {
+    return this.tasks.has(name);
+  }
+
+  /**
+   * Pick up the runs left in the queue by a previous process, then start
+   * ticking. Call after the JobQueue is started.
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+    const jobs = await this.jobQueue.list({ limit: 500 });
+    for (const job of [...jobs].reverse()) {
+      if (job.type !== SCHEDULED_JOB) continue;
+      const payload = job.payload as unknown as ScheduledJobPayload;
+      const key = scheduleKey(payload.repoId, payload.task);
+      if (job.status === 'queued' || job.status === 'running') this.active.add(key);
+      this.lastRuns.set(key, {
+        payload,
+        run: { jobId: job.id, trigger: payload.trigger, status: job.status, queuedAt: job.createdAt, startedAt: job.startedAt, finishedAt: job.completedAt, error: job.lastError },
+      });
+    }
+    this.timer = setInterval(() => { void this.tick(); }, this.tickIntervalMs);
+    this.timer.unref();
+    await this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue a run of `task` on the repo, unless one is already queued or
+   * running. Returns the job, or undefined when the run was skipped.
+   */
+  async trigger(repo: RepoRecord, task: string, trigger: ScheduleTrigger): Promise<Job | undefined> {
+    const key = scheduleKey(repo.id, task);
+    if (this.active.has(key)) return undefined;
+    this.active.add(key);
+    const payload: ScheduledJobPayload = { repoId: repo.id, owner: repo.owner, repo: repo.repo, task, trigger };
+    try {
+      return await this.jobQueue.enqueue(SCHEDULED_JOB, `${repo.owner}/${repo.repo}`, payload as unknown as Record<string, unknown>);
+    } catch (err) {
+      this.active.delete(key);
+      throw err;
+    }
+  }
+
+  /** Fire the tasks that are due. Ticks never overlap. */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const now = this.now();
+      for (const entry of await this.refresh(now)) {
+        if (entry.nextRunAt > now || !this.tasks.has(entry.task)) continue;
+        entry.nextRunAt = nextCronRun(parseCron(entry.cron), now);
+        const name = `${entry.task} for ${entry.repo.owner}/${entry.repo.repo}`;
+        const job = await this.trigger(entry.repo, entry.task, 'schedule');
+        if (!job) console.log(`[scheduler] Skipping ${name}: the previous run is still queued or running`);
+      }
+    } catch (err) {
+      console.error('[scheduler] Tick failed:', err);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /** Every scheduled or previously run task, by repo and task name. */
+  async status(): Promise<ScheduleStatus[]> {
+    const entries = new Map((await this.refresh(this.now())).map(e => [scheduleKey(e.repo.id, e.task), e]));
+    const keys = new Set([...entries.keys(), ...this.lastRuns.keys()]);
+    const statuses = [...keys].map((key): ScheduleStatus => {
+      const entry = entries.get(key);
+      const last = this.lastRuns.get(key);
+      const repo = entry?.repo ?? { id: last!.payload.repoId, owner: last!.payload.owner, repo: last!.payload.repo };
+      const task = entry?.task ?? last!.payload.task;
+      return {
+        repoId: repo.id,
+        owner: repo.owner,
+        repo: repo.repo,
+        task,
+        cron: entry?.cron,
+        nextRunAt: entry && this.tasks.has(task) ? entry.nextRunAt.toISOString() : undefined,
+        error: entry && !this.tasks.has(task) ? `Unknown task "${task}"` : undefined,
+        active: this.active.has(key),
+        lastRun: last?.run,
+      };
+    });
+    return statuses.sort((a, b) => `${a.owner}/${a.repo}`.localeCompare(`${b.owner}/${b.repo}`) || a.task.localeCompare(b.task));
+  }
+
+  /**
+   * Sync the entries with the active repos' schedules. New or changed
+   * schedules are due at their next cron time after `now`.
+   */
+  private async refresh(now: Date): Promise<ScheduleEntry[]> {
+    const repos = await Promise.resolve(this.repoRepository.list(true));
+    const seen = new Set<string>();
+    for (const repo of repos) {
+      let schedules: Record<string, string>;
+      try {
+        schedules = parseSchedules(repo.configJson);
+      } catch (err) {
+        console.error(`[scheduler] Invalid schedules for ${repo.owner}/${repo.repo}: ${err instanceof Error ? err.message : err}`);
+        continue;
+      }
+      for (const [task, cron] of Object.entries(schedules)) {
+        const key = scheduleKey(repo.id, task);
+        seen.add(key);
+        const entry = this.entries.get(key);
+        if (entry && entry.cron === cron) {
+          entry.repo = repo;
+        } else {
+          this.entries.set(key, { repo, task, cron, nextRunAt: nextCronRun(parseCron(cron), now) });
+        }
+      }
+    }
+    for (const key of this.entries.keys()) {
+      if (!seen.has(key)) this.entries.delete(key);
+    }
+    return [...this.entries.values()];
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const { repoId, task: name } = job.payload as unknown as ScheduledJobPayload;
+    const task = this.tasks.get(name);
+    if (!task) throw new Error(`Unknown scheduled task "${name}"`);
+    const repo = await Promise.resolve(this.repoRepository.getById(repoId));
+    if (!repo?.isActive) {
+      this.results.set(job.id, 'Skipped: the repo is no longer active');
+      return;
+    }
+    console.log(`[scheduler] Running ${name} for ${repo.owner}/${repo.repo} (job #${job.id})`);
+    const result = await task.run({ config: await configForRepo(this.config, repo), repo });
+    if (result) this.results.set(job.id, result);
+  }
+
+  private onJobEvent({ type, job, timestamp }: JobEvent): void {
+    if (job.type !== SCHEDULED_JOB) return;
+    const payload = job.payload as unknown as ScheduledJobPayload;
+    const key = scheduleKey(payload.repoId, payload.task);
+    const previous = this.lastRuns.get(key)?.run;
+    const run: ScheduledRun = previous?.jobId === job.id
+      ? { ...previous, status: job.status }
+      : { jobId: job.id, trigger: payload.trigger, status: job.status };
+
+    switch (type) {
+      case 'job_queued':
+        this.active.add(key);
+        Object.assign(run, { queuedAt: timestamp, startedAt: undefined, finishedAt: undefined, result: undefined, error: undefined });
+        break;
+      case 'job_started':
+        this.active.add(key);
+        run.startedAt = timestamp;
+        break;
+      case 'job_retry':
+        run.error = job.lastError;
+        break;
+      case 'job_completed':
+        this.active.delete(key);
+        Object.assign(run, { finishedAt: timestamp, result: this.results.get(job.id), error: undefined });
+        this.results.delete(job.id);
+        break;
+      case 'job_dead':
+        this.active.delete(key);
+        Object.assign(run, { finishedAt: timestamp, error: job.lastError });
+        break;
+    }
+    this.lastRuns.set(key, { payload, run });
+  }
+}
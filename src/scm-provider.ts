@@ -0,0 +1,173 @@
+/**
+ * Source-control provider layer.
+ *
+ * The agent tools in github-tools.ts talk to Octokit directly; ScmProvider
+ * is the same set of operations (issues, comments, branches, file reads,
+ * pull/merge requests, diffs, reviews, CI) behind one interface so a repo
+ * can live on another host. GitHubProvider and GitLabProvider implement
+ * it; scm-tools.ts builds the agents' tools on top of it.
+ *
+ * Which provider and host a repo uses comes from its RepoRecord, falling
+ * back to SCM_PROVIDER / GITLAB_HOST for the env-configured repo. GitHub
+ * repos keep the Octokit tools, which also cover sub-issues and review
+ * threads; their provider supplies the clone remote. Numbers are the
+ * host's per-project ones: GitHub issue/PR numbers, GitLab issue and
+ * merge request iids.
+ */
+
+import type { Config } from './config.js';
+import type { RepoRepository } from './repo-repository.js';
+
+export type ScmKind = 'github' | 'gitlab';
+
+export const SCM_KINDS: ScmKind[] = ['github', 'gitlab'];
+
+/** Host used when a repo doesn't name one. */
+export const DEFAULT_SCM_HOSTS: Record<ScmKind, string> = {
+  github: 'github.com',
+  gitlab: 'gitlab.com',
+};
+
+export interface ScmIssue {
+  number: number;
+  title: string;
+  body: string;
+  state: 'open' | 'closed';
+  labels: string[];
+  url: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ScmComment {
+  id: number;
+  body: string;
+  url?: string;
+  createdAt?: string;
+}
+
+export interface ScmPullRequest {
+  number: number;
+  title: string;
+  body: string;
+  state: 'open' | 'closed' | 'merged';
+  headRef: string;
+  headSha: string;
+  baseRef: string;
+  url: string;
+  updatedAt?: string;
+}
+
+export interface ScmReviewComment {
+  path: string;
+  line: number;
+  body: string;
+}
+
+/** A CI job: a GitHub check run or a GitLab pipeline job. */
+export interface ScmCheck {
+  id: number;
+  name: string;
+  status: 'queued' | 'in_progress' | 'completed';
+  /** GitHub check-run conclusions; GitLab job states are mapped onto them */
+  conclusion: string | null;
+  url?: string;
+  summary?: string;
+}
+
+export interface ScmProvider {
+  readonly kind: ScmKind;
+  readonly host: string;
+  /** Owner, or GitLab namespace (may contain "/") */
+  readonly owner: string;
+  readonly repo: string;
+
+  /** Authenticated HTTPS remote for clones and pushes. */
+  remoteUrl(): Promise<string>;
+
+  listIssues(options: { state?: 'open' | 'closed' | 'all'; limit?: number; since?: string }): Promise<ScmIssue[]>;
+  getIssue(number: number): Promise<ScmIssue>;
+  createIssue(input: { title: string; body: string; labels?: string[] }): Promise<ScmIssue>;
+  listIssueComments(number: number): Promise<ScmComment[]>;
+  commentOnIssue(number: number, body: string): Promise<ScmComment>;
+
+  /** Head commit of a branch, or undefined when it doesn't exist. */
+  getBranchSha(branch: string): Promise<string | undefined>;
+  createBranch(branch: string, fromBranch: string): Promise<string>;
+  /** File contents at a ref (default branch when omitted), or undefined when missing. */
+  readFile(filePath: string, ref?: string): Promise<string | undefined>;
+
+  listPullRequests(options: { state?: 'open' | 'all'; head?: string }): Promise<ScmPullRequest[]>;
+  getPullRequest(number: number): Promise<ScmPullRequest>;
+  createPullRequest(input: { title: string; body: string; head: string; base: string }): Promise<ScmPullRequest>;
+  /** Unified diff of a pull/merge request. */
+  getPullRequestDiff(number: number): Promise<string>;
+  /** Bodies of the reviews (GitHub) or notes (GitLab) already on a pull/merge request. */
+  listReviewBodies(number: number): Promise<string[]>;
+  /** Post a comment-only review with optional inline comments. */
+  submitReview(number: number, input: { body: string; comments?: ScmReviewComment[] }): Promise<{ id: number; url?: string }>;
+  /**
+   * Reply in the review thread started by a comment (marked with
+   * BOT_THREAD_REPLY_MARKER) and optionally resolve it. A thread the bot
+   * already replied in gets no second reply; `id` is then omitted.
+   */
+  replyToReviewComment(number: number, commentId: number, body: string, resolve: boolean): Promise<{ id?: number; resolved: boolean }>;
+
+  listChecks(ref: string): Promise<ScmCheck[]>;
+  /** Raw log of a CI job, when the host keeps one. */
+  getCheckLog(check: ScmCheck): Promise<string | undefined>;
+}
+
+/** Provider and host a repo record asks for. */
+export interface ScmTarget {
+  provider: ScmKind;
+  host: string;
+  /** API base URL when it isn't the host's default */
+  apiUrl?: string;
+}
+
+/**
+ * Provider and host of the configured repo: its RepoRecord when it names
+ * one, SCM_PROVIDER / GITHUB_HOST / GITLAB_HOST otherwise.
+ */
+export async function resolveScmTarget(config: Config, repoRepository?: RepoRepository): Promise<ScmTarget> {
+  const { owner, repo } = config.github;
+  const record = repoRepository ? await Promise.resolve(repoRepository.getByOwnerRepo(owner, repo)) : undefined;
+  const provider: ScmKind = record?.provider ?? config.scm?.provider ?? 'github';
+  const host = record?.host ?? (provider === 'gitlab' ? config.gitlab?.host : config.github.host) ?? DEFAULT_SCM_HOSTS[provider];
+  // GITHUB_API_URL belongs to GITHUB_HOST, not to a host the record names
+  const apiUrl = record?.apiUrl ?? (provider === 'github' && !record?.host ? config.github.apiUrl : undefined);
+  return { provider, host, apiUrl };
+}
+
+/**
+ * Provider for the configured repo. Imported lazily so GitHub-only runs
+ * don't load the GitLab client.
+ */
+export async function loadScmProvider(config: Config, repoRepository?: RepoRepository): Promise<ScmProvider> {
+  const { owner, repo } = config.github;
+  const target = await resolveScmTarget(config, repoRepository);
+  if (target.provider === 'github') {
+    const { GitHubProvider } = await import('./github-provider.js');
+    const { getAuthFromConfig } = await import('./github-tools.js');
+    return new GitHubProvider(owner, repo, getAuthFromConfig(config.github), {
+      host: target.host, apiUrl: target.apiUrl, caBundlePath: config.github.caBundlePath,
+    });
+  }
+
+  const token = config.gitlab?.token;
+  if (!token) {
+    throw new Error(`${owner}/${repo} is on GitLab (${target.host}) but GITLAB_TOKEN is not set`);
+  }
+  const { GitLabProvider } = await import('./gitlab-provider.js');
+  return new GitLabProvider(owner, repo, { host: target.host, token, apiUrl: target.apiUrl });
+}
+
+/**
+ * Provider for the configured repo when it isn't on GitHub, or undefined
+ * for GitHub repos, whose callers keep using Octokit.
+ */
+export async function loadNonGitHubProvider(config: Config, repoRepository?: RepoRepository): Promise<ScmProvider | undefined> {
+  const target = await resolveScmTarget(config, repoRepository);
+  return target.provider === 'github' ? undefined : loadScmProvider(config, repoRepository);
+}
@@ -0,0 +1,391 @@
+/**
+ * Agent tools for the repo's SCM host.
+ *
+ * GitHub repos get the Octokit tools from github-tools.ts. Repos on other
+ * hosts get the same tools — same names, schemas and idempotency markers,
+ * so prompts and wrappers don't change — implemented on their ScmProvider.
+ * Hosts without sub-issues link them through a "Sub-issue of #N" line in
+ * the child issue's body.
+ */
+
+import type { Octokit } from 'octokit';
+import { tool } from 'langchain';
+import { z } from 'zod';
+import {
+  BOT_COMMENT_MARKER,
+  BOT_REVIEW_MARKER,
+  MAX_CI_SUMMARY_CHARS,
+  MAX_ISSUE_BODY_CHARS,
+  REVIEW_FOOTER,
+  createCheckCiStatusTool,
+  createCommentOnIssueTool,
+  createCreateSubIssueTool,
+  createFetchSubIssuesTool,
+  createGetCiFailureLogsTool,
+  createGetParentIssueTool,
+  createGetPrDiffTool,
+  createGitHubIssuesTool,
+  createPullRequestTool,
+  createReplyToReviewCommentTool,
+  createSubmitPrReviewTool,
+  truncateBody,
+  truncateSummary,
+} from './github-tools.js';
+import { fetchScmCiFailures } from './ci-logs.js';
+import type { ScmIssue, ScmProvider } from './scm-provider.js';
+
+type Tool = ReturnType<typeof tool>;
+
+/** The agents' tools that talk to the SCM host (everything else is local). */
+export interface RemoteTools {
+  issues: Tool;
+  fetchSubIssues: Tool;
+  getParentIssue: Tool;
+  commentOnIssue: Tool;
+  replyToReviewComment: Tool;
+  createSubIssue: Tool;
+  pullRequest: Tool;
+  prDiff: Tool;
+  submitReview: Tool;
+  checkCiStatus: Tool;
+  ciFailureLogs: Tool;
+}
+
+const MAX_DIFF_LENGTH = 15_000;
+const SUB_ISSUE_RE = /^Sub-issue of #(\d+)\s*$/m;
+
+function formatIssue(issue: ScmIssue) {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: truncateBody(issue.body, MAX_ISSUE_BODY_CHARS),
+    state: issue.state,
+    labels: issue.labels,
+  };
+}
+
+/**
+ * The remote tools for a repo: Octokit-backed without a provider or for
+ * GitHub, provider-backed otherwise. Each call builds fresh instances, so
+ * callers may wrap them.
+ */
+export function createRemoteTools(owner: string, repo: string, octokit: Octokit, scm?: ScmProvider): RemoteTools {
+  if (!scm || scm.kind === 'github') {
+    return {
+      issues: createGitHubIssuesTool(owner, repo, octokit),
+      fetchSubIssues: createFetchSubIssuesTool(owner, repo, octokit),
+      getParentIssue: createGetParentIssueTool(owner, repo, octokit),
+      commentOnIssue: createCommentOnIssueTool(owner, repo, octokit),
+      replyToReviewComment: createReplyToReviewCommentTool(owner, repo, octokit),
+      createSubIssue: createCreateSubIssueTool(owner, repo, octokit),
+      pullRequest: createPullRequestTool(owner, repo, octokit),
+      prDiff: createGetPrDiffTool(octokit, owner, repo),
+      submitReview: createSubmitPrReviewTool(octokit, owner, repo),
+      checkCiStatus: createCheckCiStatusTool(owner, repo, octokit),
+      ciFailureLogs: createGetCiFailureLogsTool(owner, repo, octokit),
+    };
+  }
+  return {
+    issues: createScmIssuesTool(scm),
+    fetchSubIssues: createScmFetchSubIssuesTool(scm),
+    getParentIssue: createScmGetParentIssueTool(scm),
+    commentOnIssue: createScmCommentOnIssueTool(scm),
+    replyToReviewComment: createScmReplyToReviewCommentTool(scm),
+    createSubIssue: createScmCreateSubIssueTool(scm),
+    pullRequest: createScmPullRequestTool(scm),
+    prDiff: createScmGetPrDiffTool(scm),
+    submitReview: createScmSubmitPrReviewTool(scm),
+    checkCiStatus: createScmCheckCiStatusTool(scm),
+    ciFailureLogs: createScmGetCiFailureLogsTool(scm),
+  };
+}
+
+// ── Issues ───────────────────────────────────────────────────────────────────
+
+export function createScmIssuesTool(scm: ScmProvider) {
+  return tool(
+    async ({ state = 'open', limit = 5, since }: { state?: 'open' | 'closed' | 'all'; limit?: number; since?: string }) => {
+      try {
+        console.log(`\u{1F4E5} Fetching ${state} issues from ${scm.owner}/${scm.repo} on ${scm.host}...`);
+        const issues = await scm.listIssues({ state, limit, since });
+        return JSON.stringify(issues.map(issue => ({
+          ...formatIssue(issue), created_at: issue.createdAt, updated_at: issue.updatedAt, url: issue.url,
+        })), null, 2);
+      } catch (error) {
+        return `Error fetching issues: ${error}`;
+      }
+    },
+    {
+      name: 'fetch_github_issues',
+      description: 'Fetch issues from the repository. Supports a "since" parameter for polling -- only returns issues updated after the given ISO 8601 timestamp.',
+      schema: z.object({
+        state: z.enum(['open', 'closed', 'all']).optional().describe('Issue state: open, closed, or all'),
+        limit: z.number().optional().default(5).describe('Maximum number of issues to return'),
+        since: z.string().optional().describe('ISO 8601 timestamp. Only issues updated after this date are returned.'),
+      }),
+    }
+  );
+}
+
+export function createScmCommentOnIssueTool(scm: ScmProvider) {
+  return tool(
+    async ({ issue_number, body }: { issue_number: number; body: string }) => {
+      try {
+        console.log(`\u{1F4AC} Commenting on issue #${issue_number} in ${scm.owner}/${scm.repo}...`);
+        const existing = await scm.listIssueComments(issue_number);
+        if (existing.some(c => c.body.includes(BOT_COMMENT_MARKER))) {
+          console.log(`\u{26A0}️  Skipping comment on issue #${issue_number} -- analysis comment already exists.`);
+          return JSON.stringify({ skipped: true, reason: 'Analysis comment already exists on this issue.', issue_number });
+        }
+        const comment = await scm.commentOnIssue(issue_number, `${BOT_COMMENT_MARKER}\n${body}`);
+        return JSON.stringify({ id: comment.id, html_url: comment.url, created_at: comment.createdAt });
+      } catch (error) {
+        return `Error commenting on issue #${issue_number}: ${error}`;
+      }
+    },
+    {
+      name: 'comment_on_issue',
+      description: 'Post a comment on an issue. Use this to share analysis findings directly on the issue. Automatically skips if an analysis comment already exists (idempotent).',
+      schema: z.object({
+        issue_number: z.number().describe('The issue number to comment on'),
+        body: z.string().describe('The comment body (Markdown supported)'),
+      }),
+    }
+  );
+}
+
+export function createScmFetchSubIssuesTool(scm: ScmProvider) {
+  return tool(
+    async ({ issue_number }: { issue_number: number }) => {
+      try {
+        console.log(`🔗 Fetching sub-issues for #${issue_number} in ${scm.owner}/${scm.repo}...`);
+        const issues = await scm.listIssues({ state: 'all', limit: 100 });
+        const children = issues.filter(issue => Number(SUB_ISSUE_RE.exec(issue.body)?.[1]) === issue_number);
+        return JSON.stringify(children.map(formatIssue), null, 2);
+      } catch (error) {
+        return `Error fetching sub-issues for #${issue_number}: ${error}`;
+      }
+    },
+    {
+      name: 'fetch_sub_issues',
+      description: 'Fetch all sub-issues (children) of an issue. Returns an array of sub-issues with number, title, body, state, and labels.',
+      schema: z.object({
+        issue_number: z.number().describe('The parent issue number to fetch sub-issues for'),
+      }),
+    }
+  );
+}
+
+export function createScmGetParentIssueTool(scm: ScmProvider) {
+  return tool(
+    async ({ issue_number }: { issue_number: number }) => {
+      try {
+        console.log(`🔗 Checking parent of #${issue_number} in ${scm.owner}/${scm.repo}...`);
+        const issue = await scm.getIssue(issue_number);
+        const parentNumber = SUB_ISSUE_RE.exec(issue.body)?.[1];
+        if (!parentNumber) return JSON.stringify({ parent: null });
+        return JSON.stringify({ parent: formatIssue(await scm.getIssue(Number(parentNumber))) }, null, 2);
+      } catch (error) {
+        return `Error fetching parent of #${issue_number}: ${error}`;
+      }
+    },
+    {
+      name: 'get_parent_issue',
+      description: 'Get the parent issue of a sub-issue. Returns { parent: null } if the issue has no parent (is a top-level issue).',
+      schema: z.object({
+        issue_number: z.number().describe('The issue number to check for a parent'),
+      }),
+    }
+  );
+}
+
+export function createScmCreateSubIssueTool(scm: ScmProvider) {
+  return tool(
+    async ({ parent_issue_number, title, body, labels }: { parent_issue_number: number; title: string; body: string; labels?: string[] }) => {
+      try {
+        console.log(`➕ Creating sub-issue under #${parent_issue_number} in ${scm.owner}/${scm.repo}...`);
+        const issue = await scm.createIssue({ title, body: `${body}\n\nSub-issue of #${parent_issue_number}`, labels });
+        return JSON.stringify({ number: issue.number, title: issue.title, html_url: issue.url, parent_issue_number });
+      } catch (error) {
+        return `Error creating sub-issue under #${parent_issue_number}: ${error}`;
+      }
+    },
+    {
+      name: 'create_sub_issue',
+      description: 'Create a new issue and link it as a sub-issue of a parent issue.',
+      schema: z.object({
+        parent_issue_number: z.number().describe('The parent issue number to add the sub-issue to'),
+        title: z.string().describe('Title for the new sub-issue'),
+        body: z.string().describe('Body/description for the new sub-issue (Markdown supported)'),
+        labels: z.array(z.string()).optional().describe('Labels to apply to the new sub-issue'),
+      }),
+    }
+  );
+}
+
+// ── Pull / merge requests ────────────────────────────────────────────────────
+
+export function createScmPullRequestTool(scm: ScmProvider) {
+  return tool(
+    async ({ title, body, head, base = 'main' }: { title: string; body: string; head: string; base?: string }) => {
+      try {
+        console.log(`\u{1F4DD} Creating PR '${title}' in ${scm.owner}/${scm.repo}...`);
+        const [existing] = await scm.listPullRequests({ state: 'open', head });
+        if (existing) {
+          console.log(`\u{26A0}️  Skipping PR creation -- open PR #${existing.number} already exists for branch '${head}'.`);
+          return JSON.stringify({ skipped: true, reason: `Open PR #${existing.number} already exists for branch '${head}'.`, number: existing.number, html_url: existing.url });
+        }
+        const pr = await scm.createPullRequest({ title, body, head, base });
+        return JSON.stringify({ number: pr.number, html_url: pr.url, state: pr.state });
+      } catch (error) {
+        return `Error creating pull request: ${error}`;
+      }
+    },
+    {
+      name: 'create_pull_request',
+      description: 'Open a pull request (a merge request on GitLab). The PR should reference the issue number in the title and body. Automatically skips if an open PR already exists for the same branch (idempotent).',
+      schema: z.object({
+        title: z.string().describe('PR title (e.g., "Fix #42: Resolve login timeout")'),
+        body: z.string().describe('PR description with analysis and approach. Include "Closes #N" to link the issue.'),
+        head: z.string().describe('The branch containing changes (e.g., "issue-42-fix-login")'),
+        base: z.string().optional().default('main').describe('The branch to merge into (default: main)'),
+      }),
+    }
+  );
+}
+
+export function createScmGetPrDiffTool(scm: ScmProvider) {
+  return tool(
+    async ({ pull_number }: { pull_number: number }) => {
+      try {
+        console.log(`\u{1F50D} Fetching diff for PR #${pull_number} in ${scm.owner}/${scm.repo}...`);
+        const diff = await scm.getPullRequestDiff(pull_number);
+        if (diff.length > MAX_DIFF_LENGTH) {
+          return diff.slice(0, MAX_DIFF_LENGTH) + `\n\n... (diff truncated at ${MAX_DIFF_LENGTH} characters, total: ${diff.length})`;
+        }
+        return diff;
+      } catch (error) {
+        return `Error fetching diff for PR #${pull_number}: ${error}`;
+      }
+    },
+    {
+      name: 'get_pr_diff',
+      description: 'Fetch the unified diff for a pull request. Returns the diff as text. Large diffs are truncated.',
+      schema: z.object({
+        pull_number: z.number().describe('The pull request number'),
+      }),
+    }
+  );
+}
+
+export function createScmSubmitPrReviewTool(scm: ScmProvider) {
+  return tool(
+    async ({ pull_number, body, comments }: { pull_number: number; body: string; comments?: Array<{ path: string; line: number; body: string }> }) => {
+      try {
+        console.log(`\u{1F4DD} Submitting review on PR #${pull_number} in ${scm.owner}/${scm.repo}...`);
+        const existing = await scm.listReviewBodies(pull_number);
+        if (existing.some(b => b.includes(BOT_REVIEW_MARKER))) {
+          console.log(`\u{26A0}️  Skipping review on PR #${pull_number} -- bot review already exists.`);
+          return JSON.stringify({ skipped: true, reason: 'Bot review already exists on this PR.', pull_number });
+        }
+        const review = await scm.submitReview(pull_number, { body: `${BOT_REVIEW_MARKER}\n${body}${REVIEW_FOOTER}`, comments });
+        return JSON.stringify({ id: review.id, html_url: review.url, state: 'COMMENTED', pull_number });
+      } catch (error) {
+        return `Error submitting review on PR #${pull_number}: ${error}`;
+      }
+    },
+    {
+      name: 'submit_pr_review',
+      description: 'Submit a review on a pull request. Always posts as a comment (never approves or requests changes). Automatically skips if a bot review already exists (idempotent). Include inline comments for specific file/line feedback.',
+      schema: z.object({
+        pull_number: z.number().describe('The pull request number to review'),
+        body: z.string().describe('The review summary (Markdown supported)'),
+        comments: z.array(z.object({
+          path: z.string().describe('Relative file path in the repo'),
+          line: z.number().describe('Line number in the diff to comment on'),
+          body: z.string().describe('The inline comment text'),
+        })).optional().describe('Optional inline comments on specific files/lines'),
+      }),
+    }
+  );
+}
+
+export function createScmReplyToReviewCommentTool(scm: ScmProvider) {
+  return tool(
+    async ({ pull_number, comment_id, body, resolve = true }: { pull_number: number; comment_id: number; body: string; resolve?: boolean }) => {
+      try {
+        console.log(`\u{1F4AC} Replying to review comment ${comment_id} on PR #${pull_number} in ${scm.owner}/${scm.repo}...`);
+        const { id, resolved } = await scm.replyToReviewComment(pull_number, comment_id, body, resolve);
+        return JSON.stringify({ comment_id, ...(id !== undefined ? { id } : { skipped: true }), resolved });
+      } catch (error) {
+        return `Error replying to review comment ${comment_id} on PR #${pull_number}: ${error}`;
+      }
+    },
+    {
+      name: 'reply_to_review_comment',
+      description: 'Reply in a PR review thread (started by a human review comment) with what you changed, and resolve the thread. Call this only after the fix is pushed. Skips the reply if the bot already replied in that thread (idempotent).',
+      schema: z.object({
+        pull_number: z.number().describe('The pull request number'),
+        comment_id: z.number().describe('ID of the review comment that starts the thread'),
+        body: z.string().describe('What you changed in response (Markdown supported)'),
+        resolve: z.boolean().optional().default(true).describe('Resolve the thread after replying (default: true)'),
+      }),
+    }
+  );
+}
+
+// ── CI ───────────────────────────────────────────────────────────────────────
+
+export function createScmCheckCiStatusTool(scm: ScmProvider) {
+  return tool(
+    async ({ pull_number }: { pull_number: number }) => {
+      try {
+        console.log(`🔍 Checking CI status for PR #${pull_number} in ${scm.owner}/${scm.repo}...`);
+        const pr = await scm.getPullRequest(pull_number);
+        const runs = await scm.listChecks(pr.headSha);
+        if (runs.length === 0) {
+          return JSON.stringify({ overall: 'no_checks', total: 0, completed: 0, failed: 0, checks: [] });
+        }
+        const total = runs.length;
+        const completed = runs.filter(c => c.status === 'completed').length;
+        const failed = runs.filter(c => c.status === 'completed' && (c.conclusion === 'failure' || c.conclusion === 'timed_out')).length;
+        const overall = completed < total ? 'in_progress' : failed > 0 ? 'failure' : 'success';
+        const checks = runs.map(c => ({
+          name: c.name, status: c.status, conclusion: c.conclusion, output_summary: truncateSummary(c.summary, MAX_CI_SUMMARY_CHARS),
+        }));
+        return JSON.stringify({ overall, total, completed, failed, checks });
+      } catch (error) {
+        return `Error checking CI status for PR #${pull_number}: ${error}`;
+      }
+    },
+    {
+      name: 'check_ci_status',
+      description: 'Check CI status (check runs or pipeline jobs) for a pull request. Returns overall status (success, failure, in_progress, no_checks) and per-check details.',
+      schema: z.object({
+        pull_number: z.number().describe('The pull request number to check CI status for'),
+      }),
+    }
+  );
+}
+
+export function createScmGetCiFailureLogsTool(scm: ScmProvider) {
+  return tool(
+    async ({ pull_number }: { pull_number: number }) => {
+      try {
+        console.log(`📜 Fetching failed CI logs for PR #${pull_number} in ${scm.owner}/${scm.repo}...`);
+        const pr = await scm.getPullRequest(pull_number);
+        const failures = await fetchScmCiFailures(scm, pr.headSha);
+        return JSON.stringify({ head_sha: pr.headSha, failed: failures.length, failures });
+      } catch (error) {
+        return `Error fetching CI logs for PR #${pull_number}: ${error}`;
+      }
+    },
+    {
+      name: 'get_ci_failure_logs',
+      description: 'Download the logs of failed CI jobs for a pull request\'s head commit and extract the failing part: the failed step, failing test names and the first lines of the error (test failures, compiler errors). Use after check_ci_status reports a failure.',
+      schema: z.object({
+        pull_number: z.number().describe('The pull request number whose failed CI jobs to inspect'),
+      }),
+    }
+  );
+}
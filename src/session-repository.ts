@@ -0,0 +1,73 @@
+/**
+ * A signed-in dashboard user, as reported by the login provider.
+ */
+export interface SessionUser {
+  /** GitHub login, or the OIDC preferred_username / email / sub */
+  login: string;
+  name?: string;
+  email?: string;
+  /** "github" or "oidc" */
+  provider: string;
+}
+
+/**
+ * A server-side login session. The id is a SHA-256 hash of the cookie
+ * token, so a leaked sessions table cannot be replayed as cookies.
+ */
+export interface Session {
+  id: string;
+  user: SessionUser;
+  /** Expected X-CSRF-Token on mutating requests */
+  csrfToken: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Repository interface for dashboard login sessions.
+ */
+export interface SessionRepository {
+  create(session: Session): void | Promise<void>;
+  /** The session, or undefined when unknown or expired */
+  get(id: string): Session | undefined | Promise<Session | undefined>;
+  delete(id: string): boolean | Promise<boolean>;
+  /** Remove expired sessions. Returns the number removed. */
+  deleteExpired(): number | Promise<number>;
+}
+
+/**
+ * In-memory session repository for use without a database. Sessions are
+ * lost on restart, so everyone has to sign in again.
+ */
+export class InMemorySessionRepository implements SessionRepository {
+  private sessions = new Map<string, Session>();
+
+  create(session: Session): void {
+    this.sessions.set(session.id, { ...session, user: { ...session.user } });
+  }
+
+  get(id: string): Session | undefined {
+    const session = this.sessions.get(id);
+    if (!session) return undefined;
+    if (Date.parse(session.expiresAt) <= Date.now()) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    return { ...session, user: { ...session.user } };
+  }
+
+  delete(id: string): boolean {
+    return this.sessions.delete(id);
+  }
+
+  deleteExpired(): number {
+    let count = 0;
+    for (const [id, session] of this.sessions) {
+      if (Date.parse(session.expiresAt) <= Date.now()) {
+        this.sessions.delete(id);
+        count++;
+      }
+    }
+    return count;
+  }
+}
@@ -5,20 +5,15 @@ import { createModel } from './model.js';
 import {
   createGitHubClient,
   getAuthFromConfig,
-  createGitHubIssuesTool,
-  createCommentOnIssueTool,
-  createPullRequestTool,
   createDryRunCommentTool,
+  createDryRunReplyToReviewCommentTool,
   createDryRunPullRequestTool,
-  createFetchSubIssuesTool,
-  createGetParentIssueTool,
-  createCreateSubIssueTool,
   createDryRunCreateSubIssueTool,
-  createGetPrDiffTool,
-  createSubmitPrReviewTool,
-  createCheckCiStatusTool,
   createDryRunCheckCiStatusTool,
+  createDryRunGetCiFailureLogsTool,
 } from './github-tools.js';
+import { createRemoteTools } from './scm-tools.js';
+import type { ScmProvider } from './scm-provider.js';
 import {
   createLocalReadFileTool,
   createLocalListFilesTool,
@@ -30,7 +25,8 @@ import {
   createDryRunWriteFileTool,
   createDryRunBashTool,
 } from './local-tools.js';
-import { createWorkspace, resolveGitToken } from './workspace.js';
+import { resolveGitToken } from './workspace.js';
+import { getWorkspaceManager } from './workspace-manager.js';
 import type { Workspace } from './workspace.js';
 import { formatDuration, logAgentEvent, logAgentDetail, logDiff } from './logger.js';
 import { createContextCompactionMiddleware } from './context-compaction.js';
@@ -49,7 +45,18 @@ import {
   getMaxIterations,
 } from './architect.js';
 import { wrapWithOutputCap } from './tool-output-cap.js';
-import type { ArchitectResult, ContinueContext } from './architect.js';
+import { resolveSandboxPolicy } from './sandbox.js';
+import type { SandboxPolicy } from './sandbox.js';
+import { resolveVerificationPolicy, wrapPrToolWithVerification } from './verification.js';
+import type { VerificationGate, VerificationPolicy } from './verification.js';
+import { resolveCommandPolicy } from './command-policy.js';
+import type { CommandPolicy } from './command-policy.js';
+import type { ArchitectResult, ContinueContext, RunArchitectOptions } from './architect.js';
+import { createRunApprovalGate } from './architect.js';
+import { formatApprovalInstructions } from './approval.js';
+import type { ApprovalGate } from './approval.js';
+import { runThreadConfig } from './checkpointer.js';
+import { createPauseMiddleware } from './pause.js';
 
 // ── Tool assembly ────────────────────────────────────────────────────────────
 
@@ -62,32 +69,43 @@ export function buildSingleAgentTools(
   repo: string,
   octokit: Octokit,
   ws: Workspace,
-  opts: { dryRun?: boolean; cache?: ToolCache; contextTools?: ReturnType<typeof tool>[] },
+  opts: { dryRun?: boolean; cache?: ToolCache; contextTools?: ReturnType<typeof tool>[]; sandbox?: SandboxPolicy; commandPolicy?: CommandPolicy; verification?: VerificationGate; scm?: ScmProvider; approval?: ApprovalGate },
 ) {
   const dryRun = opts.dryRun ?? false;
+  const remote = createRemoteTools(owner, repo, octokit, opts.scm);
+  const prTool = dryRun ? createDryRunPullRequestTool() : remote.pullRequest;
+  if (!dryRun && opts.verification) wrapPrToolWithVerification(prTool, ws, opts.verification);
+  const editTool = dryRun ? createDryRunEditFileTool() : createLocalEditFileTool(ws, opts.commandPolicy);
+  const writeTool = dryRun ? createDryRunWriteFileTool() : createLocalWriteFileTool(ws, opts.commandPolicy);
+  const bashTool = dryRun ? createDryRunBashTool() : createLocalBashTool(ws, opts.sandbox, opts.commandPolicy);
+  const subIssueTool = dryRun ? createDryRunCreateSubIssueTool() : remote.createSubIssue;
+  // bash can edit, commit and push too, so it waits for the plan like the write tools
+  if (opts.approval) {
+    for (const t of [editTool, writeTool, bashTool, prTool, subIssueTool]) opts.approval.wrapChangeTool(t);
+  }
   return [
     // Read-only exploration (shared by all subagents)
-    createGitHubIssuesTool(owner, repo, octokit),
+    remote.issues,
     createLocalListFilesTool(ws),
     createLocalReadFileTool(ws),
     createLocalGrepTool(ws),
     // Issue graph
-    createFetchSubIssuesTool(owner, repo, octokit),
-    createGetParentIssueTool(owner, repo, octokit),
+    remote.fetchSubIssues,
+    remote.getParentIssue,
     // Write tools (coder)
-    dryRun ? createDryRunCommentTool() : createCommentOnIssueTool(owner, repo, octokit),
-    dryRun ? createDryRunEditFileTool() : createLocalEditFileTool(ws),
-    dryRun ? createDryRunWriteFileTool() : createLocalWriteFileTool(ws),
-    dryRun ? createDryRunBashTool() : createLocalBashTool(ws),
-    dryRun ? createDryRunPullRequestTool() : createPullRequestTool(owner, repo, octokit),
-    dryRun ? createDryRunCreateSubIssueTool() : createCreateSubIssueTool(owner, repo, octokit),
+    dryRun ? createDryRunCommentTool() : remote.commentOnIssue,
+    dryRun ? createDryRunReplyToReviewCommentTool() : remote.replyToReviewComment,
+    editTool,
+    writeTool,
+    bashTool,
+    prTool,
+    subIssueTool,
     // Review tools
-    opts.cache
-      ? wrapDiffWithDelta(createGetPrDiffTool(octokit, owner, repo), opts.cache, { extractKey: prDiffKey })
-      : createGetPrDiffTool(octokit, owner, repo),
-    createSubmitPrReviewTool(octokit, owner, repo),
+    opts.cache ? wrapDiffWithDelta(remote.prDiff, opts.cache, { extractKey: prDiffKey }) : remote.prDiff,
+    remote.submitReview,
     // CI
-    dryRun ? createDryRunCheckCiStatusTool() : createCheckCiStatusTool(owner, repo, octokit),
+    dryRun ? createDryRunCheckCiStatusTool() : remote.checkCiStatus,
+    dryRun ? createDryRunGetCiFailureLogsTool() : remote.ciFailureLogs,
     // Context tools
     ...(opts.contextTools ?? []),
   ].map(t => wrapWithOutputCap(t));
@@ -126,7 +144,7 @@ You have ALL tools available — read-only exploration, code editing, git operat
 1. Create branch: git checkout -b issue-<N>-<desc>
 2. Make changes with edit_file (surgical) or write_file (new files)
 3. Commit and push: git add -A && git commit && git push origin HEAD
-4. Open PR: create_pull_request with "Closes #N" in body
+4. Open PR: create_pull_request with "Closes #N" in body. It first runs the repo's configured typecheck, lint and test commands; if it answers with "blocked": true, fix the listed failures, commit, push and call it again
 5. Write tests if the change warrants them
 
 ═══ PHASE 4: SELF-REVIEW ═══
@@ -145,6 +163,8 @@ If your review found issues, fix them:
 
 CONTINUE MODE (when resuming an existing PR):
 Skip phases 1-3. Go directly to Phase 4 (review the existing PR).
+If the human feedback reports a CI failure, start by fixing it; get_ci_failure_logs fetches the failed job logs for the PR again if you need more than the excerpt.
+If the human feedback lists review comments with comment ids, reply to each one after pushing your fix with reply_to_review_comment (this also resolves the thread).
 
 CONSTRAINTS:
 - Never merge PRs — only open and review them
@@ -172,18 +192,29 @@ export async function createSingleAgent(config: Config, options: {
   contextRepo?: IssueContextRepository;
   repoId?: number;
   continueContext?: ContinueContext;
+  sandbox?: SandboxPolicy;
+  commandPolicy?: CommandPolicy;
+  verification?: VerificationPolicy;
+  scm?: ScmProvider;
+  approval?: ApprovalGate;
+  checkpointer?: RunArchitectOptions['checkpointer'];
+  pause?: RunArchitectOptions['pause'];
 }) {
   const { owner, repo } = config.github;
   const auth = getAuthFromConfig(config.github);
-  const octokit = createGitHubClient(auth);
+  const octokit = createGitHubClient(auth, config.github);
 
   const maxIterations = options.maxIterations ?? 3;
 
   // Clone workspace
-  const gitToken = await resolveGitToken(auth);
-  const workspace = await createWorkspace(owner, repo, gitToken, {
+  const remoteUrl = options.scm ? await options.scm.remoteUrl() : undefined;
+  const gitToken = remoteUrl ? '' : await resolveGitToken(auth, config.github);
+  const workspace = await getWorkspaceManager().create(owner, repo, gitToken, {
     branch: options.continueContext?.branchName,
     processId: options.processId ?? undefined,
+    host: config.github.host,
+    caBundlePath: config.github.caBundlePath,
+    ...(remoteUrl ? { remoteUrl } : {}),
   });
   console.log(`\u{1F4C2} Workspace cloned to ${workspace.path}`);
 
@@ -203,13 +234,24 @@ export async function createSingleAgent(config: Config, options: {
       ...(ctxProcess ? [createGetContextTool(ctxRepo, ctxProcess)] : []),
       createSearchPastIssuesTool(ctxRepo, ctxRepoId, ctxIssue),
     ];
+    if (options.approval) options.approval.wrapSaveContextTool(contextTools[0]);
   }
 
   // Build tools and system prompt
+  const sandbox = options.sandbox ?? resolveSandboxPolicy(config.sandbox);
   const allTools = buildSingleAgentTools(owner, repo, octokit, ws, {
     dryRun: options.dryRun,
     cache,
     contextTools,
+    sandbox,
+    commandPolicy: options.commandPolicy ?? resolveCommandPolicy(config.commandPolicy),
+    scm: options.scm,
+    approval: options.approval,
+    verification: {
+      policy: options.verification ?? resolveVerificationPolicy(config.verification),
+      sandbox,
+      context: ctxRepo && ctxIssue > 0 ? { repo: ctxRepo, repoId: ctxRepoId, issueNumber: ctxIssue, processId: ctxProcess, agent: 'single-agent:verification' } : undefined,
+    },
   });
 
   const modelName = config.llm.model ?? 'unknown-model';
@@ -220,12 +262,14 @@ export async function createSingleAgent(config: Config, options: {
     model,
     tools: allTools,
     systemPrompt,
+    checkpointer: options.checkpointer,
     middleware: [
       createContextCompactionMiddleware(),
       summarizationMiddleware({ model, trigger: { tokens: 50_000 }, keep: { messages: 6 } }),
       anthropicPromptCachingMiddleware({ unsupportedModelBehavior: 'ignore' }),
       createPatchToolCallsMiddleware(),
       createIterationPruningMiddleware(),
+      ...(options.pause ? [createPauseMiddleware(options.pause)] : []),
     ],
   }).withConfig({ recursionLimit: 10_000 });
 
@@ -250,6 +294,15 @@ export async function runSingleAgent(
     processId?: string;
     contextRepo?: IssueContextRepository;
     repoId?: number;
+    sandbox?: SandboxPolicy;
+    commandPolicy?: CommandPolicy;
+    verification?: VerificationPolicy;
+    scm?: ScmProvider;
+    approval?: RunArchitectOptions['approval'];
+    onApproval?: RunArchitectOptions['onApproval'];
+    checkpointer?: RunArchitectOptions['checkpointer'];
+    resume?: RunArchitectOptions['resume'];
+    pause?: RunArchitectOptions['pause'];
   } = {},
 ): Promise<ArchitectResult> {
   const maxIterations = getMaxIterations(config);
@@ -266,6 +319,7 @@ export async function runSingleAgent(
   }
   console.log('');
 
+  const approval = createRunApprovalGate(config, issueNumber, options);
   const { agent, cache, workspace } = await createSingleAgent(config, {
     dryRun: options.dryRun,
     maxIterations,
@@ -274,10 +328,17 @@ export async function runSingleAgent(
     contextRepo: options.contextRepo,
     repoId: options.repoId,
     continueContext: options.continueContext,
+    sandbox: options.sandbox,
+    commandPolicy: options.commandPolicy,
+    verification: options.verification,
+    scm: options.scm,
+    approval,
+    checkpointer: options.checkpointer,
+    pause: options.pause,
   });
 
   const { owner, repo } = config.github;
-  const octokit = createGitHubClient(getAuthFromConfig(config.github));
+  const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
 
   // Build user message
   let userMessage: string;
@@ -296,6 +357,9 @@ Skip phases 1-3. Go directly to Phase 4 (self-review):
   } else {
     userMessage = `Process issue #${issueNumber}. Follow the full lifecycle: analyze the issue, plan, implement, self-review, and iterate on fixes.`;
   }
+  if (approval) {
+    userMessage += `\n\n${formatApprovalInstructions(!!options.contextRepo && issueNumber > 0)}`;
+  }
 
   console.log('='.repeat(60));
 
@@ -304,14 +368,17 @@ Skip phases 1-3. Go directly to Phase 4 (self-review):
   let lastResponse = '';
   let chatModelStartTime = 0;
 
+  const resume = options.resume && !!options.checkpointer;
+  if (resume) console.log(`\u{1F504} Resuming process ${options.processId} from its last checkpoint`);
   const stream = agent.streamEvents(
-    { messages: [{ role: 'user', content: userMessage }] },
-    { version: 'v2' },
+    resume ? null : { messages: [{ role: 'user', content: userMessage }] },
+    { version: 'v2', ...runThreadConfig(options) },
   );
 
   try {
     for await (const ev of stream) {
       if (options.signal?.aborted) break;
+      if (approval?.failure) throw approval.failure;
 
       if (ev.event === 'on_tool_start') {
         const toolName = ev.name;
@@ -326,7 +393,7 @@ Skip phases 1-3. Go directly to Phase 4 (self-review):
           detectedPhase = 'review';
         } else if (toolName === 'create_pull_request') {
           detectedPhase = 'pr-creation';
-        } else if (toolName === 'check_ci_status') {
+        } else if (toolName === 'check_ci_status' || toolName === 'get_ci_failure_logs') {
           detectedPhase = 'ci-check';
         }
 
@@ -345,6 +412,8 @@ Skip phases 1-3. Go directly to Phase 4 (self-review):
         const textContent = extractTextContent(content);
         if (textContent) {
           lastResponse = textContent;
+          // Without a saved architect_plan, the latest reasoning is what gets approved
+          approval?.notePlan(textContent);
           logAgentEvent(modelName, 'reasoning', textContent);
           options.onProgress?.({
             phase: currentPhase,
@@ -370,6 +439,7 @@ Skip phases 1-3. Go directly to Phase 4 (self-review):
                 agent: modelName,
                 processId: options.processId,
                 issueNumber,
+                repoId: options.repoId,
                 inputTokens: usage.input_tokens ?? 0,
                 outputTokens: usage.output_tokens ?? 0,
                 durationMs,
@@ -379,6 +449,7 @@ Skip phases 1-3. Go directly to Phase 4 (self-review):
         }
       }
     }
+    if (approval?.failure) throw approval.failure;
   } finally {
     console.log(`\u{1F9F9} Cleaning up workspace at ${workspace.path}`);
     await workspace.cleanup();
@@ -418,7 +489,7 @@ Skip phases 1-3. Go directly to Phase 4 (self-review):
   let prNumber: number | null = null;
   let prNumbers: number[] = [];
   try {
-    const prInfos = await findAllPrsForIssue(config, issueNumber);
+    const prInfos = await findAllPrsForIssue(config, issueNumber, options.scm);
     prNumber = prInfos.length > 0 ? prInfos[0].prNumber : null;
     prNumbers = prInfos.map(p => p.prNumber);
     for (const prInfo of prInfos) {
@@ -433,12 +504,16 @@ Skip phases 1-3. Go directly to Phase 4 (self-review):
     try {
       const comment = await formatUsageSummaryComment(options.usageService, options.processId);
       if (comment) {
-        await octokit.rest.issues.createComment({
-          owner,
-          repo,
-          issue_number: issueNumber,
-          body: comment,
-        });
+        if (options.scm && options.scm.kind !== 'github') {
+          await options.scm.commentOnIssue(issueNumber, comment);
+        } else {
+          await octokit.rest.issues.createComment({
+            owner,
+            repo,
+            issue_number: issueNumber,
+            body: comment,
+          });
+        }
         console.log(`\n📊 Usage summary posted to issue #${issueNumber}`);
       }
     } catch (err) {
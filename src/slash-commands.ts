@@ -0,0 +1,510 @@
+/**
+ * Slash commands in issue and PR comments.
+ *
+ * A comment line such as `/iterate 3` or `/model coder=gpt-4.1` is parsed
+ * against a CommandRegistry. Each command declares where it works (issues,
+ * PRs or both) and the minimum repo permission of the commenter. The bot
+ * reacts to the comment (👀 accepted, 👎 not allowed, 😕 bad usage or
+ * failure) and replies with a comment where there is something to say.
+ *
+ * Commands don't start agents themselves: they call a CommandRuntime, which
+ * the standalone webhook listener implements with direct runArchitect calls
+ * and the dashboard with its ProcessManager.
+ */
+
+import type { Config } from './config.js';
+import { retractIssue } from './core.js';
+import { createGitHubClient, getAuthFromConfig } from './github-tools.js';
+import type { PollRepository } from './poll-repository.js';
+import type { ModelOverrideRepository } from './model-override-repository.js';
+import { mergeRouteOverrides } from './issue-router.js';
+import type { RouteOverrides } from './issue-router.js';
+import type { ApprovalDecision } from './approval.js';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** GitHub repository permission levels, lowest first. */
+export type PermissionLevel = 'none' | 'read' | 'triage' | 'write' | 'maintain' | 'admin';
+
+const PERMISSION_RANK: Record<PermissionLevel, number> = {
+  none: 0,
+  read: 1,
+  triage: 2,
+  write: 3,
+  maintain: 4,
+  admin: 5,
+};
+
+/** Where a command may be used. */
+export type CommandTarget = 'issue' | 'pr' | 'both';
+
+/** A run in progress, as reported by `/status`. */
+export interface CommandRunInfo {
+  id: string;
+  type: 'analyze' | 'review';
+  issueNumber?: number;
+  prNumber?: number;
+  phase?: string;
+  iteration?: number;
+  maxIterations?: number;
+  costUsd: number;
+  startedAt: string;
+}
+
+export interface CommandRunResult {
+  prNumber?: number | null;
+  /** Set when the run failed */
+  error?: string;
+  /** Set when the run was not started, e.g. a spend cap is reached */
+  refused?: string;
+}
+
+/** How commands start, cancel and inspect agent runs. */
+export interface CommandRuntime {
+  analyze(issueNumber: number, overrides?: RouteOverrides): Promise<CommandRunResult>;
+  continuePr(issueNumber: number, prNumber: number, branchName: string, humanFeedback?: string, overrides?: RouteOverrides): Promise<CommandRunResult>;
+  review(prNumber: number): Promise<CommandRunResult>;
+  /** Cancel running work for an issue or PR number; returns how many runs were cancelled */
+  cancel(number: number): Promise<number>;
+  /** Runs in progress for an issue or PR number */
+  status(number: number): Promise<CommandRunInfo[]>;
+  /** Approve or reject the plan waiting on an issue; false when no plan is waiting */
+  decidePlan(issueNumber: number, decision: ApprovalDecision): Promise<boolean>;
+}
+
+/** The bot PR a comment was posted on, with the issue it fixes. */
+export interface LinkedPr {
+  prNumber: number;
+  branchName: string;
+  issueNumber: number;
+}
+
+export interface CommandOutcome {
+  handled: boolean;
+  reason: string;
+  issueNumber?: number;
+  prNumber?: number;
+  /** Posted as a comment on the issue or PR */
+  reply?: string;
+  /** Set when the triggered run failed (lets the job queue retry) */
+  error?: string;
+}
+
+export interface CommandContext {
+  config: Config;
+  runtime: CommandRuntime;
+  /** Issue or PR number the comment was posted on */
+  number: number;
+  isPr: boolean;
+  /** Text after the command name on the same line */
+  args: string;
+  sender: string;
+  modelOverrideRepository?: ModelOverrideRepository;
+  pollRepository?: PollRepository;
+  /** Repo id the poll state is kept under */
+  repoId?: number;
+  /** Look up the bot PR the comment is on; returns an outcome when it is not usable */
+  resolvePr(): Promise<LinkedPr | CommandOutcome>;
+}
+
+export interface SlashCommand {
+  name: string;
+  usage: string;
+  description: string;
+  permission: PermissionLevel;
+  on: CommandTarget;
+  /** Handled on delivery instead of waiting in the job queue behind running work */
+  immediate?: boolean;
+  run(ctx: CommandContext): Promise<CommandOutcome>;
+}
+
+export interface ParsedCommand {
+  command: SlashCommand;
+  args: string;
+}
+
+/** Thrown by a command when its arguments are invalid; the message is shown to the user. */
+export class CommandUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandUsageError';
+  }
+}
+
+/** Marker on the bot's replies, so they never trigger commands themselves. */
+export const COMMAND_REPLY_MARKER = '<!-- deep-agent-command -->';
+
+// ── Registry ─────────────────────────────────────────────────────────────────
+
+const COMMAND_TOKEN_RE = /(?:^|\s)\/([a-z][\w-]*)(?=\s|$)/gi;
+
+export class CommandRegistry {
+  private commands = new Map<string, SlashCommand>();
+
+  register(command: SlashCommand): this {
+    this.commands.set(command.name, command);
+    return this;
+  }
+
+  get(name: string): SlashCommand | undefined {
+    return this.commands.get(name.toLowerCase());
+  }
+
+  list(): SlashCommand[] {
+    return Array.from(this.commands.values());
+  }
+
+  /**
+   * Find the first registered command in a comment. Quoted lines (`> ...`)
+   * are skipped so replying to a command doesn't run it again.
+   */
+  parse(body: string): ParsedCommand | undefined {
+    for (const line of body.split('\n')) {
+      if (line.trimStart().startsWith('>')) continue;
+      for (const match of line.matchAll(COMMAND_TOKEN_RE)) {
+        const command = this.get(match[1]);
+        if (command) {
+          return { command, args: line.slice(match.index! + match[0].length).trim() };
+        }
+      }
+    }
+    return undefined;
+  }
+}
+
+// ── Permissions, reactions, replies ──────────────────────────────────────────
+
+export function hasPermission(actual: PermissionLevel, required: PermissionLevel): boolean {
+  return PERMISSION_RANK[actual] >= PERMISSION_RANK[required];
+}
+
+/**
+ * The commenter's permission on the configured repo. `role_name` carries
+ * triage/maintain, which the legacy `permission` field folds into
+ * read/write; custom roles fall back to `permission`. Lookup errors
+ * (e.g. not a collaborator) count as no permission.
+ */
+export async function getCommenterPermission(config: Config, username: string): Promise<PermissionLevel> {
+  if (!username) return 'none';
+  const { owner, repo } = config.github;
+  try {
+    const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
+    const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+    const role = (data as { role_name?: string }).role_name;
+    if (role && role in PERMISSION_RANK) return role as PermissionLevel;
+    return data.permission in PERMISSION_RANK ? data.permission as PermissionLevel : 'none';
+  } catch (err) {
+    console.warn(`[commands] Could not look up permission for ${username}: ${err}`);
+    return 'none';
+  }
+}
+
+type Reaction = 'eyes' | '-1' | 'confused';
+
+async function react(config: Config, commentId: number | undefined, content: Reaction): Promise<void> {
+  if (!commentId) return;
+  const { owner, repo } = config.github;
+  try {
+    const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
+    await octokit.rest.reactions.createForIssueComment({ owner, repo, comment_id: commentId, content });
+  } catch (err) {
+    console.warn(`[commands] Could not react to comment ${commentId}: ${err}`);
+  }
+}
+
+async function reply(config: Config, number: number, body: string): Promise<void> {
+  const { owner, repo } = config.github;
+  try {
+    const octokit = createGitHubClient(getAuthFromConfig(config.github), config.github);
+    await octokit.rest.issues.createComment({ owner, repo, issue_number: number, body: `${COMMAND_REPLY_MARKER}\n${body}` });
+  } catch (err) {
+    console.warn(`[commands] Could not reply on #${number}: ${err}`);
+  }
+}
+
+/**
+ * Check where and by whom a parsed command may run, acknowledge it, run it
+ * and post its reply.
+ */
+export async function executeCommand(
+  parsed: ParsedCommand,
+  ctx: Omit<CommandContext, 'args'>,
+  commentId?: number,
+): Promise<CommandOutcome> {
+  const { command, args } = parsed;
+  const { config, number } = ctx;
+  const target = ctx.isPr ? { prNumber: number } : { issueNumber: number };
+
+  const permission = await getCommenterPermission(config, ctx.sender);
+  if (!hasPermission(permission, command.permission)) {
+    console.log(`[commands] /${command.name} on #${number} denied for ${ctx.sender || 'unknown user'} (${permission})`);
+    await react(config, commentId, '-1');
+    await reply(config, number, `@${ctx.sender} \`/${command.name}\` needs ${command.permission} permission on this repository.`);
+    return { handled: false, ...target, reason: `Permission denied: /${command.name} needs ${command.permission}, ${ctx.sender} has ${permission}` };
+  }
+
+  await react(config, commentId, 'eyes');
+  console.log(`[commands] /${command.name}${args ? ` ${args}` : ''} on #${number} by ${ctx.sender}`);
+
+  let outcome: CommandOutcome;
+  try {
+    outcome = await command.run({ ...ctx, args });
+  } catch (err) {
+    if (!(err instanceof CommandUsageError)) throw err;
+    await react(config, commentId, 'confused');
+    await reply(config, number, `${err.message}\n\nUsage: \`${command.usage}\``);
+    return { handled: false, ...target, reason: `Invalid /${command.name}: ${err.message}` };
+  }
+
+  if (outcome.error) await react(config, commentId, 'confused');
+  if (outcome.reply) await reply(config, number, outcome.reply);
+  return { ...target, ...outcome };
+}
+
+// ── Per-thread overrides (/model) ────────────────────────────────────────────
+
+function overridesThread(config: Config, number: number): string {
+  return `${config.github.owner}/${config.github.repo}#${number}`;
+}
+
+/**
+ * Overrides set with `/model` on an issue or PR thread, merged in the order
+ * given (later numbers win).
+ */
+export async function loadThreadOverrides(
+  modelOverrideRepository: ModelOverrideRepository | undefined,
+  config: Config,
+  ...numbers: number[]
+): Promise<RouteOverrides | undefined> {
+  if (!modelOverrideRepository) return undefined;
+  let result: RouteOverrides | undefined;
+  for (const n of numbers) {
+    const models = await Promise.resolve(modelOverrideRepository.get(overridesThread(config, n)));
+    if (Object.keys(models).length === 0) continue;
+    const llm = Object.fromEntries(Object.entries(models).map(([role, model]) => [role, { model }]));
+    result = mergeRouteOverrides(result, { llm });
+  }
+  return result;
+}
+
+// ── Built-in commands ────────────────────────────────────────────────────────
+
+const MODEL_ROLES = ['issuer', 'coder', 'reviewer'] as const;
+const MAX_ITERATE = 20;
+
+function isLinkedPr(value: LinkedPr | CommandOutcome): value is LinkedPr {
+  return 'branchName' in value;
+}
+
+function runOutcome(result: CommandRunResult, reason: string, extra: Partial<CommandOutcome> = {}): CommandOutcome {
+  if (result.refused) return { handled: false, ...extra, reason: `Refused: ${result.refused}`, reply: `Not started: ${result.refused}.` };
+  return { handled: true, ...extra, reason, ...(result.error ? { error: result.error } : {}) };
+}
+
+function formatRun(run: CommandRunInfo): string {
+  const phase = run.phase ?? 'starting';
+  const iteration = run.iteration ? `, iteration ${run.iteration}${run.maxIterations ? `/${run.maxIterations}` : ''}` : '';
+  return `- \`${run.id}\` (${run.type}) — phase: ${phase}${iteration}, cost: $${run.costUsd.toFixed(4)}`;
+}
+
+const promptCommand: SlashCommand = {
+  name: 'prompt',
+  usage: '/prompt <instructions>',
+  description: 'Continue the bot PR with these instructions',
+  permission: 'write',
+  on: 'pr',
+  async run(ctx) {
+    if (!ctx.args) throw new CommandUsageError('Tell the bot what to change.');
+    const pr = await ctx.resolvePr();
+    if (!isLinkedPr(pr)) return pr;
+    const overrides = await loadThreadOverrides(ctx.modelOverrideRepository, ctx.config, pr.issueNumber, pr.prNumber);
+    const result = await ctx.runtime.continuePr(pr.issueNumber, pr.prNumber, pr.branchName, ctx.args, overrides);
+    return runOutcome(result, 'Prompt triggered', { prNumber: pr.prNumber, issueNumber: pr.issueNumber });
+  },
+};
+
+const analyzeCommand: SlashCommand = {
+  name: 'analyze',
+  usage: '/analyze',
+  description: 'Analyze the issue and open a PR (bypasses routing rules)',
+  permission: 'write',
+  on: 'issue',
+  async run(ctx) {
+    const overrides = await loadThreadOverrides(ctx.modelOverrideRepository, ctx.config, ctx.number);
+    const result = await ctx.runtime.analyze(ctx.number, overrides);
+    return runOutcome(result, 'Analysis triggered', { issueNumber: ctx.number });
+  },
+};
+
+const retractCommand: SlashCommand = {
+  name: 'retract',
+  usage: '/retract',
+  description: 'Close the bot PR, delete its branch and comment for this issue',
+  permission: 'maintain',
+  on: 'issue',
+  async run(ctx) {
+    try {
+      const result = await retractIssue(ctx.config, ctx.number, ctx.pollRepository, ctx.repoId);
+      const done = [
+        result.prClosed && 'closed the PR',
+        result.branchDeleted && 'deleted the branch',
+        result.commentDeleted && 'deleted the analysis comment',
+      ].filter(Boolean).join(', ');
+      const errors = result.errors.length > 0 ? `\n\nErrors:\n${result.errors.map(e => `- ${e}`).join('\n')}` : '';
+      return { handled: true, reason: 'Retracted', reply: `Retracted: ${done || 'nothing to undo'}.${errors}` };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return { handled: false, reason: `Retract failed: ${message}`, reply: `Could not retract: ${message}` };
+    }
+  },
+};
+
+const reviewCommand: SlashCommand = {
+  name: 'review',
+  usage: '/review',
+  description: 'Run the reviewer on this PR',
+  permission: 'write',
+  on: 'pr',
+  async run(ctx) {
+    const result = await ctx.runtime.review(ctx.number);
+    return runOutcome(result, 'Review triggered');
+  },
+};
+
+const cancelCommand: SlashCommand = {
+  name: 'cancel',
+  usage: '/cancel',
+  description: 'Cancel running work for this issue or PR',
+  permission: 'write',
+  on: 'both',
+  immediate: true,
+  async run(ctx) {
+    const cancelled = await ctx.runtime.cancel(ctx.number);
+    return {
+      handled: cancelled > 0,
+      reason: `Cancelled ${cancelled} run(s)`,
+      reply: cancelled > 0 ? `Cancelled ${cancelled} running job(s).` : 'Nothing is running here.',
+    };
+  },
+};
+
+const statusCommand: SlashCommand = {
+  name: 'status',
+  usage: '/status',
+  description: 'Show the phase and cost of running work',
+  permission: 'read',
+  on: 'both',
+  immediate: true,
+  async run(ctx) {
+    const runs = await ctx.runtime.status(ctx.number);
+    const body = runs.length > 0
+      ? `Running:\n${runs.map(formatRun).join('\n')}`
+      : 'Nothing is running here.';
+    return { handled: true, reason: `${runs.length} run(s) in progress`, reply: body };
+  },
+};
+
+const approveCommand: SlashCommand = {
+  name: 'approve',
+  usage: '/approve',
+  description: 'Approve the plan waiting on this issue so the coder can start',
+  permission: 'maintain',
+  on: 'issue',
+  immediate: true,
+  async run(ctx) {
+    const decided = await ctx.runtime.decidePlan(ctx.number, { approved: true, by: ctx.sender });
+    if (!decided) return { handled: false, reason: 'No plan awaiting approval', reply: 'No plan is waiting for approval here.' };
+    return { handled: true, reason: 'Plan approved', issueNumber: ctx.number };
+  },
+};
+
+const rejectCommand: SlashCommand = {
+  name: 'reject',
+  usage: '/reject <reason>',
+  description: 'Send the plan waiting on this issue back to planning with feedback',
+  permission: 'maintain',
+  on: 'issue',
+  immediate: true,
+  async run(ctx) {
+    if (!ctx.args) throw new CommandUsageError('Say what should change in the plan.');
+    const decided = await ctx.runtime.decidePlan(ctx.number, { approved: false, by: ctx.sender, reason: ctx.args });
+    if (!decided) return { handled: false, reason: 'No plan awaiting approval', reply: 'No plan is waiting for approval here.' };
+    return { handled: true, reason: 'Plan rejected', issueNumber: ctx.number };
+  },
+};
+
+const iterateCommand: SlashCommand = {
+  name: 'iterate',
+  usage: '/iterate <N>',
+  description: 'Run again with up to N review/fix iterations',
+  permission: 'write',
+  on: 'both',
+  async run(ctx) {
+    const n = Number(ctx.args);
+    if (!/^\d+$/.test(ctx.args) || n < 1 || n > MAX_ITERATE) {
+      throw new CommandUsageError(`N must be a whole number from 1 to ${MAX_ITERATE}.`);
+    }
+    const reason = `Iterating (maxIterations=${n})`;
+    if (!ctx.isPr) {
+      const stored = await loadThreadOverrides(ctx.modelOverrideRepository, ctx.config, ctx.number);
+      const result = await ctx.runtime.analyze(ctx.number, { ...stored, maxIterations: n });
+      return runOutcome(result, reason, { issueNumber: ctx.number });
+    }
+    const pr = await ctx.resolvePr();
+    if (!isLinkedPr(pr)) return pr;
+    const stored = await loadThreadOverrides(ctx.modelOverrideRepository, ctx.config, pr.issueNumber, pr.prNumber);
+    const result = await ctx.runtime.continuePr(pr.issueNumber, pr.prNumber, pr.branchName, undefined, { ...stored, maxIterations: n });
+    return runOutcome(result, reason, { prNumber: pr.prNumber, issueNumber: pr.issueNumber });
+  },
+};
+
+const modelCommand: SlashCommand = {
+  name: 'model',
+  usage: '/model coder=<model> [issuer=<model>] [reviewer=<model>] | /model reset',
+  description: 'Set the models used for later runs on this issue or PR',
+  permission: 'write',
+  on: 'both',
+  async run(ctx) {
+    const { modelOverrideRepository, config, number } = ctx;
+    if (!modelOverrideRepository) {
+      return { handled: false, reason: 'No model override store configured', reply: 'Model overrides are not available here.' };
+    }
+    const thread = overridesThread(config, number);
+
+    if (ctx.args === 'reset') {
+      await Promise.resolve(modelOverrideRepository.clear(thread));
+      return { handled: true, reason: 'Model overrides cleared', reply: 'Model overrides cleared; later runs use the configured models.' };
+    }
+
+    const pairs = ctx.args.split(/\s+/).filter(Boolean);
+    if (pairs.length === 0) throw new CommandUsageError('Name at least one agent and model.');
+    const models: Record<string, string> = {};
+    for (const pair of pairs) {
+      const [role, model] = pair.split('=');
+      if (!(MODEL_ROLES as readonly string[]).includes(role) || !model) {
+        throw new CommandUsageError(`\`${pair}\` is not \`<agent>=<model>\` (agents: ${MODEL_ROLES.join(', ')}).`);
+      }
+      models[role] = model;
+    }
+
+    await Promise.resolve(modelOverrideRepository.set(thread, models));
+    const current = await Promise.resolve(modelOverrideRepository.get(thread));
+    const summary = Object.entries(current).map(([role, model]) => `${role}=${model}`).join(', ');
+    return { handled: true, reason: `Model overrides set: ${summary}`, reply: `Later runs here will use ${summary}.` };
+  },
+};
+
+/** Registry with the built-in commands. */
+export function createDefaultRegistry(): CommandRegistry {
+  return new CommandRegistry()
+    .register(promptCommand)
+    .register(analyzeCommand)
+    .register(retractCommand)
+    .register(reviewCommand)
+    .register(cancelCommand)
+    .register(statusCommand)
+    .register(approveCommand)
+    .register(rejectCommand)
+    .register(iterateCommand)
+    .register(modelCommand);
+}
@@ -0,0 +1,249 @@
+/**
+ * Daily and monthly spend caps, globally and per repository.
+ *
+ * Limits live in the settings store under `spend_limits`, set with
+ * PUT /api/settings/spend_limits:
+ *
+ *   {
+ *     "alertThreshold": 0.8,
+ *     "global": { "monthlyUsd": 500 },
+ *     "repos": { "acme/api": { "dailyUsd": 20, "monthlyUsd": 200 } }
+ *   }
+ *
+ * Spend is the estimated cost of the usage records since the start of the
+ * current UTC day or month. Crossing the alert threshold (default 80%) sends
+ * one notification per window and period; at 100% new runs are refused
+ * until the period rolls over or the limit is raised.
+ */
+
+import type { Config } from './config.js';
+import { notifySpendAlert } from './bitrix-notification.js';
+import type { RepoRepository } from './repo-repository.js';
+import type { SettingsRepository } from './settings-repository.js';
+import type { UsageService } from './usage-service.js';
+
+export const SPEND_LIMITS_KEY = 'spend_limits';
+const SPEND_ALERTS_KEY = 'spend_alerts';
+export const DEFAULT_ALERT_THRESHOLD = 0.8;
+
+export interface SpendLimit {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+export interface SpendLimitSettings {
+  /** Fraction of a limit at which an alert is sent (0–1, default 0.8) */
+  alertThreshold?: number;
+  global?: SpendLimit;
+  /** Limits keyed by "owner/repo" */
+  repos?: Record<string, SpendLimit>;
+}
+
+export type SpendPeriod = 'daily' | 'monthly';
+
+/** Spend in one limited window, e.g. acme/api this month. */
+export interface SpendWindow {
+  /** "global" or "owner/repo" */
+  scope: string;
+  period: SpendPeriod;
+  /** "2026-10-19" for daily windows, "2026-10" for monthly ones */
+  periodKey: string;
+  limitUsd: number;
+  spentUsd: number;
+  /** spentUsd / limitUsd */
+  ratio: number;
+}
+
+export interface SpendCheck {
+  allowed: boolean;
+  /** Why the run is refused, e.g. "Monthly spend cap reached for acme/api: $201.0000 of $200" */
+  reason?: string;
+  windows: SpendWindow[];
+}
+
+function checkLimit(raw: unknown, where: string): void {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`${where} must be an object`);
+  for (const key of ['dailyUsd', 'monthlyUsd'] as const) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      throw new Error(`${where}.${key} must be a positive number`);
+    }
+  }
+}
+
+/**
+ * Validate the `spend_limits` setting. Returns an empty object when unset;
+ * throws with a readable message when it is malformed.
+ */
+export function parseSpendLimitSettings(raw: unknown): SpendLimitSettings {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`${SPEND_LIMITS_KEY} must be an object`);
+  const settings = raw as Record<string, unknown>;
+
+  const threshold = settings.alertThreshold;
+  if (threshold !== undefined && (typeof threshold !== 'number' || !(threshold > 0 && threshold <= 1))) {
+    throw new Error(`${SPEND_LIMITS_KEY}.alertThreshold must be a number between 0 and 1`);
+  }
+  if (settings.global !== undefined) checkLimit(settings.global, `${SPEND_LIMITS_KEY}.global`);
+
+  const repos = settings.repos;
+  if (repos !== undefined) {
+    if (!repos || typeof repos !== 'object' || Array.isArray(repos)) throw new Error(`${SPEND_LIMITS_KEY}.repos must be an object`);
+    for (const [key, limit] of Object.entries(repos)) {
+      if (!/^[^/\s]+\/[^/\s]+$/.test(key)) throw new Error(`${SPEND_LIMITS_KEY}.repos keys must be "owner/repo", got "${key}"`);
+      checkLimit(limit, `${SPEND_LIMITS_KEY}.repos.${key}`);
+    }
+  }
+  return settings as SpendLimitSettings;
+}
+
+/** Start of the current UTC day or month, and its period key. */
+export function currentPeriod(period: SpendPeriod, now = new Date()): { since: string; periodKey: string } {
+  const start = period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const iso = start.toISOString();
+  return { since: iso, periodKey: period === 'daily' ? iso.slice(0, 10) : iso.slice(0, 7) };
+}
+
+function describeWindow(window: SpendWindow, state: string): string {
+  const period = window.period === 'daily' ? 'Daily' : 'Monthly';
+  const scope = window.scope === 'global' ? '(all repositories)' : `for ${window.scope}`;
+  return `${period} spend cap ${state} ${scope}: $${window.spentUsd.toFixed(4)} of $${window.limitUsd}`;
+}
+
+/** Refusal message for a window at or over its limit. */
+export function formatSpendRefusal(window: SpendWindow): string {
+  return describeWindow(window, 'reached');
+}
+
+/** Alert message, e.g. "Monthly spend cap 85% used for acme/api: $170.0000 of $200". */
+export function formatSpendAlert(window: SpendWindow): string {
+  return window.ratio >= 1
+    ? `${formatSpendRefusal(window)}, new runs are refused`
+    : describeWindow(window, `${Math.floor(window.ratio * 100)}% used`);
+}
+
+/**
+ * Checks runs against the spend limits and sends threshold alerts.
+ * Without a settings store nothing is limited.
+ */
+export class SpendGuard {
+  /** Serializes alert bookkeeping so concurrent checks alert once */
+  private alerting: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly config: Config,
+    readonly usageService: UsageService,
+    private readonly settingsRepository?: SettingsRepository,
+    private readonly repoRepository?: RepoRepository,
+  ) {}
+
+  /** Current limits; a malformed setting is logged and treated as none. */
+  async loadLimits(): Promise<SpendLimitSettings> {
+    if (!this.settingsRepository) return {};
+    try {
+      return parseSpendLimitSettings(await Promise.resolve(this.settingsRepository.get(SPEND_LIMITS_KEY)));
+    } catch (err) {
+      console.error(`[spend] Invalid ${SPEND_LIMITS_KEY} setting, limits ignored: ${err instanceof Error ? err.message : err}`);
+      return {};
+    }
+  }
+
+  /**
+   * Spend in every limited window: the global one plus the given repos
+   * ("owner/repo"), or every repo with limits when none are given.
+   */
+  async getWindows(repos?: string[]): Promise<SpendWindow[]> {
+    const limits = await this.loadLimits();
+    const scopes: Array<[string, SpendLimit | undefined]> = [['global', limits.global]];
+    for (const key of repos ?? Object.keys(limits.repos ?? {})) scopes.push([key, limits.repos?.[key]]);
+
+    const windows: SpendWindow[] = [];
+    for (const [scope, limit] of scopes) {
+      for (const period of ['daily', 'monthly'] as const) {
+        const limitUsd = period === 'daily' ? limit?.dailyUsd : limit?.monthlyUsd;
+        if (limitUsd === undefined) continue;
+        const { since, periodKey } = currentPeriod(period);
+        const spentUsd = await this.spentSince(scope, since);
+        if (spentUsd === undefined) continue;
+        windows.push({ scope, period, periodKey, limitUsd, spentUsd, ratio: spentUsd / limitUsd });
+      }
+    }
+    return windows;
+  }
+
+  /**
+   * Whether a new run on owner/repo may start. Sends any due alerts;
+   * refuses once a global or repo limit is used up.
+   */
+  async check(owner: string, repo: string): Promise<SpendCheck> {
+    const windows = await this.getWindows([`${owner}/${repo}`]);
+    await this.sendAlerts(windows);
+    const over = windows.find(w => w.ratio >= 1);
+    return over ? { allowed: false, reason: formatSpendRefusal(over), windows } : { allowed: true, windows };
+  }
+
+  /**
+   * Send alerts as usage is recorded, not only when a run starts.
+   * Returns a function that stops watching.
+   */
+  watch(): () => void {
+    let pending = false;
+    const onRecord = () => {
+      if (pending) return;
+      pending = true;
+      setImmediate(() => {
+        pending = false;
+        this.getWindows()
+          .then(windows => this.sendAlerts(windows))
+          .catch(err => console.error('[spend] Failed to check spend limits:', err));
+      });
+    };
+    this.usageService.on('usage_recorded', onRecord);
+    return () => { this.usageService.off('usage_recorded', onRecord); };
+  }
+
+  /** Spend of a scope since `since`, or undefined for an unknown repo. */
+  private async spentSince(scope: string, since: string): Promise<number | undefined> {
+    if (scope === 'global') return (await this.usageService.summarize({ since })).totalEstimatedCost;
+    if (!this.repoRepository) return undefined;
+    const [owner, repo] = scope.split('/');
+    const record = await Promise.resolve(this.repoRepository.getByOwnerRepo(owner, repo));
+    if (!record) return undefined;
+    return (await this.usageService.summarize({ since, repoId: record.id })).totalEstimatedCost;
+  }
+
+  private sendAlerts(windows: SpendWindow[]): Promise<void> {
+    const run = this.alerting.then(() => this.sendAlertsNow(windows));
+    this.alerting = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Alert once per window, period and level (threshold, then cap). Sent
+   * alerts are remembered in the settings store; past periods are dropped.
+   */
+  private async sendAlertsNow(windows: SpendWindow[]): Promise<void> {
+    if (!this.settingsRepository || windows.length === 0) return;
+    const threshold = (await this.loadLimits()).alertThreshold ?? DEFAULT_ALERT_THRESHOLD;
+    const due = windows.filter(w => w.ratio >= threshold);
+    if (due.length === 0) return;
+
+    const stored = await Promise.resolve(this.settingsRepository.get<Record<string, string>>(SPEND_ALERTS_KEY)) ?? {};
+    const current = new Set([currentPeriod('daily').periodKey, currentPeriod('monthly').periodKey]);
+    const sent = Object.fromEntries(Object.entries(stored).filter(([key]) => current.has(key.split('|')[2])));
+
+    let changed = Object.keys(sent).length !== Object.keys(stored).length;
+    for (const window of due) {
+      const level = window.ratio >= 1 ? 'cap' : 'threshold';
+      const key = `${window.scope}|${window.period}|${window.periodKey}|${level}`;
+      if (sent[key]) continue;
+      sent[key] = new Date().toISOString();
+      changed = true;
+      console.warn(`\u{1F4B8} ${formatSpendAlert(window)}`);
+      await notifySpendAlert(this.config, this.settingsRepository, window);
+    }
+    if (changed) await Promise.resolve(this.settingsRepository.set(SPEND_ALERTS_KEY, sent));
+  }
+}
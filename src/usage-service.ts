@@ -19,6 +19,7 @@ export interface RecordUsageInput {
   processId?: string;
   issueNumber?: number;
   prNumber?: number;
+  repoId?: number;
   inputTokens: number;
   outputTokens: number;
   durationMs: number;
@@ -61,6 +62,7 @@ export class UsageService extends EventEmitter {
       processId: input.processId,
       issueNumber: input.issueNumber,
       prNumber: input.prNumber,
+      repoId: input.repoId,
       inputTokens: input.inputTokens,
       outputTokens: input.outputTokens,
       totalTokens: input.inputTokens + input.outputTokens,
@@ -0,0 +1,304 @@
+/**
+ * Verification gate: the repo's typecheck, lint and test commands run in the
+ * workspace before create_pull_request opens a PR.
+ *
+ *   {
+ *     "typecheck": "pnpm tsc --noEmit",
+ *     "lint": "pnpm lint",
+ *     "test": "pnpm test",
+ *     "onFailure": "block",
+ *     "maxAttempts": 3,
+ *     "timeoutSeconds": 600
+ *   }
+ *
+ * Every run of the checks is stored as a `ci_result` issue context entry.
+ * When a check fails, `block` refuses the PR and hands the coder the exit
+ * codes, failing test names and the start of each failure so it can fix
+ * them and try again; after `maxAttempts` refusals the PR is opened anyway,
+ * with a warning section. `warn` always opens the PR with the warning.
+ *
+ * The global gate comes from VERIFY_TYPECHECK_COMMAND / VERIFY_LINT_COMMAND /
+ * VERIFY_TEST_COMMAND / VERIFY_ON_FAILURE / VERIFY_MAX_ATTEMPTS /
+ * VERIFY_TIMEOUT_SECONDS (config.verification); a repo's
+ * `configJson.verification` overrides it field by field. With no command
+ * configured the gate is off.
+ */
+
+import type { tool } from 'langchain';
+import type { Config } from './config.js';
+import type { IssueContextRepository } from './issue-context-repository.js';
+import type { RepoRepository } from './repo-repository.js';
+import { runSandboxed } from './sandbox.js';
+import type { SandboxPolicy, SandboxResult } from './sandbox.js';
+import type { Workspace } from './workspace.js';
+
+export type VerificationCheckName = 'typecheck' | 'lint' | 'test';
+export type VerificationFailureMode = 'block' | 'warn';
+
+/** Checks run in this order; all of them run even when one fails. */
+export const VERIFICATION_CHECKS: VerificationCheckName[] = ['typecheck', 'lint', 'test'];
+export const VERIFICATION_FAILURE_MODES: VerificationFailureMode[] = ['block', 'warn'];
+
+export interface VerificationPolicy {
+  commands: Partial<Record<VerificationCheckName, string>>;
+  onFailure: VerificationFailureMode;
+  /** PRs refused in `block` mode before one is opened with a warning */
+  maxAttempts: number;
+  /** Wall-clock (and CPU) limit per check; the bash tool's is too short for a test suite */
+  timeoutSeconds: number;
+}
+
+/** Verification section of the global config or a repo's configJson. */
+export type VerificationConfig = Partial<Record<VerificationCheckName, string>> & {
+  onFailure?: VerificationFailureMode;
+  maxAttempts?: number;
+  timeoutSeconds?: number;
+};
+
+export const DEFAULT_VERIFICATION_POLICY: VerificationPolicy = {
+  commands: {},
+  onFailure: 'block',
+  maxAttempts: 3,
+  timeoutSeconds: 600,
+};
+
+/** Lines of output kept from the first failure of a check. */
+const FAILURE_EXCERPT_LINES = 40;
+const MAX_FAILING_TESTS = 50;
+
+export interface VerificationCheck {
+  name: VerificationCheckName;
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  /** Test names picked out of the output (vitest/jest, pytest, go test, cargo test) */
+  failingTests: string[];
+  /** Output from the first failure marker on; empty when the check passed */
+  excerpt: string;
+}
+
+export interface VerificationReport {
+  passed: boolean;
+  checks: VerificationCheck[];
+}
+
+/**
+ * Validate a verification section. Returns undefined when there is none;
+ * throws with a readable message when it is malformed.
+ */
+export function parseVerificationConfig(raw: unknown, where = 'verification'): VerificationConfig | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`${where} must be an object`);
+  const verification = raw as Record<string, unknown>;
+  for (const key of VERIFICATION_CHECKS) {
+    const value = verification[key];
+    if (value !== undefined && (typeof value !== 'string' || value.trim().length === 0)) {
+      throw new Error(`${where}.${key} must be a non-empty command`);
+    }
+  }
+  if (verification.onFailure !== undefined && !VERIFICATION_FAILURE_MODES.includes(verification.onFailure as VerificationFailureMode)) {
+    throw new Error(`${where}.onFailure must be one of ${VERIFICATION_FAILURE_MODES.join(', ')}`);
+  }
+  for (const key of ['maxAttempts', 'timeoutSeconds'] as const) {
+    const value = verification[key];
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      throw new Error(`${where}.${key} must be a positive number`);
+    }
+  }
+  return verification as VerificationConfig;
+}
+
+/** Combine the defaults, the global gate and a repo's; the repo wins per field. */
+export function resolveVerificationPolicy(global?: VerificationConfig, repo?: VerificationConfig): VerificationPolicy {
+  const commands: VerificationPolicy['commands'] = {};
+  for (const name of VERIFICATION_CHECKS) {
+    const command = repo?.[name] ?? global?.[name];
+    if (command) commands[name] = command;
+  }
+  return {
+    commands,
+    onFailure: repo?.onFailure ?? global?.onFailure ?? DEFAULT_VERIFICATION_POLICY.onFailure,
+    maxAttempts: repo?.maxAttempts ?? global?.maxAttempts ?? DEFAULT_VERIFICATION_POLICY.maxAttempts,
+    timeoutSeconds: repo?.timeoutSeconds ?? global?.timeoutSeconds ?? DEFAULT_VERIFICATION_POLICY.timeoutSeconds,
+  };
+}
+
+/**
+ * Verification gate for runs on the configured repo: global config plus the
+ * repo's configJson.verification. A malformed repo section is logged and ignored.
+ */
+export async function loadVerificationPolicy(config: Config, repoRepository?: RepoRepository): Promise<VerificationPolicy> {
+  const { owner, repo } = config.github;
+  let repoGate: VerificationConfig | undefined;
+  if (repoRepository) {
+    const record = await Promise.resolve(repoRepository.getByOwnerRepo(owner, repo));
+    try {
+      repoGate = parseVerificationConfig(record?.configJson?.verification);
+    } catch (err) {
+      console.error(`[verification] Invalid verification config for ${owner}/${repo}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return resolveVerificationPolicy(config.verification as VerificationConfig | undefined, repoGate);
+}
+
+// ── Output parsing ───────────────────────────────────────────────────────────
+
+const FAILING_TEST_PATTERNS = [
+  /^\s*(?:FAIL|×|✕|✗)\s+(.+?)(?:\s+\(?\d+(?:\.\d+)?\s?m?s\)?)?$/, // vitest, jest
+  /^FAILED\s+(\S+)/, // pytest
+  /^\s*--- FAIL: (\S+)/, // go test
+  /^test (\S+) \.\.\. FAILED$/, // cargo test
+];
+
+const FAILURE_MARKER = /\b(FAIL(ED|URE)?|ERR(OR)?|[Ee]rror|panicked)\b|[×✕✗]/;
+
+/** Test names reported as failing in a test runner's output. */
+export function parseFailingTests(output: string): string[] {
+  const names = new Set<string>();
+  for (const line of output.split('\n')) {
+    for (const pattern of FAILING_TEST_PATTERNS) {
+      const match = line.match(pattern);
+      if (match) {
+        names.add(match[1].trim());
+        break;
+      }
+    }
+    if (names.size >= MAX_FAILING_TESTS) break;
+  }
+  return [...names];
+}
+
+/** The first lines of the failure, or the end of the output when no marker is found. */
+export function extractFailureExcerpt(output: string, maxLines = FAILURE_EXCERPT_LINES): string {
+  const lines = output.replace(/\n+$/, '').split('\n');
+  const start = lines.findIndex(line => FAILURE_MARKER.test(line));
+  const excerpt = start >= 0 ? lines.slice(start, start + maxLines) : lines.slice(-maxLines);
+  return excerpt.join('\n');
+}
+
+function toCheck(name: VerificationCheckName, command: string, result: SandboxResult, durationMs: number): VerificationCheck {
+  const passed = result.exitCode === 0 && !result.timedOut;
+  const output = [result.stdout, result.stderr].filter(Boolean).join('\n');
+  return {
+    name,
+    command,
+    passed,
+    exitCode: result.exitCode,
+    timedOut: result.timedOut,
+    durationMs,
+    failingTests: passed || name !== 'test' ? [] : parseFailingTests(output),
+    excerpt: passed ? '' : extractFailureExcerpt(output),
+  };
+}
+
+// ── Running ──────────────────────────────────────────────────────────────────
+
+/** Run every configured check in the workspace. */
+export async function runVerification(ws: Workspace, policy: VerificationPolicy, sandbox: SandboxPolicy): Promise<VerificationReport> {
+  const limits: SandboxPolicy = {
+    ...sandbox,
+    timeoutSeconds: Math.max(sandbox.timeoutSeconds, policy.timeoutSeconds),
+    cpuSeconds: Math.max(sandbox.cpuSeconds, policy.timeoutSeconds),
+  };
+  const checks: VerificationCheck[] = [];
+  for (const name of VERIFICATION_CHECKS) {
+    const command = policy.commands[name];
+    if (!command) continue;
+    console.log(`\u{1F9EA} Verification: ${name} (${command})`);
+    const started = Date.now();
+    const result = await runSandboxed(command, ws, limits);
+    checks.push(toCheck(name, command, result, Date.now() - started));
+  }
+  return { passed: checks.every(c => c.passed), checks };
+}
+
+function describeCheck(check: VerificationCheck): string {
+  const status = check.passed
+    ? 'passed'
+    : check.timedOut ? 'timed out' : `failed (exit ${check.exitCode ?? 'signal'})`;
+  return `${check.name} \`${check.command}\` ${status} in ${(check.durationMs / 1000).toFixed(1)}s`;
+}
+
+/** Markdown summary: one line per check, then failing tests and excerpts. */
+export function formatVerificationReport(report: VerificationReport): string {
+  const lines = report.checks.map(c => `- ${c.passed ? '✅' : '❌'} ${describeCheck(c)}`);
+  for (const check of report.checks.filter(c => !c.passed)) {
+    lines.push('', `### ${check.name}`);
+    if (check.failingTests.length > 0) {
+      lines.push('Failing tests:', ...check.failingTests.map(t => `- ${t}`));
+    }
+    if (check.excerpt) lines.push('```', check.excerpt, '```');
+  }
+  return lines.join('\n');
+}
+
+// ── Gate ─────────────────────────────────────────────────────────────────────
+
+export interface VerificationGate {
+  policy: VerificationPolicy;
+  sandbox: SandboxPolicy;
+  /** Where ci_result entries are stored */
+  context?: {
+    repo: IssueContextRepository;
+    repoId: number;
+    issueNumber: number;
+    processId: string | null;
+    agent: string;
+  };
+}
+
+/** Whether the gate has anything to run. */
+export function isVerificationEnabled(policy: VerificationPolicy | undefined): policy is VerificationPolicy {
+  return !!policy && Object.keys(policy.commands).length > 0;
+}
+
+/**
+ * Wrap a create_pull_request tool so the repo's checks run first. Uses the
+ * same monkey-patch pattern as wrapWithOutputCap.
+ */
+export function wrapPrToolWithVerification<T extends ReturnType<typeof tool>>(prTool: T, ws: Workspace, gate: VerificationGate): T {
+  if (!isVerificationEnabled(gate.policy)) return prTool;
+  const { policy } = gate;
+  const originalInvoke = prTool.invoke.bind(prTool);
+  let attempts = 0;
+  prTool.invoke = async (input: any, options?: any) => {
+    attempts++;
+    const report = await runVerification(ws, policy, gate.sandbox);
+    const summary = formatVerificationReport(report);
+
+    if (gate.context) {
+      const { repo, repoId, issueNumber, processId, agent } = gate.context;
+      try {
+        await repo.addEntry({
+          repoId,
+          issueNumber,
+          processId,
+          entryType: 'ci_result',
+          agent,
+          content: `Verification ${report.passed ? 'passed' : 'failed'} before create_pull_request (attempt ${attempts})\n\n${summary}`,
+          iteration: attempts,
+        });
+      } catch { /* best-effort */ }
+    }
+
+    if (report.passed) {
+      return originalInvoke({ ...input, body: `${input?.body ?? ''}\n\n## Verification\n\n${summary}` }, options);
+    }
+
+    if (policy.onFailure === 'block' && attempts < policy.maxAttempts) {
+      console.log(`\u{1F6AB} Verification failed -- PR not opened (attempt ${attempts} of ${policy.maxAttempts})`);
+      return JSON.stringify({
+        blocked: true,
+        reason: `Verification failed (attempt ${attempts} of ${policy.maxAttempts}). Fix the failures below, commit and push, then call create_pull_request again.`,
+        checks: report.checks.filter(c => !c.passed).map(({ name, command, exitCode, timedOut, failingTests, excerpt }) => ({ name, command, exitCode, timedOut, failingTests, excerpt })),
+      }, null, 2);
+    }
+
+    console.log('\u{26A0}\uFE0F  Verification failed -- opening the PR with a warning');
+    const warning = `## ⚠️ Verification failed\n\nThese checks failed in the agent's workspace when the PR was opened; review with care.\n\n${summary}`;
+    return originalInvoke({ ...input, body: `${input?.body ?? ''}\n\n${warning}` }, options);
+  };
+  return prTool;
+}
@@ -0,0 +1,108 @@
+import type { WebhookEvent } from './listener.js';
+
+/**
+ * Outcome of handling a delivery. `received` means persisted but not yet
+ * handled (still queued, or the server stopped before the handler ran).
+ */
+export type WebhookDeliveryStatus = 'received' | 'handled' | 'ignored' | 'failed';
+
+/**
+ * A persisted GitHub webhook delivery.
+ */
+export interface WebhookDelivery {
+  deliveryId: string;
+  event: string;
+  action?: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  /** Handler reason or error message */
+  reason?: string;
+  /** Number of redeliveries dropped as duplicates */
+  duplicateCount: number;
+  replayCount: number;
+  receivedAt: string;
+  handledAt?: string;
+}
+
+export interface WebhookDeliveryFilter {
+  event?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+/**
+ * Repository interface for webhook delivery persistence and deduplication.
+ */
+export interface WebhookDeliveryRepository {
+  /**
+   * Persist a newly received delivery. Returns false — and counts the
+   * duplicate — when the delivery id has already been recorded.
+   */
+  record(event: WebhookEvent): boolean | Promise<boolean>;
+  setResult(deliveryId: string, status: WebhookDeliveryStatus, reason?: string): void | Promise<void>;
+  /** Count a replay and reset the delivery to `received` until it is handled again. */
+  markReplayed(deliveryId: string): void | Promise<void>;
+  getById(deliveryId: string): WebhookDelivery | undefined | Promise<WebhookDelivery | undefined>;
+  list(filter?: WebhookDeliveryFilter): WebhookDelivery[] | Promise<WebhookDelivery[]>;
+}
+
+/**
+ * In-memory webhook delivery repository for use without a database.
+ */
+export class InMemoryWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  private deliveries: Map<string, WebhookDelivery> = new Map();
+
+  record(event: WebhookEvent): boolean {
+    const existing = this.deliveries.get(event.deliveryId);
+    if (existing) {
+      existing.duplicateCount++;
+      return false;
+    }
+    const action = event.payload.action;
+    this.deliveries.set(event.deliveryId, {
+      deliveryId: event.deliveryId,
+      event: event.event,
+      action: typeof action === 'string' ? action : undefined,
+      payload: JSON.parse(JSON.stringify(event.payload)),
+      status: 'received',
+      duplicateCount: 0,
+      replayCount: 0,
+      receivedAt: new Date().toISOString(),
+    });
+    return true;
+  }
+
+  setResult(deliveryId: string, status: WebhookDeliveryStatus, reason?: string): void {
+    const d = this.deliveries.get(deliveryId);
+    if (!d) return;
+    d.status = status;
+    d.reason = reason;
+    d.handledAt = new Date().toISOString();
+  }
+
+  markReplayed(deliveryId: string): void {
+    const d = this.deliveries.get(deliveryId);
+    if (!d) return;
+    d.replayCount++;
+    d.status = 'received';
+    d.reason = undefined;
+    d.handledAt = undefined;
+  }
+
+  getById(deliveryId: string): WebhookDelivery | undefined {
+    const d = this.deliveries.get(deliveryId);
+    return d ? this.copy(d) : undefined;
+  }
+
+  list(filter?: WebhookDeliveryFilter): WebhookDelivery[] {
+    let result = Array.from(this.deliveries.values()).reverse();
+    if (filter?.event) result = result.filter(d => d.event === filter.event);
+    if (filter?.status) result = result.filter(d => d.status === filter.status);
+    if (filter?.limit) result = result.slice(0, filter.limit);
+    return result.map(d => this.copy(d));
+  }
+
+  private copy(d: WebhookDelivery): WebhookDelivery {
+    return { ...d, payload: JSON.parse(JSON.stringify(d.payload)) };
+  }
+}
@@ -0,0 +1,363 @@
+/**
+ * Bookkeeping for the per-process workspaces under .workspaces/.
+ *
+ * Every workspace the manager creates gets a small owner file next to it
+ * (`deepagents-<id>.json`: pid, processId, repo). A sweep — at startup and
+ * then on a timer — removes workspaces nobody owns any more:
+ *
+ *   - the process record says the run is over (completed, failed, cancelled)
+ *   - the server process that created it has exited (crash, kill -9)
+ *   - no owner file, no running process, and older than an hour
+ *
+ * Disk quotas (WORKSPACE_MAX_MB per workspace, WORKSPACES_MAX_TOTAL_MB for the
+ * whole directory including mirrors) are checked when a workspace is created
+ * — the run fails with a WorkspaceQuotaError — and on every sweep, which emits
+ * `quota_exceeded` for live workspaces over their limit so the ProcessManager
+ * can fail the run.
+ *
+ * Installed dependencies are restored from the cache under .workspaces/deps/
+ * right after checkout and saved back on cleanup (see dependency-cache.ts).
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { restoreDependencies, saveDependencies } from './dependency-cache.js';
+import type { AgentProcess } from './process-manager.js';
+import type { ProcessRepository } from './process-repository.js';
+import { createWorkspace, getDependencyCacheDir, getWorkspacesRoot, removeWorkspace, WORKSPACE_PREFIX } from './workspace.js';
+import type { Workspace, WorkspaceOptions } from './workspace.js';
+
+export class WorkspaceQuotaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceQuotaError';
+  }
+}
+
+export interface WorkspaceQuota {
+  maxWorkspaceMb?: number;
+  maxTotalMb?: number;
+}
+
+export interface WorkspaceInfo {
+  /** Directory name, e.g. "deepagents-proc-42" */
+  name: string;
+  path: string;
+  processId?: string;
+  owner?: string;
+  repo?: string;
+  sizeBytes: number;
+  createdAt: string;
+  ageMs: number;
+  /** orphan: nobody will clean it up (see the module comment) */
+  state: 'live' | 'orphan';
+  /** Why a workspace is an orphan */
+  reason?: string;
+  process?: Pick<AgentProcess, 'id' | 'type' | 'status' | 'issueNumber' | 'prNumber'>;
+}
+
+export interface WorkspaceUsage {
+  workspaces: WorkspaceInfo[];
+  /** Everything under .workspaces/, mirrors included */
+  totalBytes: number;
+  quota: WorkspaceQuota;
+}
+
+export interface QuotaExceeded {
+  processId?: string;
+  path: string;
+  reason: string;
+}
+
+export interface WorkspaceSweepResult {
+  removed: string[];
+  quotaExceeded: QuotaExceeded[];
+}
+
+interface OwnerFile {
+  pid: number;
+  processId?: string;
+  owner: string;
+  repo: string;
+  createdAt: string;
+}
+
+const MB = 1024 * 1024;
+
+/** Workspaces without an owner file are only swept once this old. */
+const ORPHAN_GRACE_MS = 3_600_000;
+
+export function formatSize(bytes: number): string {
+  if (bytes < MB) return `${Math.ceil(bytes / 1024)} KB`;
+  if (bytes < 1024 * MB) return `${(bytes / MB).toFixed(1)} MB`;
+  return `${(bytes / (1024 * MB)).toFixed(2)} GB`;
+}
+
+/** Bytes used by the files under a directory (symlinks are not followed). */
+export async function dirSize(dir: string): Promise<number> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+  let total = 0;
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await dirSize(entryPath);
+    } else if (entry.isFile()) {
+      total += (await fs.promises.lstat(entryPath).catch(() => undefined))?.size ?? 0;
+    }
+  }
+  return total;
+}
+
+function isPidAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: alive, owned by another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function ownerFilePath(workspacePath: string): string {
+  return `${workspacePath}.json`;
+}
+
+function readOwnerFile(workspacePath: string): OwnerFile | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(ownerFilePath(workspacePath), 'utf-8')) as OwnerFile;
+  } catch {
+    return undefined;
+  }
+}
+
+export class WorkspaceManager extends EventEmitter {
+  /** Workspaces created by this process and not yet cleaned up, by path */
+  private live = new Map<string, { processId?: string }>();
+  private timer?: ReturnType<typeof setInterval>;
+  private sweeping?: Promise<WorkspaceSweepResult>;
+  readonly quota: WorkspaceQuota;
+
+  constructor(private readonly options: {
+    processRepository?: ProcessRepository;
+    quota?: WorkspaceQuota;
+    sweepIntervalMs?: number;
+    /** Defaults to .workspaces/ under the project root */
+    root?: string;
+  } = {}) {
+    super();
+    this.quota = options.quota ?? {};
+  }
+
+  private get root(): string {
+    return this.options.root ?? getWorkspacesRoot();
+  }
+
+  /**
+   * Check out a workspace (see createWorkspace) within the disk quotas.
+   * Throws WorkspaceQuotaError when .workspaces/ is already full or the
+   * checkout alone exceeds the per-workspace limit.
+   */
+  async create(owner: string, repo: string, token: string, options: WorkspaceOptions = {}): Promise<Workspace> {
+    const { maxTotalMb, maxWorkspaceMb } = this.quota;
+    if (maxTotalMb !== undefined) {
+      const used = await dirSize(this.root);
+      if (used >= maxTotalMb * MB) {
+        throw new WorkspaceQuotaError(`Workspace disk quota exceeded: .workspaces/ uses ${formatSize(used)} of ${maxTotalMb} MB (WORKSPACES_MAX_TOTAL_MB)`);
+      }
+    }
+
+    const workspace = await createWorkspace(owner, repo, token, options);
+    this.live.set(workspace.path, { processId: options.processId });
+    const ownerFile: OwnerFile = { pid: process.pid, processId: options.processId, owner, repo, createdAt: new Date().toISOString() };
+    try {
+      fs.writeFileSync(ownerFilePath(workspace.path), JSON.stringify(ownerFile));
+    } catch (err) {
+      console.warn(`[workspace] Failed to write owner file for ${workspace.path}:`, err);
+    }
+
+    const depsDir = getDependencyCacheDir(owner, repo, this.root);
+    const cleanup = async () => {
+      this.live.delete(workspace.path);
+      await saveDependencies(workspace, depsDir).catch(err => console.warn(`[workspace] Failed to cache dependencies of ${owner}/${repo}:`, err));
+      await workspace.cleanup();
+      fs.rmSync(ownerFilePath(workspace.path), { force: true });
+    };
+
+    if (maxWorkspaceMb !== undefined) {
+      const size = await dirSize(workspace.path);
+      if (size > maxWorkspaceMb * MB) {
+        await cleanup();
+        throw new WorkspaceQuotaError(`Workspace disk quota exceeded: the checkout of ${owner}/${repo} uses ${formatSize(size)} of ${maxWorkspaceMb} MB (WORKSPACE_MAX_MB)`);
+      }
+    }
+
+    try {
+      await restoreDependencies(workspace, depsDir);
+    } catch (err) {
+      console.warn(`[workspace] Failed to restore cached dependencies of ${owner}/${repo}:`, err);
+    }
+
+    return { ...workspace, cleanup };
+  }
+
+  /** All workspaces with their size, age, owning process and state. */
+  async usage(): Promise<WorkspaceUsage> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(this.root, { withFileTypes: true });
+    } catch {
+      return { workspaces: [], totalBytes: 0, quota: this.quota };
+    }
+
+    const workspaces: WorkspaceInfo[] = [];
+    let totalBytes = 0;
+    for (const entry of entries) {
+      const entryPath = path.join(this.root, entry.name);
+      if (!entry.isDirectory()) {
+        totalBytes += (await fs.promises.lstat(entryPath).catch(() => undefined))?.size ?? 0;
+        continue;
+      }
+      const sizeBytes = await dirSize(entryPath);
+      totalBytes += sizeBytes;
+      if (entry.name.startsWith(WORKSPACE_PREFIX)) workspaces.push(await this.describe(entry.name, entryPath, sizeBytes));
+    }
+    workspaces.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return { workspaces, totalBytes, quota: this.quota };
+  }
+
+  private async describe(name: string, workspacePath: string, sizeBytes: number): Promise<WorkspaceInfo> {
+    const ownerFile = readOwnerFile(workspacePath);
+    const processId = ownerFile?.processId ?? this.live.get(workspacePath)?.processId ?? name.slice(WORKSPACE_PREFIX.length);
+    const record = this.options.processRepository
+      ? await Promise.resolve(this.options.processRepository.getById(processId)).catch(() => undefined)
+      : undefined;
+    const stat = await fs.promises.stat(workspacePath).catch(() => undefined);
+    const createdAt = ownerFile?.createdAt ?? new Date(stat?.mtimeMs ?? Date.now()).toISOString();
+    const ageMs = Date.now() - Date.parse(createdAt);
+
+    let reason: string | undefined;
+    if (!this.live.has(workspacePath)) {
+      if (record && record.status !== 'running' && record.status !== 'awaiting_approval' && record.status !== 'paused') {
+        reason = `process ${record.id} is ${record.status}`;
+      } else if (ownerFile && (ownerFile.pid === process.pid || !isPidAlive(ownerFile.pid))) {
+        reason = `owner pid ${ownerFile.pid} has exited`;
+      } else if (!ownerFile && !record && ageMs > ORPHAN_GRACE_MS) {
+        reason = 'no owning process';
+      }
+    }
+
+    return {
+      name,
+      path: workspacePath,
+      processId: record || ownerFile?.processId ? processId : undefined,
+      owner: ownerFile?.owner ?? record?.owner,
+      repo: ownerFile?.repo ?? record?.repo,
+      sizeBytes,
+      createdAt,
+      ageMs,
+      state: reason ? 'orphan' : 'live',
+      ...(reason ? { reason } : {}),
+      ...(record ? { process: { id: record.id, type: record.type, status: record.status, issueNumber: record.issueNumber, prNumber: record.prNumber } } : {}),
+    };
+  }
+
+  /**
+   * Remove orphaned workspaces, then check the quotas of the live ones
+   * created by this process: each one over WORKSPACE_MAX_MB, and the largest
+   * while the total is over WORKSPACES_MAX_TOTAL_MB, gets a `quota_exceeded`
+   * event. Concurrent calls share one sweep.
+   */
+  sweep(): Promise<WorkspaceSweepResult> {
+    this.sweeping ??= this.runSweep().finally(() => { this.sweeping = undefined; });
+    return this.sweeping;
+  }
+
+  private async runSweep(): Promise<WorkspaceSweepResult> {
+    const result: WorkspaceSweepResult = { removed: [], quotaExceeded: [] };
+    const usage = await this.usage();
+    let totalBytes = usage.totalBytes;
+
+    for (const ws of usage.workspaces.filter(w => w.state === 'orphan')) {
+      try {
+        removeWorkspace(ws.path);
+        fs.rmSync(ownerFilePath(ws.path), { force: true });
+        totalBytes -= ws.sizeBytes;
+        result.removed.push(ws.name);
+        console.log(`[workspace] Removed orphaned workspace ${ws.name} (${ws.reason}, ${formatSize(ws.sizeBytes)})`);
+      } catch (err) {
+        console.error(`[workspace] Failed to remove orphaned workspace ${ws.name}:`, err);
+      }
+    }
+    // Owner files whose workspace is gone
+    for (const name of await fs.promises.readdir(this.root).catch(() => [] as string[])) {
+      if (name.startsWith(WORKSPACE_PREFIX) && name.endsWith('.json') && !fs.existsSync(path.join(this.root, name.slice(0, -'.json'.length)))) {
+        fs.rmSync(path.join(this.root, name), { force: true });
+      }
+    }
+
+    const ours = usage.workspaces.filter(w => w.state === 'live' && this.live.has(w.path));
+    const { maxWorkspaceMb, maxTotalMb } = this.quota;
+    if (maxWorkspaceMb !== undefined) {
+      for (const ws of ours.filter(w => w.sizeBytes > maxWorkspaceMb * MB)) {
+        result.quotaExceeded.push({
+          processId: this.live.get(ws.path)?.processId,
+          path: ws.path,
+          reason: `Workspace disk quota exceeded: ${ws.name} uses ${formatSize(ws.sizeBytes)} of ${maxWorkspaceMb} MB (WORKSPACE_MAX_MB)`,
+        });
+      }
+    }
+    if (maxTotalMb !== undefined && totalBytes > maxTotalMb * MB) {
+      const largest = ours
+        .filter(w => !result.quotaExceeded.some(q => q.path === w.path))
+        .sort((a, b) => b.sizeBytes - a.sizeBytes)[0];
+      if (largest) {
+        result.quotaExceeded.push({
+          processId: this.live.get(largest.path)?.processId,
+          path: largest.path,
+          reason: `Workspace disk quota exceeded: .workspaces/ uses ${formatSize(totalBytes)} of ${maxTotalMb} MB (WORKSPACES_MAX_TOTAL_MB); ${largest.name} is the largest workspace at ${formatSize(largest.sizeBytes)}`,
+        });
+      }
+    }
+    for (const exceeded of result.quotaExceeded) {
+      console.warn(`[workspace] ${exceeded.reason}`);
+      this.emit('quota_exceeded', exceeded);
+    }
+    return result;
+  }
+
+  /** Sweep now and then every sweepIntervalMs (when set). */
+  start(): void {
+    const sweep = () => this.sweep().catch(err => console.error('[workspace] Sweep failed:', err));
+    sweep();
+    if (this.options.sweepIntervalMs && !this.timer) {
+      this.timer = setInterval(sweep, this.options.sweepIntervalMs);
+      this.timer.unref();
+    }
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+// ── Process-wide manager ─────────────────────────────────────────────────────
+
+let currentManager = new WorkspaceManager();
+
+/** The manager agents create their workspaces through. */
+export function getWorkspaceManager(): WorkspaceManager {
+  return currentManager;
+}
+
+/** Replace the process-wide manager (at startup, once config is loaded). */
+export function setWorkspaceManager(manager: WorkspaceManager): void {
+  currentManager.stop();
+  currentManager = manager;
+}
@@ -0,0 +1,42 @@
+// Browser side of dashboard login (see src/auth.ts).
+// Adds the session's CSRF token to mutating fetch() calls and sends the
+// user back to the login page when the session has expired.
+(function () {
+  var CSRF_COOKIE = 'deepagents_csrf';
+  var SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+  var nativeFetch = window.fetch.bind(window);
+
+  function readCookie(name) {
+    var match = document.cookie.split('; ').find(function (c) { return c.indexOf(name + '=') === 0; });
+    return match ? decodeURIComponent(match.slice(name.length + 1)) : '';
+  }
+
+  function login() {
+    window.location.href = '/auth/login?returnTo=' + encodeURIComponent(window.location.pathname + window.location.search);
+  }
+
+  window.fetch = function (input, init) {
+    init = init || {};
+    var method = (init.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    var token = readCookie(CSRF_COOKIE);
+    if (token && SAFE_METHODS.indexOf(method) === -1) {
+      var headers = new Headers(init.headers || (input instanceof Request ? input.headers : undefined));
+      headers.set('X-CSRF-Token', token);
+      init = Object.assign({}, init, { headers: headers });
+    }
+    return nativeFetch(input, init).then(function (res) {
+      if (res.status === 401 && token) login();
+      return res;
+    });
+  };
+
+  window.deepAgentsAuth = {
+    /** { authEnabled, user } for the signed-in user */
+    me: function () {
+      return nativeFetch('/api/auth/me').then(function (res) { return res.ok ? res.json() : { authEnabled: true, user: null }; });
+    },
+    logout: function () {
+      return window.fetch('/auth/logout', { method: 'POST' }).then(function () { window.location.href = '/auth/login'; });
+    },
+  };
+})();
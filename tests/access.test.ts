@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAccessRoleSettings,
+  parseScopes,
+  resolveUserPrincipal,
+  authenticateApiKey,
+  generateApiKey,
+  canUseRepo,
+  ROLE_SCOPES,
+} from '../src/access.js';
+import { InMemoryApiKeyRepository } from '../src/api-key-repository.js';
+
+const ada = { login: 'ada', email: 'ada@example.com', provider: 'oidc' };
+
+describe('parseAccessRoleSettings', () => {
+  it('accepts roles with optional repo restrictions', () => {
+    const settings = { defaultRole: 'none', users: { ada: { role: 'operator', repos: ['acme/api'] } } };
+    expect(parseAccessRoleSettings(settings)).toEqual(settings);
+    expect(parseAccessRoleSettings(undefined)).toEqual({});
+  });
+
+  it('rejects unknown roles and malformed repos', () => {
+    expect(() => parseAccessRoleSettings({ defaultRole: 'root' })).toThrow('defaultRole');
+    expect(() => parseAccessRoleSettings({ users: { ada: { role: 'owner' } } })).toThrow('access_roles.users.ada.role');
+    expect(() => parseAccessRoleSettings({ users: { ada: { role: 'viewer', repos: ['api'] } } })).toThrow('"owner/repo"');
+  });
+});
+
+describe('parseScopes', () => {
+  it('dedupes valid scopes and rejects others', () => {
+    expect(parseScopes(['read', 'runs', 'read'])).toEqual(['read', 'runs']);
+    expect(() => parseScopes([])).toThrow('non-empty');
+    expect(() => parseScopes(['write'])).toThrow('read, runs, admin');
+  });
+});
+
+describe('resolveUserPrincipal', () => {
+  it('defaults signed-in users to viewer', () => {
+    expect(resolveUserPrincipal(ada, {})).toEqual({ kind: 'user', name: 'ada', role: 'viewer', scopes: ROLE_SCOPES.viewer, repos: undefined });
+  });
+
+  it('matches grants by login or email, case-insensitively', () => {
+    const principal = resolveUserPrincipal(ada, { users: { 'ADA@example.com': { role: 'operator', repos: ['acme/api'] } } });
+    expect(principal).toMatchObject({ role: 'operator', scopes: ['read', 'runs'], repos: ['acme/api'] });
+  });
+
+  it('refuses users without a role when the default is none', () => {
+    expect(resolveUserPrincipal(ada, { defaultRole: 'none' })).toBeUndefined();
+  });
+
+  it('makes AUTH_ADMINS admins regardless of the setting', () => {
+    expect(resolveUserPrincipal(ada, { defaultRole: 'none' }, ['Ada'])).toMatchObject({ role: 'admin', scopes: ROLE_SCOPES.admin });
+  });
+});
+
+describe('canUseRepo', () => {
+  it('allows every repo without a restriction', () => {
+    expect(canUseRepo(undefined, 'acme/api')).toBe(true);
+    expect(canUseRepo({ kind: 'user', name: 'ada', scopes: ['runs'] }, 'acme/api')).toBe(true);
+    expect(canUseRepo({ kind: 'user', name: 'ada', scopes: ['runs'], repos: ['Acme/API'] }, 'acme/api')).toBe(true);
+    expect(canUseRepo({ kind: 'user', name: 'ada', scopes: ['runs'], repos: ['acme/web'] }, 'acme/api')).toBe(false);
+  });
+});
+
+describe('authenticateApiKey', () => {
+  function seed(repo: InMemoryApiKeyRepository, fields: { expiresAt?: string } = {}) {
+    const { key, keyHash, prefix } = generateApiKey();
+    const record = repo.create({ name: 'ci', prefix, keyHash, scopes: ['runs'], repos: ['acme/api'], createdBy: 'ada', ...fields });
+    return { key, record };
+  }
+
+  it('returns the key principal and records its use', async () => {
+    const repo = new InMemoryApiKeyRepository();
+    const { key, record } = seed(repo);
+    expect(key.startsWith(record.prefix)).toBe(true);
+    expect(await authenticateApiKey(repo, key)).toEqual({ kind: 'api_key', name: 'ci', keyId: record.id, scopes: ['runs'], repos: ['acme/api'] });
+    expect(repo.list()[0].lastUsedAt).toBeDefined();
+  });
+
+  it('rejects revoked, expired and unknown keys', async () => {
+    const repo = new InMemoryApiKeyRepository();
+    const revoked = seed(repo);
+    repo.revoke(revoked.record.id);
+    const expired = seed(repo, { expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+    expect(await authenticateApiKey(repo, revoked.key)).toBeUndefined();
+    expect(await authenticateApiKey(repo, expired.key)).toBeUndefined();
+    expect(await authenticateApiKey(repo, generateApiKey().key)).toBeUndefined();
+  });
+});
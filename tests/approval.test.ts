@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ApprovalGate,
+  ApprovalTimeoutError,
+  decideApproval,
+  listPendingApprovals,
+  loadApprovalPolicy,
+  parseApprovalConfig,
+  PLAN_APPROVAL_MARKER,
+  resolveApprovalPolicy,
+} from '../src/approval.js';
+import type { ApprovalGateOptions } from '../src/approval.js';
+import { COMMAND_REPLY_MARKER } from '../src/slash-commands.js';
+
+const mockCreateComment = vi.fn();
+const mockListReactions = vi.fn();
+const mockGetPermission = vi.fn();
+vi.mock('../src/github-tools.js', () => ({
+  createGitHubClient: vi.fn(() => ({
+    rest: {
+      issues: { createComment: mockCreateComment },
+      reactions: { listForIssueComment: mockListReactions },
+      repos: { getCollaboratorPermissionLevel: mockGetPermission },
+    },
+  })),
+  getAuthFromConfig: vi.fn(() => 'mock-token'),
+}));
+
+vi.mock('../src/core.js', () => ({
+  retractIssue: vi.fn(),
+}));
+
+const config = { github: { owner: 'acme', repo: 'api', token: 't' } } as any;
+const policy = { required: true, timeoutHours: 72 };
+
+/** A tool whose invoke resolves with a fixed result. */
+function fakeTool(result = 'saved') {
+  const invoke = vi.fn(async () => result);
+  return { tool: { invoke } as any, invoke };
+}
+
+function gate(options: Partial<ApprovalGateOptions> = {}) {
+  return new ApprovalGate({ config, issueNumber: 7, policy, processId: 'analyze-7-1', reactionPollMs: 60_000, ...options });
+}
+
+describe('approval config', () => {
+  it('validates and merges the global and repo sections', () => {
+    expect(parseApprovalConfig(undefined)).toBeUndefined();
+    expect(parseApprovalConfig({ required: true, timeoutHours: 24 })).toEqual({ required: true, timeoutHours: 24 });
+    expect(() => parseApprovalConfig('yes')).toThrow('approval must be an object');
+    expect(() => parseApprovalConfig({ required: 'yes' })).toThrow('approval.required must be true or false');
+    expect(() => parseApprovalConfig({ timeoutHours: 0 })).toThrow('approval.timeoutHours must be a positive number');
+
+    expect(resolveApprovalPolicy()).toEqual({ required: false, timeoutHours: 72 });
+    expect(resolveApprovalPolicy({ required: true, timeoutHours: 24 }, { required: false })).toEqual({ required: false, timeoutHours: 24 });
+  });
+
+  it('ignores a malformed repo section', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const repoRepository = { getByOwnerRepo: () => ({ configJson: { approval: { timeoutHours: -1 } } }) } as any;
+    expect(await loadApprovalPolicy({ ...config, approval: { required: true } }, repoRepository)).toEqual({ required: true, timeoutHours: 72 });
+    vi.restoreAllMocks();
+  });
+});
+
+describe('ApprovalGate', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockCreateComment.mockReset().mockResolvedValue({ data: { id: 99, html_url: 'https://github.com/acme/api/issues/7#issuecomment-99' } });
+    mockListReactions.mockReset().mockResolvedValue({ data: [] });
+    mockGetPermission.mockReset().mockResolvedValue({ data: { permission: 'admin', role_name: 'admin' } });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('holds a saved plan until it is approved, then lets changes through', async () => {
+    const onPending = vi.fn();
+    const approval = gate({ onPending });
+    const save = fakeTool();
+    const edit = fakeTool('edited');
+    approval.wrapSaveContextTool(save.tool);
+    approval.wrapChangeTool(edit.tool);
+
+    const saving = save.tool.invoke({ entry_type: 'architect_plan', content: '1. Add a cache' });
+    await vi.waitFor(() => expect(onPending).toHaveBeenCalledTimes(1));
+
+    expect(mockCreateComment).toHaveBeenCalledWith({
+      owner: 'acme', repo: 'api', issue_number: 7,
+      body: expect.stringContaining(`${PLAN_APPROVAL_MARKER}\n${COMMAND_REPLY_MARKER}\n## 📋 Plan awaiting approval\n\n1. Add a cache`),
+    });
+    expect(listPendingApprovals()).toMatchObject([{ owner: 'acme', repo: 'api', issueNumber: 7, processId: 'analyze-7-1', plan: '1. Add a cache', commentId: 99 }]);
+
+    expect(decideApproval('Acme', 'API', 7, { approved: true, by: 'maria' })).toBe(true);
+    const result = await saving;
+    expect(result).toContain('"approved": true');
+    expect(onPending).toHaveBeenLastCalledWith(undefined);
+    expect(listPendingApprovals()).toEqual([]);
+    expect(decideApproval('acme', 'api', 7, { approved: true, by: 'maria' })).toBe(false);
+
+    expect(await edit.tool.invoke({ path: 'a.ts' })).toBe('edited');
+    // Later saves pass straight through
+    expect(await save.tool.invoke({ entry_type: 'architect_plan', content: '2. Also docs' })).toBe('saved');
+    expect(mockCreateComment).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends a rejected plan back with the feedback', async () => {
+    const approval = gate();
+    const save = fakeTool();
+    const edit = fakeTool('edited');
+    approval.wrapSaveContextTool(save.tool);
+    approval.wrapChangeTool(edit.tool);
+
+    const saving = save.tool.invoke({ entry_type: 'architect_plan', content: '1. Rewrite everything' });
+    await vi.waitFor(() => expect(listPendingApprovals()).toHaveLength(1));
+    decideApproval('acme', 'api', 7, { approved: false, by: 'maria', reason: 'Keep the public API' });
+
+    const result = await saving;
+    expect(result).toContain('"feedback": "Keep the public API"');
+    expect(result).toContain('save the revised plan');
+    expect(await edit.tool.invoke({})).toContain('rejected by maria: Keep the public API');
+    expect(edit.invoke).not.toHaveBeenCalled();
+
+    // The revised plan goes back for approval
+    const resaving = save.tool.invoke({ entry_type: 'architect_plan', content: '1. Add a method' });
+    await vi.waitFor(() => expect(mockCreateComment).toHaveBeenCalledTimes(2));
+    decideApproval('acme', 'api', 7, { approved: true, by: 'maria' });
+    expect(await resaving).toContain('"approved": true');
+  });
+
+  it('asks for approval of the noted plan on the first change', async () => {
+    const approval = gate();
+    const edit = fakeTool('edited');
+    approval.wrapChangeTool(edit.tool);
+
+    expect(await edit.tool.invoke({})).toContain('No plan has been approved yet');
+
+    approval.notePlan('Issuer brief: add a cache');
+    const editing = edit.tool.invoke({});
+    await vi.waitFor(() => expect(listPendingApprovals()).toMatchObject([{ plan: 'Issuer brief: add a cache' }]));
+    decideApproval('acme', 'api', 7, { approved: true, by: 'maria' });
+    expect(await editing).toBe('edited');
+  });
+
+  it('accepts a 👍 from a maintainer on the plan comment', async () => {
+    mockListReactions.mockResolvedValue({
+      data: [
+        { user: { login: 'ci-bot', type: 'Bot' } },
+        { user: { login: 'dev', type: 'User' } },
+        { user: { login: 'lead', type: 'User' } },
+      ],
+    });
+    mockGetPermission.mockImplementation(async ({ username }) => ({
+      data: username === 'lead' ? { permission: 'write', role_name: 'maintain' } : { permission: 'write', role_name: 'write' },
+    }));
+    const approval = gate({ reactionPollMs: 5 });
+
+    expect(await approval.request('1. Add a cache')).toEqual({ approved: true, by: 'lead' });
+    expect(mockListReactions).toHaveBeenCalledWith({ owner: 'acme', repo: 'api', comment_id: 99, content: '+1', per_page: 100 });
+    expect(mockGetPermission.mock.calls.map(([args]) => args.username)).toEqual(['dev', 'lead']);
+  });
+
+  it('fails the run when nobody decides in time', async () => {
+    const approval = gate({ policy: { required: true, timeoutHours: 0.000001 } });
+    const decision = await approval.request('1. Add a cache');
+
+    expect(decision.approved).toBe(false);
+    expect(approval.failure).toBeInstanceOf(ApprovalTimeoutError);
+    expect(approval.failure?.message).toBe('Plan for issue #7 was not approved within 0.000001h');
+    expect(listPendingApprovals()).toEqual([]);
+  });
+
+  it('stops waiting when the run is cancelled and posts through the SCM provider off GitHub', async () => {
+    const controller = new AbortController();
+    const commentOnIssue = vi.fn().mockResolvedValue({ id: 5, body: '', url: 'https://gitlab.com/acme/api/-/issues/7#note_5' });
+    const approval = gate({ signal: controller.signal, scm: { kind: 'gitlab', commentOnIssue } as any });
+
+    const waiting = approval.request('1. Add a cache');
+    await vi.waitFor(() => expect(listPendingApprovals()).toMatchObject([{ commentUrl: 'https://gitlab.com/acme/api/-/issues/7#note_5' }]));
+    expect(commentOnIssue.mock.calls[0][1]).not.toContain('👍');
+    controller.abort();
+
+    expect(await waiting).toMatchObject({ approved: false, reason: 'Run cancelled' });
+    expect(approval.failure).toBeUndefined();
+    expect(mockCreateComment).not.toHaveBeenCalled();
+  });
+});
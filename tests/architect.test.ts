@@ -161,14 +161,14 @@ describe('createCoderSubagent', () => {
     expect(subagent.name).toBe('coder');
   });
 
-  it('has 9 tools in normal mode', () => {
+  it('has 10 tools in normal mode', () => {
     const subagent = createCoderSubagent('o', 'r', mockOctokit, { workspacePath: TEST_WORKSPACE });
-    expect(subagent.tools).toHaveLength(9);
+    expect(subagent.tools).toHaveLength(10);
   });
 
-  it('has 9 tools in dry-run mode', () => {
+  it('has 10 tools in dry-run mode', () => {
     const subagent = createCoderSubagent('o', 'r', mockOctokit, { dryRun: true, workspacePath: TEST_WORKSPACE });
-    expect(subagent.tools).toHaveLength(9);
+    expect(subagent.tools).toHaveLength(10);
   });
 
   it('system prompt contains owner/repo', () => {
@@ -666,10 +666,10 @@ describe('subagent factories — workspace path flows through', () => {
     expect(subagent.tools).toHaveLength(7);
   });
 
-  it('createCoderSubagent requires workspacePath and has 9 tools', () => {
+  it('createCoderSubagent requires workspacePath and has 10 tools', () => {
     const subagent = createCoderSubagent('o', 'r', mockOctokit, { workspacePath: TEST_WORKSPACE });
     expect(subagent.name).toBe('coder');
-    expect(subagent.tools).toHaveLength(9);
+    expect(subagent.tools).toHaveLength(10);
   });
 
   it('createReviewerSubagent uses opts.workspacePath and has 5 tools', () => {
@@ -0,0 +1,288 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import {
+  installAuth,
+  isUserAllowed,
+  createGitHubLoginProvider,
+  createOidcLoginProvider,
+  SESSION_COOKIE,
+  CSRF_COOKIE,
+} from '../src/auth.js';
+import type { AuthConfig, AuthOptions } from '../src/auth.js';
+import { InMemorySessionRepository } from '../src/session-repository.js';
+import { InMemorySettingsRepository } from '../src/settings-repository.js';
+
+const servers: Server[] = [];
+
+async function listen(app: express.Express): Promise<string> {
+  const server = await new Promise<Server>(resolve => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  servers.push(server);
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function unsignedJwt(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none' })}.${encode(claims)}.`;
+}
+
+/** A stand-in OIDC provider that signs in `login` for any authorization request. */
+async function startIdp(login: string) {
+  const idp = express();
+  idp.use(express.urlencoded({ extended: false }));
+  const codes = new Map<string, { nonce: string; challenge: string }>();
+  const tokenRequests: Record<string, string>[] = [];
+  let issuer = '';
+
+  idp.get('/.well-known/openid-configuration', (_req, res) => {
+    res.json({ issuer, authorization_endpoint: `${issuer}/auth`, token_endpoint: `${issuer}/token` });
+  });
+  idp.get('/auth', (req, res) => {
+    const code = `code-${codes.size + 1}`;
+    codes.set(code, { nonce: String(req.query.nonce), challenge: String(req.query.code_challenge) });
+    res.redirect(`${req.query.redirect_uri}?code=${code}&state=${req.query.state}`);
+  });
+  idp.post('/token', (req, res) => {
+    tokenRequests.push({ ...req.body, authorization: req.headers.authorization ?? '' });
+    const grant = codes.get(req.body.code);
+    if (!grant) {
+      res.status(400).json({ error: 'invalid_grant' });
+      return;
+    }
+    res.json({
+      access_token: 'at',
+      id_token: unsignedJwt({ iss: issuer, aud: 'deepagents', exp: Math.floor(Date.now() / 1000) + 60, nonce: grant.nonce, sub: '42', preferred_username: login, email: `${login}@example.com`, name: 'Ada' }),
+    });
+  });
+
+  issuer = await listen(idp);
+  return { issuer, tokenRequests };
+}
+
+function authConfig(overrides: Partial<AuthConfig> = {}): AuthConfig {
+  return { provider: 'oidc', clientId: 'deepagents', clientSecret: 'secret', baseUrl: 'http://placeholder', allowedUsers: [], sessionTtlHours: 1, ...overrides };
+}
+
+/** An app with auth in front of a couple of routes, served on a random port. */
+async function startApp(auth: AuthConfig, options: AuthOptions = {}) {
+  const app = express();
+  // The callback URL depends on the port, so listen before installing auth
+  const url = await listen(app);
+  auth.baseUrl = url;
+  const sessions = new InMemorySessionRepository();
+  app.use(express.json());
+  installAuth(app, { auth } as any, { sessionRepository: sessions, ...options });
+  app.get('/', (_req, res) => { res.send('dashboard'); });
+  app.get('/api/status', (_req, res) => { res.json({ ok: true }); });
+  app.post('/api/processes/analyze', (_req, res) => { res.status(201).json({ started: true }); });
+  app.post('/webhook', (_req, res) => { res.json({ received: true }); });
+  return { url, sessions };
+}
+
+function cookiesFrom(res: Response): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const header of res.headers.getSetCookie()) {
+    const [pair] = header.split(';');
+    const index = pair.indexOf('=');
+    cookies[pair.slice(0, index)] = decodeURIComponent(pair.slice(index + 1));
+  }
+  return cookies;
+}
+
+/** Walk the login redirects by hand, as a browser would. */
+async function signIn(url: string): Promise<Record<string, string>> {
+  const login = await fetch(`${url}/auth/login?returnTo=/api/status`, { redirect: 'manual' });
+  expect(login.status).toBe(302);
+  const loginCookie = Object.entries(cookiesFrom(login)).map(([k, v]) => `${k}=${v}`).join('; ');
+
+  const atIdp = await fetch(login.headers.get('location')!, { redirect: 'manual' });
+  const callback = await fetch(atIdp.headers.get('location')!, { redirect: 'manual', headers: { cookie: loginCookie } });
+  expect(callback.status).toBe(302);
+  expect(callback.headers.get('location')).toBe('/api/status');
+  return cookiesFrom(callback);
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await Promise.all(servers.splice(0).map(s => new Promise(resolve => s.close(resolve))));
+});
+
+describe('isUserAllowed', () => {
+  it('matches login or email case-insensitively', () => {
+    const auth = authConfig({ allowedUsers: ['Ada', 'grace@example.com'] });
+    expect(isUserAllowed({ login: 'ada', provider: 'github' }, auth)).toBe(true);
+    expect(isUserAllowed({ login: 'gh', email: 'Grace@example.com', provider: 'oidc' }, auth)).toBe(true);
+    expect(isUserAllowed({ login: 'mallory', provider: 'github' }, auth)).toBe(false);
+    expect(isUserAllowed({ login: 'anyone', provider: 'oidc' }, authConfig())).toBe(true);
+  });
+});
+
+describe('OIDC login', () => {
+  it('signs in through the provider and creates a server-side session', async () => {
+    const idp = await startIdp('ada');
+    const { url } = await startApp(authConfig({ issuer: idp.issuer }));
+
+    const cookies = await signIn(url);
+    expect(cookies[SESSION_COOKIE]).toBeTruthy();
+    expect(cookies[CSRF_COOKIE]).toBeTruthy();
+    // PKCE verifier and client credentials reach the token endpoint
+    expect(idp.tokenRequests[0].code_verifier).toBeTruthy();
+    expect(idp.tokenRequests[0].authorization).toMatch(/^Basic /);
+
+    const headers = { cookie: `${SESSION_COOKIE}=${cookies[SESSION_COOKIE]}` };
+    const me = await fetch(`${url}/api/auth/me`, { headers });
+    expect(await me.json()).toMatchObject({ authEnabled: true, user: { login: 'ada', email: 'ada@example.com', provider: 'oidc' } });
+    expect((await fetch(`${url}/api/status`, { headers })).status).toBe(200);
+  });
+
+  it('refuses users outside AUTH_ALLOWED_USERS', async () => {
+    const idp = await startIdp('mallory');
+    const { url } = await startApp(authConfig({ issuer: idp.issuer, allowedUsers: ['ada'] }));
+
+    const login = await fetch(`${url}/auth/login`, { redirect: 'manual' });
+    const loginCookie = Object.entries(cookiesFrom(login)).map(([k, v]) => `${k}=${v}`).join('; ');
+    const atIdp = await fetch(login.headers.get('location')!, { redirect: 'manual' });
+    const callback = await fetch(atIdp.headers.get('location')!, { redirect: 'manual', headers: { cookie: loginCookie } });
+
+    expect(callback.status).toBe(403);
+    expect(cookiesFrom(callback)[SESSION_COOKIE]).toBeFalsy();
+  });
+
+  it('rejects a callback whose state does not match the login cookie', async () => {
+    const idp = await startIdp('ada');
+    const { url } = await startApp(authConfig({ issuer: idp.issuer }));
+
+    const res = await fetch(`${url}/auth/callback?code=code-1&state=forged`, { redirect: 'manual' });
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects an ID token with the wrong nonce', async () => {
+    const idp = await startIdp('ada');
+    const provider = createOidcLoginProvider(authConfig({ issuer: idp.issuer }));
+    const redirectUri = 'http://localhost/auth/callback';
+    const authorize = await fetch(await provider.authorizationUrl({ redirectUri, state: 's', nonce: 'n1', codeChallenge: 'c' }), { redirect: 'manual' });
+    const code = new URL(authorize.headers.get('location')!).searchParams.get('code')!;
+
+    await expect(provider.completeLogin({ code, redirectUri, nonce: 'n2', codeVerifier: 'v' })).rejects.toThrow('nonce');
+  });
+});
+
+describe('session guard', () => {
+  it('redirects pages to login and answers API calls with 401', async () => {
+    const idp = await startIdp('ada');
+    const { url } = await startApp(authConfig({ issuer: idp.issuer }));
+
+    const page = await fetch(`${url}/`, { redirect: 'manual', headers: { accept: 'text/html' } });
+    expect(page.status).toBe(302);
+    expect(page.headers.get('location')).toBe('/auth/login?returnTo=%2F');
+
+    const api = await fetch(`${url}/api/status`, { headers: { accept: 'text/html' } });
+    expect(api.status).toBe(401);
+    expect(await api.json()).toEqual({ error: 'Authentication required' });
+  });
+
+  it('leaves /webhook and /health to their own checks', async () => {
+    const idp = await startIdp('ada');
+    const { url } = await startApp(authConfig({ issuer: idp.issuer }));
+
+    expect((await fetch(`${url}/webhook`, { method: 'POST' })).status).toBe(200);
+  });
+
+  it('requires the CSRF token on mutating requests', async () => {
+    const idp = await startIdp('ada');
+    const { url } = await startApp(authConfig({ issuer: idp.issuer }));
+    const cookies = await signIn(url);
+    const cookie = `${SESSION_COOKIE}=${cookies[SESSION_COOKIE]}`;
+
+    const missing = await fetch(`${url}/api/processes/analyze`, { method: 'POST', headers: { cookie } });
+    expect(missing.status).toBe(403);
+    const wrong = await fetch(`${url}/api/processes/analyze`, { method: 'POST', headers: { cookie, 'x-csrf-token': 'nope' } });
+    expect(wrong.status).toBe(403);
+    const ok = await fetch(`${url}/api/processes/analyze`, { method: 'POST', headers: { cookie, 'x-csrf-token': cookies[CSRF_COOKIE] } });
+    expect(ok.status).toBe(201);
+  });
+
+  it('reports the role from the access_roles setting', async () => {
+    const idp = await startIdp('ada');
+    const settingsRepository = new InMemorySettingsRepository();
+    settingsRepository.set('access_roles', { users: { ada: { role: 'operator', repos: ['acme/api'] } } });
+    const { url } = await startApp(authConfig({ issuer: idp.issuer }), { settingsRepository });
+    const cookies = await signIn(url);
+
+    const me = await fetch(`${url}/api/auth/me`, { headers: { cookie: `${SESSION_COOKIE}=${cookies[SESSION_COOKIE]}` } });
+    expect(await me.json()).toMatchObject({ role: 'operator', scopes: ['read', 'runs'], repos: ['acme/api'] });
+  });
+
+  it('refuses signed-in users without a role', async () => {
+    const idp = await startIdp('ada');
+    const settingsRepository = new InMemorySettingsRepository();
+    settingsRepository.set('access_roles', { defaultRole: 'none' });
+    const { url } = await startApp(authConfig({ issuer: idp.issuer }), { settingsRepository });
+    const cookies = await signIn(url);
+
+    const res = await fetch(`${url}/api/status`, { headers: { cookie: `${SESSION_COOKIE}=${cookies[SESSION_COOKIE]}` } });
+    expect(res.status).toBe(403);
+    expect((await res.json()).error).toContain('no role');
+  });
+
+  it('ends the session on logout', async () => {
+    const idp = await startIdp('ada');
+    const { url } = await startApp(authConfig({ issuer: idp.issuer }));
+    const cookies = await signIn(url);
+    const cookie = `${SESSION_COOKIE}=${cookies[SESSION_COOKIE]}`;
+
+    const logout = await fetch(`${url}/auth/logout`, { method: 'POST', headers: { cookie, 'x-csrf-token': cookies[CSRF_COOKIE] } });
+    expect(logout.status).toBe(200);
+    expect((await fetch(`${url}/api/status`, { headers: { cookie } })).status).toBe(401);
+  });
+});
+
+describe('GitHub login', () => {
+  function githubFetch(responses: Record<string, unknown>) {
+    return vi.fn(async (input: string | URL | Request) => {
+      const path = new URL(String(input)).pathname;
+      if (!(path in responses)) return new Response('not found', { status: 404 });
+      return Response.json(responses[path]);
+    }) as unknown as typeof fetch;
+  }
+
+  const callback = { code: 'c', redirectUri: 'http://localhost/auth/callback', nonce: 'n', codeVerifier: 'v' };
+
+  it('admits active members of AUTH_GITHUB_ORG', async () => {
+    const provider = createGitHubLoginProvider(authConfig({ provider: 'github', githubOrg: 'acme' }), {
+      fetch: githubFetch({
+        '/login/oauth/access_token': { access_token: 'gho_x' },
+        '/user': { login: 'ada', name: 'Ada', email: null },
+        '/user/memberships/orgs/acme': { state: 'active' },
+      }),
+    });
+    expect(await provider.completeLogin(callback)).toEqual({ login: 'ada', name: 'Ada', email: undefined, provider: 'github' });
+  });
+
+  it('refuses users outside the organization', async () => {
+    const provider = createGitHubLoginProvider(authConfig({ provider: 'github', githubOrg: 'acme' }), {
+      fetch: githubFetch({
+        '/login/oauth/access_token': { access_token: 'gho_x' },
+        '/user': { login: 'mallory' },
+      }),
+    });
+    await expect(provider.completeLogin(callback)).rejects.toThrow('not a member of acme');
+  });
+
+  it('requests read:org only when an organization is configured', async () => {
+    const withOrg = createGitHubLoginProvider(authConfig({ provider: 'github', githubOrg: 'acme' }));
+    const withoutOrg = createGitHubLoginProvider(authConfig({ provider: 'github', allowedUsers: ['ada'] }));
+    const request = { redirectUri: 'http://localhost/auth/callback', state: 's', nonce: 'n', codeChallenge: 'c' };
+
+    expect(new URL(await withOrg.authorizationUrl(request)).searchParams.get('scope')).toContain('read:org');
+    expect(new URL(await withoutOrg.authorizationUrl(request)).searchParams.get('scope')).not.toContain('read:org');
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  BudgetTracker,
+  formatBudgetComment,
+  loadRunBudget,
+  parseBudgetConfig,
+  postBudgetComment,
+  resolveBudget,
+  startBudgetTracker,
+  BUDGET_MARKER,
+} from '../src/budget.js';
+import { UsageService } from '../src/usage-service.js';
+import { StaticRepoRepository } from '../src/repo-repository.js';
+
+const mockIssuesGet = vi.fn();
+const mockCreateComment = vi.fn();
+vi.mock('../src/github-tools.js', () => ({
+  createGitHubClient: vi.fn(() => ({ rest: { issues: { get: mockIssuesGet, createComment: mockCreateComment } } })),
+  getAuthFromConfig: vi.fn(() => 'mock-token'),
+}));
+
+const mockGitLab = { kind: 'gitlab', getIssue: vi.fn(), commentOnIssue: vi.fn() };
+vi.mock('../src/gitlab-provider.js', () => ({
+  GitLabProvider: vi.fn(function () { return mockGitLab; }),
+}));
+
+const config = { github: { owner: 'o', repo: 'r', token: 't' } } as any;
+
+/** Record usage for a process; claude-sonnet-4 costs $3 / $15 per million tokens. */
+function record(usage: UsageService, processId: string, inputTokens: number, outputTokens = 0) {
+  usage.record({ provider: 'anthropic', model: 'claude-sonnet-4-20250514', agent: 'coder', processId, inputTokens, outputTokens, durationMs: 1 });
+}
+
+describe('parseBudgetConfig', () => {
+  it('accepts limits and label budgets', () => {
+    const budget = { maxCostUsd: 2, labels: { 'small-fix': { maxTokens: 1000 } } };
+    expect(parseBudgetConfig(budget)).toEqual(budget);
+    expect(parseBudgetConfig(undefined)).toBeUndefined();
+  });
+
+  it('rejects non-positive limits and malformed labels', () => {
+    expect(() => parseBudgetConfig({ maxCostUsd: 0 })).toThrow('budget.maxCostUsd must be a positive number');
+    expect(() => parseBudgetConfig({ labels: ['x'] })).toThrow('budget.labels must be an object');
+    expect(() => parseBudgetConfig({ labels: { epic: { maxTokens: '1k' } } })).toThrow('budget.labels.epic.maxTokens');
+  });
+});
+
+describe('resolveBudget', () => {
+  it('lets the repo budget override the global one per field', () => {
+    expect(resolveBudget({ maxCostUsd: 2, maxTokens: 1000 }, { maxCostUsd: 5 })).toEqual({ maxCostUsd: 5, maxTokens: 1000 });
+  });
+
+  it('applies the strictest matching label budget', () => {
+    const global = { maxCostUsd: 2, labels: { epic: { maxCostUsd: 10 } } };
+    const repo = { labels: { 'Small-Fix': { maxCostUsd: 0.5, maxTokens: 5000 } } };
+    expect(resolveBudget(global, repo, ['epic'])).toEqual({ maxCostUsd: 10, maxTokens: undefined });
+    expect(resolveBudget(global, repo, ['epic', 'small-fix'])).toEqual({ maxCostUsd: 0.5, maxTokens: 5000 });
+  });
+
+  it('returns undefined when nothing is limited', () => {
+    expect(resolveBudget(undefined, { labels: { epic: { maxCostUsd: 10 } } }, ['bug'])).toBeUndefined();
+  });
+});
+
+describe('loadRunBudget', () => {
+  beforeEach(() => {
+    mockIssuesGet.mockReset().mockResolvedValue({ data: { labels: [{ name: 'small-fix' }, 'bug'] } });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fetches labels only when label budgets exist', async () => {
+    expect(await loadRunBudget({ ...config, budget: { maxTokens: 100 } }, 7)).toEqual({ maxTokens: 100, maxCostUsd: undefined });
+    expect(mockIssuesGet).not.toHaveBeenCalled();
+
+    const labelled = { ...config, budget: { maxCostUsd: 2, labels: { 'small-fix': { maxCostUsd: 0.5 } } } };
+    expect(await loadRunBudget(labelled, 7)).toMatchObject({ maxCostUsd: 0.5 });
+    expect(mockIssuesGet).toHaveBeenCalledWith({ owner: 'o', repo: 'r', issue_number: 7 });
+    expect(await loadRunBudget(labelled, 7, undefined, ['bug'])).toMatchObject({ maxCostUsd: 2 });
+    expect(mockIssuesGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads the repo budget and ignores a malformed one', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const repos = new StaticRepoRepository('o', 'r');
+    vi.spyOn(repos, 'getByOwnerRepo').mockReturnValue({ id: 0, owner: 'o', repo: 'r', isActive: true, addedAt: '', configJson: { budget: { maxTokens: 50 } } });
+    expect(await loadRunBudget(config, 7, repos)).toEqual({ maxTokens: 50, maxCostUsd: undefined });
+
+    vi.spyOn(repos, 'getByOwnerRepo').mockReturnValue({ id: 0, owner: 'o', repo: 'r', isActive: true, addedAt: '', configJson: { budget: { maxTokens: -1 } } });
+    expect(await loadRunBudget({ ...config, budget: { maxCostUsd: 1 } }, 7, repos)).toEqual({ maxCostUsd: 1, maxTokens: undefined });
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Invalid budget config for o/r'));
+  });
+
+  it('reads the labels of GitLab issues from GitLab', async () => {
+    mockGitLab.getIssue.mockResolvedValue({ number: 7, labels: ['small-fix'] });
+    const repos = new StaticRepoRepository('o', 'r');
+    vi.spyOn(repos, 'getByOwnerRepo').mockReturnValue({ id: 0, owner: 'o', repo: 'r', isActive: true, addedAt: '', provider: 'gitlab' });
+    const labelled = { ...config, gitlab: { token: 'glpat' }, budget: { maxCostUsd: 2, labels: { 'small-fix': { maxCostUsd: 0.5 } } } };
+
+    expect(await loadRunBudget(labelled, 7, repos)).toMatchObject({ maxCostUsd: 0.5 });
+    expect(mockGitLab.getIssue).toHaveBeenCalledWith(7);
+    expect(mockIssuesGet).not.toHaveBeenCalled();
+  });
+});
+
+describe('postBudgetComment', () => {
+  beforeEach(() => {
+    mockCreateComment.mockReset().mockResolvedValue({});
+    mockGitLab.commentOnIssue.mockReset().mockResolvedValue({ id: 1, body: '' });
+  });
+
+  it('comments through Octokit on GitHub and through the provider elsewhere', async () => {
+    await postBudgetComment(config, 7, 'over budget');
+    expect(mockCreateComment).toHaveBeenCalledWith({ owner: 'o', repo: 'r', issue_number: 7, body: 'over budget' });
+
+    await postBudgetComment(config, 8, 'over budget', mockGitLab as any);
+    expect(mockGitLab.commentOnIssue).toHaveBeenCalledWith(8, 'over budget');
+    expect(mockCreateComment).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('BudgetTracker', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('aborts once the token limit is crossed, counting only its process', () => {
+    const usage = new UsageService();
+    const tracker = new BudgetTracker(usage, 'p-1', { maxTokens: 1000 });
+
+    record(usage, 'p-1', 600);
+    record(usage, 'other', 5000);
+    expect(tracker.signal.aborted).toBe(false);
+
+    record(usage, 'p-1', 600);
+    expect(tracker.signal.aborted).toBe(true);
+    expect(tracker.status()).toMatchObject({ tokens: 1200, exceeded: '1,200 tokens exceed 1,000' });
+    tracker.dispose();
+  });
+
+  it('aborts on cost and reports every update', () => {
+    const usage = new UsageService();
+    const onUpdate = vi.fn();
+    const tracker = new BudgetTracker(usage, 'p-1', { maxCostUsd: 0.01 }, undefined, onUpdate);
+
+    record(usage, 'p-1', 1000, 1000);
+    expect(tracker.exceeded).toBe(true);
+    expect(tracker.status().exceeded).toBe('cost $0.0180 exceeds $0.01');
+    expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ costUsd: expect.closeTo(0.018) }));
+
+    tracker.dispose();
+    record(usage, 'p-1', 1000);
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows the parent signal without counting as exceeded', () => {
+    const parent = new AbortController();
+    const tracker = new BudgetTracker(new UsageService(), 'p-1', { maxTokens: 10 }, parent.signal);
+
+    parent.abort();
+    expect(tracker.signal.aborted).toBe(true);
+    expect(tracker.exceeded).toBe(false);
+  });
+
+  it('is only started for budgeted, tracked runs', () => {
+    const usageService = new UsageService();
+    expect(startBudgetTracker({ usageService, processId: 'p-1' })).toBeUndefined();
+    expect(startBudgetTracker({ budget: { maxTokens: 10 }, processId: 'p-1' })).toBeUndefined();
+
+    const onBudget = vi.fn();
+    startBudgetTracker({ budget: { maxTokens: 10 }, usageService, processId: 'p-1', onBudget })?.dispose();
+    expect(onBudget).toHaveBeenCalledWith({ maxTokens: 10, costUsd: 0, tokens: 0 });
+  });
+});
+
+describe('formatBudgetComment', () => {
+  it('reports spend, progress and the last output', () => {
+    const body = formatBudgetComment(
+      { maxCostUsd: 0.5, costUsd: 0.5123, tokens: 48210, exceeded: 'cost $0.5123 exceeds $0.5' },
+      { phase: 'coder', prNumbers: [12], summary: 'Implemented the parser' },
+    );
+
+    expect(body.startsWith(BUDGET_MARKER)).toBe(true);
+    expect(body).toContain('its cost $0.5123 exceeds $0.5.');
+    expect(body).toContain('- Spent: $0.5123 / $0.5, 48,210 tokens');
+    expect(body).toContain('- Last phase: coder');
+    expect(body).toContain('- Pull requests so far: #12');
+    expect(body).toContain('Implemented the parser');
+  });
+});
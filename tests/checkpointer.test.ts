@@ -0,0 +1,40 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { emptyCheckpoint } from '@langchain/langgraph';
+import { checkpointEvents, InMemoryCheckpointSaver, latestCheckpointId, runThreadConfig } from '../src/checkpointer.js';
+
+describe('InMemoryCheckpointSaver', () => {
+  const listener = vi.fn();
+
+  afterEach(() => {
+    checkpointEvents.off('checkpoint', listener);
+    listener.mockReset();
+  });
+
+  it('announces top-level checkpoints and finds the latest one', async () => {
+    checkpointEvents.on('checkpoint', listener);
+    const saver = new InMemoryCheckpointSaver();
+    expect(await latestCheckpointId(saver, 'analyze-7-1')).toBeUndefined();
+
+    const first = { ...emptyCheckpoint(), id: '1ef0000a' };
+    const second = { ...emptyCheckpoint(), id: '1ef0000b' };
+    await saver.put({ configurable: { thread_id: 'analyze-7-1', checkpoint_ns: '' } }, first, {} as any);
+    await saver.put({ configurable: { thread_id: 'analyze-7-1', checkpoint_ns: '', checkpoint_id: first.id } }, second, {} as any);
+    // A subagent's checkpoint
+    await saver.put({ configurable: { thread_id: 'analyze-7-1', checkpoint_ns: 'tools:abc' } }, { ...emptyCheckpoint(), id: '1ef0000c' }, {} as any);
+
+    expect(listener.mock.calls.map(([saved]) => saved)).toEqual([
+      { threadId: 'analyze-7-1', checkpointId: '1ef0000a' },
+      { threadId: 'analyze-7-1', checkpointId: '1ef0000b' },
+    ]);
+    expect(await latestCheckpointId(saver, 'analyze-7-1')).toBe('1ef0000b');
+  });
+});
+
+describe('runThreadConfig', () => {
+  it('threads runs by process id when they are checkpointed', () => {
+    const checkpointer = new InMemoryCheckpointSaver();
+    expect(runThreadConfig({ checkpointer, processId: 'review-3-1' })).toEqual({ configurable: { thread_id: 'review-3-1' } });
+    expect(runThreadConfig({ checkpointer })).toEqual({});
+    expect(runThreadConfig({ processId: 'review-3-1' })).toEqual({});
+  });
+});
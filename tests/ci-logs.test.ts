@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { claimCiFix, extractLogFailure, fetchCiFailures, formatCiFailures } from '../src/ci-logs.js';
+import { InMemoryClaimRepository } from '../src/claim-repository.js';
+
+const jobLog = [
+  '2026-10-19T10:00:00.0000000Z ##[group]Run actions/checkout@v4',
+  '2026-10-19T10:00:01.0000000Z Syncing repository: acme/api',
+  '2026-10-19T10:00:02.0000000Z ##[endgroup]',
+  '2026-10-19T10:00:03.0000000Z ##[group]Run pnpm test',
+  '2026-10-19T10:00:03.1000000Z \x1b[36;1mpnpm test\x1b[0m',
+  '2026-10-19T10:00:03.2000000Z shell: /usr/bin/bash -e {0}',
+  '2026-10-19T10:00:03.3000000Z ##[endgroup]',
+  '2026-10-19T10:00:04.0000000Z  \x1b[32m✓\x1b[39m tests/auth.test.ts (3 tests)',
+  '2026-10-19T10:00:05.0000000Z  \x1b[31mFAIL\x1b[39m  tests/login.test.ts > login > rejects a bad password',
+  '2026-10-19T10:00:05.1000000Z AssertionError: expected 200 to be 401',
+  '2026-10-19T10:00:06.0000000Z ##[error]Process completed with exit code 1.',
+  '2026-10-19T10:00:07.0000000Z ##[group]Run actions/upload-artifact@v4',
+  '2026-10-19T10:00:08.0000000Z ##[endgroup]',
+].join('\n');
+
+describe('extractLogFailure', () => {
+  it('keeps the output of the failed step', () => {
+    const failure = extractLogFailure(jobLog);
+    expect(failure.step).toBe('pnpm test');
+    expect(failure.failingTests).toEqual(['tests/login.test.ts > login > rejects a bad password']);
+    expect(failure.excerpt).toBe([
+      ' FAIL  tests/login.test.ts > login > rejects a bad password',
+      'AssertionError: expected 200 to be 401',
+      'Error: Process completed with exit code 1.',
+    ].join('\n'));
+  });
+
+  it('falls back to the whole log without an error marker', () => {
+    const failure = extractLogFailure('compiling\nsrc/a.ts(3,7): error TS2322: Type string is not assignable\n');
+    expect(failure.step).toBeUndefined();
+    expect(failure.excerpt).toBe('src/a.ts(3,7): error TS2322: Type string is not assignable');
+  });
+});
+
+describe('fetchCiFailures', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function mockOctokit(downloadJobLogs: ReturnType<typeof vi.fn>) {
+    return {
+      rest: {
+        checks: {
+          listForRef: vi.fn().mockResolvedValue({
+            data: {
+              check_runs: [
+                { id: 11, name: 'test', status: 'completed', conclusion: 'failure', html_url: 'https://github.com/o/r/runs/11', app: { slug: 'github-actions' }, output: { summary: null, text: null } },
+                { id: 12, name: 'lint', status: 'completed', conclusion: 'success', app: { slug: 'github-actions' }, output: {} },
+                { id: 13, name: 'ci/jenkins', status: 'completed', conclusion: 'timed_out', app: { slug: 'jenkins' }, output: { summary: 'Build timed out', text: '--- FAIL: TestParse (0.00s)' } },
+              ],
+            },
+          }),
+        },
+        actions: { downloadJobLogsForWorkflowRun: downloadJobLogs },
+      },
+    } as any;
+  }
+
+  it('extracts Actions job logs and uses check output for other apps', async () => {
+    const downloadJobLogs = vi.fn().mockResolvedValue({ data: jobLog });
+    const octokit = mockOctokit(downloadJobLogs);
+    const failures = await fetchCiFailures(octokit, 'o', 'r', 'abc123');
+
+    expect(octokit.rest.checks.listForRef).toHaveBeenCalledWith({ owner: 'o', repo: 'r', ref: 'abc123', filter: 'latest', per_page: 100 });
+    expect(downloadJobLogs).toHaveBeenCalledTimes(1);
+    expect(downloadJobLogs).toHaveBeenCalledWith({ owner: 'o', repo: 'r', job_id: 11 });
+    expect(failures).toHaveLength(2);
+    expect(failures[0]).toMatchObject({ name: 'test', step: 'pnpm test', url: 'https://github.com/o/r/runs/11' });
+    expect(failures[1]).toMatchObject({ name: 'ci/jenkins', conclusion: 'timed_out', failingTests: ['TestParse'] });
+  });
+
+  it('keeps the failure when its log cannot be downloaded', async () => {
+    const failures = await fetchCiFailures(mockOctokit(vi.fn().mockRejectedValue(new Error('410 Gone'))), 'o', 'r', 'abc123');
+    expect(failures[0]).toMatchObject({ name: 'test', conclusion: 'failure', failingTests: [] });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Could not download the log of test'));
+  });
+});
+
+describe('formatCiFailures', () => {
+  it('lists each failed job for the coder', () => {
+    const feedback = formatCiFailures(9, 'abcdef123456', [
+      { name: 'test', conclusion: 'failure', step: 'pnpm test', failingTests: ['login > rejects'], excerpt: 'FAIL login', url: 'https://x/1' },
+    ]);
+    expect(feedback).toContain('CI failed on PR #9 (commit abcdef1)');
+    expect(feedback).toContain('### test (failure)\nFailed step: `pnpm test`\nFailing tests:\n- login > rejects\n```\nFAIL login\n```\nLog: https://x/1');
+  });
+});
+
+describe('claimCiFix', () => {
+  const config = { github: { owner: 'o', repo: 'r' } } as any;
+
+  it('claims each commit once and caps the fixes per PR', async () => {
+    const claims = new InMemoryClaimRepository();
+    expect(await claimCiFix(claims, config, 9, 'sha1', 'd1', 2)).toBe('claimed');
+    expect(await claimCiFix(claims, config, 9, 'sha1', 'd2', 2)).toBe('duplicate');
+    expect(await claimCiFix(claims, config, 9, 'sha1', 'd1', 2)).toBe('claimed');
+    expect(await claimCiFix(claims, config, 9, 'sha2', 'd3', 2)).toBe('claimed');
+    expect(await claimCiFix(claims, config, 9, 'sha3', 'd4', 2)).toBe('limit');
+    expect(await claimCiFix(claims, config, 10, 'sha3', 'd4', 2)).toBe('claimed');
+    expect(await claimCiFix(undefined, config, 9, 'sha3', 'd4', 2)).toBe('claimed');
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryClaimRepository } from '../src/claim-repository.js';
+
+describe('InMemoryClaimRepository', () => {
+  it('gives each key to the first delivery and lets it retry', () => {
+    const repo = new InMemoryClaimRepository();
+    expect(repo.claim('review_claims:o/r#7', '500', 'd-1')).toBe('claimed');
+    expect(repo.claim('review_claims:o/r#7', '500', 'd-2')).toBe('duplicate');
+    expect(repo.claim('review_claims:o/r#7', '500', 'd-1')).toBe('claimed');
+    expect(repo.claim('review_claims:o/r#8', '500', 'd-2')).toBe('claimed');
+  });
+
+  it('refuses new keys once the scope holds the limit', () => {
+    const repo = new InMemoryClaimRepository();
+    expect(repo.claim('s', 'a', 'd-1', 2)).toBe('claimed');
+    expect(repo.claim('s', 'b', 'd-2', 2)).toBe('claimed');
+    expect(repo.claim('s', 'c', 'd-3', 2)).toBe('limit');
+    expect(repo.claim('s', 'b', 'd-2', 2)).toBe('claimed');
+    expect(repo.claim('s', 'a', 'd-3', 2)).toBe('duplicate');
+  });
+});
@@ -20,6 +20,8 @@ vi.mock('../src/workspace.js', () => ({
     path: '/tmp/mock-workspace',
     cleanup: vi.fn().mockResolvedValue(undefined),
   }),
+  getWorkspacesRoot: vi.fn(() => '/tmp/mock-workspaces'),
+  getDependencyCacheDir: vi.fn(() => '/tmp/mock-workspaces/deps'),
 }));
 
 // Mock github-tools
@@ -64,6 +66,7 @@ import {
   mapToSdkModel,
   detectPhaseFromToolCalls,
   runClaudeSdkAgent,
+  createCommandPolicyHooks,
 } from '../src/claude-sdk-agent.js';
 import { query } from '@anthropic-ai/claude-agent-sdk';
 
@@ -214,6 +217,37 @@ describe('detectPhaseFromToolCalls', () => {
   });
 });
 
+describe('createCommandPolicyHooks', () => {
+  const hooks = createCommandPolicyHooks({ commandPolicy: { deny: ['npm publish'] } } as any, '/work/repo')!;
+  const run = (tool_name: string, tool_input: unknown) => hooks.PreToolUse![0].hooks[0](
+    { hook_event_name: 'PreToolUse', tool_name, tool_input, tool_use_id: 't1', session_id: 's', transcript_path: '', cwd: '/work/repo' } as any,
+    't1',
+    { signal: new AbortController().signal },
+  );
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('denies Bash commands and writes the policy refuses', async () => {
+    const denied = await run('Bash', { command: 'npm publish --access public' }) as any;
+    expect(denied.hookSpecificOutput).toMatchObject({ hookEventName: 'PreToolUse', permissionDecision: 'deny' });
+    expect(JSON.parse(denied.hookSpecificOutput.permissionDecisionReason)).toMatchObject({ error: 'command_refused', rule: 'npm publish' });
+
+    const write = await run('Write', { file_path: '/work/repo/.github/workflows/ci.yml', content: '' }) as any;
+    expect(write.hookSpecificOutput.permissionDecision).toBe('deny');
+  });
+
+  it('lets everything else through', async () => {
+    expect(await run('Bash', { command: 'npm test' })).toEqual({ continue: true });
+    expect(await run('Edit', { file_path: '/work/repo/src/index.ts' })).toEqual({ continue: true });
+  });
+});
+
 describe('runClaudeSdkAgent', () => {
   const validConfig = {
     github: { owner: 'test-owner', repo: 'test-repo', token: 'ghp_test' },
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  checkCommand,
+  checkFileWrite,
+  formatRefusal,
+  loadCommandPolicy,
+  matchesRule,
+  parseCommandPolicyConfig,
+  resolveCommandPolicy,
+  splitCommand,
+  DEFAULT_COMMAND_POLICY,
+} from '../src/command-policy.js';
+import { StaticRepoRepository } from '../src/repo-repository.js';
+
+const config = { github: { owner: 'o', repo: 'r', token: 't' } } as any;
+const policy = resolveCommandPolicy(undefined, { allow: ['git', 'pnpm test', 'npm run lint', 'cat', 'ls', 'echo'] });
+
+describe('parseCommandPolicyConfig', () => {
+  it('accepts rule lists and rejects anything else', () => {
+    expect(parseCommandPolicyConfig({ allow: ['pnpm test'] })).toEqual({ allow: ['pnpm test'] });
+    expect(parseCommandPolicyConfig(undefined)).toBeUndefined();
+    expect(() => parseCommandPolicyConfig({ deny: 'curl' })).toThrow('commandPolicy.deny must be a list of non-empty strings');
+  });
+});
+
+describe('resolveCommandPolicy', () => {
+  it('adds deny rules and protected paths, and takes the most specific allow list', () => {
+    const resolved = resolveCommandPolicy({ allow: ['make'], deny: ['docker'] }, { allow: ['pnpm test'], protectedPaths: ['infra/**'] });
+    expect(resolved.allow).toEqual(['pnpm test']);
+    expect(resolved.deny).toEqual([...DEFAULT_COMMAND_POLICY.deny, 'docker']);
+    expect(resolved.protectedPaths).toEqual(['.github/workflows/**', 'infra/**']);
+  });
+
+  it('reads the repo policy and ignores a malformed one', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const repos = new StaticRepoRepository('o', 'r');
+    vi.spyOn(repos, 'getByOwnerRepo').mockReturnValue({ id: 0, owner: 'o', repo: 'r', isActive: true, addedAt: '', configJson: { commandPolicy: { allow: ['make test'] } } });
+    expect((await loadCommandPolicy(config, repos)).allow).toEqual(['make test']);
+
+    vi.spyOn(repos, 'getByOwnerRepo').mockReturnValue({ id: 0, owner: 'o', repo: 'r', isActive: true, addedAt: '', configJson: { commandPolicy: { allow: 'make' } } });
+    expect((await loadCommandPolicy(config, repos)).allow).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Invalid command policy for o/r'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+});
+
+describe('splitCommand', () => {
+  it('splits compound commands and substitutions, honouring quotes', () => {
+    expect(splitCommand(`git commit -m "a && b" && echo $(whoami) | tee out.txt 2>&1 >> log.txt`)).toEqual([
+      { words: ['git', 'commit', '-m', 'a && b'], redirects: [] },
+      { words: ['whoami'], redirects: [] },
+      { words: ['echo', '$(...)'], redirects: [] },
+      { words: ['tee', 'out.txt'], redirects: ['log.txt'] },
+    ]);
+  });
+});
+
+describe('matchesRule', () => {
+  it('matches a prefix with later words in order and wildcards', () => {
+    expect(matchesRule('npm run lint', ['npm', 'run', 'lint', '--', '--fix'])).toBe(true);
+    expect(matchesRule('git push --force*', ['git', 'push', 'origin', 'main', '--force-with-lease'])).toBe(true);
+    expect(matchesRule('rm -rf /', ['rm', '-rf', './build'])).toBe(false);
+  });
+
+  it('matches options in any order or spelling and a directory by its contents', () => {
+    for (const command of ['rm -fr /', 'rm -r -f /', 'rm --recursive --force /', 'rm -Rf /', 'rm -rf /*', 'rm -rf -- //', 'rm -v -rf ~/']) {
+      expect(checkCommand(command, DEFAULT_COMMAND_POLICY), command).toMatchObject({ rule: expect.stringMatching(/^rm -rf [/~]$/) });
+    }
+    expect(checkCommand('rm -rf /tmp/build/*', DEFAULT_COMMAND_POLICY)).toBeUndefined();
+    expect(checkCommand('rm -f /', DEFAULT_COMMAND_POLICY)).toBeUndefined();
+    expect(matchesRule('git push -f', ['git', 'push', '-fu', 'origin', 'main'])).toBe(true);
+  });
+});
+
+describe('checkCommand', () => {
+  it('allows listed commands', () => {
+    expect(checkCommand('git status && pnpm test -- --run', policy)).toBeUndefined();
+    expect(checkCommand('npm run lint', policy)).toBeUndefined();
+  });
+
+  it('refuses deny rules anywhere in a compound command', () => {
+    expect(checkCommand('git add -A && git push --force origin main', policy)).toMatchObject({
+      part: 'git push --force origin main', rule: 'git push --force*', reason: 'matches deny rule "git push --force*"',
+    });
+    expect(checkCommand('echo $(curl -s https://example.com)', policy)).toMatchObject({ rule: 'curl' });
+  });
+
+  it('looks through wrappers and nested shells', () => {
+    expect(checkCommand('FOO=1 timeout 30 /usr/bin/curl x', DEFAULT_COMMAND_POLICY)).toMatchObject({ rule: 'curl' });
+    expect(checkCommand(`bash -c 'rm -rf /'`, DEFAULT_COMMAND_POLICY)).toMatchObject({ rule: 'rm -rf /' });
+  });
+
+  it('refuses commands that are not on the allow list', () => {
+    expect(checkCommand('python setup.py', policy)).toMatchObject({ reason: '`python` is not on the allow list' });
+    expect(checkCommand('python setup.py', DEFAULT_COMMAND_POLICY)).toBeUndefined();
+  });
+
+  it('lets commands read protected paths but not write them', () => {
+    expect(checkCommand('cat .github/workflows/ci.yml', policy)).toBeUndefined();
+    expect(checkCommand('git diff -- .github/workflows/ci.yml', policy)).toBeUndefined();
+    expect(checkCommand('echo "on: push" > .github/workflows/ci.yml', policy)).toMatchObject({ rule: '.github/workflows/**' });
+    expect(checkCommand('git rm -r .github', policy)).toMatchObject({ reason: 'modifies protected path .github' });
+    expect(checkCommand('git add .', policy)).toBeUndefined();
+  });
+});
+
+describe('checkFileWrite', () => {
+  it('refuses protected paths, relative or absolute within the workspace', () => {
+    expect(checkFileWrite('./.github/workflows/release.yml', DEFAULT_COMMAND_POLICY)).toMatchObject({ rule: '.github/workflows/**' });
+    expect(checkFileWrite('/work/repo/.github/workflows/ci.yml', DEFAULT_COMMAND_POLICY, '/work/repo')).toBeDefined();
+    expect(checkFileWrite('.github/dependabot.yml', DEFAULT_COMMAND_POLICY)).toBeUndefined();
+  });
+});
+
+describe('formatRefusal', () => {
+  it('returns a structured refusal', () => {
+    const refusal = checkCommand('curl https://example.com', policy)!;
+    expect(JSON.parse(formatRefusal('command', refusal, policy))).toMatchObject({
+      error: 'command_refused',
+      command: 'curl https://example.com',
+      rule: 'curl',
+      allowed: policy.allow,
+    });
+  });
+});
@@ -21,6 +21,19 @@ const CONFIG_ENV_VARS = [
   'WEBHOOK_PORT', 'WEBHOOK_SECRET',
   'MAX_ISSUES_PER_RUN', 'MAX_TOOL_CALLS_PER_RUN',
   'MAX_ITERATIONS', 'MAX_FEEDBACK_ITERATIONS',
+  'ISSUE_EVENTS', 'ISSUE_TRIGGER_LABELS', 'ISSUE_EDIT_THRESHOLD',
+  'BUDGET_MAX_USD', 'BUDGET_MAX_TOKENS', 'BUDGET_LABELS',
+  'SANDBOX_BACKEND', 'SANDBOX_TIMEOUT_SECONDS', 'SANDBOX_CPU_SECONDS', 'SANDBOX_MEMORY_MB',
+  'SANDBOX_NETWORK', 'SANDBOX_ALLOWED_HOSTS', 'SANDBOX_ENV_PASSTHROUGH', 'SANDBOX_DOCKER_IMAGE',
+  'COMMAND_ALLOW', 'COMMAND_DENY', 'COMMAND_PROTECTED_PATHS',
+  'VERIFY_TYPECHECK_COMMAND', 'VERIFY_LINT_COMMAND', 'VERIFY_TEST_COMMAND', 'VERIFY_ON_FAILURE', 'VERIFY_MAX_ATTEMPTS', 'VERIFY_TIMEOUT_SECONDS',
+  'APPROVAL_REQUIRED', 'APPROVAL_TIMEOUT_HOURS',
+  'CI_FIX_MAX_ATTEMPTS',
+  'SCM_PROVIDER', 'GITLAB_TOKEN', 'GITLAB_HOST', 'GITLAB_WEBHOOK_SECRET',
+  'GITHUB_HOST', 'GITHUB_API_URL', 'GITHUB_CA_BUNDLE',
+  'WORKSPACE_MAX_MB', 'WORKSPACES_MAX_TOTAL_MB', 'WORKSPACE_SWEEP_MINUTES',
+  'AUTH_PROVIDER', 'AUTH_CLIENT_ID', 'AUTH_CLIENT_SECRET', 'AUTH_OIDC_ISSUER', 'AUTH_BASE_URL',
+  'AUTH_ALLOWED_USERS', 'AUTH_GITHUB_ORG', 'AUTH_SESSION_TTL_HOURS', 'AUTH_ADMINS',
 ];
 
 /** Set the minimum required env vars for a valid config */
@@ -342,12 +355,25 @@ describe('loadConfig', () => {
     );
   });
 
-  it('exits when partial App env vars provided (appId + privateKeyPath but no installationId)', () => {
+  it('accepts App env vars without an installationId (looked up per repo)', () => {
     setValidEnv();
     delete process.env.GITHUB_TOKEN;
     process.env.GITHUB_APP_ID = '12345';
     process.env.GITHUB_APP_PEM_PATH = '/tmp/key.pem';
 
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+
+    const config = loadConfig();
+    expect(config.github.appId).toBe(12345);
+    expect(config.github.installationId).toBeUndefined();
+  });
+
+  it('exits when partial App env vars provided (installationId but no privateKeyPath)', () => {
+    setValidEnv();
+    delete process.env.GITHUB_TOKEN;
+    process.env.GITHUB_APP_ID = '12345';
+    process.env.GITHUB_APP_INSTALLATION_ID = '67890';
+
     expect(() => loadConfig()).toThrow('process.exit');
     expect(console.error).toHaveBeenCalledWith(
       expect.stringContaining('Incomplete GitHub App config')
@@ -399,6 +425,246 @@ describe('loadConfig', () => {
     expect(config.maxToolCallsPerRun).toBeUndefined();
   });
 
+  // ── issue events ────────────────────────────────────────────────────────────
+
+  it('defaults issue events to opened only', () => {
+    setValidEnv();
+
+    const config = loadConfig();
+    expect(config.issueEvents).toEqual({ actions: ['opened'], triggerLabels: ['ai-fix'], editThreshold: 0.3 });
+  });
+
+  it('reads ISSUE_EVENTS, ISSUE_TRIGGER_LABELS and ISSUE_EDIT_THRESHOLD', () => {
+    setValidEnv();
+    process.env.ISSUE_EVENTS = 'opened, labeled,closed';
+    process.env.ISSUE_TRIGGER_LABELS = 'ai-fix,bot';
+    process.env.ISSUE_EDIT_THRESHOLD = '0.5';
+
+    const config = loadConfig();
+    expect(config.issueEvents).toEqual({ actions: ['opened', 'labeled', 'closed'], triggerLabels: ['ai-fix', 'bot'], editThreshold: 0.5 });
+  });
+
+  it('exits on an unknown ISSUE_EVENTS action', () => {
+    setValidEnv();
+    process.env.ISSUE_EVENTS = 'opened,assigned';
+
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('assigned'));
+  });
+
+  it('exits when ISSUE_EDIT_THRESHOLD is out of range', () => {
+    setValidEnv();
+    process.env.ISSUE_EDIT_THRESHOLD = '2';
+
+    expect(() => loadConfig()).toThrow('process.exit');
+  });
+
+  // ── budgets ─────────────────────────────────────────────────────────────────
+
+  it('has no budget by default', () => {
+    setValidEnv();
+
+    expect(loadConfig().budget).toBeUndefined();
+  });
+
+  it('reads BUDGET_MAX_USD, BUDGET_MAX_TOKENS and BUDGET_LABELS', () => {
+    setValidEnv();
+    process.env.BUDGET_MAX_USD = '2.5';
+    process.env.BUDGET_MAX_TOKENS = '500000';
+    process.env.BUDGET_LABELS = '{"small-fix":{"maxCostUsd":0.5}}';
+
+    expect(loadConfig().budget).toEqual({ maxCostUsd: 2.5, maxTokens: 500000, labels: { 'small-fix': { maxCostUsd: 0.5 } } });
+  });
+
+  it('exits on an invalid budget', () => {
+    setValidEnv();
+    process.env.BUDGET_MAX_USD = '-1';
+    expect(() => loadConfig()).toThrow('process.exit');
+
+    delete process.env.BUDGET_MAX_USD;
+    process.env.BUDGET_LABELS = '{"small-fix":0.5}';
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('BUDGET_LABELS'));
+  });
+
+  it('reads only the SANDBOX_* vars that are set', () => {
+    setValidEnv();
+    expect(loadConfig().sandbox).toBeUndefined();
+
+    process.env.SANDBOX_BACKEND = 'bwrap';
+    process.env.SANDBOX_NETWORK = 'none';
+    process.env.SANDBOX_MEMORY_MB = '2048';
+    process.env.SANDBOX_ALLOWED_HOSTS = 'github.com, .npmjs.org';
+    expect(loadConfig().sandbox).toEqual({ backend: 'bwrap', network: 'none', memoryMb: 2048, allowedHosts: ['github.com', '.npmjs.org'] });
+  });
+
+  it('exits when bwrap or docker would run on the network allowlist', () => {
+    setValidEnv();
+    process.env.SANDBOX_BACKEND = 'docker';
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("SANDBOX_BACKEND=docker can't enforce the network allowlist"));
+
+    process.env.SANDBOX_NETWORK = 'open';
+    expect(loadConfig().sandbox).toMatchObject({ backend: 'docker', network: 'open' });
+  });
+
+  it('exits on an unknown sandbox backend or network mode', () => {
+    setValidEnv();
+    process.env.SANDBOX_BACKEND = 'firejail';
+    expect(() => loadConfig()).toThrow('process.exit');
+
+    delete process.env.SANDBOX_BACKEND;
+    process.env.SANDBOX_NETWORK = 'some';
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('SANDBOX_NETWORK'));
+  });
+
+  it('reads workspace quotas', () => {
+    setValidEnv();
+    expect(loadConfig().workspaces).toEqual({ maxWorkspaceMb: undefined, maxTotalMb: undefined, sweepIntervalMinutes: 10 });
+
+    process.env.WORKSPACE_MAX_MB = '2048';
+    process.env.WORKSPACES_MAX_TOTAL_MB = '20480';
+    expect(loadConfig().workspaces).toEqual({ maxWorkspaceMb: 2048, maxTotalMb: 20480, sweepIntervalMinutes: 10 });
+
+    process.env.WORKSPACE_SWEEP_MINUTES = '0';
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('WORKSPACE_SWEEP_MINUTES'));
+  });
+
+  it('reads the command policy lists', () => {
+    setValidEnv();
+    expect(loadConfig().commandPolicy).toBeUndefined();
+
+    process.env.COMMAND_ALLOW = 'git, pnpm test';
+    process.env.COMMAND_PROTECTED_PATHS = 'infra/**';
+    expect(loadConfig().commandPolicy).toEqual({ allow: ['git', 'pnpm test'], protectedPaths: ['infra/**'] });
+  });
+
+  it('reads the verification gate and exits on an unknown failure mode', () => {
+    setValidEnv();
+    expect(loadConfig().verification).toBeUndefined();
+
+    process.env.VERIFY_TEST_COMMAND = 'pnpm test';
+    process.env.VERIFY_MAX_ATTEMPTS = '2';
+    expect(loadConfig().verification).toEqual({ test: 'pnpm test', maxAttempts: 2 });
+
+    process.env.VERIFY_ON_FAILURE = 'ignore';
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('VERIFY_ON_FAILURE must be one of: block, warn'));
+  });
+
+  it('reads the plan approval gate and exits on a bad timeout', () => {
+    setValidEnv();
+    expect(loadConfig().approval).toBeUndefined();
+
+    process.env.APPROVAL_REQUIRED = 'true';
+    process.env.APPROVAL_TIMEOUT_HOURS = '24';
+    expect(loadConfig().approval).toEqual({ required: true, timeoutHours: 24 });
+
+    process.env.APPROVAL_TIMEOUT_HOURS = '0';
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('APPROVAL_TIMEOUT_HOURS must be a positive integer'));
+  });
+
+  it('reads the CI fix limit and exits when it is negative', () => {
+    setValidEnv();
+    expect(loadConfig().ciFix).toEqual({ maxAttempts: 3 });
+
+    process.env.CI_FIX_MAX_ATTEMPTS = '0';
+    expect(loadConfig().ciFix.maxAttempts).toBe(0);
+
+    process.env.CI_FIX_MAX_ATTEMPTS = '-1';
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('CI_FIX_MAX_ATTEMPTS must be a non-negative integer'));
+  });
+
+  it('reads the SCM provider and GitLab settings', () => {
+    setValidEnv();
+    expect(loadConfig().scm).toEqual({ provider: 'github' });
+    expect(loadConfig().gitlab).toEqual({ token: undefined, host: 'gitlab.com', webhookSecret: undefined });
+
+    delete process.env.GITHUB_TOKEN;
+    process.env.SCM_PROVIDER = 'gitlab';
+    process.env.GITLAB_HOST = 'gitlab.example.com';
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('SCM_PROVIDER=gitlab requires GITLAB_TOKEN'));
+
+    // GitLab repos don't need GitHub auth
+    process.env.GITLAB_TOKEN = 'glpat-test';
+    const config = loadConfig();
+    expect(config.scm.provider).toBe('gitlab');
+    expect(config.gitlab).toMatchObject({ token: 'glpat-test', host: 'gitlab.example.com' });
+
+    process.env.SCM_PROVIDER = 'bitbucket';
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('SCM_PROVIDER must be one of: github, gitlab'));
+  });
+
+  it('reads GitHub Enterprise Server settings', () => {
+    setValidEnv();
+    expect(loadConfig().github).toMatchObject({ host: undefined, apiUrl: undefined, caBundlePath: undefined });
+
+    process.env.GITHUB_HOST = 'ghe.example.com';
+    process.env.GITHUB_API_URL = 'https://ghe.example.com/api/v3';
+    expect(loadConfig().github).toMatchObject({ host: 'ghe.example.com', apiUrl: 'https://ghe.example.com/api/v3' });
+
+    process.env.GITHUB_API_URL = 'ghe.example.com/api/v3';
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('GITHUB_API_URL must be an http(s) URL'));
+
+    delete process.env.GITHUB_API_URL;
+    process.env.GITHUB_CA_BUNDLE = '/nonexistent/ca.pem';
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('GITHUB_CA_BUNDLE file not found: /nonexistent/ca.pem'));
+  });
+
+  it('reads dashboard login settings', () => {
+    setValidEnv();
+    expect(loadConfig().auth).toBeUndefined();
+
+    process.env.AUTH_PROVIDER = 'oidc';
+    process.env.AUTH_CLIENT_ID = 'deepagents';
+    process.env.AUTH_CLIENT_SECRET = 'secret';
+    process.env.AUTH_OIDC_ISSUER = 'http://127.0.0.1:5556/dex';
+    process.env.AUTH_BASE_URL = 'https://agents.example.com/';
+    expect(loadConfig().auth).toEqual({
+      provider: 'oidc',
+      clientId: 'deepagents',
+      clientSecret: 'secret',
+      issuer: 'http://127.0.0.1:5556/dex',
+      baseUrl: 'https://agents.example.com',
+      allowedUsers: [],
+      githubOrg: undefined,
+      sessionTtlHours: 24,
+      admins: [],
+    });
+
+    process.env.AUTH_ADMINS = 'ada, grace@example.com';
+    expect(loadConfig().auth.admins).toEqual(['ada', 'grace@example.com']);
+  });
+
+  it('rejects incomplete dashboard login settings', () => {
+    setValidEnv();
+    process.env.AUTH_PROVIDER = 'oidc';
+    process.env.AUTH_CLIENT_ID = 'deepagents';
+    process.env.AUTH_CLIENT_SECRET = 'secret';
+    process.env.AUTH_BASE_URL = 'https://agents.example.com';
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('AUTH_OIDC_ISSUER'));
+
+    // GitHub login must be restricted to some users or an org
+    process.env.AUTH_PROVIDER = 'github';
+    expect(() => loadConfig()).toThrow('process.exit');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('AUTH_GITHUB_ORG'));
+
+    process.env.AUTH_GITHUB_ORG = 'acme';
+    expect(loadConfig().auth.githubOrg).toBe('acme');
+
+    process.env.AUTH_PROVIDER = 'saml';
+    expect(() => loadConfig()).toThrow('process.exit');
+  });
+
   // ── localhost-https warnings ────────────────────────────────────────────────
 
   it('warns on https://localhost baseUrl', () => {
@@ -12,9 +12,14 @@ import {
   resetShutdown,
   deduplicateIssueHierarchy,
   findAllPrsForIssue,
+  parsePollConfig,
+  runPollCycle,
 } from '../src/core.js';
 import type { IssueActions, PollState, IssueData } from '../src/core.js';
 import { createGitHubClient } from '../src/github-tools.js';
+import { runArchitect } from '../src/architect.js';
+import type { PollRepository } from '../src/poll-repository.js';
+import type { RepoRecord, RepoRepository } from '../src/repo-repository.js';
 
 vi.mock('../src/github-tools.js', async (importOriginal) => {
   const actual = await importOriginal<typeof import('../src/github-tools.js')>();
@@ -549,3 +554,110 @@ describe('findAllPrsForIssue', () => {
     expect(result[0]).toEqual({ prNumber: 15, branch: 'issue-7-fix' });
   });
 });
+
+// ── runPollCycle ──────────────────────────────────────────────────────────────
+
+describe('parsePollConfig', () => {
+  it('reads maxIssuesPerRun and concurrency', () => {
+    expect(parsePollConfig(undefined)).toEqual({});
+    expect(parsePollConfig({ maxIssuesPerRun: 10, concurrency: 2, budget: {} })).toEqual({ maxIssuesPerRun: 10, concurrency: 2 });
+  });
+
+  it('rejects values that are not positive integers', () => {
+    expect(() => parsePollConfig({ maxIssuesPerRun: 0 })).toThrow('maxIssuesPerRun must be a positive integer');
+    expect(() => parsePollConfig({ concurrency: 1.5 })).toThrow('concurrency must be a positive integer');
+  });
+});
+
+describe('runPollCycle', () => {
+  const config = { github: { owner: 'acme', repo: 'api', token: 't' } } as any;
+  let listForRepo: ReturnType<typeof vi.fn>;
+  let states: Map<number, PollState>;
+  let pollRepository: PollRepository;
+
+  function repoRepository(records: RepoRecord[]): RepoRepository {
+    return {
+      getById: (id) => records.find(r => r.id === id),
+      getByOwnerRepo: (owner, repo) => records.find(r => r.owner === owner && r.repo === repo),
+      ensureRepo: () => records[0],
+      list: () => records,
+      create: () => records[0],
+      update: () => undefined,
+      deactivate: () => false,
+    };
+  }
+
+  const record = (id: number, owner: string, repo: string, configJson?: Record<string, unknown>): RepoRecord =>
+    ({ id, owner, repo, isActive: true, addedAt: '2026-10-01T00:00:00Z', configJson });
+
+  const issue = (number: number) => ({ number, title: `Issue ${number}`, body: '', labels: [], id: number * 100 });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    states = new Map();
+    pollRepository = {
+      load: (repoId) => states.get(repoId) ?? null,
+      save: (repoId, state) => { states.set(repoId, state); },
+      getIssueActions: () => undefined,
+      setIssueActions: () => {},
+      deleteIssueActions: () => {},
+    };
+    listForRepo = vi.fn(async ({ owner }: { owner: string }) => ({ data: owner === 'acme' ? [issue(1), issue(2)] : [issue(7)] }));
+    vi.mocked(createGitHubClient).mockReturnValue({
+      rest: { issues: { listForRepo } },
+      request: vi.fn(async (route: string) => {
+        if (route.endsWith('/parent')) throw Object.assign(new Error('Not Found'), { status: 404 });
+        return { data: [] };
+      }),
+    } as any);
+    vi.mocked(runArchitect).mockReset().mockResolvedValue({ issueNumber: 0, prNumber: null, prNumbers: [], outcome: 'done' } as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('polls every active repo with its own poll state', async () => {
+    states.set(2, { lastPollTimestamp: '2026-10-18T00:00:00Z', lastPollIssueNumbers: [7], issues: {} });
+    const repos = repoRepository([record(1, 'acme', 'api'), record(2, 'globex', 'web')]);
+
+    await runPollCycle(config, { pollRepository, repoRepository: repos });
+
+    expect(listForRepo).toHaveBeenCalledWith(expect.objectContaining({ owner: 'acme', repo: 'api' }));
+    expect(listForRepo).toHaveBeenCalledWith(expect.objectContaining({ owner: 'globex', repo: 'web', since: '2026-10-18T00:00:00Z' }));
+    expect(vi.mocked(runArchitect).mock.calls.map(c => [c[0].github.repo, c[1], c[2]?.repoId])).toEqual([['api', 1, 1], ['api', 2, 1]]);
+    expect(states.get(1)?.lastPollIssueNumbers).toEqual([1, 2]);
+    expect(states.get(2)?.lastPollIssueNumbers).toEqual([7]);
+  });
+
+  it('applies each repo\'s maxIssuesPerRun and concurrency', async () => {
+    const repos = repoRepository([record(1, 'acme', 'api', { maxIssuesPerRun: 2, concurrency: 2 }), record(2, 'globex', 'web')]);
+    let running = 0;
+    let peak = 0;
+    vi.mocked(runArchitect).mockImplementation(async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return { issueNumber: 0, prNumber: null, prNumbers: [], outcome: 'done' } as any;
+    });
+
+    await runPollCycle({ ...config, maxIssuesPerRun: 4 }, { pollRepository, repoRepository: repos });
+
+    expect(listForRepo.mock.calls.map(c => [c[0].owner, c[0].per_page])).toEqual([['acme', 2], ['globex', 4]]);
+    expect(peak).toBe(2);
+    expect(runArchitect).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps polling the other repos when one fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    listForRepo.mockImplementation(async ({ owner }: { owner: string }) => {
+      if (owner === 'acme') throw new Error('boom');
+      return { data: [issue(7)] };
+    });
+    const repos = repoRepository([record(1, 'acme', 'api'), record(2, 'globex', 'web')]);
+
+    await expect(runPollCycle(config, { pollRepository, repoRepository: repos })).rejects.toThrow('Poll failed for acme/api');
+    expect(states.has(1)).toBe(false);
+    expect(states.get(2)?.lastPollIssueNumbers).toEqual([7]);
+  });
+});
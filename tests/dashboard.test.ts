@@ -1,11 +1,21 @@
 import { createHmac } from 'crypto';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createDashboardApp, createUnifiedApp } from '../src/dashboard.js';
+import { createDashboardApp, createUnifiedApp, ANALYZE_JOB } from '../src/dashboard.js';
 import type express from 'express';
 import type { ProcessManager } from '../src/process-manager.js';
 import type { UsageService } from '../src/usage-service.js';
-import type { RepoRecord, RepoRepository } from '../src/repo-repository.js';
+import type { RepoRecord, RepoRepository, RepoScm } from '../src/repo-repository.js';
 import { InMemoryPricingRepository } from '../src/pricing-repository.js';
+import { InMemorySettingsRepository } from '../src/settings-repository.js';
+import { StaticRepoRepository } from '../src/repo-repository.js';
+import { InMemoryApiKeyRepository } from '../src/api-key-repository.js';
+import { generateApiKey } from '../src/access.js';
+import type { JobQueue } from '../src/job-queue.js';
+import { WorkspaceManager, getWorkspaceManager, setWorkspaceManager } from '../src/workspace-manager.js';
+import { runArchitect } from '../src/architect.js';
+import { createGitHubClient } from '../src/github-tools.js';
+import { ApprovalGate } from '../src/approval.js';
+import { InMemoryProcessRepository } from '../src/process-repository.js';
 
 // Mock dependencies so no real agents or GitHub calls happen
 vi.mock('../src/architect.js', () => ({
@@ -23,7 +33,25 @@ vi.mock('../src/chat-agent.js', () => ({
   }),
 }));
 
-vi.mock('../src/core.js', () => ({
+vi.mock('../src/github-app.js', () => ({
+  listAppInstallations: vi.fn().mockResolvedValue([
+    { id: 11, account: 'acme', accountType: 'Organization', repositorySelection: 'all', htmlUrl: 'https://github.com/organizations/acme/settings/installations/11', suspended: false },
+  ]),
+  findRepoInstallation: vi.fn(async (_request: unknown, owner: string) => {
+    if (owner === 'acme') return 11;
+    throw new Error(`The GitHub App is not installed on ${owner}/web`);
+  }),
+}));
+
+vi.mock('../src/github-tools.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/github-tools.js')>()),
+  createGitHubAppClient: vi.fn(() => ({ request: vi.fn() })),
+  createGitHubClient: vi.fn((await importOriginal<typeof import('../src/github-tools.js')>()).createGitHubClient),
+}));
+
+vi.mock('../src/core.js', async (importOriginal) => ({
+  parsePollConfig: (await importOriginal<typeof import('../src/core.js')>()).parsePollConfig,
+  runPollCycle: vi.fn().mockResolvedValue(undefined),
   loadPollState: vi.fn().mockReturnValue({
     lastPollTimestamp: '2024-01-01T00:00:00.000Z',
     lastPollIssueNumbers: [1, 2],
@@ -40,13 +68,13 @@ const mockConfig = {
 } as any;
 
 // Simple inject helper — creates a minimal request/response for Express
-function inject(app: express.Express, method: string, path: string, body?: any): Promise<{ status: number; body: any; headers: Record<string, string> }> {
+function inject(app: express.Express, method: string, path: string, body?: any, headers: Record<string, string> = {}): Promise<{ status: number; body: any; headers: Record<string, string> }> {
   return new Promise((resolve) => {
     // Use the app's handle method directly
     const req: any = {
       method: method.toUpperCase(),
       url: path,
-      headers: { 'content-type': 'application/json' },
+      headers: { 'content-type': 'application/json', ...headers },
       query: Object.fromEntries(new URL(path, 'http://localhost').searchParams),
       params: {},
       body: body || {},
@@ -230,6 +258,63 @@ describe('Dashboard API', () => {
     });
   });
 
+  describe('GET /api/jobs', () => {
+    it('lists queued jobs', async () => {
+      const result = createDashboardApp(mockConfig);
+      await result.jobQueue.enqueue('webhook', 'o/r', { event: 'issues' });
+      const res = await inject(result.app, 'GET', '/api/jobs?status=queued');
+      expect(res.status).toBe(200);
+      expect(res.body).toHaveLength(1);
+      expect(res.body[0].repoKey).toBe('o/r');
+    });
+
+    it('returns 400 for an invalid status filter', async () => {
+      const res = await inject(app, 'GET', '/api/jobs?status=bogus');
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/webhook-deliveries', () => {
+    it('returns 400 for an invalid status filter', async () => {
+      const res = await inject(app, 'GET', '/api/webhook-deliveries?status=bogus');
+      expect(res.status).toBe(400);
+    });
+
+    it('returns 404 for an unknown delivery', async () => {
+      const res = await inject(app, 'GET', '/api/webhook-deliveries/unknown-id');
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/workspaces', () => {
+    it('returns workspace usage and quotas from the workspace manager', async () => {
+      const previous = getWorkspaceManager();
+      const manager = new WorkspaceManager({ root: '/nonexistent/.workspaces', quota: { maxTotalMb: 1024 } });
+      setWorkspaceManager(manager);
+      try {
+        const res = await inject(app, 'GET', '/api/workspaces');
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({ workspaces: [], totalBytes: 0, quota: { maxTotalMb: 1024 } });
+      } finally {
+        setWorkspaceManager(previous);
+      }
+    });
+  });
+
+  describe('POST /api/jobs/:id/retry', () => {
+    it('returns 404 for a job that is not dead-lettered', async () => {
+      const result = createDashboardApp(mockConfig);
+      const job = await result.jobQueue.enqueue('webhook', 'o/r', {});
+      const res = await inject(result.app, 'POST', `/api/jobs/${job.id}/retry`);
+      expect(res.status).toBe(404);
+    });
+
+    it('returns 400 for a non-numeric id', async () => {
+      const res = await inject(app, 'POST', '/api/jobs/abc/retry');
+      expect(res.status).toBe(400);
+    });
+  });
+
   describe('DELETE /api/processes/:id', () => {
     it('cancels a running process', async () => {
       const proc = processManager.startAnalysis(42);
@@ -244,6 +329,112 @@ describe('Dashboard API', () => {
     });
   });
 
+  describe('POST /api/processes/:id/approve and /reject', () => {
+    /** Start an analysis whose run waits on a real approval gate. */
+    async function awaitingApproval() {
+      // Keyed to this process: runs left over from earlier tests may still be starting
+      let id = '';
+      vi.mocked(runArchitect).mockImplementation(async (config, issueNumber, options) => {
+        if (options?.processId !== id) return new Promise<never>(() => {});
+        const gate = new ApprovalGate({
+          config, issueNumber, policy: { required: true, timeoutHours: 1 },
+          signal: options?.signal, onPending: options?.onApproval,
+          scm: { kind: 'gitlab', commentOnIssue: vi.fn().mockResolvedValue({ id: 1, body: '' }) } as any,
+        });
+        const first = await gate.request('1. Add a cache');
+        const second = first.approved ? first : await gate.request('2. Add a smaller cache');
+        return { issueNumber, prNumber: null, prNumbers: [], outcome: `${first.reason ?? 'approved'} / approved by ${second.by}` };
+      });
+      const proc = processManager.startAnalysis(42);
+      id = proc.id;
+      await vi.waitFor(async () => expect((await processManager.getProcess(proc.id))?.status).toBe('awaiting_approval'));
+      return proc;
+    }
+
+    it('rejects with feedback, then approves the revised plan', async () => {
+      const proc = await awaitingApproval();
+      expect((await inject(app, 'GET', `/api/processes/${proc.id}`)).body.approval).toMatchObject({ plan: '1. Add a cache' });
+
+      expect((await inject(app, 'POST', `/api/processes/${proc.id}/reject`, {})).status).toBe(400);
+      expect((await inject(app, 'POST', `/api/processes/${proc.id}/reject`, { reason: 'Too big' })).body).toEqual({ approved: false });
+      await vi.waitFor(async () => expect((await processManager.getProcess(proc.id))?.approval?.plan).toBe('2. Add a smaller cache'));
+
+      expect((await inject(app, 'POST', `/api/processes/${proc.id}/approve`)).status).toBe(200);
+      const final = await processManager.waitForProcess(proc.id);
+      expect(final).toMatchObject({ status: 'completed', outcome: 'Too big / approved by dashboard' });
+      expect(final?.approval).toBeUndefined();
+    });
+
+    it('returns 409 when the process is not waiting and 404 for unknown processes', async () => {
+      const proc = processManager.startAnalysis(42);
+      expect((await inject(app, 'POST', `/api/processes/${proc.id}/approve`)).status).toBe(409);
+      expect((await inject(app, 'POST', '/api/processes/nonexistent/approve')).status).toBe(404);
+    });
+
+    it('cancels a process while it waits', async () => {
+      const proc = await awaitingApproval();
+      expect((await inject(app, 'DELETE', `/api/processes/${proc.id}`)).status).toBe(200);
+      expect((await processManager.getProcess(proc.id))?.status).toBe('cancelled');
+    });
+  });
+
+  describe('POST /api/processes/:id/resume', () => {
+    it('restarts an interrupted process under its own id', async () => {
+      vi.mocked(runArchitect).mockResolvedValue({ issueNumber: 42, prNumber: 7, prNumbers: [7], outcome: 'Done' });
+      const processRepository = new InMemoryProcessRepository();
+      processRepository.save({
+        id: 'analyze-42-1', type: 'analyze', status: 'interrupted', issueNumber: 42, owner: '', repo: '',
+        startedAt: '2026-10-19T10:00:00.000Z', completedAt: '2026-10-19T10:05:00.000Z', error: 'Interrupted by a server restart',
+        runOptions: { dryRun: true }, logs: [],
+      });
+      const result = createDashboardApp(mockConfig, { processRepository });
+
+      const res = await inject(result.app, 'POST', '/api/processes/analyze-42-1/resume');
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ id: 'analyze-42-1', status: 'running' });
+      expect(res.body.error).toBeUndefined();
+      expect(await result.processManager.waitForProcess('analyze-42-1')).toMatchObject({ status: 'completed', prNumber: 7 });
+      expect(vi.mocked(runArchitect).mock.calls[0][2]).toMatchObject({ processId: 'analyze-42-1', dryRun: true });
+
+      expect((await inject(result.app, 'POST', '/api/processes/analyze-42-1/resume')).status).toBe(404);
+      expect((await inject(result.app, 'POST', '/api/processes/nonexistent/resume')).status).toBe(404);
+    });
+  });
+
+  describe('POST /api/processes/:id/pause', () => {
+    it('pauses a running process, takes guidance and resumes it', async () => {
+      let pause: any;
+      vi.mocked(runArchitect).mockImplementation((_config, _issue, options) => {
+        pause = options?.pause;
+        return new Promise(() => {});
+      });
+      const proc = processManager.startAnalysis(42);
+      await vi.waitFor(() => expect(pause).toBeDefined());
+
+      expect((await inject(app, 'POST', `/api/processes/${proc.id}/guidance`, { message: 'Not yet' })).status).toBe(409);
+      const paused = await inject(app, 'POST', `/api/processes/${proc.id}/pause`);
+      expect(paused.status).toBe(200);
+      expect(paused.body).toMatchObject({ id: proc.id, status: 'paused' });
+      expect(pause.isPaused).toBe(true);
+      expect((await inject(app, 'POST', `/api/processes/${proc.id}/pause`)).status).toBe(404);
+
+      expect((await inject(app, 'POST', `/api/processes/${proc.id}/guidance`, {})).status).toBe(400);
+      const guided = await inject(app, 'POST', `/api/processes/${proc.id}/guidance`, { message: "Don't touch the migrations folder" });
+      expect(guided.status).toBe(200);
+      expect(guided.body.guidance).toEqual(["Don't touch the migrations folder"]);
+
+      const resumed = await inject(app, 'POST', `/api/processes/${proc.id}/resume`);
+      expect(resumed.status).toBe(200);
+      expect(resumed.body).toMatchObject({ status: 'running' });
+      expect(pause.isPaused).toBe(false);
+    });
+
+    it('returns 404 for unknown processes', async () => {
+      expect((await inject(app, 'POST', '/api/processes/nonexistent/pause')).status).toBe(404);
+      expect((await inject(app, 'POST', '/api/processes/nonexistent/guidance', { message: 'Hi' })).status).toBe(404);
+    });
+  });
+
   describe('GET /api/processes (parallel fields)', () => {
     it('process response includes activePhases field when set', async () => {
       const proc = processManager.startAnalysis(42);
@@ -480,11 +671,13 @@ function injectRaw(
 
 describe('Unified App', () => {
   let app: express.Express;
+  let jobQueue: JobQueue;
 
   beforeEach(() => {
     vi.clearAllMocks();
     const result = createUnifiedApp(unifiedConfig);
     app = result.app;
+    jobQueue = result.jobQueue;
   });
 
   describe('existing dashboard routes', () => {
@@ -522,6 +715,244 @@ describe('Unified App', () => {
       expect(res.body.received).toBe(true);
     });
 
+    it('queues issues.opened as an analyze job', async () => {
+      const payload = JSON.stringify({ action: 'opened', issue: { number: 7 }, repository: { full_name: 'acme/widgets' } });
+      const rawBody = Buffer.from(payload);
+
+      await injectRaw(app, 'POST', '/webhook', rawBody, {
+        'x-hub-signature-256': signPayload(WEBHOOK_SECRET, rawBody),
+        'x-github-event': 'issues',
+        'x-github-delivery': 'test-delivery-3',
+      });
+
+      await vi.waitFor(async () => expect(await jobQueue.list()).toHaveLength(1));
+      const [job] = await jobQueue.list();
+      expect(job).toMatchObject({
+        type: ANALYZE_JOB,
+        repoKey: 'acme/widgets',
+        payload: { event: 'issues', deliveryId: 'test-delivery-3', payload: { issue: { number: 7 } } },
+        status: 'queued',
+      });
+    });
+
+    it('queues other events as webhook jobs', async () => {
+      const payload = JSON.stringify({ action: 'created', issue: { number: 7 } });
+      const rawBody = Buffer.from(payload);
+
+      await injectRaw(app, 'POST', '/webhook', rawBody, {
+        'x-hub-signature-256': signPayload(WEBHOOK_SECRET, rawBody),
+        'x-github-event': 'issue_comment',
+        'x-github-delivery': 'test-delivery-4',
+      });
+
+      await vi.waitFor(async () => expect(await jobQueue.list()).toHaveLength(1));
+      const [job] = await jobQueue.list();
+      expect(job).toMatchObject({ type: 'webhook', repoKey: 'test-owner/test-repo' });
+    });
+
+    it('cancels running analyses on issues.closed without queueing', async () => {
+      const closing = createUnifiedApp({ ...unifiedConfig, issueEvents: { actions: ['opened', 'closed'], triggerLabels: [], editThreshold: 0.3 } });
+      const proc = closing.processManager.startAnalysis(7);
+      const payload = JSON.stringify({ action: 'closed', issue: { number: 7 } });
+      const rawBody = Buffer.from(payload);
+
+      await injectRaw(closing.app, 'POST', '/webhook', rawBody, {
+        'x-hub-signature-256': signPayload(WEBHOOK_SECRET, rawBody),
+        'x-github-event': 'issues',
+        'x-github-delivery': 'test-delivery-close',
+      });
+
+      await vi.waitFor(async () => expect((await closing.processManager.getProcess(proc.id))!.status).toBe('cancelled'));
+      expect(await closing.jobQueue.list()).toHaveLength(0);
+      await vi.waitFor(() => expect(closing.deliveryRepository.getById('test-delivery-close')).toMatchObject({ status: 'handled' }));
+    });
+
+    it('cancels only the closed issue\'s repo analyses', async () => {
+      const repoRepository = new MockRepoRepository();
+      repoRepository.create('acme', 'widgets');
+      const closing = createUnifiedApp({ ...unifiedConfig, issueEvents: { actions: ['opened', 'closed'], triggerLabels: [], editThreshold: 0.3 } }, { repoRepository });
+      const proc = closing.processManager.startAnalysis(7);
+      const payload = JSON.stringify({ action: 'closed', issue: { number: 7 }, repository: { full_name: 'acme/widgets' } });
+      const rawBody = Buffer.from(payload);
+
+      await injectRaw(closing.app, 'POST', '/webhook', rawBody, {
+        'x-hub-signature-256': signPayload(WEBHOOK_SECRET, rawBody),
+        'x-github-event': 'issues',
+        'x-github-delivery': 'test-delivery-close-other',
+      });
+
+      await vi.waitFor(() => expect(closing.deliveryRepository.getById('test-delivery-close-other')).toMatchObject({ status: 'ignored' }));
+      expect((await closing.processManager.getProcess(proc.id))!.status).toBe('running');
+      closing.processManager.cancelProcess(proc.id);
+    });
+
+    it('runs slash commands on the repo they were posted in', async () => {
+      const getPermission = vi.fn().mockResolvedValue({ data: { permission: 'write' } });
+      vi.mocked(createGitHubClient).mockReturnValue({
+        rest: {
+          repos: { getCollaboratorPermissionLevel: getPermission },
+          reactions: { createForIssueComment: vi.fn().mockResolvedValue({}) },
+          issues: { createComment: vi.fn().mockResolvedValue({}) },
+        },
+      } as any);
+      const repoRepository = new MockRepoRepository();
+      const widgets = repoRepository.create('acme', 'widgets');
+      const result = createUnifiedApp(unifiedConfig, { repoRepository });
+      const home = result.processManager.startAnalysis(7);
+      // Process ids are made of the issue number and start time
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const other = result.processManager.startAnalysis(7, { repoId: widgets.id });
+      const payload = JSON.stringify({
+        action: 'created',
+        issue: { number: 7 },
+        comment: { id: 1, body: '/cancel', user: { login: 'alice' } },
+        repository: { full_name: 'acme/widgets' },
+      });
+      const rawBody = Buffer.from(payload);
+
+      await injectRaw(result.app, 'POST', '/webhook', rawBody, {
+        'x-hub-signature-256': signPayload(WEBHOOK_SECRET, rawBody),
+        'x-github-event': 'issue_comment',
+        'x-github-delivery': 'test-delivery-cancel-other',
+      });
+
+      await vi.waitFor(async () => expect((await result.processManager.getProcess(other.id))!.status).toBe('cancelled'));
+      expect((await result.processManager.getProcess(home.id))!.status).toBe('running');
+      expect(getPermission).toHaveBeenCalledWith(expect.objectContaining({ owner: 'acme', repo: 'widgets', username: 'alice' }));
+      result.processManager.cancelProcess(home.id);
+      vi.mocked(createGitHubClient).mockReset();
+    });
+
+    it('ignores issues from repos that are not registered', async () => {
+      const repoRepository = new MockRepoRepository();
+      const result = createUnifiedApp(unifiedConfig, { repoRepository });
+      await result.jobQueue.start();
+      const payload = JSON.stringify({ action: 'opened', issue: { number: 7 }, repository: { full_name: 'stranger/repo' } });
+      const rawBody = Buffer.from(payload);
+
+      await injectRaw(result.app, 'POST', '/webhook', rawBody, {
+        'x-hub-signature-256': signPayload(WEBHOOK_SECRET, rawBody),
+        'x-github-event': 'issues',
+        'x-github-delivery': 'test-delivery-stranger',
+      });
+
+      await vi.waitFor(() => expect(result.deliveryRepository.getById('test-delivery-stranger')).toMatchObject({
+        status: 'ignored',
+        reason: 'Repo stranger/repo is not registered',
+      }));
+      result.jobQueue.stop();
+      expect(await result.processManager.listProcesses()).toHaveLength(0);
+    });
+
+    it('frees the job slot while an analysis waits for plan approval', async () => {
+      // #71 waits for plan approval, #72 finishes; runs left over from earlier tests never do
+      vi.mocked(runArchitect).mockImplementation(async (config, issueNumber, options) => {
+        if (issueNumber !== 71 && issueNumber !== 72) return new Promise<never>(() => {});
+        if (issueNumber === 71) {
+          const gate = new ApprovalGate({
+            config, issueNumber, policy: { required: true, timeoutHours: 1 },
+            signal: options?.signal, onPending: options?.onApproval,
+            scm: { kind: 'gitlab', commentOnIssue: vi.fn().mockResolvedValue({ id: 1, body: '' }) } as any,
+          });
+          await gate.request('1. Add a cache');
+        }
+        return { issueNumber, prNumber: null, prNumbers: [], outcome: 'Done' };
+      });
+      const result = createUnifiedApp({ ...unifiedConfig, jobs: { pollIntervalMs: 10 } });
+      await result.jobQueue.start();
+      for (const [number, deliveryId] of [[71, 'test-delivery-parked'], [72, 'test-delivery-next']] as const) {
+        const rawBody = Buffer.from(JSON.stringify({ action: 'opened', issue: { number } }));
+        await injectRaw(result.app, 'POST', '/webhook', rawBody, {
+          'x-hub-signature-256': signPayload(WEBHOOK_SECRET, rawBody),
+          'x-github-event': 'issues',
+          'x-github-delivery': deliveryId,
+        });
+      }
+
+      await vi.waitFor(() => expect(result.deliveryRepository.getById('test-delivery-next')).toMatchObject({ status: 'handled' }));
+      expect(result.deliveryRepository.getById('test-delivery-parked')).toMatchObject({ status: 'handled', reason: expect.stringContaining('awaiting_approval') });
+      const parked = (await result.processManager.listProcesses()).find(p => p.issueNumber === 71)!;
+      expect(parked.status).toBe('awaiting_approval');
+      result.processManager.cancelProcess(parked.id);
+      result.jobQueue.stop();
+    });
+
+    it('frees the job slot while an analysis is paused', async () => {
+      let pausable = '';
+      vi.mocked(runArchitect).mockImplementation(async (_config, issueNumber, options) => {
+        if (issueNumber === 74) return { issueNumber, prNumber: null, prNumbers: [], outcome: 'Done' };
+        if (issueNumber === 73) pausable = options!.processId!;
+        return new Promise<never>(() => {});
+      });
+      const result = createUnifiedApp({ ...unifiedConfig, jobs: { pollIntervalMs: 10 } });
+      await result.jobQueue.start();
+      const deliver = async (number: number, deliveryId: string) => {
+        const rawBody = Buffer.from(JSON.stringify({ action: 'opened', issue: { number } }));
+        await injectRaw(result.app, 'POST', '/webhook', rawBody, {
+          'x-hub-signature-256': signPayload(WEBHOOK_SECRET, rawBody),
+          'x-github-event': 'issues',
+          'x-github-delivery': deliveryId,
+        });
+      };
+
+      await deliver(73, 'test-delivery-paused');
+      await vi.waitFor(() => expect(pausable).not.toBe(''));
+      expect(result.processManager.pauseProcess(pausable)).toMatchObject({ status: 'paused' });
+      await deliver(74, 'test-delivery-after-pause');
+
+      await vi.waitFor(() => expect(result.deliveryRepository.getById('test-delivery-after-pause')).toMatchObject({ status: 'handled' }));
+      expect(result.deliveryRepository.getById('test-delivery-paused')).toMatchObject({ status: 'handled', reason: expect.stringContaining('paused') });
+      result.processManager.cancelProcess(pausable);
+      result.jobQueue.stop();
+    });
+
+    it('drops a redelivery of the same delivery id', async () => {
+      const payload = JSON.stringify({ action: 'created', issue: { number: 7 } });
+      const rawBody = Buffer.from(payload);
+      const headers = {
+        'x-hub-signature-256': signPayload(WEBHOOK_SECRET, rawBody),
+        'x-github-event': 'issue_comment',
+        'x-github-delivery': 'test-delivery-dup',
+      };
+
+      await injectRaw(app, 'POST', '/webhook', rawBody, headers);
+      const res = await injectRaw(app, 'POST', '/webhook', rawBody, headers);
+
+      expect(res.status).toBe(200);
+      expect(res.body.duplicate).toBe(true);
+      await vi.waitFor(async () => expect(await jobQueue.list()).toHaveLength(1));
+    });
+
+    it('replays a stored delivery through the job queue', async () => {
+      const payload = JSON.stringify({ action: 'opened', issue: { number: 9 } });
+      const rawBody = Buffer.from(payload);
+      await injectRaw(app, 'POST', '/webhook', rawBody, {
+        'x-hub-signature-256': signPayload(WEBHOOK_SECRET, rawBody),
+        'x-github-event': 'issues',
+        'x-github-delivery': 'test-delivery-replay',
+      });
+
+      const list = await inject(app, 'GET', '/api/webhook-deliveries');
+      expect(list.body).toHaveLength(1);
+      expect(list.body[0]).toMatchObject({ deliveryId: 'test-delivery-replay', event: 'issues', action: 'opened' });
+      expect(list.body[0].payload).toBeUndefined();
+
+      const detail = await inject(app, 'GET', '/api/webhook-deliveries/test-delivery-replay');
+      expect(detail.body.payload).toEqual({ action: 'opened', issue: { number: 9 } });
+
+      const res = await inject(app, 'POST', '/api/webhook-deliveries/test-delivery-replay/replay');
+      expect(res.status).toBe(202);
+      await vi.waitFor(async () => expect(await jobQueue.list({ status: 'queued' })).toHaveLength(2));
+
+      const replayed = await inject(app, 'GET', '/api/webhook-deliveries/test-delivery-replay');
+      expect(replayed.body.replayCount).toBe(1);
+    });
+
+    it('returns 404 when replaying an unknown delivery', async () => {
+      const res = await inject(app, 'POST', '/api/webhook-deliveries/nope/replay');
+      expect(res.status).toBe(404);
+    });
+
     it('returns 401 with invalid HMAC signature', async () => {
       const payload = JSON.stringify({ action: 'opened', issue: { number: 1 } });
       const rawBody = Buffer.from(payload);
@@ -585,7 +1016,7 @@ class MockRepoRepository implements RepoRepository {
     return activeOnly ? this.repos.filter(r => r.isActive) : [...this.repos];
   }
 
-  create(owner: string, repo: string, configJson?: Record<string, unknown>): RepoRecord {
+  create(owner: string, repo: string, configJson?: Record<string, unknown>, scm: RepoScm = {}): RepoRecord {
     if (this.repos.some(r => r.owner === owner && r.repo === repo)) {
       const err: any = new Error('duplicate key');
       err.code = '23505';
@@ -598,6 +1029,7 @@ class MockRepoRepository implements RepoRepository {
       isActive: true,
       addedAt: new Date().toISOString(),
       configJson,
+      ...scm,
     };
     this.repos.push(record);
     return record;
@@ -620,6 +1052,122 @@ class MockRepoRepository implements RepoRepository {
 
 // ── Repo CRUD Tests ─────────────────────────────────────────────────────────
 
+describe('Unified App with login', () => {
+  const authConfig = {
+    ...unifiedConfig,
+    auth: { provider: 'oidc', clientId: 'deepagents', clientSecret: 'secret', issuer: 'http://127.0.0.1:1/dex', baseUrl: 'http://localhost:3000', allowedUsers: [], sessionTtlHours: 24 },
+  };
+
+  it('rejects API and chat requests without a session', async () => {
+    const { app } = createUnifiedApp(authConfig);
+    expect((await inject(app, 'GET', '/api/status')).status).toBe(401);
+    expect((await inject(app, 'POST', '/chat', { message: 'hi' })).status).toBe(401);
+    expect((await inject(app, 'GET', '/health')).status).toBe(200);
+  });
+
+  it('keeps /webhook behind its signature check only', async () => {
+    const { app } = createUnifiedApp(authConfig);
+    const rawBody = Buffer.from(JSON.stringify({ action: 'created', issue: { number: 7 } }));
+    const res = await injectRaw(app, 'POST', '/webhook', rawBody, {
+      'x-hub-signature-256': signPayload(WEBHOOK_SECRET, rawBody),
+      'x-github-event': 'issue_comment',
+      'x-github-delivery': 'auth-delivery-1',
+    });
+    expect(res.status).toBe(200);
+  });
+});
+
+describe('Access control with API keys', () => {
+  const authConfig = {
+    ...mockConfig,
+    auth: { provider: 'oidc', clientId: 'deepagents', clientSecret: 'secret', issuer: 'http://127.0.0.1:1/dex', baseUrl: 'http://localhost:3000', allowedUsers: [], sessionTtlHours: 24, admins: [] },
+  };
+  let app: express.Express;
+  let apiKeys: InMemoryApiKeyRepository;
+
+  /** Seed a key and return its Authorization header. */
+  function keyHeader(name: string, scopes: string[], repos?: string[]): Record<string, string> {
+    const { key, keyHash, prefix } = generateApiKey();
+    apiKeys.create({ name, prefix, keyHash, scopes, repos, createdBy: 'test' });
+    return { authorization: `Bearer ${key}` };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    apiKeys = new InMemoryApiKeyRepository();
+    app = createDashboardApp(authConfig, { apiKeyRepository: apiKeys, settingsRepository: new InMemorySettingsRepository() }).app;
+  });
+
+  it('rejects unknown keys', async () => {
+    const res = await inject(app, 'GET', '/api/status', undefined, { authorization: 'Bearer dak_nope' });
+    expect(res.status).toBe(401);
+  });
+
+  it('lets read keys view but not start runs', async () => {
+    const headers = keyHeader('dashboard-bot', ['read']);
+    expect((await inject(app, 'GET', '/api/status', undefined, headers)).status).toBe(200);
+    const res = await inject(app, 'POST', '/api/processes/analyze', { issueNumber: 1 }, headers);
+    expect(res.status).toBe(403);
+    expect(res.body.error).toContain('"runs"');
+  });
+
+  it('starts runs only on the key\'s repos and attributes them to the key', async () => {
+    const other = await inject(app, 'POST', '/api/processes/analyze', { issueNumber: 1 }, keyHeader('other-ci', ['runs'], ['acme/other']));
+    expect(other.status).toBe(403);
+
+    const res = await inject(app, 'POST', '/api/processes/analyze', { issueNumber: 1 }, keyHeader('ci', ['runs'], ['test-owner/test-repo']));
+    expect(res.status).toBe(201);
+    expect(res.body.startedBy).toEqual({ kind: 'api_key', name: 'ci', keyId: 2 });
+    expect(apiKeys.list()[1].lastUsedAt).toBeDefined();
+  });
+
+  it('checks a stored process against the repo it ran on', async () => {
+    const repoRepository = new MockRepoRepository();
+    const acme = repoRepository.create('acme', 'api');
+    const processRepository = new InMemoryProcessRepository();
+    processRepository.save({
+      id: 'analyze-5-1', type: 'analyze', status: 'interrupted', issueNumber: 5, owner: '', repo: '',
+      startedAt: '2026-10-19T10:00:00.000Z', runOptions: { repoId: acme.id }, logs: [],
+    });
+    app = createDashboardApp(authConfig, { apiKeyRepository: apiKeys, settingsRepository: new InMemorySettingsRepository(), repoRepository, processRepository }).app;
+
+    const res = await inject(app, 'POST', '/api/processes/analyze-5-1/resume', undefined, keyHeader('ci', ['runs'], ['test-owner/test-repo']));
+    expect(res.status).toBe(403);
+    const guidance = await inject(app, 'POST', '/api/processes/analyze-5-1/guidance', { message: 'Skip the docs' }, keyHeader('acme-ci', ['runs'], ['acme/api']));
+    expect(guidance.status).toBe(409);
+  });
+
+  it('keeps settings and key management to admins', async () => {
+    const operator = keyHeader('ci', ['read', 'runs']);
+    expect((await inject(app, 'GET', '/api/settings', undefined, operator)).status).toBe(403);
+    expect((await inject(app, 'POST', '/api/api-keys', { name: 'x', scopes: ['admin'] }, operator)).status).toBe(403);
+
+    const admin = keyHeader('root', ['admin']);
+    const created = await inject(app, 'POST', '/api/api-keys', { name: 'nightly', scopes: ['read'], repos: ['acme/api'] }, admin);
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ name: 'nightly', scopes: ['read'], repos: ['acme/api'], createdBy: 'root' });
+    expect(created.body.keyHash).toBeUndefined();
+
+    const nightly = { authorization: `Bearer ${created.body.key}` };
+    expect((await inject(app, 'GET', '/api/processes', undefined, nightly)).status).toBe(200);
+    expect((await inject(app, 'DELETE', `/api/api-keys/${created.body.id}`, undefined, admin)).status).toBe(200);
+    expect((await inject(app, 'GET', '/api/processes', undefined, nightly)).status).toBe(401);
+
+    const listed = await inject(app, 'GET', '/api/api-keys', undefined, admin);
+    expect(listed.body.map((k: any) => k.name)).toEqual(['ci', 'root', 'nightly']);
+  });
+
+  it('validates new keys and the access_roles setting', async () => {
+    const admin = keyHeader('root', ['admin']);
+    expect((await inject(app, 'POST', '/api/api-keys', { name: 'x', scopes: ['everything'] }, admin)).status).toBe(400);
+    expect((await inject(app, 'POST', '/api/api-keys', { name: 'x', scopes: ['read'], repos: ['not-a-repo'] }, admin)).status).toBe(400);
+
+    const res = await inject(app, 'PUT', '/api/settings/access_roles', { users: { ada: { role: 'owner' } } }, admin);
+    expect(res.status).toBe(400);
+    expect(res.body.error).toContain('access_roles.users.ada.role');
+  });
+});
+
 describe('Repo CRUD API', () => {
   let app: express.Express;
   let repoRepository: MockRepoRepository;
@@ -688,6 +1236,87 @@ describe('Repo CRUD API', () => {
       const res = await inject(app, 'PATCH', '/api/repos/999', { configJson: {} });
       expect(res.status).toBe(404);
     });
+
+    it('returns 400 for invalid routing rules', async () => {
+      const created = await inject(app, 'POST', '/api/repos', { owner: 'acme', repo: 'widgets' });
+      const res = await inject(app, 'PATCH', `/api/repos/${created.body.id}`, {
+        configJson: { routing: { rules: [{ match: { labels: ['bot-fix'] }, action: 'launch' }] } },
+      });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toContain('routing.rules[0].action');
+    });
+
+    it('returns 400 for an invalid budget', async () => {
+      const created = await inject(app, 'POST', '/api/repos', { owner: 'acme', repo: 'widgets' });
+      const res = await inject(app, 'PATCH', `/api/repos/${created.body.id}`, {
+        configJson: { budget: { labels: { 'small-fix': { maxCostUsd: 'cheap' } } } },
+      });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('budget.labels.small-fix.maxCostUsd must be a positive number');
+    });
+
+    it('returns 400 for an invalid sandbox policy', async () => {
+      const created = await inject(app, 'POST', '/api/repos', { owner: 'acme', repo: 'widgets' });
+      const res = await inject(app, 'PATCH', `/api/repos/${created.body.id}`, {
+        configJson: { sandbox: { backend: 'docker', network: 'lan' } },
+      });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('sandbox.network must be one of allowlist, none, open');
+    });
+
+    it('returns 400 for invalid poll settings', async () => {
+      const created = await inject(app, 'POST', '/api/repos', { owner: 'acme', repo: 'widgets' });
+      const res = await inject(app, 'PATCH', `/api/repos/${created.body.id}`, { configJson: { concurrency: 0 } });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('concurrency must be a positive integer');
+    });
+
+    it('returns 400 for an invalid schedule', async () => {
+      const created = await inject(app, 'POST', '/api/repos', { owner: 'acme', repo: 'widgets' });
+      const res = await inject(app, 'PATCH', `/api/repos/${created.body.id}`, { configJson: { schedules: { poll: '*/15 * * *' } } });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('schedules.poll: Invalid cron expression "*/15 * * *": expected 5 fields, got 4');
+    });
+
+    it('returns 400 for an invalid approval gate', async () => {
+      const created = await inject(app, 'POST', '/api/repos', { owner: 'acme', repo: 'widgets' });
+      const res = await inject(app, 'PATCH', `/api/repos/${created.body.id}`, { configJson: { approval: { required: 'yes' } } });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('approval.required must be true or false');
+    });
+  });
+
+  describe('schedules', () => {
+    it('lists scheduled tasks with their next run', async () => {
+      repoRepository.create('acme', 'widgets', { schedules: { poll: '*/15 * * * *', 'stale-prs': '0 9 * * 1-5' } });
+      const res = await inject(app, 'GET', '/api/schedules');
+      expect(res.status).toBe(200);
+      expect(res.body.map((s: any) => [s.task, s.cron, s.active])).toEqual([
+        ['poll', '*/15 * * * *', false],
+        ['stale-prs', '0 9 * * 1-5', false],
+      ]);
+      expect(Date.parse(res.body[0].nextRunAt)).toBeGreaterThan(Date.now());
+    });
+
+    it('runs a task now, once at a time', async () => {
+      const created = repoRepository.create('acme', 'widgets');
+      const res = await inject(app, 'POST', `/api/repos/${created.id}/schedules/poll/run`);
+      expect(res.status).toBe(202);
+      expect(res.body.jobId).toBeDefined();
+
+      const again = await inject(app, 'POST', `/api/repos/${created.id}/schedules/poll/run`);
+      expect(again.status).toBe(409);
+      const schedules = await inject(app, 'GET', '/api/schedules');
+      expect(schedules.body).toEqual([expect.objectContaining({ task: 'poll', active: true, lastRun: expect.objectContaining({ trigger: 'manual', status: 'queued' }) })]);
+    });
+
+    it('rejects unknown repos and tasks', async () => {
+      const created = repoRepository.create('acme', 'widgets');
+      expect((await inject(app, 'POST', '/api/repos/999/schedules/poll/run')).status).toBe(404);
+      const res = await inject(app, 'POST', `/api/repos/${created.id}/schedules/deploy/run`);
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Unknown task: deploy');
+    });
   });
 
   describe('DELETE /api/repos/:id', () => {
@@ -715,6 +1344,31 @@ describe('Repo CRUD API', () => {
   });
 });
 
+describe('GitHub App installations API', () => {
+  it('returns 501 without App auth', async () => {
+    const { app } = createDashboardApp(mockConfig);
+    const res = await inject(app, 'GET', '/api/github/installations');
+    expect(res.status).toBe(501);
+  });
+
+  it('lists installations and the installation of each tracked repo', async () => {
+    const repoRepository = new MockRepoRepository();
+    repoRepository.create('acme', 'api');
+    repoRepository.create('globex', 'web');
+    repoRepository.create('initech', 'tools', undefined, { provider: 'gitlab' });
+    const appConfig = { ...mockConfig, github: { owner: 'acme', repo: 'api', appId: 1, privateKeyPath: '/tmp/app.pem', installationId: 11 } };
+    const { app } = createDashboardApp(appConfig, { repoRepository });
+
+    const res = await inject(app, 'GET', '/api/github/installations');
+    expect(res.status).toBe(200);
+    expect(res.body.installations).toEqual([expect.objectContaining({ id: 11, account: 'acme' })]);
+    expect(res.body.repos).toEqual([
+      { owner: 'acme', repo: 'api', installationId: 11 },
+      { owner: 'globex', repo: 'web', installationId: null, error: 'The GitHub App is not installed on globex/web' },
+    ]);
+  });
+});
+
 describe('Repo CRUD without database', () => {
   let app: express.Express;
 
@@ -734,6 +1388,11 @@ describe('Repo CRUD without database', () => {
     const res = await inject(app, 'POST', '/api/repos', { owner: 'a', repo: 'b' });
     expect(res.status).toBe(501);
   });
+
+  it('GET /api/schedules returns 501', async () => {
+    const res = await inject(app, 'GET', '/api/schedules');
+    expect(res.status).toBe(501);
+  });
 });
 
 // ── Pricing CRUD Tests ──────────────────────────────────────────────────────
@@ -882,3 +1541,57 @@ describe('Pricing CRUD without database', () => {
     expect(res.status).toBe(501);
   });
 });
+
+describe('Spend limits', () => {
+  let app: express.Express;
+  let usageService: UsageService;
+  let settingsRepository: InMemorySettingsRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    settingsRepository = new InMemorySettingsRepository();
+    const result = createDashboardApp(mockConfig, {
+      settingsRepository,
+      repoRepository: new StaticRepoRepository('test-owner', 'test-repo'),
+      repoId: 0,
+    });
+    app = result.app;
+    usageService = result.usageService;
+    // claude-sonnet-4: $3 per million input tokens, so this run cost $3
+    usageService.record({ provider: 'anthropic', model: 'claude-sonnet-4-20250514', agent: 'coder', repoId: 0, inputTokens: 1_000_000, outputTokens: 0, durationMs: 1 });
+  });
+
+  it('rejects malformed limits', async () => {
+    const res = await inject(app, 'PUT', '/api/settings/spend_limits', { repos: { 'test-repo': { dailyUsd: 1 } } });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toContain('owner/repo');
+  });
+
+  it('reports spend per limited window', async () => {
+    await inject(app, 'PUT', '/api/settings/spend_limits', { global: { monthlyUsd: 100 }, repos: { 'test-owner/test-repo': { dailyUsd: 3.5 } } });
+    const res = await inject(app, 'GET', '/api/spend');
+    expect(res.status).toBe(200);
+    expect(res.body.alertThreshold).toBe(0.8);
+    expect(res.body.windows).toEqual([
+      expect.objectContaining({ scope: 'global', period: 'monthly', limitUsd: 100, spentUsd: expect.closeTo(3) }),
+      expect.objectContaining({ scope: 'test-owner/test-repo', period: 'daily', limitUsd: 3.5, ratio: expect.closeTo(3 / 3.5) }),
+    ]);
+  });
+
+  it('refuses new runs once a cap is reached', async () => {
+    await inject(app, 'PUT', '/api/settings/spend_limits', { repos: { 'test-owner/test-repo': { dailyUsd: 2 } } });
+    const res = await inject(app, 'POST', '/api/processes/analyze', { issueNumber: 42 });
+    expect(res.status).toBe(429);
+    expect(res.body.error).toBe('Daily spend cap reached for test-owner/test-repo: $3.0000 of $2');
+
+    const review = await inject(app, 'POST', '/api/processes/review', { prNumber: 10 });
+    expect(review.status).toBe(429);
+  });
+
+  it('allows runs under the cap', async () => {
+    await inject(app, 'PUT', '/api/settings/spend_limits', { global: { dailyUsd: 10 } });
+    const res = await inject(app, 'POST', '/api/processes/analyze', { issueNumber: 42 });
+    expect(res.status).toBe(201);
+  });
+});
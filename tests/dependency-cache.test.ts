@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  dependencyCacheKey,
+  dependencyEnv,
+  detectDependencies,
+  restoreDependencies,
+  saveDependencies,
+} from '../src/dependency-cache.js';
+import type { Workspace } from '../src/workspace.js';
+
+let root: string;
+let cacheDir: string;
+
+function makeWorkspace(name: string, files: Record<string, string>): Workspace {
+  const dir = path.join(root, name);
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), content);
+  }
+  return { path: dir, cleanup: async () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'deps-'));
+  cacheDir = path.join(root, 'deps', 'acme', 'api');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('detectDependencies', () => {
+  it('picks one package manager per ecosystem by lockfile', () => {
+    const ws = makeWorkspace('ws', { 'pnpm-lock.yaml': '', 'package-lock.json': '{}', 'poetry.lock': '', 'requirements.txt': '', 'Cargo.lock': '' });
+    expect(detectDependencies(ws.path).map(s => s.manager)).toEqual(['pnpm', 'poetry', 'cargo']);
+    expect(detectDependencies(makeWorkspace('empty', { 'README.md': '' }).path)).toEqual([]);
+  });
+
+  it('points tool caches inside the workspace', () => {
+    const ws = makeWorkspace('ws', { 'package-lock.json': '{}', 'go.sum': '' });
+    expect(dependencyEnv(ws.path)).toEqual({
+      npm_config_cache: path.join(ws.path, '.npm-cache'),
+      npm_config_prefer_offline: 'true',
+      GOMODCACHE: path.join(ws.path, '.gomodcache'),
+    });
+  });
+
+  it('keys the cache by lockfile content', () => {
+    const [spec] = detectDependencies(makeWorkspace('a', { 'yarn.lock': 'v1' }).path);
+    const key = dependencyCacheKey(spec, path.join(root, 'a'));
+    expect(key).toMatch(/^yarn-[0-9a-f]{16}$/);
+    expect(dependencyCacheKey(spec, makeWorkspace('b', { 'yarn.lock': 'v1' }).path)).toBe(key);
+    expect(dependencyCacheKey(spec, makeWorkspace('c', { 'yarn.lock': 'v2' }).path)).not.toBe(key);
+  });
+});
+
+describe('saveDependencies / restoreDependencies', () => {
+  it('restores what a previous run installed for the same lockfile', async () => {
+    const first = makeWorkspace('first', { 'package-lock.json': '{"v":1}', 'node_modules/left-pad/index.js': 'module.exports = 1', '.npm-cache/index': 'x' });
+    fs.mkdirSync(path.join(first.path, 'node_modules', '.bin'));
+    fs.symlinkSync('../left-pad/index.js', path.join(first.path, 'node_modules', '.bin', 'left-pad'));
+    expect(await saveDependencies(first, cacheDir)).toEqual(['npm']);
+
+    const gitCommonDir = path.join(root, 'mirror.git');
+    const second = { ...makeWorkspace('second', { 'package-lock.json': '{"v":1}' }), gitCommonDir };
+    fs.mkdirSync(path.join(gitCommonDir, 'info'), { recursive: true });
+    fs.writeFileSync(path.join(gitCommonDir, 'info', 'exclude'), '# git ls-files --others --exclude-from=.git/info/exclude');
+    expect(await restoreDependencies(second, cacheDir)).toEqual(['npm']);
+
+    expect(fs.readFileSync(path.join(second.path, 'node_modules', 'left-pad', 'index.js'), 'utf-8')).toBe('module.exports = 1');
+    expect(fs.readlinkSync(path.join(second.path, 'node_modules', '.bin', 'left-pad'))).toBe('../left-pad/index.js');
+    expect(fs.existsSync(path.join(second.path, '.npm-cache', 'index'))).toBe(true);
+    expect(fs.readFileSync(path.join(gitCommonDir, 'info', 'exclude'), 'utf-8').split('\n')).toEqual([
+      '# git ls-files --others --exclude-from=.git/info/exclude', '/node_modules/', '/.npm-cache/', '',
+    ]);
+
+    // Excludes are only added once
+    await restoreDependencies(second, cacheDir);
+    expect(fs.readFileSync(path.join(gitCommonDir, 'info', 'exclude'), 'utf-8').match(/node_modules/g)).toHaveLength(1);
+  });
+
+  it('restores nothing when the lockfile changed', async () => {
+    await saveDependencies(makeWorkspace('first', { 'Cargo.lock': 'a', 'target/debug/app': 'bin' }), cacheDir);
+    const second = makeWorkspace('second', { 'Cargo.lock': 'b' });
+    expect(await restoreDependencies(second, cacheDir)).toEqual([]);
+    expect(fs.existsSync(path.join(second.path, 'target'))).toBe(false);
+  });
+
+  it('skips workspaces without installed dependencies and existing entries', async () => {
+    expect(await saveDependencies(makeWorkspace('bare', { 'go.sum': 'x' }), cacheDir)).toEqual([]);
+    expect(await saveDependencies(makeWorkspace('first', { 'go.sum': 'x', '.gomodcache/m': '1' }), cacheDir)).toEqual(['go']);
+    expect(await saveDependencies(makeWorkspace('second', { 'go.sum': 'x', '.gomodcache/m': '2' }), cacheDir)).toEqual([]);
+    expect(fs.readdirSync(cacheDir)).toHaveLength(1);
+  });
+
+  it('keeps the three most recently used entries per package manager', async () => {
+    for (let i = 0; i < 3; i++) {
+      await saveDependencies(makeWorkspace(`ws${i}`, { 'poetry.lock': `v${i}`, '.venv/lib': '' }), cacheDir);
+      const entry = path.join(cacheDir, dependencyCacheKey(detectDependencies(path.join(root, `ws${i}`))[0], path.join(root, `ws${i}`)));
+      const time = new Date(Date.now() - (10 - i) * 60_000);
+      fs.utimesSync(entry, time, time);
+    }
+    // Restoring v0 makes it the most recent, so v1 is evicted next
+    await restoreDependencies(makeWorkspace('again', { 'poetry.lock': 'v0' }), cacheDir);
+    await saveDependencies(makeWorkspace('ws3', { 'poetry.lock': 'v3', '.venv/lib': '' }), cacheDir);
+
+    const kept = fs.readdirSync(cacheDir);
+    expect(kept).toHaveLength(3);
+    const keyOf = (name: string) => dependencyCacheKey(detectDependencies(path.join(root, name))[0], path.join(root, name));
+    expect(kept.sort()).toEqual([keyOf('again'), keyOf('ws2'), keyOf('ws3')].sort());
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import {
+  clearRepoInstallations,
+  findRepoInstallation,
+  GitHubAppNotInstalledError,
+  InstallationTokenCache,
+  listAppInstallations,
+} from '../src/github-app.js';
+import { createGitHubAppClient, createGitHubClient, getAuthFromConfig } from '../src/github-tools.js';
+import { resolveGitToken } from '../src/workspace.js';
+import { configForRepo } from '../src/repo-repository.js';
+
+/**
+ * A stand-in for the GitHub App API: acme/* repos are on installation 11,
+ * globex/* on 22. Installation tokens are "ghs_<installation>_<n>".
+ */
+function createMockGitHub() {
+  const requests: Array<{ method: string; path: string; authorization?: string }> = [];
+  const installations: Record<string, number> = { acme: 11, globex: 22 };
+  let issued = 0;
+
+  const app = express();
+  app.use((req, _res, next) => {
+    requests.push({ method: req.method, path: req.path, authorization: req.headers.authorization });
+    next();
+  });
+  app.get('/repos/:owner/:repo/installation', (req, res) => {
+    const id = installations[req.params.owner];
+    if (!id) { res.status(404).json({ message: 'Not Found' }); return; }
+    res.json({ id, account: { login: req.params.owner } });
+  });
+  app.get('/app/installations', (_req, res) => {
+    res.json([
+      { id: 11, account: { login: 'acme', type: 'Organization' }, repository_selection: 'all', html_url: 'https://github.test/organizations/acme/settings/installations/11', suspended_at: null },
+      { id: 22, account: { login: 'globex', type: 'User' }, repository_selection: 'selected', html_url: 'https://github.test/settings/installations/22', suspended_at: '2026-10-01T00:00:00Z' },
+    ]);
+  });
+  app.post('/app/installations/:id/access_tokens', (req, res) => {
+    issued++;
+    res.status(201).json({
+      token: `ghs_${req.params.id}_${issued}`,
+      expires_at: new Date(Date.now() + 60 * 60_000).toISOString(),
+      permissions: { issues: 'write', contents: 'write' },
+      repository_selection: 'all',
+    });
+  });
+  app.get('/repos/:owner/:repo/issues/:number', (req, res) => {
+    res.json({ number: Number(req.params.number), title: 'Bug', authorization: req.headers.authorization });
+  });
+
+  return { app, requests };
+}
+
+describe('InstallationTokenCache', () => {
+  const entry = (expiresAt: string) => `ghs_x|2026-10-19T10:00:00Z|${expiresAt}|all|issues!`;
+
+  it('keeps tokens until five minutes before they expire', () => {
+    let now = Date.parse('2026-10-19T10:00:00Z');
+    const cache = new InstallationTokenCache(() => now);
+    cache.set('11', entry('2026-10-19T11:00:00Z'));
+    expect(cache.get('11')).toBe(entry('2026-10-19T11:00:00Z'));
+
+    now = Date.parse('2026-10-19T10:54:59Z');
+    expect(cache.get('11')).toBeDefined();
+    now = Date.parse('2026-10-19T10:55:00Z');
+    expect(cache.get('11')).toBeUndefined();
+    expect(cache.get('unknown')).toBeUndefined();
+  });
+});
+
+describe('GitHub App installations (mock API)', () => {
+  let server: Server;
+  let apiUrl: string;
+  let mock: ReturnType<typeof createMockGitHub>;
+  let keyDir: string;
+  let privateKeyPath: string;
+
+  beforeAll(async () => {
+    mock = createMockGitHub();
+    server = mock.app.listen(0);
+    await new Promise<void>(resolve => server.once('listening', () => resolve()));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'github-app-test-'));
+    privateKeyPath = path.join(keyDir, 'app.pem');
+    fs.writeFileSync(privateKeyPath, privateKey.export({ type: 'pkcs1', format: 'pem' }));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    fs.rmSync(keyDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mock.requests.length = 0;
+    clearRepoInstallations();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('looks up a repo\'s installation once', async () => {
+    const appClient = createGitHubAppClient({ appId: 1, privateKeyPath }, { apiUrl });
+    expect(await findRepoInstallation(appClient.request, 'acme', 'api')).toBe(11);
+    expect(await findRepoInstallation(appClient.request, 'ACME', 'api')).toBe(11);
+    expect(await findRepoInstallation(appClient.request, 'globex', 'web')).toBe(22);
+
+    const lookups = mock.requests.filter(r => r.path.endsWith('/installation'));
+    expect(lookups.map(r => r.path)).toEqual(['/repos/acme/api/installation', '/repos/globex/web/installation']);
+    expect(lookups[0].authorization).toMatch(/^bearer /);
+  });
+
+  it('uses the installation a webhook payload names instead of looking it up', async () => {
+    const config = { github: { owner: 'acme', repo: 'api', appId: 1, privateKeyPath, apiUrl } } as any;
+    const record = { id: 2, owner: 'globex', repo: 'web', isActive: true, addedAt: '' };
+
+    expect((await configForRepo(config, record, 33)).github.installationId).toBe(33);
+    expect((await configForRepo(config, record)).github.installationId).toBe(33);
+    expect(mock.requests.filter(r => r.path.endsWith('/installation'))).toHaveLength(0);
+  });
+
+  it('reports repos the App isn\'t installed on', async () => {
+    const appClient = createGitHubAppClient({ appId: 1, privateKeyPath }, { apiUrl });
+    await expect(findRepoInstallation(appClient.request, 'initech', 'api')).rejects.toThrow(GitHubAppNotInstalledError);
+    await expect(findRepoInstallation(appClient.request, 'initech', 'api')).rejects.toThrow('The GitHub App is not installed on initech/api');
+  });
+
+  it('authenticates clients without an installation id as the repo\'s installation', async () => {
+    const auth = getAuthFromConfig({ owner: 'globex', repo: 'web', appId: 1, privateKeyPath });
+    expect(auth).toEqual({ appId: 1, privateKeyPath, owner: 'globex', repo: 'web' });
+
+    const octokit = createGitHubClient(auth, { apiUrl });
+    const { data } = await octokit.request('GET /repos/{owner}/{repo}/issues/{issue_number}', { owner: 'globex', repo: 'web', issue_number: 3 });
+    expect(data.authorization).toMatch(/^token ghs_22_\d+$/);
+    expect(mock.requests.map(r => `${r.method} ${r.path}`)).toEqual([
+      'GET /repos/globex/web/installation',
+      'POST /app/installations/22/access_tokens',
+      'GET /repos/globex/web/issues/3',
+    ]);
+  });
+
+  it('reuses installation tokens across clients until they near expiry', async () => {
+    const first = await resolveGitToken({ appId: 1, privateKeyPath, installationId: 11 }, { apiUrl });
+    const second = await resolveGitToken({ appId: 1, privateKeyPath, owner: 'acme', repo: 'api' }, { apiUrl });
+    expect(second).toBe(first);
+    expect(mock.requests.filter(r => r.path === '/app/installations/11/access_tokens')).toHaveLength(1);
+  });
+
+  it('lists the App\'s installations', async () => {
+    const installations = await listAppInstallations(createGitHubAppClient({ appId: 1, privateKeyPath }, { apiUrl }));
+    expect(installations).toEqual([
+      { id: 11, account: 'acme', accountType: 'Organization', repositorySelection: 'all', htmlUrl: 'https://github.test/organizations/acme/settings/installations/11', suspended: false },
+      { id: 22, account: 'globex', accountType: 'User', repositorySelection: 'selected', htmlUrl: 'https://github.test/settings/installations/22', suspended: true },
+    ]);
+  });
+});
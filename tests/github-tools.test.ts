@@ -17,12 +17,16 @@ import {
   createDryRunCreateSubIssueTool,
   createCheckCiStatusTool,
   createDryRunCheckCiStatusTool,
+  createReplyToReviewCommentTool,
   BOT_REVIEW_MARKER,
+  BOT_THREAD_REPLY_MARKER,
   ToolCallCounter,
   CircuitBreakerError,
   wrapWithCircuitBreaker,
   createGitHubClient,
   getAuthFromConfig,
+  githubApiUrl,
+  githubWebUrl,
 } from '../src/github-tools.js';
 
 /**
@@ -142,6 +146,17 @@ describe('createBranchTool (idempotency)', () => {
     expect(octokit.rest.git.createRef).not.toHaveBeenCalled();
   });
 
+  it('links the branch on the client\'s GitHub host', async () => {
+    octokit.rest.git.getRef.mockResolvedValue({ data: { object: { sha: 'abc123' } } });
+
+    const github = JSON.parse(await createBranchTool('owner', 'repo', octokit).invoke({ branch_name: 'issue-1-fix' }));
+    expect(github.url).toBe('https://github.com/owner/repo/tree/issue-1-fix');
+
+    const ghes = { ...octokit, request: { endpoint: { DEFAULTS: { baseUrl: 'https://ghe.example.com/api/v3' } } } } as any;
+    const enterprise = JSON.parse(await createBranchTool('owner', 'repo', ghes).invoke({ branch_name: 'issue-1-fix' }));
+    expect(enterprise.url).toBe('https://ghe.example.com/owner/repo/tree/issue-1-fix');
+  });
+
   it('creates branch when it does not exist (404)', async () => {
     // First getRef call (existence check) throws 404
     octokit.rest.git.getRef.mockRejectedValueOnce({ status: 404 });
@@ -799,6 +814,12 @@ describe('getAuthFromConfig', () => {
     expect(typeof result).toBe('object');
     expect((result as any).appId).toBe(12345);
   });
+
+  it('looks up the installation per repo only without a PAT', () => {
+    const app = { owner: 'acme', repo: 'api', appId: 12345, privateKeyPath: '/tmp/key.pem' };
+    expect(getAuthFromConfig(app)).toEqual({ appId: 12345, privateKeyPath: '/tmp/key.pem', owner: 'acme', repo: 'api' });
+    expect(getAuthFromConfig({ ...app, token: 'ghp_test123' })).toBe('ghp_test123');
+  });
 });
 
 describe('createGitHubClient', () => {
@@ -827,6 +848,27 @@ describe('createGitHubClient', () => {
 
     vi.mocked(fs.readFileSync).mockRestore();
   });
+
+  it('talks to the GitHub Enterprise Server API of the given host', () => {
+    expect(createGitHubClient('ghp_test123').request.endpoint.DEFAULTS.baseUrl).toBe('https://api.github.com');
+    expect(createGitHubClient('ghp_test123', { host: 'github.example.com' }).request.endpoint.DEFAULTS.baseUrl)
+      .toBe('https://github.example.com/api/v3');
+    expect(createGitHubClient('ghp_test123', { host: 'github.example.com', apiUrl: 'https://api.example.com/gh/' }).request.endpoint.DEFAULTS.baseUrl)
+      .toBe('https://api.example.com/gh');
+  });
+});
+
+describe('githubApiUrl / githubWebUrl', () => {
+  it('default to github.com', () => {
+    expect(githubApiUrl()).toBe('https://api.github.com');
+    expect(githubApiUrl({ host: 'github.com' })).toBe('https://api.github.com');
+    expect(githubWebUrl()).toBe('https://github.com');
+  });
+
+  it('derive GHES URLs from the host', () => {
+    expect(githubApiUrl({ host: 'ghe.internal:8443' })).toBe('https://ghe.internal:8443/api/v3');
+    expect(githubWebUrl({ host: 'ghe.internal:8443' })).toBe('https://ghe.internal:8443');
+  });
 });
 
 // ── PR diff tool ────────────────────────────────────────────────────────────
@@ -1379,3 +1421,52 @@ describe('createDryRunCheckCiStatusTool', () => {
     expect(tool.name).toBe('check_ci_status');
   });
 });
+
+// ── Review thread replies ────────────────────────────────────────────────────
+
+describe('createReplyToReviewCommentTool', () => {
+  let octokit: ReturnType<typeof createMockOctokit>;
+
+  beforeEach(() => {
+    octokit = createMockOctokit();
+    octokit.rest.pulls.listReviewComments = vi.fn().mockResolvedValue({ data: [] });
+    (octokit as any).paginate = vi.fn(async (method: any, params: any) => {
+      const all: any[] = [];
+      for (let page = 1; ; page++) {
+        const { data } = await method({ ...params, page });
+        if (data.length === 0) return all;
+        all.push(...data);
+      }
+    });
+    octokit.rest.pulls.createReplyForReviewComment = vi.fn().mockResolvedValue({ data: { id: 901 } });
+    octokit.graphql = vi.fn().mockImplementation(async (query: string) => query.includes('mutation')
+      ? {}
+      : { repository: { pullRequest: { reviewThreads: { nodes: [
+        { id: 'T_1', isResolved: false, comments: { nodes: [{ databaseId: 10 }] } },
+      ] } } } });
+  });
+
+  it('replies with the marker and resolves the thread', async () => {
+    const toolFn = createReplyToReviewCommentTool('owner', 'repo', octokit);
+    const result = JSON.parse(await toolFn.invoke({ pull_number: 5, comment_id: 10, body: 'Added a null check' }));
+
+    expect(result).toEqual({ comment_id: 10, id: 901, resolved: true });
+    expect(octokit.rest.pulls.createReplyForReviewComment).toHaveBeenCalledWith({
+      owner: 'owner', repo: 'repo', pull_number: 5, comment_id: 10, body: `${BOT_THREAD_REPLY_MARKER}\nAdded a null check`,
+    });
+    expect(octokit.graphql).toHaveBeenCalledWith(expect.stringContaining('resolveReviewThread'), { threadId: 'T_1' });
+  });
+
+  it('skips threads the bot already replied in, past the first page of comments', async () => {
+    const firstPage = Array.from({ length: 100 }, (_, i) => ({ id: 1000 + i, in_reply_to_id: 20, body: 'Looks good' }));
+    octokit.rest.pulls.listReviewComments
+      .mockResolvedValueOnce({ data: firstPage })
+      .mockResolvedValueOnce({ data: [{ id: 902, in_reply_to_id: 10, body: `${BOT_THREAD_REPLY_MARKER}\nDone` }] });
+    const toolFn = createReplyToReviewCommentTool('owner', 'repo', octokit);
+    const result = JSON.parse(await toolFn.invoke({ pull_number: 5, comment_id: 10, body: 'Again', resolve: false }));
+
+    expect(result).toEqual({ comment_id: 10, skipped: true, resolved: false });
+    expect(octokit.rest.pulls.createReplyForReviewComment).not.toHaveBeenCalled();
+    expect(octokit.graphql).not.toHaveBeenCalled();
+  });
+});
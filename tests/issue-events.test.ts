@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { bodyChangeRatio, planIssueEvent, recordIssuePr } from '../src/issue-events.js';
+import type { IssueActions } from '../src/core.js';
+import type { PollRepository } from '../src/poll-repository.js';
+import type { WebhookEvent } from '../src/listener.js';
+
+const mockPullsGet = vi.fn();
+const mockCreateComment = vi.fn();
+vi.mock('../src/github-tools.js', () => ({
+  createGitHubClient: vi.fn(() => ({
+    rest: {
+      pulls: { get: mockPullsGet },
+      issues: { listComments: vi.fn().mockResolvedValue({ data: [] }), createComment: mockCreateComment },
+    },
+  })),
+  getAuthFromConfig: vi.fn(() => 'mock-token'),
+  githubWebUrl: vi.fn(() => 'https://github.com'),
+}));
+
+const mockGitLab = { kind: 'gitlab', getPullRequest: vi.fn(), listIssueComments: vi.fn(), commentOnIssue: vi.fn() };
+vi.mock('../src/gitlab-provider.js', () => ({
+  GitLabProvider: vi.fn(function () { return mockGitLab; }),
+}));
+
+const config = {
+  github: { owner: 'o', repo: 'r', token: 't' },
+  issueEvents: { actions: ['opened', 'labeled', 'edited', 'reopened', 'closed'], triggerLabels: ['ai-fix'], editThreshold: 0.3 },
+} as any;
+
+function issueEvent(action: string, extra: Record<string, unknown> = {}, issue: Record<string, unknown> = {}): WebhookEvent {
+  return {
+    event: 'issues',
+    deliveryId: 'd-1',
+    payload: { action, issue: { number: 7, title: 'Crash', body: 'It crashes on startup', labels: [], ...issue }, ...extra },
+  };
+}
+
+/** Poll repository holding IssueActions for a single issue. */
+function pollRepo(actions?: IssueActions): PollRepository {
+  const store = new Map<number, IssueActions>(actions ? [[7, actions]] : []);
+  return {
+    load: () => null,
+    save: () => {},
+    getIssueActions: (_repoId, n) => store.get(n),
+    setIssueActions: (_repoId, n, a) => { store.set(n, a); },
+    deleteIssueActions: (_repoId, n) => { store.delete(n); },
+  };
+}
+
+const withPr: IssueActions = { comment: null, branch: null, commits: [], pr: { number: 12, html_url: '' } };
+
+describe('bodyChangeRatio', () => {
+  it('is 0 for the same words and 1 for disjoint texts', () => {
+    expect(bodyChangeRatio('Fix the bug', 'fix THE bug!')).toBe(0);
+    expect(bodyChangeRatio('alpha beta', 'gamma delta')).toBe(1);
+    expect(bodyChangeRatio('', '')).toBe(0);
+  });
+
+  it('measures the fraction of distinct words that changed', () => {
+    expect(bodyChangeRatio('a b c d', 'a b c e')).toBeCloseTo(0.4);
+  });
+});
+
+describe('planIssueEvent', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockPullsGet.mockReset().mockResolvedValue({ data: { head: { ref: 'issue-7-fix' } } });
+    mockCreateComment.mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('ignores actions that are not enabled', async () => {
+    const plan = await planIssueEvent(issueEvent('labeled'), { ...config, issueEvents: { ...config.issueEvents, actions: ['opened'] } });
+    expect(plan).toEqual({ kind: 'ignore', reason: 'Ignored action: labeled' });
+  });
+
+  it('analyzes opened issues', async () => {
+    expect(await planIssueEvent(issueEvent('opened'), config)).toMatchObject({ kind: 'analyze', issueNumber: 7 });
+  });
+
+  it('plans a cancel for closed issues', async () => {
+    expect(await planIssueEvent(issueEvent('closed'), config)).toMatchObject({ kind: 'cancel', issueNumber: 7 });
+  });
+
+  describe('labeled', () => {
+    it('ignores labels that are not triggers', async () => {
+      const plan = await planIssueEvent(issueEvent('labeled', { label: { name: 'bug' } }), config);
+      expect(plan).toMatchObject({ kind: 'ignore', reason: 'Label "bug" is not a trigger label' });
+    });
+
+    it('analyzes an unprocessed issue on a trigger label', async () => {
+      const plan = await planIssueEvent(issueEvent('labeled', { label: { name: 'AI-Fix' } }), config, { pollRepository: pollRepo() });
+      expect(plan).toMatchObject({ kind: 'analyze', issueNumber: 7 });
+    });
+
+    it('treats the routing approval label as a trigger', async () => {
+      const plan = await planIssueEvent(issueEvent('labeled', { label: { name: 'bot-approved' } }), config);
+      expect(plan.kind).toBe('analyze');
+    });
+
+    it('continues the existing PR instead of opening a second one', async () => {
+      const plan = await planIssueEvent(issueEvent('labeled', { label: { name: 'ai-fix' } }), config, { pollRepository: pollRepo(withPr) });
+      expect(plan).toMatchObject({ kind: 'continue', prNumber: 12, branchName: 'issue-7-fix' });
+      expect(mockPullsGet).toHaveBeenCalledWith({ owner: 'o', repo: 'r', pull_number: 12 });
+    });
+  });
+
+  describe('edited', () => {
+    const edit = (from: string, body: string) => issueEvent('edited', { changes: { body: { from } } }, { body });
+
+    it('ignores title-only edits and small body edits', async () => {
+      expect((await planIssueEvent(issueEvent('edited', { changes: { title: { from: 'x' } } }), config)).reason).toBe('Body not changed');
+      const plan = await planIssueEvent(edit('It crashes on startup', 'It crashes on startup!'), config, { pollRepository: pollRepo(withPr) });
+      expect(plan.reason).toContain('below threshold');
+    });
+
+    it('ignores edits to issues that were never processed', async () => {
+      const plan = await planIssueEvent(edit('It crashes', 'Totally different request now'), config, { pollRepository: pollRepo() });
+      expect(plan).toMatchObject({ kind: 'ignore', reason: 'Issue has not been processed yet' });
+    });
+
+    it('continues the PR with the new description as feedback', async () => {
+      const plan = await planIssueEvent(edit('It crashes', 'Totally different request now'), config, { pollRepository: pollRepo(withPr) });
+      expect(plan).toMatchObject({ kind: 'continue', prNumber: 12 });
+      expect(plan.kind === 'continue' && plan.humanFeedback).toContain('Totally different request now');
+    });
+
+    it('re-runs analysis for processed issues without a PR', async () => {
+      const noPr = { ...withPr, pr: null };
+      const plan = await planIssueEvent(edit('It crashes', 'Totally different request now'), config, { pollRepository: pollRepo(noPr) });
+      expect(plan.kind).toBe('analyze');
+    });
+  });
+
+  describe('reopened', () => {
+    it('continues from the stored branch and PR', async () => {
+      const stored = { ...withPr, branch: { name: 'issue-7-stored', sha: '' } };
+      const plan = await planIssueEvent(issueEvent('reopened'), config, { pollRepository: pollRepo(stored) });
+      expect(plan).toMatchObject({ kind: 'continue', prNumber: 12, branchName: 'issue-7-stored' });
+      expect(mockPullsGet).not.toHaveBeenCalled();
+    });
+
+    it('is ignored without an existing PR', async () => {
+      const plan = await planIssueEvent(issueEvent('reopened'), config, { pollRepository: pollRepo() });
+      expect(plan).toMatchObject({ kind: 'ignore', reason: 'No existing PR to continue' });
+    });
+  });
+
+  it('applies routing before running', async () => {
+    const repoRepository = {
+      getByOwnerRepo: () => ({ id: 1, owner: 'o', repo: 'r', isActive: true, addedAt: '', configJson: { routing: { rules: [], defaultAction: 'approval' } } }),
+    } as any;
+    const plan = await planIssueEvent(issueEvent('opened'), config, { repoRepository });
+    expect(plan).toMatchObject({ kind: 'ignore', reason: expect.stringContaining('Awaiting approval') });
+    expect(mockCreateComment).toHaveBeenCalled();
+  });
+
+  describe('on GitLab', () => {
+    const gitlabConfig = { ...config, gitlab: { token: 'glpat' } };
+    const gitlabRepo = (configJson?: Record<string, unknown>) => ({
+      getByOwnerRepo: () => ({ id: 1, owner: 'o', repo: 'r', isActive: true, addedAt: '', provider: 'gitlab', configJson }),
+    }) as any;
+
+    it('looks up the branch of the existing merge request on GitLab', async () => {
+      mockGitLab.getPullRequest.mockResolvedValue({ number: 12, headRef: 'issue-7-gitlab' });
+      const plan = await planIssueEvent(issueEvent('labeled', { label: { name: 'ai-fix' } }), gitlabConfig, {
+        pollRepository: pollRepo(withPr),
+        repoRepository: gitlabRepo(),
+      });
+      expect(plan).toMatchObject({ kind: 'continue', prNumber: 12, branchName: 'issue-7-gitlab' });
+      expect(mockGitLab.getPullRequest).toHaveBeenCalledWith(12);
+      expect(mockPullsGet).not.toHaveBeenCalled();
+    });
+
+    it('asks for routing approval on GitLab', async () => {
+      mockGitLab.listIssueComments.mockResolvedValue([]);
+      mockGitLab.commentOnIssue.mockResolvedValue({ id: 1, body: '' });
+      const plan = await planIssueEvent(issueEvent('opened'), gitlabConfig, {
+        repoRepository: gitlabRepo({ routing: { rules: [], defaultAction: 'approval' } }),
+      });
+      expect(plan).toMatchObject({ kind: 'ignore', reason: expect.stringContaining('Awaiting approval') });
+      expect(mockGitLab.commentOnIssue).toHaveBeenCalledWith(7, expect.stringContaining('waiting for approval'));
+      expect(mockCreateComment).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('recordIssuePr', () => {
+  it('stores the PR so later events can continue it', async () => {
+    const repo = pollRepo();
+    await recordIssuePr(repo, 0, 7, 12, config);
+    expect(repo.getIssueActions(0, 7)).toMatchObject({ pr: { number: 12, html_url: 'https://github.com/o/r/pull/12' } });
+  });
+
+  it('does nothing without a PR', async () => {
+    const repo = pollRepo();
+    await recordIssuePr(repo, 0, 7, null, config);
+    expect(repo.getIssueActions(0, 7)).toBeUndefined();
+  });
+});
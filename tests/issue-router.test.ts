@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  parseRoutingConfig,
+  matchesRule,
+  routeIssue,
+  applyRouteOverrides,
+  mergeRouteOverrides,
+  toRoutableIssue,
+  loadRoutingConfig,
+  requestIssueApproval,
+  APPROVAL_MARKER,
+} from '../src/issue-router.js';
+import type { RoutableIssue, RoutingConfig } from '../src/issue-router.js';
+
+const issue = (fields: Partial<RoutableIssue> = {}): RoutableIssue => ({
+  title: 'Crash on startup',
+  body: 'Stack trace attached',
+  labels: [],
+  author: 'alice',
+  authorAssociation: 'MEMBER',
+  milestone: 'v2',
+  ...fields,
+});
+
+describe('parseRoutingConfig', () => {
+  it('returns undefined when no routing section exists', () => {
+    expect(parseRoutingConfig(undefined)).toBeUndefined();
+    expect(parseRoutingConfig({ other: true })).toBeUndefined();
+  });
+
+  it('accepts a valid config', () => {
+    const routing = { defaultAction: 'skip', rules: [{ match: { labels: ['bot-fix'], title: '^fix' }, action: 'run', agentMode: 'single' }] };
+    expect(parseRoutingConfig({ routing })).toEqual(routing);
+  });
+
+  it.each([
+    [{ rules: 'nope' }, 'routing.rules must be an array'],
+    [{ rules: [{ action: 'explode' }] }, 'routing.rules[0].action'],
+    [{ rules: [{ action: 'run', agentMode: 'turbo' }] }, 'agentMode'],
+    [{ rules: [{ action: 'run', maxIterations: 0 }] }, 'maxIterations'],
+    [{ rules: [{ action: 'run', llm: { triage: {} } }] }, 'llm.triage'],
+    [{ rules: [{ action: 'run', match: { title: '(' } }] }, 'not a valid regular expression'],
+    [{ rules: [{ action: 'run', match: { labels: 'bot-fix' } }] }, 'match.labels'],
+    [{ rules: [], defaultAction: 'maybe' }, 'defaultAction'],
+  ])('rejects %j', (routing, message) => {
+    expect(() => parseRoutingConfig({ routing })).toThrow(message);
+  });
+});
+
+describe('matchesRule', () => {
+  it('matches everything without conditions', () => {
+    expect(matchesRule(issue(), undefined)).toBe(true);
+    expect(matchesRule(issue(), {})).toBe(true);
+  });
+
+  it('requires all labels, case-insensitively', () => {
+    expect(matchesRule(issue({ labels: ['Bot-Fix', 'bug'] }), { labels: ['bot-fix', 'bug'] })).toBe(true);
+    expect(matchesRule(issue({ labels: ['bot-fix'] }), { labels: ['bot-fix', 'bug'] })).toBe(false);
+    expect(matchesRule(issue({ labels: ['wontfix'] }), { excludeLabels: ['wontfix'] })).toBe(false);
+  });
+
+  it('tests title and body regexes', () => {
+    expect(matchesRule(issue(), { title: '^crash' })).toBe(true);
+    expect(matchesRule(issue(), { body: 'screenshot' })).toBe(false);
+  });
+
+  it('matches author, association and milestone', () => {
+    expect(matchesRule(issue(), { authors: ['Alice'], authorAssociations: ['member'], milestone: 'v2' })).toBe(true);
+    expect(matchesRule(issue(), { authors: ['bob'] })).toBe(false);
+    expect(matchesRule(issue({ authorAssociation: undefined }), { authorAssociations: ['MEMBER'] })).toBe(false);
+    expect(matchesRule(issue(), { milestone: 'v3' })).toBe(false);
+  });
+});
+
+describe('routeIssue', () => {
+  const routing: RoutingConfig = {
+    defaultAction: 'skip',
+    rules: [
+      { name: 'wontfix', match: { labels: ['wontfix'] }, action: 'skip' },
+      { match: { labels: ['bot-fix'] }, action: 'run', maxIterations: 2 },
+      { name: 'outsiders', match: { authorAssociations: ['NONE'] }, action: 'approval' },
+    ],
+  };
+
+  it('runs everything without routing rules', () => {
+    expect(routeIssue(issue(), undefined).action).toBe('run');
+  });
+
+  it('uses the first matching rule', () => {
+    const decision = routeIssue(issue({ labels: ['bot-fix', 'wontfix'] }), routing);
+    expect(decision).toMatchObject({ action: 'skip', rule: 'wontfix' });
+  });
+
+  it('carries the rule overrides and names unnamed rules by position', () => {
+    const decision = routeIssue(issue({ labels: ['bot-fix'] }), routing);
+    expect(decision).toMatchObject({ action: 'run', rule: '2', overrides: { maxIterations: 2 } });
+  });
+
+  it('falls back to the default action', () => {
+    const decision = routeIssue(issue(), routing);
+    expect(decision.action).toBe('skip');
+    expect(decision.rule).toBeUndefined();
+  });
+
+  it('turns approval into run once the approval label is present', () => {
+    expect(routeIssue(issue({ authorAssociation: 'NONE' }), routing).action).toBe('approval');
+    expect(routeIssue(issue({ authorAssociation: 'NONE', labels: ['bot-approved'] }), routing).action).toBe('run');
+    const custom = { ...routing, approvalLabel: 'ok-to-run' };
+    expect(routeIssue(issue({ authorAssociation: 'NONE', labels: ['ok-to-run'] }), custom).action).toBe('run');
+  });
+});
+
+describe('applyRouteOverrides', () => {
+  const config = {
+    agentMode: 'multi',
+    maxIterations: 5,
+    llm: { provider: 'anthropic', apiKey: 'main-key', model: 'big', baseUrl: null },
+    reviewerLlm: { provider: 'openai', apiKey: 'review-key', model: 'gpt', baseUrl: null },
+  } as any;
+
+  it('returns config unchanged without overrides', () => {
+    expect(applyRouteOverrides(config, undefined)).toBe(config);
+  });
+
+  it('overrides mode and iterations without mutating the original', () => {
+    const result = applyRouteOverrides(config, { agentMode: 'single', maxIterations: 1 });
+    expect(result).toMatchObject({ agentMode: 'single', maxIterations: 1 });
+    expect(config.agentMode).toBe('multi');
+  });
+
+  it('merges LLM overrides over the agent config or the main LLM config', () => {
+    const result = applyRouteOverrides(config, { llm: { coder: { model: 'small' }, reviewer: { model: 'gpt-mini' } } });
+    expect(result.coderLlm).toEqual({ provider: 'anthropic', apiKey: 'main-key', model: 'small', baseUrl: null });
+    expect(result.reviewerLlm).toEqual({ provider: 'openai', apiKey: 'review-key', model: 'gpt-mini', baseUrl: null });
+    expect(result.issuerLlm).toBeUndefined();
+  });
+});
+
+describe('toRoutableIssue', () => {
+  it('extracts routing fields from a GitHub issue object', () => {
+    expect(toRoutableIssue({
+      title: 'T',
+      body: null,
+      labels: [{ name: 'bug' }, 'raw'],
+      user: { login: 'alice' },
+      author_association: 'OWNER',
+      milestone: { title: 'v2' },
+    })).toEqual({ title: 'T', body: '', labels: ['bug', 'raw'], author: 'alice', authorAssociation: 'OWNER', milestone: 'v2' });
+  });
+});
+
+describe('loadRoutingConfig', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const repoRepository = (configJson?: Record<string, unknown>) => ({
+    getByOwnerRepo: () => ({ id: 1, owner: 'o', repo: 'r', isActive: true, addedAt: '', configJson }),
+  }) as any;
+
+  it('reads the routing section from the repo record', async () => {
+    const routing = { rules: [{ action: 'skip' }] };
+    expect(await loadRoutingConfig(repoRepository({ routing }), 'o', 'r')).toEqual(routing);
+    expect(await loadRoutingConfig(undefined, 'o', 'r')).toBeUndefined();
+  });
+
+  it('skips everything when the stored config is invalid', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const result = await loadRoutingConfig(repoRepository({ routing: { rules: 'bad' } }), 'o', 'r');
+    expect(result).toEqual({ rules: [], defaultAction: 'skip' });
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Invalid routing config'));
+  });
+});
+
+describe('requestIssueApproval', () => {
+  const decision = { action: 'approval', reason: 'No rule matched' } as const;
+  const gitlab = () => ({ kind: 'gitlab', listIssueComments: vi.fn().mockResolvedValue([]), commentOnIssue: vi.fn().mockResolvedValue({ id: 1, body: '' }) });
+
+  it('asks on the issue through the provider of a GitLab repo', async () => {
+    const scm = gitlab();
+    await requestIssueApproval({ github: { owner: 'o', repo: 'r' } } as any, 7, decision, { rules: [], approvalLabel: 'go' }, scm as any);
+    expect(scm.commentOnIssue).toHaveBeenCalledWith(7, expect.stringContaining(`${APPROVAL_MARKER}\nThis issue is waiting for approval`));
+    expect(scm.commentOnIssue.mock.calls[0][1]).toContain('Add the `go` label to approve.');
+  });
+
+  it('asks only once', async () => {
+    const scm = gitlab();
+    scm.listIssueComments.mockResolvedValue([{ id: 1, body: `${APPROVAL_MARKER}\nWaiting` }]);
+    await requestIssueApproval({ github: { owner: 'o', repo: 'r' } } as any, 7, decision, undefined, scm as any);
+    expect(scm.commentOnIssue).not.toHaveBeenCalled();
+  });
+});
+
+describe('mergeRouteOverrides', () => {
+  it('lets the second set win, merging LLM overrides per agent', () => {
+    const merged = mergeRouteOverrides(
+      { maxIterations: 2, llm: { coder: { provider: 'openai', model: 'a' } } },
+      { maxIterations: 4, llm: { coder: { model: 'b' }, reviewer: { model: 'c' } } },
+    );
+    expect(merged).toEqual({ maxIterations: 4, llm: { coder: { provider: 'openai', model: 'b' }, reviewer: { model: 'c' } } });
+  });
+
+  it('returns whichever side is set', () => {
+    expect(mergeRouteOverrides(undefined, undefined)).toBeUndefined();
+    expect(mergeRouteOverrides({ agentMode: 'single' }, undefined)).toEqual({ agentMode: 'single' });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { JobQueue, computeRetryDelay } from '../src/job-queue.js';
+import type { JobEvent } from '../src/job-queue.js';
+import { InMemoryJobRepository } from '../src/job-repository.js';
+
+/** Promise plus its resolver, for holding a handler open. */
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('computeRetryDelay', () => {
+  it('doubles the base delay with each attempt', () => {
+    expect(computeRetryDelay(1000, 1)).toBe(1000);
+    expect(computeRetryDelay(1000, 2)).toBe(2000);
+    expect(computeRetryDelay(1000, 3)).toBe(4000);
+  });
+});
+
+describe('JobQueue', () => {
+  let queue: JobQueue;
+  let repo: InMemoryJobRepository;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    repo = new InMemoryJobRepository();
+  });
+
+  afterEach(() => {
+    queue?.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('runs an enqueued job and marks it completed', async () => {
+    queue = new JobQueue(repo);
+    const handler = vi.fn().mockResolvedValue(undefined);
+    queue.register('webhook', handler);
+    await queue.start();
+
+    const job = await queue.enqueue('webhook', 'o/r', { hello: 'world' });
+    await vi.waitFor(() => expect(repo.getById(job.id)!.status).toBe('completed'));
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: job.id, payload: { hello: 'world' } }));
+  });
+
+  it('does not run jobs before start()', async () => {
+    queue = new JobQueue(repo);
+    const handler = vi.fn().mockResolvedValue(undefined);
+    queue.register('webhook', handler);
+
+    await queue.enqueue('webhook', 'o/r', {});
+    await new Promise((r) => setTimeout(r, 20));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(repo.list({ status: 'queued' })).toHaveLength(1);
+  });
+
+  it('retries a failing job with backoff, then dead-letters it', async () => {
+    queue = new JobQueue(repo, { maxAttempts: 2, retryBaseDelayMs: 10, pollIntervalMs: 5 });
+    const handler = vi.fn().mockRejectedValue(new Error('API down'));
+    queue.register('webhook', handler);
+    const events: JobEvent[] = [];
+    queue.on('job_event', (e) => events.push(e));
+    await queue.start();
+
+    const job = await queue.enqueue('webhook', 'o/r', {});
+    await vi.waitFor(() => expect(repo.getById(job.id)!.status).toBe('dead'));
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(repo.getById(job.id)).toMatchObject({ attempts: 2, lastError: 'API down' });
+    expect(events.map(e => e.type)).toEqual(['job_queued', 'job_started', 'job_retry', 'job_started', 'job_dead']);
+  });
+
+  it('dead-letters jobs with no registered handler', async () => {
+    queue = new JobQueue(repo);
+    await queue.start();
+
+    const job = await queue.enqueue('mystery', 'o/r', {});
+    await vi.waitFor(() => expect(repo.getById(job.id)!.status).toBe('dead'));
+    expect(repo.getById(job.id)!.lastError).toContain('No handler');
+  });
+
+  it('respects the global concurrency limit', async () => {
+    queue = new JobQueue(repo, { concurrency: 2, perRepoConcurrency: 10 });
+    const gate = deferred();
+    let running = 0;
+    let peak = 0;
+    queue.register('webhook', async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await gate.promise;
+      running--;
+    });
+    await queue.start();
+
+    for (let i = 0; i < 4; i++) await queue.enqueue('webhook', `o/r${i}`, {});
+    await vi.waitFor(() => expect(running).toBe(2));
+    expect(repo.list({ status: 'queued' })).toHaveLength(2);
+
+    gate.resolve();
+    await vi.waitFor(() => expect(repo.list({ status: 'completed' })).toHaveLength(4));
+    expect(peak).toBe(2);
+  });
+
+  it('respects the per-repo concurrency limit', async () => {
+    queue = new JobQueue(repo, { concurrency: 5, perRepoConcurrency: 1 });
+    const gate = deferred();
+    const started: string[] = [];
+    queue.register('webhook', async (job) => {
+      started.push(job.repoKey);
+      await gate.promise;
+    });
+    await queue.start();
+
+    await queue.enqueue('webhook', 'a/a', {});
+    await queue.enqueue('webhook', 'a/a', {});
+    await queue.enqueue('webhook', 'b/b', {});
+    await vi.waitFor(() => expect(started).toHaveLength(2));
+    expect(started.sort()).toEqual(['a/a', 'b/b']);
+
+    gate.resolve();
+    await vi.waitFor(() => expect(repo.list({ status: 'completed' })).toHaveLength(3));
+  });
+
+  it('resumes jobs left running by a previous process on start', async () => {
+    const first = repo.enqueue({ type: 'webhook', repoKey: 'o/r', payload: {}, maxAttempts: 3 });
+    repo.claimNext([]); // simulate a crash mid-run
+
+    queue = new JobQueue(repo);
+    const handler = vi.fn().mockResolvedValue(undefined);
+    queue.register('webhook', handler);
+    await queue.start();
+
+    await vi.waitFor(() => expect(repo.getById(first.id)!.status).toBe('completed'));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('retry() re-queues a dead job', async () => {
+    queue = new JobQueue(repo, { maxAttempts: 1 });
+    let fail = true;
+    queue.register('webhook', async () => { if (fail) throw new Error('nope'); });
+    await queue.start();
+
+    const job = await queue.enqueue('webhook', 'o/r', {});
+    await vi.waitFor(() => expect(repo.getById(job.id)!.status).toBe('dead'));
+
+    fail = false;
+    expect(await queue.retry(job.id)).toBeDefined();
+    await vi.waitFor(() => expect(repo.getById(job.id)!.status).toBe('completed'));
+  });
+});
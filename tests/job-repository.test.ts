@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryJobRepository } from '../src/job-repository.js';
+
+const input = (repoKey = 'o/r') => ({ type: 'webhook', repoKey, payload: { n: 1 }, maxAttempts: 3 });
+
+describe('InMemoryJobRepository', () => {
+  it('enqueue creates a queued job', () => {
+    const repo = new InMemoryJobRepository();
+    const job = repo.enqueue(input());
+    expect(job.id).toBe(1);
+    expect(job.status).toBe('queued');
+    expect(job.attempts).toBe(0);
+    expect(job.runAt).toBeDefined();
+  });
+
+  it('claimNext marks the oldest due job running and counts the attempt', () => {
+    const repo = new InMemoryJobRepository();
+    const first = repo.enqueue(input());
+    repo.enqueue(input());
+    const claimed = repo.claimNext([]);
+    expect(claimed!.id).toBe(first.id);
+    expect(claimed!.status).toBe('running');
+    expect(claimed!.attempts).toBe(1);
+    expect(repo.getById(first.id)!.status).toBe('running');
+  });
+
+  it('claimNext skips excluded repo keys and jobs not yet due', () => {
+    const repo = new InMemoryJobRepository();
+    repo.enqueue(input('busy/repo'));
+    repo.enqueue({ ...input('other/repo'), runAt: new Date(Date.now() + 60_000).toISOString() });
+    expect(repo.claimNext(['busy/repo'])).toBeUndefined();
+  });
+
+  it('fail with retryAt re-queues, fail without dead-letters', () => {
+    const repo = new InMemoryJobRepository();
+    const job = repo.enqueue(input());
+    repo.claimNext([]);
+    const later = new Date(Date.now() + 1000).toISOString();
+    repo.fail(job.id, 'boom', later);
+    expect(repo.getById(job.id)).toMatchObject({ status: 'queued', lastError: 'boom', runAt: later });
+
+    repo.fail(job.id, 'boom again', null);
+    expect(repo.getById(job.id)).toMatchObject({ status: 'dead', lastError: 'boom again' });
+  });
+
+  it('retry re-queues only dead jobs with a fresh attempt count', () => {
+    const repo = new InMemoryJobRepository();
+    const job = repo.enqueue(input());
+    expect(repo.retry(job.id)).toBeUndefined();
+    repo.claimNext([]);
+    repo.fail(job.id, 'boom', null);
+    const retried = repo.retry(job.id);
+    expect(retried).toMatchObject({ status: 'queued', attempts: 0 });
+  });
+
+  it('requeueRunning resets interrupted jobs', () => {
+    const repo = new InMemoryJobRepository();
+    repo.enqueue(input('a/a'));
+    repo.enqueue(input('b/b'));
+    repo.claimNext([]);
+    repo.claimNext([]);
+    expect(repo.requeueRunning()).toBe(2);
+    expect(repo.list({ status: 'queued' })).toHaveLength(2);
+  });
+
+  it('list returns newest first and honours filter and limit', () => {
+    const repo = new InMemoryJobRepository();
+    repo.enqueue(input());
+    repo.enqueue(input());
+    const third = repo.enqueue(input());
+    repo.complete(repo.claimNext([])!.id);
+    expect(repo.list()[0].id).toBe(third.id);
+    expect(repo.list({ status: 'completed' })).toHaveLength(1);
+    expect(repo.list({ limit: 2 })).toHaveLength(2);
+  });
+});
@@ -6,14 +6,24 @@ import {
   verifySignature,
   handlePullRequestEvent,
   handleWebhookEvent,
+  dispatchWebhookEvent,
+  getWebhookRepoKey,
+  WEBHOOK_JOB,
   handleIssuesEvent,
   handleIssueCommentEvent,
+  handlePullRequestReviewEvent,
+  handleCiCompletedEvent,
+  isImmediateWebhookEvent,
   extractPromptCommand,
   isBotPr,
   BOT_PR_MARKER,
   PROMPT_TRIGGER,
 } from '../src/listener.js';
 import type { WebhookConfig, WebhookEvent } from '../src/listener.js';
+import { JobQueue } from '../src/job-queue.js';
+import { InMemoryJobRepository } from '../src/job-repository.js';
+import { InMemoryWebhookDeliveryRepository } from '../src/webhook-delivery-repository.js';
+import { InMemoryClaimRepository } from '../src/claim-repository.js';
 
 vi.mock('../src/architect.js', () => ({
   runArchitect: vi.fn().mockResolvedValue({
@@ -35,13 +45,27 @@ vi.mock('../src/chat-agent.js', () => ({
 }));
 
 const mockPullsGet = vi.fn();
+const mockGetPermission = vi.fn();
+const mockCreateReaction = vi.fn();
+const mockCreateComment = vi.fn();
+const mockGetReview = vi.fn();
+const mockListCommentsForReview = vi.fn();
+const mockListChecksForRef = vi.fn();
+const mockDownloadJobLogs = vi.fn();
 vi.mock('../src/github-tools.js', () => ({
+  BOT_THREAD_REPLY_MARKER: '<!-- deep-agent-thread-reply -->',
   createGitHubClient: vi.fn(() => ({
     rest: {
-      pulls: { get: mockPullsGet },
+      pulls: { get: mockPullsGet, getReview: mockGetReview, listCommentsForReview: mockListCommentsForReview },
+      repos: { getCollaboratorPermissionLevel: mockGetPermission },
+      reactions: { createForIssueComment: mockCreateReaction },
+      issues: { createComment: mockCreateComment },
+      checks: { listForRef: mockListChecksForRef },
+      actions: { downloadJobLogsForWorkflowRun: mockDownloadJobLogs },
     },
   })),
   getAuthFromConfig: vi.fn(() => 'mock-token'),
+  githubWebUrl: vi.fn(() => 'https://github.com'),
 }));
 
 import { runArchitect } from '../src/architect.js';
@@ -306,6 +330,29 @@ describe('createWebhookApp', () => {
     expect(res.status).toBe(400);
     expect(res.body.error).toBe('Invalid JSON payload');
   });
+
+  it('POST /webhook drops a redelivery of a known delivery id', async () => {
+    const deliveryRepository = new InMemoryWebhookDeliveryRepository();
+    const app = createWebhookApp(config, undefined, { deliveryRepository });
+    const body = JSON.stringify({ action: 'labeled' });
+    const request = {
+      body,
+      headers: {
+        'x-hub-signature-256': sign(body),
+        'x-github-event': 'issues',
+        'x-github-delivery': 'delivery-dup',
+      },
+    };
+
+    const first = await inject(app, 'POST', '/webhook', request);
+    const second = await inject(app, 'POST', '/webhook', request);
+
+    expect(first.body.duplicate).toBeUndefined();
+    expect(second.status).toBe(200);
+    expect(second.body.duplicate).toBe(true);
+    expect(deliveryRepository.getById('delivery-dup')!.duplicateCount).toBe(1);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Duplicate delivery delivery-dup'));
+  });
 });
 
 // ── isBotPr ─────────────────────────────────────────────────────────────────
@@ -511,7 +558,7 @@ describe('handleWebhookEvent', () => {
     vi.restoreAllMocks();
   });
 
-  it('dispatches pull_request events', () => {
+  it('dispatches pull_request events', async () => {
     const event: WebhookEvent = {
       event: 'pull_request',
       deliveryId: 'dispatch-1',
@@ -530,10 +577,10 @@ describe('handleWebhookEvent', () => {
 
     // Should not throw
     handleWebhookEvent(event);
-    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('queued for review'));
+    await vi.waitFor(() => expect(console.log).toHaveBeenCalledWith(expect.stringContaining('queued for review')));
   });
 
-  it('dispatches issues events', () => {
+  it('dispatches issues events', async () => {
     const event: WebhookEvent = {
       event: 'issues',
       deliveryId: 'dispatch-3',
@@ -542,7 +589,7 @@ describe('handleWebhookEvent', () => {
 
     // Should not throw — fires and forgets
     handleWebhookEvent(event);
-    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Issue #1'));
+    await vi.waitFor(() => expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Issue #1')));
   });
 
   it('dispatches issue_comment events', () => {
@@ -565,6 +612,19 @@ describe('handleWebhookEvent', () => {
     handleWebhookEvent(event);
   });
 
+  it('treats issues.closed and /cancel or /status comments as immediate', () => {
+    const comment = (body: string): WebhookEvent => ({
+      event: 'issue_comment',
+      deliveryId: 'immediate',
+      payload: { action: 'created', comment: { body }, issue: { number: 1 } },
+    });
+    expect(isImmediateWebhookEvent({ event: 'issues', deliveryId: 'x', payload: { action: 'closed' } })).toBe(true);
+    expect(isImmediateWebhookEvent(comment('/cancel'))).toBe(true);
+    expect(isImmediateWebhookEvent(comment('please /status'))).toBe(true);
+    expect(isImmediateWebhookEvent(comment('/prompt fix it'))).toBe(false);
+    expect(isImmediateWebhookEvent({ event: 'issues', deliveryId: 'x', payload: { action: 'opened' } })).toBe(false);
+  });
+
   it('ignores unhandled event types without error', () => {
     const event: WebhookEvent = {
       event: 'push',
@@ -576,6 +636,134 @@ describe('handleWebhookEvent', () => {
     // Should not call error
     expect(console.error).not.toHaveBeenCalled();
   });
+
+  it('enqueues the event instead of running it when a job queue is given', async () => {
+    const jobRepo = new InMemoryJobRepository();
+    const queue = new JobQueue(jobRepo);
+    const event: WebhookEvent = {
+      event: 'issues',
+      deliveryId: 'dispatch-5',
+      payload: { action: 'opened', issue: { number: 3 }, repository: { full_name: 'acme/widgets' } },
+    };
+
+    handleWebhookEvent(event, undefined, { jobQueue: queue });
+
+    await vi.waitFor(() => expect(jobRepo.list()).toHaveLength(1));
+    const [job] = jobRepo.list();
+    expect(job.type).toBe(WEBHOOK_JOB);
+    expect(job.repoKey).toBe('acme/widgets');
+    expect(job.payload).toEqual(event);
+    expect(runArchitect).not.toHaveBeenCalled();
+  });
+});
+
+// ── dispatchWebhookEvent ────────────────────────────────────────────────────
+
+describe('dispatchWebhookEvent', () => {
+  const config = { github: { owner: 'o', repo: 'r', token: 't' }, llm: { provider: 'anthropic', apiKey: 'k', model: 'm' } } as any;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(runArchitect).mockReset().mockResolvedValue({
+      issueNumber: 0, prNumber: null, prNumbers: [], outcome: 'done',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('resolves once the handler has finished', async () => {
+    const event: WebhookEvent = { event: 'issues', deliveryId: 'd-1', payload: { action: 'opened', issue: { number: 8 } } };
+
+    await dispatchWebhookEvent(event, config);
+
+    expect(runArchitect).toHaveBeenCalledWith(config, 8, expect.any(Object));
+  });
+
+  it('rejects when the triggered run failed so the job can be retried', async () => {
+    vi.mocked(runArchitect).mockRejectedValue(new Error('API down'));
+    const event: WebhookEvent = { event: 'issues', deliveryId: 'd-2', payload: { action: 'opened', issue: { number: 9 } } };
+
+    await expect(dispatchWebhookEvent(event, config)).rejects.toThrow('API down');
+  });
+
+  it('resolves with an unhandled result for ignored events', async () => {
+    const event: WebhookEvent = { event: 'push', deliveryId: 'd-3', payload: {} };
+    await expect(dispatchWebhookEvent(event, config)).resolves.toEqual({
+      handled: false,
+      reason: 'Unhandled event type: push',
+    });
+  });
+
+  it('records the handling result on the stored delivery', async () => {
+    const deliveryRepository = new InMemoryWebhookDeliveryRepository();
+    const handled: WebhookEvent = { event: 'issues', deliveryId: 'd-4', payload: { action: 'opened', issue: { number: 4 } } };
+    const ignored: WebhookEvent = { event: 'issues', deliveryId: 'd-5', payload: { action: 'closed', issue: { number: 4 } } };
+    deliveryRepository.record(handled);
+    deliveryRepository.record(ignored);
+
+    await dispatchWebhookEvent(handled, config, { deliveryRepository });
+    await dispatchWebhookEvent(ignored, config, { deliveryRepository });
+
+    expect(deliveryRepository.getById('d-4')).toMatchObject({ status: 'handled', reason: 'Analysis triggered' });
+    expect(deliveryRepository.getById('d-5')).toMatchObject({ status: 'ignored', reason: 'Ignored action: closed' });
+  });
+
+  it('records failures on the stored delivery', async () => {
+    vi.mocked(runArchitect).mockRejectedValue(new Error('API down'));
+    const deliveryRepository = new InMemoryWebhookDeliveryRepository();
+    const event: WebhookEvent = { event: 'issues', deliveryId: 'd-6', payload: { action: 'opened', issue: { number: 6 } } };
+    deliveryRepository.record(event);
+
+    await expect(dispatchWebhookEvent(event, config, { deliveryRepository })).rejects.toThrow();
+
+    expect(deliveryRepository.getById('d-6')).toMatchObject({ status: 'failed', reason: 'API down' });
+  });
+
+  it('runs events against the registered repo they came from', async () => {
+    const record = { id: 7, owner: 'acme', repo: 'api', isActive: true, addedAt: '' };
+    const repoRepository = { getByOwnerRepo: vi.fn((owner: string, repo: string) => owner === 'acme' && repo === 'api' ? record : undefined) } as any;
+    const event: WebhookEvent = { event: 'issues', deliveryId: 'd-7', payload: { action: 'opened', issue: { number: 5 }, repository: { full_name: 'acme/api' } } };
+
+    await dispatchWebhookEvent(event, config, { repoRepository, repoId: 0 });
+
+    expect(runArchitect).toHaveBeenCalledWith(
+      expect.objectContaining({ github: expect.objectContaining({ owner: 'acme', repo: 'api' }) }),
+      5,
+      expect.objectContaining({ repoId: 7 }),
+    );
+  });
+
+  it('ignores deliveries from repos that are not registered', async () => {
+    const deliveryRepository = new InMemoryWebhookDeliveryRepository();
+    const repoRepository = { getByOwnerRepo: vi.fn(() => undefined) } as any;
+    const event: WebhookEvent = { event: 'issues', deliveryId: 'd-8', payload: { action: 'opened', issue: { number: 5 }, repository: { full_name: 'stranger/repo' } } };
+    deliveryRepository.record(event);
+
+    await expect(dispatchWebhookEvent(event, config, { repoRepository, deliveryRepository })).resolves.toEqual({
+      handled: false,
+      reason: 'Repo stranger/repo is not registered',
+    });
+    expect(runArchitect).not.toHaveBeenCalled();
+    expect(deliveryRepository.getById('d-8')).toMatchObject({ status: 'ignored' });
+  });
+});
+
+// ── getWebhookRepoKey ───────────────────────────────────────────────────────
+
+describe('getWebhookRepoKey', () => {
+  it('uses the payload repository full_name', () => {
+    const event: WebhookEvent = { event: 'issues', deliveryId: 'x', payload: { repository: { full_name: 'a/b' } } };
+    expect(getWebhookRepoKey(event, { github: { owner: 'o', repo: 'r' } } as any)).toBe('a/b');
+  });
+
+  it('falls back to the configured repo', () => {
+    const event: WebhookEvent = { event: 'issues', deliveryId: 'x', payload: {} };
+    expect(getWebhookRepoKey(event, { github: { owner: 'o', repo: 'r' } } as any)).toBe('o/r');
+  });
 });
 
 // ── handleIssuesEvent ───────────────────────────────────────────────────────
@@ -666,6 +854,105 @@ describe('handleIssuesEvent', () => {
       expect.any(Error),
     );
   });
+
+  describe('follow-up events', () => {
+    const config = {
+      github: { owner: 'o', repo: 'r', token: 't' },
+      llm: { provider: 'anthropic', apiKey: 'k', model: 'm' },
+      issueEvents: { actions: ['opened', 'labeled', 'closed'], triggerLabels: ['ai-fix'], editThreshold: 0.3 },
+    } as any;
+
+    it('continues the existing PR when a trigger label is added', async () => {
+      mockPullsGet.mockResolvedValue({ data: { head: { ref: 'issue-8-fix' } } });
+      const pollRepository = {
+        getIssueActions: () => ({ comment: null, branch: null, commits: [], pr: { number: 20, html_url: '' } }),
+        setIssueActions: vi.fn(),
+      } as any;
+      const event = makeEvent({ action: 'labeled', label: { name: 'ai-fix' }, issue: { number: 8, title: 'Bug', labels: [] } });
+
+      const result = await handleIssuesEvent(event, config, { pollRepository });
+
+      expect(result).toMatchObject({ handled: true, reason: 'Continuing PR #20 (issue labeled)' });
+      expect(runArchitect).toHaveBeenCalledWith(config, 8, expect.objectContaining({
+        continueContext: { prNumber: 20, branchName: 'issue-8-fix', humanFeedback: undefined },
+      }));
+    });
+
+    it('records the PR of a completed run', async () => {
+      vi.mocked(runArchitect).mockResolvedValue({ issueNumber: 8, prNumber: 21, prNumbers: [21], outcome: 'done' } as any);
+      const pollRepository = { getIssueActions: () => undefined, setIssueActions: vi.fn() } as any;
+      const event = makeEvent({ action: 'opened', issue: { number: 8, title: 'Bug', labels: [] } });
+
+      await handleIssuesEvent(event, config, { pollRepository, repoId: 3 });
+
+      expect(pollRepository.setIssueActions).toHaveBeenCalledWith(3, 8, expect.objectContaining({ pr: expect.objectContaining({ number: 21 }) }));
+    });
+
+    it('aborts a running analysis when the issue is closed', async () => {
+      let signal: AbortSignal | undefined;
+      vi.mocked(runArchitect).mockImplementation((_c, _n, opts) => {
+        signal = opts?.signal;
+        return new Promise((_resolve, reject) => signal!.addEventListener('abort', () => reject(new Error('aborted'))));
+      });
+      const running = handleIssuesEvent(makeEvent({ action: 'opened', issue: { number: 9, title: 'Bug', labels: [] } }), config);
+      await vi.waitFor(() => expect(signal).toBeDefined());
+
+      const closed = await handleIssuesEvent(makeEvent({ action: 'closed', issue: { number: 9 } }), config);
+
+      expect(closed).toMatchObject({ handled: true, reason: 'Issue closed, cancelled 1 running analysis(es)' });
+      const result = await running;
+      expect(signal!.aborted).toBe(true);
+      expect(result.error).toBeUndefined();
+    });
+  });
+
+  describe('routing', () => {
+    const config = { github: { owner: 'o', repo: 'r', token: 't' }, llm: { provider: 'anthropic', apiKey: 'k', model: 'm' }, agentMode: 'multi' } as any;
+    const repoRepository = (routing: Record<string, unknown>) => ({
+      getByOwnerRepo: () => ({ id: 1, owner: 'o', repo: 'r', isActive: true, addedAt: '', configJson: { routing } }),
+    }) as any;
+    const optIn = {
+      defaultAction: 'skip',
+      rules: [
+        { name: 'bot-fix', match: { labels: ['bot-fix'] }, action: 'run', agentMode: 'single', maxIterations: 2 },
+        { name: 'outsiders', match: { authorAssociations: ['NONE'] }, action: 'approval' },
+      ],
+    };
+
+    it('skips issues that no rule opts in', async () => {
+      const event = makeEvent({ action: 'opened', issue: { number: 7, title: 'Bug', labels: [] } });
+
+      const result = await handleIssuesEvent(event, config, { repoRepository: repoRepository(optIn) });
+
+      expect(result.handled).toBe(false);
+      expect(result.reason).toContain('Routing: No rule matched');
+      expect(runArchitect).not.toHaveBeenCalled();
+    });
+
+    it('runs matching issues with the rule overrides applied', async () => {
+      const event = makeEvent({ action: 'opened', issue: { number: 8, title: 'Bug', labels: [{ name: 'bot-fix' }] } });
+
+      const result = await handleIssuesEvent(event, config, { repoRepository: repoRepository(optIn) });
+
+      expect(result.handled).toBe(true);
+      expect(runArchitect).toHaveBeenCalledWith(
+        expect.objectContaining({ agentMode: 'single', maxIterations: 2 }),
+        8,
+        expect.any(Object),
+      );
+    });
+
+    it('holds issues that need approval', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const event = makeEvent({ action: 'opened', issue: { number: 9, title: 'Bug', labels: [], author_association: 'NONE' } });
+
+      const result = await handleIssuesEvent(event, config, { repoRepository: repoRepository(optIn) });
+
+      expect(result.handled).toBe(false);
+      expect(result.reason).toContain('Awaiting approval');
+      expect(runArchitect).not.toHaveBeenCalled();
+    });
+  });
 });
 
 // ── extractPromptCommand ─────────────────────────────────────────────────────
@@ -721,6 +1008,9 @@ describe('handleIssueCommentEvent', () => {
         body: `Some text\n${BOT_PR_MARKER}\nCloses #42`,
       },
     });
+    mockGetPermission.mockReset().mockResolvedValue({ data: { permission: 'write', role_name: 'write' } });
+    mockCreateReaction.mockReset().mockResolvedValue({});
+    mockCreateComment.mockReset().mockResolvedValue({});
   });
 
   afterEach(() => {
@@ -742,7 +1032,9 @@ describe('handleIssueCommentEvent', () => {
     return {
       action: opts.action ?? 'created',
       comment: {
+        id: 555,
         body: opts.commentBody ?? '/prompt fix the validation for negative numbers',
+        user: { login: 'alice', type: 'User' },
       },
       issue: {
         number: opts.issueNumber ?? 99,
@@ -798,12 +1090,12 @@ describe('handleIssueCommentEvent', () => {
     expect(runArchitect).not.toHaveBeenCalled();
   });
 
-  it('ignores comments without /prompt', async () => {
+  it('ignores comments without a command', async () => {
     const event = makeEvent(makeCommentPayload({ commentBody: 'Looks good to me!' }));
     const result = await handleIssueCommentEvent(event, mockConfig);
 
     expect(result.handled).toBe(false);
-    expect(result.reason).toContain('No /prompt command');
+    expect(result.reason).toContain('No command found');
     expect(runArchitect).not.toHaveBeenCalled();
   });
 
@@ -890,6 +1182,319 @@ describe('handleIssueCommentEvent', () => {
     expect(result.reason).toContain('Could not extract issue number');
     expect(runArchitect).not.toHaveBeenCalled();
   });
+
+  describe('slash commands', () => {
+    it('acknowledges an accepted command with a reaction', async () => {
+      await handleIssueCommentEvent(makeEvent(makeCommentPayload()), mockConfig);
+
+      expect(mockGetPermission).toHaveBeenCalledWith({ owner: 'o', repo: 'r', username: 'alice' });
+      expect(mockCreateReaction).toHaveBeenCalledWith({ owner: 'o', repo: 'r', comment_id: 555, content: 'eyes' });
+    });
+
+    it('refuses commenters without the required permission', async () => {
+      mockGetPermission.mockResolvedValue({ data: { permission: 'read', role_name: 'triage' } });
+      const result = await handleIssueCommentEvent(makeEvent(makeCommentPayload()), mockConfig);
+
+      expect(result.handled).toBe(false);
+      expect(result.reason).toContain('Permission denied');
+      expect(mockCreateReaction).toHaveBeenCalledWith(expect.objectContaining({ content: '-1' }));
+      expect(mockCreateComment).toHaveBeenCalledWith(expect.objectContaining({ issue_number: 99, body: expect.stringContaining('needs write permission') }));
+      expect(runArchitect).not.toHaveBeenCalled();
+    });
+
+    it('runs /analyze on issues', async () => {
+      const event = makeEvent(makeCommentPayload({ commentBody: '/analyze', hasPullRequest: false, issueNumber: 7 }));
+      const result = await handleIssueCommentEvent(event, mockConfig);
+
+      expect(result).toMatchObject({ handled: true, issueNumber: 7, command: 'analyze', reason: 'Analysis triggered' });
+      expect(runArchitect).toHaveBeenCalledWith(mockConfig, 7, expect.objectContaining({
+        processId: expect.stringMatching(/^command-7-/),
+      }));
+    });
+
+    it('rejects /analyze on a PR', async () => {
+      const result = await handleIssueCommentEvent(makeEvent(makeCommentPayload({ commentBody: '/analyze' })), mockConfig);
+
+      expect(result.reason).toContain('only works on issues');
+      expect(runArchitect).not.toHaveBeenCalled();
+    });
+
+    it('reports bad arguments with a confused reaction and usage', async () => {
+      const result = await handleIssueCommentEvent(makeEvent(makeCommentPayload({ commentBody: '/iterate lots' })), mockConfig);
+
+      expect(result.handled).toBe(false);
+      expect(mockCreateReaction).toHaveBeenCalledWith(expect.objectContaining({ content: 'confused' }));
+      expect(mockCreateComment).toHaveBeenCalledWith(expect.objectContaining({ body: expect.stringContaining('/iterate <N>') }));
+    });
+
+    it('continues the PR with a maxIterations override on /iterate', async () => {
+      await handleIssueCommentEvent(makeEvent(makeCommentPayload({ commentBody: '/iterate 2' })), mockConfig);
+
+      expect(runArchitect).toHaveBeenCalledWith(
+        expect.objectContaining({ maxIterations: 2 }),
+        42,
+        expect.objectContaining({ continueContext: expect.objectContaining({ prNumber: 99, humanFeedback: undefined }) }),
+      );
+    });
+
+    it('ignores comments posted by bots', async () => {
+      const payload = makeCommentPayload();
+      (payload.comment as any).user = { login: 'deep-agent[bot]', type: 'Bot' };
+      const result = await handleIssueCommentEvent(makeEvent(payload), mockConfig);
+
+      expect(result.reason).toContain('bot');
+      expect(runArchitect).not.toHaveBeenCalled();
+    });
+
+    it('reports and cancels a running analysis with /status and /cancel', async () => {
+      let finish!: () => void;
+      let signal!: AbortSignal;
+      vi.mocked(runArchitect).mockImplementation(async (_config, _issue, options) => {
+        signal = options!.signal!;
+        options!.onProgress?.({ phase: 'coder', action: 'started', iteration: 1, maxIterations: 3 });
+        await new Promise<void>(resolve => { finish = resolve; });
+        return { issueNumber: 42, prNumber: 99, prNumbers: [99], outcome: 'done' } as any;
+      });
+      const running = handleIssueCommentEvent(makeEvent(makeCommentPayload()), mockConfig);
+      await vi.waitFor(() => expect(finish).toBeDefined());
+
+      await handleIssueCommentEvent(makeEvent(makeCommentPayload({ commentBody: '/status' })), mockConfig);
+      expect(mockCreateComment).toHaveBeenCalledWith(expect.objectContaining({
+        body: expect.stringMatching(/phase: coder, iteration 1\/3, cost: \$0\.0000/),
+      }));
+
+      const cancel = await handleIssueCommentEvent(makeEvent(makeCommentPayload({ commentBody: '/cancel' })), mockConfig);
+      expect(cancel).toMatchObject({ handled: true, reason: 'Cancelled 1 run(s)' });
+      expect(signal.aborted).toBe(true);
+
+      finish();
+      await running;
+    });
+  });
+
+  it('refuses commands for repos on GitLab', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await handleIssueCommentEvent(makeEvent(makeCommentPayload()), { ...mockConfig, scm: { provider: 'gitlab' } });
+
+    expect(result).toMatchObject({ handled: false, prNumber: 99, reason: 'Slash commands are not supported for gitlab repos' });
+    expect(mockGetPermission).not.toHaveBeenCalled();
+    expect(mockPullsGet).not.toHaveBeenCalled();
+    expect(mockCreateComment).not.toHaveBeenCalled();
+  });
+});
+
+// ── handlePullRequestReviewEvent ───────────────────────────────────────────
+
+describe('handlePullRequestReviewEvent', () => {
+  const mockConfig = {
+    github: { owner: 'o', repo: 'r', token: 't' },
+    llm: { provider: 'anthropic', apiKey: 'k', model: 'm' },
+  } as any;
+  const pullRequest = { number: 99, title: 'Fix #42: improve login', body: BOT_PR_MARKER, head: { ref: 'issue-42-fix-login' } };
+  const humanReview = { id: 500, body: 'A few things', state: 'changes_requested', user: { login: 'alice', type: 'User' } };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(runArchitect).mockReset().mockResolvedValue({
+      issueNumber: 42, prNumber: 99, prNumbers: [99], outcome: 'done',
+    });
+    mockGetPermission.mockReset().mockResolvedValue({ data: { permission: 'write', role_name: 'write' } });
+    mockGetReview.mockReset().mockResolvedValue({ data: humanReview });
+    mockListCommentsForReview.mockReset().mockResolvedValue({
+      data: [
+        { id: 1, path: 'src/login.ts', line: 10, body: 'Handle the empty password case' },
+        { id: 2, path: 'src/login.ts', line: 30, body: 'Agreed, see above', in_reply_to_id: 1 },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const reviewEvent = (review: Record<string, unknown> = humanReview, deliveryId = 'review-1'): WebhookEvent => ({
+    event: 'pull_request_review',
+    deliveryId,
+    payload: { action: 'submitted', review, pull_request: pullRequest },
+  });
+
+  it('continues the PR with the inline comments as feedback', async () => {
+    const result = await handlePullRequestReviewEvent(reviewEvent(), mockConfig);
+
+    expect(result).toMatchObject({ handled: true, prNumber: 99, issueNumber: 42, reviewId: 500 });
+    expect(mockListCommentsForReview).toHaveBeenCalledWith(expect.objectContaining({ pull_number: 99, review_id: 500 }));
+    const feedback = vi.mocked(runArchitect).mock.calls[0][2]!.continueContext!.humanFeedback!;
+    expect(feedback).toContain('@alice reviewed PR #99 (changes requested)');
+    expect(feedback).toContain('1. src/login.ts:10 (comment_id: 1)');
+    expect(feedback).toContain('2. src/login.ts:30 (comment_id: 1)');
+    expect(feedback).toContain('reply_to_review_comment');
+  });
+
+  it('looks up the review of a single review comment', async () => {
+    const event: WebhookEvent = {
+      event: 'pull_request_review_comment',
+      deliveryId: 'comment-1',
+      payload: {
+        action: 'created',
+        comment: { id: 1, pull_request_review_id: 500, body: 'Handle the empty password case', user: { login: 'alice', type: 'User' } },
+        pull_request: pullRequest,
+      },
+    };
+    const result = await handlePullRequestReviewEvent(event, mockConfig);
+
+    expect(mockGetReview).toHaveBeenCalledWith({ owner: 'o', repo: 'r', pull_number: 99, review_id: 500 });
+    expect(result.handled).toBe(true);
+  });
+
+  it('ignores reviews and thread replies from the bot', async () => {
+    const botReview = await handlePullRequestReviewEvent(reviewEvent({ ...humanReview, body: '<!-- deep-agent-review-iter-2 -->\nLGTM' }), mockConfig);
+    expect(botReview.reason).toBe('Review posted by the bot');
+
+    const reply: WebhookEvent = {
+      event: 'pull_request_review_comment',
+      deliveryId: 'comment-2',
+      payload: { action: 'created', comment: { body: '<!-- deep-agent-thread-reply -->\nFixed', user: { login: 'me', type: 'User' } }, pull_request: pullRequest },
+    };
+    expect((await handlePullRequestReviewEvent(reply, mockConfig)).handled).toBe(false);
+    expect(runArchitect).not.toHaveBeenCalled();
+  });
+
+  it('ignores reviewers without write permission and plain approvals', async () => {
+    mockGetPermission.mockResolvedValueOnce({ data: { permission: 'read', role_name: 'read' } });
+    expect((await handlePullRequestReviewEvent(reviewEvent(), mockConfig)).reason).toContain('lacks write permission');
+
+    mockListCommentsForReview.mockResolvedValueOnce({ data: [] });
+    const approval = await handlePullRequestReviewEvent(reviewEvent({ ...humanReview, state: 'approved', body: 'Nice' }), mockConfig);
+    expect(approval.reason).toBe('Review has no feedback to act on');
+    expect(runArchitect).not.toHaveBeenCalled();
+  });
+
+  it('handles each review once across its deliveries', async () => {
+    const claimRepository = new InMemoryClaimRepository();
+    await handlePullRequestReviewEvent(reviewEvent(humanReview, 'review-1'), mockConfig, { claimRepository });
+    const second = await handlePullRequestReviewEvent(reviewEvent(humanReview, 'comment-1'), mockConfig, { claimRepository });
+    const retry = await handlePullRequestReviewEvent(reviewEvent(humanReview, 'review-1'), mockConfig, { claimRepository });
+
+    expect(second).toMatchObject({ handled: false, reason: 'Review 500 already handled' });
+    expect(retry.handled).toBe(true);
+    expect(runArchitect).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores PRs not created by the bot', async () => {
+    const event = reviewEvent();
+    event.payload.pull_request = { ...pullRequest, body: 'human PR', head: { ref: 'feature/x' } };
+    expect((await handlePullRequestReviewEvent(event, mockConfig)).reason).toBe('PR not created by bot');
+  });
+
+  it('refuses reviews for repos on GitLab', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await handlePullRequestReviewEvent(reviewEvent(), { ...mockConfig, scm: { provider: 'gitlab' } });
+
+    expect(result).toMatchObject({ handled: false, prNumber: 99, reason: 'PR reviews are not supported for gitlab repos' });
+    expect(mockGetPermission).not.toHaveBeenCalled();
+    expect(runArchitect).not.toHaveBeenCalled();
+  });
+});
+
+describe('handleCiCompletedEvent', () => {
+  const mockConfig = {
+    github: { owner: 'o', repo: 'r', token: 't' },
+    llm: { provider: 'anthropic', apiKey: 'k', model: 'm' },
+    ciFix: { maxAttempts: 2 },
+  } as any;
+  const botPr = { number: 99, state: 'open', title: 'Fix #42: improve login', body: BOT_PR_MARKER, head: { ref: 'issue-42-fix-login', sha: 'abc1234567' } };
+  const failedRun = { id: 11, name: 'test', status: 'completed', conclusion: 'failure', app: { slug: 'github-actions' }, output: {} };
+  const log = '##[group]Run pnpm test\n##[endgroup]\n FAIL  tests/login.test.ts > rejects a bad password\n##[error]Process completed with exit code 1.';
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(runArchitect).mockReset().mockResolvedValue({
+      issueNumber: 42, prNumber: 99, prNumbers: [99], outcome: 'done',
+    });
+    mockPullsGet.mockReset().mockResolvedValue({ data: botPr });
+    mockListChecksForRef.mockReset().mockResolvedValue({ data: { check_runs: [failedRun, { ...failedRun, id: 12, name: 'lint', conclusion: 'success' }] } });
+    mockDownloadJobLogs.mockReset().mockResolvedValue({ data: log });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const workflowRunEvent = (overrides: Record<string, unknown> = {}, deliveryId = 'run-1'): WebhookEvent => ({
+    event: 'workflow_run',
+    deliveryId,
+    payload: {
+      action: 'completed',
+      workflow_run: { head_sha: 'abc1234567', head_branch: 'issue-42-fix-login', conclusion: 'failure', pull_requests: [{ number: 99 }], ...overrides },
+    },
+  });
+
+  it('continues the PR with the failed job logs as feedback', async () => {
+    const result = await handleCiCompletedEvent(workflowRunEvent(), mockConfig);
+
+    expect(result).toMatchObject({ handled: true, prNumber: 99, issueNumber: 42, headSha: 'abc1234567' });
+    expect(mockDownloadJobLogs).toHaveBeenCalledWith({ owner: 'o', repo: 'r', job_id: 11 });
+    const context = vi.mocked(runArchitect).mock.calls[0][2]!.continueContext!;
+    expect(context).toMatchObject({ prNumber: 99, branchName: 'issue-42-fix-login' });
+    expect(context.humanFeedback).toContain('CI failed on PR #99 (commit abc1234)');
+    expect(context.humanFeedback).toContain('Failed step: `pnpm test`');
+    expect(context.humanFeedback).toContain('- tests/login.test.ts > rejects a bad password');
+  });
+
+  it('waits until every check on the commit has finished', async () => {
+    mockListChecksForRef.mockResolvedValueOnce({ data: { check_runs: [failedRun, { ...failedRun, id: 12, status: 'in_progress', conclusion: null }] } });
+    expect((await handleCiCompletedEvent(workflowRunEvent(), mockConfig)).reason).toBe('Waiting for 1 check(s) to finish');
+
+    // A passing check_suite that completes last still triggers the fix
+    const suite: WebhookEvent = {
+      event: 'check_suite',
+      deliveryId: 'suite-1',
+      payload: { action: 'completed', check_suite: { head_sha: 'abc1234567', conclusion: 'success', pull_requests: [{ number: 99 }] } },
+    };
+    expect((await handleCiCompletedEvent(suite, mockConfig)).handled).toBe(true);
+    expect(runArchitect).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores passing CI, stale commits and PRs not created by the bot', async () => {
+    mockListChecksForRef.mockResolvedValueOnce({ data: { check_runs: [{ ...failedRun, conclusion: 'success' }] } });
+    expect((await handleCiCompletedEvent(workflowRunEvent({ conclusion: 'success' }), mockConfig)).reason).toBe('CI passed');
+
+    expect((await handleCiCompletedEvent(workflowRunEvent({ head_sha: 'old0000000' }), mockConfig)).reason).toBe('Commit is no longer the PR head');
+
+    mockPullsGet.mockResolvedValueOnce({ data: { ...botPr, body: 'human PR', head: { ...botPr.head, ref: 'feature/x' } } });
+    expect((await handleCiCompletedEvent(workflowRunEvent(), mockConfig)).reason).toBe('PR not created by bot');
+
+    expect((await handleCiCompletedEvent(workflowRunEvent({ pull_requests: [] }), mockConfig)).reason).toBe('No pull request for this commit');
+    expect(runArchitect).not.toHaveBeenCalled();
+  });
+
+  it('fixes each commit once and stops after CI_FIX_MAX_ATTEMPTS', async () => {
+    const claimRepository = new InMemoryClaimRepository();
+    await handleCiCompletedEvent(workflowRunEvent({}, 'run-1'), mockConfig, { claimRepository });
+    const second = await handleCiCompletedEvent(workflowRunEvent({}, 'suite-1'), mockConfig, { claimRepository });
+    expect(second).toMatchObject({ handled: false, reason: 'CI failure on abc1234 already handled' });
+
+    mockPullsGet.mockResolvedValue({ data: { ...botPr, head: { ...botPr.head, sha: 'def7654321' } } });
+    expect((await handleCiCompletedEvent(workflowRunEvent({ head_sha: 'def7654321' }, 'run-2'), mockConfig, { claimRepository })).handled).toBe(true);
+    mockPullsGet.mockResolvedValue({ data: { ...botPr, head: { ...botPr.head, sha: '0123456789' } } });
+    const third = await handleCiCompletedEvent(workflowRunEvent({ head_sha: '0123456789' }, 'run-3'), mockConfig, { claimRepository });
+    expect(third.reason).toBe('CI fix limit (2) reached');
+    expect(runArchitect).toHaveBeenCalledTimes(2);
+
+    const disabled = await handleCiCompletedEvent(workflowRunEvent(), { ...mockConfig, ciFix: { maxAttempts: 0 } });
+    expect(disabled.reason).toBe('Automatic CI fixes disabled');
+  });
+
+  it('refuses CI fixes for repos on GitLab', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await handleCiCompletedEvent(workflowRunEvent(), { ...mockConfig, scm: { provider: 'gitlab' } });
+
+    expect(result).toMatchObject({ handled: false, prNumber: 99, reason: 'CI fixes are not supported for gitlab repos' });
+    expect(mockPullsGet).not.toHaveBeenCalled();
+    expect(runArchitect).not.toHaveBeenCalled();
+  });
 });
 
 // ── createDialogApp ─────────────────────────────────────────────────────────
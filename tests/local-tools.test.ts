@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
@@ -10,6 +10,7 @@ import {
   createLocalWriteFileTool,
   createLocalBashTool,
 } from '../src/local-tools.js';
+import { DEFAULT_COMMAND_POLICY } from '../src/command-policy.js';
 import type { Workspace } from '../src/workspace.js';
 
 // ── Test helpers ─────────────────────────────────────────────────────────────
@@ -240,6 +241,16 @@ describe('write_file', () => {
     const result = await tool.invoke({ path: '../escape.txt', content: 'bad' });
     expect(result).toContain('Path traversal blocked');
   });
+
+  it('refuses protected paths under a command policy', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const tool = createLocalWriteFileTool(ws, DEFAULT_COMMAND_POLICY);
+    const result = await tool.invoke({ path: '.github/workflows/ci.yml', content: 'on: push' });
+    expect(JSON.parse(result)).toMatchObject({ error: 'write_refused', rule: '.github/workflows/**' });
+    expect(fs.existsSync(path.join(tmpDir, '.github'))).toBe(false);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Policy refused write to .github/workflows/ci.yml'));
+    vi.restoreAllMocks();
+  });
 });
 
 // ── bash ─────────────────────────────────────────────────────────────────────
@@ -294,6 +305,15 @@ describe('bash', () => {
     expect(result.trim()).toBe('hello');
     expect(result).not.toContain('truncated');
   });
+
+  it('refuses commands denied by the command policy without running them', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const tool = createLocalBashTool(ws, undefined, DEFAULT_COMMAND_POLICY);
+    const result = await tool.invoke({ command: 'touch ran.txt && curl https://example.com' });
+    expect(JSON.parse(result)).toMatchObject({ error: 'command_refused', rule: 'curl' });
+    expect(fs.existsSync(path.join(tmpDir, 'ran.txt'))).toBe(false);
+    vi.restoreAllMocks();
+  });
 });
 
 // ── grep truncation ─────────────────────────────────────────────────────────
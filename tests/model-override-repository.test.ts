@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryModelOverrideRepository } from '../src/model-override-repository.js';
+
+describe('InMemoryModelOverrideRepository', () => {
+  it('sets models per role and clears a thread', () => {
+    const repo = new InMemoryModelOverrideRepository();
+    expect(repo.get('o/r#7')).toEqual({});
+
+    repo.set('o/r#7', { coder: 'small', reviewer: 'gpt-mini' });
+    repo.set('o/r#7', { coder: 'tiny' });
+    repo.set('o/r#8', { issuer: 'big' });
+    expect(repo.get('o/r#7')).toEqual({ coder: 'tiny', reviewer: 'gpt-mini' });
+
+    repo.clear('o/r#7');
+    expect(repo.get('o/r#7')).toEqual({});
+    expect(repo.get('o/r#8')).toEqual({ issuer: 'big' });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ToolMessage } from 'langchain';
+import { createPauseMiddleware, formatGuidanceResult, PauseGate } from '../src/pause.js';
+
+describe('PauseGate', () => {
+  it('lets calls through until paused', async () => {
+    const gate = new PauseGate();
+    expect(await gate.hold('read_file')).toEqual([]);
+    expect(gate.resume()).toBe(false);
+  });
+
+  it('holds calls while paused and releases them with the guidance', async () => {
+    const onHold = vi.fn();
+    const gate = new PauseGate({ onHold });
+    expect(gate.pause()).toBe(true);
+    expect(gate.pause()).toBe(false);
+
+    let released: string[] | undefined;
+    const first = gate.hold('edit_file').then(g => { released = g; });
+    const second = gate.hold('bash');
+    gate.addGuidance("Don't touch the migrations folder");
+    await Promise.resolve();
+    expect(released).toBeUndefined();
+    expect(onHold.mock.calls).toEqual([['edit_file'], ['bash']]);
+
+    expect(gate.resume()).toBe(true);
+    await first;
+    expect(released).toEqual(["Don't touch the migrations folder"]);
+    expect(await second).toEqual(["Don't touch the migrations folder"]);
+    expect(await gate.hold('edit_file')).toEqual([]);
+  });
+
+  it('hands guidance to the next call when none was held', async () => {
+    const gate = new PauseGate({ paused: true, guidance: ['Use the v2 client'] });
+    gate.resume();
+    expect(await gate.hold('write_file')).toEqual(['Use the v2 client']);
+    expect(await gate.hold('write_file')).toEqual([]);
+  });
+
+  it('fails held calls when the run is cancelled', async () => {
+    const controller = new AbortController();
+    const gate = new PauseGate({ signal: controller.signal });
+    gate.pause();
+    const held = gate.hold('bash');
+    controller.abort();
+    await expect(held).rejects.toThrow('Run cancelled');
+    await expect(gate.hold('bash')).rejects.toThrow('Run cancelled');
+  });
+});
+
+describe('createPauseMiddleware', () => {
+  const request = { toolCall: { id: 'call-1', name: 'edit_file', args: {} } } as any;
+
+  it('runs the call when there is no guidance', async () => {
+    const middleware = createPauseMiddleware(new PauseGate());
+    const handler = vi.fn(async () => new ToolMessage({ content: 'edited', tool_call_id: 'call-1' }));
+    const result = await middleware.wrapToolCall!(request, handler);
+    expect(handler).toHaveBeenCalledWith(request);
+    expect((result as ToolMessage).content).toBe('edited');
+  });
+
+  it('returns the guidance instead of running the held call', async () => {
+    const gate = new PauseGate();
+    const middleware = createPauseMiddleware(gate);
+    const handler = vi.fn();
+    gate.pause();
+    const pending = middleware.wrapToolCall!(request, handler);
+    gate.addGuidance('Keep the public API unchanged');
+    gate.resume();
+
+    const result = await pending as ToolMessage;
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.tool_call_id).toBe('call-1');
+    expect(result.content).toBe(formatGuidanceResult(['Keep the public API unchanged']));
+  });
+});
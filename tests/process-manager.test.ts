@@ -1,6 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ProcessManager } from '../src/process-manager.js';
 import type { ProcessEvent, AgentProcess } from '../src/process-manager.js';
+import { getWorkspaceManager } from '../src/workspace-manager.js';
+import { InMemoryProcessRepository } from '../src/process-repository.js';
+import { getCheckpointer, InMemoryCheckpointSaver, notifyCheckpoint, setCheckpointer } from '../src/checkpointer.js';
+import { emptyCheckpoint } from '@langchain/langgraph';
 
 // Mock dependencies
 vi.mock('../src/architect.js', () => ({
@@ -11,8 +15,18 @@ vi.mock('../src/reviewer-agent.js', () => ({
   runReviewSingle: vi.fn(),
 }));
 
+vi.mock('../src/github-app.js', () => ({
+  findRepoInstallation: vi.fn().mockResolvedValue(22),
+}));
+
+vi.mock('../src/github-tools.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/github-tools.js')>()),
+  createGitHubAppClient: vi.fn(() => ({ request: 'app-request' })),
+}));
+
 import { runArchitect } from '../src/architect.js';
 import { runReviewSingle } from '../src/reviewer-agent.js';
+import { findRepoInstallation } from '../src/github-app.js';
 
 const mockConfig = {
   github: { owner: 'test-owner', repo: 'test-repo', token: 'fake' },
@@ -108,6 +122,60 @@ describe('ProcessManager', () => {
     });
   });
 
+  describe('budget', () => {
+    it('passes the configured budget and tracks the burn-down', async () => {
+      pm = new ProcessManager({ ...mockConfig, budget: { maxCostUsd: 1 } });
+      vi.mocked(runArchitect).mockImplementation(async (_config, _issue, options) => {
+        options?.onBudget?.({ maxCostUsd: 1, costUsd: 0.4, tokens: 1200 });
+        return { issueNumber: 42, prNumber: null, prNumbers: [], outcome: 'Done' };
+      });
+
+      const updates: ProcessEvent[] = [];
+      pm.on('process_event', (e) => { if (e.type === 'process_updated') updates.push(e); });
+      const proc = pm.startAnalysis(42);
+
+      await vi.waitFor(() => {
+        expect(updates.some(e => e.process.budget?.costUsd === 0.4)).toBe(true);
+      });
+      expect(vi.mocked(runArchitect).mock.calls[0][2]?.budget).toEqual({ maxCostUsd: 1, maxTokens: undefined });
+      expect((await pm.getProcess(proc.id))?.budget).toEqual({ maxCostUsd: 1, costUsd: 0.4, tokens: 1200 });
+    });
+  });
+
+  describe('per-repo config', () => {
+    const repoRepo = {
+      getById: (id: number) => id === 2
+        ? { id: 2, owner: 'globex', repo: 'web', isActive: true, addedAt: '', host: 'ghe.example.com' }
+        : undefined,
+      getByOwnerRepo: () => undefined,
+    } as any;
+
+    it('uses the repo\'s host and its own App installation', async () => {
+      const appConfig = { ...mockConfig, github: { owner: 'test-owner', repo: 'test-repo', appId: 1, privateKeyPath: '/tmp/app.pem', installationId: 11, apiUrl: 'https://ghe-api.internal' } };
+      pm = new ProcessManager(appConfig, undefined, undefined, undefined, 1, repoRepo);
+      vi.mocked(runArchitect).mockResolvedValue({ issueNumber: 42, prNumber: null, prNumbers: [], outcome: 'Done' });
+
+      pm.startAnalysis(42, { repoId: 2 });
+
+      await vi.waitFor(() => expect(runArchitect).toHaveBeenCalled());
+      expect(vi.mocked(runArchitect).mock.calls[0][0].github).toMatchObject({
+        owner: 'globex', repo: 'web', host: 'ghe.example.com', apiUrl: undefined, installationId: 22,
+      });
+      expect(findRepoInstallation).toHaveBeenCalledWith('app-request', 'globex', 'web');
+    });
+
+    it('leaves PAT auth alone', async () => {
+      pm = new ProcessManager(mockConfig, undefined, undefined, undefined, 1, repoRepo);
+      vi.mocked(runArchitect).mockResolvedValue({ issueNumber: 42, prNumber: null, prNumbers: [], outcome: 'Done' });
+
+      pm.startAnalysis(42, { repoId: 2 });
+
+      await vi.waitFor(() => expect(runArchitect).toHaveBeenCalled());
+      expect(vi.mocked(runArchitect).mock.calls[0][0].github).toMatchObject({ owner: 'globex', repo: 'web', token: 'fake' });
+      expect(findRepoInstallation).not.toHaveBeenCalled();
+    });
+  });
+
   describe('continueAnalysis', () => {
     it('creates a process with issue and PR pre-filled', () => {
       vi.mocked(runArchitect).mockImplementation(() => new Promise(() => {}));
@@ -223,6 +291,30 @@ describe('ProcessManager', () => {
     });
   });
 
+  describe('failProcess', () => {
+    it('fails a running analysis whose workspace goes over quota', async () => {
+      const signals = new Map<number, AbortSignal | undefined>();
+      vi.mocked(runArchitect).mockImplementation((_config, issue, options) => {
+        signals.set(issue, options?.signal);
+        return new Promise(() => {});
+      });
+
+      const proc = pm.startAnalysis(42);
+      const other = pm.startAnalysis(43);
+      await vi.waitFor(() => expect(signals.size).toBe(2));
+
+      getWorkspaceManager().emit('quota_exceeded', { processId: proc.id, path: '/w', reason: 'Workspace disk quota exceeded: 3 GB of 2048 MB' });
+
+      const failed = await pm.getProcess(proc.id);
+      expect(failed?.status).toBe('failed');
+      expect(failed?.error).toBe('Workspace disk quota exceeded: 3 GB of 2048 MB');
+      expect(signals.get(42)?.aborted).toBe(true);
+      expect(signals.get(43)?.aborted).toBe(false);
+      expect((await pm.getProcess(other.id))?.status).toBe('running');
+      expect(pm.failProcess(proc.id, 'again')).toBe(false);
+    });
+  });
+
   describe('listProcesses', () => {
     it('lists all processes', async () => {
       vi.mocked(runArchitect).mockImplementation(() => new Promise(() => {}));
@@ -340,4 +432,142 @@ describe('ProcessManager', () => {
       expect(logEvents.some(e => e.logLine?.includes('Test log line'))).toBe(true);
     });
   });
+
+  describe('checkpoints and resume', () => {
+    const done = { issueNumber: 1, prNumber: null, prNumbers: [], outcome: 'Done' };
+
+    function stored(id: string, fields: Partial<AgentProcess> = {}): AgentProcess {
+      return {
+        id, type: 'analyze', status: 'running', issueNumber: 1, owner: '', repo: '',
+        startedAt: '2026-10-19T10:00:00.000Z', runOptions: { repoId: 0 }, logs: ['before the restart'], ...fields,
+      };
+    }
+
+    beforeEach(() => {
+      setCheckpointer(new InMemoryCheckpointSaver());
+      vi.spyOn(getWorkspaceManager(), 'sweep').mockResolvedValue({ removed: [], exceeded: [] } as any);
+    });
+
+    it('records the run\'s checkpoints and drops them once it finishes', async () => {
+      const deleteThread = vi.spyOn(getCheckpointer(), 'deleteThread');
+      vi.mocked(runArchitect).mockImplementation(async (_config, _issue, options) => {
+        notifyCheckpoint({ configurable: { thread_id: options!.processId, checkpoint_ns: '', checkpoint_id: 'cp-1' } });
+        notifyCheckpoint({ configurable: { thread_id: 'another-run', checkpoint_ns: '', checkpoint_id: 'cp-2' } });
+        return done;
+      });
+
+      const proc = pm.startAnalysis(1, { dryRun: true });
+      await vi.waitFor(async () => expect((await pm.getProcess(proc.id))?.status).toBe('completed'));
+
+      expect(vi.mocked(runArchitect).mock.calls[0][2]).toMatchObject({ checkpointer: getCheckpointer(), resume: false, dryRun: true });
+      expect(await pm.getProcess(proc.id)).toMatchObject({ checkpointId: 'cp-1', runOptions: { dryRun: true } });
+      expect(deleteThread).toHaveBeenCalledWith(proc.id);
+    });
+
+    it('resumes checkpointed runs left by the previous server and marks the rest interrupted', async () => {
+      const repo = new InMemoryProcessRepository();
+      repo.save(stored('analyze-1-1'));
+      repo.save(stored('analyze-2-1', { issueNumber: 2, runOptions: undefined }));
+      repo.save(stored('review-3-1', { type: 'review', status: 'awaiting_approval', issueNumber: undefined, prNumber: 3 }));
+      repo.save(stored('analyze-4-1', { status: 'completed' }));
+      const checkpoint = emptyCheckpoint();
+      await getCheckpointer().put({ configurable: { thread_id: 'analyze-1-1', checkpoint_ns: '' } }, checkpoint, {} as any, {});
+      vi.mocked(runArchitect).mockImplementation(() => new Promise(() => {}));
+
+      const manager = new ProcessManager(mockConfig, undefined, repo);
+      expect(await manager.recoverProcesses()).toEqual({ resumed: ['analyze-1-1'], interrupted: ['analyze-2-1', 'review-3-1'] });
+
+      await vi.waitFor(() => expect(runArchitect).toHaveBeenCalledWith(expect.anything(), 1, expect.objectContaining({ processId: 'analyze-1-1', resume: true })));
+      expect(runReviewSingle).not.toHaveBeenCalled();
+      const resumed = await manager.getProcess('analyze-1-1');
+      expect(resumed).toMatchObject({ status: 'running', owner: 'test-owner', checkpointId: checkpoint.id });
+      expect(resumed?.logs.slice(0, 2)).toEqual(['before the restart', `[process-manager] Server restarted; resuming from checkpoint ${checkpoint.id}`]);
+      expect(repo.getById('analyze-2-1')).toMatchObject({ status: 'interrupted', error: 'Interrupted by a server restart' });
+      expect(repo.getById('review-3-1')?.status).toBe('interrupted');
+      expect(repo.getById('analyze-4-1')?.status).toBe('completed');
+    });
+
+    it('resumes interrupted processes on request, starting over without a checkpoint', async () => {
+      const repo = new InMemoryProcessRepository();
+      repo.save(stored('review-3-1', { type: 'review', status: 'interrupted', issueNumber: undefined, prNumber: 3, error: 'Interrupted by a server restart' }));
+      repo.save(stored('analyze-2-1', { status: 'interrupted', runOptions: undefined }));
+      repo.save(stored('analyze-4-1', { status: 'completed' }));
+      vi.mocked(runReviewSingle).mockResolvedValue({ verdict: 'approve', summary: 'LGTM', comments: [] } as any);
+
+      const manager = new ProcessManager(mockConfig, undefined, repo);
+      expect(await manager.resumeProcess('analyze-2-1')).toBeUndefined();
+      expect(await manager.resumeProcess('analyze-4-1')).toBeUndefined();
+      expect(await manager.resumeProcess('unknown')).toBeUndefined();
+
+      expect(await manager.resumeProcess('review-3-1')).toMatchObject({ status: 'running', error: undefined });
+      await vi.waitFor(() => expect(runReviewSingle).toHaveBeenCalledWith(expect.anything(), 3, expect.objectContaining({ processId: 'review-3-1', resume: false })));
+      await vi.waitFor(() => expect(repo.getById('review-3-1')).toMatchObject({ status: 'completed', outcome: 'LGTM' }));
+      expect(await manager.resumeProcess('review-3-1')).toBeUndefined();
+    });
+
+    it('recovers paused runs still paused', async () => {
+      const repo = new InMemoryProcessRepository();
+      repo.save(stored('analyze-1-1', { status: 'paused', guidance: ['Skip the docs'] }));
+      await getCheckpointer().put({ configurable: { thread_id: 'analyze-1-1', checkpoint_ns: '' } }, emptyCheckpoint(), {} as any, {});
+      vi.mocked(runArchitect).mockImplementation(() => new Promise(() => {}));
+
+      const manager = new ProcessManager(mockConfig, undefined, repo);
+      expect(await manager.recoverProcesses()).toMatchObject({ resumed: ['analyze-1-1'] });
+      await vi.waitFor(() => expect(runArchitect).toHaveBeenCalled());
+      expect(vi.mocked(runArchitect).mock.calls[0][2]?.pause?.isPaused).toBe(true);
+      expect(await manager.getProcess('analyze-1-1')).toMatchObject({ status: 'paused', guidance: ['Skip the docs'] });
+    });
+  });
+
+  describe('pause and resume', () => {
+    it('holds the run at its next tool call and hands over the guidance on resume', async () => {
+      let reachTool!: () => void;
+      const atTool = new Promise<void>(resolve => { reachTool = resolve; });
+      vi.mocked(runArchitect).mockImplementation(async (_config, _issue, options) => {
+        await atTool;
+        const guidance = await options!.pause!.hold('edit_file');
+        return { issueNumber: 1, prNumber: null, prNumbers: [], outcome: `guidance: ${guidance.join('; ')}` };
+      });
+      const events: ProcessEvent[] = [];
+      pm.on('process_event', (e: ProcessEvent) => events.push(e));
+
+      const proc = pm.startAnalysis(1);
+      await vi.waitFor(() => expect(runArchitect).toHaveBeenCalled());
+      expect(pm.addGuidance(proc.id, 'too early')).toBeUndefined();
+      expect(pm.pauseProcess(proc.id)).toMatchObject({ status: 'paused', pausedAt: expect.any(String) });
+      expect(pm.pauseProcess(proc.id)).toBeUndefined();
+      reachTool();
+      await vi.waitFor(async () => expect((await pm.getProcess(proc.id))?.logs).toContain('\u{23F8}\uFE0F  Paused before edit_file'));
+
+      expect(pm.addGuidance(proc.id, "Don't touch the migrations folder")?.guidance).toEqual(["Don't touch the migrations folder"]);
+      expect(await pm.resumeProcess(proc.id)).toMatchObject({ status: 'running', pausedAt: undefined, guidance: undefined });
+
+      expect(await pm.waitForProcess(proc.id)).toMatchObject({ status: 'completed', outcome: "guidance: Don't touch the migrations folder" });
+      expect(events.map(e => e.type)).toEqual(expect.arrayContaining(['process_paused', 'process_resumed']));
+      expect(events.find(e => e.type === 'process_paused')?.process.status).toBe('paused');
+    });
+
+    it('refuses processes that are not running or cannot pause', async () => {
+      vi.mocked(runArchitect).mockImplementation(() => new Promise(() => {}));
+      expect(pm.pauseProcess('unknown')).toBeUndefined();
+
+      const sdk = new ProcessManager({ ...mockConfig, agentMode: 'claude-sdk' });
+      const proc = sdk.startAnalysis(1);
+      await vi.waitFor(() => expect(runArchitect).toHaveBeenCalled());
+      expect(vi.mocked(runArchitect).mock.calls[0][2]?.pause).toBeUndefined();
+      expect(sdk.pauseProcess(proc.id)).toBeUndefined();
+    });
+
+    it('cancels a paused process, failing its held call', async () => {
+      vi.mocked(runArchitect).mockImplementation(() => new Promise(() => {}));
+      const proc = pm.startAnalysis(1);
+      await vi.waitFor(() => expect(runArchitect).toHaveBeenCalled());
+
+      pm.pauseProcess(proc.id);
+      const held = vi.mocked(runArchitect).mock.calls[0][2]!.pause!.hold('bash');
+      expect(pm.cancelProcess(proc.id)).toBe(true);
+      await expect(held).rejects.toThrow('Run cancelled');
+      expect((await pm.getProcess(proc.id))?.status).toBe('cancelled');
+    });
+  });
 });
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  buildSandboxEnv,
+  getSandboxBackend,
+  isHostAllowed,
+  loadSandboxPolicy,
+  parseSandboxConfig,
+  resolveSandboxPolicy,
+  runSandboxed,
+  startEgressProxy,
+  DEFAULT_SANDBOX_POLICY,
+} from '../src/sandbox.js';
+import { StaticRepoRepository } from '../src/repo-repository.js';
+import type { Workspace } from '../src/workspace.js';
+
+const config = { github: { owner: 'o', repo: 'r', token: 't' } } as any;
+
+/** Send a CONNECT through the proxy and return the status line. */
+function connectThrough(proxyUrl: string, target: string): Promise<string> {
+  const { port } = new URL(proxyUrl);
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(Number(port), '127.0.0.1', () => {
+      socket.write(`CONNECT ${target} HTTP/1.1\r\nHost: ${target}\r\n\r\n`);
+    });
+    socket.once('data', (data) => {
+      resolve(data.toString().split('\r\n')[0]);
+      socket.destroy();
+    });
+    socket.on('error', reject);
+  });
+}
+
+describe('parseSandboxConfig', () => {
+  it('accepts a partial policy', () => {
+    expect(parseSandboxConfig({ backend: 'bwrap', memoryMb: 1024 })).toEqual({ backend: 'bwrap', memoryMb: 1024 });
+    expect(parseSandboxConfig(undefined)).toBeUndefined();
+  });
+
+  it('rejects malformed fields with a readable message', () => {
+    expect(() => parseSandboxConfig({ backend: 'vm' })).toThrow('sandbox.backend must be one of subprocess, bwrap, docker');
+    expect(() => parseSandboxConfig({ timeoutSeconds: 0 })).toThrow('sandbox.timeoutSeconds must be a positive number');
+    expect(() => parseSandboxConfig({ allowedHosts: 'github.com' })).toThrow('sandbox.allowedHosts must be a list of strings');
+  });
+
+  it('refuses the allowlist on backends that cannot enforce it', () => {
+    expect(() => parseSandboxConfig({ backend: 'docker', network: 'allowlist' })).toThrow('sandbox.network allowlist is not supported by the docker backend');
+    expect(parseSandboxConfig({ backend: 'bwrap', network: 'none' })).toEqual({ backend: 'bwrap', network: 'none' });
+  });
+});
+
+describe('resolveSandboxPolicy', () => {
+  const noBackend = async () => undefined;
+
+  it('lets the repo policy override the global one per field', () => {
+    const policy = resolveSandboxPolicy({ backend: 'docker', memoryMb: 2048 }, { memoryMb: 512, network: 'none' });
+    expect(policy).toEqual({ ...DEFAULT_SANDBOX_POLICY, backend: 'docker', memoryMb: 512, network: 'none' });
+  });
+
+  it('reads the repo policy and ignores a malformed one', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const repos = new StaticRepoRepository('o', 'r');
+    vi.spyOn(repos, 'getByOwnerRepo').mockReturnValue({ id: 0, owner: 'o', repo: 'r', isActive: true, addedAt: '', configJson: { sandbox: { network: 'open' } } });
+    expect((await loadSandboxPolicy(config, repos, noBackend)).network).toBe('open');
+
+    vi.spyOn(repos, 'getByOwnerRepo').mockReturnValue({ id: 0, owner: 'o', repo: 'r', isActive: true, addedAt: '', configJson: { sandbox: { network: 'lan' } } });
+    expect((await loadSandboxPolicy({ ...config, sandbox: { network: 'none' } }, repos, noBackend)).network).toBe('none');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Invalid sandbox config for o/r'));
+    vi.restoreAllMocks();
+  });
+
+  it('ignores a repo policy that leaves bwrap or docker on the allowlist', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const repos = new StaticRepoRepository('o', 'r');
+    vi.spyOn(repos, 'getByOwnerRepo').mockReturnValue({ id: 0, owner: 'o', repo: 'r', isActive: true, addedAt: '', configJson: { sandbox: { backend: 'bwrap', memoryMb: 512 } } });
+
+    expect(await loadSandboxPolicy(config, repos, noBackend)).toEqual(DEFAULT_SANDBOX_POLICY);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('network allowlist is not supported by the bwrap backend'));
+    vi.restoreAllMocks();
+  });
+
+  it('uses bwrap without network when no backend is configured and bwrap works', async () => {
+    const bwrap = async () => 'bwrap' as const;
+    expect(await loadSandboxPolicy(config, undefined, bwrap)).toMatchObject({ backend: 'bwrap', network: 'none' });
+    expect(await loadSandboxPolicy({ ...config, sandbox: { network: 'open' } }, undefined, bwrap)).toMatchObject({ backend: 'bwrap', network: 'open' });
+    expect(await loadSandboxPolicy({ ...config, sandbox: { backend: 'subprocess' } }, undefined, bwrap)).toMatchObject({ backend: 'subprocess' });
+  });
+
+  it('warns once that a subprocess allowlist is not enforced', async () => {
+    vi.resetModules();
+    const { loadSandboxPolicy: load } = await import('../src/sandbox.js');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const bwrap = async () => 'bwrap' as const;
+    expect(await load({ ...config, sandbox: { network: 'allowlist' } }, undefined, bwrap)).toMatchObject({ backend: 'subprocess', network: 'allowlist' });
+    await load(config, undefined, noBackend);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('the subprocess backend does not enforce network: allowlist'));
+    vi.restoreAllMocks();
+  });
+});
+
+describe('buildSandboxEnv', () => {
+  it('drops secrets and keeps base and passthrough variables', () => {
+    const source = { PATH: '/usr/bin', GITHUB_TOKEN: 'ghp_x', LLM_API_KEY: 'sk', NODE_OPTIONS: '--max-old-space-size=512' };
+    const env = buildSandboxEnv(source, { ...DEFAULT_SANDBOX_POLICY, envPassthrough: ['NODE_OPTIONS'] }, { home: '/tmp/h', proxyUrl: 'http://127.0.0.1:9' });
+
+    expect(env).toMatchObject({ PATH: '/usr/bin', NODE_OPTIONS: '--max-old-space-size=512', HOME: '/tmp/h', HTTPS_PROXY: 'http://127.0.0.1:9', GIT_TERMINAL_PROMPT: '0' });
+    expect(env.GITHUB_TOKEN).toBeUndefined();
+    expect(env.LLM_API_KEY).toBeUndefined();
+  });
+});
+
+describe('egress proxy', () => {
+  it('matches exact hosts and dotted suffixes', () => {
+    expect(isHostAllowed('registry.npmjs.org', ['registry.npmjs.org'])).toBe(true);
+    expect(isHostAllowed('evil-registry.npmjs.org', ['registry.npmjs.org'])).toBe(false);
+    expect(isHostAllowed('objects.githubusercontent.com', ['.githubusercontent.com'])).toBe(true);
+    expect(isHostAllowed('githubusercontent.com', ['*.githubusercontent.com'])).toBe(true);
+  });
+
+  it('refuses tunnels to hosts off the allowlist', async () => {
+    const proxy = await startEgressProxy(['registry.npmjs.org']);
+    try {
+      expect(await connectThrough(proxy.url, 'example.com:443')).toBe('HTTP/1.1 403 Forbidden');
+    } finally {
+      await proxy.close();
+    }
+  });
+});
+
+describe('backends', () => {
+  const context = { workspacePath: '/work/repo', home: '/tmp/h', env: { PATH: '/usr/bin' }, policy: DEFAULT_SANDBOX_POLICY };
+
+  it('bwrap makes only the workspace and home writable', () => {
+    const { file, args } = getSandboxBackend('bwrap').prepare('npm test', { ...context, policy: { ...DEFAULT_SANDBOX_POLICY, network: 'none' } });
+    expect(file).toBe('bwrap');
+    expect(args.join(' ')).toContain('--ro-bind / / --dev /dev --proc /proc --tmpfs /tmp');
+    expect(args.join(' ')).toContain('--bind /work/repo /work/repo --bind /tmp/h /tmp/h --chdir /work/repo --unshare-all --die-with-parent');
+    expect(args).not.toContain('--share-net');
+    expect(args.at(-1)).toBe('npm test');
+  });
+
+  it('docker mounts the workspace and passes only the sandbox env', () => {
+    const { file, args } = getSandboxBackend('docker').prepare('npm test', { ...context, policy: { ...DEFAULT_SANDBOX_POLICY, network: 'open' } });
+    expect(file).toBe('docker');
+    expect(args.join(' ')).toContain('--network bridge --memory 4096m');
+    expect(args.join(' ')).toContain('-v /work/repo:/workspace -v /tmp/h:/sandbox-home -w /workspace');
+    expect(args).toContain('HOME=/sandbox-home');
+    expect(args.some(a => a.startsWith('PATH='))).toBe(false);
+    expect(args).toContain('node:20-bookworm');
+  });
+
+  it('docker maps workspace paths in the env to the mount point', () => {
+    const env = { npm_config_cache: '/work/repo/.npm-cache', OTHER: '/work/repository' };
+    const { args } = getSandboxBackend('docker').prepare('npm ci', { ...context, env });
+    expect(args).toContain('npm_config_cache=/workspace/.npm-cache');
+    expect(args).toContain('OTHER=/work/repository');
+  });
+
+  it('mounts a worktree mirror writable with its config and hooks read-only', () => {
+    const mirror = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-mirror-'));
+    try {
+      fs.writeFileSync(path.join(mirror, 'config'), '');
+      fs.mkdirSync(path.join(mirror, 'hooks'));
+      const bwrap = getSandboxBackend('bwrap').prepare('git commit', { ...context, gitCommonDir: mirror }).args.join(' ');
+      expect(bwrap).toContain(`--tmpfs ${process.cwd()} --bind /work/repo /work/repo --bind ${mirror} ${mirror} --ro-bind ${mirror}/config ${mirror}/config --ro-bind ${mirror}/hooks ${mirror}/hooks`);
+      const docker = getSandboxBackend('docker').prepare('git commit', { ...context, gitCommonDir: mirror }).args.join(' ');
+      expect(docker).toContain(`-v ${mirror}:${mirror} -v ${mirror}/config:${mirror}/config:ro -v ${mirror}/hooks:${mirror}/hooks:ro`);
+    } finally {
+      fs.rmSync(mirror, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('runSandboxed', () => {
+  let ws: Workspace;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-test-'));
+    ws = { path: dir, cleanup: async () => fs.rmSync(dir, { recursive: true, force: true }) };
+    process.env.SANDBOX_TEST_SECRET = 'hunter2';
+  });
+
+  afterEach(async () => {
+    delete process.env.SANDBOX_TEST_SECRET;
+    vi.restoreAllMocks();
+    await ws.cleanup();
+  });
+
+  it('runs without secrets and under the rlimits', async () => {
+    const policy = { ...DEFAULT_SANDBOX_POLICY, cpuSeconds: 7, memoryMb: 1024 };
+    const result = await runSandboxed('echo "secret=${SANDBOX_TEST_SECRET:-none}"; ulimit -t; ulimit -v; pwd', ws, policy);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.split('\n')).toEqual(['secret=none', '7', '1048576', fs.realpathSync(ws.path), '']);
+  });
+
+  it('points package manager caches into the workspace', async () => {
+    fs.writeFileSync(path.join(ws.path, 'package-lock.json'), '{}');
+    const result = await runSandboxed('echo "$npm_config_cache"', ws, DEFAULT_SANDBOX_POLICY);
+    expect(result.stdout.trim()).toBe(path.join(ws.path, '.npm-cache'));
+  });
+
+  it('kills commands that run past the timeout', async () => {
+    const result = await runSandboxed('sleep 5 & wait', ws, { ...DEFAULT_SANDBOX_POLICY, timeoutSeconds: 0.3 });
+    expect(result).toMatchObject({ timedOut: true, exitCode: null });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createStalePrTask, nextCronRun, parseCron, parseSchedules, Scheduler, SCHEDULED_JOB } from '../src/scheduler.js';
+import { JobQueue } from '../src/job-queue.js';
+import { InMemoryJobRepository } from '../src/job-repository.js';
+import type { RepoRecord, RepoRepository } from '../src/repo-repository.js';
+import type { ScmProvider } from '../src/scm-provider.js';
+
+const { loadScmProvider } = vi.hoisted(() => ({ loadScmProvider: vi.fn() }));
+vi.mock('../src/scm-provider.js', async (importOriginal) => ({ ...(await importOriginal<object>()), loadScmProvider }));
+
+/** Promise plus its resolver, for holding a task open. */
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+const next = (expression: string, after: string) => nextCronRun(parseCron(expression), new Date(after)).toISOString();
+
+describe('parseCron', () => {
+  it('parses numbers, names, ranges, lists and steps', () => {
+    const schedule = parseCron('*/15 9-17 1,15 jan-mar mon-fri');
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...schedule.days]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.weekdays]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCron('0 0 * * 7').weekdays]).toEqual([0]);
+    expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+  });
+
+  it('expands macros', () => {
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    expect(parseCron('@weekly')).toEqual(parseCron('0 0 * * 0'));
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('Invalid cron expression "* * * *": expected 5 fields, got 4');
+    expect(() => parseCron('60 * * * *')).toThrow('minute "60" is not between 0 and 59');
+    expect(() => parseCron('*/0 * * * *')).toThrow('invalid minute "*/0"');
+    expect(() => parseCron('0 0 * * funday')).toThrow('day of week "funday"');
+    expect(() => parseCron('0 17-9 * * *')).toThrow('invalid hour range "17-9"');
+    expect(() => parseCron('0 0 30 feb *')).toThrow('never matches');
+  });
+});
+
+describe('nextCronRun', () => {
+  it('finds the next matching minute in UTC', () => {
+    expect(next('*/15 * * * *', '2026-10-19T10:07:30Z')).toBe('2026-10-19T10:15:00.000Z');
+    expect(next('*/15 * * * *', '2026-10-19T10:15:00Z')).toBe('2026-10-19T10:30:00.000Z');
+    expect(next('0 9 * * 1-5', '2026-10-23T09:00:00Z')).toBe('2026-10-26T09:00:00.000Z');
+    expect(next('@monthly', '2026-12-31T23:59:00Z')).toBe('2027-01-01T00:00:00.000Z');
+    expect(next('0 0 29 2 *', '2026-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('runs on either day field when both are restricted', () => {
+    // The 1st of the month or any Monday
+    expect(next('0 0 1 * mon', '2026-10-19T00:00:00Z')).toBe('2026-10-26T00:00:00.000Z');
+    expect(next('0 0 1 * mon', '2026-10-27T00:00:00Z')).toBe('2026-11-01T00:00:00.000Z');
+    // A * step leaves the day of month unrestricted
+    expect(next('0 0 */1 * mon', '2026-10-19T00:00:00Z')).toBe('2026-10-26T00:00:00.000Z');
+  });
+});
+
+describe('parseSchedules', () => {
+  it('validates each task\'s expression', () => {
+    expect(parseSchedules(undefined)).toEqual({});
+    expect(parseSchedules({ schedules: { poll: '*/10 * * * *' } })).toEqual({ poll: '*/10 * * * *' });
+    expect(() => parseSchedules({ schedules: ['poll'] })).toThrow('schedules must be an object');
+    expect(() => parseSchedules({ schedules: { poll: 15 } })).toThrow('schedules.poll must be a cron expression');
+    expect(() => parseSchedules({ schedules: { poll: 'often' } })).toThrow('schedules.poll: Invalid cron expression "often"');
+  });
+});
+
+function repoRepository(records: RepoRecord[]): RepoRepository {
+  return {
+    getById: (id) => records.find(r => r.id === id),
+    getByOwnerRepo: (owner, repo) => records.find(r => r.owner === owner && r.repo === repo),
+    ensureRepo: () => records[0],
+    list: (activeOnly) => records.filter(r => !activeOnly || r.isActive),
+    create: () => records[0],
+    update: () => records[0],
+    deactivate: () => true,
+  };
+}
+
+const config = { github: { owner: 'acme', repo: 'api', token: 'ghp_test' } } as any;
+
+describe('Scheduler', () => {
+  let queue: JobQueue;
+  let scheduler: Scheduler;
+  let now: Date;
+  let repos: RepoRecord[];
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    now = new Date('2026-10-19T10:07:00Z');
+    repos = [
+      { id: 1, owner: 'acme', repo: 'api', isActive: true, addedAt: '2026-10-01T00:00:00Z', configJson: { schedules: { poll: '*/15 * * * *' } } },
+      { id: 2, owner: 'globex', repo: 'web', isActive: true, addedAt: '2026-10-01T00:00:00Z', configJson: { schedules: { poll: '0 * * * *', cleanup: '@daily' } } },
+    ];
+    queue = new JobQueue(new InMemoryJobRepository(), { pollIntervalMs: 10, concurrency: 4 });
+    scheduler = new Scheduler(config, queue, repoRepository(repos), { tickIntervalMs: 60_000, now: () => now });
+    await queue.start();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    queue.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('queues tasks when they are due and keeps their last result', async () => {
+    const run = vi.fn(async ({ config, repo }) => `polled ${repo.owner}/${repo.repo} as ${config.github.owner}/${config.github.repo}`);
+    scheduler.registerTask('poll', { description: 'Poll', run });
+    await scheduler.start();
+    expect(run).not.toHaveBeenCalled();
+
+    now = new Date('2026-10-19T10:15:00Z');
+    await scheduler.tick();
+    await vi.waitFor(() => expect(run).toHaveBeenCalledTimes(1));
+    expect(run.mock.calls[0][0].repo.id).toBe(1);
+
+    now = new Date('2026-10-19T11:00:00Z');
+    await scheduler.tick();
+    await vi.waitFor(() => expect(run).toHaveBeenCalledTimes(3));
+    await vi.waitFor(async () => expect((await scheduler.status()).every(s => !s.active)).toBe(true));
+
+    const status = await scheduler.status();
+    expect(status.map(s => [s.owner, s.task, s.cron, s.nextRunAt, s.error])).toEqual([
+      ['acme', 'poll', '*/15 * * * *', '2026-10-19T11:15:00.000Z', undefined],
+      ['globex', 'cleanup', '@daily', undefined, 'Unknown task "cleanup"'],
+      ['globex', 'poll', '0 * * * *', '2026-10-19T12:00:00.000Z', undefined],
+    ]);
+    expect(status[2].lastRun).toMatchObject({ trigger: 'schedule', status: 'completed', result: 'polled globex/web as globex/web' });
+    expect((await queue.list()).every(j => j.type === SCHEDULED_JOB && j.status === 'completed')).toBe(true);
+  });
+
+  it('skips a run while the previous one is still going', async () => {
+    const gate = deferred();
+    const run = vi.fn(() => gate.promise);
+    scheduler.registerTask('poll', { description: 'Poll', run });
+    await scheduler.start();
+
+    now = new Date('2026-10-19T10:15:00Z');
+    await scheduler.tick();
+    await vi.waitFor(() => expect(run).toHaveBeenCalledTimes(1));
+
+    now = new Date('2026-10-19T10:30:00Z');
+    await scheduler.tick();
+    expect(await scheduler.trigger(repos[0], 'poll', 'manual')).toBeUndefined();
+    expect(await queue.list()).toHaveLength(1);
+
+    gate.resolve();
+    await vi.waitFor(async () => expect((await scheduler.status())[0].active).toBe(false));
+    const job = await scheduler.trigger(repos[0], 'poll', 'manual');
+    expect(job).toMatchObject({ type: SCHEDULED_JOB, repoKey: 'acme/api', payload: { repoId: 1, task: 'poll', trigger: 'manual' } });
+    await vi.waitFor(() => expect(run).toHaveBeenCalledTimes(2));
+  });
+
+  it('records failed runs and picks up runs left in the queue', async () => {
+    const failing = new JobQueue(new InMemoryJobRepository(), { pollIntervalMs: 10, maxAttempts: 1 });
+    const other = new Scheduler(config, failing, repoRepository(repos), { now: () => now });
+    other.registerTask('poll', { description: 'Poll', run: async () => { throw new Error('GitHub is down'); } });
+    await other.trigger(repos[0], 'poll', 'manual');
+    await other.start();
+    expect((await other.status())[0]).toMatchObject({ task: 'poll', active: true, lastRun: { status: 'queued', trigger: 'manual' } });
+
+    await failing.start();
+    await vi.waitFor(async () => expect((await other.status())[0].lastRun).toMatchObject({ status: 'dead', error: 'GitHub is down' }));
+    other.stop();
+    failing.stop();
+  });
+});
+
+describe('createStalePrTask', () => {
+  it('reports bot PRs without recent activity', async () => {
+    const listPullRequests = vi.fn().mockResolvedValue([
+      { number: 3, body: 'Closes #1', headRef: 'issue-1-fix', updatedAt: '2026-09-01T00:00:00Z' },
+      { number: 4, body: 'Closes #2', headRef: 'issue-2-fix', updatedAt: '2026-10-18T00:00:00Z' },
+      { number: 5, body: 'Manual change', headRef: 'feature/x', updatedAt: '2026-09-01T00:00:00Z' },
+    ]);
+    loadScmProvider.mockResolvedValue({ listPullRequests } as Partial<ScmProvider>);
+    const task = createStalePrTask(undefined, () => Date.parse('2026-10-19T00:00:00Z'));
+    const repo = { id: 1, owner: 'acme', repo: 'api', isActive: true, addedAt: '' };
+
+    expect(await task.run({ config, repo })).toBe('1 bot PR(s) idle for 14+ days: #3');
+    expect(listPullRequests).toHaveBeenCalledWith({ state: 'open' });
+
+    listPullRequests.mockResolvedValue([]);
+    expect(await task.run({ config, repo })).toBe('No bot PRs idle for 14+ days');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRemoteTools } from '../src/scm-tools.js';
+import { BOT_REVIEW_MARKER } from '../src/github-tools.js';
+import type { ScmProvider } from '../src/scm-provider.js';
+
+function mockProvider(overrides: Partial<ScmProvider> = {}): ScmProvider {
+  return {
+    kind: 'gitlab',
+    host: 'gitlab.test',
+    owner: 'acme',
+    repo: 'api',
+    remoteUrl: vi.fn().mockResolvedValue('https://oauth2:t@gitlab.test/acme/api.git'),
+    listIssues: vi.fn().mockResolvedValue([]),
+    getIssue: vi.fn(),
+    createIssue: vi.fn(),
+    listIssueComments: vi.fn().mockResolvedValue([]),
+    commentOnIssue: vi.fn().mockResolvedValue({ id: 1, body: '', url: 'https://gitlab.test/note/1' }),
+    getBranchSha: vi.fn(),
+    createBranch: vi.fn(),
+    readFile: vi.fn(),
+    listPullRequests: vi.fn().mockResolvedValue([]),
+    getPullRequest: vi.fn(),
+    createPullRequest: vi.fn(),
+    getPullRequestDiff: vi.fn(),
+    listReviewBodies: vi.fn().mockResolvedValue([]),
+    submitReview: vi.fn().mockResolvedValue({ id: 5 }),
+    replyToReviewComment: vi.fn(),
+    listChecks: vi.fn().mockResolvedValue([]),
+    getCheckLog: vi.fn(),
+    ...overrides,
+  };
+}
+
+describe('createRemoteTools', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the GitHub tool names for provider-backed tools', () => {
+    const octokit = {} as any;
+    const github = createRemoteTools('acme', 'api', octokit);
+    const gitlab = createRemoteTools('acme', 'api', octokit, mockProvider());
+    for (const key of Object.keys(github) as Array<keyof typeof github>) {
+      expect(gitlab[key].name).toBe(github[key].name);
+    }
+  });
+
+  it('comments once per issue', async () => {
+    const scm = mockProvider();
+    const { commentOnIssue } = createRemoteTools('acme', 'api', {} as any, scm);
+    const posted = JSON.parse(await commentOnIssue.invoke({ issue_number: 3, body: 'Analysis' }));
+    expect(posted).toMatchObject({ id: 1, html_url: 'https://gitlab.test/note/1' });
+    expect(scm.commentOnIssue).toHaveBeenCalledWith(3, expect.stringMatching(/^<!-- deep-agent-analysis -->\nAnalysis/));
+
+    vi.mocked(scm.listIssueComments).mockResolvedValue([{ id: 1, body: '<!-- deep-agent-analysis -->\nAnalysis' }]);
+    expect(JSON.parse(await commentOnIssue.invoke({ issue_number: 3, body: 'Again' }))).toMatchObject({ skipped: true });
+    expect(scm.commentOnIssue).toHaveBeenCalledTimes(1);
+  });
+
+  it('reuses an open merge request for the branch', async () => {
+    const scm = mockProvider({
+      listPullRequests: vi.fn().mockResolvedValue([{ number: 7, url: 'https://gitlab.test/mr/7' }]),
+    });
+    const { pullRequest } = createRemoteTools('acme', 'api', {} as any, scm);
+    const result = JSON.parse(await pullRequest.invoke({ title: 'Fix #1: x', body: 'Closes #1', head: 'issue-1-x' }));
+    expect(result).toMatchObject({ skipped: true, number: 7 });
+    expect(scm.listPullRequests).toHaveBeenCalledWith({ state: 'open', head: 'issue-1-x' });
+    expect(scm.createPullRequest).not.toHaveBeenCalled();
+  });
+
+  it('links sub-issues through the child body', async () => {
+    const scm = mockProvider({
+      createIssue: vi.fn().mockResolvedValue({ number: 12, title: 'Part 1', url: 'https://gitlab.test/issues/12' }),
+      getIssue: vi.fn(async (n: number) => ({ number: n, title: `#${n}`, body: n === 12 ? 'Do it\n\nSub-issue of #4' : 'Parent', state: 'open' as const, labels: [], url: '' })),
+      listIssues: vi.fn().mockResolvedValue([
+        { number: 12, title: 'Part 1', body: 'Do it\n\nSub-issue of #4', state: 'open', labels: [], url: '' },
+        { number: 13, title: 'Other', body: 'Sub-issue of #40', state: 'open', labels: [], url: '' },
+      ]),
+    });
+    const tools = createRemoteTools('acme', 'api', {} as any, scm);
+
+    await tools.createSubIssue.invoke({ parent_issue_number: 4, title: 'Part 1', body: 'Do it' });
+    expect(scm.createIssue).toHaveBeenCalledWith({ title: 'Part 1', body: 'Do it\n\nSub-issue of #4', labels: undefined });
+
+    const children = JSON.parse(await tools.fetchSubIssues.invoke({ issue_number: 4 }));
+    expect(children.map((c: any) => c.number)).toEqual([12]);
+
+    expect(JSON.parse(await tools.getParentIssue.invoke({ issue_number: 12 })).parent).toMatchObject({ number: 4 });
+    expect(JSON.parse(await tools.getParentIssue.invoke({ issue_number: 4 }))).toEqual({ parent: null });
+  });
+
+  it('marks reviews and reports CI from pipeline jobs', async () => {
+    const scm = mockProvider({
+      getPullRequest: vi.fn().mockResolvedValue({ number: 7, headSha: 'abc123' }),
+      listChecks: vi.fn().mockResolvedValue([
+        { id: 1, name: 'test: unit', status: 'completed', conclusion: 'failure', summary: 'Failure reason: script_failure' },
+        { id: 2, name: 'test: lint', status: 'completed', conclusion: 'success' },
+      ]),
+      getCheckLog: vi.fn().mockResolvedValue(' FAIL  tests/a.test.ts > works\n##[error]exit 1\n'),
+    });
+    const tools = createRemoteTools('acme', 'api', {} as any, scm);
+
+    await tools.submitReview.invoke({ pull_number: 7, body: 'LGTM' });
+    expect(vi.mocked(scm.submitReview).mock.calls[0][1].body.startsWith(`${BOT_REVIEW_MARKER}\nLGTM`)).toBe(true);
+
+    expect(JSON.parse(await tools.checkCiStatus.invoke({ pull_number: 7 }))).toMatchObject({ overall: 'failure', total: 2, failed: 1 });
+    const logs = JSON.parse(await tools.ciFailureLogs.invoke({ pull_number: 7 }));
+    expect(logs).toMatchObject({ head_sha: 'abc123', failed: 1, failures: [{ name: 'test: unit', failingTests: ['tests/a.test.ts > works'] }] });
+  });
+});
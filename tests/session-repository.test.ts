@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { InMemorySessionRepository } from '../src/session-repository.js';
+import type { Session } from '../src/session-repository.js';
+
+const session = (id: string, expiresInMs: number): Session => ({
+  id,
+  user: { login: 'ada', provider: 'github' },
+  csrfToken: `csrf-${id}`,
+  createdAt: new Date().toISOString(),
+  expiresAt: new Date(Date.now() + expiresInMs).toISOString(),
+});
+
+describe('InMemorySessionRepository', () => {
+  it('returns stored sessions until they are deleted', () => {
+    const repo = new InMemorySessionRepository();
+    repo.create(session('s-1', 60_000));
+    expect(repo.get('s-1')).toMatchObject({ id: 's-1', user: { login: 'ada' }, csrfToken: 'csrf-s-1' });
+    expect(repo.delete('s-1')).toBe(true);
+    expect(repo.get('s-1')).toBeUndefined();
+    expect(repo.delete('s-1')).toBe(false);
+  });
+
+  it('treats expired sessions as missing', () => {
+    const repo = new InMemorySessionRepository();
+    repo.create(session('old', -1));
+    expect(repo.get('old')).toBeUndefined();
+  });
+
+  it('deleteExpired removes only expired sessions', () => {
+    const repo = new InMemorySessionRepository();
+    repo.create(session('old', -1));
+    repo.create(session('new', 60_000));
+    expect(repo.deleteExpired()).toBe(1);
+    expect(repo.get('new')).toBeDefined();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { buildSingleAgentSystemPrompt, buildSingleAgentTools } from '../src/single-agent.js';
 import { ToolCache } from '../src/tool-cache.js';
+import { ApprovalGate } from '../src/approval.js';
 import { tool } from 'langchain';
 import { z } from 'zod';
 
@@ -69,9 +70,9 @@ describe('buildSingleAgentSystemPrompt', () => {
 describe('buildSingleAgentTools', () => {
   const mockOctokit = {} as any;
 
-  it('returns 15 tools (no context tools)', () => {
+  it('returns 17 tools (no context tools)', () => {
     const tools = buildSingleAgentTools('o', 'r', mockOctokit, TEST_WORKSPACE, {});
-    expect(tools).toHaveLength(15);
+    expect(tools).toHaveLength(17);
   });
 
   it('has no duplicate tool names', () => {
@@ -80,9 +81,9 @@ describe('buildSingleAgentTools', () => {
     expect(new Set(names).size).toBe(names.length);
   });
 
-  it('returns 15 tools in dry-run mode', () => {
+  it('returns 17 tools in dry-run mode', () => {
     const tools = buildSingleAgentTools('o', 'r', mockOctokit, TEST_WORKSPACE, { dryRun: true });
-    expect(tools).toHaveLength(15);
+    expect(tools).toHaveLength(17);
   });
 
   it('dry-run tools have the same names as normal tools', () => {
@@ -116,6 +117,7 @@ describe('buildSingleAgentTools', () => {
     expect(names).toContain('submit_pr_review');
     // CI
     expect(names).toContain('check_ci_status');
+    expect(names).toContain('get_ci_failure_logs');
   });
 
   it('includes context tools when provided', () => {
@@ -126,15 +128,27 @@ describe('buildSingleAgentTools', () => {
     const tools = buildSingleAgentTools('o', 'r', mockOctokit, TEST_WORKSPACE, {
       contextTools: [fakeContextTool],
     });
-    expect(tools).toHaveLength(16); // 15 + 1 context tool
+    expect(tools).toHaveLength(18); // 17 + 1 context tool
     const names = tools.map((t: any) => t.name);
     expect(names).toContain('fake_context');
   });
 
+  it('holds bash back until the plan is approved', async () => {
+    const approval = new ApprovalGate({
+      config: { github: { owner: 'o', repo: 'r', token: 't' } } as any,
+      issueNumber: 1,
+      policy: { required: true, timeoutHours: 1 },
+    });
+    const tools = buildSingleAgentTools('o', 'r', mockOctokit, TEST_WORKSPACE, { approval });
+    const bash = tools.find((t: any) => t.name === 'bash') as any;
+    const result = JSON.parse(await bash.invoke({ command: 'git push origin HEAD' }));
+    expect(result).toMatchObject({ blocked: true });
+  });
+
   it('accepts a cache for diff delta computation', () => {
     const cache = new ToolCache();
     const tools = buildSingleAgentTools('o', 'r', mockOctokit, TEST_WORKSPACE, { cache });
-    expect(tools).toHaveLength(15);
+    expect(tools).toHaveLength(17);
     const names = tools.map((t: any) => t.name);
     expect(names).toContain('get_pr_diff');
   });
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  CommandRegistry,
+  createDefaultRegistry,
+  executeCommand,
+  getCommenterPermission,
+  hasPermission,
+  loadThreadOverrides,
+  COMMAND_REPLY_MARKER,
+} from '../src/slash-commands.js';
+import type { CommandContext, CommandRuntime, SlashCommand } from '../src/slash-commands.js';
+import { InMemoryModelOverrideRepository } from '../src/model-override-repository.js';
+
+const mockGetPermission = vi.fn();
+const mockCreateReaction = vi.fn();
+const mockCreateComment = vi.fn();
+vi.mock('../src/github-tools.js', () => ({
+  createGitHubClient: vi.fn(() => ({
+    rest: {
+      repos: { getCollaboratorPermissionLevel: mockGetPermission },
+      reactions: { createForIssueComment: mockCreateReaction },
+      issues: { createComment: mockCreateComment },
+    },
+  })),
+  getAuthFromConfig: vi.fn(() => 'mock-token'),
+}));
+
+vi.mock('../src/core.js', () => ({
+  retractIssue: vi.fn(),
+}));
+
+import { retractIssue } from '../src/core.js';
+
+const config = { github: { owner: 'o', repo: 'r', token: 't' } } as any;
+
+function runtime(): CommandRuntime {
+  return {
+    analyze: vi.fn().mockResolvedValue({ prNumber: 12 }),
+    continuePr: vi.fn().mockResolvedValue({ prNumber: 12 }),
+    review: vi.fn().mockResolvedValue({}),
+    cancel: vi.fn().mockResolvedValue(0),
+    status: vi.fn().mockResolvedValue([]),
+    decidePlan: vi.fn().mockResolvedValue(true),
+  };
+}
+
+function context(fields: Partial<CommandContext> = {}): Omit<CommandContext, 'args'> {
+  return {
+    config,
+    runtime: runtime(),
+    number: 7,
+    isPr: false,
+    sender: 'alice',
+    resolvePr: vi.fn().mockResolvedValue({ prNumber: 12, branchName: 'issue-7-fix', issueNumber: 7 }),
+    ...fields,
+  };
+}
+
+describe('CommandRegistry', () => {
+  const registry = createDefaultRegistry();
+
+  it('finds the first registered command and its arguments', () => {
+    expect(registry.parse('Thanks!\n/iterate 3\n/cancel')).toMatchObject({ command: { name: 'iterate' }, args: '3' });
+    expect(registry.parse('please /prompt add tests')).toMatchObject({ command: { name: 'prompt' }, args: 'add tests' });
+  });
+
+  it('ignores unknown commands, paths and quoted lines', () => {
+    expect(registry.parse('/deploy now')).toBeUndefined();
+    expect(registry.parse('see src/status.ts')).toBeUndefined();
+    expect(registry.parse('> /cancel\nok')).toBeUndefined();
+  });
+
+  it('accepts custom commands', () => {
+    const custom: SlashCommand = {
+      name: 'ping', usage: '/ping', description: '', permission: 'read', on: 'both',
+      run: async () => ({ handled: true, reason: 'pong' }),
+    };
+    expect(new CommandRegistry().register(custom).parse('/PING')?.command).toBe(custom);
+  });
+});
+
+describe('permissions', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockGetPermission.mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('orders permission levels', () => {
+    expect(hasPermission('admin', 'maintain')).toBe(true);
+    expect(hasPermission('triage', 'write')).toBe(false);
+    expect(hasPermission('none', 'read')).toBe(false);
+  });
+
+  it('prefers role_name and falls back to permission for custom roles', async () => {
+    mockGetPermission.mockResolvedValueOnce({ data: { permission: 'write', role_name: 'maintain' } });
+    expect(await getCommenterPermission(config, 'alice')).toBe('maintain');
+    mockGetPermission.mockResolvedValueOnce({ data: { permission: 'read', role_name: 'security-auditor' } });
+    expect(await getCommenterPermission(config, 'alice')).toBe('read');
+  });
+
+  it('treats lookup failures as no permission', async () => {
+    mockGetPermission.mockRejectedValueOnce(new Error('404'));
+    expect(await getCommenterPermission(config, 'stranger')).toBe('none');
+  });
+});
+
+describe('executeCommand', () => {
+  const registry = createDefaultRegistry();
+  const parse = (body: string) => registry.parse(body)!;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    mockGetPermission.mockReset().mockResolvedValue({ data: { permission: 'admin', role_name: 'admin' } });
+    mockCreateReaction.mockReset().mockResolvedValue({});
+    mockCreateComment.mockReset().mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('requires maintain permission for /retract', async () => {
+    mockGetPermission.mockResolvedValue({ data: { permission: 'write', role_name: 'write' } });
+    const outcome = await executeCommand(parse('/retract'), context(), 1);
+
+    expect(outcome.handled).toBe(false);
+    expect(mockCreateReaction).toHaveBeenCalledWith({ owner: 'o', repo: 'r', comment_id: 1, content: '-1' });
+  });
+
+  it('replies with what /retract undid', async () => {
+    vi.mocked(retractIssue).mockResolvedValue({ issueNumber: 7, prClosed: true, branchDeleted: true, commentDeleted: false, errors: [] });
+    const outcome = await executeCommand(parse('/retract'), context(), 1);
+
+    expect(outcome).toMatchObject({ handled: true, issueNumber: 7 });
+    expect(mockCreateComment).toHaveBeenCalledWith(expect.objectContaining({
+      body: `${COMMAND_REPLY_MARKER}\nRetracted: closed the PR, deleted the branch.`,
+    }));
+  });
+
+  it('passes run failures back as errors', async () => {
+    const ctx = context();
+    vi.mocked(ctx.runtime.review).mockResolvedValue({ error: 'LLM down' });
+    const outcome = await executeCommand(parse('/review'), { ...ctx, isPr: true, number: 12 });
+
+    expect(outcome).toMatchObject({ handled: true, prNumber: 12, error: 'LLM down' });
+  });
+
+  it('replies with the reason when a run is refused', async () => {
+    const ctx = context();
+    vi.mocked(ctx.runtime.analyze).mockResolvedValue({ refused: 'Daily spend cap reached for o/r: $10.5000 of $10' });
+    const outcome = await executeCommand(parse('/analyze'), ctx);
+
+    expect(outcome).toMatchObject({ handled: false, issueNumber: 7, reason: 'Refused: Daily spend cap reached for o/r: $10.5000 of $10' });
+    expect(mockCreateComment).toHaveBeenCalledWith(expect.objectContaining({
+      body: `${COMMAND_REPLY_MARKER}\nNot started: Daily spend cap reached for o/r: $10.5000 of $10.`,
+    }));
+  });
+
+  it('lists running work on /status', async () => {
+    const ctx = context();
+    vi.mocked(ctx.runtime.status).mockResolvedValue([
+      { id: 'analyze-7-1', type: 'analyze', issueNumber: 7, phase: 'reviewer', iteration: 2, maxIterations: 3, costUsd: 0.125, startedAt: '' },
+    ]);
+    await executeCommand(parse('/status'), ctx);
+
+    expect(mockCreateComment).toHaveBeenCalledWith(expect.objectContaining({
+      body: expect.stringContaining('`analyze-7-1` (analyze) — phase: reviewer, iteration 2/3, cost: $0.1250'),
+    }));
+  });
+
+  it('approves and rejects a waiting plan', async () => {
+    const ctx = context();
+    expect(await executeCommand(parse('/approve'), ctx)).toMatchObject({ handled: true, reason: 'Plan approved' });
+    expect(await executeCommand(parse('/reject use the existing cache'), ctx)).toMatchObject({ handled: true, reason: 'Plan rejected' });
+    expect(ctx.runtime.decidePlan).toHaveBeenNthCalledWith(1, 7, { approved: true, by: 'alice' });
+    expect(ctx.runtime.decidePlan).toHaveBeenNthCalledWith(2, 7, { approved: false, by: 'alice', reason: 'use the existing cache' });
+    expect(mockCreateComment).not.toHaveBeenCalled();
+
+    vi.mocked(ctx.runtime.decidePlan).mockResolvedValue(false);
+    expect(await executeCommand(parse('/approve'), ctx)).toMatchObject({ handled: false });
+    expect(mockCreateComment).toHaveBeenCalledWith(expect.objectContaining({
+      body: `${COMMAND_REPLY_MARKER}\nNo plan is waiting for approval here.`,
+    }));
+  });
+
+  it('needs a reason and maintain permission to reject', async () => {
+    const ctx = context();
+    expect(await executeCommand(parse('/reject'), ctx)).toMatchObject({ handled: false, reason: 'Invalid /reject: Say what should change in the plan.' });
+
+    mockGetPermission.mockResolvedValue({ data: { permission: 'write', role_name: 'write' } });
+    expect(await executeCommand(parse('/reject no'), ctx)).toMatchObject({ handled: false });
+    expect(ctx.runtime.decidePlan).not.toHaveBeenCalled();
+  });
+
+  describe('/model', () => {
+    it('stores overrides that later commands on the thread use', async () => {
+      const modelOverrideRepository = new InMemoryModelOverrideRepository();
+      const ctx = context({ modelOverrideRepository });
+      await executeCommand(parse('/model coder=small reviewer=gpt-mini'), ctx);
+      await executeCommand(parse('/model coder=tiny'), ctx);
+
+      expect(await loadThreadOverrides(modelOverrideRepository, config, 7)).toEqual({
+        llm: { coder: { model: 'tiny' }, reviewer: { model: 'gpt-mini' } },
+      });
+
+      await executeCommand(parse('/analyze'), ctx);
+      expect(ctx.runtime.analyze).toHaveBeenCalledWith(7, { llm: { coder: { model: 'tiny' }, reviewer: { model: 'gpt-mini' } } });
+    });
+
+    it('clears overrides on reset', async () => {
+      const modelOverrideRepository = new InMemoryModelOverrideRepository();
+      const ctx = context({ modelOverrideRepository });
+      await executeCommand(parse('/model coder=small'), ctx);
+      await executeCommand(parse('/model reset'), ctx);
+
+      expect(await loadThreadOverrides(modelOverrideRepository, config, 7)).toBeUndefined();
+    });
+
+    it('rejects unknown agents', async () => {
+      const outcome = await executeCommand(parse('/model planner=big'), context({ modelOverrideRepository: new InMemoryModelOverrideRepository() }), 1);
+
+      expect(outcome.handled).toBe(false);
+      expect(mockCreateReaction).toHaveBeenCalledWith(expect.objectContaining({ content: 'confused' }));
+      expect(mockCreateComment).toHaveBeenCalledWith(expect.objectContaining({ body: expect.stringContaining('Usage: `/model') }));
+    });
+  });
+});
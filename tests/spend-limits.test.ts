@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { currentPeriod, parseSpendLimitSettings, SpendGuard, SPEND_LIMITS_KEY } from '../src/spend-limits.js';
+import { UsageService } from '../src/usage-service.js';
+import { InMemorySettingsRepository } from '../src/settings-repository.js';
+import { StaticRepoRepository } from '../src/repo-repository.js';
+
+vi.mock('../src/bitrix-notification.js', () => ({
+  notifySpendAlert: vi.fn(),
+}));
+
+import { notifySpendAlert } from '../src/bitrix-notification.js';
+
+const config = { github: { owner: 'o', repo: 'r', token: 't' } } as any;
+
+/** Record usage on repo 0; claude-sonnet-4 costs $3 per million input tokens. */
+function spend(usage: UsageService, usd: number) {
+  usage.record({ provider: 'anthropic', model: 'claude-sonnet-4-20250514', agent: 'coder', repoId: 0, inputTokens: Math.round(usd / 3 * 1_000_000), outputTokens: 0, durationMs: 1 });
+}
+
+describe('parseSpendLimitSettings', () => {
+  it('accepts global and per-repo limits', () => {
+    const settings = { alertThreshold: 0.9, global: { monthlyUsd: 500 }, repos: { 'acme/api': { dailyUsd: 20 } } };
+    expect(parseSpendLimitSettings(settings)).toEqual(settings);
+    expect(parseSpendLimitSettings(null)).toEqual({});
+  });
+
+  it('rejects malformed limits with a readable message', () => {
+    expect(() => parseSpendLimitSettings({ alertThreshold: 80 })).toThrow('spend_limits.alertThreshold must be a number between 0 and 1');
+    expect(() => parseSpendLimitSettings({ global: { dailyUsd: 0 } })).toThrow('spend_limits.global.dailyUsd must be a positive number');
+    expect(() => parseSpendLimitSettings({ repos: { api: {} } })).toThrow('keys must be "owner/repo"');
+  });
+});
+
+describe('currentPeriod', () => {
+  it('starts at the UTC day or month', () => {
+    const now = new Date('2026-10-19T23:30:00-05:00');
+    expect(currentPeriod('daily', now)).toEqual({ since: '2026-10-20T00:00:00.000Z', periodKey: '2026-10-20' });
+    expect(currentPeriod('monthly', now)).toEqual({ since: '2026-10-01T00:00:00.000Z', periodKey: '2026-10' });
+  });
+});
+
+describe('SpendGuard', () => {
+  let usage: UsageService;
+  let settings: InMemorySettingsRepository;
+  let guard: SpendGuard;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(notifySpendAlert).mockReset().mockResolvedValue();
+    usage = new UsageService();
+    settings = new InMemorySettingsRepository();
+    guard = new SpendGuard(config, usage, settings, new StaticRepoRepository('o', 'r'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('allows everything without limits', async () => {
+    spend(usage, 1000);
+    expect(await guard.check('o', 'r')).toEqual({ allowed: true, windows: [] });
+  });
+
+  it('alerts once per window when the threshold is crossed', async () => {
+    settings.set(SPEND_LIMITS_KEY, { global: { monthlyUsd: 10 } });
+    spend(usage, 8.5);
+
+    expect((await guard.check('o', 'r')).allowed).toBe(true);
+    await guard.check('o', 'r');
+    expect(notifySpendAlert).toHaveBeenCalledTimes(1);
+    expect(notifySpendAlert).toHaveBeenCalledWith(config, settings, expect.objectContaining({ scope: 'global', period: 'monthly', ratio: expect.closeTo(0.85) }));
+  });
+
+  it('refuses runs at the cap and alerts again', async () => {
+    settings.set(SPEND_LIMITS_KEY, { repos: { 'o/r': { dailyUsd: 10 } } });
+    spend(usage, 9);
+    await guard.check('o', 'r');
+    spend(usage, 1.5);
+
+    const result = await guard.check('o', 'r');
+    expect(result).toMatchObject({ allowed: false, reason: 'Daily spend cap reached for o/r: $10.5000 of $10' });
+    expect(notifySpendAlert).toHaveBeenCalledTimes(2);
+    expect(console.warn).toHaveBeenLastCalledWith(expect.stringContaining('new runs are refused'));
+  });
+
+  it('only counts a repo limit against its own repo', async () => {
+    settings.set(SPEND_LIMITS_KEY, { repos: { 'o/r': { dailyUsd: 1 } } });
+    spend(usage, 2);
+    expect((await guard.check('o', 'other')).allowed).toBe(true);
+  });
+
+  it('ignores a malformed setting', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    settings.set(SPEND_LIMITS_KEY, { global: { dailyUsd: 'lots' } });
+    expect((await guard.check('o', 'r')).allowed).toBe(true);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Invalid spend_limits setting'));
+  });
+
+  it('alerts as usage is recorded while watching', async () => {
+    settings.set(SPEND_LIMITS_KEY, { global: { dailyUsd: 1 } });
+    const stop = guard.watch();
+    spend(usage, 0.5);
+    spend(usage, 0.4);
+    await vi.waitFor(() => expect(notifySpendAlert).toHaveBeenCalledTimes(1));
+
+    stop();
+    spend(usage, 1);
+    await new Promise(resolve => setImmediate(resolve));
+    expect(notifySpendAlert).toHaveBeenCalledTimes(1);
+  });
+});
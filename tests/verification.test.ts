@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { tool } from 'langchain';
+import { z } from 'zod';
+import {
+  extractFailureExcerpt,
+  loadVerificationPolicy,
+  parseFailingTests,
+  parseVerificationConfig,
+  resolveVerificationPolicy,
+  runVerification,
+  wrapPrToolWithVerification,
+  DEFAULT_VERIFICATION_POLICY,
+} from '../src/verification.js';
+import type { VerificationPolicy } from '../src/verification.js';
+import { DEFAULT_SANDBOX_POLICY } from '../src/sandbox.js';
+import { InMemoryIssueContextRepository } from '../src/issue-context-repository.js';
+import { StaticRepoRepository } from '../src/repo-repository.js';
+import type { Workspace } from '../src/workspace.js';
+
+const sandbox = { ...DEFAULT_SANDBOX_POLICY, network: 'open' as const };
+
+/** A create_pull_request stand-in that echoes the body it was called with. */
+function createPrTool() {
+  return tool(
+    async ({ body }: { title: string; body: string; head: string }) => JSON.stringify({ number: 5, html_url: 'https://github.com/o/r/pull/5', body }),
+    {
+      name: 'create_pull_request',
+      description: 'Open a pull request',
+      schema: z.object({ title: z.string(), body: z.string(), head: z.string() }),
+    },
+  );
+}
+
+function policy(overrides: Partial<VerificationPolicy>): VerificationPolicy {
+  return { ...DEFAULT_VERIFICATION_POLICY, ...overrides };
+}
+
+describe('parseVerificationConfig / resolveVerificationPolicy', () => {
+  it('accepts a partial gate and rejects malformed fields', () => {
+    expect(parseVerificationConfig({ test: 'pnpm test', onFailure: 'warn' })).toEqual({ test: 'pnpm test', onFailure: 'warn' });
+    expect(parseVerificationConfig(undefined)).toBeUndefined();
+    expect(() => parseVerificationConfig({ lint: '' })).toThrow('verification.lint must be a non-empty command');
+    expect(() => parseVerificationConfig({ onFailure: 'ignore' })).toThrow('verification.onFailure must be one of block, warn');
+    expect(() => parseVerificationConfig({ maxAttempts: 0 })).toThrow('verification.maxAttempts must be a positive number');
+  });
+
+  it('lets the repo gate override the global one per field', () => {
+    expect(resolveVerificationPolicy({ test: 'npm test', lint: 'npm run lint', maxAttempts: 5 }, { test: 'pnpm vitest run', onFailure: 'warn' })).toEqual({
+      commands: { lint: 'npm run lint', test: 'pnpm vitest run' },
+      onFailure: 'warn',
+      maxAttempts: 5,
+      timeoutSeconds: 600,
+    });
+  });
+
+  it('reads the repo gate and ignores a malformed one', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const config = { github: { owner: 'o', repo: 'r' }, verification: { test: 'npm test' } } as any;
+    const repos = new StaticRepoRepository('o', 'r');
+    vi.spyOn(repos, 'getByOwnerRepo').mockReturnValue({ id: 0, owner: 'o', repo: 'r', isActive: true, addedAt: '', configJson: { verification: { typecheck: 'tsc' } } });
+    expect((await loadVerificationPolicy(config, repos)).commands).toEqual({ typecheck: 'tsc', test: 'npm test' });
+
+    vi.spyOn(repos, 'getByOwnerRepo').mockReturnValue({ id: 0, owner: 'o', repo: 'r', isActive: true, addedAt: '', configJson: { verification: { test: 42 } } });
+    expect((await loadVerificationPolicy(config, repos)).commands).toEqual({ test: 'npm test' });
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Invalid verification config for o/r'));
+    vi.restoreAllMocks();
+  });
+});
+
+describe('output parsing', () => {
+  it('picks failing test names out of common runners', () => {
+    const output = [
+      ' FAIL  tests/login.test.ts > login > rejects a bad password',
+      '   × login > rejects a bad password 12ms',
+      '  ✕ renders the header (5 ms)',
+      'FAILED tests/test_api.py::test_create - AssertionError: 500 != 201',
+      '--- FAIL: TestParse (0.00s)',
+      'test parser::tests::empty ... FAILED',
+      ' ✓ login > accepts a good password',
+    ].join('\n');
+    expect(parseFailingTests(output)).toEqual([
+      'tests/login.test.ts > login > rejects a bad password',
+      'login > rejects a bad password',
+      'renders the header',
+      'tests/test_api.py::test_create',
+      'TestParse',
+      'parser::tests::empty',
+    ]);
+  });
+
+  it('starts the excerpt at the first failure', () => {
+    const output = ['> tsc --noEmit', '', 'src/a.ts(3,7): error TS2322: Type string is not assignable', 'src/b.ts(1,1): error TS1005', ''].join('\n');
+    expect(extractFailureExcerpt(output, 1)).toBe('src/a.ts(3,7): error TS2322: Type string is not assignable');
+    expect(extractFailureExcerpt('one\ntwo\nthree\n', 2)).toBe('two\nthree');
+  });
+});
+
+describe('runVerification and the PR gate', () => {
+  let ws: Workspace;
+  const failingTest = 'echo "FAILED tests/test_api.py::test_create - boom"; exit 1';
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'verification-'));
+    ws = { path: dir, cleanup: async () => fs.rmSync(dir, { recursive: true, force: true }) };
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await ws.cleanup();
+  });
+
+  it('runs every configured check in the workspace', async () => {
+    const report = await runVerification(ws, policy({ commands: { lint: 'pwd', test: failingTest } }), sandbox);
+    expect(report.passed).toBe(false);
+    expect(report.checks.map(c => [c.name, c.passed, c.exitCode])).toEqual([['lint', true, 0], ['test', false, 1]]);
+    expect(report.checks[1]).toMatchObject({ failingTests: ['tests/test_api.py::test_create'], excerpt: 'FAILED tests/test_api.py::test_create - boom' });
+  });
+
+  it('refuses the PR with structured failures and records a ci_result', async () => {
+    const contextRepo = new InMemoryIssueContextRepository();
+    const prTool = wrapPrToolWithVerification(createPrTool(), ws, {
+      policy: policy({ commands: { test: failingTest }, maxAttempts: 2 }),
+      sandbox,
+      context: { repo: contextRepo, repoId: 1, issueNumber: 7, processId: 'p1', agent: 'coder:verification' },
+    });
+
+    const blocked = JSON.parse(await prTool.invoke({ title: 'Fix #7', body: 'Closes #7', head: 'issue-7' }));
+    expect(blocked).toMatchObject({ blocked: true, checks: [{ name: 'test', exitCode: 1, failingTests: ['tests/test_api.py::test_create'] }] });
+    expect(blocked.reason).toContain('attempt 1 of 2');
+
+    // The last attempt opens the PR with a warning
+    const opened = JSON.parse(await prTool.invoke({ title: 'Fix #7', body: 'Closes #7', head: 'issue-7' }));
+    expect(opened.number).toBe(5);
+    expect(opened.body).toContain('Closes #7\n\n## ⚠️ Verification failed');
+    expect(opened.body).toContain('- tests/test_api.py::test_create');
+
+    const entries = await contextRepo.getEntriesByType(1, 7, 'ci_result');
+    expect(entries.map(e => [e.iteration, e.agent])).toEqual([[1, 'coder:verification'], [2, 'coder:verification']]);
+    expect(entries[0].content).toContain('Verification failed before create_pull_request (attempt 1)');
+  });
+
+  it('opens the PR with the results when the checks pass', async () => {
+    const prTool = wrapPrToolWithVerification(createPrTool(), ws, { policy: policy({ commands: { test: 'true' } }), sandbox });
+    const opened = JSON.parse(await prTool.invoke({ title: 'Fix #7', body: 'Closes #7', head: 'issue-7' }));
+    expect(opened.body).toMatch(/^Closes #7\n\n## Verification\n\n- ✅ test `true` passed in /);
+  });
+
+  it('warns instead of blocking in warn mode and stays out of the way without commands', async () => {
+    const warned = wrapPrToolWithVerification(createPrTool(), ws, { policy: policy({ commands: { test: 'exit 2' }, onFailure: 'warn' }), sandbox });
+    expect(JSON.parse(await warned.invoke({ title: 't', body: 'b', head: 'h' })).body).toContain('❌ test `exit 2` failed (exit 2)');
+
+    const original = createPrTool();
+    const invoke = original.invoke;
+    expect(wrapPrToolWithVerification(original, ws, { policy: DEFAULT_VERIFICATION_POLICY, sandbox }).invoke).toBe(invoke);
+  });
+});
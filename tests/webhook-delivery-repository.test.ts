@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryWebhookDeliveryRepository } from '../src/webhook-delivery-repository.js';
+import type { WebhookEvent } from '../src/listener.js';
+
+const event = (deliveryId: string, name = 'issues', action = 'opened'): WebhookEvent => ({
+  event: name,
+  deliveryId,
+  payload: { action, issue: { number: 1 } },
+});
+
+describe('InMemoryWebhookDeliveryRepository', () => {
+  it('record stores a new delivery as received', () => {
+    const repo = new InMemoryWebhookDeliveryRepository();
+    expect(repo.record(event('d-1'))).toBe(true);
+    const stored = repo.getById('d-1');
+    expect(stored).toMatchObject({
+      deliveryId: 'd-1',
+      event: 'issues',
+      action: 'opened',
+      status: 'received',
+      duplicateCount: 0,
+      replayCount: 0,
+    });
+    expect(stored!.payload).toEqual({ action: 'opened', issue: { number: 1 } });
+  });
+
+  it('record returns false for a known delivery id and counts the duplicate', () => {
+    const repo = new InMemoryWebhookDeliveryRepository();
+    repo.record(event('d-1'));
+    expect(repo.record(event('d-1'))).toBe(false);
+    expect(repo.record(event('d-1'))).toBe(false);
+    expect(repo.getById('d-1')!.duplicateCount).toBe(2);
+    expect(repo.list()).toHaveLength(1);
+  });
+
+  it('setResult records status, reason and handledAt', () => {
+    const repo = new InMemoryWebhookDeliveryRepository();
+    repo.record(event('d-1'));
+    repo.setResult('d-1', 'failed', 'API down');
+    const stored = repo.getById('d-1')!;
+    expect(stored.status).toBe('failed');
+    expect(stored.reason).toBe('API down');
+    expect(stored.handledAt).toBeDefined();
+  });
+
+  it('markReplayed counts the replay and resets the result', () => {
+    const repo = new InMemoryWebhookDeliveryRepository();
+    repo.record(event('d-1'));
+    repo.setResult('d-1', 'handled', 'Analysis triggered');
+    repo.markReplayed('d-1');
+    expect(repo.getById('d-1')).toMatchObject({ status: 'received', replayCount: 1, reason: undefined, handledAt: undefined });
+  });
+
+  it('list returns newest first and filters by event and status', () => {
+    const repo = new InMemoryWebhookDeliveryRepository();
+    repo.record(event('d-1'));
+    repo.record(event('d-2', 'pull_request'));
+    repo.record(event('d-3'));
+    repo.setResult('d-3', 'ignored');
+
+    expect(repo.list().map(d => d.deliveryId)).toEqual(['d-3', 'd-2', 'd-1']);
+    expect(repo.list({ event: 'pull_request' }).map(d => d.deliveryId)).toEqual(['d-2']);
+    expect(repo.list({ status: 'ignored' }).map(d => d.deliveryId)).toEqual(['d-3']);
+    expect(repo.list({ limit: 1 })).toHaveLength(1);
+  });
+
+  it('getById returns undefined for unknown deliveries', () => {
+    const repo = new InMemoryWebhookDeliveryRepository();
+    expect(repo.getById('nope')).toBeUndefined();
+  });
+});
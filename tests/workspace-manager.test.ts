@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+vi.mock('../src/workspace.js', async () => {
+  const actual = await vi.importActual<typeof import('../src/workspace.js')>('../src/workspace.js');
+  return { ...actual, createWorkspace: vi.fn() };
+});
+
+import { createWorkspace } from '../src/workspace.js';
+import { dirSize, WorkspaceManager, WorkspaceQuotaError } from '../src/workspace-manager.js';
+import type { QuotaExceeded } from '../src/workspace-manager.js';
+import { InMemoryProcessRepository } from '../src/process-repository.js';
+import type { AgentProcess } from '../src/process-manager.js';
+
+const MB = 1024 * 1024;
+/** Above any pid_max, so never a live process */
+const DEAD_PID = 2 ** 30;
+
+let root: string;
+
+function makeWorkspace(name: string, bytes = 1024, owner?: Record<string, unknown>): string {
+  const dir = path.join(root, name);
+  fs.mkdirSync(path.join(dir, 'src'), { recursive: true });
+  fs.writeFileSync(path.join(dir, 'src', 'file.bin'), Buffer.alloc(bytes));
+  if (owner) fs.writeFileSync(`${dir}.json`, JSON.stringify({ owner: 'acme', repo: 'api', createdAt: new Date().toISOString(), ...owner }));
+  return dir;
+}
+
+function processRecord(id: string, status: AgentProcess['status']): AgentProcess {
+  return { id, type: 'analyze', status, issueNumber: 7, owner: 'acme', repo: 'api', startedAt: new Date().toISOString(), logs: [] };
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'workspaces-'));
+  vi.mocked(createWorkspace).mockReset().mockImplementation(async (_owner, _repo, _token, options) => {
+    const wsPath = makeWorkspace(`deepagents-${options?.processId}`, 2 * MB);
+    return { path: wsPath, cleanup: vi.fn(async () => fs.rmSync(wsPath, { recursive: true, force: true })) };
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('dirSize', () => {
+  it('adds up file sizes recursively', async () => {
+    makeWorkspace('deepagents-a', 3000);
+    fs.writeFileSync(path.join(root, 'deepagents-a', 'README.md'), 'hello');
+    expect(await dirSize(path.join(root, 'deepagents-a'))).toBe(3005);
+    expect(await dirSize(path.join(root, 'missing'))).toBe(0);
+  });
+});
+
+describe('WorkspaceManager.usage', () => {
+  it('lists workspaces with size, owner and process, and counts mirrors in the total', async () => {
+    const processRepository = new InMemoryProcessRepository();
+    processRepository.save(processRecord('analyze-7-1', 'running'));
+    makeWorkspace('deepagents-analyze-7-1', 4096, { pid: process.ppid, processId: 'analyze-7-1' });
+    fs.mkdirSync(path.join(root, 'mirrors', 'acme', 'api.git'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'mirrors', 'acme', 'api.git', 'pack'), Buffer.alloc(10_000));
+
+    const usage = await new WorkspaceManager({ root, processRepository, quota: { maxTotalMb: 100 } }).usage();
+    expect(usage.quota).toEqual({ maxTotalMb: 100 });
+    expect(usage.workspaces).toHaveLength(1);
+    expect(usage.workspaces[0]).toMatchObject({
+      name: 'deepagents-analyze-7-1',
+      processId: 'analyze-7-1',
+      owner: 'acme',
+      repo: 'api',
+      sizeBytes: 4096,
+      state: 'live',
+      process: { id: 'analyze-7-1', type: 'analyze', status: 'running', issueNumber: 7 },
+    });
+    expect(usage.totalBytes).toBeGreaterThanOrEqual(14_096);
+  });
+
+  it('returns nothing when .workspaces/ does not exist', async () => {
+    const usage = await new WorkspaceManager({ root: path.join(root, 'missing') }).usage();
+    expect(usage).toEqual({ workspaces: [], totalBytes: 0, quota: {} });
+  });
+});
+
+describe('WorkspaceManager.sweep', () => {
+  it('removes workspaces of finished processes and exited owners', async () => {
+    const processRepository = new InMemoryProcessRepository();
+    processRepository.save(processRecord('done', 'completed'));
+    processRepository.save(processRecord('busy', 'running'));
+    makeWorkspace('deepagents-done', 1024, { pid: process.ppid, processId: 'done' });
+    makeWorkspace('deepagents-busy', 1024, { pid: process.ppid, processId: 'busy' });
+    makeWorkspace('deepagents-crashed', 1024, { pid: DEAD_PID, processId: 'crashed' });
+
+    const manager = new WorkspaceManager({ root, processRepository });
+    const usage = await manager.usage();
+    expect(usage.workspaces.find(w => w.name === 'deepagents-done')?.reason).toBe('process done is completed');
+    expect(usage.workspaces.find(w => w.name === 'deepagents-crashed')?.reason).toBe(`owner pid ${DEAD_PID} has exited`);
+
+    const result = await manager.sweep();
+    expect(result.removed.sort()).toEqual(['deepagents-crashed', 'deepagents-done']);
+    expect(fs.readdirSync(root).sort()).toEqual(['deepagents-busy', 'deepagents-busy.json']);
+  });
+
+  it('only removes workspaces without an owner file once they are old', async () => {
+    const young = makeWorkspace('deepagents-1700000000000');
+    const old = makeWorkspace('deepagents-1600000000000');
+    const twoHoursAgo = new Date(Date.now() - 2 * 3_600_000);
+    fs.utimesSync(old, twoHoursAgo, twoHoursAgo);
+
+    const result = await new WorkspaceManager({ root }).sweep();
+    expect(result.removed).toEqual(['deepagents-1600000000000']);
+    expect(fs.existsSync(young)).toBe(true);
+  });
+
+  it('drops owner files whose workspace is gone', async () => {
+    fs.writeFileSync(path.join(root, 'deepagents-gone.json'), '{}');
+    await new WorkspaceManager({ root }).sweep();
+    expect(fs.existsSync(path.join(root, 'deepagents-gone.json'))).toBe(false);
+  });
+
+  it('reports live workspaces over the per-workspace quota', async () => {
+    const manager = new WorkspaceManager({ root, quota: { maxWorkspaceMb: 3 } });
+    const events: QuotaExceeded[] = [];
+    manager.on('quota_exceeded', e => events.push(e));
+    const ws = await manager.create('acme', 'api', 'tok', { processId: 'p1' });
+    fs.writeFileSync(path.join(ws.path, 'big.bin'), Buffer.alloc(2 * MB));
+
+    const result = await manager.sweep();
+    expect(result.removed).toEqual([]);
+    expect(events).toEqual([{ processId: 'p1', path: ws.path, reason: expect.stringContaining('deepagents-p1 uses 4.0 MB of 3 MB (WORKSPACE_MAX_MB)') }]);
+    expect(fs.existsSync(ws.path)).toBe(true);
+  });
+
+  it('reports the largest live workspace while the total is over quota', async () => {
+    const manager = new WorkspaceManager({ root, quota: { maxTotalMb: 5 } });
+    const events: QuotaExceeded[] = [];
+    manager.on('quota_exceeded', e => events.push(e));
+    await manager.create('acme', 'api', 'tok', { processId: 'small' });
+    const big = await manager.create('acme', 'api', 'tok', { processId: 'big' });
+    fs.writeFileSync(path.join(big.path, 'big.bin'), Buffer.alloc(2 * MB));
+
+    await manager.sweep();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ processId: 'big', reason: expect.stringContaining('(WORKSPACES_MAX_TOTAL_MB); deepagents-big is the largest workspace') });
+  });
+});
+
+describe('WorkspaceManager.create', () => {
+  it('records the owner and forgets the workspace on cleanup', async () => {
+    const manager = new WorkspaceManager({ root });
+    const ws = await manager.create('acme', 'api', 'tok', { processId: 'p1', branch: 'main' });
+    expect(createWorkspace).toHaveBeenCalledWith('acme', 'api', 'tok', { processId: 'p1', branch: 'main' });
+    expect(JSON.parse(fs.readFileSync(`${ws.path}.json`, 'utf-8'))).toMatchObject({ pid: process.pid, processId: 'p1', owner: 'acme', repo: 'api' });
+    expect((await manager.usage()).workspaces[0].state).toBe('live');
+
+    await ws.cleanup();
+    expect(fs.readdirSync(root)).toEqual([]);
+  });
+
+  it('treats its own workspaces as orphans once no longer tracked', async () => {
+    const ws = await new WorkspaceManager({ root }).create('acme', 'api', 'tok', { processId: 'p1' });
+    // A new manager (e.g. after setWorkspaceManager) did not create it
+    const usage = await new WorkspaceManager({ root }).usage();
+    expect(usage.workspaces[0]).toMatchObject({ name: path.basename(ws.path), state: 'orphan' });
+  });
+
+  it('refuses a new workspace when .workspaces/ is over the total quota', async () => {
+    makeWorkspace('deepagents-existing', 3 * MB, { pid: process.ppid });
+    const manager = new WorkspaceManager({ root, quota: { maxTotalMb: 3 } });
+    await expect(manager.create('acme', 'api', 'tok', { processId: 'p1' })).rejects.toThrow(WorkspaceQuotaError);
+    await expect(manager.create('acme', 'api', 'tok', { processId: 'p1' })).rejects.toThrow('Workspace disk quota exceeded: .workspaces/ uses 3.0 MB of 3 MB (WORKSPACES_MAX_TOTAL_MB)');
+    expect(createWorkspace).not.toHaveBeenCalled();
+  });
+
+  it('saves installed dependencies on cleanup and restores them into the next workspace', async () => {
+    vi.mocked(createWorkspace).mockImplementation(async (_owner, _repo, _token, options) => {
+      const wsPath = makeWorkspace(`deepagents-${options?.processId}`);
+      fs.writeFileSync(path.join(wsPath, 'pnpm-lock.yaml'), 'lockfileVersion: 9');
+      return { path: wsPath, cleanup: vi.fn(async () => fs.rmSync(wsPath, { recursive: true, force: true })) };
+    });
+    const manager = new WorkspaceManager({ root });
+    const first = await manager.create('acme', 'api', 'tok', { processId: 'p1' });
+    fs.mkdirSync(path.join(first.path, 'node_modules', 'vitest'), { recursive: true });
+    fs.writeFileSync(path.join(first.path, 'node_modules', 'vitest', 'package.json'), '{}');
+    await first.cleanup();
+    expect(fs.readdirSync(path.join(root, 'deps', 'acme', 'api'))).toEqual([expect.stringMatching(/^pnpm-/)]);
+
+    const second = await manager.create('acme', 'api', 'tok', { processId: 'p2' });
+    expect(fs.existsSync(path.join(second.path, 'node_modules', 'vitest', 'package.json'))).toBe(true);
+  });
+
+  it('removes a checkout that alone exceeds the per-workspace quota', async () => {
+    const manager = new WorkspaceManager({ root, quota: { maxWorkspaceMb: 1 } });
+    await expect(manager.create('acme', 'api', 'tok', { processId: 'p1' })).rejects.toThrow(
+      'Workspace disk quota exceeded: the checkout of acme/api uses 2.0 MB of 1 MB (WORKSPACE_MAX_MB)',
+    );
+    expect(fs.readdirSync(root)).toEqual([]);
+  });
+});